@@ -0,0 +1,28 @@
+/**
+ * Master key rotation: re-wraps every users.encrypted_dek (and any pending
+ * DEK) with a new master key. Encrypted data is not touched.
+ *
+ * Steps:
+ *   1. Set ENCRYPTION_MASTER_KEY_PREVIOUS to the current key and
+ *      ENCRYPTION_MASTER_KEY to the new one, in .env and in the deployed app
+ *      (the app unwraps DEKs with either key in the meantime)
+ *   2. Run: pnpm tsx scripts/rotate-master-key.ts
+ *   3. Remove ENCRYPTION_MASTER_KEY_PREVIOUS everywhere
+ *
+ * Resumable: re-run to continue after an interruption. DEKs already wrapped
+ * with the new key are skipped.
+ */
+
+import "dotenv/config"
+import { runRotateMasterKeyJob } from "../src/lib/encryption/jobs"
+
+runRotateMasterKeyJob((message) => console.log(message))
+	.then(({ rowsUpdated }) => {
+		console.log(`\nRotation complete: ${rowsUpdated} users re-wrapped`)
+		console.log("ENCRYPTION_MASTER_KEY_PREVIOUS can now be removed.")
+		process.exit(0)
+	})
+	.catch((error) => {
+		console.error("Rotation failed (re-run to resume):", error)
+		process.exit(1)
+	})
@@ -0,0 +1,43 @@
+/**
+ * Per-user DEK rotation: generates a new DEK for one user, re-encrypts all of
+ * their rows with it, then retires the old one.
+ *
+ * Usage: pnpm tsx scripts/rotate-user-dek.ts <user id or email>
+ *
+ * The app keeps working during the rotation: new writes use the new DEK and
+ * reads fall back to the old one for rows not moved yet. Resumable: re-run
+ * with the same user to continue after an interruption.
+ */
+
+import "dotenv/config"
+import { eq } from "drizzle-orm"
+import { db } from "../src/db/drizzle"
+import { users } from "../src/db/schema"
+import { runRotateDekJob } from "../src/lib/encryption/jobs"
+
+const run = async () => {
+	const target = process.argv[2]
+	if (!target) {
+		console.error("Usage: pnpm tsx scripts/rotate-user-dek.ts <user id or email>")
+		process.exit(1)
+	}
+
+	const user = await db.query.users.findFirst({
+		where: target.includes("@") ? eq(users.email, target.toLowerCase()) : eq(users.id, target),
+		columns: { id: true, email: true },
+	})
+	if (!user) {
+		console.error(`No user found for ${target}`)
+		process.exit(1)
+	}
+
+	console.log(`Rotating DEK for ${user.email}`)
+	const { rowsScanned, rowsUpdated } = await runRotateDekJob(user.id, (message) => console.log(message))
+	console.log(`\nRotation complete: ${rowsUpdated} of ${rowsScanned} rows re-encrypted`)
+	process.exit(0)
+}
+
+run().catch((error) => {
+	console.error("Rotation failed (re-run to resume):", error)
+	process.exit(1)
+})
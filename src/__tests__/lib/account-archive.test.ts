@@ -0,0 +1,250 @@
+/**
+ * Tests for the account archive file format: ZIP round trip, CSV copies and
+ * reading uploaded archives back.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import { createZip, readZip } from "@/lib/account-archive/zip"
+import { toCsv } from "@/lib/account-archive/csv"
+import {
+	ARCHIVE_MANIFEST_NAME,
+	createAccountArchiveZip,
+	getArchiveFileName,
+	parseAccountArchive,
+	toArchiveEntries,
+} from "@/lib/account-archive/format"
+import { getArchiveTradeAttachments, getAvailableAccountName } from "@/lib/account-archive/import"
+import type { AccountArchive } from "@/lib/validations/account-archive"
+
+vi.mock("@/db/drizzle", () => ({ db: {} }))
+
+const buildArchive = (): AccountArchive => ({
+	format: "axion-account-archive",
+	version: 1,
+	exportedAt: new Date("2026-10-18T12:00:00.000Z"),
+	account: {
+		name: "Conta Principal",
+		description: null,
+		accountType: "personal",
+		propFirmName: null,
+		profitSharePercentage: "100.00",
+		dayTradeTaxRate: "20.00",
+		swingTradeTaxRate: "15.00",
+		defaultCommission: "0",
+		defaultFees: "0",
+		defaultCurrency: "BRL",
+		defaultBreakevenTicks: 2,
+		defaultAsset: "WINFUT",
+		showTaxEstimates: true,
+		showPropCalculations: true,
+		brand: "bravo",
+		replayStartDate: null,
+		replayCurrentDate: null,
+	},
+	timeframes: [{ code: "5m", isEnabled: true }],
+	tags: [{ id: "tag-1", name: "fomo", type: "mistake", color: "#ff0000", description: null }],
+	conditions: [],
+	strategies: [
+		{
+			id: "strategy-1",
+			code: "BRK",
+			name: "Breakout",
+			description: null,
+			entryCriteria: null,
+			exitCriteria: null,
+			riskRules: null,
+			targetRMultiple: "2.00",
+			maxRiskPercent: null,
+			screenshotUrl: null,
+			notes: null,
+			isActive: true,
+			conditions: [],
+			scenarios: [],
+		},
+	],
+	trades: [
+		{
+			id: "trade-1",
+			asset: "WINZ26",
+			direction: "long",
+			timeframeCode: "5m",
+			entryDate: new Date("2026-10-16T12:30:00.000Z"),
+			exitDate: new Date("2026-10-16T13:05:00.000Z"),
+			entryPrice: "128500",
+			exitPrice: "128650",
+			positionSize: "2",
+			stopLoss: "128400",
+			takeProfit: null,
+			plannedRiskAmount: "4000",
+			plannedRMultiple: null,
+			pnl: "6000",
+			pnlPercent: null,
+			realizedRMultiple: "1.50",
+			outcome: "win",
+			mfe: null,
+			mae: null,
+			mfeR: null,
+			maeR: null,
+			commission: null,
+			fees: null,
+			contractsExecuted: "4",
+			preTradeThoughts: "Waited for the retest, then \"went\" in",
+			postTradeReflection: null,
+			lessonLearned: null,
+			disciplineNotes: null,
+			strategyId: "strategy-1",
+			setupRank: "AA",
+			attachments: [
+				{
+					kind: "image",
+					url: "https://files.example.com/trades/trade-1/1-a.png",
+					thumbnailUrl: "https://files.example.com/trades/trade-1/1-a.thumb.webp",
+					fileName: "entry.png",
+					contentType: "image/png",
+					sizeBytes: 48213,
+					caption: "Retest of the breakout",
+					sortOrder: 0,
+				},
+			],
+			followedPlan: true,
+			executionMode: "simple",
+			totalEntryQuantity: null,
+			totalExitQuantity: null,
+			avgEntryPrice: null,
+			avgExitPrice: null,
+			remainingQuantity: "0",
+			isArchived: false,
+			source: "manual",
+			createdAt: new Date("2026-10-16T13:10:00.000Z"),
+			tagIds: ["tag-1"],
+			executions: [],
+		},
+	],
+	monthlyPlans: [],
+	checklists: [],
+	dailyNotes: [
+		{
+			date: new Date("2026-10-16T03:00:00.000Z"),
+			preMarketNotes: "Payroll day",
+			postMarketNotes: null,
+			mood: "good",
+		},
+	],
+	accountAssets: [],
+	assetSettings: [],
+	dailyAssetSettings: [],
+})
+
+describe("zip", () => {
+	it("should round-trip stored and deflated entries", () => {
+		const repeated = "trade,".repeat(500)
+		const zip = createZip([
+			{ name: "a.txt", data: "x" },
+			{ name: "b/notes.csv", data: repeated },
+			{ name: "binary.bin", data: Buffer.from([0, 255, 10, 13]) },
+		])
+
+		const files = readZip(zip)
+		expect(files.get("a.txt")?.toString()).toBe("x")
+		expect(files.get("b/notes.csv")?.toString()).toBe(repeated)
+		expect([...files.get("binary.bin")!]).toEqual([0, 255, 10, 13])
+		expect(zip.length).toBeLessThan(repeated.length)
+	})
+
+	it("should reject files that are not ZIPs", () => {
+		expect(() => readZip(Buffer.from("not a zip at all, just some text"))).toThrow("Not a ZIP file")
+	})
+
+	it("should detect corrupted entries", () => {
+		const zip = createZip([{ name: "a.txt", data: "hello" }])
+		// "hello" is stored uncompressed right after the 30-byte header and name
+		zip[30 + "a.txt".length] = "j".charCodeAt(0)
+
+		expect(() => readZip(zip)).toThrow("Checksum mismatch")
+	})
+})
+
+describe("toCsv", () => {
+	it("should quote values with separators, quotes and line breaks", () => {
+		const csv = toCsv(
+			[{ note: 'said "hi", left', lines: "a\nb", empty: null, when: new Date("2026-01-02T03:04:05.000Z") }],
+			["note", "lines", "empty", "when"]
+		)
+
+		expect(csv).toBe('note,lines,empty,when\r\n"said ""hi"", left","a\nb",,2026-01-02T03:04:05.000Z\r\n')
+	})
+})
+
+describe("account archive format", () => {
+	it("should read back what was exported", () => {
+		const archive = buildArchive()
+		const parsed = parseAccountArchive(createAccountArchiveZip(archive))
+
+		expect(parsed).toEqual({ archive })
+	})
+
+	it("should accept account.json on its own", () => {
+		const archive = buildArchive()
+		const manifest = toArchiveEntries(archive).find((entry) => entry.name === ARCHIVE_MANIFEST_NAME)!
+
+		expect(parseAccountArchive(Buffer.from(manifest.data))).toEqual({ archive })
+	})
+
+	it("should write trade CSVs with strategy codes and tag names", () => {
+		const files = readZip(createAccountArchiveZip(buildArchive()))
+		const [header, row] = files.get("trades.csv")!.toString().split("\r\n")
+
+		expect(header.split(",")).toContain("tags")
+		expect(row).toContain(",BRK,")
+		expect(row).toContain('"Waited for the retest, then ""went"" in"')
+		expect(row.endsWith(",fomo")).toBe(true)
+	})
+
+	it("should reject archives from a newer version", () => {
+		const json = JSON.stringify({ ...buildArchive(), version: 2 })
+
+		expect(parseAccountArchive(Buffer.from(json))).toMatchObject({ error: "unsupportedVersion" })
+	})
+
+	it("should report invalid files and incomplete archives", () => {
+		expect(parseAccountArchive(Buffer.from("asset,direction\nWIN,long"))).toMatchObject({ error: "invalidFile" })
+		expect(parseAccountArchive(createZip([{ name: "trades.csv", data: "" }]))).toMatchObject({
+			error: "invalidFile",
+		})
+
+		const { trades: _trades, ...withoutTrades } = buildArchive()
+		expect(parseAccountArchive(Buffer.from(JSON.stringify(withoutTrades)))).toMatchObject({
+			error: "invalidArchive",
+		})
+	})
+
+	it("should name downloads after the account", () => {
+		expect(getArchiveFileName("Conta Prop — Ágil", new Date("2026-10-18T12:00:00.000Z"))).toBe(
+			"axion-conta-prop-agil-2026-10-18.zip"
+		)
+	})
+})
+
+describe("getAvailableAccountName", () => {
+	it("should add a counter to names already in use", () => {
+		expect(getAvailableAccountName("Main", new Set())).toBe("Main")
+		expect(getAvailableAccountName("Main", new Set(["Main", "Main (2)"]))).toBe("Main (3)")
+		expect(getAvailableAccountName("x".repeat(100), new Set(["x".repeat(100)]))).toHaveLength(100)
+	})
+})
+
+describe("getArchiveTradeAttachments", () => {
+	it("should turn the screenshot of older archives into an image attachment", () => {
+		const trade = { ...buildArchive().trades[0], attachments: [], screenshotUrl: "https://files.example.com/trades/t/9-x.webp" }
+
+		expect(getArchiveTradeAttachments(trade)).toEqual([
+			expect.objectContaining({ kind: "image", fileName: "9-x.webp", contentType: "image/webp", sortOrder: 0 }),
+		])
+	})
+
+	it("should keep attachments as exported", () => {
+		const trade = buildArchive().trades[0]
+
+		expect(getArchiveTradeAttachments(trade)).toBe(trade.attachments)
+	})
+})
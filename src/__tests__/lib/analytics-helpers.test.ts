@@ -0,0 +1,77 @@
+/**
+ * Tests for the MFE/MAE based analytics (exit efficiency, stop efficiency and
+ * money left on the table).
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	computeExitEfficiency,
+	computeStopEfficiency,
+	computeMoneyLeftOnTable,
+	type TradeForExcursion,
+} from "@/lib/analytics-helpers"
+
+const makeTrade = (overrides: Partial<TradeForExcursion>): TradeForExcursion => ({
+	id: "trade",
+	asset: "WIN",
+	strategyName: "Breakout",
+	outcome: "win",
+	realizedRMultiple: "1",
+	mfeR: "2",
+	maeR: "-0.3",
+	pnl: 10000,
+	plannedRiskAmount: 10000,
+	...overrides,
+})
+
+describe("computeExitEfficiency", () => {
+	it("should aggregate the captured share of the MFE", () => {
+		const result = computeExitEfficiency([
+			makeTrade({ id: "a", realizedRMultiple: "1", mfeR: "2" }),
+			makeTrade({ id: "b", realizedRMultiple: "2", mfeR: "2" }),
+			makeTrade({ id: "c", realizedRMultiple: null }),
+		])
+
+		expect(result.sampleSize).toBe(2)
+		expect(result.avgCapture).toBe(75)
+		expect(result.avgMfeR).toBe(2)
+		expect(result.avgRealizedR).toBe(1.5)
+		expect(result.points.map((p) => p.tradeId)).toEqual(["a", "b"])
+	})
+
+	it("should return an empty result without excursions", () => {
+		expect(computeExitEfficiency([makeTrade({ mfeR: null })]).sampleSize).toBe(0)
+	})
+})
+
+describe("computeStopEfficiency", () => {
+	it("should bucket the MAE of winners only", () => {
+		const result = computeStopEfficiency([
+			makeTrade({ maeR: "0" }),
+			makeTrade({ maeR: "-0.4" }),
+			makeTrade({ maeR: "-0.9" }),
+			makeTrade({ outcome: "loss", maeR: "-1" }),
+		])
+
+		expect(result.winnerCount).toBe(3)
+		expect(result.shallowWinnerPercent).toBeCloseTo(66.67, 1)
+		expect(result.buckets.map((b) => b.count)).toEqual([1, 1, 0, 1, 0])
+	})
+})
+
+describe("computeMoneyLeftOnTable", () => {
+	it("should size the uncaptured R by planned risk per group", () => {
+		const trades = [
+			makeTrade({ strategyName: "Breakout", realizedRMultiple: "1", mfeR: "2" }),
+			makeTrade({ strategyName: "Breakout", realizedRMultiple: "-1", mfeR: "0.5" }),
+			makeTrade({ strategyName: null, asset: "WDO", realizedRMultiple: "2", mfeR: "2" }),
+			makeTrade({ strategyName: "Pullback", plannedRiskAmount: null }),
+		]
+
+		expect(computeMoneyLeftOnTable(trades, "strategy")).toEqual([
+			{ group: "Breakout", tradeCount: 2, moneyLeft: 250, avgCapture: 0 },
+			{ group: "No Strategy", tradeCount: 1, moneyLeft: 0, avgCapture: 100 },
+		])
+		expect(computeMoneyLeftOnTable(trades, "asset").map((g) => g.group)).toEqual(["WIN", "WDO"])
+	})
+})
@@ -0,0 +1,72 @@
+/**
+ * Tests for the API key helpers (token generation and hashing, scope and expiry checks).
+ */
+
+import { describe, it, expect } from "vitest"
+import { hasApiKeyScope, isApiKeyExpired, parseApiKeyScopes } from "@/lib/api-keys"
+import {
+	API_KEY_PREFIX,
+	generateApiKeyToken,
+	getApiKeyDisplayPrefix,
+	hashApiKeyToken,
+} from "@/lib/api-key-tokens"
+
+describe("generateApiKeyToken", () => {
+	it("should produce distinct prefixed tokens", () => {
+		const first = generateApiKeyToken()
+		const second = generateApiKeyToken()
+
+		expect(first.startsWith(API_KEY_PREFIX)).toBe(true)
+		expect(first).not.toBe(second)
+		expect(getApiKeyDisplayPrefix(first)).toBe(first.slice(0, 12))
+	})
+})
+
+describe("hashApiKeyToken", () => {
+	it("should return a stable SHA-256 hex digest", () => {
+		const token = generateApiKeyToken()
+
+		expect(hashApiKeyToken(token)).toMatch(/^[0-9a-f]{64}$/)
+		expect(hashApiKeyToken(token)).toBe(hashApiKeyToken(token))
+		expect(hashApiKeyToken(token)).not.toBe(hashApiKeyToken(`${token}x`))
+	})
+})
+
+describe("parseApiKeyScopes", () => {
+	it("should keep known scopes and drop the rest", () => {
+		expect(parseApiKeyScopes('["trades:read","admin:all","analytics:read"]')).toEqual([
+			"trades:read",
+			"analytics:read",
+		])
+	})
+
+	it("should return no scopes for malformed JSON", () => {
+		expect(parseApiKeyScopes("not json")).toEqual([])
+		expect(parseApiKeyScopes('{"scope":"trades:read"}')).toEqual([])
+	})
+})
+
+describe("hasApiKeyScope", () => {
+	it("should let write scopes cover reads on the same resource", () => {
+		expect(hasApiKeyScope(["trades:write"], "trades:read")).toBe(true)
+		expect(hasApiKeyScope(["trades:write"], "plans:read")).toBe(false)
+	})
+
+	it("should not let read scopes cover writes", () => {
+		expect(hasApiKeyScope(["trades:read"], "trades:write")).toBe(false)
+		expect(hasApiKeyScope([], "analytics:read")).toBe(false)
+	})
+})
+
+describe("isApiKeyExpired", () => {
+	const now = new Date("2026-03-10T12:00:00Z")
+
+	it("should treat keys without an expiry as valid", () => {
+		expect(isApiKeyExpired(null, now)).toBe(false)
+	})
+
+	it("should expire keys at their expiry instant", () => {
+		expect(isApiKeyExpired(new Date("2026-03-10T12:00:00Z"), now)).toBe(true)
+		expect(isApiKeyExpired(new Date("2026-03-11T00:00:00Z"), now)).toBe(false)
+	})
+})
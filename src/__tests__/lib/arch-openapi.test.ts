@@ -0,0 +1,182 @@
+/**
+ * Contract tests for the Arch API OpenAPI registry: every route file must be
+ * registered with the scope it checks, validate with the schema the spec
+ * publishes, and read exactly the query params the spec lists.
+ */
+
+import { readdirSync, readFileSync } from "fs"
+import { join, relative } from "path"
+import { describe, it, expect } from "vitest"
+import type { z } from "zod"
+import { ARCH_OPERATIONS, buildArchOpenApiDocument, describeSchemaFields } from "@/app/api/arch/_lib/openapi"
+import type { ArchOperation } from "@/app/api/arch/_lib/openapi"
+import * as archSchemas from "@/app/api/arch/_lib/schemas"
+
+const ARCH_DIR = join(process.cwd(), "src/app/api/arch")
+
+interface RouteFile {
+	path: string
+	source: string
+	methods: string[]
+}
+
+const findRouteFiles = (dir: string): string[] =>
+	readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		if (entry.isDirectory()) return entry.name === "_lib" ? [] : findRouteFiles(join(dir, entry.name))
+		return entry.name === "route.ts" ? [join(dir, entry.name)] : []
+	})
+
+const routeFiles: RouteFile[] = findRouteFiles(ARCH_DIR).map((file) => {
+	const source = readFileSync(file, "utf8")
+	const exported = source.match(/^export \{([^}]*)\}/m)?.[1] ?? ""
+	return {
+		path: `/api/arch/${relative(ARCH_DIR, file).replace(/\/?route\.ts$/, "").replace(/\[(\w+)\]/g, "{$1}")}`,
+		source,
+		methods: exported.split(",").map((name) => name.trim()).filter(Boolean),
+	}
+})
+
+const operationsFor = (route: RouteFile): ArchOperation[] =>
+	ARCH_OPERATIONS.filter((operation) => operation.path === route.path)
+
+/** Export name of a schema in _lib/schemas, found by identity */
+const schemaName = (schema: z.ZodType): string | undefined =>
+	Object.entries(archSchemas).find(([, value]) => value === schema)?.[0]
+
+const FILTER_KEYS = [
+	...readFileSync(join(ARCH_DIR, "_lib/filters.ts"), "utf8").matchAll(/searchParams\.get\("(\w+)"\)/g),
+].map((match) => match[1])
+
+/** Query params a route reads, directly or through query.data / parseArchFilters */
+const readQueryKeys = (source: string): string[] => {
+	const keys = new Set<string>()
+	for (const match of source.matchAll(/searchParams\.get\("(\w+)"\)/g)) keys.add(match[1])
+	for (const match of source.matchAll(/query\.data\.(\w+)/g)) keys.add(match[1])
+	for (const match of source.matchAll(/const \{([^}]*)\} = query\.data/g)) {
+		match[1]
+			.split(",")
+			.map((entry) => entry.trim().split(/[:=\s]/)[0])
+			.filter(Boolean)
+			.forEach((key) => keys.add(key))
+	}
+	if (source.includes("parseArchFilters(")) FILTER_KEYS.forEach((key) => keys.add(key))
+	return [...keys].sort()
+}
+
+describe("Arch route registry", () => {
+	it("should register every route handler and nothing else", () => {
+		const handlers = routeFiles.flatMap((route) => route.methods.map((method) => `${method} ${route.path}`))
+		const registered = ARCH_OPERATIONS.map((operation) => `${operation.method} ${operation.path}`)
+
+		expect(handlers.sort()).toEqual(registered.sort())
+	})
+
+	it("should require the scope each route checks", () => {
+		for (const route of routeFiles) {
+			const checked = [...route.source.matchAll(/archAuth\(request, "([\w:]+)"\)/g)].map((match) => match[1])
+			const declared = operationsFor(route)
+				.map((operation) => operation.scope)
+				.filter((scope) => scope !== null)
+
+			expect(checked.sort(), route.path).toEqual(declared.sort())
+		}
+	})
+
+	it("should only declare path params for dynamic routes", () => {
+		for (const operation of ARCH_OPERATIONS) {
+			expect(Boolean(operation.pathParams), operation.path).toBe(operation.path.includes("{"))
+		}
+	})
+})
+
+describe("Arch route schemas", () => {
+	it("should have every registered schema exported from _lib/schemas", () => {
+		for (const operation of ARCH_OPERATIONS) {
+			for (const schema of [operation.query, operation.body, operation.pathParams]) {
+				if (schema) expect(schemaName(schema), `${operation.method} ${operation.path}`).toBeDefined()
+			}
+		}
+	})
+
+	it("should validate bodies with the schema the spec publishes", () => {
+		for (const route of routeFiles) {
+			const bodies = operationsFor(route).flatMap((operation) => (operation.body ? [operation.body] : []))
+			const parsed = [...route.source.matchAll(/parseArchBody\(request, (\w+)\)/g)].map((match) => match[1])
+
+			expect(parsed, route.path).toEqual(bodies.map(schemaName))
+		}
+	})
+
+	it("should validate query strings with the schema the spec publishes", () => {
+		for (const route of routeFiles) {
+			const queries = operationsFor(route).flatMap((operation) => (operation.query ? [operation.query] : []))
+			const parsed = [...route.source.matchAll(/parseArchQuery\([^,]+, (\w+)\)/g)].map((match) => match[1])
+
+			expect(parsed, route.path).toEqual(queries.map(schemaName))
+		}
+	})
+
+	it("should read exactly the query params the spec lists", () => {
+		for (const route of routeFiles) {
+			const declared = new Set(
+				operationsFor(route).flatMap((operation) => (operation.query ? Object.keys(operation.query.shape) : []))
+			)
+
+			expect(readQueryKeys(route.source), route.path).toEqual([...declared].sort())
+		}
+	})
+
+	it("should keep the shared filter schema in step with parseArchFilters", () => {
+		expect(Object.keys(archSchemas.archFilterQuerySchema.shape).sort()).toEqual([...FILTER_KEYS].sort())
+	})
+})
+
+describe("buildArchOpenApiDocument", () => {
+	const document = buildArchOpenApiDocument() as {
+		openapi: string
+		paths: Record<string, Record<string, Record<string, unknown>>>
+	}
+
+	it("should emit one OpenAPI operation per registry entry with unique ids", () => {
+		const operations = Object.values(document.paths).flatMap((methods) => Object.values(methods))
+		const ids = operations.map((operation) => operation.operationId)
+
+		expect(document.openapi).toBe("3.1.0")
+		expect(operations).toHaveLength(ARCH_OPERATIONS.length)
+		expect(new Set(ids).size).toBe(ids.length)
+		expect(document.paths["/api/arch/trades/{id}/executions"].get.operationId).toBe("getTradesByIdExecutions")
+	})
+
+	it("should describe query params with their required flag", () => {
+		const parameters = document.paths["/api/arch/analytics/performance"].get.parameters as {
+			name: string
+			in: string
+			required: boolean
+		}[]
+
+		expect(parameters.find((param) => param.name === "groupBy")).toMatchObject({ in: "query", required: true })
+		expect(parameters.find((param) => param.name === "dateFrom")).toMatchObject({ in: "query", required: false })
+	})
+
+	it("should publish request bodies and scopes", () => {
+		const createTrade = document.paths["/api/arch/trades/create"].post
+		const body = createTrade.requestBody as {
+			content: { "application/json": { schema: { required: string[] } } }
+		}
+
+		expect(createTrade.security).toEqual([{ apiKey: ["trades:write"] }])
+		expect(body.content["application/json"].schema.required.sort()).toEqual(
+			["asset", "direction", "entryDate", "entryPrice", "positionSize"].sort()
+		)
+		expect(document.paths["/api/arch/docs"].get.security).toEqual([])
+	})
+})
+
+describe("describeSchemaFields", () => {
+	it("should treat fields required by every union branch as required", () => {
+		expect(describeSchemaFields(archSchemas.dataSourceSchema)).toEqual({
+			required: ["type"],
+			optional: ["strategyId"],
+		})
+	})
+})
@@ -0,0 +1,206 @@
+/**
+ * Tests for field encryption helpers: plaintext passthrough during migration,
+ * master key rotation, per-user DEK rotation, values nested in import snapshots
+ * and the per-table helpers matching the registry.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest"
+import {
+	decryptDek,
+	decryptField,
+	encrypt,
+	encryptDek,
+	encryptStoredValue,
+	generateKey,
+	isEncrypted,
+	reencryptStoredValue,
+	rewrapDek,
+	setRetiringDek,
+} from "@/lib/crypto"
+import { ENCRYPTED_TABLES } from "@/lib/encryption/tables"
+import {
+	decryptOpenPositionFields,
+	decryptPropEvaluationFields,
+	decryptPropRuleSetFields,
+	decryptTaxLedgerFields,
+	encryptOpenPositionFields,
+	encryptPropEvaluationFields,
+	encryptPropRuleSetFields,
+	encryptTaxLedgerFields,
+} from "@/lib/user-crypto"
+import type { EncryptedTableName } from "@/types/encryption"
+
+// user-crypto reads DEKs from the database; these tests never do
+vi.mock("@/db/drizzle", () => ({ db: {} }))
+
+const OLD_MASTER_KEY = "a".repeat(64)
+const NEW_MASTER_KEY = "b".repeat(64)
+
+beforeEach(() => {
+	vi.spyOn(console, "error").mockImplementation(() => {})
+	process.env.ENCRYPTION_MASTER_KEY = NEW_MASTER_KEY
+	delete process.env.ENCRYPTION_MASTER_KEY_PREVIOUS
+})
+
+afterEach(() => {
+	vi.restoreAllMocks()
+	delete process.env.ENCRYPTION_MASTER_KEY
+	delete process.env.ENCRYPTION_MASTER_KEY_PREVIOUS
+})
+
+describe("isEncrypted", () => {
+	it("should recognise ciphertext, including an encrypted empty string", () => {
+		const dek = generateKey()
+
+		expect(isEncrypted(encrypt("12345", dek))).toBe(true)
+		expect(isEncrypted(encrypt("", dek))).toBe(true)
+	})
+
+	it("should not mistake colon-separated notes for ciphertext", () => {
+		expect(isEncrypted("entry:late:fomo")).toBe(false)
+		expect(isEncrypted("12345")).toBe(false)
+		expect(isEncrypted(null)).toBe(false)
+	})
+})
+
+describe("decryptField", () => {
+	it("should pass plaintext through so unmigrated rows still read", () => {
+		expect(decryptField("-15000", generateKey())).toBe("-15000")
+	})
+
+	it("should fall back to the retiring DEK while a rotation runs", () => {
+		const oldDek = generateKey()
+		const newDek = generateKey()
+		const oldValue = encrypt("100", oldDek)
+
+		expect(decryptField(oldValue, newDek)).toBeNull()
+
+		setRetiringDek(newDek, oldDek)
+		expect(decryptField(oldValue, newDek)).toBe("100")
+		expect(decryptField(encrypt("200", newDek), newDek)).toBe("200")
+
+		setRetiringDek(newDek, null)
+		expect(decryptField(oldValue, newDek)).toBeNull()
+	})
+})
+
+describe("master key rotation", () => {
+	it("should unwrap DEKs with the previous master key until they are re-wrapped", () => {
+		process.env.ENCRYPTION_MASTER_KEY = OLD_MASTER_KEY
+		const dek = generateKey()
+		const wrapped = encryptDek(dek)
+
+		process.env.ENCRYPTION_MASTER_KEY = NEW_MASTER_KEY
+		expect(decryptDek(wrapped)).toBeNull()
+
+		process.env.ENCRYPTION_MASTER_KEY_PREVIOUS = OLD_MASTER_KEY
+		expect(decryptDek(wrapped)).toBe(dek)
+
+		const rewrapped = rewrapDek(wrapped)
+		expect(rewrapped).not.toBeNull()
+
+		delete process.env.ENCRYPTION_MASTER_KEY_PREVIOUS
+		expect(decryptDek(rewrapped!.encryptedDek)).toBe(dek)
+	})
+
+	it("should skip DEKs already wrapped with the current key", () => {
+		expect(rewrapDek(encryptDek(generateKey()))).toBeNull()
+	})
+
+	it("should refuse DEKs neither key can open", () => {
+		const foreign = encrypt(generateKey(), "c".repeat(64))
+		process.env.ENCRYPTION_MASTER_KEY_PREVIOUS = OLD_MASTER_KEY
+
+		expect(() => rewrapDek(foreign)).toThrow("unknown master key")
+	})
+})
+
+describe("stored value migration", () => {
+	it("should encrypt plaintext once and leave ciphertext alone", () => {
+		const dek = generateKey()
+		const encrypted = encryptStoredValue("2500", dek)
+
+		expect(decryptField(encrypted, dek)).toBe("2500")
+		expect(encryptStoredValue(encrypted, dek)).toBe(encrypted)
+	})
+
+	it("should move values to the new DEK and skip ones already moved", () => {
+		const oldDek = generateKey()
+		const newDek = generateKey()
+
+		const moved = reencryptStoredValue(encrypt("note", oldDek), oldDek, newDek)
+		expect(decryptField(moved, newDek)).toBe("note")
+		expect(reencryptStoredValue(moved, oldDek, newDek)).toBe(moved)
+		expect(decryptField(reencryptStoredValue("plain", oldDek, newDek), newDek)).toBe("plain")
+	})
+
+	it("should fail on values encrypted with an unrelated DEK", () => {
+		const stray = encrypt("x", generateKey())
+
+		expect(() => reencryptStoredValue(stray, generateKey(), generateKey())).toThrow()
+	})
+})
+
+describe("import snapshot values", () => {
+	const spec = ENCRYPTED_TABLES.find((candidate) => candidate.name === "import_batch_trade_snapshots")
+
+	it("should re-encrypt the trade and execution values nested in a snapshot", async () => {
+		const oldDek = generateKey()
+		const newDek = generateKey()
+		const json = JSON.stringify({
+			trade: { entryDate: "2026-03-02T12:00:00.000Z", entryPrice: encrypt("128500", oldDek), pnl: null },
+			executions: [{ id: "e1", price: encrypt("128500", oldDek), quantity: "2" }],
+		})
+
+		const moved = JSON.parse(
+			await spec!.mapNestedValues!(json, (value) => reencryptStoredValue(value, oldDek, newDek))
+		)
+
+		expect(moved.trade.entryDate).toBe("2026-03-02T12:00:00.000Z")
+		expect(moved.trade.pnl).toBeNull()
+		expect(decryptField(moved.trade.entryPrice, newDek)).toBe("128500")
+		expect(decryptField(moved.executions[0].price, newDek)).toBe("128500")
+		expect(decryptField(moved.executions[0].quantity, newDek)).toBe("2")
+		expect(moved.executions[0].id).toBe("e1")
+	})
+
+	it("should return the same JSON when nothing changes", async () => {
+		const dek = generateKey()
+		const json = JSON.stringify({ trade: { fees: encrypt("0", dek) }, executions: [] })
+
+		expect(await spec!.mapNestedValues!(json, (value) => encryptStoredValue(value, dek))).toBe(json)
+	})
+})
+
+describe("table helpers", () => {
+	const helpers: [
+		EncryptedTableName,
+		(fields: Record<string, string>, dek: string) => Record<string, string | null>,
+		(row: Record<string, unknown>, dek: string) => Record<string, unknown>,
+	][] = [
+		[
+			"open_positions",
+			({ remainingQuantity, averagePrice }, dek) => ({ ...encryptOpenPositionFields({ remainingQuantity, averagePrice }, dek) }),
+			decryptOpenPositionFields,
+		],
+		["prop_rule_sets", encryptPropRuleSetFields, decryptPropRuleSetFields],
+		["prop_evaluations", encryptPropEvaluationFields, decryptPropEvaluationFields],
+		["tax_ledger_entries", encryptTaxLedgerFields, decryptTaxLedgerFields],
+	]
+
+	it.each(helpers)("should encrypt exactly the registered columns of %s", (name, encryptFields, decryptFields) => {
+		const dek = generateKey()
+		const columns = Object.keys(ENCRYPTED_TABLES.find((spec) => spec.name === name)!.columns)
+		const plain = Object.fromEntries(columns.map((column) => [column, "12345"]))
+
+		const sealed = encryptFields(plain, dek)
+		const opened = decryptFields({ id: "row-1", ...sealed }, dek)
+
+		expect(Object.keys(sealed).toSorted()).toEqual(columns.toSorted())
+		expect(Object.values(sealed).every((value) => isEncrypted(value))).toBe(true)
+		for (const column of columns) {
+			expect(Number(opened[column])).toBe(12345)
+		}
+		expect(opened.id).toBe("row-1")
+	})
+})
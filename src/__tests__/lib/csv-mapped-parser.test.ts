@@ -0,0 +1,148 @@
+/**
+ * Tests for the column-mapping CSV parser (`parseMappedCSV`, `validateColumnMapping`,
+ * `suggestColumnMapping`).
+ *
+ * Covers date/time formats, decimal separators, side encodings (column and signed
+ * quantity), fee column sums and header suggestions for foreign platforms.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	DATE_ONLY_EXECUTION_TIME,
+	parseMappedCSV,
+	readCsvTable,
+	suggestColumnMapping,
+	validateColumnMapping,
+} from "@/lib/csv-parsers/mapped-parser"
+import type { CsvColumnMapping } from "@/lib/csv-parsers/types"
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const TRADOVATE_CSV = [
+	"Fill Time,Contract,B/S,Filled Qty,Avg Price,Commission,Exchange Fee",
+	"02/25/2026 9:15:30 AM,MESH6,Buy,2,\"5,210.25\",1.24,0.70",
+	"02/25/2026 1:05:10 PM,MESH6,Sell,2,\"5,214.50\",1.24,0.70",
+	"02/25/2026 1:06:00 PM,MESH6,Cancelled,1,5214.50,0,0",
+].join("\n")
+
+const tradovateMapping: CsvColumnMapping = {
+	delimiter: "auto",
+	columns: {
+		date: "Fill Time",
+		time: null,
+		asset: "Contract",
+		side: "B/S",
+		quantity: "Filled Qty",
+		price: "Avg Price",
+		fees: ["Commission", "Exchange Fee"],
+	},
+	dateFormat: "MM/DD/YYYY",
+	decimalSeparator: ".",
+	sideEncoding: { buy: ["buy"], sell: ["sell"] },
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+describe("parseMappedCSV", () => {
+	it("should read combined date/time cells, 12h times and summed fee columns", () => {
+		const executions = parseMappedCSV(TRADOVATE_CSV, tradovateMapping, "Tradovate")
+
+		expect(executions).toHaveLength(2)
+		expect(executions[0]).toMatchObject({
+			date: "25/02/2026",
+			time: "09:15:30",
+			asset: "MESH6",
+			side: "BUY",
+			quantity: 2,
+			price: 5210.25,
+			broker: "Tradovate",
+		})
+		expect(executions[0].commission).toBeCloseTo(1.94)
+		expect(executions[1].time).toBe("13:05:10")
+	})
+
+	it("should take the side from a signed quantity with comma decimals", () => {
+		const csv = [
+			"Data;Hora;Ativo;Qtd;Preço;Corretagem",
+			"2026-02-25;09:15;WINJ26;3;128.450,00;1,50",
+			"2026-02-25;09:20;WINJ26;-3;128.520,00;1,50",
+		].join("\n")
+
+		const executions = parseMappedCSV(csv, {
+			delimiter: ";",
+			columns: { date: "Data", time: "Hora", asset: "Ativo", side: null, quantity: "Qtd", price: "Preço", fees: ["Corretagem"] },
+			dateFormat: "YYYY-MM-DD",
+			decimalSeparator: ",",
+			sideEncoding: { buy: [], sell: [] },
+		})
+
+		expect(executions.map((execution) => execution.side)).toEqual(["BUY", "SELL"])
+		expect(executions[1]).toMatchObject({ quantity: 3, price: 128520, commission: 1.5, time: "09:20:00" })
+	})
+
+	it("should give date-only rows the session open when no time column is mapped", () => {
+		const csv = [
+			"TradeDate,Symbol,Quantity,TradePrice,IBCommission",
+			"20260225,MESH6,2,5210.25,-1.24",
+			"20260225,MESH6,-2,5214.50,-1.24",
+		].join("\n")
+
+		const executions = parseMappedCSV(csv, {
+			delimiter: ",",
+			columns: { date: "TradeDate", time: null, asset: "Symbol", side: null, quantity: "Quantity", price: "TradePrice", fees: ["IBCommission"] },
+			dateFormat: "YYYYMMDD",
+			decimalSeparator: ".",
+			sideEncoding: { buy: [], sell: [] },
+		})
+
+		expect(executions).toHaveLength(2)
+		expect(executions.map((execution) => execution.time)).toEqual([DATE_ONLY_EXECUTION_TIME, DATE_ONLY_EXECUTION_TIME])
+		expect(executions.map((execution) => execution.side)).toEqual(["BUY", "SELL"])
+	})
+
+	it("should throw when a mapped column is missing from the file", () => {
+		expect(() =>
+			parseMappedCSV(TRADOVATE_CSV, {
+				...tradovateMapping,
+				columns: { ...tradovateMapping.columns, price: "Price" },
+			})
+		).toThrow("imports.errors.missingRequiredColumn")
+	})
+})
+
+// ==========================================
+// VALIDATION & SUGGESTIONS
+// ==========================================
+
+describe("validateColumnMapping", () => {
+	it("should require side values when a side column is mapped", () => {
+		const { headers } = readCsvTable(TRADOVATE_CSV)
+		const result = validateColumnMapping(headers, {
+			...tradovateMapping,
+			sideEncoding: { buy: [], sell: [] },
+		})
+
+		expect(result).toEqual({ valid: false, error: "imports.errors.missingSideEncoding" })
+	})
+})
+
+describe("suggestColumnMapping", () => {
+	it("should guess common headings and fee columns", () => {
+		const { headers } = readCsvTable("Date,Time,Symbol,Side,Qty,Price,Commission,Notes\n")
+		const { columns } = suggestColumnMapping(headers)
+
+		expect(columns).toEqual({
+			date: "Date",
+			time: "Time",
+			asset: "Symbol",
+			side: "Side",
+			quantity: "Qty",
+			price: "Price",
+			fees: ["Commission"],
+		})
+	})
+})
@@ -0,0 +1,240 @@
+/**
+ * Unit tests for import batches — snapshots of enriched trades, closing a
+ * batch (empty runs are dropped, others notify webhooks) and rollback, which
+ * deletes what the batch created, restores what it enriched and refuses to
+ * run under a later import.
+ *
+ * The DB is mocked with chainable builders that resolve to canned rows.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+
+const {
+	dbMock,
+	requireAuthMock,
+	emitWebhookEventMock,
+	syncOpenPositionMock,
+	removeOpenPositionMock,
+} = vi.hoisted(() => ({
+	dbMock: {
+		query: {
+			importBatches: { findFirst: vi.fn() },
+			importBatchTradeSnapshots: { findMany: vi.fn() },
+			trades: { findFirst: vi.fn(), findMany: vi.fn() },
+			tradeExecutions: { findMany: vi.fn() },
+		},
+		insert: vi.fn(),
+		update: vi.fn(),
+		delete: vi.fn(),
+		selectDistinct: vi.fn(),
+	},
+	requireAuthMock: vi.fn(),
+	emitWebhookEventMock: vi.fn(),
+	syncOpenPositionMock: vi.fn(),
+	removeOpenPositionMock: vi.fn(),
+}))
+
+vi.mock("@/db/drizzle", () => ({ db: dbMock }))
+vi.mock("@/app/actions/auth", () => ({ requireAuth: requireAuthMock }))
+vi.mock("@/lib/cache/invalidate", () => ({ invalidateTradeData: vi.fn() }))
+vi.mock("@/lib/webhook-dispatcher", () => ({ emitWebhookEvent: emitWebhookEventMock }))
+vi.mock("@/lib/open-positions", () => ({
+	syncOpenPosition: syncOpenPositionMock,
+	removeOpenPosition: removeOpenPositionMock,
+}))
+vi.mock("@/lib/user-crypto", () => ({ getUserDek: vi.fn().mockResolvedValue("dek") }))
+
+import { importBatches, notaImports, tradeExecutions, trades } from "@/db/schema"
+import { completeImportBatch, parseTradeSnapshot, snapshotTradeForBatch } from "@/lib/import-batches"
+import { rollbackImportBatch } from "@/app/actions/import-batches"
+
+/** Query builder stand-in: every step returns itself, awaiting it yields `result` */
+const chain = (result: unknown = []) => {
+	const builder: Record<string, unknown> = {}
+	for (const step of ["from", "where", "set", "values", "returning", "onConflictDoNothing"]) {
+		builder[step] = vi.fn(() => builder)
+	}
+	builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+		Promise.resolve(result).then(resolve, reject)
+	return builder as Record<string, ReturnType<typeof vi.fn>>
+}
+
+const batch = {
+	id: "batch-1",
+	userId: "user-1",
+	accountId: "account-1",
+	source: "detailed_csv",
+	status: "completed",
+	createdAt: new Date("2026-03-02T12:00:00Z"),
+}
+
+const snapshotJson = JSON.stringify({
+	trade: {
+		entryDate: "2026-03-02T13:00:00.000Z",
+		exitDate: null,
+		executionMode: "scaled",
+		remainingQuantity: "2",
+		avgEntryPrice: "125000",
+	},
+	executions: [
+		{
+			id: "execution-1",
+			tradeId: "enriched-1",
+			executionDate: "2026-03-02T13:00:00.000Z",
+			createdAt: "2026-03-02T13:00:01.000Z",
+			updatedAt: "2026-03-02T13:00:01.000Z",
+		},
+	],
+})
+
+beforeEach(() => {
+	vi.clearAllMocks()
+	requireAuthMock.mockResolvedValue({ userId: "user-1", accountId: "account-1" })
+	dbMock.selectDistinct.mockImplementation(() => chain([]))
+})
+
+describe("parseTradeSnapshot", () => {
+	it("should turn the stored date strings back into Dates", () => {
+		const snapshot = parseTradeSnapshot(snapshotJson)
+
+		expect(snapshot.trade.entryDate).toEqual(new Date("2026-03-02T13:00:00.000Z"))
+		expect(snapshot.trade.exitDate).toBeNull()
+		expect(snapshot.executions[0].executionDate).toBeInstanceOf(Date)
+		expect(snapshot.executions[0].updatedAt).toEqual(new Date("2026-03-02T13:00:01.000Z"))
+	})
+})
+
+describe("snapshotTradeForBatch", () => {
+	it("should keep only the columns an import can overwrite, and the first snapshot", async () => {
+		dbMock.query.trades.findFirst.mockResolvedValue({
+			id: "enriched-1",
+			entryPrice: "iv:cipher:tag",
+			remainingQuantity: "1",
+			preTradeThoughts: "not restorable",
+		})
+		dbMock.query.tradeExecutions.findMany.mockResolvedValue([])
+		const insert = chain()
+		dbMock.insert.mockReturnValue(insert)
+
+		await snapshotTradeForBatch("batch-1", "enriched-1")
+
+		const stored = insert.values.mock.calls[0][0] as { snapshot: string }
+		const snapshot = JSON.parse(stored.snapshot)
+		expect(snapshot.trade.entryPrice).toBe("iv:cipher:tag")
+		expect(snapshot.trade.remainingQuantity).toBe("1")
+		expect(snapshot.trade).not.toHaveProperty("preTradeThoughts")
+		expect(insert.onConflictDoNothing).toHaveBeenCalled()
+	})
+
+	it("should store nothing for a missing trade", async () => {
+		dbMock.query.trades.findFirst.mockResolvedValue(undefined)
+
+		await snapshotTradeForBatch("batch-1", "missing")
+
+		expect(dbMock.insert).not.toHaveBeenCalled()
+	})
+})
+
+describe("completeImportBatch", () => {
+	it("should remove a batch that wrote nothing without notifying", async () => {
+		dbMock.delete.mockReturnValue(chain())
+
+		await completeImportBatch("batch-1", { tradesCreated: 0 })
+
+		expect(dbMock.delete).toHaveBeenCalledWith(importBatches)
+		expect(dbMock.update).not.toHaveBeenCalled()
+		expect(emitWebhookEventMock).not.toHaveBeenCalled()
+	})
+
+	it("should store the counts and emit import.completed", async () => {
+		const update = chain([{ ...batch, tradesCreated: 3, tradesEnriched: 1, executionsCreated: 8 }])
+		dbMock.update.mockReturnValue(update)
+
+		await completeImportBatch("batch-1", { tradesCreated: 3, tradesEnriched: 1, executionsCreated: 8 })
+
+		expect(update.set).toHaveBeenCalledWith({ tradesCreated: 3, tradesEnriched: 1, executionsCreated: 8 })
+		expect(emitWebhookEventMock).toHaveBeenCalledWith(
+			expect.objectContaining({
+				event: "import.completed",
+				data: expect.objectContaining({ batchId: "batch-1", tradesCreated: 3 }),
+			})
+		)
+	})
+})
+
+describe("rollbackImportBatch", () => {
+	it("should refuse a batch of another account or user", async () => {
+		dbMock.query.importBatches.findFirst.mockResolvedValue(undefined)
+
+		const result = await rollbackImportBatch("batch-1")
+
+		expect(result.status).toBe("error")
+		expect(result.errors?.[0].code).toBe("NOT_FOUND")
+	})
+
+	it("should refuse a batch that was already rolled back", async () => {
+		dbMock.query.importBatches.findFirst.mockResolvedValue({ ...batch, status: "rolled_back" })
+
+		const result = await rollbackImportBatch("batch-1")
+
+		expect(result.errors?.[0].code).toBe("ALREADY_ROLLED_BACK")
+	})
+
+	it("should refuse while a later import still touches the same trades", async () => {
+		dbMock.query.importBatches.findFirst
+			.mockResolvedValueOnce(batch)
+			.mockResolvedValueOnce({ id: "batch-2" })
+		dbMock.query.trades.findMany.mockResolvedValue([{ id: "created-1" }])
+		dbMock.query.importBatchTradeSnapshots.findMany.mockResolvedValue([])
+		dbMock.selectDistinct.mockImplementation(() => chain([{ batchId: "batch-2" }]))
+
+		const result = await rollbackImportBatch("batch-1")
+
+		expect(result.errors?.[0].code).toBe("LATER_IMPORT")
+		expect(dbMock.delete).not.toHaveBeenCalled()
+	})
+
+	it("should delete created trades and restore enriched ones from their snapshot", async () => {
+		dbMock.query.importBatches.findFirst.mockResolvedValue(batch)
+		dbMock.query.trades.findMany.mockResolvedValue([{ id: "created-1" }])
+		dbMock.query.importBatchTradeSnapshots.findMany.mockResolvedValue([
+			{ tradeId: "enriched-1", snapshot: snapshotJson },
+		])
+		dbMock.query.trades.findFirst.mockResolvedValue({ id: "enriched-1", asset: "WINFUT", direction: "long" })
+
+		const deletes = new Map<unknown, ReturnType<typeof chain>>([
+			[tradeExecutions, chain([{ id: "orphan-execution" }])],
+			[trades, chain([{ id: "created-1" }])],
+			[notaImports, chain()],
+		])
+		dbMock.delete.mockImplementation((table: unknown) => deletes.get(table))
+		const inserts = chain()
+		dbMock.insert.mockReturnValue(inserts)
+		const tradeUpdate = chain()
+		const batchUpdate = chain()
+		dbMock.update.mockImplementation((table: unknown) => (table === trades ? tradeUpdate : batchUpdate))
+
+		const result = await rollbackImportBatch("batch-1")
+
+		expect(result).toMatchObject({
+			status: "success",
+			data: { tradesDeleted: 1, tradesRestored: 1, executionsDeleted: 1 },
+		})
+		expect(dbMock.insert).toHaveBeenCalledWith(tradeExecutions)
+		expect(inserts.values).toHaveBeenCalledWith([
+			expect.objectContaining({ id: "execution-1", executionDate: new Date("2026-03-02T13:00:00.000Z") }),
+		])
+		expect(tradeUpdate.set).toHaveBeenCalledWith(
+			expect.objectContaining({ remainingQuantity: "2", entryDate: new Date("2026-03-02T13:00:00.000Z") })
+		)
+		// The restored trade still holds two contracts, so its open position comes back
+		expect(syncOpenPositionMock).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "enriched-1", accountId: "account-1" }),
+			2,
+			125000,
+			"dek"
+		)
+		expect(removeOpenPositionMock).not.toHaveBeenCalled()
+		expect(batchUpdate.set).toHaveBeenCalledWith(expect.objectContaining({ status: "rolled_back" }))
+	})
+})
@@ -0,0 +1,138 @@
+/**
+ * Tests for the exchange holiday rules and the trading calendar built from
+ * them (rule fallback, stored overrides, half days and session keys).
+ */
+
+import { describe, it, expect } from "vitest"
+import { generateMarketHolidays, getEasterSunday, isB3Holiday } from "@/lib/market/holidays"
+import { createTradingCalendar, shiftDateKey } from "@/lib/market/trading-calendar"
+import type { MarketHoliday } from "@/types/market-calendar"
+
+const datesOf = (holidays: MarketHoliday[]) => holidays.map((holiday) => holiday.date)
+
+describe("getEasterSunday", () => {
+	it("should match known Easter dates", () => {
+		expect(getEasterSunday(2025).toISOString().slice(0, 10)).toBe("2025-04-20")
+		expect(getEasterSunday(2026).toISOString().slice(0, 10)).toBe("2026-04-05")
+		expect(getEasterSunday(2027).toISOString().slice(0, 10)).toBe("2027-03-28")
+	})
+})
+
+describe("generateMarketHolidays", () => {
+	it("should place Carnival, Good Friday and Corpus Christi relative to Easter", () => {
+		const dates = datesOf(generateMarketHolidays("B3", 2027))
+
+		expect(dates).toContain("2027-02-08") // Carnival Monday
+		expect(dates).toContain("2027-02-09") // Carnival Tuesday
+		expect(dates).toContain("2027-03-26") // Good Friday
+		expect(dates).toContain("2027-05-27") // Corpus Christi
+	})
+
+	it("should mark Ash Wednesday as a late-opening half day", () => {
+		const ashWednesday = generateMarketHolidays("B3", 2026).find((holiday) => holiday.date === "2026-02-18")
+
+		expect(ashWednesday).toMatchObject({ sessionType: "half_day", opensAt: "13:00", closesAt: null })
+	})
+
+	it("should skip holidays that fall on a weekend", () => {
+		const dates = datesOf(generateMarketHolidays("B3", 2025))
+
+		expect(dates).not.toContain("2025-09-07") // Sunday
+		expect(dates).not.toContain("2025-11-15") // Saturday
+	})
+
+	it("should only add Black Awareness Day from 2024 on", () => {
+		expect(datesOf(generateMarketHolidays("B3", 2023))).not.toContain("2023-11-20")
+		expect(datesOf(generateMarketHolidays("B3", 2025))).toContain("2025-11-20")
+	})
+
+	it("should move NYSE holidays on a weekend to the observed weekday", () => {
+		const dates = datesOf(generateMarketHolidays("NYSE", 2026))
+
+		expect(dates).toContain("2026-07-03") // July 4th is a Saturday
+		expect(datesOf(generateMarketHolidays("NYSE", 2027))).toContain("2027-12-24") // Christmas is a Saturday
+	})
+
+	it("should not observe a Saturday New Year's Day on the previous Friday", () => {
+		expect(datesOf(generateMarketHolidays("NYSE", 2027))).not.toContain("2027-12-31")
+	})
+
+	it("should close NYSE early the day after Thanksgiving", () => {
+		const dayAfter = generateMarketHolidays("NYSE", 2026).find((holiday) => holiday.date === "2026-11-27")
+
+		expect(dayAfter).toMatchObject({ sessionType: "half_day", closesAt: "13:00" })
+	})
+})
+
+describe("isB3Holiday", () => {
+	it("should only report full closings", () => {
+		expect(isB3Holiday("2025-12-31")).toBe(true)
+		expect(isB3Holiday("2026-02-18")).toBe(false) // Ash Wednesday half day
+	})
+})
+
+describe("createTradingCalendar", () => {
+	const b3 = createTradingCalendar("B3", [])
+
+	it("should reject weekends and holidays but keep half days", () => {
+		expect(b3.isTradingDay("2026-02-13")).toBe(true) // Friday
+		expect(b3.isTradingDay("2026-02-14")).toBe(false) // Saturday
+		expect(b3.isTradingDay("2026-02-16")).toBe(false) // Carnival
+		expect(b3.isTradingDay("2026-02-18")).toBe(true) // Ash Wednesday
+	})
+
+	it("should step over a weekend followed by Carnival", () => {
+		expect(b3.getNextTradingDay("2026-02-13")).toBe("2026-02-18")
+		expect(b3.getPreviousTradingDay("2026-02-18")).toBe("2026-02-13")
+		expect(b3.getNextTradingDay("2025-12-30")).toBe("2026-01-02")
+	})
+
+	it("should list and count trading days inclusively", () => {
+		expect(b3.listTradingDays("2026-04-01", "2026-04-07")).toEqual([
+			"2026-04-01",
+			"2026-04-02",
+			"2026-04-06",
+			"2026-04-07",
+		])
+		expect(b3.countTradingDays("2026-04-07", "2026-04-01")).toBe(0)
+	})
+
+	it("should map non-trading days to the next session", () => {
+		expect(b3.getSessionKey("2026-02-14")).toBe("2026-02-18")
+		expect(b3.getSessionKey("2026-02-18")).toBe("2026-02-18")
+	})
+
+	it("should use stored holidays instead of the rules for that year", () => {
+		const stored: MarketHoliday = {
+			market: "B3",
+			date: "2026-03-10",
+			name: "Feriado de teste",
+			nameEn: "Test holiday",
+			sessionType: "closed",
+			opensAt: null,
+			closesAt: null,
+			source: "manual",
+		}
+		const calendar = createTradingCalendar("B3", [stored])
+
+		expect(calendar.isTradingDay("2026-03-10")).toBe(false)
+		// 2026 is stored, so its rule-based Carnival no longer applies...
+		expect(calendar.isTradingDay("2026-02-16")).toBe(true)
+		// ...while 2027 still falls back to the rules
+		expect(calendar.isTradingDay("2027-02-08")).toBe(false)
+		expect(calendar.getHoliday("2026-03-10")?.nameEn).toBe("Test holiday")
+	})
+
+	it("should ignore holidays of other markets", () => {
+		const nyse = createTradingCalendar("NYSE", generateMarketHolidays("B3", 2026))
+
+		expect(nyse.isTradingDay("2026-02-17")).toBe(true) // B3 Carnival
+	})
+})
+
+describe("shiftDateKey", () => {
+	it("should cross month and year boundaries", () => {
+		expect(shiftDateKey("2026-12-31", 1)).toBe("2027-01-01")
+		expect(shiftDateKey("2026-03-01", -1)).toBe("2026-02-28")
+	})
+})
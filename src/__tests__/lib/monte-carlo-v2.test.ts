@@ -0,0 +1,322 @@
+/**
+ * Unit tests for the Capital Expectancy (V2) engine — the pure functions that
+ * worker-thread jobs are assembled from: per-run seed streams, run summaries
+ * and `buildResultV2`, which must match `runMonteCarloV2` on one thread — the
+ * jobs themselves (progress, cancellation, empirical comparisons), plus the path
+ * statistics (target race, drawdown duration) summaries carry.
+ */
+
+import { Worker } from "node:worker_threads"
+import { describe, it, expect, vi } from "vitest"
+import { deriveSeed } from "@/lib/prng"
+import { FAN_MAX_POINTS, getFanSteps } from "@/lib/equity-fan"
+import {
+	buildResultV2,
+	getDayCountV2,
+	runMonteCarloV2,
+	seedParamsV2,
+	simulateRunV2,
+	summarizeRunV2,
+} from "@/lib/monte-carlo-v2"
+import {
+	JobCancelledError,
+	runMonteCarloV2InWorkers,
+	runMonteCarloV2Job,
+} from "@/lib/monte-carlo-v2-jobs"
+import type {
+	EmpiricalRSource,
+	RiskManagementProfileForSim,
+	SimulationParamsV2,
+	SimulationRunV2,
+} from "@/types/monte-carlo"
+
+const profile: RiskManagementProfileForSim = {
+	name: "Test profile",
+	baseRiskCents: 50_000,
+	rewardRiskRatio: 1.5,
+	winRate: 50,
+	breakevenRate: 10,
+	dailyTargetCents: null,
+	dailyLossLimitCents: 100_000,
+	lossRecoverySteps: [],
+	executeAllRegardless: false,
+	stopAfterSequence: false,
+	compoundingRiskPercent: 0,
+	stopOnFirstLoss: false,
+	weeklyLossLimitCents: null,
+	monthlyLossLimitCents: 500_000,
+	tradingDaysPerMonth: 22,
+	tradingDaysPerWeek: 5,
+	commissionPerTradeCents: 500,
+	riskSizingMode: "fixed",
+	riskPercent: null,
+	fixedRatioDeltaCents: null,
+	fixedRatioBaseContractRiskCents: null,
+	kellyDivisor: null,
+	limitMode: "fixedCents",
+	dailyLossPercent: null,
+	weeklyLossPercent: null,
+	monthlyLossPercent: null,
+	dailyLossR: null,
+	weeklyLossR: null,
+	monthlyLossR: null,
+	drawdownTiers: [],
+	drawdownRecoveryPercent: 50,
+	consecutiveLossRules: [],
+}
+
+const params: SimulationParamsV2 = {
+	profile,
+	simulationCount: 120,
+	initialBalance: 2_000_000,
+	monthsToTrade: 2,
+	ruinThresholdPercent: 50,
+	profitTargetPercent: 10,
+	drawdownFloorPercent: 10,
+	seed: 20240601,
+}
+
+vi.mock("@/db/drizzle", () => ({ db: {} }))
+
+const empiricalSource: EmpiricalRSource = {
+	method: "block",
+	blockLength: 3,
+	rMultiples: [1.5, -1, 2, -1, 0, 1.2, -1, -0.5, 3, -1],
+}
+
+describe("deriveSeed", () => {
+	it("should be deterministic and give each stream its own seed", () => {
+		const seeds = Array.from({ length: 1000 }, (_, i) => deriveSeed(7, i))
+
+		expect(new Set(seeds).size).toBe(1000)
+		expect(deriveSeed(7, 3)).toBe(seeds[3])
+		expect(deriveSeed(8, 3)).not.toBe(seeds[3])
+	})
+})
+
+describe("getFanSteps", () => {
+	it("should keep every step when there are few", () => {
+		expect(getFanSteps(5)).toEqual([0, 1, 2, 3, 4])
+	})
+
+	it("should cap long simulations and keep the first and last step", () => {
+		const steps = getFanSteps(1000)
+
+		expect(steps.length).toBeLessThanOrEqual(FAN_MAX_POINTS)
+		expect(steps[0]).toBe(0)
+		expect(steps[steps.length - 1]).toBe(999)
+	})
+})
+
+describe("runMonteCarloV2", () => {
+	it("should replay the same result from the same seed", () => {
+		const first = runMonteCarloV2(params)
+		const second = runMonteCarloV2(params)
+
+		expect(second.statistics).toEqual(first.statistics)
+		expect(second.equityFan).toEqual(first.equityFan)
+		expect(second.params.seed).toBe(params.seed)
+	})
+
+	it("should pick a seed when none is given", () => {
+		const { seed, ...unseeded } = params
+
+		expect(seed).toBeDefined()
+		expect(runMonteCarloV2(unseeded).params.seed).toEqual(expect.any(Number))
+	})
+})
+
+describe("buildResultV2", () => {
+	it("should match the single-pass result when runs are simulated in slices", () => {
+		const seeded = seedParamsV2(params)
+		const fanSteps = getFanSteps(getDayCountV2(seeded) + 1)
+		const summarize = (from: number, to: number) =>
+			Array.from({ length: to - from }, (_, i) =>
+				summarizeRunV2(
+					simulateRunV2(seeded, from + i),
+					from + i,
+					seeded,
+					fanSteps
+				)
+			)
+
+		// Slices may be assembled in any order
+		const summaries = [...summarize(70, 120), ...summarize(0, 70)].sort(
+			(a, b) => a.runIndex - b.runIndex
+		)
+		const expected = runMonteCarloV2(params)
+		const assembled = buildResultV2(seeded, summaries)
+
+		expect(assembled.statistics).toEqual(expected.statistics)
+		expect(assembled.distributionBuckets).toEqual(expected.distributionBuckets)
+		expect(assembled.equityFan).toEqual(expected.equityFan)
+		expect(assembled.sampleRun).toEqual(expected.sampleRun)
+	})
+})
+
+describe("runMonteCarloV2InWorkers", () => {
+	it("should match the single-pass result", async () => {
+		// More runs than one posted batch, so the result is assembled across messages
+		const longParams = { ...params, simulationCount: 600 }
+		const expected = runMonteCarloV2(longParams)
+		const assembled = await runMonteCarloV2InWorkers(longParams)
+
+		expect(assembled.statistics).toEqual(expected.statistics)
+		expect(assembled.distributionBuckets).toEqual(expected.distributionBuckets)
+		expect(assembled.equityFan).toEqual(expected.equityFan)
+	})
+})
+
+describe("runMonteCarloV2Job", () => {
+	it("should report progress up to every run and return the single-pass result", async () => {
+		const progress: number[] = []
+		const { result, comparison } = await runMonteCarloV2Job({
+			params,
+			empirical: null,
+			onProgress: (event) => {
+				expect(event.totalRuns).toBe(params.simulationCount)
+				progress.push(event.completedRuns)
+			},
+		})
+
+		expect(result.statistics).toEqual(runMonteCarloV2(params).statistics)
+		expect(comparison).toBeNull()
+		expect(progress[0]).toBe(0)
+		expect(progress).toEqual([...progress].sort((a, b) => a - b))
+		expect(progress[progress.length - 1]).toBeLessThanOrEqual(params.simulationCount)
+	})
+
+	it("should run both sides of an empirical comparison from one seed", async () => {
+		const bootstrap = {
+			method: empiricalSource.method,
+			blockLength: empiricalSource.blockLength,
+			sourceName: "Test account",
+			sampleSize: empiricalSource.rMultiples.length,
+			winRate: 50,
+			rewardRiskRatio: 1.5,
+			breakevenRate: 10,
+		}
+		let totalRuns = 0
+		const { result, comparison } = await runMonteCarloV2Job({
+			params,
+			empirical: { source: empiricalSource, bootstrap },
+			onProgress: (event) => {
+				totalRuns = event.totalRuns
+			},
+		})
+
+		expect(totalRuns).toBe(params.simulationCount * 2)
+		expect(comparison?.empirical).toBe(result)
+		expect(comparison?.bootstrap).toEqual(bootstrap)
+		expect(comparison?.parametric.params.seed).toBe(result.params.seed)
+		expect(comparison?.parametric.statistics).toEqual(
+			runMonteCarloV2({ ...params, seed: result.params.seed }).statistics
+		)
+	})
+
+	it("should reject with JobCancelledError once its signal aborts", async () => {
+		const controller = new AbortController()
+		const job = runMonteCarloV2Job({
+			params: { ...params, simulationCount: 5000 },
+			empirical: null,
+			signal: controller.signal,
+			onProgress: () => controller.abort(),
+		})
+
+		await expect(job).rejects.toBeInstanceOf(JobCancelledError)
+	})
+
+	it("should terminate its workers when aborted mid-run", async () => {
+		const terminate = vi.spyOn(Worker.prototype, "terminate")
+		const controller = new AbortController()
+		const job = runMonteCarloV2Job({
+			params: { ...params, simulationCount: 5000 },
+			empirical: null,
+			signal: controller.signal,
+			onProgress: (event) => {
+				if (event.completedRuns > 0) controller.abort()
+			},
+		})
+
+		await expect(job).rejects.toBeInstanceOf(JobCancelledError)
+		expect(terminate).toHaveBeenCalled()
+		terminate.mockRestore()
+	})
+})
+
+describe("summarizeRunV2", () => {
+	const seeded = seedParamsV2(params)
+	const fanSteps = getFanSteps(getDayCountV2(seeded) + 1)
+
+	/** A simulated run with its days replaced by the given daily P&Ls (cents) */
+	const runWithDays = (dayPnls: number[]): SimulationRunV2 => ({
+		...simulateRunV2(seeded, 0),
+		days: dayPnls.map((dayPnl, i) => ({
+			dayNumber: i + 1,
+			weekNumber: Math.ceil((i + 1) / 5),
+			mode: "lossRecovery",
+			trades: [],
+			dayPnl,
+			targetHit: false,
+			skipped: false,
+			skipReason: null,
+		})),
+	})
+
+	it("should record the day the target was reached before the floor", () => {
+		// Initial 20,000.00: target at +10% (22,000.00), floor at -10% (18,000.00)
+		const summary = summarizeRunV2(
+			runWithDays([100_000, -150_000, 300_000, -500_000]),
+			0,
+			seeded,
+			fanSteps
+		)
+
+		expect(summary.daysToTarget).toBe(3)
+		expect(summary.floorHitFirst).toBe(false)
+	})
+
+	it("should not count a target reached after the floor", () => {
+		const summary = summarizeRunV2(
+			runWithDays([-250_000, 600_000]),
+			0,
+			seeded,
+			fanSteps
+		)
+
+		expect(summary.daysToTarget).toBeNull()
+		expect(summary.floorHitFirst).toBe(true)
+	})
+
+	it("should measure the longest stretch below the running peak", () => {
+		// Peak on day 1, under it for days 2-4, new peak on day 5, under it on day 6
+		const summary = summarizeRunV2(
+			runWithDays([50_000, -10_000, -10_000, 15_000, 20_000, -5_000]),
+			0,
+			seeded,
+			fanSteps
+		)
+
+		expect(summary.longestDrawdownDays).toBe(3)
+	})
+})
+
+describe("pathStatistics", () => {
+	it("should be consistent with the run counts", () => {
+		const { pathStatistics } = runMonteCarloV2(params)
+		const bucketTotal = pathStatistics.longestDrawdownBuckets.reduce(
+			(sum, bucket) => sum + bucket.count,
+			0
+		)
+
+		expect(bucketTotal).toBe(params.simulationCount)
+		expect(
+			pathStatistics.targetBeforeFloorPercent +
+				pathStatistics.floorBeforeTargetPercent
+		).toBeLessThanOrEqual(100)
+		expect(pathStatistics.worstLongestDrawdownDays).toBeGreaterThanOrEqual(
+			pathStatistics.medianLongestDrawdownDays
+		)
+		expect(pathStatistics.longestDrawdownBuckets.length).toBeLessThanOrEqual(20)
+	})
+})
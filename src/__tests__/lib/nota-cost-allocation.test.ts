@@ -0,0 +1,84 @@
+/**
+ * Tests for splitting official nota costs onto trades (`getNotaCostTotals`, `allocateNotaCosts`).
+ *
+ * Covers the brokerage fallback for BM&F notas and exact-cent proportional allocation.
+ */
+
+import { describe, it, expect } from "vitest"
+import { allocateNotaCosts, getNotaCostTotals } from "@/lib/nota-parser/cost-allocation"
+
+// ==========================================
+// COST TOTALS
+// ==========================================
+
+describe("getNotaCostTotals", () => {
+	it("should use the footer brokerage as commission when present", () => {
+		const totals = getNotaCostTotals({
+			brokerageCents: 500,
+			operationalFeesCents: 120,
+			settlementFeeCents: 30,
+			registrationFeeCents: 20,
+			bmfFeesCents: 10,
+		})
+
+		expect(totals).toEqual({ commissionCents: 500, feesCents: 60, totalCents: 560 })
+	})
+
+	it("should fall back to per-fill operational fees when the footer brokerage is empty", () => {
+		const totals = getNotaCostTotals({
+			brokerageCents: 0,
+			operationalFeesCents: 120,
+			settlementFeeCents: 0,
+			registrationFeeCents: 0,
+			bmfFeesCents: 45,
+		})
+
+		expect(totals.commissionCents).toBe(120)
+		expect(totals.totalCents).toBe(165)
+	})
+})
+
+// ==========================================
+// ALLOCATION
+// ==========================================
+
+describe("allocateNotaCosts", () => {
+	it("should split costs proportionally to contracts", () => {
+		const allocations = allocateNotaCosts(
+			{ commissionCents: 300, feesCents: 90, totalCents: 390 },
+			[
+				{ tradeId: "a", contracts: 1 },
+				{ tradeId: "b", contracts: 2 },
+			]
+		)
+
+		expect(allocations).toEqual([
+			{ tradeId: "a", commissionCents: 100, feesCents: 30 },
+			{ tradeId: "b", commissionCents: 200, feesCents: 60 },
+		])
+	})
+
+	it("should distribute leftover cents so the sums match the nota exactly", () => {
+		const allocations = allocateNotaCosts(
+			{ commissionCents: 100, feesCents: 7, totalCents: 107 },
+			[
+				{ tradeId: "a", contracts: 1 },
+				{ tradeId: "b", contracts: 1 },
+				{ tradeId: "c", contracts: 1 },
+			]
+		)
+
+		expect(allocations.reduce((sum, a) => sum + a.commissionCents, 0)).toBe(100)
+		expect(allocations.reduce((sum, a) => sum + a.feesCents, 0)).toBe(7)
+		expect(allocations.map((a) => a.commissionCents)).toEqual([34, 33, 33])
+	})
+
+	it("should allocate nothing when no contracts are weighted", () => {
+		const allocations = allocateNotaCosts(
+			{ commissionCents: 100, feesCents: 10, totalCents: 110 },
+			[{ tradeId: "a", contracts: 0 }]
+		)
+
+		expect(allocations).toEqual([{ tradeId: "a", commissionCents: 0, feesCents: 0 }])
+	})
+})
@@ -0,0 +1,113 @@
+/**
+ * Tests for grouping unmatched nota fills into round trips (`groupFillsIntoRoundTrips`)
+ * and their FIFO P&L (`calculateRoundTripPnl`).
+ *
+ * Covers flat-to-flat grouping, position flips, open positions and per-asset separation.
+ */
+
+import { describe, it, expect } from "vitest"
+import { calculateRoundTripPnl, groupFillsIntoRoundTrips } from "@/lib/nota-parser/fill-grouping"
+import type { NotaFill } from "@/lib/nota-parser/types"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+const fill = (overrides: Partial<NotaFill> & Pick<NotaFill, "sequenceNumber" | "side" | "quantity" | "price">): NotaFill => ({
+	exchange: "BMF",
+	marketType: "FUTURO",
+	rawAsset: "WIN G26",
+	normalizedAsset: "WINFUT",
+	expiryDate: null,
+	operationValue: 0,
+	debitCredit: "D",
+	operationalFee: 0,
+	isDayTrade: true,
+	...overrides,
+})
+
+const SESSION = new Date("2026-02-09T00:00:00-03:00")
+
+// ==========================================
+// GROUPING
+// ==========================================
+
+describe("groupFillsIntoRoundTrips", () => {
+	it("should close a round trip when the position returns to flat", () => {
+		const [roundTrip, ...rest] = groupFillsIntoRoundTrips([
+			fill({ sequenceNumber: 1, side: "C", quantity: 1, price: 128000 }),
+			fill({ sequenceNumber: 2, side: "C", quantity: 1, price: 128100 }),
+			fill({ sequenceNumber: 3, side: "V", quantity: 2, price: 128300 }),
+		])
+
+		expect(rest).toHaveLength(0)
+		expect(roundTrip).toMatchObject({
+			asset: "WINFUT",
+			direction: "long",
+			status: "closed",
+			entryQuantity: 2,
+			exitQuantity: 2,
+			avgEntryPrice: 128050,
+			avgExitPrice: 128300,
+		})
+	})
+
+	it("should split a flipping fill into a close and a new entry", () => {
+		const roundTrips = groupFillsIntoRoundTrips([
+			fill({ sequenceNumber: 1, side: "C", quantity: 1, price: 128000, operationalFee: 1 }),
+			fill({ sequenceNumber: 2, side: "V", quantity: 3, price: 128200, operationalFee: 3 }),
+			fill({ sequenceNumber: 3, side: "C", quantity: 2, price: 128100 }),
+		])
+
+		expect(roundTrips).toHaveLength(2)
+		expect(roundTrips[0]).toMatchObject({ direction: "long", status: "closed", exitQuantity: 1 })
+		expect(roundTrips[0].exitFills[0].operationalFee).toBe(1)
+		expect(roundTrips[1]).toMatchObject({ direction: "short", status: "closed", entryQuantity: 2 })
+		expect(roundTrips[1].entryFills[0].operationalFee).toBe(2)
+	})
+
+	it("should keep a position that is not flat at the end as open", () => {
+		const [roundTrip] = groupFillsIntoRoundTrips([
+			fill({ sequenceNumber: 1, side: "V", quantity: 5, price: 5.4, normalizedAsset: "WDOFUT" }),
+			fill({ sequenceNumber: 2, side: "C", quantity: 2, price: 5.38, normalizedAsset: "WDOFUT" }),
+		])
+
+		expect(roundTrip).toMatchObject({
+			asset: "WDOFUT",
+			direction: "short",
+			status: "open",
+			entryQuantity: 5,
+			exitQuantity: 2,
+		})
+	})
+
+	it("should group each asset independently and follow the nota sequence", () => {
+		const roundTrips = groupFillsIntoRoundTrips([
+			fill({ sequenceNumber: 3, side: "V", quantity: 1, price: 128200 }),
+			fill({ sequenceNumber: 2, side: "C", quantity: 1, price: 5.4, normalizedAsset: "WDOFUT" }),
+			fill({ sequenceNumber: 1, side: "C", quantity: 1, price: 128000 }),
+		])
+
+		expect(roundTrips.map((r) => `${r.asset}:${r.status}`)).toEqual(["WINFUT:closed", "WDOFUT:open"])
+		expect(roundTrips[0].direction).toBe("long")
+	})
+})
+
+// ==========================================
+// P&L
+// ==========================================
+
+describe("calculateRoundTripPnl", () => {
+	it("should compute tick-based FIFO P&L net of operational fees", () => {
+		const [roundTrip] = groupFillsIntoRoundTrips([
+			fill({ sequenceNumber: 1, side: "C", quantity: 2, price: 128000, operationalFee: 0.5 }),
+			fill({ sequenceNumber: 2, side: "V", quantity: 2, price: 128100, operationalFee: 0.5 }),
+		])
+
+		// 100 points = 20 ticks × R$1 × 2 contracts = R$40, minus R$1 in fees
+		const result = calculateRoundTripPnl(roundTrip, SESSION, { tickSize: 5, tickValue: 1 })
+
+		expect(result.totalCommission).toBe(1)
+		expect(result.realizedPnl).toBe(39)
+	})
+})
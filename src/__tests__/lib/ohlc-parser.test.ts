@@ -0,0 +1,92 @@
+/**
+ * Tests for the ProfitChart / MetaTrader OHLC bar parser.
+ */
+
+import { describe, it, expect } from "vitest"
+import { parseOhlcContent } from "@/lib/ohlc-parser"
+
+const PROFITCHART = [
+	"Ativo;Data;Hora;Abertura;Máximo;Mínimo;Fechamento;Volume;Quantidade",
+	"WINJ26;15/03/2026;09:05:00;128.500;128.650;128.420;128.600;1.234.567,00;3.210",
+	"WINJ26;15/03/2026;09:00:00;128.300;128.550;128.250;128.500;987.654,00;2.100",
+].join("\r\n")
+
+const MT5 = [
+	"<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>",
+	"2026.03.15\t09:00:00\t5.4210\t5.4260\t5.4200\t5.4250\t320\t0\t1",
+	"2026.03.15\t09:05:00\t5.4250\t5.4300\t5.4230\t5.4240\t410\t150\t1",
+].join("\n")
+
+const MT4 = [
+	"2026.03.15,09:00,128300,128550,128250,128500,2100",
+	"2026.03.15,09:05,128500,128650,128420,128600,3210",
+].join("\n")
+
+describe("parseOhlcContent", () => {
+	it("should parse a ProfitChart export with Brazilian numbers, sorted by time", () => {
+		const result = parseOhlcContent(`\uFEFF${PROFITCHART}`)
+
+		expect(result.format).toBe("profitchart")
+		expect(result.asset).toBe("WINJ26")
+		expect(result.errors).toEqual([])
+		expect(result.bars).toHaveLength(2)
+		expect(result.bars[0]).toEqual({
+			time: new Date("2026-03-15T09:00:00-03:00"),
+			open: 128300,
+			high: 128550,
+			low: 128250,
+			close: 128500,
+			volume: 2100,
+		})
+		expect(result.bars[1].time).toEqual(new Date("2026-03-15T09:05:00-03:00"))
+	})
+
+	it("should parse an MT5 export and fall back to tick volume", () => {
+		const result = parseOhlcContent(MT5)
+
+		expect(result.format).toBe("metatrader")
+		expect(result.asset).toBeNull()
+		expect(result.bars.map((bar) => bar.volume)).toEqual([320, 150])
+		expect(result.bars[0].close).toBe(5.425)
+	})
+
+	it("should parse a headerless MT4 history file", () => {
+		const result = parseOhlcContent(MT4)
+
+		expect(result.format).toBe("metatrader")
+		expect(result.bars).toHaveLength(2)
+		expect(result.bars[1]).toMatchObject({ open: 128500, high: 128650, low: 128420, close: 128600, volume: 3210 })
+	})
+
+	it("should keep the last row when a time repeats", () => {
+		const result = parseOhlcContent(`${MT4}\n2026.03.15,09:05,128500,128700,128400,128690,3300`)
+
+		expect(result.bars).toHaveLength(2)
+		expect(result.bars[1].close).toBe(128690)
+	})
+
+	it("should report invalid rows with their line number and keep the rest", () => {
+		const content = [
+			MT4,
+			"2026.13.40,09:10,128600,128700,128500,128650,100",
+			"2026.03.15,09:15,128600,,128500,128650,100",
+			"2026.03.15,09:20,128600,128550,128500,128650,100",
+		].join("\n")
+		const result = parseOhlcContent(content)
+
+		expect(result.bars).toHaveLength(2)
+		expect(result.errors).toEqual([
+			{ line: 3, message: "Invalid date/time" },
+			{ line: 4, message: "Missing or invalid price" },
+			{ line: 5, message: "High/low do not contain open and close" },
+		])
+	})
+
+	it("should reject files that are not bar exports", () => {
+		const result = parseOhlcContent("Data;Ativo;Lado;Preço\n15/03/2026;WINJ26;C;128500")
+
+		expect(result.format).toBeNull()
+		expect(result.bars).toEqual([])
+		expect(result.errors).toHaveLength(1)
+	})
+})
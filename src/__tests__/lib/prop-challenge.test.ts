@@ -0,0 +1,200 @@
+/**
+ * Unit tests for the prop challenge simulator — calendar/trading day
+ * conversion, the iteration estimate, seeding, and the pass/fail breakdown
+ * under extreme rules.
+ */
+
+import { describe, it, expect, vi } from "vitest"
+import {
+	estimatePropChallengeIterations,
+	getChallengeTradingDays,
+	simulatePropChallenge,
+	toCalendarDay,
+} from "@/lib/prop-challenge"
+import type {
+	PropChallengeParams,
+	PropChallengeResult,
+	PropChallengeRules,
+	RiskManagementProfileForSim,
+} from "@/types/monte-carlo"
+
+const { simulateRunV2Spy } = vi.hoisted(() => ({ simulateRunV2Spy: vi.fn() }))
+
+// The real V2 runs, observed so a test can cut a run short
+vi.mock("@/lib/monte-carlo-v2", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("@/lib/monte-carlo-v2")>()
+	simulateRunV2Spy.mockImplementation(actual.simulateRunV2)
+	return { ...actual, simulateRunV2: simulateRunV2Spy }
+})
+
+const profile: RiskManagementProfileForSim = {
+	name: "Test profile",
+	baseRiskCents: 50_000,
+	rewardRiskRatio: 1.5,
+	winRate: 50,
+	breakevenRate: 10,
+	dailyTargetCents: null,
+	dailyLossLimitCents: 100_000,
+	lossRecoverySteps: [],
+	executeAllRegardless: false,
+	stopAfterSequence: false,
+	compoundingRiskPercent: 0,
+	stopOnFirstLoss: false,
+	weeklyLossLimitCents: null,
+	monthlyLossLimitCents: 500_000,
+	tradingDaysPerMonth: 22,
+	tradingDaysPerWeek: 5,
+	commissionPerTradeCents: 0,
+	riskSizingMode: "fixed",
+	riskPercent: null,
+	fixedRatioDeltaCents: null,
+	fixedRatioBaseContractRiskCents: null,
+	kellyDivisor: null,
+	limitMode: "fixedCents",
+	dailyLossPercent: null,
+	weeklyLossPercent: null,
+	monthlyLossPercent: null,
+	dailyLossR: null,
+	weeklyLossR: null,
+	monthlyLossR: null,
+	drawdownTiers: [],
+	drawdownRecoveryPercent: 50,
+	consecutiveLossRules: [],
+}
+
+const rules: PropChallengeRules = {
+	startingBalanceCents: 5_000_000,
+	profitTargetCents: 300_000,
+	drawdownType: "trailing",
+	maxDrawdownCents: 250_000,
+	lockDrawdownAtStart: true,
+	dailyLossLimitCents: null,
+	minTradingDays: null,
+	maxCalendarDays: 30,
+	consistencyPercent: null,
+}
+
+const params: PropChallengeParams = {
+	rules,
+	profile,
+	simulationCount: 300,
+	seed: 20240601,
+}
+
+const totalPercent = ({ statistics }: PropChallengeResult) =>
+	statistics.passPercent +
+	statistics.failPercent.max_drawdown +
+	statistics.failPercent.daily_loss +
+	statistics.failPercent.expired
+
+describe("toCalendarDay", () => {
+	it("should skip weekends between trading weeks", () => {
+		expect(toCalendarDay(1, 5)).toBe(1)
+		expect(toCalendarDay(5, 5)).toBe(5)
+		expect(toCalendarDay(6, 5)).toBe(8)
+		expect(toCalendarDay(11, 5)).toBe(15)
+	})
+})
+
+describe("getChallengeTradingDays", () => {
+	it("should count the trading days inside the calendar window", () => {
+		expect(getChallengeTradingDays({ ...rules, maxCalendarDays: 30 }, 5)).toBe(
+			22
+		)
+		expect(getChallengeTradingDays({ ...rules, maxCalendarDays: 7 }, 5)).toBe(5)
+		expect(getChallengeTradingDays({ ...rules, maxCalendarDays: 3 }, 5)).toBe(3)
+	})
+})
+
+describe("estimatePropChallengeIterations", () => {
+	it("should size each profile from its own trading days", () => {
+		const sixDayProfile = { tradingDaysPerWeek: 6, tradingDaysPerMonth: 26 }
+
+		// 30 calendar days: 22 trading days fit one 22-day month; 26 fit one 26-day month
+		expect(
+			estimatePropChallengeIterations({
+				profiles: [profile, sixDayProfile],
+				simulationCount: 100,
+				rules,
+			})
+		).toBe(50 * 22 * 100 + 50 * 26 * 100)
+	})
+
+	it("should round the challenge up to whole months", () => {
+		// 60 calendar days hold 43 trading days: two 22-day months
+		expect(
+			estimatePropChallengeIterations({
+				profiles: [profile],
+				simulationCount: 100,
+				rules: { maxCalendarDays: 60 },
+			})
+		).toBe(50 * 44 * 100)
+	})
+})
+
+describe("simulatePropChallenge", () => {
+	it("should be reproducible for a seed and account for every attempt", () => {
+		const result = simulatePropChallenge(params)
+
+		expect(simulatePropChallenge(params)).toEqual(result)
+		expect(result.params.seed).toBe(20240601)
+		expect(totalPercent(result)).toBeCloseTo(100, 6)
+		expect(result.statistics.targetReachedNotPassedPercent).toBeLessThanOrEqual(
+			result.statistics.failPercent.expired
+		)
+	})
+
+	it("should fail nearly every attempt on the floor when the drawdown is one loss", () => {
+		const { statistics } = simulatePropChallenge({
+			...params,
+			rules: { ...rules, maxDrawdownCents: 10_000, lockDrawdownAtStart: false },
+		})
+
+		expect(statistics.failPercent.max_drawdown).toBeGreaterThan(90)
+	})
+
+	it("should expire when the target can't be reached in time", () => {
+		const { statistics } = simulatePropChallenge({
+			...params,
+			rules: {
+				...rules,
+				profitTargetCents: 100_000_000,
+				maxDrawdownCents: 4_900_000,
+				lockDrawdownAtStart: false,
+				maxCalendarDays: 5,
+			},
+		})
+
+		expect(statistics.passPercent).toBe(0)
+		expect(statistics.failPercent.expired).toBe(100)
+		expect(statistics.meanCalendarDaysToPass).toBeNull()
+	})
+
+	it("should count a run that ended before the window as a drawdown failure", () => {
+		const simulateRun = simulateRunV2Spy.getMockImplementation()!
+		simulateRunV2Spy.mockImplementation((...args) => {
+			const run = simulateRun(...args)
+			return { ...run, days: run.days.slice(0, 2) }
+		})
+
+		const { statistics } = simulatePropChallenge({
+			...params,
+			rules: { ...rules, profitTargetCents: 100_000_000, maxDrawdownCents: 4_900_000 },
+		})
+		simulateRunV2Spy.mockImplementation(simulateRun)
+
+		expect(statistics.failPercent.expired).toBe(0)
+		expect(statistics.failPercent.max_drawdown).toBe(100)
+	})
+
+	it("should pass within the window and report days to pass", () => {
+		const { statistics } = simulatePropChallenge({
+			...params,
+			rules: { ...rules, profitTargetCents: 50_000, minTradingDays: 3 },
+		})
+
+		expect(statistics.passPercent).toBeGreaterThan(0)
+		expect(statistics.meanTradingDaysToPass).toBeGreaterThanOrEqual(3)
+		expect(statistics.medianCalendarDaysToPass).toBeLessThanOrEqual(30)
+	})
+})
@@ -0,0 +1,195 @@
+/**
+ * Tests for the prop firm evaluation engine (`evaluatePropRules`).
+ *
+ * Covers how each drawdown type moves the floor, the hard rules that fail an
+ * evaluation, the pass conditions (target, trading days, consistency), the
+ * at-risk warning, the deadline and the scaling plan.
+ */
+
+import { describe, it, expect } from "vitest"
+import { evaluatePropRules, getDrawdownFloor, getScalingLimit } from "@/lib/prop-evaluation"
+import type { PropRules, PropTradeInput } from "@/types/prop-evaluation"
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const baseRules: PropRules = {
+	startingBalanceCents: 5_000_000,
+	drawdownType: "trailing",
+	maxDrawdownCents: 200_000,
+	lockDrawdownAtStart: true,
+	dailyLossLimitCents: null,
+	profitTargetCents: null,
+	minTradingDays: null,
+	consistencyPercent: null,
+	scalingPlan: [],
+	evaluationStartDate: new Date("2026-03-02T12:00:00.000Z"),
+	evaluationEndDate: null,
+}
+
+/** Trade closed at the given BRT hour of a March 2026 day */
+const trade = (day: number, pnlCents: number, hour = 11, contracts = 1): PropTradeInput => ({
+	closedAt: new Date(Date.UTC(2026, 2, day, hour + 3)),
+	pnlCents,
+	contracts,
+})
+
+const asOf = (day: number) => new Date(Date.UTC(2026, 2, day, 20))
+
+// ==========================================
+// DRAWDOWN FLOOR
+// ==========================================
+
+describe("getDrawdownFloor", () => {
+	it("should trail the peak until the floor reaches the starting balance", () => {
+		expect(getDrawdownFloor(baseRules, 5_100_000)).toBe(4_900_000)
+		expect(getDrawdownFloor(baseRules, 5_400_000)).toBe(5_000_000)
+		expect(getDrawdownFloor({ ...baseRules, lockDrawdownAtStart: false }, 5_400_000)).toBe(5_200_000)
+	})
+
+	it("should keep a static floor regardless of the peak", () => {
+		expect(getDrawdownFloor({ ...baseRules, drawdownType: "static" }, 5_400_000)).toBe(4_800_000)
+	})
+})
+
+describe("evaluatePropRules", () => {
+	it("should fail when a trade closes on the trailing floor", () => {
+		const result = evaluatePropRules({
+			rules: baseRules,
+			trades: [trade(2, 150_000), trade(3, -350_000)],
+			asOf: asOf(3),
+		})
+
+		expect(result.status.status).toBe("failed")
+		expect(result.status.violations).toEqual([{ type: "max_drawdown", date: "2026-03-03" }])
+		expect(result.status.decidedOn).toBe("2026-03-03")
+		expect(result.days.map((day) => day.status)).toEqual(["in_progress", "failed"])
+	})
+
+	it("should only move an end-of-day trailing floor at the daily close", () => {
+		const result = evaluatePropRules({
+			rules: { ...baseRules, drawdownType: "eod_trailing" },
+			trades: [trade(2, 150_000, 10), trade(2, -340_000, 14)],
+			asOf: asOf(2),
+		})
+
+		// The intraday peak (+1,500) would have put a trailing floor at 49,500
+		expect(result.status.status).not.toBe("failed")
+		expect(result.status.balanceCents).toBe(4_810_000)
+		expect(result.status.drawdownFloorCents).toBe(4_800_000)
+	})
+
+	it("should fail on the daily loss limit even above the drawdown floor", () => {
+		const result = evaluatePropRules({
+			rules: { ...baseRules, dailyLossLimitCents: 100_000 },
+			trades: [trade(2, -60_000, 10), trade(2, -40_000, 12)],
+			asOf: asOf(2),
+		})
+
+		expect(result.status.status).toBe("failed")
+		expect(result.status.violations.map((violation) => violation.type)).toEqual(["daily_loss"])
+	})
+
+	// ==========================================
+	// PASSING
+	// ==========================================
+
+	it("should pass once target, trading days and consistency are all met", () => {
+		const result = evaluatePropRules({
+			rules: { ...baseRules, profitTargetCents: 300_000, minTradingDays: 3, consistencyPercent: 50 },
+			trades: [trade(2, 120_000), trade(3, 100_000), trade(4, 100_000), trade(5, 50_000)],
+			asOf: asOf(5),
+		})
+
+		expect(result.status.status).toBe("passed")
+		expect(result.status.decidedOn).toBe("2026-03-04")
+		expect(result.status.consistencyPercent).toBe(37.5)
+		// Trades after the decision don't count
+		expect(result.days).toHaveLength(3)
+	})
+
+	it("should keep the evaluation open while the best day breaks the consistency rule", () => {
+		const result = evaluatePropRules({
+			rules: { ...baseRules, profitTargetCents: 300_000, consistencyPercent: 40 },
+			trades: [trade(2, 250_000), trade(3, 60_000)],
+			asOf: asOf(3),
+		})
+
+		expect(result.status.status).toBe("in_progress")
+		expect(result.status.profitCents).toBe(310_000)
+		expect(result.status.isConsistencyMet).toBe(false)
+		expect(result.status.consistencyPercent).toBeCloseTo(80.65)
+	})
+
+	it("should report the trading and calendar days left", () => {
+		const result = evaluatePropRules({
+			rules: {
+				...baseRules,
+				minTradingDays: 5,
+				evaluationEndDate: new Date("2026-03-20T12:00:00.000Z"),
+			},
+			trades: [trade(2, 10_000), trade(3, 10_000)],
+			asOf: asOf(10),
+		})
+
+		expect(result.status.tradingDaysRemaining).toBe(3)
+		expect(result.status.calendarDaysRemaining).toBe(10)
+	})
+
+	// ==========================================
+	// RISK AND DEADLINE
+	// ==========================================
+
+	it("should flag the account at risk close to the floor", () => {
+		const result = evaluatePropRules({
+			rules: baseRules,
+			trades: [trade(2, -160_000)],
+			asOf: asOf(2),
+		})
+
+		expect(result.status.status).toBe("at_risk")
+		expect(result.status.distanceToFloorCents).toBe(40_000)
+	})
+
+	it("should fail an evaluation whose deadline passed without reaching the target", () => {
+		const result = evaluatePropRules({
+			rules: {
+				...baseRules,
+				profitTargetCents: 300_000,
+				evaluationEndDate: new Date("2026-03-06T12:00:00.000Z"),
+			},
+			trades: [trade(2, 50_000), trade(9, 400_000)],
+			asOf: asOf(10),
+		})
+
+		expect(result.status.status).toBe("failed")
+		expect(result.status.violations).toEqual([{ type: "expired", date: "2026-03-06" }])
+		expect(result.status.profitCents).toBe(50_000)
+	})
+
+	// ==========================================
+	// SCALING PLAN
+	// ==========================================
+
+	it("should unlock contracts as profit grows and flag oversized trades", () => {
+		const scalingPlan = [
+			{ profitThresholdCents: 150_000, maxContracts: 5 },
+			{ profitThresholdCents: 0, maxContracts: 2 },
+		]
+		expect(getScalingLimit(scalingPlan, 50_000)).toEqual({
+			currentMaxContracts: 2,
+			nextTier: { profitThresholdCents: 150_000, maxContracts: 5 },
+		})
+
+		const result = evaluatePropRules({
+			rules: { ...baseRules, scalingPlan },
+			trades: [trade(2, 200_000, 11, 2), trade(3, 10_000, 11, 4), trade(3, 10_000, 12, 6)],
+			asOf: asOf(3),
+		})
+
+		expect(result.status.violations).toEqual([{ type: "scaling_plan", date: "2026-03-03" }])
+		expect(result.status.status).toBe("at_risk")
+		expect(result.status.currentMaxContracts).toBe(5)
+	})
+})
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the empirical R-multiple bootstrap (`createRSampler`,
+ * `summarizeRSamples`) and its use in the Edge Expectancy engine.
+ */
+
+import { describe, it, expect } from "vitest"
+import { createRSampler, summarizeRSamples } from "@/lib/r-bootstrap"
+import { runMonteCarloSimulation } from "@/lib/monte-carlo"
+import type { SimulationParams } from "@/types/monte-carlo"
+
+const params: SimulationParams = {
+	winRate: 50,
+	rewardRiskRatio: 2,
+	numberOfTrades: 40,
+	commissionImpactR: 0,
+	simulationCount: 200,
+}
+
+describe("createRSampler", () => {
+	it("should only draw values from the sample", () => {
+		const rMultiples = [-1, -0.5, 0, 1.2, 3.4]
+		const draw = createRSampler({ rMultiples, method: "plain", blockLength: 5 })
+
+		for (let i = 0; i < 500; i++) {
+			expect(rMultiples).toContain(draw())
+		}
+	})
+
+	it("should walk consecutive trades within a block, wrapping at the end", () => {
+		const rMultiples = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+		const draw = createRSampler({ rMultiples, method: "block", blockLength: 4 })
+
+		for (let block = 0; block < 100; block++) {
+			const values = [draw(), draw(), draw(), draw()]
+			for (let i = 1; i < values.length; i++) {
+				expect(values[i]).toBe((values[i - 1] + 1) % rMultiples.length)
+			}
+		}
+	})
+
+	it("should reject an empty sample", () => {
+		expect(() =>
+			createRSampler({ rMultiples: [], method: "plain", blockLength: 5 })
+		).toThrow()
+	})
+})
+
+describe("summarizeRSamples", () => {
+	it("should exclude breakevens from the win rate", () => {
+		const summary = summarizeRSamples([2, 3, -1, -1, 0])
+
+		expect(summary.winRate).toBe(50)
+		expect(summary.rewardRiskRatio).toBe(2.5)
+		expect(summary.breakevenRate).toBe(20)
+	})
+})
+
+describe("runMonteCarloSimulation with an empirical source", () => {
+	it("should use the realized R instead of the win/loss payoff", () => {
+		const result = runMonteCarloSimulation(
+			{ ...params, commissionImpactR: 10 },
+			{ rMultiples: [0.5], method: "plain", blockLength: 5 }
+		)
+
+		// Every trade nets 0.5R - 0.1R commission
+		expect(result.statistics.medianFinalR).toBeCloseTo(0.4 * params.numberOfTrades)
+		expect(result.statistics.profitablePct).toBe(100)
+		expect(result.statistics.medianMaxRDrawdown).toBe(0)
+	})
+
+	it("should keep losing streaks together with block resampling", () => {
+		// Ten losses followed by ten wins: blocks of 10 reproduce long streaks
+		const rMultiples = [...Array(10).fill(-1), ...Array(10).fill(1)]
+
+		const plain = runMonteCarloSimulation(params, {
+			rMultiples,
+			method: "plain",
+			blockLength: 10,
+		})
+		const block = runMonteCarloSimulation(params, {
+			rMultiples,
+			method: "block",
+			blockLength: 10,
+		})
+
+		expect(block.statistics.expectedMaxLossStreak).toBeGreaterThan(
+			plain.statistics.expectedMaxLossStreak
+		)
+	})
+})
@@ -0,0 +1,73 @@
+/**
+ * Tests for the replay session rules (jump/branch validation and the per-day
+ * timeline) on top of the B3 trading calendar.
+ */
+
+import { describe, it, expect } from "vitest"
+import { createTradingCalendar } from "@/lib/market/trading-calendar"
+import {
+	buildReplayTimeline,
+	toReplayInstant,
+	validateReplayBranch,
+	validateReplayJump,
+} from "@/lib/replay"
+import { formatDateKey } from "@/lib/dates"
+
+const calendar = createTradingCalendar("B3", [])
+
+describe("toReplayInstant", () => {
+	it("should stay on the same BRT calendar day", () => {
+		expect(formatDateKey(toReplayInstant("2026-03-02"))).toBe("2026-03-02")
+	})
+})
+
+describe("validateReplayJump", () => {
+	it("should only allow trading days after the current one", () => {
+		expect(validateReplayJump(calendar, "2026-03-02", "2026-03-05")).toBeNull()
+		expect(validateReplayJump(calendar, "2026-03-02", "2026-03-02")).toBe("NOT_AFTER_CURRENT")
+		expect(validateReplayJump(calendar, "2026-03-02", "2026-03-07")).toBe("NOT_TRADING_DAY")
+	})
+})
+
+describe("validateReplayBranch", () => {
+	it("should only allow trading days between start and current", () => {
+		expect(validateReplayBranch(calendar, "2026-03-02", "2026-03-10", "2026-03-05")).toBeNull()
+		expect(validateReplayBranch(calendar, "2026-03-02", "2026-03-10", "2026-03-10")).toBeNull()
+		expect(validateReplayBranch(calendar, "2026-03-02", "2026-03-10", "2026-02-27")).toBe("BEFORE_START")
+		expect(validateReplayBranch(calendar, "2026-03-02", "2026-03-10", "2026-03-11")).toBe("AFTER_CURRENT")
+		expect(validateReplayBranch(calendar, "2026-03-02", "2026-03-10", "2026-03-08")).toBe("NOT_TRADING_DAY")
+	})
+})
+
+describe("buildReplayTimeline", () => {
+	const trade = (iso: string, pnlCents: number | null) => ({ entryDate: new Date(iso), pnlCents })
+
+	it("should sum P&L per trading day and count replayed days", () => {
+		const timeline = buildReplayTimeline(calendar, "2026-04-01", "2026-04-06", [
+			trade("2026-04-01T13:00:00Z", 15000),
+			trade("2026-04-01T16:00:00Z", -5000),
+			trade("2026-04-06T14:00:00Z", 2000),
+		])
+
+		expect(timeline.days.map((day) => day.date)).toEqual(["2026-04-01", "2026-04-02", "2026-04-06"])
+		expect(timeline.days[0]).toMatchObject({ pnlCents: 10000, tradeCount: 2, isCurrent: false })
+		expect(timeline.days[2]).toMatchObject({ pnlCents: 2000, tradeCount: 1, isCurrent: true })
+		expect(timeline.daysReplayed).toBe(2)
+		expect(timeline.daysTraded).toBe(1)
+		expect(timeline.totalPnlCents).toBe(12000)
+	})
+
+	it("should group late-evening trades by their BRT day", () => {
+		// 01:30 UTC on the 2nd is still the evening of the 1st in BRT
+		const timeline = buildReplayTimeline(calendar, "2026-04-01", "2026-04-02", [trade("2026-04-02T01:30:00Z", 700)])
+
+		expect(timeline.days[0]).toMatchObject({ date: "2026-04-01", pnlCents: 700, tradeCount: 1 })
+	})
+
+	it("should count open trades without P&L", () => {
+		const timeline = buildReplayTimeline(calendar, "2026-04-01", "2026-04-01", [trade("2026-04-01T13:00:00Z", null)])
+
+		expect(timeline.days[0]).toMatchObject({ pnlCents: 0, tradeCount: 1, isCurrent: true })
+		expect(timeline.daysReplayed).toBe(0)
+	})
+})
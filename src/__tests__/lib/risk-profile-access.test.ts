@@ -0,0 +1,59 @@
+/**
+ * Tests for the risk profile access rules (ownership, view and edit checks).
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	canEditRiskProfile,
+	canViewRiskProfile,
+	getRiskProfileOwnership,
+} from "@/lib/risk-profile-access"
+
+const OWNER = "owner-id"
+const OTHER = "other-id"
+
+const publicProfile = { createdByUserId: OWNER, visibility: "public" }
+const privateProfile = { createdByUserId: OWNER, visibility: "private" }
+const sharedProfile = { createdByUserId: OWNER, visibility: "shared" }
+
+describe("getRiskProfileOwnership", () => {
+	it("should treat public profiles as system profiles, even for their creator", () => {
+		expect(getRiskProfileOwnership(publicProfile, OWNER)).toBe("system")
+		expect(getRiskProfileOwnership(publicProfile, OTHER)).toBe("system")
+	})
+
+	it("should split personal profiles into mine and shared", () => {
+		expect(getRiskProfileOwnership(sharedProfile, OWNER)).toBe("mine")
+		expect(getRiskProfileOwnership(sharedProfile, OTHER)).toBe("shared")
+	})
+})
+
+describe("canViewRiskProfile", () => {
+	it("should let everyone view public profiles", () => {
+		expect(canViewRiskProfile(publicProfile, OTHER, false)).toBe(true)
+	})
+
+	it("should only show private profiles to their owner", () => {
+		expect(canViewRiskProfile(privateProfile, OWNER, false)).toBe(true)
+		// A leftover share row doesn't reopen a profile that was made private again
+		expect(canViewRiskProfile(privateProfile, OTHER, true)).toBe(false)
+	})
+
+	it("should show shared profiles to users who opened the link", () => {
+		expect(canViewRiskProfile(sharedProfile, OTHER, true)).toBe(true)
+		expect(canViewRiskProfile(sharedProfile, OTHER, false)).toBe(false)
+	})
+})
+
+describe("canEditRiskProfile", () => {
+	it("should reserve public profiles for admins", () => {
+		expect(canEditRiskProfile(publicProfile, OWNER, false)).toBe(false)
+		expect(canEditRiskProfile(publicProfile, OTHER, true)).toBe(true)
+	})
+
+	it("should keep personal profiles editable by their owner only", () => {
+		expect(canEditRiskProfile(sharedProfile, OWNER, false)).toBe(true)
+		expect(canEditRiskProfile(sharedProfile, OTHER, false)).toBe(false)
+		expect(canEditRiskProfile(privateProfile, OTHER, true)).toBe(false)
+	})
+})
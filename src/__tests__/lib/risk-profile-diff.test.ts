@@ -0,0 +1,118 @@
+/**
+ * Tests for the risk profile version diff (`diffDecisionTrees`, `diffRiskProfileVersions`).
+ *
+ * Covers leaf-level changes, added and removed array entries, union variants
+ * that swap their keys, and the top-level limit fields.
+ */
+
+import { describe, it, expect } from "vitest"
+import { diffDecisionTrees, diffRiskProfileVersions } from "@/lib/risk-profile-diff"
+import type { DecisionTreeConfig } from "@/types/risk-profile"
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const baseTree: DecisionTreeConfig = {
+	baseTrade: { riskCents: 50000, maxContracts: 20, minStopPoints: 100 },
+	lossRecovery: {
+		sequence: [
+			{ riskCalculation: { type: "percentOfBase", percent: 50 }, maxContractsOverride: null },
+			{ riskCalculation: { type: "percentOfBase", percent: 25 }, maxContractsOverride: null },
+		],
+		executeAllRegardless: false,
+		stopAfterSequence: true,
+	},
+	gainMode: { type: "singleTarget", dailyTargetCents: 150000 },
+	cascadingLimits: {
+		weeklyLossCents: 200000,
+		weeklyAction: "stopTrading",
+		monthlyLossCents: 750000,
+		monthlyAction: "stopTrading",
+	},
+	executionConstraints: {
+		minStopPoints: 100,
+		maxContracts: 20,
+		operatingHoursStart: "09:01",
+		operatingHoursEnd: "17:00",
+	},
+}
+
+const limits = {
+	baseRiskCents: 50000,
+	dailyLossCents: 100000,
+	weeklyLossCents: 200000,
+	monthlyLossCents: 750000,
+	dailyProfitTargetCents: 150000,
+}
+
+// ==========================================
+// DECISION TREE
+// ==========================================
+
+describe("diffDecisionTrees", () => {
+	it("should return no entries for identical trees", () => {
+		expect(diffDecisionTrees(baseTree, structuredClone(baseTree))).toEqual([])
+	})
+
+	it("should report changed leaves with their full path", () => {
+		const after = structuredClone(baseTree)
+		after.baseTrade.riskCents = 40000
+		after.lossRecovery.sequence[1].riskCalculation = { type: "percentOfBase", percent: 10 }
+
+		expect(diffDecisionTrees(baseTree, after)).toEqual([
+			{ path: "baseTrade.riskCents", kind: "changed", before: 50000, after: 40000 },
+			{ path: "lossRecovery.sequence[1].riskCalculation.percent", kind: "changed", before: 25, after: 10 },
+		])
+	})
+
+	it("should report removed and added array entries by index", () => {
+		const shorter = structuredClone(baseTree)
+		shorter.lossRecovery.sequence.pop()
+
+		const removed = diffDecisionTrees(baseTree, shorter)
+		expect(removed).toEqual([
+			{
+				path: "lossRecovery.sequence[1]",
+				kind: "removed",
+				before: baseTree.lossRecovery.sequence[1],
+				after: undefined,
+			},
+		])
+		expect(diffDecisionTrees(shorter, baseTree)[0].kind).toBe("added")
+	})
+
+	it("should list swapped union keys when the gain mode type changes", () => {
+		const after = structuredClone(baseTree)
+		after.gainMode = { type: "compounding", reinvestmentPercent: 30, stopOnFirstLoss: true, dailyTargetCents: null }
+
+		const paths = diffDecisionTrees(baseTree, after).map((entry) => `${entry.kind}:${entry.path}`)
+		expect(paths).toEqual([
+			"changed:gainMode.dailyTargetCents",
+			"added:gainMode.reinvestmentPercent",
+			"added:gainMode.stopOnFirstLoss",
+			"changed:gainMode.type",
+		])
+	})
+})
+
+// ==========================================
+// VERSIONS
+// ==========================================
+
+describe("diffRiskProfileVersions", () => {
+	it("should list limit changes before decision tree changes", () => {
+		const after = structuredClone(baseTree)
+		after.cascadingLimits.weeklyLossCents = null
+
+		const diff = diffRiskProfileVersions(
+			{ ...limits, decisionTree: baseTree },
+			{ ...limits, weeklyLossCents: null, decisionTree: after }
+		)
+
+		expect(diff).toEqual([
+			{ path: "weeklyLossCents", kind: "changed", before: 200000, after: null },
+			{ path: "decisionTree.cascadingLimits.weeklyLossCents", kind: "changed", before: 200000, after: null },
+		])
+	})
+})
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for seeded simulations: the PRNG (`createPrng`), the equity fan
+ * (`buildEquityFan`) and replaying the Edge Expectancy engine from a seed.
+ */
+
+import { describe, it, expect } from "vitest"
+import { MAX_SEED, createPrng, createSeed } from "@/lib/prng"
+import { FAN_MAX_POINTS, buildEquityFan } from "@/lib/equity-fan"
+import { runMonteCarloSimulation } from "@/lib/monte-carlo"
+import type { SimulationParams } from "@/types/monte-carlo"
+
+const params: SimulationParams = {
+	winRate: 45,
+	rewardRiskRatio: 1.8,
+	numberOfTrades: 50,
+	commissionImpactR: 0.02,
+	simulationCount: 200,
+}
+
+describe("createPrng", () => {
+	it("should repeat the same sequence for the same seed", () => {
+		const first = createPrng(42)
+		const second = createPrng(42)
+
+		for (let i = 0; i < 100; i++) {
+			expect(first()).toBe(second())
+		}
+	})
+
+	it("should produce different sequences for different seeds", () => {
+		const first = createPrng(1)
+		const second = createPrng(2)
+		const a = Array.from({ length: 10 }, first)
+		const b = Array.from({ length: 10 }, second)
+
+		expect(a).not.toEqual(b)
+	})
+
+	it("should stay within [0, 1)", () => {
+		const random = createPrng(MAX_SEED)
+
+		for (let i = 0; i < 1000; i++) {
+			const value = random()
+			expect(value).toBeGreaterThanOrEqual(0)
+			expect(value).toBeLessThan(1)
+		}
+	})
+})
+
+describe("createSeed", () => {
+	it("should return an integer within the storable range", () => {
+		for (let i = 0; i < 50; i++) {
+			const seed = createSeed()
+			expect(Number.isInteger(seed)).toBe(true)
+			expect(seed).toBeGreaterThanOrEqual(0)
+			expect(seed).toBeLessThanOrEqual(MAX_SEED)
+		}
+	})
+})
+
+describe("buildEquityFan", () => {
+	it("should cap the points and keep the first and last step", () => {
+		const fan = buildEquityFan(10, 1000, (run, step) => run + step)
+
+		expect(fan).toHaveLength(FAN_MAX_POINTS)
+		expect(fan[0].step).toBe(0)
+		expect(fan[fan.length - 1].step).toBe(999)
+	})
+
+	it("should order the percentile bands", () => {
+		const fan = buildEquityFan(100, 20, (run, step) => (run - 50) * step)
+
+		for (const point of fan) {
+			expect(point.p5).toBeLessThanOrEqual(point.p25)
+			expect(point.p25).toBeLessThanOrEqual(point.p50)
+			expect(point.p50).toBeLessThanOrEqual(point.p75)
+			expect(point.p75).toBeLessThanOrEqual(point.p95)
+		}
+	})
+
+	it("should return no points without runs", () => {
+		expect(buildEquityFan(0, 10, () => 0)).toEqual([])
+	})
+})
+
+describe("runMonteCarloSimulation with a seed", () => {
+	it("should replay the same result from the same seed", () => {
+		const first = runMonteCarloSimulation({ ...params, seed: 1234 })
+		const second = runMonteCarloSimulation({ ...params, seed: 1234 })
+
+		expect(second.statistics).toEqual(first.statistics)
+		expect(second.distributionBuckets).toEqual(first.distributionBuckets)
+		expect(second.equityFan).toEqual(first.equityFan)
+	})
+
+	it("should replay an empirical run from the same seed", () => {
+		const source = {
+			rMultiples: [-1, -1, -0.5, 0, 1.5, 2.2, 3],
+			method: "block" as const,
+			blockLength: 3,
+		}
+		const first = runMonteCarloSimulation({ ...params, seed: 99 }, source)
+		const second = runMonteCarloSimulation({ ...params, seed: 99 }, source)
+
+		expect(second.statistics).toEqual(first.statistics)
+	})
+
+	it("should draw and report a seed when none is given", () => {
+		const result = runMonteCarloSimulation(params)
+
+		expect(result.params.seed).toBeDefined()
+		const replay = runMonteCarloSimulation({
+			...params,
+			seed: result.params.seed,
+		})
+		expect(replay.statistics).toEqual(result.statistics)
+	})
+})
@@ -0,0 +1,172 @@
+/**
+ * Tests for the SINACOR text parser (`parseSinacorText`, `splitNotaPages`,
+ * `normalizeEquityTicker`).
+ *
+ * Covers BM&F futures rows, BOVESPA equity/option rows with ticker normalization,
+ * BOVESPA footer values and splitting a monthly PDF into one nota per trading day.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	normalizeEquityTicker,
+	parseSinacorText,
+	splitNotaPages,
+} from "@/lib/nota-parser/sinacor-parser"
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const bmfPage = (date: string, notaNumber: string, rows: string[]): string =>
+	[
+		"NOTA DE CORRETAGEM",
+		`1 \t${date}\t${notaNumber}`,
+		"GENIAL CCTVM S/A",
+		"C/V\tMercadoria\tVencimento\tQuantidade\tPreço/Ajuste\tTipo Negócio\tVlr de Operação/Ajuste\tD/C\tTaxa Operacional",
+		...rows,
+		"Venda disponível\tCompra disponível",
+		"Total líquido da nota\t12,34\tD",
+	].join("\n")
+
+const bovespaPage = (date: string, notaNumber: string, rows: string[], footer: string[] = []): string =>
+	[
+		"NOTA DE CORRETAGEM",
+		"Nr. nota\tFolha\tData pregão",
+		`${notaNumber}\t1\t${date}`,
+		"CLEAR CORRETORA",
+		"Negócios realizados",
+		"Q\tNegociação\tC/V\tTipo mercado\tPrazo\tEspecificação do título\tObs. (*)\tQuantidade\tPreço / Ajuste\tValor Operação / Ajuste\tD/C",
+		...rows,
+		...footer,
+	].join("\n")
+
+// ==========================================
+// BM&F
+// ==========================================
+
+describe("parseSinacorText (BM&F)", () => {
+	it("should parse futures rows with the session date and nota number", () => {
+		const result = parseSinacorText(
+			bmfPage("09/02/2026", "417577", [
+				"C \tWIN G26 \t18/02/2026 \t2 \t183.900,0000 \tDAY TRADE \t735,60 \tD \t1,00",
+				"V \tWIN G26 \t18/02/2026 \t2 \t183.975,0000 \tDAY TRADE \t735,90 \tC \t1,00",
+			])
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.notaNumber).toBe("417577")
+		expect(result.notaDate.toISOString()).toBe("2026-02-09T03:00:00.000Z")
+		expect(result.fills).toHaveLength(2)
+		expect(result.fills[0]).toMatchObject({
+			exchange: "BMF",
+			normalizedAsset: "WINFUT",
+			side: "C",
+			quantity: 2,
+			price: 183900,
+			isDayTrade: true,
+		})
+		expect(result.netTotal).toBe(12.34)
+	})
+})
+
+// ==========================================
+// BOVESPA
+// ==========================================
+
+describe("parseSinacorText (BOVESPA)", () => {
+	it("should parse equity and option rows with normalized tickers", () => {
+		const result = parseSinacorText(
+			bovespaPage("10/02/2026", "88120", [
+				"1-BOVESPA \tC \tVISTA \t\tPETR4 PN N2 \t\t1.000 \t35,20 \t35.200,00 \tD",
+				"1-BOVESPA \tV \tFRACIONARIO \t\tVALE3F ON NM \tD \t15 \t62,10 \t931,50 \tC",
+				"1-BOVESPA \tV \tOPCAO DE VENDA \t03/26 \tPETRO400 PN 40,00 PETR \t\t100 \t1,20 \t120,00 \tC",
+			])
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.notaNumber).toBe("88120")
+		expect(result.fills.map((fill) => fill.normalizedAsset)).toEqual(["PETR4", "VALE3", "PETRO400"])
+		expect(result.fills[0]).toMatchObject({ exchange: "BOVESPA", quantity: 1000, price: 35.2, isDayTrade: false })
+		expect(result.fills[1]).toMatchObject({ side: "V", debitCredit: "C", isDayTrade: true })
+		expect(result.fills[2].optionSeries).toEqual({
+			underlying: "PETR",
+			optionType: "put",
+			expiryMonth: 3,
+			strike: 40,
+		})
+	})
+
+	it("should read BOVESPA footer fees, IRRF and the settlement total", () => {
+		const result = parseSinacorText(
+			bovespaPage(
+				"10/02/2026",
+				"88121",
+				["1-BOVESPA \tC \tVISTA \t\tITUB4 PN N1 \t\t100 \t30,00 \t3.000,00 \tD"],
+				[
+					"Valor das operações\t3.000,00",
+					"Taxa de liquidação\t0,75",
+					"Taxa de registro\t0,00",
+					"Emolumentos\t0,15",
+					"I.R.R.F. s/ operações, base R$ 0,00\t0,00",
+					"Líquido para 12/02/2026\t3.000,90\tD",
+				]
+			)
+		)
+
+		expect(result.totalOperationValue).toBe(3000)
+		expect(result.bmfFees).toBeCloseTo(0.15)
+		expect(result.netTotal).toBe(3000.9)
+		expect(result.netTotalDebitCredit).toBe("D")
+	})
+
+	it("should keep fills whose ticker can't be resolved and warn about them", () => {
+		const result = parseSinacorText(
+			bovespaPage("10/02/2026", "88122", [
+				"1-BOVESPA \tC \tVISTA \t\tPETROBRAS PN N2 \t\t100 \t35,20 \t3.520,00 \tD",
+			])
+		)
+
+		expect(result.fills).toHaveLength(1)
+		expect(result.fills[0].normalizedAsset).toBe("PETROBRAS PN N2")
+		expect(result.warnings).toHaveLength(1)
+	})
+})
+
+// ==========================================
+// TICKER NORMALIZATION
+// ==========================================
+
+describe("normalizeEquityTicker", () => {
+	it("should decode call series from the month letter", () => {
+		const { normalizedAsset, optionSeries } = normalizeEquityTicker("BBASA350 ON 35,00 BBAS")
+
+		expect(normalizedAsset).toBe("BBASA350")
+		expect(optionSeries).toEqual({ underlying: "BBAS", optionType: "call", expiryMonth: 1, strike: 35 })
+	})
+
+	it("should map units and fractional tickers to the standard ticker", () => {
+		expect(normalizeEquityTicker("TAEE11F UNT N2").normalizedAsset).toBe("TAEE11")
+		expect(normalizeEquityTicker("BOVA11 CI").optionSeries).toBeNull()
+	})
+})
+
+// ==========================================
+// MULTI-NOTA SPLIT
+// ==========================================
+
+describe("splitNotaPages", () => {
+	it("should group continuation pages with their nota and split on a new nota number", () => {
+		const pages = [
+			bmfPage("09/02/2026", "417577", []),
+			"Folha 2 sem cabeçalho legível",
+			bmfPage("10/02/2026", "417601", []),
+			"   ",
+		]
+
+		const notas = splitNotaPages(pages)
+
+		expect(notas).toHaveLength(2)
+		expect(notas[0]).toContain("Folha 2")
+		expect(notas[1]).toContain("417601")
+	})
+})
@@ -0,0 +1,300 @@
+/**
+ * Tests for the monthly Brazilian income tax engine (`calculateTaxLedger`) and its helpers.
+ *
+ * Covers separate day trade / swing loss carry-forward, the swing stock sales exemption,
+ * IRRF credit deduction, the R$10 DARF minimum rollover and DARF due date resolution.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	aggregateMonthlyTaxInputs,
+	calculateTaxLedger,
+	getDarfDueDate,
+	isB3StockSymbol,
+	type TaxableTrade,
+} from "@/lib/tax-calculator"
+import { createTradingCalendar } from "@/lib/market/trading-calendar"
+import type { MonthlyTaxInput } from "@/types/tax"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Rule-based B3 holidays only, nothing stored */
+const b3Calendar = createTradingCalendar("B3", [])
+
+const month = (overrides: Partial<MonthlyTaxInput> & { year: number; month: number }): MonthlyTaxInput => ({
+	dayTradeResultCents: 0,
+	swingResultCents: 0,
+	swingStockResultCents: 0,
+	swingStockSalesCents: 0,
+	irrfCents: 0,
+	...overrides,
+})
+
+const runLedger = (months: MonthlyTaxInput[], taxExemptThresholdCents = 0) =>
+	calculateTaxLedger({
+		months,
+		dayTradeTaxRate: 20,
+		swingTradeTaxRate: 15,
+		taxExemptThresholdCents,
+		calendar: b3Calendar,
+	})
+
+const trade = (overrides: Partial<TaxableTrade>): TaxableTrade => ({
+	entryDate: new Date("2026-03-10T13:00:00Z"),
+	exitDate: new Date("2026-03-10T15:00:00Z"),
+	pnlCents: 0,
+	isStock: false,
+	saleValueCents: 0,
+	...overrides,
+})
+
+// ==========================================
+// DAY TRADE
+// ==========================================
+
+describe("calculateTaxLedger — day trade", () => {
+	it("should tax a profitable month at the day trade rate", () => {
+		const [entry] = runLedger([month({ year: 2026, month: 1, dayTradeResultCents: 500000 })])
+
+		expect(entry.dayTradeTaxableCents).toBe(500000)
+		expect(entry.dayTradeTaxCents).toBe(100000)
+		expect(entry.darfDueCents).toBe(100000)
+	})
+
+	it("should carry a loss forward and offset the next profitable month", () => {
+		const ledger = runLedger([
+			month({ year: 2026, month: 1, dayTradeResultCents: -300000 }),
+			month({ year: 2026, month: 2, dayTradeResultCents: 500000 }),
+		])
+
+		expect(ledger[0].dayTradeLossCarryOutCents).toBe(300000)
+		expect(ledger[0].darfDueCents).toBe(0)
+		expect(ledger[1].dayTradeLossCarryInCents).toBe(300000)
+		expect(ledger[1].dayTradeTaxableCents).toBe(200000)
+		expect(ledger[1].dayTradeTaxCents).toBe(40000)
+		expect(ledger[1].dayTradeLossCarryOutCents).toBe(0)
+	})
+
+	it("should keep accumulating losses across consecutive losing months", () => {
+		const ledger = runLedger([
+			month({ year: 2026, month: 1, dayTradeResultCents: -100000 }),
+			month({ year: 2026, month: 2, dayTradeResultCents: -50000 }),
+			month({ year: 2026, month: 3, dayTradeResultCents: 120000 }),
+		])
+
+		expect(ledger[1].dayTradeLossCarryOutCents).toBe(150000)
+		expect(ledger[2].dayTradeTaxableCents).toBe(0)
+		expect(ledger[2].dayTradeLossCarryOutCents).toBe(30000)
+	})
+})
+
+// ==========================================
+// SWING TRADE
+// ==========================================
+
+describe("calculateTaxLedger — swing trade", () => {
+	it("should not let day trade losses offset swing gains", () => {
+		const [entry] = runLedger([
+			month({ year: 2026, month: 1, dayTradeResultCents: -200000, swingResultCents: 200000 }),
+		])
+
+		expect(entry.swingTaxableCents).toBe(200000)
+		expect(entry.swingTaxCents).toBe(30000)
+		expect(entry.dayTradeLossCarryOutCents).toBe(200000)
+	})
+
+	it("should exempt stock gains when monthly sales stay under the threshold", () => {
+		const [entry] = runLedger(
+			[month({ year: 2026, month: 1, swingStockResultCents: 150000, swingStockSalesCents: 1500000 })],
+			2000000
+		)
+
+		expect(entry.swingExempt).toBe(true)
+		expect(entry.swingTaxableCents).toBe(0)
+		expect(entry.swingResultCents).toBe(150000)
+	})
+
+	it("should tax stock gains when monthly sales exceed the threshold", () => {
+		const [entry] = runLedger(
+			[month({ year: 2026, month: 1, swingStockResultCents: 150000, swingStockSalesCents: 2500000 })],
+			2000000
+		)
+
+		expect(entry.swingExempt).toBe(false)
+		expect(entry.swingTaxableCents).toBe(150000)
+		expect(entry.swingTaxCents).toBe(22500)
+	})
+
+	it("should still carry forward losses from exempt stock months", () => {
+		const ledger = runLedger(
+			[
+				month({ year: 2026, month: 1, swingStockResultCents: -80000, swingStockSalesCents: 500000 }),
+				month({ year: 2026, month: 2, swingResultCents: 100000 }),
+			],
+			2000000
+		)
+
+		expect(ledger[0].swingExempt).toBe(true)
+		expect(ledger[0].swingLossCarryOutCents).toBe(80000)
+		expect(ledger[1].swingTaxableCents).toBe(20000)
+	})
+
+	it("should never exempt when the threshold is zero", () => {
+		const [entry] = runLedger([
+			month({ year: 2026, month: 1, swingStockResultCents: 100000, swingStockSalesCents: 100000 }),
+		])
+
+		expect(entry.swingExempt).toBe(false)
+		expect(entry.swingTaxableCents).toBe(100000)
+	})
+})
+
+// ==========================================
+// IRRF AND DARF MINIMUM
+// ==========================================
+
+describe("calculateTaxLedger — IRRF and DARF", () => {
+	it("should deduct IRRF from the tax due", () => {
+		const [entry] = runLedger([month({ year: 2026, month: 1, dayTradeResultCents: 500000, irrfCents: 5000 })])
+
+		expect(entry.irrfCreditUsedCents).toBe(5000)
+		expect(entry.darfDueCents).toBe(95000)
+	})
+
+	it("should carry unused IRRF credit into the next month", () => {
+		const ledger = runLedger([
+			month({ year: 2026, month: 1, dayTradeResultCents: -100000, irrfCents: 3000 }),
+			month({ year: 2026, month: 2, dayTradeResultCents: 200000 }),
+		])
+
+		expect(ledger[0].irrfCreditCarryOutCents).toBe(3000)
+		// 200000 - 100000 carried loss = 100000 taxable → 20000 tax - 3000 credit
+		expect(ledger[1].irrfCreditUsedCents).toBe(3000)
+		expect(ledger[1].darfDueCents).toBe(17000)
+	})
+
+	it("should roll a DARF below R$10 into the next month", () => {
+		const ledger = runLedger([
+			month({ year: 2026, month: 1, dayTradeResultCents: 4000 }),
+			month({ year: 2026, month: 2, dayTradeResultCents: 3000 }),
+		])
+
+		expect(ledger[0].darfDueCents).toBe(0)
+		expect(ledger[0].darfCarryOutCents).toBe(800)
+		expect(ledger[1].darfCarryInCents).toBe(800)
+		expect(ledger[1].darfDueCents).toBe(1400)
+		expect(ledger[1].darfCarryOutCents).toBe(0)
+	})
+
+	it("should process months chronologically regardless of input order", () => {
+		const ledger = runLedger([
+			month({ year: 2026, month: 2, dayTradeResultCents: 100000 }),
+			month({ year: 2025, month: 12, dayTradeResultCents: -100000 }),
+		])
+
+		expect(ledger.map((e) => `${e.year}-${e.month}`)).toEqual(["2025-12", "2026-2"])
+		expect(ledger[1].dayTradeTaxableCents).toBe(0)
+	})
+})
+
+// ==========================================
+// DUE DATE AND AGGREGATION
+// ==========================================
+
+describe("getDarfDueDate", () => {
+	it("should return the last business day of the following month", () => {
+		// February 28, 2026 is a Saturday
+		expect(getDarfDueDate(2026, 1, b3Calendar)).toBe("2026-02-27")
+		expect(getDarfDueDate(2026, 3, b3Calendar)).toBe("2026-04-30")
+	})
+
+	it("should skip B3 holidays", () => {
+		// December 31, 2025 is a B3 holiday
+		expect(getDarfDueDate(2025, 11, b3Calendar)).toBe("2025-12-30")
+	})
+
+	it("should skip closings stored in market_holidays", () => {
+		const calendar = createTradingCalendar("B3", [
+			{
+				market: "B3",
+				date: "2026-04-30",
+				name: "Fechamento extraordinário",
+				nameEn: "Ad-hoc closing",
+				sessionType: "closed",
+				opensAt: null,
+				closesAt: null,
+				source: "manual",
+			},
+		])
+
+		expect(getDarfDueDate(2026, 3, calendar)).toBe("2026-04-29")
+	})
+
+	it("should roll December into January of the next year", () => {
+		expect(getDarfDueDate(2025, 12, b3Calendar)).toBe("2026-01-30")
+	})
+})
+
+describe("aggregateMonthlyTaxInputs", () => {
+	it("should split day trades, stock swings and other swings by exit month", () => {
+		const inputs = aggregateMonthlyTaxInputs([
+			trade({ pnlCents: 10000 }),
+			trade({
+				entryDate: new Date("2026-03-02T15:00:00Z"),
+				exitDate: new Date("2026-03-20T15:00:00Z"),
+				pnlCents: 20000,
+				isStock: true,
+				saleValueCents: 900000,
+			}),
+			trade({
+				entryDate: new Date("2026-03-25T15:00:00Z"),
+				exitDate: new Date("2026-04-02T15:00:00Z"),
+				pnlCents: -5000,
+			}),
+		])
+
+		expect(inputs).toHaveLength(2)
+		expect(inputs[0]).toMatchObject({
+			year: 2026,
+			month: 3,
+			dayTradeResultCents: 10000,
+			swingStockResultCents: 20000,
+			swingStockSalesCents: 900000,
+		})
+		expect(inputs[1]).toMatchObject({ year: 2026, month: 4, swingResultCents: -5000 })
+	})
+
+	it("should group dates by the BRT session, not UTC", () => {
+		// 22:30 BRT on March 31 is already April 1 in UTC
+		const [input] = aggregateMonthlyTaxInputs([
+			trade({
+				entryDate: new Date("2026-03-31T14:00:00-03:00"),
+				exitDate: new Date("2026-03-31T22:30:00-03:00"),
+				pnlCents: 1000,
+			}),
+		])
+
+		expect(input.month).toBe(3)
+		expect(input.dayTradeResultCents).toBe(1000)
+	})
+
+	it("should add IRRF to months without trades", () => {
+		const inputs = aggregateMonthlyTaxInputs([], new Map([["2026-05", 250]]))
+
+		expect(inputs).toEqual([
+			expect.objectContaining({ year: 2026, month: 5, irrfCents: 250 }),
+		])
+	})
+})
+
+describe("isB3StockSymbol", () => {
+	it("should recognize cash-market tickers and reject futures", () => {
+		expect(isB3StockSymbol("PETR4")).toBe(true)
+		expect(isB3StockSymbol("TAEE11")).toBe(true)
+		expect(isB3StockSymbol("vale3f")).toBe(true)
+		expect(isB3StockSymbol("WINFUT")).toBe(false)
+		expect(isB3StockSymbol("WINZ25")).toBe(false)
+	})
+})
@@ -0,0 +1,183 @@
+/**
+ * Tests for trade attachments: which files each upload path accepts, the
+ * attachment list sent with a trade, which stored files a trade may reference
+ * or delete, and server-side thumbnails.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import sharp from "sharp"
+
+const { dbMock, deleteFileMock } = vi.hoisted(() => ({
+	dbMock: { select: vi.fn(), delete: vi.fn(), insert: vi.fn() },
+	deleteFileMock: vi.fn(),
+}))
+
+vi.mock("@/db/drizzle", () => ({ db: dbMock }))
+vi.mock("@/lib/storage", () => ({ deleteFile: deleteFileMock }))
+
+import { buildS3Key, getAttachmentKind, validateFile } from "@/lib/validations/upload"
+import { tradeAttachmentsSchema } from "@/lib/validations/trade-attachment"
+import { assertOwnAttachmentKeys, replaceTradeAttachments } from "@/lib/trade-attachments"
+import { THUMBNAIL_WIDTH, createThumbnail, getThumbnailKey } from "@/lib/thumbnails"
+
+/** Query builder stand-in: every step returns itself, awaiting it yields `result` */
+const chain = (result: unknown = []) => {
+	const builder: Record<string, unknown> = {}
+	for (const step of ["from", "where", "values"]) {
+		builder[step] = vi.fn(() => builder)
+	}
+	builder.then = (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+		Promise.resolve(result).then(resolve, reject)
+	return builder as Record<string, ReturnType<typeof vi.fn>>
+}
+
+const fileOf = (type: string, sizeMb: number): File =>
+	new File([new Uint8Array(Math.round(sizeMb * 1024 * 1024))], "file", { type })
+
+const attachment = {
+	kind: "image" as const,
+	url: "https://files.example.com/trades/t/1-a.png",
+	s3Key: "trades/t/1-a.png",
+	fileName: "entry.png",
+	contentType: "image/png",
+	sizeBytes: 1024,
+}
+
+describe("validateFile", () => {
+	it("should accept recordings and PDFs only for trades", () => {
+		expect(validateFile(fileOf("video/mp4", 1), "trades")).toBeNull()
+		expect(validateFile(fileOf("application/pdf", 1), "trades")).toBeNull()
+		expect(validateFile(fileOf("application/pdf", 1), "playbooks")).toBe("validation.upload.invalidFileType")
+		expect(validateFile(fileOf("text/plain", 1), "trades")).toBe("validation.upload.invalidAttachmentType")
+	})
+
+	it("should apply the size limit of each kind", () => {
+		expect(validateFile(fileOf("video/webm", 40), "trades")).toBeNull()
+		expect(validateFile(fileOf("image/png", 6), "trades")).toBe("validation.upload.fileTooLarge")
+		expect(validateFile(fileOf("application/pdf", 11), "trades")).toBe("validation.upload.fileTooLarge")
+	})
+
+	it("should map MIME types to attachment kinds", () => {
+		expect(getAttachmentKind("image/webp")).toBe("image")
+		expect(getAttachmentKind("video/quicktime")).toBe("video")
+		expect(getAttachmentKind("application/pdf")).toBe("document")
+		expect(getAttachmentKind("application/zip")).toBeNull()
+	})
+})
+
+describe("tradeAttachmentsSchema", () => {
+	it("should accept trade uploads and files owned elsewhere", () => {
+		expect(tradeAttachmentsSchema.safeParse([attachment, { ...attachment, s3Key: "" }]).success).toBe(true)
+	})
+
+	it("should reject storage keys outside trade uploads", () => {
+		expect(tradeAttachmentsSchema.safeParse([{ ...attachment, s3Key: "playbooks/p/1-a.png" }]).success).toBe(false)
+		expect(
+			tradeAttachmentsSchema.safeParse([{ ...attachment, thumbnailS3Key: "bug-reports/b/1.webp" }]).success
+		).toBe(false)
+	})
+
+	it("should cap the number of attachments", () => {
+		expect(tradeAttachmentsSchema.safeParse(Array(11).fill(attachment)).success).toBe(false)
+	})
+})
+
+describe("buildS3Key", () => {
+	it("should nest trade uploads under their owner", () => {
+		expect(buildS3Key("trades", "trade-1", "entry.PNG", "user-1")).toMatch(/^trades\/user-1\/trade-1\/\d+-\w+\.png$/)
+		expect(buildS3Key("playbooks", "playbook-1", "cover.jpg", "user-1")).toMatch(/^playbooks\/playbook-1\//)
+	})
+})
+
+describe("assertOwnAttachmentKeys", () => {
+	const own = { ...attachment, s3Key: "trades/user-1/t/1-a.png", thumbnailS3Key: "trades/user-1/t/1-a.thumb.webp" }
+
+	it("should accept the user's own uploads and files owned elsewhere", () => {
+		expect(() => assertOwnAttachmentKeys([own, { ...attachment, s3Key: "" }], "user-1")).not.toThrow()
+	})
+
+	it("should reject another user's files", () => {
+		expect(() => assertOwnAttachmentKeys([{ ...own, s3Key: "trades/user-2/t/1-a.png" }], "user-1")).toThrow()
+		expect(() => assertOwnAttachmentKeys([{ ...own, thumbnailS3Key: "trades/user-2/t/1.webp" }], "user-1")).toThrow()
+	})
+
+	it("should keep accepting files already stored on the trade", () => {
+		expect(() => assertOwnAttachmentKeys([attachment], "user-1", [attachment.s3Key])).not.toThrow()
+	})
+})
+
+describe("replaceTradeAttachments", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+		deleteFileMock.mockResolvedValue(undefined)
+		dbMock.delete.mockReturnValue(chain())
+		dbMock.insert.mockReturnValue(chain())
+	})
+
+	it("should delete only the trade's own files that were dropped", async () => {
+		dbMock.select.mockReturnValue(chain([
+			{ s3Key: "trades/t/1-a.png", thumbnailS3Key: "trades/t/1-a.thumb.webp" },
+			{ s3Key: "trades/t/2-b.pdf", thumbnailS3Key: null },
+		]))
+
+		await replaceTradeAttachments("trade-1", "user-1", [
+			{ ...attachment, s3Key: "trades/t/2-b.pdf" },
+			{ ...attachment, s3Key: "trades/user-1/t/3-c.png" },
+		])
+
+		expect(deleteFileMock.mock.calls.map(([key]) => key)).toEqual([
+			"trades/t/1-a.png",
+			"trades/t/1-a.thumb.webp",
+		])
+	})
+
+	it("should refuse another user's file without touching the trade", async () => {
+		dbMock.select.mockReturnValue(chain([]))
+
+		await expect(
+			replaceTradeAttachments("trade-1", "user-1", [{ ...attachment, s3Key: "trades/user-2/t/1-a.png" }])
+		).rejects.toThrow()
+		expect(dbMock.delete).not.toHaveBeenCalled()
+		expect(deleteFileMock).not.toHaveBeenCalled()
+	})
+})
+
+describe("createThumbnail", () => {
+	it("should downscale large images to WebP", async () => {
+		const image = await sharp({
+			create: { width: 1920, height: 1080, channels: 3, background: "#0b1220" },
+		})
+			.png()
+			.toBuffer()
+
+		const thumbnail = await createThumbnail(image)
+		const metadata = await sharp(thumbnail.body).metadata()
+
+		expect(thumbnail.contentType).toBe("image/webp")
+		expect(metadata.format).toBe("webp")
+		expect(metadata.width).toBe(THUMBNAIL_WIDTH)
+		expect(metadata.height).toBe(360)
+	})
+
+	it("should not upscale small images", async () => {
+		const image = await sharp({
+			create: { width: 200, height: 100, channels: 3, background: "#ffffff" },
+		})
+			.jpeg()
+			.toBuffer()
+
+		const metadata = await sharp((await createThumbnail(image)).body).metadata()
+
+		expect(metadata.width).toBe(200)
+	})
+
+	it("should reject files that are not images", async () => {
+		await expect(createThumbnail(Buffer.from("not an image"))).rejects.toThrow()
+	})
+})
+
+describe("getThumbnailKey", () => {
+	it("should store the thumbnail next to the original", () => {
+		expect(getThumbnailKey("trades/abc/1700000000000-x1y2.png")).toBe("trades/abc/1700000000000-x1y2.thumb.webp")
+	})
+})
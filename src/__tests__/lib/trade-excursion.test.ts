@@ -0,0 +1,160 @@
+/**
+ * Tests for MFE/MAE derived from stored price bars or values already on a trade.
+ */
+
+import { describe, it, expect } from "vitest"
+import {
+	computeTradeExcursion,
+	excursionFromStored,
+	getTimeframeDurationMs,
+	getTradeChartWindow,
+	selectTradeBars,
+} from "@/lib/trade-excursion"
+import type { PriceBar } from "@/types/price-bar"
+
+const FIVE_MINUTES = 300_000
+
+/** Five-minute bars starting at 09:00 BRT */
+const makeBars = (prices: Array<[number, number, number, number]>): PriceBar[] =>
+	prices.map(([open, high, low, close], i) => ({
+		time: new Date(new Date("2026-03-16T09:00:00-03:00").getTime() + i * FIVE_MINUTES),
+		open,
+		high,
+		low,
+		close,
+		volume: null,
+	}))
+
+const at = (time: string) => new Date(`2026-03-16T${time}-03:00`)
+
+describe("getTimeframeDurationMs", () => {
+	it("should convert time based timeframes", () => {
+		expect(getTimeframeDurationMs({ type: "time_based", value: 5, unit: "minutes" })).toBe(FIVE_MINUTES)
+		expect(getTimeframeDurationMs({ type: "time_based", value: 1, unit: "hours" })).toBe(3_600_000)
+	})
+
+	it("should return null for renko and tick charts", () => {
+		expect(getTimeframeDurationMs({ type: "renko", value: 10, unit: "points" })).toBeNull()
+		expect(getTimeframeDurationMs({ type: "time_based", value: 100, unit: "ticks" })).toBeNull()
+	})
+})
+
+describe("getTradeChartWindow", () => {
+	it("should pad the trade by thirty bars on each side", () => {
+		const window = getTradeChartWindow(at("10:00:00"), at("10:30:00"), FIVE_MINUTES)
+
+		expect(window.from).toEqual(at("07:30:00"))
+		expect(window.to).toEqual(at("13:00:00"))
+	})
+})
+
+describe("selectTradeBars", () => {
+	const bars = makeBars([
+		[100, 101, 99, 100],
+		[100, 103, 99, 102],
+		[102, 104, 101, 103],
+		[103, 105, 98, 99],
+	])
+
+	it("should return the bars from the entry bar through the exit bar", () => {
+		const span = selectTradeBars(bars, at("09:07:30"), at("09:12:00"), FIVE_MINUTES)
+
+		expect(span.map((bar) => bar.high)).toEqual([103, 104])
+	})
+
+	it("should return nothing when the bars don't reach the exit", () => {
+		expect(selectTradeBars(bars, at("09:07:30"), at("09:25:00"), FIVE_MINUTES)).toEqual([])
+	})
+
+	it("should return nothing when the bars start after the entry", () => {
+		expect(selectTradeBars(bars, at("08:55:00"), at("09:12:00"), FIVE_MINUTES)).toEqual([])
+	})
+})
+
+describe("computeTradeExcursion", () => {
+	const bars = makeBars([
+		[100, 103, 99, 102],
+		[102, 106, 101, 105],
+	])
+
+	it("should use the highs for a long's MFE and the lows for its MAE", () => {
+		const excursion = computeTradeExcursion(
+			{ direction: "long", entryPrice: 100, exitPrice: 105, stopLoss: 98 },
+			bars
+		)
+
+		expect(excursion).toEqual({ mfe: 106, mae: 99, mfeR: 3, maeR: -0.5 })
+	})
+
+	it("should mirror the extremes for a short", () => {
+		const excursion = computeTradeExcursion(
+			{ direction: "short", entryPrice: 102, exitPrice: 104, stopLoss: 106 },
+			bars
+		)
+
+		expect(excursion).toEqual({ mfe: 99, mae: 106, mfeR: 0.75, maeR: -1 })
+	})
+
+	it("should count the fills even when the bars miss them", () => {
+		const excursion = computeTradeExcursion(
+			{ direction: "long", entryPrice: 98, exitPrice: 107, stopLoss: 97 },
+			bars
+		)
+
+		expect(excursion?.mfe).toBe(107)
+		expect(excursion?.mae).toBe(98)
+		expect(excursion?.maeR).toBe(0)
+	})
+
+	it("should leave the R values empty without a stop", () => {
+		const excursion = computeTradeExcursion(
+			{ direction: "long", entryPrice: 100, exitPrice: 105, stopLoss: null },
+			bars
+		)
+
+		expect(excursion).toEqual({ mfe: 106, mae: 99, mfeR: null, maeR: null })
+	})
+
+	it("should return null without bars", () => {
+		expect(
+			computeTradeExcursion({ direction: "long", entryPrice: 100, exitPrice: 105, stopLoss: 98 }, [])
+		).toBeNull()
+	})
+})
+
+describe("excursionFromStored", () => {
+	const winLong = { direction: "long" as const, entryPrice: 128000, exitPrice: 128200, stopLoss: 127900, positionSize: 2 }
+	const ticks = { tickSize: 5, tickValue: 1 }
+
+	it("should keep values that are already prices", () => {
+		expect(excursionFromStored(winLong, { mfe: 128300, mae: 127950 }, ticks)).toEqual({
+			mfe: 128300,
+			mae: 127950,
+			mfeR: 3,
+			maeR: -0.5,
+		})
+	})
+
+	it("should convert ProfitChart money amounts with the tick config", () => {
+		// R$ 120 over 2 contracts at R$ 1 per 5 points = 300 points
+		expect(excursionFromStored(winLong, { mfe: 120, mae: 20 }, ticks)).toEqual({
+			mfe: 128300,
+			mae: 127950,
+			mfeR: 3,
+			maeR: -0.5,
+		})
+	})
+
+	it("should mirror the conversion for a short", () => {
+		const short = { ...winLong, direction: "short" as const, stopLoss: 128100 }
+
+		expect(excursionFromStored(short, { mfe: 120, mae: 20 }, ticks)).toMatchObject({
+			mfe: 127700,
+			mae: 128050,
+		})
+	})
+
+	it("should give up on money amounts without a tick config", () => {
+		expect(excursionFromStored(winLong, { mfe: 120, mae: 20 }, null)).toBeNull()
+	})
+})
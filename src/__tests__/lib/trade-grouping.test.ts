@@ -0,0 +1,119 @@
+/**
+ * Tests for trade grouping with open-position carryover (`groupExecutionsIntoTrades`).
+ *
+ * Covers overnight positions within one statement, exits that continue a position
+ * stored by an earlier import, and a reversal fill split between two trades.
+ */
+
+import { describe, it, expect } from "vitest"
+import { groupExecutionsIntoTrades } from "@/lib/csv-parsers/trade-grouping"
+import type { OpenPosition, RawExecution } from "@/lib/csv-parsers/types"
+
+// ==========================================
+// FIXTURES
+// ==========================================
+
+const execution = (
+	date: string,
+	time: string,
+	side: "BUY" | "SELL",
+	quantity: number,
+	price: number,
+	asset = "PETR4"
+): RawExecution => ({
+	date,
+	time,
+	asset,
+	side,
+	quantity,
+	price,
+	commission: quantity * 0.5,
+	broker: "CLEAR",
+})
+
+const storedPosition: OpenPosition = {
+	tradeId: "trade-1",
+	asset: "PETR4",
+	direction: "long",
+	remainingQuantity: 200,
+	averagePrice: 35,
+	openedAt: new Date("2026-02-09T13:00:00.000Z"),
+}
+
+// ==========================================
+// CARRYOVER
+// ==========================================
+
+describe("groupExecutionsIntoTrades", () => {
+	it("should keep a same-day round trip as one closed trade", () => {
+		const trades = groupExecutionsIntoTrades([
+			execution("10/02/2026", "10:00:00", "BUY", 100, 35),
+			execution("10/02/2026", "11:00:00", "SELL", 100, 36),
+		])
+
+		expect(trades).toHaveLength(1)
+		expect(trades[0]).toMatchObject({ status: "closed", remainingQuantity: 0, continuesTradeId: null, grossPnl: 100 })
+	})
+
+	it("should close an overnight position on the next day's exits", () => {
+		const trades = groupExecutionsIntoTrades([
+			execution("11/02/2026", "10:30:00", "SELL", 100, 37),
+			execution("10/02/2026", "15:00:00", "BUY", 100, 35),
+		])
+
+		expect(trades).toHaveLength(1)
+		expect(trades[0]).toMatchObject({
+			date: "10/02/2026",
+			direction: "long",
+			exitQuantity: 100,
+			remainingQuantity: 0,
+			grossPnl: 200,
+		})
+	})
+
+	it("should continue a stored open position and report what stays open", () => {
+		const trades = groupExecutionsIntoTrades(
+			[execution("10/02/2026", "10:00:00", "SELL", 150, 36)],
+			[storedPosition]
+		)
+
+		expect(trades).toHaveLength(1)
+		expect(trades[0]).toMatchObject({
+			continuesTradeId: "trade-1",
+			entryPrice: 35,
+			entryQuantity: 200,
+			exitQuantity: 150,
+			remainingQuantity: 50,
+			grossPnl: 150,
+		})
+		expect(trades[0].entryGroup.executions).toHaveLength(0)
+	})
+
+	it("should split a reversal fill between the carried trade and a new one", () => {
+		const trades = groupExecutionsIntoTrades(
+			[execution("10/02/2026", "10:00:00", "SELL", 300, 36)],
+			[storedPosition]
+		)
+
+		expect(trades).toHaveLength(2)
+		expect(trades[0]).toMatchObject({ continuesTradeId: "trade-1", exitQuantity: 200, remainingQuantity: 0 })
+		expect(trades[0].totalCommission).toBeCloseTo(100)
+		expect(trades[1]).toMatchObject({
+			continuesTradeId: null,
+			direction: "short",
+			entryQuantity: 100,
+			status: "open",
+			remainingQuantity: 100,
+		})
+	})
+
+	it("should ignore stored positions of other assets", () => {
+		const trades = groupExecutionsIntoTrades(
+			[execution("10/02/2026", "10:00:00", "SELL", 100, 36, "VALE3")],
+			[storedPosition]
+		)
+
+		expect(trades).toHaveLength(1)
+		expect(trades[0]).toMatchObject({ asset: "VALE3", direction: "short", continuesTradeId: null })
+	})
+})
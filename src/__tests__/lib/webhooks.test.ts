@@ -0,0 +1,245 @@
+/**
+ * Tests for webhook helpers (event filters, retry schedule), the internal
+ * address guard (up front and at connect time) and signed delivery against a
+ * local HTTP server standing in for the receiver (allowed through
+ * WEBHOOK_ALLOWED_HOSTS).
+ */
+
+import { createServer, type IncomingHttpHeaders, type Server } from "http"
+import type { AddressInfo } from "net"
+import { createHmac } from "crypto"
+import type { LookupAddress } from "dns"
+import { afterAll, beforeAll, beforeEach, describe, it, expect, vi } from "vitest"
+import {
+	WEBHOOK_MAX_ATTEMPTS,
+	buildWebhookDedupeKey,
+	getNextWebhookAttemptAt,
+	parseWebhookEvents,
+	webhookAcceptsEvent,
+} from "@/lib/webhooks"
+import { generateWebhookSecret, sendWebhookRequest, signWebhookPayload } from "@/lib/webhook-delivery"
+import { checkWebhookUrl, guardedLookup, isBlockedAddress } from "@/lib/webhook-url-guard"
+
+describe("parseWebhookEvents", () => {
+	it("should keep known events and drop the rest", () => {
+		expect(parseWebhookEvents('["trade.created","trade.deleted","import.completed"]')).toEqual([
+			"trade.created",
+			"import.completed",
+		])
+	})
+
+	it("should return no events for malformed JSON", () => {
+		expect(parseWebhookEvents("nope")).toEqual([])
+	})
+})
+
+describe("webhookAcceptsEvent", () => {
+	it("should filter by subscribed events but always accept test events", () => {
+		expect(webhookAcceptsEvent(["trade.closed"], "trade.closed")).toBe(true)
+		expect(webhookAcceptsEvent(["trade.closed"], "trade.created")).toBe(false)
+		expect(webhookAcceptsEvent([], "webhook.test")).toBe(true)
+	})
+})
+
+describe("getNextWebhookAttemptAt", () => {
+	const now = new Date("2026-03-10T12:00:00Z")
+
+	it("should back off further after each failed attempt", () => {
+		expect(getNextWebhookAttemptAt(1, now)?.toISOString()).toBe("2026-03-10T12:01:00.000Z")
+		expect(getNextWebhookAttemptAt(2, now)?.toISOString()).toBe("2026-03-10T12:05:00.000Z")
+	})
+
+	it("should give up once every attempt is used", () => {
+		expect(getNextWebhookAttemptAt(WEBHOOK_MAX_ATTEMPTS - 1, now)).not.toBeNull()
+		expect(getNextWebhookAttemptAt(WEBHOOK_MAX_ATTEMPTS, now)).toBeNull()
+	})
+})
+
+describe("buildWebhookDedupeKey", () => {
+	it("should scope keys to event, account and day", () => {
+		expect(buildWebhookDedupeKey("risk.stop_trading", "acc-1", "2026-03-10")).toBe(
+			"risk.stop_trading:acc-1:2026-03-10"
+		)
+	})
+})
+
+describe("signWebhookPayload", () => {
+	it("should sign the timestamp and body with HMAC-SHA256", () => {
+		const expected = createHmac("sha256", "secret").update('1700000000.{"a":1}').digest("hex")
+
+		expect(signWebhookPayload("secret", 1700000000, '{"a":1}')).toBe(`sha256=${expected}`)
+		expect(signWebhookPayload("secret", 1700000001, '{"a":1}')).not.toBe(`sha256=${expected}`)
+	})
+})
+
+describe("isBlockedAddress", () => {
+	it("should block loopback, private, link-local and unique-local addresses", () => {
+		for (const address of [
+			"127.0.0.1",
+			"10.1.2.3",
+			"172.16.0.1",
+			"172.31.255.255",
+			"192.168.1.1",
+			"169.254.169.254",
+			"0.0.0.0",
+			"::1",
+			"fd12:3456::1",
+			"fe80::1",
+			"::ffff:7f00:1",
+			"::ffff:10.0.0.1",
+		]) {
+			expect(isBlockedAddress(address), address).toBe(true)
+		}
+	})
+
+	it("should allow public addresses", () => {
+		for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700:4700::1111"]) {
+			expect(isBlockedAddress(address), address).toBe(false)
+		}
+	})
+})
+
+describe("checkWebhookUrl", () => {
+	it("should reject internal IP literals, including bracketed IPv6", async () => {
+		expect((await checkWebhookUrl("http://169.254.169.254/latest/meta-data")).allowed).toBe(false)
+		expect((await checkWebhookUrl("http://[::1]:3000/hook")).allowed).toBe(false)
+		expect((await checkWebhookUrl("http://[::ffff:127.0.0.1]/hook")).allowed).toBe(false)
+		expect((await checkWebhookUrl("https://8.8.8.8/hook")).allowed).toBe(true)
+	})
+
+	it("should resolve hostnames before deciding", async () => {
+		expect((await checkWebhookUrl("http://localhost:3000/hook")).allowed).toBe(false)
+	})
+
+	it("should let allowlisted hosts through", async () => {
+		vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", "example.test, 127.0.0.1")
+		expect((await checkWebhookUrl("http://127.0.0.1:4000/hook")).allowed).toBe(true)
+		vi.unstubAllEnvs()
+		expect((await checkWebhookUrl("http://127.0.0.1:4000/hook")).allowed).toBe(false)
+	})
+})
+
+describe("guardedLookup", () => {
+	const resolveAll = (hostname: string) =>
+		new Promise<{ error: NodeJS.ErrnoException | null; addresses: LookupAddress[] }>((resolve) => {
+			guardedLookup(hostname, { all: true }, (error, addresses) => {
+				resolve({ error, addresses: Array.isArray(addresses) ? addresses : [] })
+			})
+		})
+
+	it("should fail the connection when the host resolves internally", async () => {
+		const { error } = await resolveAll("localhost")
+
+		expect(error?.code).toBe("EWEBHOOKBLOCKED")
+		expect(error?.message).toContain("private or internal")
+	})
+
+	it("should resolve allowlisted hosts as usual", async () => {
+		vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", "localhost")
+		const { error, addresses } = await resolveAll("localhost")
+		vi.unstubAllEnvs()
+
+		expect(error).toBeNull()
+		expect(addresses.length).toBeGreaterThan(0)
+	})
+})
+
+describe("sendWebhookRequest", () => {
+	let server: Server
+	let baseUrl: string
+	let responseStatus = 200
+	let received: { headers: IncomingHttpHeaders; body: string }[] = []
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = ""
+			req.on("data", (chunk) => (body += chunk))
+			req.on("end", () => {
+				received.push({ headers: req.headers, body })
+				res.writeHead(responseStatus, { "Content-Type": "text/plain" })
+				res.end(responseStatus === 200 ? "ok" : "boom")
+			})
+		})
+		await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+		vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", "127.0.0.1")
+	})
+
+	afterAll(async () => {
+		vi.unstubAllEnvs()
+		await new Promise<void>((resolve) => server.close(() => resolve()))
+	})
+
+	beforeEach(() => {
+		responseStatus = 200
+		received = []
+	})
+
+	it("should POST a body the receiver can verify with the secret", async () => {
+		const secret = generateWebhookSecret()
+		const body = JSON.stringify({ id: "delivery-1", event: "trade.created", data: { tradeId: "t1" } })
+
+		const result = await sendWebhookRequest({
+			url: `${baseUrl}/hook`,
+			secret,
+			deliveryId: "delivery-1",
+			event: "trade.created",
+			body,
+		})
+
+		expect(result).toEqual({ ok: true, status: 200, body: "ok", error: null })
+		expect(received).toHaveLength(1)
+
+		const [request] = received
+		const timestamp = Number(request.headers["x-axion-timestamp"])
+		expect(request.body).toBe(body)
+		expect(request.headers["x-axion-event"]).toBe("trade.created")
+		expect(request.headers["x-axion-delivery"]).toBe("delivery-1")
+		expect(request.headers["x-axion-signature"]).toBe(signWebhookPayload(secret, timestamp, body))
+	})
+
+	it("should report non-2xx responses as failures", async () => {
+		responseStatus = 500
+
+		const result = await sendWebhookRequest({
+			url: baseUrl,
+			secret: "secret",
+			deliveryId: "delivery-2",
+			event: "webhook.test",
+			body: "{}",
+		})
+
+		expect(result).toEqual({ ok: false, status: 500, body: "boom", error: "HTTP 500" })
+	})
+
+	it("should not request hosts outside the allowlist that resolve internally", async () => {
+		vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", "")
+
+		const result = await sendWebhookRequest({
+			url: baseUrl,
+			secret: "secret",
+			deliveryId: "delivery-4",
+			event: "webhook.test",
+			body: "{}",
+		})
+		vi.stubEnv("WEBHOOK_ALLOWED_HOSTS", "127.0.0.1")
+
+		expect(result).toMatchObject({ ok: false, status: null, body: null })
+		expect(result.error).toContain("private or internal")
+		expect(received).toHaveLength(0)
+	})
+
+	it("should report unreachable endpoints without throwing", async () => {
+		const result = await sendWebhookRequest({
+			url: "http://127.0.0.1:1/unreachable",
+			secret: "secret",
+			deliveryId: "delivery-3",
+			event: "webhook.test",
+			body: "{}",
+		})
+
+		expect(result.ok).toBe(false)
+		expect(result.status).toBeNull()
+		expect(result.error).toBeTruthy()
+	})
+})
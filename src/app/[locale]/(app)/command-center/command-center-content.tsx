@@ -10,8 +10,10 @@ import {
 	AssetRulesPanel,
 	DailySummaryCard,
 	LiveTradingStatusPanel,
+	PropEvaluationPanel,
 } from "@/components/command-center"
 import { DateNavigator } from "@/components/command-center/date-navigator"
+import { ReplayTimelinePanel } from "@/components/command-center/replay-timeline-panel"
 import {
 	getTodayCompletions,
 	getTodayNotes,
@@ -27,6 +29,8 @@ import type {
 } from "@/app/actions/command-center"
 import type { CircuitBreakerStatus } from "@/lib/validations/command-center"
 import type { LiveTradingStatusResult } from "@/types/live-trading-status"
+import type { PropEvaluationOverview } from "@/types/prop-evaluation"
+import type { ReplayTimeline } from "@/types/replay"
 import type {
 	DailyChecklist as DailyChecklistType,
 	DailyAccountNote,
@@ -56,6 +60,8 @@ export interface CommandCenterContentProps {
 	initialPlan?: MonthlyPlan | null
 	riskProfileName?: string | null
 	initialLiveTradingStatus?: LiveTradingStatusResult | null
+	initialPropEvaluation?: PropEvaluationOverview | null
+	initialReplayTimeline?: ReplayTimeline | null
 }
 
 export const CommandCenterContent = ({
@@ -72,6 +78,8 @@ export const CommandCenterContent = ({
 	initialPlan,
 	riskProfileName,
 	initialLiveTradingStatus = null,
+	initialPropEvaluation = null,
+	initialReplayTimeline = null,
 }: CommandCenterContentProps) => {
 	const isReadOnly = !isToday
 	const tPlan = useTranslations("commandCenter.plan")
@@ -158,11 +166,19 @@ export const CommandCenterContent = ({
 				currentDate={viewDate}
 				isToday={isToday}
 				isReplayAccount={account?.accountType === "replay"}
+				replayStartDate={initialReplayTimeline?.startDate ?? null}
+				replayCurrentDate={initialReplayTimeline?.currentDate ?? null}
 			/>
 
+			{/* Replay session timeline - replay accounts only */}
+			<ReplayTimelinePanel timeline={initialReplayTimeline} viewDate={viewDate} />
+
 			{/* Circuit Breaker Panel - Full Width */}
 			<CircuitBreakerPanel status={circuitBreaker} />
 
+			{/* Prop Evaluation Panel - prop accounts with rules only */}
+			<PropEvaluationPanel data={initialPropEvaluation} />
+
 			{/* Live Trading Status Panel - Full Width */}
 			<LiveTradingStatusPanel
 				data={liveTradingStatus}
@@ -14,6 +14,8 @@ import { getActiveAssets } from "@/app/actions/assets"
 import { getCurrentAccount } from "@/app/actions/auth"
 import { getStrategies } from "@/app/actions/strategies"
 import { getLiveTradingStatus } from "@/app/actions/live-trading-status"
+import { getPropEvaluationStatus } from "@/app/actions/prop-rules"
+import { getReplayTimeline } from "@/app/actions/replay"
 import { getEffectiveDateWithOverride } from "@/lib/effective-date"
 import { formatDateKey } from "@/lib/dates"
 import { fromCents } from "@/lib/money"
@@ -60,6 +62,8 @@ const CommandCenterPage = async ({ params, searchParams }: CommandCenterPageProp
 		monthlyPlanResult,
 		riskProfilesResult,
 		liveTradingStatusResult,
+		propEvaluationResult,
+		replayTimelineResult,
 	] = await Promise.all([
 		getChecklists(),
 		getTodayCompletions(dateArg),
@@ -72,6 +76,8 @@ const CommandCenterPage = async ({ params, searchParams }: CommandCenterPageProp
 		getActiveMonthlyPlan(),
 		listActiveRiskProfiles(),
 		getLiveTradingStatus(dateArg),
+		getPropEvaluationStatus(dateArg),
+		account?.accountType === "replay" ? getReplayTimeline() : null,
 	])
 
 	const initialChecklists =
@@ -103,6 +109,10 @@ const CommandCenterPage = async ({ params, searchParams }: CommandCenterPageProp
 		riskProfilesResult.status === "success" ? (riskProfilesResult.data ?? []) : []
 	const initialLiveTradingStatus =
 		liveTradingStatusResult.status === "success" ? (liveTradingStatusResult.data ?? null) : null
+	const initialPropEvaluation =
+		propEvaluationResult.status === "success" ? (propEvaluationResult.data ?? null) : null
+	const initialReplayTimeline =
+		replayTimelineResult?.status === "success" ? (replayTimelineResult.data ?? null) : null
 
 	// Derive current year/month from effective date for the Plan tab
 	const planYear = effectiveDate.getFullYear()
@@ -139,6 +149,8 @@ const CommandCenterPage = async ({ params, searchParams }: CommandCenterPageProp
 				riskProfiles={riskProfiles}
 				isReplayAccount={account?.accountType === "replay"}
 				initialLiveTradingStatus={initialLiveTradingStatus}
+				initialPropEvaluation={initialPropEvaluation}
+				initialReplayTimeline={initialReplayTimeline}
 			/>
 		</div>
 	)
@@ -27,9 +27,12 @@ import {
 	TradeMetric,
 	RMultipleBar,
 	TradeExecutionsSection,
+	TradeChart,
+	TradeAttachmentsGallery,
 } from "@/components/journal"
 import { getTrade } from "@/app/actions/trades"
 import { getAssetBySymbol } from "@/app/actions/assets"
+import { getTradeChartData } from "@/app/actions/price-bars"
 import { DeleteTradeButton } from "./delete-button"
 import { TradeDetailGuide } from "@/components/journal/trade-detail-guide"
 
@@ -49,8 +52,11 @@ const TradeDetailPage = async ({ params }: TradeDetailPageProps) => {
 
 	const trade = result.data
 
-	// Fetch asset data for tick size/value (for execution calculations)
-	const asset = await getAssetBySymbol(trade.asset)
+	// Fetch asset data for tick size/value (for execution calculations) and the stored bars for the chart
+	const [asset, chartResult] = await Promise.all([
+		getAssetBySymbol(trade.asset),
+		getTradeChartData(trade.id),
+	])
 	// pnl is stored in cents, convert to dollars for display
 	const pnl = fromCents(trade.pnl)
 	const realizedR = Number(trade.realizedRMultiple) || 0
@@ -262,6 +268,14 @@ const TradeDetailPage = async ({ params }: TradeDetailPageProps) => {
 						tickValue={asset ? Number(asset.tickValue) / 100 : undefined}
 					/>
 
+					{/* Price chart from imported bars */}
+					{chartResult.status === "success" && chartResult.data && (
+						<TradeChart tradeId={trade.id} initialData={chartResult.data} />
+					)}
+
+					{/* Attachments (chart captures, recordings, documents) */}
+					<TradeAttachmentsGallery attachments={trade.attachments ?? []} />
+
 					{/* R-Multiple Visualization */}
 					{(plannedR > 0 || realizedR !== 0) && (
 						<Card
@@ -297,6 +311,11 @@ const TradeDetailPage = async ({ params }: TradeDetailPageProps) => {
 										<p className="mt-s-100 text-body text-trade-buy font-semibold">
 											${Number(trade.mfe).toFixed(2)}
 										</p>
+										{trade.mfeR && (
+											<p className="text-tiny text-trade-buy">
+												{formatRMultiple(Number(trade.mfeR))}
+											</p>
+										)}
 									</div>
 								)}
 								{trade.mae && (
@@ -305,6 +324,11 @@ const TradeDetailPage = async ({ params }: TradeDetailPageProps) => {
 										<p className="mt-s-100 text-body text-trade-sell font-semibold">
 											${Number(trade.mae).toFixed(2)}
 										</p>
+										{trade.maeR && (
+											<p className="text-tiny text-trade-sell">
+												{formatRMultiple(Number(trade.maeR))}
+											</p>
+										)}
 									</div>
 								)}
 							</div>
@@ -5,6 +5,7 @@ import {
 	getMonthlyProjection,
 	getMonthComparison,
 } from "@/app/actions/reports"
+import { getPropEvaluationHistory, getPropEvaluationStatus } from "@/app/actions/prop-rules"
 
 
 interface MonthlyPageProps {
@@ -16,15 +17,20 @@ const MonthlyPage = async ({ params }: MonthlyPageProps) => {
 	setRequestLocale(locale)
 
 	// Fetch initial data server-side
-	const [monthlyResult, projectionResult, comparisonResult] = await Promise.all([
+	const [monthlyResult, projectionResult, comparisonResult, propEvaluationResult] = await Promise.all([
 		getMonthlyResultsWithProp(0),
 		getMonthlyProjection(),
 		getMonthComparison(0),
+		getPropEvaluationStatus(),
 	])
+	// History is read after the evaluation so it includes today's recorded day
+	const propHistoryResult = await getPropEvaluationHistory()
 
 	const initialMonthlyData = monthlyResult.status === "success" ? monthlyResult.data ?? null : null
 	const initialProjectionData = projectionResult.status === "success" ? projectionResult.data ?? null : null
 	const initialComparisonData = comparisonResult.status === "success" ? comparisonResult.data ?? null : null
+	const initialPropEvaluation = propEvaluationResult.status === "success" ? propEvaluationResult.data ?? null : null
+	const initialPropHistory = propHistoryResult.status === "success" ? propHistoryResult.data ?? [] : []
 
 	return (
 		<div className="min-h-dvh bg-bg-100">
@@ -33,6 +39,8 @@ const MonthlyPage = async ({ params }: MonthlyPageProps) => {
 					initialMonthlyData={initialMonthlyData}
 					initialProjectionData={initialProjectionData}
 					initialComparisonData={initialComparisonData}
+					initialPropEvaluation={initialPropEvaluation}
+					initialPropHistory={initialPropHistory}
 				/>
 			</main>
 		</div>
@@ -5,7 +5,8 @@ import {
 	getMonthlyReport,
 	getMistakeCostAnalysis,
 } from "@/app/actions/reports"
-
+import { getTaxLedger } from "@/app/actions/tax"
+import { getServerEffectiveNow } from "@/lib/effective-date"
 
 interface ReportsPageProps {
 	params: Promise<{ locale: string }>
@@ -15,13 +16,16 @@ const ReportsPage = async ({ params }: ReportsPageProps) => {
 	const { locale } = await params
 	setRequestLocale(locale)
 
-	const [weeklyResult, monthlyResult, mistakeResult] = await Promise.all([
+	const taxYear = (await getServerEffectiveNow()).getFullYear()
+
+	const [weeklyResult, monthlyResult, mistakeResult, taxResult] = await Promise.all([
 		getWeeklyReport(0).catch(() => ({ status: "error" as const, data: null })),
 		getMonthlyReport(0).catch(() => ({ status: "error" as const, data: null })),
 		getMistakeCostAnalysis().catch(() => ({
 			status: "error" as const,
 			data: null,
 		})),
+		getTaxLedger(taxYear).catch(() => ({ status: "error" as const, data: null })),
 	])
 
 	const weeklyReport =
@@ -30,6 +34,8 @@ const ReportsPage = async ({ params }: ReportsPageProps) => {
 		monthlyResult.status === "success" ? monthlyResult.data ?? null : null
 	const mistakeCostAnalysis =
 		mistakeResult.status === "success" ? mistakeResult.data ?? null : null
+	const taxLedger =
+		taxResult.status === "success" ? taxResult.data ?? null : null
 
 	return (
 		<div className="flex h-full flex-col">
@@ -38,6 +44,8 @@ const ReportsPage = async ({ params }: ReportsPageProps) => {
 					weeklyReport={weeklyReport}
 					monthlyReport={monthlyReport}
 					mistakeCostAnalysis={mistakeCostAnalysis}
+					taxLedger={taxLedger}
+					taxYear={taxYear}
 				/>
 			</div>
 		</div>
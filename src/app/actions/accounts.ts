@@ -26,6 +26,8 @@ import { requireAuth } from "@/app/actions/auth"
 import { getUserDek, encryptAccountFields, decryptAccountFields } from "@/lib/user-crypto"
 import { hasAccess } from "@/lib/feature-access"
 import { getTranslations } from "next-intl/server"
+import { formatDateKey } from "@/lib/dates"
+import { toReplayInstant } from "@/lib/replay"
 
 // ==========================================
 // TYPES
@@ -114,9 +116,9 @@ export const createAccount = async (
 			return { status: "error", error: tSettings("errors.accountNameExists") }
 		}
 
-		const replayCurrentDate =
+		const replayStartDate =
 			input.accountType === "replay" && input.replayStartDate
-				? new Date(input.replayStartDate)
+				? toReplayInstant(input.replayStartDate)
 				: null
 
 		// Encrypt financial fields if DEK is available
@@ -152,7 +154,7 @@ export const createAccount = async (
 				defaultFees: (input.defaultFees ?? 0).toString(),
 				showTaxEstimates: input.showTaxEstimates ?? true,
 				showPropCalculations: input.showPropCalculations ?? true,
-				...(replayCurrentDate && { replayCurrentDate }),
+				...(replayStartDate && { replayStartDate, replayCurrentDate: replayStartDate }),
 				...encryptedFields,
 			})
 			.returning()
@@ -239,8 +241,14 @@ export const updateAccount = async (
 			updateData.reduceRiskAfterLoss = input.reduceRiskAfterLoss
 		if (input.riskReductionFactor !== undefined)
 			updateData.riskReductionFactor = input.riskReductionFactor?.toString()
-		if (input.replayStartDate !== undefined && input.accountType === "replay") {
-			updateData.replayCurrentDate = new Date(input.replayStartDate)
+		// A new start date restarts the session there; resubmitting the same one leaves it alone
+		if (
+			input.replayStartDate &&
+			input.accountType === "replay" &&
+			(!account.replayStartDate || input.replayStartDate !== formatDateKey(account.replayStartDate))
+		) {
+			updateData.replayStartDate = toReplayInstant(input.replayStartDate)
+			updateData.replayCurrentDate = updateData.replayStartDate
 		}
 		if (input.defaultAsset !== undefined) updateData.defaultAsset = input.defaultAsset
 
@@ -395,68 +403,6 @@ export const setDefaultAccount = async (
 	}
 }
 
-// ==========================================
-// REPLAY DATE
-// ==========================================
-
-/**
- * Advances the replay account's current date by one day.
- * Only valid for accounts with accountType === "replay".
- */
-export const advanceReplayDate = async (): Promise<{
-	status: "success" | "error"
-	data?: TradingAccount
-	error?: string
-}> => {
-	const tAuth = await getTranslations("auth")
-	const tSettings = await getTranslations("settings")
-	try {
-		const session = await auth()
-		if (!session?.user?.id || !session?.user?.accountId) {
-			return { status: "error", error: tAuth("errors.notAuthenticated") }
-		}
-
-		const account = await db.query.tradingAccounts.findFirst({
-			where: and(
-				eq(tradingAccounts.id, session.user.accountId),
-				eq(tradingAccounts.userId, session.user.id)
-			),
-		})
-
-		if (!account) {
-			return { status: "error", error: tSettings("errors.accountNotFound") }
-		}
-
-		if (account.accountType !== "replay") {
-			return { status: "error", error: tSettings("errors.onlyReplayAccounts") }
-		}
-
-		if (!account.replayCurrentDate) {
-			return { status: "error", error: tSettings("errors.replayNoStartDate") }
-		}
-
-		const currentDate = new Date(account.replayCurrentDate)
-		currentDate.setDate(currentDate.getDate() + 1)
-
-		const [updated] = await db
-			.update(tradingAccounts)
-			.set({ replayCurrentDate: currentDate, updatedAt: new Date() })
-			.where(eq(tradingAccounts.id, account.id))
-			.returning()
-
-		invalidateAccountData()
-
-		// Decrypt fields before returning
-		const dek = await getUserDek(session.user.id)
-		const decryptedAccount = dek ? decryptAccountFields(updated as unknown as Record<string, unknown>, dek) as unknown as TradingAccount : updated
-
-		return { status: "success", data: decryptedAccount }
-	} catch (error) {
-		console.error("Advance replay date error:", error)
-		return { status: "error", error: tAuth("register.genericError") }
-	}
-}
-
 // ==========================================
 // ACCOUNT ASSETS
 // ==========================================
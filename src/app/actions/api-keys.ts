@@ -0,0 +1,203 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { apiKeys, tradingAccounts } from "@/db/schema"
+import type { ApiKeyRow } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { ApiKey, CreatedApiKey } from "@/types/api-key"
+import { and, desc, eq, gt, isNull, or } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { requireRole } from "@/lib/auth-utils"
+import { createApiKeySchema, type CreateApiKeyInput } from "@/lib/validations/api-key"
+import { ADMIN_API_KEY_SCOPES, parseApiKeyScopes } from "@/lib/api-keys"
+import { generateApiKeyToken, getApiKeyDisplayPrefix, hashApiKeyToken } from "@/lib/api-key-tokens"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Active keys a single user may hold at once */
+const MAX_ACTIVE_KEYS_PER_USER = 20
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toApiKey = (row: ApiKeyRow, accountName: string | null): ApiKey => ({
+	id: row.id,
+	name: row.name,
+	keyPrefix: row.keyPrefix,
+	scopes: parseApiKeyScopes(row.scopes),
+	accountId: row.accountId,
+	accountName,
+	expiresAt: row.expiresAt,
+	lastUsedAt: row.lastUsedAt,
+	revokedAt: row.revokedAt,
+	createdAt: row.createdAt,
+})
+
+// ==========================================
+// API KEY ACTIONS
+// ==========================================
+
+/**
+ * Returns the user's API keys (including revoked ones), newest first.
+ */
+const listApiKeys = async (): Promise<ActionResponse<ApiKey[]>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const rows = await db
+			.select({ key: apiKeys, accountName: tradingAccounts.name })
+			.from(apiKeys)
+			.leftJoin(tradingAccounts, eq(tradingAccounts.id, apiKeys.accountId))
+			.where(eq(apiKeys.userId, userId))
+			.orderBy(desc(apiKeys.createdAt))
+
+		return {
+			status: "success",
+			message: "API keys retrieved",
+			data: rows.map((row) => toApiKey(row.key, row.accountName)),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get API keys",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listApiKeys") }],
+		}
+	}
+}
+
+/**
+ * Create a key for the current user. The plain token is returned once and
+ * only its hash is stored, so it can't be shown again later.
+ */
+const createApiKey = async (input: CreateApiKeyInput): Promise<ActionResponse<CreatedApiKey>> => {
+	try {
+		const { userId } = await requireAuth()
+		const validated = createApiKeySchema.parse(input)
+
+		if (validated.scopes.some((scope) => ADMIN_API_KEY_SCOPES.includes(scope))) {
+			const isAdmin = await requireRole("admin").then(() => true).catch(() => false)
+			if (!isAdmin) {
+				return {
+					status: "error",
+					message: "Only admins can grant this scope",
+					errors: [{ code: "FORBIDDEN", detail: "Admin-only scope requested" }],
+				}
+			}
+		}
+
+		let accountName: string | null = null
+		if (validated.accountId) {
+			const account = await db.query.tradingAccounts.findFirst({
+				where: and(eq(tradingAccounts.id, validated.accountId), eq(tradingAccounts.userId, userId)),
+				columns: { name: true },
+			})
+			if (!account) {
+				return {
+					status: "error",
+					message: "Account not found",
+					errors: [{ code: "NOT_FOUND", detail: "Account does not exist or does not belong to this user" }],
+				}
+			}
+			accountName = account.name
+		}
+
+		// Expired keys no longer authenticate (isApiKeyExpired), so they don't count
+		const activeKeys = await db
+			.select({ id: apiKeys.id })
+			.from(apiKeys)
+			.where(and(
+				eq(apiKeys.userId, userId),
+				isNull(apiKeys.revokedAt),
+				or(isNull(apiKeys.expiresAt), gt(apiKeys.expiresAt, new Date()))
+			))
+
+		if (activeKeys.length >= MAX_ACTIVE_KEYS_PER_USER) {
+			return {
+				status: "error",
+				message: "Too many active API keys",
+				errors: [{ code: "LIMIT_REACHED", detail: `Revoke a key first (limit: ${MAX_ACTIVE_KEYS_PER_USER})` }],
+			}
+		}
+
+		const token = generateApiKeyToken()
+
+		const [row] = await db
+			.insert(apiKeys)
+			.values({
+				userId,
+				accountId: validated.accountId ?? null,
+				name: validated.name,
+				keyPrefix: getApiKeyDisplayPrefix(token),
+				keyHash: hashApiKeyToken(token),
+				scopes: JSON.stringify(validated.scopes),
+				expiresAt: validated.expiresInDays
+					? new Date(Date.now() + validated.expiresInDays * DAY_MS)
+					: null,
+			})
+			.returning()
+
+		return {
+			status: "success",
+			message: "API key created",
+			data: { apiKey: toApiKey(row, accountName), token },
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((issue) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${issue.path.join(".")}: ${issue.message}`,
+				})),
+			}
+		}
+
+		return {
+			status: "error",
+			message: "Failed to create API key",
+			errors: [{ code: "CREATE_FAILED", detail: toSafeErrorMessage(error, "createApiKey") }],
+		}
+	}
+}
+
+/**
+ * Revoke one of the user's keys. Revoked keys stay listed for reference
+ * but are rejected by the Arch API immediately.
+ */
+const revokeApiKey = async (id: string): Promise<ActionResponse<ApiKey>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const [row] = await db
+			.update(apiKeys)
+			.set({ revokedAt: new Date() })
+			.where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+			.returning()
+
+		if (!row) {
+			return {
+				status: "error",
+				message: "API key not found",
+				errors: [{ code: "NOT_FOUND", detail: "API key does not exist or is already revoked" }],
+			}
+		}
+
+		return {
+			status: "success",
+			message: "API key revoked",
+			data: toApiKey(row, null),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to revoke API key",
+			errors: [{ code: "REVOKE_FAILED", detail: toSafeErrorMessage(error, "revokeApiKey") }],
+		}
+	}
+}
+
+export { listApiKeys, createApiKey, revokeApiKey }
@@ -195,6 +195,13 @@ const extractB3Prefix = (symbol: string): string | null => {
 	return B3_FUT_PREFIXES.find((prefix) => upper.startsWith(prefix)) ?? null
 }
 
+/** Symbols a lookup tries, by priority: exact input, base prefix, prefix+FUT */
+const getSymbolCandidates = (symbol: string): string[] => {
+	const upper = symbol.toUpperCase()
+	const prefix = extractB3Prefix(upper)
+	return prefix ? [...new Set([upper, prefix, `${prefix}FUT`])] : [upper]
+}
+
 export const getAssetBySymbol = async (
 	symbol: string
 ): Promise<AssetWithType | null> => {
@@ -223,6 +230,34 @@ export const getAssetBySymbol = async (
 	return result ?? null
 }
 
+/**
+ * Bulk counterpart of getAssetBySymbol: resolves every symbol in one query
+ * with the same priority. Keyed by the symbols as given; unknown ones are left out.
+ */
+export const getAssetsBySymbols = async (
+	symbols: string[]
+): Promise<Map<string, AssetWithType>> => {
+	await requireSession()
+	const candidatesBySymbol = new Map(symbols.map((symbol) => [symbol, getSymbolCandidates(symbol)]))
+	const candidates = [...new Set([...candidatesBySymbol.values()].flat())]
+	if (candidates.length === 0) return new Map()
+
+	const results = await db.query.assets.findMany({
+		where: inArray(assets.symbol, candidates),
+		with: { assetType: true },
+	})
+	const assetsBySymbol = new Map(results.map((asset) => [asset.symbol, asset]))
+
+	const found = new Map<string, AssetWithType>()
+	for (const [symbol, symbolCandidates] of candidatesBySymbol) {
+		const asset = symbolCandidates
+			.map((candidate) => assetsBySymbol.get(candidate))
+			.find((match) => match !== undefined)
+		if (asset) found.set(symbol, asset)
+	}
+	return found
+}
+
 export const createAsset = async (
 	data: CreateAssetInput
 ): Promise<{ success: boolean; data?: Asset; error?: string }> => {
@@ -9,13 +9,12 @@ import { eq, and } from "drizzle-orm"
 import { db } from "@/db/drizzle"
 import { users, tradingAccounts, type User, type TradingAccount } from "@/db/schema"
 import { createDbRateLimiter } from "@/lib/db-rate-limiter"
-// Field-level encryption disabled — imports preserved for re-activation:
-// import { generateKey, encryptDek, encryptField } from "@/lib/crypto"
+import { generateKey, encryptDek, isEncryptionConfigured } from "@/lib/crypto"
 import { getUserDek, decryptAccountFields } from "@/lib/user-crypto"
 import { seedUserData } from "@/db/seed-user-data"
 
-/** User type without passwordHash/encryptedDek — safe to send to the client */
-export type SafeUser = Omit<User, "passwordHash" | "encryptedDek">
+/** User type without passwordHash/DEKs — safe to send to the client */
+export type SafeUser = Omit<User, "passwordHash" | "encryptedDek" | "pendingEncryptedDek">
 import { auth, signIn, signOut } from "@/auth"
 import {
 	registerSchema,
@@ -65,11 +64,10 @@ export const registerUser = async (
 		// Hash password
 		const passwordHash = await bcrypt.hash(password, SALT_ROUNDS)
 
-		// Field-level encryption disabled — skip DEK generation
-		// To re-enable: uncomment the lines below and remove the plaintext insert
-		// const dek = generateKey()
-		// const encryptedDekValue = encryptDek(dek)
-		// const encryptedName = encryptField(name, dek) ?? name
+		// New users get a DEK up front when a master key is configured, so their
+		// rows are encrypted from the first write. The name stays plaintext: auth,
+		// admin and email flows read it without a DEK.
+		const encryptedDekValue = isEncryptionConfigured() ? encryptDek(generateKey()) : null
 
 		// Create user + default account sequentially
 		// neon-http driver doesn't support transactions; if account insert fails,
@@ -80,7 +78,7 @@ export const registerUser = async (
 				name,
 				email: email.toLowerCase(),
 				passwordHash,
-				encryptedDek: null,
+				encryptedDek: encryptedDekValue,
 			})
 			.returning()
 
@@ -502,12 +500,7 @@ export const updateUserProfile = async (
 		}
 
 		const updateData = { ...validated.data } as Record<string, unknown>
-		// Field-level encryption disabled — name stored as plaintext
-		// To re-enable:
-		// const dek = await getUserDek(session.user.id)
-		// if (dek && updateData.name) {
-		// 	updateData.name = encryptField(updateData.name as string, dek) ?? updateData.name
-		// }
+		// Names are stored as plaintext (see registerUser)
 
 		await db
 			.update(users)
@@ -41,6 +41,7 @@ import { requireAuth } from "@/app/actions/auth"
 import { getUserDek, encryptDailyNotesFields, decryptDailyNotesFields } from "@/lib/user-crypto"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getServerEffectiveNow } from "@/lib/effective-date"
+import { emitRiskWebhookEvents } from "@/lib/webhook-dispatcher"
 
 // ==========================================
 // CHECKLIST ACTIONS
@@ -1017,6 +1018,17 @@ export const getCircuitBreakerStatus = async (date?: Date): Promise<ActionRespon
 		if (isMonthlyLimitHit) alerts.push("monthlyLimitHit")
 		if (isSecondOpBlocked) alerts.push("secondOpBlocked")
 
+		// Only today's status notifies webhooks; browsing past dates stays silent
+		if (!date) {
+			await emitRiskWebhookEvents(userId, accountId, {
+				date: today,
+				dailyPnlCents: toCents(dailyPnL),
+				lossLimitHit,
+				shouldStopTrading,
+				reasons: alerts,
+			})
+		}
+
 		return {
 			status: "success",
 			message: "Circuit breaker status retrieved",
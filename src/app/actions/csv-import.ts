@@ -12,7 +12,8 @@ import { bulkCreateTrades } from "./trades"
 import { requireAuth, getCurrentAccount } from "./auth"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { fromCents } from "@/lib/money"
-import { computeTradeHash } from "@/lib/deduplication"
+import { computeFileHash, computeTradeHash } from "@/lib/deduplication"
+import { createImportBatch, completeImportBatch } from "@/lib/import-batches"
 
 // ==========================================
 // Types for CSV Import Processing
@@ -454,10 +455,12 @@ export const validateCsvTrades = async (
 // ==========================================
 
 /**
- * Imports selected validated trades
+ * Imports selected validated trades as one import batch (listed in Import History)
+ * @param file - Source file name and content, hashed to identify the file in the history
  */
 export const importCsvTrades = async (
-	trades: ProcessedCsvTrade[]
+	trades: ProcessedCsvTrade[],
+	file?: { fileName: string; content: string }
 ): Promise<ActionResponse<CsvImportResult>> => {
 	try {
 		const { accountId, userId } = await requireAuth()
@@ -543,8 +546,17 @@ export const importCsvTrades = async (
 			return base
 		})
 
+		const importBatchId = await createImportBatch({
+			userId,
+			accountId,
+			source: "csv",
+			fileName: file?.fileName,
+			fileHash: file ? computeFileHash(Buffer.from(file.content)) : null,
+		})
+
 		// Use existing bulk import
-		const result = await bulkCreateTrades(tradesForImport)
+		const result = await bulkCreateTrades(tradesForImport, importBatchId)
+		await completeImportBatch(importBatchId, { tradesCreated: result.data?.successCount ?? 0 })
 
 		if (result.status === "error") {
 			return {
@@ -0,0 +1,38 @@
+"use server"
+
+import type { ActionResponse } from "@/types"
+import type { EncryptionStatus } from "@/types/encryption"
+import { requireRole } from "@/lib/auth-utils"
+import { getEncryptionStatus as queryEncryptionStatus } from "@/lib/encryption/coverage"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// ADMIN
+// ==========================================
+
+/**
+ * Encryption coverage per table, DEK counts and recent migration/rotation
+ * jobs. The jobs themselves run from scripts/, not from the app.
+ */
+export const getEncryptionStatus = async (): Promise<ActionResponse<EncryptionStatus>> => {
+	try {
+		const isAdmin = await requireRole("admin").then(() => true).catch(() => false)
+		if (!isAdmin) {
+			return {
+				status: "error",
+				message: "Only admins can view encryption status",
+				errors: [{ code: "FORBIDDEN", detail: "Admin role required" }],
+			}
+		}
+
+		const status = await queryEncryptionStatus()
+
+		return { status: "success", message: "Encryption status retrieved", data: status }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to retrieve encryption status",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getEncryptionStatus") }],
+		}
+	}
+}
@@ -2,7 +2,7 @@
 
 import { invalidateTradeData } from "@/lib/cache/invalidate"
 import { db } from "@/db/drizzle"
-import { tradeExecutions, trades } from "@/db/schema"
+import { tradeExecutions, trades, tradingAccounts } from "@/db/schema"
 import type { TradeExecution } from "@/db/schema"
 import type { ActionResponse, ExecutionSummary } from "@/types"
 import {
@@ -17,9 +17,16 @@ import { requireAuth } from "@/app/actions/auth"
 import { getUserDek, encryptExecutionFields, decryptExecutionFields } from "@/lib/user-crypto"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getTranslations } from "next-intl/server"
-import { calculateAssetPnL, determineOutcome, calculateExecutionSummary } from "@/lib/calculations"
+import {
+	calculateAssetPnL,
+	determineOutcome,
+	calculateExecutionSummary,
+	getPositionStatus,
+} from "@/lib/calculations"
 import { assets } from "@/db/schema"
 import { getBreakevenTicks } from "@/app/actions/accounts"
+import { removeOpenPosition, syncOpenPosition } from "@/lib/open-positions"
+import { emitTradeWebhookEvents } from "@/lib/webhook-dispatcher"
 
 /**
  * Calculate execution value (price * quantity) in cents
@@ -31,6 +38,8 @@ const calculateExecutionValue = (price: number, quantity: number): number => {
 /**
  * Update trade aggregates from executions, including P&L recalculation.
  * Called after every create/update/delete on executions to keep trade in sync.
+ * Also keeps the trade's open position (remaining quantity) in sync for later imports,
+ * and emits trade.closed when the new executions close the position.
  */
 export const updateTradeAggregates = async (tradeId: string, dek: string | null): Promise<void> => {
 	const rawExecutions = await db.query.tradeExecutions.findMany({
@@ -59,6 +68,7 @@ export const updateTradeAggregates = async (tradeId: string, dek: string | null)
 				updatedAt: new Date(),
 			})
 			.where(eq(trades.id, tradeId))
+		await removeOpenPosition(tradeId)
 		return
 	}
 
@@ -71,6 +81,9 @@ export const updateTradeAggregates = async (tradeId: string, dek: string | null)
 
 	if (!trade) return
 
+	const wasClosed =
+		getPositionStatus(Number(trade.totalEntryQuantity ?? 0), Number(trade.totalExitQuantity ?? 0)) === "closed"
+
 	// Sort executions by date for entry/exit date extraction
 	const entries = executions.filter((e) => e.executionType === "entry")
 	const exits = executions.filter((e) => e.executionType === "exit")
@@ -146,7 +159,7 @@ export const updateTradeAggregates = async (tradeId: string, dek: string | null)
 	const positionStatus = summary.positionStatus
 
 	// Update trade with all aggregated data
-	await db
+	const [updatedTrade] = await db
 		.update(trades)
 		.set({
 			totalEntryQuantity: summary.totalEntryQuantity.toString(),
@@ -172,6 +185,36 @@ export const updateTradeAggregates = async (tradeId: string, dek: string | null)
 			updatedAt: new Date(),
 		})
 		.where(eq(trades.id, tradeId))
+		.returning()
+
+	if (trade.accountId) {
+		await syncOpenPosition(
+			{
+				id: trade.id,
+				accountId: trade.accountId,
+				asset: trade.asset,
+				direction: trade.direction,
+				entryDate: earliestEntryDate,
+			},
+			summary.remainingQuantity,
+			summary.avgEntryPrice,
+			dek
+		)
+	}
+
+	// Closing by exit executions never goes through the trade update paths
+	if (!wasClosed && summary.positionStatus === "closed" && updatedTrade?.accountId) {
+		const account = await db.query.tradingAccounts.findFirst({
+			where: eq(tradingAccounts.id, updatedTrade.accountId),
+			columns: { userId: true },
+		})
+		if (account) {
+			await emitTradeWebhookEvents(account.userId, updatedTrade.accountId, updatedTrade, dek, {
+				created: false,
+				wasClosed: false,
+			})
+		}
+	}
 }
 
 /**
@@ -0,0 +1,250 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import {
+	importBatches,
+	importBatchTradeSnapshots,
+	notaImports,
+	tradeExecutions,
+	trades,
+} from "@/db/schema"
+import type { ImportBatchRow } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { ImportBatch, ImportBatchRollbackResult } from "@/types/import-batch"
+import { and, desc, eq, gt, inArray, ne } from "drizzle-orm"
+import { requireAuth } from "@/app/actions/auth"
+import { invalidateTradeData } from "@/lib/cache/invalidate"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+import { parseTradeSnapshot } from "@/lib/import-batches"
+import { removeOpenPosition, syncOpenPosition } from "@/lib/open-positions"
+import { getUserDek } from "@/lib/user-crypto"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Number of batches shown in the Import History panel */
+const IMPORT_HISTORY_LIMIT = 50
+
+const toImportBatch = (row: ImportBatchRow): ImportBatch => ({
+	id: row.id,
+	source: row.source as ImportBatch["source"],
+	sourceName: row.sourceName,
+	fileName: row.fileName,
+	fileHash: row.fileHash,
+	tradesCreated: row.tradesCreated,
+	tradesEnriched: row.tradesEnriched,
+	executionsCreated: row.executionsCreated,
+	status: row.status as ImportBatch["status"],
+	createdAt: row.createdAt,
+	rolledBackAt: row.rolledBackAt,
+})
+
+/**
+ * Whether a later import still in place touched any of the given trades.
+ * Rolling back under it would discard that import's changes too.
+ */
+const hasLaterImportOnTrades = async (batch: ImportBatchRow, tradeIds: string[]): Promise<boolean> => {
+	if (tradeIds.length === 0) return false
+
+	const [executionBatches, snapshotBatches] = await Promise.all([
+		db
+			.selectDistinct({ batchId: tradeExecutions.importBatchId })
+			.from(tradeExecutions)
+			.where(and(inArray(tradeExecutions.tradeId, tradeIds), ne(tradeExecutions.importBatchId, batch.id))),
+		db
+			.selectDistinct({ batchId: importBatchTradeSnapshots.importBatchId })
+			.from(importBatchTradeSnapshots)
+			.where(and(
+				inArray(importBatchTradeSnapshots.tradeId, tradeIds),
+				ne(importBatchTradeSnapshots.importBatchId, batch.id)
+			)),
+	])
+
+	const otherBatchIds = [...executionBatches, ...snapshotBatches]
+		.map((row) => row.batchId)
+		.filter((id): id is string => id !== null)
+	if (otherBatchIds.length === 0) return false
+
+	const later = await db.query.importBatches.findFirst({
+		where: and(
+			inArray(importBatches.id, otherBatchIds),
+			eq(importBatches.status, "completed"),
+			gt(importBatches.createdAt, batch.createdAt)
+		),
+		columns: { id: true },
+	})
+
+	return !!later
+}
+
+// ==========================================
+// IMPORT HISTORY ACTIONS
+// ==========================================
+
+/**
+ * Returns the current account's import batches, newest first.
+ */
+const listImportBatches = async (): Promise<ActionResponse<ImportBatch[]>> => {
+	try {
+		const { accountId } = await requireAuth()
+
+		const rows = await db.query.importBatches.findMany({
+			where: eq(importBatches.accountId, accountId),
+			orderBy: [desc(importBatches.createdAt)],
+			limit: IMPORT_HISTORY_LIMIT,
+		})
+
+		return {
+			status: "success",
+			message: "Import history retrieved",
+			data: rows.map(toImportBatch),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get import history",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listImportBatches") }],
+		}
+	}
+}
+
+/**
+ * Undo an import: delete the trades it created (with their executions, fills and
+ * open positions) and restore every trade it enriched to its pre-import snapshot.
+ * Refused when a later import built on the same trades.
+ */
+const rollbackImportBatch = async (batchId: string): Promise<ActionResponse<ImportBatchRollbackResult>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		const batch = await db.query.importBatches.findFirst({
+			where: and(
+				eq(importBatches.id, batchId),
+				eq(importBatches.accountId, accountId),
+				eq(importBatches.userId, userId)
+			),
+		})
+
+		if (!batch) {
+			return {
+				status: "error",
+				message: "Import not found",
+				errors: [{ code: "NOT_FOUND", detail: "Import batch does not exist" }],
+			}
+		}
+
+		if (batch.status === "rolled_back") {
+			return {
+				status: "error",
+				message: "Import already rolled back",
+				errors: [{ code: "ALREADY_ROLLED_BACK", detail: "This import was already rolled back" }],
+			}
+		}
+
+		const createdTrades = await db.query.trades.findMany({
+			where: and(eq(trades.importBatchId, batch.id), eq(trades.accountId, accountId)),
+			columns: { id: true },
+		})
+		const snapshots = await db.query.importBatchTradeSnapshots.findMany({
+			where: eq(importBatchTradeSnapshots.importBatchId, batch.id),
+		})
+
+		const touchedTradeIds = [
+			...createdTrades.map((trade) => trade.id),
+			...snapshots.map((snapshot) => snapshot.tradeId),
+		]
+		if (await hasLaterImportOnTrades(batch, touchedTradeIds)) {
+			return {
+				status: "error",
+				message: "A later import changed these trades",
+				errors: [{ code: "LATER_IMPORT", detail: "Roll back the newer imports of these trades first" }],
+			}
+		}
+
+		// Restore enriched trades: executions and columns exactly as before the import
+		const dek = await getUserDek(userId)
+		let tradesRestored = 0
+		for (const row of snapshots) {
+			const trade = await db.query.trades.findFirst({
+				where: and(eq(trades.id, row.tradeId), eq(trades.accountId, accountId)),
+			})
+			if (!trade) continue
+
+			const snapshot = parseTradeSnapshot(row.snapshot)
+
+			await db.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, trade.id))
+			if (snapshot.executions.length > 0) {
+				await db.insert(tradeExecutions).values(snapshot.executions)
+			}
+			await db
+				.update(trades)
+				.set({ ...snapshot.trade, updatedAt: new Date() })
+				.where(eq(trades.id, trade.id))
+
+			const remainingQuantity = Number(snapshot.trade.remainingQuantity ?? 0)
+			if (snapshot.trade.executionMode === "scaled" && remainingQuantity > 0) {
+				await syncOpenPosition(
+					{
+						id: trade.id,
+						accountId,
+						asset: trade.asset,
+						direction: trade.direction,
+						entryDate: snapshot.trade.entryDate,
+					},
+					remainingQuantity,
+					Number(snapshot.trade.avgEntryPrice ?? 0),
+					dek
+				)
+			} else {
+				await removeOpenPosition(trade.id)
+			}
+			tradesRestored++
+		}
+
+		// Executions the batch added to trades it neither created nor snapshotted
+		const orphanExecutions = await db
+			.delete(tradeExecutions)
+			.where(eq(tradeExecutions.importBatchId, batch.id))
+			.returning({ id: tradeExecutions.id })
+
+		// Created trades (executions, open positions and nota fills follow by cascade)
+		const deletedTrades = createdTrades.length > 0
+			? await db
+				.delete(trades)
+				.where(and(
+					inArray(trades.id, createdTrades.map((trade) => trade.id)),
+					eq(trades.accountId, accountId)
+				))
+				.returning({ id: trades.id })
+			: []
+
+		// Nota records, so the same notas can be imported again
+		await db.delete(notaImports).where(eq(notaImports.importBatchId, batch.id))
+
+		await db
+			.update(importBatches)
+			.set({ status: "rolled_back", rolledBackAt: new Date() })
+			.where(eq(importBatches.id, batch.id))
+
+		invalidateTradeData(undefined, userId, accountId)
+
+		return {
+			status: "success",
+			message: "Import rolled back",
+			data: {
+				tradesDeleted: deletedTrades.length,
+				tradesRestored,
+				executionsDeleted: orphanExecutions.length,
+			},
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to roll back import",
+			errors: [{ code: "ROLLBACK_ERROR", detail: toSafeErrorMessage(error, "rollbackImportBatch") }],
+		}
+	}
+}
+
+export { listImportBatches, rollbackImportBatch }
@@ -0,0 +1,140 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { importTemplates } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { CsvColumnMapping, ImportTemplate } from "@/lib/csv-parsers"
+import { and, asc, eq } from "drizzle-orm"
+import { z } from "zod"
+import { importTemplateSchema } from "@/lib/validations/import-template"
+import type { ImportTemplateSchemaInput } from "@/lib/validations/import-template"
+import { requireAuth } from "@/app/actions/auth"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Parses a DB row's JSON mapping string into a typed CsvColumnMapping.
+ */
+const parseTemplateRow = (row: typeof importTemplates.$inferSelect): ImportTemplate => ({
+	id: row.id,
+	name: row.name,
+	mapping: JSON.parse(row.mapping) as CsvColumnMapping,
+	createdAt: row.createdAt,
+	updatedAt: row.updatedAt,
+})
+
+// ==========================================
+// IMPORT TEMPLATE ACTIONS
+// ==========================================
+
+/**
+ * Returns the current user's saved CSV import templates, by name.
+ */
+const listImportTemplates = async (): Promise<ActionResponse<ImportTemplate[]>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const rows = await db.query.importTemplates.findMany({
+			where: eq(importTemplates.userId, userId),
+			orderBy: [asc(importTemplates.name)],
+		})
+
+		return {
+			status: "success",
+			message: "Import templates retrieved",
+			data: rows.map(parseTemplateRow),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get import templates",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listImportTemplates") }],
+		}
+	}
+}
+
+/**
+ * Save a column mapping as a template. Saving under an existing name replaces that template's mapping.
+ */
+const saveImportTemplate = async (
+	input: ImportTemplateSchemaInput
+): Promise<ActionResponse<ImportTemplate>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const validated = importTemplateSchema.parse(input)
+
+		const [row] = await db
+			.insert(importTemplates)
+			.values({
+				userId,
+				name: validated.name,
+				mapping: JSON.stringify(validated.mapping),
+			})
+			.onConflictDoUpdate({
+				target: [importTemplates.userId, importTemplates.name],
+				set: {
+					mapping: JSON.stringify(validated.mapping),
+					updatedAt: new Date(),
+				},
+			})
+			.returning()
+
+		return {
+			status: "success",
+			message: "Import template saved",
+			data: parseTemplateRow(row),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((e) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${e.path.join(".")}: ${e.message}`,
+				})),
+			}
+		}
+		return {
+			status: "error",
+			message: "Failed to save import template",
+			errors: [{ code: "SAVE_ERROR", detail: toSafeErrorMessage(error, "saveImportTemplate") }],
+		}
+	}
+}
+
+/**
+ * Delete one of the current user's import templates.
+ */
+const deleteImportTemplate = async (id: string): Promise<ActionResponse<void>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const [deleted] = await db
+			.delete(importTemplates)
+			.where(and(eq(importTemplates.id, id), eq(importTemplates.userId, userId)))
+			.returning({ id: importTemplates.id })
+
+		if (!deleted) {
+			return {
+				status: "error",
+				message: "Import template not found",
+				errors: [{ code: "NOT_FOUND", detail: "Import template not found" }],
+			}
+		}
+
+		return { status: "success", message: "Import template deleted" }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to delete import template",
+			errors: [{ code: "DELETE_ERROR", detail: toSafeErrorMessage(error, "deleteImportTemplate") }],
+		}
+	}
+}
+
+export { listImportTemplates, saveImportTemplate, deleteImportTemplate }
@@ -4,10 +4,11 @@ import { db } from "@/db/drizzle"
 import { trades, monthlyPlans } from "@/db/schema"
 import { eq, and, gte, lte } from "drizzle-orm"
 import { requireAuth } from "@/app/actions/auth"
-import { getRiskProfile } from "@/app/actions/risk-profiles"
+import { getRiskProfile, getRiskProfileVersion } from "@/app/actions/risk-profiles"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { getServerEffectiveNow } from "@/lib/effective-date"
 import { resolveLiveStatus } from "@/lib/live-trading-status"
+import { emitRiskWebhookEvents } from "@/lib/webhook-dispatcher"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getTranslations } from "next-intl/server"
 import type { ActionResponse } from "@/types"
@@ -15,7 +16,8 @@ import type { LiveTradingStatusResult, TradeSummary } from "@/types/live-trading
 
 /**
  * Fetches today's trades and resolves the live trading status
- * using the active monthly plan's linked risk profile.
+ * using the active monthly plan's linked risk profile. Plans pinned to a
+ * profile version use that version, so later profile edits don't apply.
  */
 const getLiveTradingStatus = async (date?: Date): Promise<ActionResponse<LiveTradingStatusResult>> => {
 	const t = await getTranslations("commandCenter")
@@ -60,8 +62,10 @@ const getLiveTradingStatus = async (date?: Date): Promise<ActionResponse<LiveTra
 			}
 		}
 
-		// Fetch the linked risk profile
-		const profileResult = await getRiskProfile(monthlyPlan.riskProfileId)
+		// Fetch the pinned profile version, or the profile itself for unpinned plans
+		const profileResult = monthlyPlan.riskProfileVersionId
+			? await getRiskProfileVersion(monthlyPlan.riskProfileVersionId)
+			: await getRiskProfile(monthlyPlan.riskProfileId)
 
 		if (profileResult.status !== "success" || !profileResult.data) {
 			return {
@@ -129,6 +133,16 @@ const getLiveTradingStatus = async (date?: Date): Promise<ActionResponse<LiveTra
 			maxTrades,
 		})
 
+		if (!date) {
+			await emitRiskWebhookEvents(userId, accountId, {
+				date: today,
+				dailyPnlCents: status.dailyPnlCents,
+				lossLimitHit: status.stopReason === "dailyLossLimit",
+				shouldStopTrading: status.shouldStopTrading,
+				reasons: status.stopReason ? [status.stopReason] : [],
+			})
+		}
+
 		// Build trade summaries by zipping decrypted trades with step numbers
 		const tradeSummaries: TradeSummary[] = todaysTrades.map((trade, index) => ({
 			tradeStepNumber: status.tradeStepNumbers[index] ?? index + 1,
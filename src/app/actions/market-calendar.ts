@@ -0,0 +1,225 @@
+"use server"
+
+import { invalidateMarketCalendarData } from "@/lib/cache/invalidate"
+import { db } from "@/db/drizzle"
+import { marketHolidays } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { MarketCode, MarketHolidayRecord } from "@/types/market-calendar"
+import { and, eq, ne } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { requireRole } from "@/lib/auth-utils"
+import {
+	generateMarketHolidaysSchema,
+	marketCodeSchema,
+	marketHolidaySchema,
+	type GenerateMarketHolidaysInput,
+	type MarketHolidayInput,
+} from "@/lib/validations/market-calendar"
+import { generateMarketHolidays } from "@/lib/market/holidays"
+import { getStoredMarketHolidays, toMarketHolidayRecord } from "@/lib/market/calendar-service"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+const validationError = (error: z.ZodError): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: error.issues.map((issue) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${issue.path.join(".")}: ${issue.message}`,
+	})),
+})
+
+const forbidden = (): ActionResponse<never> => ({
+	status: "error",
+	message: "Only admins can manage market holidays",
+	errors: [{ code: "FORBIDDEN", detail: "Admin role required" }],
+})
+
+const duplicateDate = (): ActionResponse<never> => ({
+	status: "error",
+	message: "This market already has an entry on that date",
+	errors: [{ code: "DUPLICATE", detail: "One holiday per market and date" }],
+})
+
+/** True when the current session belongs to an admin (never throws) */
+const isCurrentUserAdmin = async (): Promise<boolean> =>
+	requireRole("admin").then(() => true).catch(() => false)
+
+/** Closed days have no session hours, whatever the form sent */
+const toHolidayValues = (input: MarketHolidayInput) => ({
+	market: input.market,
+	date: input.date,
+	name: input.name,
+	nameEn: input.nameEn,
+	sessionType: input.sessionType,
+	opensAt: input.sessionType === "half_day" ? (input.opensAt ?? null) : null,
+	closesAt: input.sessionType === "half_day" ? (input.closesAt ?? null) : null,
+})
+
+/** Another row already sits on the same market and date */
+const hasDateConflict = async (market: string, date: string, excludeId?: string): Promise<boolean> => {
+	const existing = await db.query.marketHolidays.findFirst({
+		where: and(
+			eq(marketHolidays.market, market),
+			eq(marketHolidays.date, date),
+			...(excludeId ? [ne(marketHolidays.id, excludeId)] : [])
+		),
+		columns: { id: true },
+	})
+	return Boolean(existing)
+}
+
+// ==========================================
+// READ
+// ==========================================
+
+/**
+ * Stored holidays for a market. Years missing here are covered by the
+ * holiday rules when the calendar is built.
+ */
+export const getMarketHolidays = async (
+	market: MarketCode
+): Promise<ActionResponse<MarketHolidayRecord[]>> => {
+	try {
+		await requireAuth()
+		const parsedMarket = marketCodeSchema.safeParse(market)
+		if (!parsedMarket.success) return validationError(parsedMarket.error)
+
+		const holidays = await getStoredMarketHolidays(parsedMarket.data)
+
+		return { status: "success", message: "Market holidays retrieved", data: holidays }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to retrieve market holidays",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getMarketHolidays") }],
+		}
+	}
+}
+
+// ==========================================
+// ADMIN
+// ==========================================
+
+export const createMarketHoliday = async (
+	input: MarketHolidayInput
+): Promise<ActionResponse<MarketHolidayRecord>> => {
+	try {
+		if (!(await isCurrentUserAdmin())) return forbidden()
+
+		const validated = marketHolidaySchema.parse(input)
+		if (await hasDateConflict(validated.market, validated.date)) return duplicateDate()
+
+		const [row] = await db
+			.insert(marketHolidays)
+			.values({ ...toHolidayValues(validated), source: "manual" })
+			.returning()
+
+		invalidateMarketCalendarData()
+
+		return { status: "success", message: "Market holiday created", data: toMarketHolidayRecord(row) }
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+		return {
+			status: "error",
+			message: "Failed to create market holiday",
+			errors: [{ code: "CREATE_FAILED", detail: toSafeErrorMessage(error, "createMarketHoliday") }],
+		}
+	}
+}
+
+/** Edits an entry; generated ones become manual so they read as reviewed */
+export const updateMarketHoliday = async (
+	id: string,
+	input: MarketHolidayInput
+): Promise<ActionResponse<MarketHolidayRecord>> => {
+	try {
+		if (!(await isCurrentUserAdmin())) return forbidden()
+
+		const validated = marketHolidaySchema.parse(input)
+		if (await hasDateConflict(validated.market, validated.date, id)) return duplicateDate()
+
+		const [row] = await db
+			.update(marketHolidays)
+			.set({ ...toHolidayValues(validated), source: "manual", updatedAt: new Date() })
+			.where(eq(marketHolidays.id, id))
+			.returning()
+
+		if (!row) {
+			return {
+				status: "error",
+				message: "Market holiday not found",
+				errors: [{ code: "NOT_FOUND", detail: "Market holiday does not exist" }],
+			}
+		}
+
+		invalidateMarketCalendarData()
+
+		return { status: "success", message: "Market holiday updated", data: toMarketHolidayRecord(row) }
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+		return {
+			status: "error",
+			message: "Failed to update market holiday",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "updateMarketHoliday") }],
+		}
+	}
+}
+
+export const deleteMarketHoliday = async (id: string): Promise<ActionResponse<void>> => {
+	try {
+		if (!(await isCurrentUserAdmin())) return forbidden()
+
+		await db.delete(marketHolidays).where(eq(marketHolidays.id, id))
+
+		invalidateMarketCalendarData()
+
+		return { status: "success", message: "Market holiday deleted" }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to delete market holiday",
+			errors: [{ code: "DELETE_FAILED", detail: toSafeErrorMessage(error, "deleteMarketHoliday") }],
+		}
+	}
+}
+
+/**
+ * Stores the rule-based holidays of a year so admins can review and edit
+ * them. Dates that already have an entry are left untouched.
+ */
+export const generateMarketHolidayYear = async (
+	input: GenerateMarketHolidaysInput
+): Promise<ActionResponse<{ inserted: number }>> => {
+	try {
+		if (!(await isCurrentUserAdmin())) return forbidden()
+
+		const { market, year } = generateMarketHolidaysSchema.parse(input)
+		const generated = generateMarketHolidays(market, year)
+
+		const inserted = await db
+			.insert(marketHolidays)
+			.values(generated)
+			.onConflictDoNothing({ target: [marketHolidays.market, marketHolidays.date] })
+			.returning({ id: marketHolidays.id })
+
+		invalidateMarketCalendarData()
+
+		return {
+			status: "success",
+			message: "Market holidays generated",
+			data: { inserted: inserted.length },
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+		return {
+			status: "error",
+			message: "Failed to generate market holidays",
+			errors: [{ code: "CREATE_FAILED", detail: toSafeErrorMessage(error, "generateMarketHolidayYear") }],
+		}
+	}
+}
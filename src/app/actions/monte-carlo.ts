@@ -13,17 +13,39 @@ import type {
 	ComparisonRecommendation,
 	SimulationParamsV2,
 	MonteCarloResultV2,
+	BootstrapConfig,
+	BootstrapSummary,
+	EmpiricalComparison,
+	MonteCarloV2JobRequest,
+	PropChallengeComparison,
 } from "@/types/monte-carlo"
-import { eq, and, inArray, isNotNull, desc } from "drizzle-orm"
+import { eq, and, inArray, isNotNull, desc, asc, type SQL } from "drizzle-orm"
 import { z } from "zod"
 import {
 	simulationParamsSchema,
 	dataSourceSchema,
 	simulationParamsV2Schema,
+	bootstrapConfigSchema,
+	estimateV2Iterations,
+	propChallengeSimulationSchema,
+	MIN_BOOTSTRAP_SAMPLES,
+	type PropChallengeSimulationInput,
 } from "@/lib/validations/monte-carlo"
 import { runMonteCarloSimulation } from "@/lib/monte-carlo"
-import { runMonteCarloV2 } from "@/lib/monte-carlo-v2"
+import { runMonteCarloV2InWorkers, type PreparedMonteCarloV2Job } from "@/lib/monte-carlo-v2-jobs"
+import {
+	buildChallengeProfile,
+	estimatePropChallengeIterations,
+	simulatePropChallenge,
+} from "@/lib/prop-challenge"
+import { summarizeRSamples } from "@/lib/r-bootstrap"
+import { createSeed } from "@/lib/prng"
+import { findSimulationRun, recordSimulationRun, toSimulationRun } from "@/lib/simulation-runs"
+import type { ReopenedSimulationRun, SimulationRunSourceStats } from "@/types/simulation-run"
+import { auth } from "@/auth"
 import { requireAuth } from "@/app/actions/auth"
+import { listActiveRiskProfiles } from "@/app/actions/risk-profiles"
+import { getFeatureLimits } from "@/lib/feature-access"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { getTranslations } from "next-intl/server"
@@ -407,13 +429,123 @@ export const getSimulationStats = async (
 	}
 }
 
+// ==========================================
+// RUN HISTORY
+// ==========================================
+
+/**
+ * What the inputs came from at run time: the bootstrap summary for empirical
+ * runs, otherwise the source's current stats (null for manual inputs).
+ */
+const snapshotSource = async (
+	source: DataSource | null,
+	bootstrap: BootstrapSummary | null
+): Promise<SimulationRunSourceStats | null> => {
+	if (bootstrap) return { type: "bootstrap", summary: bootstrap }
+	if (!source) return null
+
+	const stats = await getSimulationStats(source)
+	return stats.status === "success" && stats.data
+		? { type: "stats", stats: stats.data }
+		: null
+}
+
+const getSnapshotSourceName = (snapshot: SimulationRunSourceStats | null): string | null => {
+	if (!snapshot) return null
+	return snapshot.type === "bootstrap" ? snapshot.summary.sourceName : snapshot.stats.sourceName
+}
+
+interface MonteCarloRunContext {
+	userId: string
+	accountId: string
+	source: DataSource | null
+	empirical: { rMultiples: number[]; summary: BootstrapSummary } | null
+}
+
+/** Save an Edge Expectancy run to the history (best-effort) */
+const recordMonteCarloRun = async (
+	result: MonteCarloResult,
+	{ userId, accountId, source, empirical }: MonteCarloRunContext
+): Promise<void> => {
+	const t = await getTranslations("simulationRuns.defaultNames")
+	const sourceStats = await snapshotSource(source, empirical?.summary ?? null)
+	const sourceName = getSnapshotSourceName(sourceStats) ?? t("manualInputs")
+
+	await recordSimulationRun({
+		userId,
+		accountId,
+		name: empirical
+			? t("monteCarloEmpirical", { source: sourceName })
+			: t("monteCarlo", {
+					source: sourceName,
+					winRate: result.params.winRate.toFixed(1),
+					rewardRisk: result.params.rewardRiskRatio.toFixed(2),
+				}),
+		seed: result.params.seed ?? null,
+		inputs: {
+			kind: "monte_carlo",
+			params: result.params,
+			source,
+			empirical: empirical
+				? {
+						bootstrap: {
+							method: empirical.summary.method,
+							blockLength: empirical.summary.blockLength,
+						},
+						rMultiples: empirical.rMultiples,
+					}
+				: null,
+		},
+		sourceStats,
+		statistics: { kind: "monte_carlo", values: result.statistics },
+		distribution: result.distributionBuckets,
+		equityFan: result.equityFan,
+	})
+}
+
+/**
+ * Resolve the name and source snapshot of a Capital Expectancy history entry.
+ * The job route saves it (`recordMonteCarloV2Job`) once the run completes.
+ */
+const prepareMonteCarloV2Record = async (
+	params: SimulationParamsV2,
+	{ userId, accountId, source, empirical }: MonteCarloRunContext
+): Promise<PreparedMonteCarloV2Job["record"]> => {
+	const t = await getTranslations("simulationRuns.defaultNames")
+	const sourceStats = await snapshotSource(source, empirical?.summary ?? null)
+	const name = t(empirical ? "monteCarloV2Empirical" : "monteCarloV2", {
+		profile: params.profile.name,
+		months: params.monthsToTrade,
+	})
+
+	return { userId, accountId, name, source, sourceStats }
+}
+
+// ==========================================
+// EDGE EXPECTANCY SIMULATION ACTIONS
+// ==========================================
+
+/**
+ * Run an Edge Expectancy simulation and save it to the run history.
+ *
+ * @param source - The data source the inputs were loaded from (auto mode), so
+ * the saved run keeps a snapshot of its stats. Null for manual inputs.
+ */
 export const runSimulation = async (
-	params: SimulationParams
+	params: SimulationParams,
+	source: DataSource | null = null
 ): Promise<ActionResponse<MonteCarloResult>> => {
 	try {
-		await requireAuth()
+		const { userId, accountId } = await requireAuth()
 		const validated = simulationParamsSchema.parse(params)
+		const validatedSource = source ? dataSourceSchema.parse(source) : null
 		const result = runMonteCarloSimulation(validated)
+		await recordMonteCarloRun(result, {
+			userId,
+			accountId,
+			source: validatedSource,
+			empirical: null,
+		})
 
 		return {
 			status: "success",
@@ -561,37 +693,441 @@ export const runComparisonSimulation = async (
 // ==========================================
 
 /**
- * Run V2 Monte Carlo simulation with a risk management profile.
+ * Checks the V2 budget of the user's role — the schema only enforces the
+ * global cap. `simulations` is how many times the params are simulated (2
+ * for an empirical comparison). Returns the error response to send back, if any.
  */
-export const runSimulationV2 = async (
-	params: SimulationParamsV2
-): Promise<ActionResponse<MonteCarloResultV2>> => {
+const checkV2Budget = async (
+	params: SimulationParamsV2,
+	simulations = 1
+): Promise<ActionResponse<never> | null> => {
+	const session = await auth()
+	const { monteCarloV2BudgetCap } = getFeatureLimits(session?.user?.role ?? "trader")
+	const totalIterations = estimateV2Iterations(params) * simulations
+	if (totalIterations <= monteCarloV2BudgetCap) return null
+
+	return {
+		status: "error",
+		message: "Simulation exceeds your budget",
+		errors: [
+			{
+				code: "BUDGET_EXCEEDED",
+				detail: `Estimated iterations (${totalIterations.toLocaleString()}) exceeds your cap of ${monteCarloV2BudgetCap.toLocaleString()}. Reduce simulations, trading days, or months.`,
+			},
+		],
+	}
+}
+
+// ==========================================
+// EMPIRICAL (BOOTSTRAP) SIMULATION ACTIONS
+// ==========================================
+
+/**
+ * Realized R-multiples of a data source, oldest first so block bootstrap
+ * resamples real sequences. Null when the source isn't accessible.
+ */
+const getSourceRMultiples = async (
+	source: DataSource
+): Promise<{ sourceName: string; rMultiples: number[] } | null> => {
+	const t = await getTranslations("monteCarlo")
+	const { accountId, userId, showAllAccounts, allAccountIds } = await requireAuth()
+
+	let sourceName: string
+	let scope: SQL
+	if (source.type === "strategy") {
+		const strategy = await db.query.strategies.findFirst({
+			where: and(eq(strategies.id, source.strategyId), eq(strategies.userId, userId)),
+			columns: { name: true },
+		})
+		if (!strategy) return null
+		sourceName = strategy.name
+		scope = eq(trades.strategyId, source.strategyId)
+	} else if (source.type === "all_strategies") {
+		sourceName = t("dataSources.allStrategies")
+		scope = eq(trades.accountId, accountId)
+	} else {
+		if (!showAllAccounts) return null
+		sourceName = t("dataSources.allAccountsStrategies")
+		scope = inArray(trades.accountId, allAccountIds)
+	}
+
+	const rows = await db
+		.select({ realizedRMultiple: trades.realizedRMultiple })
+		.from(trades)
+		.where(and(scope, isNotNull(trades.outcome), isNotNull(trades.realizedRMultiple)))
+		.orderBy(asc(trades.entryDate))
+
+	const rMultiples = rows
+		.map((row) => parseFloat(row.realizedRMultiple!))
+		.filter((r) => Number.isFinite(r))
+
+	return { sourceName, rMultiples }
+}
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(max, Math.max(min, value))
+
+/**
+ * Loads and summarizes the samples for an empirical run, or returns the
+ * error response to send back.
+ */
+const loadBootstrapSamples = async (
+	source: DataSource,
+	bootstrap: BootstrapConfig
+): Promise<
+	| { rMultiples: number[]; summary: BootstrapSummary }
+	| { error: ActionResponse<never> }
+> => {
+	const t = await getTranslations("monteCarlo")
+	const samples = await getSourceRMultiples(source)
+	if (!samples) {
+		return {
+			error: {
+				status: "error",
+				message: t("errors.failedToLoadStats"),
+				errors: [{ code: "NOT_FOUND", detail: "Data source not available" }],
+			},
+		}
+	}
+	if (samples.rMultiples.length < MIN_BOOTSTRAP_SAMPLES) {
+		return {
+			error: {
+				status: "error",
+				message: t("errors.notEnoughRSamples", { min: MIN_BOOTSTRAP_SAMPLES }),
+				errors: [{ code: "NOT_ENOUGH_SAMPLES", detail: "Not enough trades with a realized R-multiple" }],
+			},
+		}
+	}
+
+	return {
+		rMultiples: samples.rMultiples,
+		summary: {
+			...bootstrap,
+			...summarizeRSamples(samples.rMultiples),
+			sourceName: samples.sourceName,
+			sampleSize: samples.rMultiples.length,
+		},
+	}
+}
+
+const toValidationErrorResponse = (error: z.ZodError): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: error.issues.map((e) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${e.path.join(".")}: ${e.message}`,
+	})),
+})
+
+/**
+ * Edge Expectancy with resampled realized R-multiples, returned next to the
+ * parametric run. Both use the source's own win rate and R:R, so the
+ * difference is the shape of the real outcome distribution.
+ */
+export const runEmpiricalSimulation = async (
+	source: DataSource,
+	params: SimulationParams,
+	bootstrap: BootstrapConfig
+): Promise<ActionResponse<EmpiricalComparison<MonteCarloResult>>> => {
 	try {
-		await requireAuth()
-		const validated = simulationParamsV2Schema.parse(params)
-		const result = runMonteCarloV2(validated)
+		const validatedSource = dataSourceSchema.parse(source)
+		const validatedBootstrap = bootstrapConfigSchema.parse(bootstrap)
+
+		const samples = await loadBootstrapSamples(validatedSource, validatedBootstrap)
+		if ("error" in samples) return samples.error
+
+		const { summary } = samples
+		const parsedParams = simulationParamsSchema.parse({
+			...params,
+			winRate: clamp(summary.winRate, 1, 99),
+			rewardRiskRatio: clamp(summary.rewardRiskRatio, 0.1, 20),
+		})
+		// Both sides share one seed so re-opening the run reproduces the comparison
+		const sourceParams = { ...parsedParams, seed: parsedParams.seed ?? createSeed() }
+
+		const empirical = runMonteCarloSimulation(sourceParams, {
+			...validatedBootstrap,
+			rMultiples: samples.rMultiples,
+		})
+		const { userId, accountId } = await requireAuth()
+		await recordMonteCarloRun(empirical, {
+			userId,
+			accountId,
+			source: validatedSource,
+			empirical: samples,
+		})
 
 		return {
 			status: "success",
-			message: "V2 simulation completed",
-			data: result,
+			message: "Simulation completed",
+			data: {
+				parametric: runMonteCarloSimulation(sourceParams),
+				empirical,
+				bootstrap: summary,
+			},
 		}
 	} catch (error) {
-		if (error instanceof z.ZodError) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to run simulation",
+			errors: [{ code: "SIMULATION_ERROR", detail: toSafeErrorMessage(error, "runEmpiricalSimulation") }],
+		}
+	}
+}
+
+/**
+ * Validate a Capital Expectancy job and resolve everything it needs: budget,
+ * resampled R-multiples for empirical runs (which also run the parametric
+ * side with the source's win, R:R and breakeven rates) and the history entry.
+ * POST /api/monte-carlo/v2/jobs calls this, then runs the job in its own
+ * request. `source` is where the edge inputs came from, if any.
+ */
+export const prepareSimulationV2Job = async (
+	request: MonteCarloV2JobRequest
+): Promise<ActionResponse<PreparedMonteCarloV2Job>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		let params: SimulationParamsV2
+		let validatedSource: DataSource | null
+		let empirical: PreparedMonteCarloV2Job["empirical"] = null
+		let samples: MonteCarloRunContext["empirical"] = null
+
+		if (request.mode === "empirical") {
+			validatedSource = dataSourceSchema.parse(request.source)
+			const validatedBootstrap = bootstrapConfigSchema.parse(request.bootstrap)
+
+			const loaded = await loadBootstrapSamples(validatedSource, validatedBootstrap)
+			if ("error" in loaded) return loaded.error
+
+			const { summary } = loaded
+			params = simulationParamsV2Schema.parse({
+				...request.params,
+				profile: {
+					...request.params.profile,
+					winRate: clamp(summary.winRate, 1, 99),
+					rewardRiskRatio: clamp(summary.rewardRiskRatio, 0.1, 20),
+					breakevenRate: clamp(summary.breakevenRate, 0, 80),
+				},
+			})
+			empirical = {
+				source: { ...validatedBootstrap, rMultiples: loaded.rMultiples },
+				bootstrap: summary,
+			}
+			samples = loaded
+		} else {
+			params = simulationParamsV2Schema.parse(request.params)
+			validatedSource = request.source ? dataSourceSchema.parse(request.source) : null
+		}
+
+		// An empirical job also runs the parametric side
+		const budgetError = await checkV2Budget(params, empirical ? 2 : 1)
+		if (budgetError) return budgetError
+
+		const record = await prepareMonteCarloV2Record(params, {
+			userId,
+			accountId,
+			source: validatedSource,
+			empirical: samples,
+		})
+
+		return {
+			status: "success",
+			message: "V2 simulation ready",
+			data: { params, empirical, record },
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to start V2 simulation",
+			errors: [{ code: "SIMULATION_V2_ERROR", detail: toSafeErrorMessage(error, "prepareSimulationV2Job") }],
+		}
+	}
+}
+
+// ==========================================
+// RE-OPEN A SAVED RUN
+// ==========================================
+
+/**
+ * Replays a saved Edge or Capital Expectancy run from its stored params, seed
+ * and (for empirical runs) R sample — the result is identical to the original
+ * run, including the parametric side of an empirical comparison.
+ */
+export const reopenMonteCarloRun = async (
+	runId: string
+): Promise<
+	ActionResponse<Extract<ReopenedSimulationRun, { kind: "monte_carlo" | "monte_carlo_v2" }>>
+> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const row = await findSimulationRun(userId, accountId, runId)
+		if (!row || row.kind === "risk_simulation") {
 			return {
 				status: "error",
-				message: "Validation failed",
-				errors: error.issues.map((e) => ({
-					code: "VALIDATION_ERROR",
-					detail: `${e.path.join(".")}: ${e.message}`,
-				})),
+				message: "Simulation run not found",
+				errors: [{ code: "NOT_FOUND", detail: "Simulation run does not exist" }],
 			}
 		}
 
+		const run = toSimulationRun(row)
+		const { inputs, sourceStats } = run
+		const bootstrap = sourceStats?.type === "bootstrap" ? sourceStats.summary : null
+
+		if (inputs.kind === "monte_carlo") {
+			const parametric = runMonteCarloSimulation(inputs.params)
+			const empirical =
+				inputs.empirical && bootstrap
+					? runMonteCarloSimulation(inputs.params, {
+							...inputs.empirical.bootstrap,
+							rMultiples: inputs.empirical.rMultiples,
+						})
+					: null
+
+			return {
+				status: "success",
+				message: "Simulation run re-opened",
+				data: {
+					kind: "monte_carlo",
+					run,
+					result: empirical ?? parametric,
+					comparison:
+						empirical && bootstrap ? { parametric, empirical, bootstrap } : null,
+				},
+			}
+		}
+
+		if (inputs.kind === "monte_carlo_v2") {
+			// Runs saved before profit target / drawdown floor existed get their defaults
+			const params = simulationParamsV2Schema.parse(inputs.params)
+			const parametric = await runMonteCarloV2InWorkers(params)
+			const empirical =
+				inputs.empirical && bootstrap
+					? await runMonteCarloV2InWorkers(params, {
+							...inputs.empirical.bootstrap,
+							rMultiples: inputs.empirical.rMultiples,
+						})
+					: null
+
+			return {
+				status: "success",
+				message: "Simulation run re-opened",
+				data: {
+					kind: "monte_carlo_v2",
+					run: { ...run, inputs: { ...inputs, params } },
+					result: empirical ?? parametric,
+					comparison:
+						empirical && bootstrap ? { parametric, empirical, bootstrap } : null,
+				},
+			}
+		}
+
+		throw new Error("Stored inputs do not match the run kind")
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to re-open simulation run",
+			errors: [{ code: "REOPEN_FAILED", detail: toSafeErrorMessage(error, "reopenMonteCarloRun") }],
+		}
+	}
+}
+
+// ==========================================
+// PROP CHALLENGE SIMULATION
+// ==========================================
+
+/**
+ * Pass probability of a prop challenge under each selected risk profile.
+ * Every profile trades with the source's own edge (win rate, R:R derived
+ * from the profit factor as in Capital Expectancy, breakeven rate and
+ * commission) and one shared seed, so the pass rates differ only by how
+ * the profiles size and limit their trades.
+ */
+export const runPropChallengeSimulation = async (
+	input: PropChallengeSimulationInput
+): Promise<ActionResponse<PropChallengeComparison>> => {
+	try {
+		await requireAuth()
+		const validated = propChallengeSimulationSchema.parse(input)
+
+		const statsResponse = await getSimulationStats(validated.source)
+		if (statsResponse.status !== "success" || !statsResponse.data) {
+			return {
+				status: "error",
+				message: statsResponse.message,
+				errors: statsResponse.errors,
+			}
+		}
+		const stats = statsResponse.data
+
+		const profilesResponse = await listActiveRiskProfiles()
+		const profiles = (profilesResponse.data ?? []).filter((profile) =>
+			validated.profileIds.includes(profile.id)
+		)
+		if (profiles.length !== validated.profileIds.length) {
+			return {
+				status: "error",
+				message: "Risk profile not found",
+				errors: [{ code: "NOT_FOUND", detail: "One or more risk profiles are not available" }],
+			}
+		}
+
+		const simProfiles = profiles.map((profile) => buildChallengeProfile(profile, stats))
+
+		// Every profile runs in this request, so the role's cap covers them all
+		const session = await auth()
+		const { propChallengeBudgetCap } = getFeatureLimits(session?.user?.role ?? "trader")
+		const totalIterations = estimatePropChallengeIterations({
+			profiles: simProfiles,
+			simulationCount: validated.simulationCount,
+			rules: validated.rules,
+		})
+		if (totalIterations > propChallengeBudgetCap) {
+			return {
+				status: "error",
+				message: "Simulation exceeds your budget",
+				errors: [
+					{
+						code: "BUDGET_EXCEEDED",
+						detail: `Estimated iterations (${totalIterations.toLocaleString()}) exceeds your cap of ${propChallengeBudgetCap.toLocaleString()}. Reduce simulations, profiles, or calendar days.`,
+					},
+				],
+			}
+		}
+
+		const seed = validated.seed ?? createSeed()
+		const results = profiles.map((profile, index) => ({
+			profileId: profile.id,
+			profileName: profile.name,
+			result: simulatePropChallenge({
+				rules: validated.rules,
+				profile: simProfiles[index],
+				simulationCount: validated.simulationCount,
+				seed,
+			}),
+		}))
+
+		return {
+			status: "success",
+			message: "Prop challenge simulation completed",
+			data: {
+				stats,
+				profiles: results.toSorted(
+					(a, b) => b.result.statistics.passPercent - a.result.statistics.passPercent
+				),
+			},
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
 		return {
 			status: "error",
-			message: "Failed to run V2 simulation",
-			errors: [{ code: "SIMULATION_V2_ERROR", detail: toSafeErrorMessage(error, "runSimulationV2") }],
+			message: "Failed to run prop challenge simulation",
+			errors: [{ code: "SIMULATION_ERROR", detail: toSafeErrorMessage(error, "runPropChallengeSimulation") }],
 		}
 	}
 }
@@ -15,6 +15,9 @@ import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getServerEffectiveNow } from "@/lib/effective-date"
 import { isMonthBeyondAllowed } from "@/lib/monthly-plan-date-guard"
 import { getTranslations } from "next-intl/server"
+import { getLatestRiskProfileVersionId } from "@/lib/risk-profile-versions"
+import { getRiskProfile } from "@/app/actions/risk-profiles"
+import { emitWebhookEvent } from "@/lib/webhook-dispatcher"
 
 // ==========================================
 // MONTHLY PLAN ACTIONS
@@ -142,6 +145,25 @@ export const upsertMonthlyPlan = async (
 			),
 		})
 
+		// Only profiles the user can see (public, own or shared with them) can be attached
+		if (validated.riskProfileId && validated.riskProfileId !== existing?.riskProfileId) {
+			const profileResult = await getRiskProfile(validated.riskProfileId)
+			if (profileResult.status !== "success") {
+				return {
+					status: "error",
+					message: profileResult.message,
+					errors: profileResult.errors,
+				}
+			}
+		}
+
+		// Keep the pinned version while the profile stays the same; a newly attached profile starts on its latest version
+		const riskProfileVersionId = !validated.riskProfileId
+			? null
+			: existing?.riskProfileId === validated.riskProfileId && existing.riskProfileVersionId
+				? existing.riskProfileVersionId
+				: await getLatestRiskProfileVersionId(validated.riskProfileId)
+
 		const planFields = {
 			accountBalance: String(validated.accountBalance),
 			riskPerTradePercent: String(validated.riskPerTradePercent),
@@ -165,6 +187,7 @@ export const upsertMonthlyPlan = async (
 			notes: validated.notes ?? null,
 			// Risk profile reference
 			riskProfileId: validated.riskProfileId ?? null,
+			riskProfileVersionId,
 			// Weekly loss
 			weeklyLossPercent: validated.weeklyLossPercent != null
 				? String(validated.weeklyLossPercent)
@@ -351,6 +374,11 @@ export const rolloverMonthlyPlan = async (
 			weeklyLossPercent,
 		})
 
+		// A new month picks up the profile's latest rules
+		const riskProfileVersionId = previousPlan.riskProfileId
+			? await getLatestRiskProfileVersionId(previousPlan.riskProfileId)
+			: null
+
 		// Build the new plan fields (copy everything from previous plan except balance + derived)
 		const rolloverFields = {
 			accountBalance: String(newBalanceCents),
@@ -371,6 +399,7 @@ export const rolloverMonthlyPlan = async (
 			notes: previousPlan.notes,
 			// Risk profile + weekly loss (carried forward)
 			riskProfileId: previousPlan.riskProfileId,
+			riskProfileVersionId,
 			weeklyLossPercent: previousPlan.weeklyLossPercent,
 			weeklyLossCents: derived.weeklyLossCents != null ? String(derived.weeklyLossCents) : null,
 			// Derived fields (recomputed with new balance, stored as text for encryption)
@@ -384,6 +413,25 @@ export const rolloverMonthlyPlan = async (
 		// Encrypt financial fields if DEK is available
 		const encryptedRolloverFields = dek ? encryptMonthlyPlanFields(rolloverFields as Record<string, unknown>, dek) : {}
 
+		const emitRolledOver = (planId: string) =>
+			emitWebhookEvent({
+				userId,
+				accountId,
+				event: "plan.rolled_over",
+				data: {
+					planId,
+					year: currentYear,
+					month: currentMonth,
+					previousYear: prevYear,
+					previousMonth: prevMonth,
+					accountBalanceCents: newBalanceCents,
+					riskPerTradeCents: derived.riskPerTradeCents,
+					dailyLossCents: derived.dailyLossCents,
+					monthlyLossCents: derived.monthlyLossCents,
+					riskProfileId: previousPlan.riskProfileId,
+				},
+			})
+
 		// Check if a plan already exists for the current month (upsert behavior)
 		const existingCurrentPlan = await db.query.monthlyPlans.findFirst({
 			where: and(
@@ -405,6 +453,7 @@ export const rolloverMonthlyPlan = async (
 				.returning()
 
 			invalidateMonthlyPlanData()
+			await emitRolledOver(updatedPlan.id)
 
 			const decryptedUpdatedPlan = dek
 				? decryptMonthlyPlanFields(updatedPlan as unknown as Record<string, unknown>, dek) as unknown as MonthlyPlan
@@ -429,6 +478,7 @@ export const rolloverMonthlyPlan = async (
 			.returning()
 
 		invalidateMonthlyPlanData()
+		await emitRolledOver(newPlan.id)
 
 		const decryptedNewPlan = dek
 			? decryptMonthlyPlanFields(newPlan as unknown as Record<string, unknown>, dek) as unknown as MonthlyPlan
@@ -447,3 +497,55 @@ export const rolloverMonthlyPlan = async (
 		}
 	}
 }
+
+/**
+ * Move a plan to the latest version of its risk profile.
+ * Days already traded this month are re-evaluated with the new rules from then on.
+ */
+export const adoptLatestRiskProfileVersion = async (
+	planId: string
+): Promise<ActionResponse<MonthlyPlan>> => {
+	const t = await getTranslations("commandCenter.plan")
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		const plan = await db.query.monthlyPlans.findFirst({
+			where: and(eq(monthlyPlans.id, planId), eq(monthlyPlans.accountId, accountId)),
+		})
+
+		if (!plan?.riskProfileId) {
+			return {
+				status: "error",
+				message: t("actionErrors.noRiskProfile"),
+				errors: [{ code: "NO_RISK_PROFILE", detail: "Monthly plan has no risk profile" }],
+			}
+		}
+
+		const riskProfileVersionId = await getLatestRiskProfileVersionId(plan.riskProfileId)
+
+		const [updatedPlan] = await db
+			.update(monthlyPlans)
+			.set({ riskProfileVersionId, updatedAt: new Date() })
+			.where(eq(monthlyPlans.id, plan.id))
+			.returning()
+
+		invalidateMonthlyPlanData()
+
+		const dek = await getUserDek(userId)
+		const decryptedPlan = dek
+			? decryptMonthlyPlanFields(updatedPlan as unknown as Record<string, unknown>, dek) as unknown as MonthlyPlan
+			: updatedPlan
+
+		return {
+			status: "success",
+			message: "Monthly plan moved to the latest risk profile version",
+			data: decryptedPlan,
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to update risk profile version",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "adoptLatestRiskProfileVersion") }],
+		}
+	}
+}
@@ -2,26 +2,40 @@
 
 import { invalidateTradeData } from "@/lib/cache/invalidate"
 import { db } from "@/db/drizzle"
-import { trades, tradeExecutions, notaImports } from "@/db/schema"
+import { trades, tradeExecutions, notaImports, notaFills, notaCosts } from "@/db/schema"
+import type { NewNotaFillRow } from "@/db/schema"
 import type { ActionResponse } from "@/types"
-import { eq, and } from "drizzle-orm"
+import { eq, and, inArray, gte, lte, desc } from "drizzle-orm"
 import { requireAuth } from "@/app/actions/auth"
+import { getAssetBySymbol } from "@/app/actions/assets"
+import { getBreakevenTicks } from "@/app/actions/accounts"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getTranslations } from "next-intl/server"
-import { toCents, toNumericString } from "@/lib/money"
+import { toCents, fromCents, toNumericString } from "@/lib/money"
+import { formatDateKey, BRT_OFFSET } from "@/lib/dates"
+import { calculateRMultiple, determineOutcome } from "@/lib/calculations"
 import {
 	getUserDek,
 	encryptTradeFields,
+	decryptTradeFields,
 	encryptExecutionFields,
 } from "@/lib/user-crypto"
-import { computeFileHash } from "@/lib/deduplication"
-import { parseSinacorNota } from "@/lib/nota-parser/sinacor-parser"
+import { computeFileHash, computeTradeHash } from "@/lib/deduplication"
+import { syncOpenPosition } from "@/lib/open-positions"
+import { createImportBatch, completeImportBatch, snapshotTradeForBatch } from "@/lib/import-batches"
+import { parseSinacorPdf } from "@/lib/nota-parser/sinacor-parser"
 import { matchNotaFillsToTrades } from "@/lib/nota-parser/matching-engine"
+import { getNotaCostTotals, allocateNotaCosts } from "@/lib/nota-parser/cost-allocation"
+import { groupFillsIntoRoundTrips, calculateRoundTripPnl } from "@/lib/nota-parser/fill-grouping"
 import type {
 	NotaParseResult,
 	NotaEnrichmentPreview,
-	ConfirmedEnrichment,
 	NotaFill,
+	NotaImportInput,
+	NotaCostReconciliationDay,
+	NotaRoundTrip,
+	NotaTradeCandidate,
+	TradeCostAllocation,
 } from "@/lib/nota-parser/types"
 
 // ==========================================
@@ -29,21 +43,263 @@ import type {
 // ==========================================
 
 interface NotaImportResult {
+	notaImportId: string
+	notaNumber: string
 	tradesEnriched: number
+	tradesCreated: number
+	duplicatesSkipped: number
 	executionsInserted: number
 	errors: string[]
 }
 
+export interface NotaBatchImportResult {
+	imports: NotaImportResult[]
+	alreadyImported: string[] // Nota numbers skipped because they were imported before
+	tradesEnriched: number
+	tradesCreated: number
+	duplicatesSkipped: number
+	executionsInserted: number
+	errors: string[]
+}
+
+interface NotaCostAllocationResult {
+	tradesUpdated: number
+	allocations: TradeCostAllocation[]
+}
+
+/** Map a parsed fill to a nota_fills row (tradeId null for unmatched fills) */
+const toNotaFillRow = (
+	notaImportId: string,
+	fill: NotaFill,
+	tradeId: string | null
+): NewNotaFillRow => ({
+	notaImportId,
+	tradeId,
+	sequenceNumber: fill.sequenceNumber,
+	exchange: fill.exchange,
+	side: fill.side,
+	marketType: fill.marketType,
+	rawAsset: fill.rawAsset,
+	normalizedAsset: fill.normalizedAsset,
+	expiryDate: fill.expiryDate,
+	quantity: String(fill.quantity),
+	price: String(fill.price),
+	operationValueCents: toCents(fill.operationValue),
+	debitCredit: fill.debitCredit,
+	operationalFeeCents: toCents(fill.operationalFee),
+	isDayTrade: fill.isDayTrade,
+})
+
+/** Build a trade_executions row for a nota fill (fees = the fill's operational fee) */
+const toExecutionInsert = (
+	tradeId: string,
+	fill: NotaFill,
+	executionType: "entry" | "exit",
+	executionDate: Date,
+	importBatchId: string,
+	dek: string | null
+): typeof tradeExecutions.$inferInsert => {
+	const execInsert: Record<string, unknown> = {
+		tradeId,
+		executionType,
+		executionDate,
+		importBatchId,
+		price: toNumericString(fill.price),
+		quantity: toNumericString(fill.quantity),
+		commission: "0",
+		fees: toNumericString(toCents(fill.operationalFee)),
+		executionValue: toNumericString(toCents(fill.price * fill.quantity)),
+	}
+
+	if (dek) {
+		Object.assign(execInsert, encryptExecutionFields({
+			price: toNumericString(fill.price),
+			quantity: toNumericString(fill.quantity),
+			fees: toCents(fill.operationalFee),
+			executionValue: toCents(fill.price * fill.quantity),
+		}, dek))
+	}
+
+	return execInsert as typeof tradeExecutions.$inferInsert
+}
+
+type TickConfig = { tickSize: number; tickValue: number }
+
+/** Tick config per normalized asset, for tick-based P&L (tickValue in currency) */
+const getTickConfigs = async (symbols: string[]): Promise<Map<string, TickConfig>> => {
+	const tickConfigs = new Map<string, TickConfig>()
+	for (const symbol of new Set(symbols)) {
+		const asset = await getAssetBySymbol(symbol)
+		if (asset) {
+			tickConfigs.set(symbol, {
+				tickSize: parseFloat(asset.tickSize),
+				tickValue: fromCents(asset.tickValue),
+			})
+		}
+	}
+	return tickConfigs
+}
+
+/** Dedup hash of the trade a round trip would create (same fingerprint as manual/CSV trades) */
+const computeRoundTripHash = (accountId: string, roundTrip: NotaRoundTrip, notaDate: Date): string =>
+	computeTradeHash({
+		accountId,
+		asset: roundTrip.asset.toUpperCase(),
+		direction: roundTrip.direction,
+		entryDate: notaDate,
+		entryPrice: roundTrip.avgEntryPrice,
+		exitPrice: roundTrip.avgExitPrice,
+		positionSize: roundTrip.entryQuantity,
+	})
+
+/** Which of the given dedup hashes already belong to active trades of the account */
+const findExistingTradeHashes = async (accountId: string, hashes: string[]): Promise<Set<string>> => {
+	if (hashes.length === 0) return new Set()
+	const found = await db
+		.select({ hash: trades.deduplicationHash })
+		.from(trades)
+		.where(
+			and(
+				eq(trades.accountId, accountId),
+				inArray(trades.deduplicationHash, hashes),
+				eq(trades.isArchived, false),
+			)
+		)
+	return new Set(found.map((row) => row.hash).filter((hash): hash is string => !!hash))
+}
+
+/**
+ * Group unmatched fills into round trips and price them for the preview.
+ * Duplicates are flagged (not removed) so the user sees why they can't be created.
+ */
+const buildTradeCandidates = async (
+	fills: NotaFill[],
+	notaDate: Date,
+	accountId: string
+): Promise<NotaTradeCandidate[]> => {
+	const roundTrips = groupFillsIntoRoundTrips(fills)
+	if (roundTrips.length === 0) return []
+
+	const tickConfigs = await getTickConfigs(roundTrips.map((roundTrip) => roundTrip.asset))
+	const hashes = roundTrips.map((roundTrip) => computeRoundTripHash(accountId, roundTrip, notaDate))
+	const existingHashes = await findExistingTradeHashes(accountId, hashes)
+
+	return roundTrips.map((roundTrip, index) => ({
+		...roundTrip,
+		candidateId: `${roundTrip.asset}-${index}`,
+		netPnl: roundTrip.status === "closed"
+			? calculateRoundTripPnl(roundTrip, notaDate, tickConfigs.get(roundTrip.asset)).realizedPnl
+			: null,
+		isDuplicate: existingHashes.has(hashes[index]),
+	}))
+}
+
+/**
+ * Insert a scaled trade (with one execution per fill) for a nota round trip.
+ * Commission is the sum of the fills' operational fees; the footer costs can be
+ * allocated afterwards from the cost reconciliation. Round trips left open are
+ * stored as open positions.
+ */
+const createTradeFromRoundTrip = async (
+	accountId: string,
+	roundTrip: NotaRoundTrip,
+	notaDate: Date,
+	deduplicationHash: string,
+	tickConfig: TickConfig | undefined,
+	importBatchId: string,
+	dek: string | null
+): Promise<{ tradeId: string; executionsInserted: number }> => {
+	const isClosed = roundTrip.status === "closed"
+	const fifo = calculateRoundTripPnl(roundTrip, notaDate, tickConfig)
+	const commissionCents = toCents(fifo.totalCommission)
+	const pnlCents = isClosed ? toCents(fifo.realizedPnl) : null
+
+	let outcome: "win" | "loss" | "breakeven" | undefined
+	if (isClosed && roundTrip.avgExitPrice !== null) {
+		const priceDiff = roundTrip.direction === "long"
+			? roundTrip.avgExitPrice - roundTrip.avgEntryPrice
+			: roundTrip.avgEntryPrice - roundTrip.avgExitPrice
+		const ticksGained = tickConfig ? priceDiff / tickConfig.tickSize : null
+		const breakevenTicks = await getBreakevenTicks(roundTrip.asset, accountId)
+		outcome = determineOutcome({ pnl: fifo.realizedPnl, ticksGained, breakevenTicks })
+	}
+
+	const tradeInsertValues: Record<string, unknown> = {
+		accountId,
+		asset: roundTrip.asset.toUpperCase(),
+		direction: roundTrip.direction,
+		entryDate: notaDate,
+		exitDate: isClosed ? notaDate : null,
+		entryPrice: toNumericString(roundTrip.avgEntryPrice),
+		exitPrice: toNumericString(roundTrip.avgExitPrice),
+		positionSize: toNumericString(roundTrip.entryQuantity),
+		pnl: pnlCents !== null ? toNumericString(pnlCents) : null,
+		outcome,
+		commission: toNumericString(commissionCents),
+		fees: "0",
+		contractsExecuted: toNumericString(roundTrip.entryQuantity + roundTrip.exitQuantity),
+		executionMode: "scaled",
+		totalEntryQuantity: toNumericString(roundTrip.entryQuantity),
+		totalExitQuantity: toNumericString(roundTrip.exitQuantity),
+		avgEntryPrice: toNumericString(roundTrip.avgEntryPrice),
+		avgExitPrice: toNumericString(roundTrip.avgExitPrice),
+		remainingQuantity: toNumericString(Math.max(0, roundTrip.entryQuantity - roundTrip.exitQuantity)),
+		deduplicationHash,
+		importBatchId,
+	}
+
+	if (dek) {
+		Object.assign(tradeInsertValues, encryptTradeFields({
+			pnl: pnlCents,
+			commission: commissionCents,
+			fees: 0,
+			entryPrice: toNumericString(roundTrip.avgEntryPrice),
+			exitPrice: toNumericString(roundTrip.avgExitPrice),
+			positionSize: toNumericString(roundTrip.entryQuantity),
+		}, dek))
+	}
+
+	const [trade] = await db
+		.insert(trades)
+		.values(tradeInsertValues as typeof trades.$inferInsert)
+		.returning({ id: trades.id })
+
+	const executionValues = [
+		...roundTrip.entryFills.map((fill) => toExecutionInsert(trade.id, fill, "entry", notaDate, importBatchId, dek)),
+		...roundTrip.exitFills.map((fill) => toExecutionInsert(trade.id, fill, "exit", notaDate, importBatchId, dek)),
+	]
+	await db.insert(tradeExecutions).values(executionValues)
+
+	if (!isClosed) {
+		await syncOpenPosition(
+			{
+				id: trade.id,
+				accountId,
+				asset: roundTrip.asset.toUpperCase(),
+				direction: roundTrip.direction,
+				entryDate: notaDate,
+			},
+			roundTrip.entryQuantity - roundTrip.exitQuantity,
+			roundTrip.avgEntryPrice,
+			dek
+		)
+	}
+
+	return { tradeId: trade.id, executionsInserted: executionValues.length }
+}
+
 // ==========================================
 // Server Action: Parse Nota PDF
 // ==========================================
 
 /**
- * Parse a SINACOR nota de corretagem PDF and return extracted fills.
+ * Parse a SINACOR nota de corretagem PDF and return the extracted notas.
+ * Monthly statements hold one nota per trading day; notas that fail to parse
+ * are dropped unless none of them parsed.
  */
 export const parseNotaPdf = async (
 	formData: FormData
-): Promise<ActionResponse<NotaParseResult>> => {
+): Promise<ActionResponse<NotaParseResult[]>> => {
 	try {
 		await requireAuth()
 
@@ -76,24 +332,33 @@ export const parseNotaPdf = async (
 		const arrayBuffer = await file.arrayBuffer()
 		const buffer = Buffer.from(arrayBuffer)
 
-		const result = await parseSinacorNota(buffer)
+		const results = await parseSinacorPdf(buffer)
+		const parsed = results.filter((result) => result.success)
 
-		if (!result.success) {
+		if (parsed.length === 0) {
+			const parseErrors = results.flatMap((result) => result.errors)
 			return {
 				status: "error",
-				message: result.errors.join("; "),
-				errors: result.errors.map((e) => ({ code: "PARSE_ERROR", detail: e })),
+				message: parseErrors.join("; "),
+				errors: parseErrors.map((e) => ({ code: "PARSE_ERROR", detail: e })),
 			}
 		}
 
 		// Compute file hash server-side for dedup (crypto.createHash is Node-only)
 		const fileHash = computeFileHash(buffer)
-		result.fileHash = fileHash
+		for (const result of parsed) {
+			result.fileHash = fileHash
+		}
+
+		const totalFills = parsed.reduce((sum, result) => sum + result.fills.length, 0)
+		const skipped = results.length - parsed.length
 
 		return {
 			status: "success",
-			message: `Parsed ${result.fills.length} fills from nota`,
-			data: result,
+			message: skipped > 0
+				? `Parsed ${totalFills} fills from ${parsed.length} notas (${skipped} could not be parsed)`
+				: `Parsed ${totalFills} fills from ${parsed.length} notas`,
+			data: parsed,
 		}
 	} catch (error) {
 		return {
@@ -110,12 +375,16 @@ export const parseNotaPdf = async (
 
 /**
  * Match extracted nota fills against existing trades for the current account.
- * Returns a preview of matches for user confirmation.
+ * Returns a preview of matches for user confirmation, plus the unmatched fills
+ * grouped into round trips that can be created as new trades. Notas whose
+ * number was already imported are flagged so the preview can skip them.
  */
 export const matchNotaFills = async (
 	fills: NotaFill[],
 	notaDate: string,
 	brokerName: string,
+	notaNumber = "",
+	fileHashHex = "",
 ): Promise<ActionResponse<NotaEnrichmentPreview>> => {
 	try {
 		const { accountId, userId } = await requireAuth()
@@ -140,10 +409,13 @@ export const matchNotaFills = async (
 		// Override broker name from the parsed PDF
 		preview.brokerName = brokerName
 
+		const tradeCandidates = await buildTradeCandidates(preview.unmatchedFills, parsedDate, accountId)
+		const existingImport = await findImportedNota(accountId, notaNumber, fileHashHex, parsedDate)
+
 		return {
 			status: "success",
 			message: `Found ${preview.matches.length} matches`,
-			data: preview,
+			data: { ...preview, tradeCandidates, alreadyImported: !!existingImport },
 		}
 	} catch (error) {
 		return {
@@ -155,206 +427,590 @@ export const matchNotaFills = async (
 }
 
 // ==========================================
-// Server Action: Enrich Trades from Nota
+// Server Action: Import Notas
 // ==========================================
 
 /**
- * Apply confirmed enrichments: upgrade trades from simple to scaled mode,
- * insert per-fill execution records.
+ * Find a previous import of the same nota. Notas are identified by their number
+ * (a monthly PDF holds many); notas without a readable number fall back to the
+ * file hash and session date.
  */
-export const enrichTradesFromNota = async (
-	confirmedMatches: ConfirmedEnrichment[],
-	notaDate: string,
-	brokerName: string,
+const findImportedNota = async (
+	accountId: string,
+	notaNumber: string,
+	fileHashHex: string,
+	notaDate: Date
+) => {
+	if (notaNumber) {
+		return db.query.notaImports.findFirst({
+			where: and(eq(notaImports.accountId, accountId), eq(notaImports.notaNumber, notaNumber)),
+		})
+	}
+
+	if (!fileHashHex) return undefined
+
+	return db.query.notaImports.findFirst({
+		where: and(
+			eq(notaImports.accountId, accountId),
+			eq(notaImports.fileHash, fileHashHex),
+			eq(notaImports.notaDate, notaDate),
+		),
+	})
+}
+
+/**
+ * Apply one nota's confirmed enrichments: upgrade trades from simple to scaled mode,
+ * insert per-fill execution records. Confirmed round trips from unmatched fills
+ * are created as new scaled trades, skipping any whose dedup hash already
+ * exists (their fills stay unlinked). Every fill on the nota (matched or not)
+ * and the footer cost breakdown are persisted against the import; the IRRF
+ * is kept on the import so the tax ledger can credit it against the month's DARF.
+ */
+const importSingleNota = async (
+	accountId: string,
+	input: NotaImportInput,
 	fileName: string,
 	fileHashHex: string,
-): Promise<ActionResponse<NotaImportResult>> => {
+	importBatchId: string,
+	dek: string | null
+): Promise<NotaImportResult> => {
+	const { confirmedMatches, newTrades, unmatchedFills, footer, notaNumber, notaDate, brokerName } = input
+
+	let tradesEnriched = 0
+	let executionsInserted = 0
+	const errors: string[] = []
+	const enrichedTradeIds = new Set<string>()
+	const parsedNotaDate = new Date(notaDate)
+
+	for (const match of confirmedMatches) {
+		try {
+			// Keep the pre-import state so a rollback can restore it
+			await snapshotTradeForBatch(importBatchId, match.tradeId)
+
+			// If re-enriching, delete existing executions first
+			if (match.reEnrich) {
+				await db
+					.delete(tradeExecutions)
+					.where(eq(tradeExecutions.tradeId, match.tradeId))
+			}
+
+			// Compute aggregates from fills
+			const allEntryFills = match.entryFills
+			const allExitFills = match.exitFills
+
+			const totalEntryQty = allEntryFills.reduce((s, f) => s + f.quantity, 0)
+			const totalExitQty = allExitFills.reduce((s, f) => s + f.quantity, 0)
+
+			const avgEntryPrice = totalEntryQty > 0
+				? allEntryFills.reduce((s, f) => s + f.price * f.quantity, 0) / totalEntryQty
+				: 0
+			const avgExitPrice = totalExitQty > 0
+				? allExitFills.reduce((s, f) => s + f.price * f.quantity, 0) / totalExitQty
+				: 0
+
+			const totalContractsExecuted = totalEntryQty + totalExitQty
+
+			// Update trade: upgrade to scaled mode with aggregated data
+			const tradeUpdateData: Record<string, unknown> = {
+				executionMode: "scaled",
+				totalEntryQuantity: toNumericString(totalEntryQty),
+				totalExitQuantity: toNumericString(totalExitQty),
+				avgEntryPrice: toNumericString(avgEntryPrice),
+				avgExitPrice: totalExitQty > 0 ? toNumericString(avgExitPrice) : null,
+				remainingQuantity: toNumericString(Math.max(0, totalEntryQty - totalExitQty)),
+				contractsExecuted: toNumericString(totalContractsExecuted),
+				updatedAt: new Date(),
+			}
+
+			// Optionally update entry/exit prices with more accurate nota values
+			tradeUpdateData.entryPrice = toNumericString(avgEntryPrice)
+			if (totalExitQty > 0) {
+				tradeUpdateData.exitPrice = toNumericString(avgExitPrice)
+			}
+
+			// Encrypt updated fields
+			if (dek) {
+				Object.assign(tradeUpdateData, encryptTradeFields({
+					entryPrice: toNumericString(avgEntryPrice),
+					exitPrice: totalExitQty > 0 ? toNumericString(avgExitPrice) : undefined,
+					positionSize: toNumericString(totalEntryQty),
+				}, dek))
+			}
+
+			await db
+				.update(trades)
+				.set(tradeUpdateData)
+				.where(and(eq(trades.id, match.tradeId), eq(trades.accountId, accountId)))
+
+			// Insert execution records for each fill, dated on the nota session
+			const executionValues = [
+				...allEntryFills.map((fill) =>
+					toExecutionInsert(match.tradeId, fill, "entry", parsedNotaDate, importBatchId, dek)
+				),
+				...allExitFills.map((fill) =>
+					toExecutionInsert(match.tradeId, fill, "exit", parsedNotaDate, importBatchId, dek)
+				),
+			]
+
+			if (executionValues.length > 0) {
+				await db.insert(tradeExecutions).values(executionValues)
+				executionsInserted += executionValues.length
+			}
+
+			tradesEnriched++
+			enrichedTradeIds.add(match.tradeId)
+		} catch (error) {
+			errors.push(`Trade ${match.tradeId}: ${toSafeErrorMessage(error, "enrichTrade")}`)
+		}
+	}
+
+	// Create new trades from the confirmed round trips, re-grouped server-side from their fills
+	let tradesCreated = 0
+	let duplicatesSkipped = 0
+	const createdFills: Array<{ fill: NotaFill; tradeId: string | null }> = []
+
+	if (newTrades.length > 0) {
+		const roundTrips = newTrades.flatMap((candidate) =>
+			groupFillsIntoRoundTrips([...candidate.entryFills, ...candidate.exitFills])
+		)
+		const tickConfigs = await getTickConfigs(roundTrips.map((roundTrip) => roundTrip.asset))
+		const hashes = roundTrips.map((roundTrip) => computeRoundTripHash(accountId, roundTrip, parsedNotaDate))
+		const seenHashes = await findExistingTradeHashes(accountId, hashes)
+
+		for (const [index, roundTrip] of roundTrips.entries()) {
+			const roundTripFills = [...roundTrip.entryFills, ...roundTrip.exitFills]
+			const hash = hashes[index]
+
+			if (seenHashes.has(hash)) {
+				duplicatesSkipped++
+				createdFills.push(...roundTripFills.map((fill) => ({ fill, tradeId: null })))
+				continue
+			}
+
+			try {
+				const created = await createTradeFromRoundTrip(
+					accountId,
+					roundTrip,
+					parsedNotaDate,
+					hash,
+					tickConfigs.get(roundTrip.asset),
+					importBatchId,
+					dek
+				)
+				seenHashes.add(hash)
+				tradesCreated++
+				executionsInserted += created.executionsInserted
+				createdFills.push(...roundTripFills.map((fill) => ({ fill, tradeId: created.tradeId })))
+			} catch (error) {
+				errors.push(`New ${roundTrip.asset} trade: ${toSafeErrorMessage(error, "createTradeFromRoundTrip")}`)
+				createdFills.push(...roundTripFills.map((fill) => ({ fill, tradeId: null })))
+			}
+		}
+	}
+
+	// Record the nota import for idempotency
+	const matchedFillCount =
+		confirmedMatches.reduce((s, m) => s + m.entryFills.length + m.exitFills.length, 0) +
+		createdFills.filter((created) => created.tradeId).length
+	const unmatchedFillCount = unmatchedFills.length + createdFills.filter((created) => !created.tradeId).length
+	const [notaImport] = await db
+		.insert(notaImports)
+		.values({
+			accountId,
+			fileName,
+			fileHash: fileHashHex,
+			notaNumber: notaNumber || null,
+			notaDate: parsedNotaDate,
+			brokerName,
+			totalFills: matchedFillCount + unmatchedFillCount,
+			matchedFills: matchedFillCount,
+			unmatchedFills: unmatchedFillCount,
+			tradesEnriched,
+			irrfCents: toCents(footer.irrf),
+			status: errors.length > 0 ? "partial" : "completed",
+			importBatchId,
+		})
+		.returning({ id: notaImports.id })
+
+	// Persist every fill: linked to its trade when enrichment succeeded, unlinked otherwise
+	const fillRows: NewNotaFillRow[] = [
+		...confirmedMatches.flatMap((match) => {
+			const tradeId = enrichedTradeIds.has(match.tradeId) ? match.tradeId : null
+			return [...match.entryFills, ...match.exitFills].map((fill) =>
+				toNotaFillRow(notaImport.id, fill, tradeId)
+			)
+		}),
+		...createdFills.map(({ fill, tradeId }) => toNotaFillRow(notaImport.id, fill, tradeId)),
+		...unmatchedFills.map((fill) => toNotaFillRow(notaImport.id, fill, null)),
+	]
+
+	if (fillRows.length > 0) {
+		await db.insert(notaFills).values(fillRows)
+	}
+
+	await db.insert(notaCosts).values({
+		notaImportId: notaImport.id,
+		totalOperationValueCents: toCents(footer.totalOperationValue),
+		brokerageCents: toCents(footer.totalBrokerage),
+		operationalFeesCents: fillRows.reduce((sum, row) => sum + (row.operationalFeeCents ?? 0), 0),
+		settlementFeeCents: toCents(footer.settlementFee),
+		registrationFeeCents: toCents(footer.registrationFee),
+		bmfFeesCents: toCents(footer.bmfFees),
+		netTotalCents: toCents(footer.netTotal),
+		netTotalDebitCredit: footer.netTotalDebitCredit,
+	})
+
+	return {
+		notaImportId: notaImport.id,
+		notaNumber,
+		tradesEnriched,
+		tradesCreated,
+		duplicatesSkipped,
+		executionsInserted,
+		errors,
+	}
+}
+
+/**
+ * Import every confirmed nota of an uploaded PDF in one go, as one import batch.
+ * Each nota is deduplicated on its own, so re-uploading a monthly statement
+ * only imports the days that are new.
+ */
+export const importNotaBatch = async (
+	notas: NotaImportInput[],
+	fileName: string,
+	fileHashHex: string,
+): Promise<ActionResponse<NotaBatchImportResult>> => {
 	try {
 		const { accountId, userId } = await requireAuth()
 
-		if (!confirmedMatches || confirmedMatches.length === 0) {
+		const hasSelection = notas.some((nota) => nota.confirmedMatches.length > 0 || nota.newTrades.length > 0)
+		if (!hasSelection) {
 			return {
 				status: "error",
 				message: "No matches to enrich",
-				errors: [{ code: "NO_MATCHES", detail: "No confirmed matches provided" }],
+				errors: [{ code: "NO_MATCHES", detail: "No confirmed matches or new trades provided" }],
 			}
 		}
 
-		// Check for duplicate nota import (same file already processed)
-		const existingImport = await db.query.notaImports.findFirst({
+		const dek = await getUserDek(userId)
+		const importBatchId = await createImportBatch({
+			userId,
+			accountId,
+			source: "nota",
+			sourceName: notas[0]?.brokerName,
+			fileName,
+			fileHash: fileHashHex,
+		})
+		const result: NotaBatchImportResult = {
+			imports: [],
+			alreadyImported: [],
+			tradesEnriched: 0,
+			tradesCreated: 0,
+			duplicatesSkipped: 0,
+			executionsInserted: 0,
+			errors: [],
+		}
+		const importedNumbers = new Set<string>()
+
+		for (const nota of notas) {
+			const existingImport = nota.notaNumber && importedNumbers.has(nota.notaNumber)
+				? true
+				: await findImportedNota(accountId, nota.notaNumber, fileHashHex, new Date(nota.notaDate))
+
+			if (existingImport) {
+				result.alreadyImported.push(nota.notaNumber || formatDateKey(new Date(nota.notaDate)))
+				continue
+			}
+
+			try {
+				const notaResult = await importSingleNota(accountId, nota, fileName, fileHashHex, importBatchId, dek)
+				if (nota.notaNumber) importedNumbers.add(nota.notaNumber)
+
+				result.imports.push(notaResult)
+				result.tradesEnriched += notaResult.tradesEnriched
+				result.tradesCreated += notaResult.tradesCreated
+				result.duplicatesSkipped += notaResult.duplicatesSkipped
+				result.executionsInserted += notaResult.executionsInserted
+				result.errors.push(...notaResult.errors)
+			} catch (error) {
+				result.errors.push(`Nota ${nota.notaNumber}: ${toSafeErrorMessage(error, "importSingleNota")}`)
+			}
+		}
+
+		await completeImportBatch(importBatchId, {
+			tradesCreated: result.tradesCreated,
+			tradesEnriched: result.tradesEnriched,
+			executionsCreated: result.executionsInserted,
+		})
+
+		if (result.imports.length > 0) {
+			invalidateTradeData(undefined, userId, accountId)
+		}
+
+		if (result.imports.length === 0 && result.alreadyImported.length > 0 && result.errors.length === 0) {
+			return {
+				status: "error",
+				message: "These notas have already been imported",
+				errors: result.alreadyImported.map((notaNumber) => ({
+					code: "DUPLICATE_NOTA",
+					detail: `Nota ${notaNumber} was already imported`,
+				})),
+			}
+		}
+
+		const { tradesEnriched, tradesCreated, executionsInserted, errors } = result
+		return {
+			status: errors.length > 0 && tradesEnriched === 0 && tradesCreated === 0 ? "error" : "success",
+			message: errors.length > 0
+				? `Enriched ${tradesEnriched} and created ${tradesCreated} trades with ${errors.length} errors`
+				: `Successfully enriched ${tradesEnriched} and created ${tradesCreated} trades with ${executionsInserted} executions`,
+			data: result,
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to import notas",
+			errors: [{ code: "ENRICH_FAILED", detail: toSafeErrorMessage(error, "importNotaBatch") }],
+		}
+	}
+}
+
+// ==========================================
+// Server Action: Nota Cost Reconciliation
+// ==========================================
+
+/**
+ * Compare each day's official nota costs with the commission/fees recorded on
+ * that day's trades. Days are keyed by the nota session date (BRT).
+ */
+export const getNotaCostReconciliation = async (): Promise<
+	ActionResponse<NotaCostReconciliationDay[]>
+> => {
+	try {
+		const { accountId, userId } = await requireAuth()
+
+		const imports = await db.query.notaImports.findMany({
+			where: eq(notaImports.accountId, accountId),
+			with: {
+				costs: true,
+				fills: { columns: { tradeId: true } },
+			},
+			orderBy: [desc(notaImports.notaDate)],
+		})
+
+		if (imports.length === 0) {
+			return { status: "success", message: "No imported notas", data: [] }
+		}
+
+		const dayKeys = imports.map((nota) => formatDateKey(nota.notaDate))
+		const firstDay = dayKeys.at(-1)!
+		const lastDay = dayKeys[0]
+
+		const rawTrades = await db.query.trades.findMany({
 			where: and(
-				eq(notaImports.accountId, accountId),
-				eq(notaImports.fileHash, fileHashHex),
+				eq(trades.accountId, accountId),
+				eq(trades.isArchived, false),
+				gte(trades.entryDate, new Date(`${firstDay}T00:00:00${BRT_OFFSET}`)),
+				lte(trades.entryDate, new Date(`${lastDay}T23:59:59.999${BRT_OFFSET}`))
 			),
 		})
 
-		if (existingImport) {
+		const dek = await getUserDek(userId)
+		const dayTrades = dek ? rawTrades.map((trade) => decryptTradeFields(trade, dek)) : rawTrades
+
+		const journalByDay = new Map<string, { costCents: number; count: number }>()
+		for (const trade of dayTrades) {
+			const key = formatDateKey(trade.entryDate)
+			const current = journalByDay.get(key) ?? { costCents: 0, count: 0 }
+			current.costCents += Number(trade.commission ?? 0) + Number(trade.fees ?? 0)
+			current.count += 1
+			journalByDay.set(key, current)
+		}
+
+		const dayMap = new Map<string, NotaCostReconciliationDay>()
+		for (const nota of imports) {
+			const date = formatDateKey(nota.notaDate)
+			const journal = journalByDay.get(date) ?? { costCents: 0, count: 0 }
+			const day = dayMap.get(date) ?? {
+				date,
+				notas: [],
+				officialCents: 0,
+				journalCents: journal.costCents,
+				differenceCents: 0,
+				tradeCount: journal.count,
+			}
+
+			const official = nota.costs
+				? getNotaCostTotals(nota.costs)
+				: { commissionCents: 0, feesCents: 0, totalCents: 0 }
+
+			day.notas.push({
+				notaImportId: nota.id,
+				fileName: nota.fileName,
+				brokerName: nota.brokerName,
+				official,
+				linkedTradeCount: new Set(nota.fills.map((fill) => fill.tradeId).filter(Boolean)).size,
+				unmatchedFillCount: nota.fills.filter((fill) => !fill.tradeId).length,
+				allocatedAt: nota.costs?.allocatedAt ? nota.costs.allocatedAt.toISOString() : null,
+			})
+			day.officialCents += official.totalCents
+			day.differenceCents = day.officialCents - day.journalCents
+			dayMap.set(date, day)
+		}
+
+		return {
+			status: "success",
+			message: `Reconciled ${dayMap.size} days`,
+			data: [...dayMap.values()],
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to load cost reconciliation",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getNotaCostReconciliation") }],
+		}
+	}
+}
+
+// ==========================================
+// Server Action: Allocate Nota Costs to Trades
+// ==========================================
+
+/**
+ * Distribute a nota's official costs onto the trades linked to its fills,
+ * proportionally to the contracts each trade executed on the nota.
+ *
+ * A trade's commission/fees become the sum of its shares from every allocated
+ * nota that covers it (e.g. a swing trade spanning two notas), and its net P&L
+ * and realized R are adjusted by the difference.
+ */
+export const allocateNotaCostsToTrades = async (
+	notaImportId: string
+): Promise<ActionResponse<NotaCostAllocationResult>> => {
+	try {
+		const { accountId, userId } = await requireAuth()
+
+		const nota = await db.query.notaImports.findFirst({
+			where: and(eq(notaImports.id, notaImportId), eq(notaImports.accountId, accountId)),
+			with: { costs: true, fills: true },
+		})
+
+		if (!nota || !nota.costs) {
 			return {
 				status: "error",
-				message: "This nota has already been imported",
-				errors: [{ code: "DUPLICATE_NOTA", detail: `This PDF was imported on ${existingImport.createdAt.toISOString().split("T")[0]}` }],
+				message: "Nota not found",
+				errors: [{ code: "NOT_FOUND", detail: "Nota import or its cost breakdown was not found" }],
 			}
 		}
 
-		const dek = await getUserDek(userId)
-		let tradesEnriched = 0
-		let executionsInserted = 0
-		const errors: string[] = []
+		const tradeIds = [...new Set(nota.fills.map((fill) => fill.tradeId).filter((id): id is string => !!id))]
+		if (tradeIds.length === 0) {
+			return {
+				status: "error",
+				message: "This nota has no trades linked to its fills",
+				errors: [{ code: "NO_LINKED_TRADES", detail: "Enrich or create trades from this nota before allocating costs" }],
+			}
+		}
 
-		for (const match of confirmedMatches) {
-			try {
-				// If re-enriching, delete existing executions first
-				if (match.reEnrich) {
-					await db
-						.delete(tradeExecutions)
-						.where(eq(tradeExecutions.tradeId, match.tradeId))
-				}
-
-				// Compute aggregates from fills
-				const allEntryFills = match.entryFills
-				const allExitFills = match.exitFills
-
-				const totalEntryQty = allEntryFills.reduce((s, f) => s + f.quantity, 0)
-				const totalExitQty = allExitFills.reduce((s, f) => s + f.quantity, 0)
-
-				const avgEntryPrice = totalEntryQty > 0
-					? allEntryFills.reduce((s, f) => s + f.price * f.quantity, 0) / totalEntryQty
-					: 0
-				const avgExitPrice = totalExitQty > 0
-					? allExitFills.reduce((s, f) => s + f.price * f.quantity, 0) / totalExitQty
-					: 0
-
-				const totalContractsExecuted = totalEntryQty + totalExitQty
-
-				// Update trade: upgrade to scaled mode with aggregated data
-				const tradeUpdateData: Record<string, unknown> = {
-					executionMode: "scaled",
-					totalEntryQuantity: toNumericString(totalEntryQty),
-					totalExitQuantity: toNumericString(totalExitQty),
-					avgEntryPrice: toNumericString(avgEntryPrice),
-					avgExitPrice: totalExitQty > 0 ? toNumericString(avgExitPrice) : null,
-					remainingQuantity: toNumericString(Math.max(0, totalEntryQty - totalExitQty)),
-					contractsExecuted: toNumericString(totalContractsExecuted),
-					updatedAt: new Date(),
-				}
-
-				// Optionally update entry/exit prices with more accurate nota values
-				tradeUpdateData.entryPrice = toNumericString(avgEntryPrice)
-				if (totalExitQty > 0) {
-					tradeUpdateData.exitPrice = toNumericString(avgExitPrice)
-				}
-
-				// Encrypt updated fields
-				if (dek) {
-					Object.assign(tradeUpdateData, encryptTradeFields({
-						entryPrice: toNumericString(avgEntryPrice),
-						exitPrice: totalExitQty > 0 ? toNumericString(avgExitPrice) : undefined,
-						positionSize: toNumericString(totalEntryQty),
-					}, dek))
-				}
+		// Every nota touching these trades contributes when it is the current one or already allocated
+		const relatedFills = await db.query.notaFills.findMany({
+			where: inArray(notaFills.tradeId, tradeIds),
+			columns: { notaImportId: true },
+		})
+		const relatedNotaIds = [...new Set([notaImportId, ...relatedFills.map((fill) => fill.notaImportId)])]
 
-				await db
-					.update(trades)
-					.set(tradeUpdateData)
-					.where(and(eq(trades.id, match.tradeId), eq(trades.accountId, accountId)))
-
-				// Insert execution records for each fill
-				const executionValues: Array<typeof tradeExecutions.$inferInsert> = []
-
-				// Map to execution date from nota date
-				const parsedNotaDate = new Date(notaDate)
-
-				for (const fill of allEntryFills) {
-					const execInsert: Record<string, unknown> = {
-						tradeId: match.tradeId,
-						executionType: "entry",
-						executionDate: parsedNotaDate,
-						price: toNumericString(fill.price),
-						quantity: toNumericString(fill.quantity),
-						commission: "0",
-						fees: toNumericString(toCents(fill.operationalFee)),
-						executionValue: toNumericString(toCents(fill.price * fill.quantity)),
-					}
-
-					if (dek) {
-						Object.assign(execInsert, encryptExecutionFields({
-							price: toNumericString(fill.price),
-							quantity: toNumericString(fill.quantity),
-							fees: toCents(fill.operationalFee),
-							executionValue: toCents(fill.price * fill.quantity),
-						}, dek))
-					}
-
-					executionValues.push(execInsert as typeof tradeExecutions.$inferInsert)
-				}
-
-				for (const fill of allExitFills) {
-					const execInsert: Record<string, unknown> = {
-						tradeId: match.tradeId,
-						executionType: "exit",
-						executionDate: parsedNotaDate,
-						price: toNumericString(fill.price),
-						quantity: toNumericString(fill.quantity),
-						commission: "0",
-						fees: toNumericString(toCents(fill.operationalFee)),
-						executionValue: toNumericString(toCents(fill.price * fill.quantity)),
-					}
-
-					if (dek) {
-						Object.assign(execInsert, encryptExecutionFields({
-							price: toNumericString(fill.price),
-							quantity: toNumericString(fill.quantity),
-							fees: toCents(fill.operationalFee),
-							executionValue: toCents(fill.price * fill.quantity),
-						}, dek))
-					}
-
-					executionValues.push(execInsert as typeof tradeExecutions.$inferInsert)
-				}
-
-				if (executionValues.length > 0) {
-					await db.insert(tradeExecutions).values(executionValues)
-					executionsInserted += executionValues.length
-				}
-
-				tradesEnriched++
-			} catch (error) {
-				errors.push(`Trade ${match.tradeId}: ${toSafeErrorMessage(error, "enrichTrade")}`)
+		const relatedNotas = await db.query.notaImports.findMany({
+			where: and(inArray(notaImports.id, relatedNotaIds), eq(notaImports.accountId, accountId)),
+			with: { costs: true, fills: true },
+		})
+
+		const totalsByTrade = new Map<string, { commissionCents: number; feesCents: number }>()
+		for (const related of relatedNotas) {
+			if (!related.costs) continue
+			if (related.id !== notaImportId && !related.costs.allocatedAt) continue
+
+			const contractsByTrade = new Map<string, number>()
+			for (const fill of related.fills) {
+				if (!fill.tradeId) continue
+				contractsByTrade.set(fill.tradeId, (contractsByTrade.get(fill.tradeId) ?? 0) + Number(fill.quantity))
+			}
+
+			const allocations = allocateNotaCosts(
+				getNotaCostTotals(related.costs),
+				[...contractsByTrade].map(([tradeId, contracts]) => ({ tradeId, contracts }))
+			)
+
+			for (const allocation of allocations) {
+				const current = totalsByTrade.get(allocation.tradeId) ?? { commissionCents: 0, feesCents: 0 }
+				current.commissionCents += allocation.commissionCents
+				current.feesCents += allocation.feesCents
+				totalsByTrade.set(allocation.tradeId, current)
 			}
 		}
 
-		// Record the nota import for idempotency
-		await db.insert(notaImports).values({
-			accountId,
-			fileName,
-			fileHash: fileHashHex,
-			notaDate: new Date(notaDate),
-			brokerName,
-			totalFills: confirmedMatches.reduce((s, m) => s + m.entryFills.length + m.exitFills.length, 0),
-			matchedFills: confirmedMatches.reduce((s, m) => s + m.entryFills.length + m.exitFills.length, 0),
-			unmatchedFills: 0,
-			tradesEnriched,
-			status: errors.length > 0 ? "partial" : "completed",
+		const rawTrades = await db.query.trades.findMany({
+			where: and(inArray(trades.id, tradeIds), eq(trades.accountId, accountId)),
 		})
+		const dek = await getUserDek(userId)
+		const linkedTrades = dek ? rawTrades.map((trade) => decryptTradeFields(trade, dek)) : rawTrades
+
+		const allocations: TradeCostAllocation[] = []
+		for (const trade of linkedTrades) {
+			const allocated = totalsByTrade.get(trade.id) ?? { commissionCents: 0, feesCents: 0 }
+			const previousCostCents = Number(trade.commission ?? 0) + Number(trade.fees ?? 0)
+			const newPnlCents = trade.pnl !== null
+				? Number(trade.pnl) + previousCostCents - allocated.commissionCents - allocated.feesCents
+				: null
+
+			const plannedRiskCents = trade.plannedRiskAmount ? Number(trade.plannedRiskAmount) : 0
+			const realizedRMultiple = newPnlCents !== null && plannedRiskCents > 0
+				? calculateRMultiple(fromCents(newPnlCents), fromCents(plannedRiskCents))
+				: null
+
+			const costUpdateData: Record<string, unknown> = {
+				commission: toNumericString(allocated.commissionCents),
+				fees: toNumericString(allocated.feesCents),
+				pnl: newPnlCents !== null ? toNumericString(newPnlCents) : trade.pnl,
+				realizedRMultiple: realizedRMultiple !== null
+					? toNumericString(realizedRMultiple)
+					: trade.realizedRMultiple,
+				updatedAt: new Date(),
+			}
+
+			if (dek) {
+				Object.assign(costUpdateData, encryptTradeFields({
+					commission: allocated.commissionCents,
+					fees: allocated.feesCents,
+					pnl: newPnlCents ?? undefined,
+				}, dek))
+			}
+
+			await db
+				.update(trades)
+				.set(costUpdateData)
+				.where(and(eq(trades.id, trade.id), eq(trades.accountId, accountId)))
+
+			allocations.push({ tradeId: trade.id, ...allocated })
+		}
+
+		await db
+			.update(notaCosts)
+			.set({ allocatedAt: new Date() })
+			.where(eq(notaCosts.notaImportId, notaImportId))
 
 		invalidateTradeData(undefined, userId, accountId)
 
 		return {
-			status: errors.length === confirmedMatches.length ? "error" : "success",
-			message: errors.length > 0
-				? `Enriched ${tradesEnriched} trades with ${errors.length} errors`
-				: `Successfully enriched ${tradesEnriched} trades with ${executionsInserted} executions`,
-			data: {
-				tradesEnriched,
-				executionsInserted,
-				errors,
-			},
+			status: "success",
+			message: `Allocated nota costs to ${allocations.length} trades`,
+			data: { tradesUpdated: allocations.length, allocations },
 		}
 	} catch (error) {
 		return {
 			status: "error",
-			message: "Failed to enrich trades",
-			errors: [{ code: "ENRICH_FAILED", detail: toSafeErrorMessage(error, "enrichTradesFromNota") }],
+			message: "Failed to allocate nota costs",
+			errors: [{ code: "ALLOCATE_FAILED", detail: toSafeErrorMessage(error, "allocateNotaCostsToTrades") }],
 		}
 	}
 }
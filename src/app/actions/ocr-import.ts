@@ -16,6 +16,7 @@ import { requireAuth } from "@/app/actions/auth"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getBreakevenTicks } from "@/app/actions/accounts"
 import { z } from "zod"
+import { createImportBatch, completeImportBatch } from "@/lib/import-batches"
 
 // ==========================================
 // Validation Schema
@@ -304,13 +305,15 @@ export interface BulkOcrImportResult {
 }
 
 /**
- * Create multiple trades from OCR-extracted data
+ * Create multiple trades from OCR-extracted data, recorded as one import batch
  */
 export const bulkCreateTradesFromOcr = async (
 	inputs: OcrImportInput[]
 ): Promise<ActionResponse<BulkOcrImportResult>> => {
 	try {
 		const { accountId, userId } = await requireAuth()
+		const importBatchId = await createImportBatch({ userId, accountId, source: "ocr", sourceName: "ProfitChart" })
+		let executionsCreated = 0
 
 		const result: BulkOcrImportResult = {
 			successCount: 0,
@@ -443,6 +446,7 @@ export const bulkCreateTradesFromOcr = async (
 						contractsExecuted: toNumericString(
 							totalEntryQuantity + totalExitQuantity
 						)!,
+						importBatchId,
 					})
 					.returning()
 
@@ -461,12 +465,14 @@ export const bulkCreateTradesFromOcr = async (
 						ex.price,
 						ex.quantity
 					))!,
+					importBatchId,
 				}))
 
 				const createdExecutions = await db
 					.insert(tradeExecutions)
 					.values(executionValues)
 					.returning()
+				executionsCreated += createdExecutions.length
 
 				result.trades.push({
 					trade,
@@ -484,6 +490,8 @@ export const bulkCreateTradesFromOcr = async (
 			}
 		}
 
+		await completeImportBatch(importBatchId, { tradesCreated: result.successCount, executionsCreated })
+
 		// Revalidate pages
 		invalidateTradeData(undefined, userId, accountId)
 
@@ -0,0 +1,542 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { priceBars, timeframes, trades } from "@/db/schema"
+import type { PriceBarRow, Timeframe } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type {
+	ExcursionBackfillResult,
+	PriceBar,
+	TradeChartData,
+	TradeChartExecution,
+	TradeChartTimeframe,
+	TradeExcursion,
+} from "@/types/price-bar"
+import { and, asc, eq, gt, gte, inArray, isNotNull, isNull, lte, or, sql } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import {
+	backfillExcursionsSchema,
+	importPriceBarsSchema,
+	type BackfillExcursionsInput,
+	type ImportPriceBarsInput,
+} from "@/lib/validations/price-bar"
+import {
+	computeTradeExcursion,
+	excursionFromStored,
+	getTimeframeDurationMs,
+	getTradeChartWindow,
+	selectTradeBars,
+} from "@/lib/trade-excursion"
+import { getAssetBySymbol } from "@/app/actions/assets"
+import { getUserDek, decryptTradeFields, decryptExecutionFields } from "@/lib/user-crypto"
+import { fromCents } from "@/lib/money"
+import { invalidateTradeData } from "@/lib/cache/invalidate"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** How far around a trade to look for timeframes that have bars */
+const TIMEFRAME_LOOKUP_MARGIN_MS = 86_400_000
+
+const toPriceBar = (row: PriceBarRow): PriceBar => ({
+	time: row.time,
+	open: Number(row.open),
+	high: Number(row.high),
+	low: Number(row.low),
+	close: Number(row.close),
+	volume: row.volume === null ? null : Number(row.volume),
+})
+
+const toChartTimeframe = (timeframe: Timeframe): TradeChartTimeframe | null => {
+	const durationMs = getTimeframeDurationMs(timeframe)
+	return durationMs ? { id: timeframe.id, name: timeframe.name, durationMs } : null
+}
+
+const loadBars = async (
+	userId: string,
+	asset: string,
+	timeframeId: string,
+	from: Date,
+	to: Date
+): Promise<PriceBar[]> => {
+	const rows = await db.query.priceBars.findMany({
+		where: and(
+			eq(priceBars.userId, userId),
+			eq(priceBars.asset, asset),
+			eq(priceBars.timeframeId, timeframeId),
+			gte(priceBars.time, from),
+			lte(priceBars.time, to)
+		),
+		orderBy: [asc(priceBars.time)],
+	})
+	return rows.map(toPriceBar)
+}
+
+/** Stored decimal strings for an excursion */
+const toExcursionValues = (excursion: TradeExcursion) => ({
+	mfe: String(excursion.mfe),
+	mae: String(excursion.mae),
+	mfeR: excursion.mfeR === null ? null : String(excursion.mfeR),
+	maeR: excursion.maeR === null ? null : String(excursion.maeR),
+})
+
+const nullableNumber = (value: string | null): number | null =>
+	value === null || value === "" ? null : Number(value)
+
+const validationError = (error: z.ZodError): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: error.issues.map((issue) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${issue.path.join(".")}: ${issue.message}`,
+	})),
+})
+
+const tradeNotFound = (): ActionResponse<never> => ({
+	status: "error",
+	message: "Trade not found",
+	errors: [{ code: "NOT_FOUND", detail: "Trade does not exist" }],
+})
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+/**
+ * Stores a chunk of OHLC bars (re-importing a bar replaces it) and fills in
+ * MFE/MAE for closed trades on that asset that don't have them yet and are
+ * fully covered by the stored bars. Values already on a trade are kept.
+ */
+export const importPriceBars = async (
+	input: ImportPriceBarsInput
+): Promise<ActionResponse<{ imported: number; tradesUpdated: number }>> => {
+	try {
+		const { userId, allAccountIds } = await requireAuth()
+		const { asset, timeframeId, source, bars } = importPriceBarsSchema.parse(input)
+
+		const timeframe = await db.query.timeframes.findFirst({ where: eq(timeframes.id, timeframeId) })
+		const durationMs = timeframe ? getTimeframeDurationMs(timeframe) : null
+		if (!timeframe || !durationMs) {
+			return {
+				status: "error",
+				message: "Bars can only be imported into a time-based timeframe",
+				errors: [{ code: "INVALID_TIMEFRAME", detail: "Timeframe is missing or not time based" }],
+			}
+		}
+
+		await db
+			.insert(priceBars)
+			.values(
+				bars.map((bar) => ({
+					userId,
+					asset,
+					timeframeId,
+					time: bar.time,
+					open: String(bar.open),
+					high: String(bar.high),
+					low: String(bar.low),
+					close: String(bar.close),
+					volume: bar.volume === null ? null : String(bar.volume),
+					source,
+				}))
+			)
+			.onConflictDoUpdate({
+				target: [priceBars.userId, priceBars.asset, priceBars.timeframeId, priceBars.time],
+				set: {
+					open: sql`excluded.open`,
+					high: sql`excluded.high`,
+					low: sql`excluded.low`,
+					close: sql`excluded.close`,
+					volume: sql`excluded.volume`,
+					source: sql`excluded.source`,
+				},
+			})
+
+		// Fill in trades that started inside the imported range
+		const rangeStart = bars[0].time
+		const rangeEnd = new Date(bars[bars.length - 1].time.getTime() + durationMs)
+		const candidates = await db.query.trades.findMany({
+			where: and(
+				inArray(trades.accountId, allAccountIds),
+				eq(trades.asset, asset),
+				eq(trades.isArchived, false),
+				isNotNull(trades.exitDate),
+				isNull(trades.mfe),
+				isNull(trades.mae),
+				gte(trades.entryDate, rangeStart),
+				lte(trades.entryDate, rangeEnd)
+			),
+		})
+
+		let tradesUpdated = 0
+		const touchedAccountIds = new Set<string>()
+		if (candidates.length > 0) {
+			const dek = await getUserDek(userId)
+			for (const row of candidates) {
+				const trade = dek ? decryptTradeFields(row, dek) : row
+				if (!trade.exitDate) continue
+				const window = getTradeChartWindow(trade.entryDate, trade.exitDate, durationMs)
+				const tradeBars = await loadBars(userId, asset, timeframeId, window.from, window.to)
+				const excursion = computeTradeExcursion(
+					{
+						direction: trade.direction,
+						entryPrice: Number(trade.entryPrice),
+						exitPrice: nullableNumber(trade.exitPrice),
+						stopLoss: nullableNumber(trade.stopLoss),
+					},
+					selectTradeBars(tradeBars, trade.entryDate, trade.exitDate, durationMs)
+				)
+				if (!excursion) continue
+
+				await db
+					.update(trades)
+					.set({ ...toExcursionValues(excursion), updatedAt: new Date() })
+					.where(eq(trades.id, trade.id))
+				if (trade.accountId) touchedAccountIds.add(trade.accountId)
+				tradesUpdated++
+			}
+		}
+
+		for (const touchedAccountId of touchedAccountIds) {
+			invalidateTradeData(undefined, userId, touchedAccountId)
+		}
+
+		return {
+			status: "success",
+			message: "Price bars imported",
+			data: { imported: bars.length, tradesUpdated },
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+		return {
+			status: "error",
+			message: "Failed to import price bars",
+			errors: [{ code: "IMPORT_FAILED", detail: toSafeErrorMessage(error, "importPriceBars") }],
+		}
+	}
+}
+
+// ==========================================
+// TRADE CHART
+// ==========================================
+
+/**
+ * Bars, fills and stop/target levels for a trade's chart.
+ *
+ * @param timeframeId - Timeframe to draw; defaults to the trade's own
+ * timeframe when it has bars, otherwise the shortest one that does
+ */
+export const getTradeChartData = async (
+	tradeId: string,
+	timeframeId?: string
+): Promise<ActionResponse<TradeChartData>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const row = await db.query.trades.findFirst({
+			where: and(eq(trades.id, tradeId), eq(trades.accountId, accountId), eq(trades.isArchived, false)),
+			with: { executions: true },
+		})
+		if (!row) return tradeNotFound()
+
+		const dek = await getUserDek(userId)
+		const trade = dek ? decryptTradeFields(row, dek) : row
+		const executions = dek ? row.executions.map((e) => decryptExecutionFields(e, dek)) : row.executions
+
+		// Timeframes with bars for this asset around the trade, shortest first
+		const lastInstant = trade.exitDate ?? trade.entryDate
+		const available = await db
+			.selectDistinct({ timeframeId: priceBars.timeframeId })
+			.from(priceBars)
+			.where(
+				and(
+					eq(priceBars.userId, userId),
+					eq(priceBars.asset, trade.asset),
+					gte(priceBars.time, new Date(trade.entryDate.getTime() - TIMEFRAME_LOOKUP_MARGIN_MS)),
+					lte(priceBars.time, new Date(lastInstant.getTime() + TIMEFRAME_LOOKUP_MARGIN_MS))
+				)
+			)
+		const timeframeRows = available.length
+			? await db.query.timeframes.findMany({
+					where: inArray(
+						timeframes.id,
+						available.map((a) => a.timeframeId)
+					),
+				})
+			: []
+		const chartTimeframes = timeframeRows
+			.map(toChartTimeframe)
+			.filter((timeframe): timeframe is TradeChartTimeframe => timeframe !== null)
+			.toSorted((a, b) => a.durationMs - b.durationMs)
+
+		const selected =
+			chartTimeframes.find((timeframe) => timeframe.id === timeframeId) ??
+			chartTimeframes.find((timeframe) => timeframe.id === trade.timeframeId) ??
+			chartTimeframes[0] ??
+			null
+
+		const entryPrice = Number(trade.entryPrice)
+		const exitPrice = nullableNumber(trade.exitPrice)
+		const stopLoss = nullableNumber(trade.stopLoss)
+
+		let bars: PriceBar[] = []
+		let excursion: TradeExcursion | null = null
+		if (selected) {
+			const window = getTradeChartWindow(trade.entryDate, trade.exitDate, selected.durationMs)
+			bars = await loadBars(userId, trade.asset, selected.id, window.from, window.to)
+			if (trade.exitDate) {
+				excursion = computeTradeExcursion(
+					{ direction: trade.direction, entryPrice, exitPrice, stopLoss },
+					selectTradeBars(bars, trade.entryDate, trade.exitDate, selected.durationMs)
+				)
+			}
+		}
+
+		const fills: TradeChartExecution[] =
+			trade.executionMode === "scaled" && executions.length > 0
+				? executions.map((execution) => ({
+						type: execution.executionType,
+						time: execution.executionDate,
+						price: Number(execution.price),
+						quantity: Number(execution.quantity),
+					}))
+				: [
+						{ type: "entry", time: trade.entryDate, price: entryPrice, quantity: Number(trade.positionSize) },
+						...(trade.exitDate && exitPrice !== null
+							? [
+									{
+										type: "exit" as const,
+										time: trade.exitDate,
+										price: exitPrice,
+										quantity: Number(trade.positionSize),
+									},
+								]
+							: []),
+					]
+
+		return {
+			status: "success",
+			message: "Trade chart retrieved",
+			data: {
+				asset: trade.asset,
+				direction: trade.direction,
+				timeframes: chartTimeframes,
+				timeframeId: selected?.id ?? null,
+				bars,
+				executions: fills.toSorted((a, b) => a.time.getTime() - b.time.getTime()),
+				entryPrice,
+				exitPrice,
+				stopLoss,
+				takeProfit: nullableNumber(trade.takeProfit),
+				excursion,
+			},
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to retrieve trade chart",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getTradeChartData") }],
+		}
+	}
+}
+
+/**
+ * Recomputes a trade's MFE/MAE from the bars of one timeframe and saves them,
+ * replacing whatever was there (typed in or imported).
+ */
+export const recalculateTradeExcursion = async (
+	tradeId: string,
+	timeframeId: string
+): Promise<ActionResponse<TradeExcursion>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const result = await getTradeChartData(tradeId, timeframeId)
+		if (result.status === "error" || !result.data) return result as ActionResponse<never>
+
+		if (!result.data.excursion || result.data.timeframeId !== timeframeId) {
+			return {
+				status: "error",
+				message: "The stored bars don't cover this trade",
+				errors: [{ code: "NO_BAR_COVERAGE", detail: "Bars missing around the entry or the exit" }],
+			}
+		}
+
+		await db
+			.update(trades)
+			.set({ ...toExcursionValues(result.data.excursion), updatedAt: new Date() })
+			.where(and(eq(trades.id, tradeId), eq(trades.accountId, accountId)))
+
+		invalidateTradeData(tradeId, userId, accountId)
+
+		return { status: "success", message: "Trade excursion updated", data: result.data.excursion }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to recalculate trade excursion",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "recalculateTradeExcursion") }],
+		}
+	}
+}
+
+// ==========================================
+// BACKFILL
+// ==========================================
+
+const EXCURSION_BACKFILL_PAGE_SIZE = 100
+
+/**
+ * Fills MFE/MAE (prices and R) on historical closed trades. Stored bars win,
+ * using the shortest timeframe that covers the whole trade; otherwise the
+ * values already on the trade are reused, converting ProfitChart's money
+ * amounts to prices with the asset's tick config.
+ *
+ * Each call handles one page of trades in id order so a request stays short;
+ * the caller re-invokes with `nextCursor` until it comes back null. Skipped
+ * trades still match the filter, which is why the cursor is needed.
+ */
+export const backfillTradeExcursions = async (
+	input: BackfillExcursionsInput = {}
+): Promise<ActionResponse<ExcursionBackfillResult>> => {
+	try {
+		const { userId, accountId, showAllAccounts, allAccountIds } = await requireAuth()
+		const { overwrite, cursor } = backfillExcursionsSchema.parse(input)
+
+		const pending = and(
+			showAllAccounts ? inArray(trades.accountId, allAccountIds) : eq(trades.accountId, accountId),
+			eq(trades.isArchived, false),
+			isNotNull(trades.exitDate),
+			overwrite ? undefined : or(isNull(trades.mfeR), isNull(trades.maeR))
+		)
+		const rows = await db.query.trades.findMany({
+			where: and(pending, cursor ? gt(trades.id, cursor) : undefined),
+			orderBy: [asc(trades.id)],
+			limit: EXCURSION_BACKFILL_PAGE_SIZE,
+		})
+
+		const lastId = rows.at(-1)?.id ?? null
+		const [{ remaining }] = lastId
+			? await db
+					.select({ remaining: sql<number>`count(*)::int` })
+					.from(trades)
+					.where(and(pending, gt(trades.id, lastId)))
+			: [{ remaining: 0 }]
+
+		const result: ExcursionBackfillResult = {
+			scanned: rows.length,
+			fromBars: 0,
+			fromStored: 0,
+			skipped: 0,
+			nextCursor: remaining > 0 ? lastId : null,
+			remaining,
+		}
+		if (rows.length === 0) {
+			return { status: "success", message: "No trades to backfill", data: result }
+		}
+
+		const dek = await getUserDek(userId)
+		const assetSymbols = [...new Set(rows.map((row) => row.asset))]
+
+		// Timeframes with bars per asset, shortest first
+		const barTimeframes = await db
+			.selectDistinct({ asset: priceBars.asset, timeframeId: priceBars.timeframeId })
+			.from(priceBars)
+			.where(and(eq(priceBars.userId, userId), inArray(priceBars.asset, assetSymbols)))
+		const timeframeRows = barTimeframes.length
+			? await db.query.timeframes.findMany({
+					where: inArray(timeframes.id, [...new Set(barTimeframes.map((b) => b.timeframeId))]),
+				})
+			: []
+		const chartTimeframes = new Map(
+			timeframeRows
+				.map(toChartTimeframe)
+				.filter((timeframe): timeframe is TradeChartTimeframe => timeframe !== null)
+				.map((timeframe) => [timeframe.id, timeframe])
+		)
+		const timeframesByAsset = new Map<string, TradeChartTimeframe[]>()
+		for (const { asset, timeframeId } of barTimeframes) {
+			const timeframe = chartTimeframes.get(timeframeId)
+			if (!timeframe) continue
+			timeframesByAsset.set(asset, [...(timeframesByAsset.get(asset) ?? []), timeframe])
+		}
+
+		const tickConfigs = new Map(
+			await Promise.all(
+				assetSymbols.map(async (symbol) => {
+					const asset = await getAssetBySymbol(symbol)
+					const ticks = asset
+						? { tickSize: Number(asset.tickSize), tickValue: fromCents(asset.tickValue) }
+						: null
+					return [symbol, ticks] as const
+				})
+			)
+		)
+
+		const touchedAccountIds = new Set<string>()
+		for (const row of rows) {
+			const trade = dek ? decryptTradeFields(row, dek) : row
+			if (!trade.exitDate) continue
+			const excursionTrade = {
+				direction: trade.direction,
+				entryPrice: Number(trade.entryPrice),
+				exitPrice: nullableNumber(trade.exitPrice),
+				stopLoss: nullableNumber(trade.stopLoss),
+				positionSize: Number(trade.positionSize),
+			}
+
+			let excursion: TradeExcursion | null = null
+			const assetTimeframes = (timeframesByAsset.get(trade.asset) ?? []).toSorted(
+				(a, b) => a.durationMs - b.durationMs
+			)
+			for (const timeframe of assetTimeframes) {
+				const window = getTradeChartWindow(trade.entryDate, trade.exitDate, timeframe.durationMs)
+				const bars = await loadBars(userId, trade.asset, timeframe.id, window.from, window.to)
+				excursion = computeTradeExcursion(
+					excursionTrade,
+					selectTradeBars(bars, trade.entryDate, trade.exitDate, timeframe.durationMs)
+				)
+				if (excursion) break
+			}
+
+			if (excursion) {
+				result.fromBars++
+			} else {
+				const storedMfe = nullableNumber(trade.mfe)
+				const storedMae = nullableNumber(trade.mae)
+				excursion =
+					storedMfe !== null && storedMae !== null
+						? excursionFromStored(
+								excursionTrade,
+								{ mfe: storedMfe, mae: storedMae },
+								tickConfigs.get(trade.asset) ?? null
+							)
+						: null
+				if (!excursion) {
+					result.skipped++
+					continue
+				}
+				result.fromStored++
+			}
+
+			await db
+				.update(trades)
+				.set({ ...toExcursionValues(excursion), updatedAt: new Date() })
+				.where(eq(trades.id, trade.id))
+			if (trade.accountId) touchedAccountIds.add(trade.accountId)
+		}
+
+		for (const touchedAccountId of touchedAccountIds) {
+			invalidateTradeData(undefined, userId, touchedAccountId)
+		}
+
+		return { status: "success", message: "Trade excursions backfilled", data: result }
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+		return {
+			status: "error",
+			message: "Failed to backfill trade excursions",
+			errors: [{ code: "BACKFILL_FAILED", detail: toSafeErrorMessage(error, "backfillTradeExcursions") }],
+		}
+	}
+}
@@ -0,0 +1,394 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { propEvaluations, propRuleSets, tradingAccounts, trades } from "@/db/schema"
+import type { PropEvaluationRow, PropRuleSetRow } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type {
+	PropEvaluationDay,
+	PropEvaluationOverview,
+	PropEvaluationRecord,
+	PropRuleSet,
+	PropScalingTier,
+	PropTradeInput,
+} from "@/types/prop-evaluation"
+import { and, desc, eq, gte, isNotNull, notInArray } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { propRuleSetSchema, type PropRuleSetInput } from "@/lib/validations/prop-rules"
+import { evaluatePropRules } from "@/lib/prop-evaluation"
+import {
+	getUserDek,
+	decryptTradeFields,
+	encryptPropRuleSetFields,
+	decryptPropRuleSetFields,
+	encryptPropEvaluationFields,
+	decryptPropEvaluationFields,
+} from "@/lib/user-crypto"
+import { getServerEffectiveNow } from "@/lib/effective-date"
+import { getStartOfDay } from "@/lib/dates"
+import { invalidateMonthlyPlanData } from "@/lib/cache/invalidate"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Number of days shown in the evaluation history */
+const EVALUATION_HISTORY_LIMIT = 90
+
+/** Maps a stored rule set, decrypting its starting balance when the user has a DEK */
+const toPropRuleSet = (storedRow: PropRuleSetRow, dek: string | null): PropRuleSet => {
+	const row = dek ? decryptPropRuleSetFields(storedRow, dek) : storedRow
+	return {
+		id: row.id,
+		accountId: row.accountId,
+		startingBalanceCents: Number(row.startingBalanceCents),
+		drawdownType: row.drawdownType as PropRuleSet["drawdownType"],
+		maxDrawdownCents: row.maxDrawdownCents,
+		lockDrawdownAtStart: row.lockDrawdownAtStart,
+		dailyLossLimitCents: row.dailyLossLimitCents,
+		profitTargetCents: row.profitTargetCents,
+		minTradingDays: row.minTradingDays,
+		consistencyPercent: row.consistencyPercent !== null ? Number(row.consistencyPercent) : null,
+		scalingPlan: JSON.parse(row.scalingPlan) as PropScalingTier[],
+		evaluationStartDate: row.evaluationStartDate,
+		evaluationEndDate: row.evaluationEndDate,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	}
+}
+
+/** Maps a stored evaluation day, decrypting its amounts when the user has a DEK */
+const toPropEvaluationRecord = (storedRow: PropEvaluationRow, dek: string | null): PropEvaluationRecord => {
+	const row = dek ? decryptPropEvaluationFields(storedRow, dek) : storedRow
+	return {
+		id: row.id,
+		ruleSetId: row.ruleSetId,
+		date: row.evaluationDate,
+		status: row.status as PropEvaluationRecord["status"],
+		pnlCents: Number(row.pnlCents),
+		balanceCents: Number(row.balanceCents),
+		drawdownFloorCents: Number(row.drawdownFloorCents),
+		profitCents: Number(row.profitCents),
+		tradingDays: row.tradingDays,
+		consistencyPercent: row.consistencyPercent !== null ? Number(row.consistencyPercent) : null,
+		violations: JSON.parse(row.violations) as PropEvaluationRecord["violations"],
+		updatedAt: row.updatedAt,
+	}
+}
+
+const toEvaluationValues = (day: PropEvaluationDay) => ({
+	status: day.status,
+	pnlCents: String(day.pnlCents),
+	balanceCents: String(day.balanceCents),
+	drawdownFloorCents: String(day.drawdownFloorCents),
+	profitCents: String(day.profitCents),
+	tradingDays: day.tradingDays,
+	consistencyPercent: day.consistencyPercent !== null ? String(day.consistencyPercent) : null,
+	violations: JSON.stringify(day.violations),
+})
+
+/**
+ * Store the evaluated days, touching only rows that changed. With `prune`, days
+ * that no longer have trades (deleted or archived since) are removed.
+ * Rows are compared in plaintext, since every encryption of a value differs.
+ */
+const recordEvaluationHistory = async (
+	ruleSetId: string,
+	days: PropEvaluationDay[],
+	prune: boolean,
+	dek: string | null
+): Promise<void> => {
+	const storedRows = await db.query.propEvaluations.findMany({
+		where: eq(propEvaluations.ruleSetId, ruleSetId),
+	})
+	const existingRows = dek ? storedRows.map((row) => decryptPropEvaluationFields(row, dek)) : storedRows
+	const existingByDate = new Map(existingRows.map((row) => [row.evaluationDate, row]))
+
+	const inserts = []
+	for (const day of days) {
+		const values = toEvaluationValues(day)
+		const storedValues = dek ? { ...values, ...encryptPropEvaluationFields(values, dek) } : values
+		const existing = existingByDate.get(day.date)
+
+		if (!existing) {
+			inserts.push({ ruleSetId, evaluationDate: day.date, ...storedValues })
+			continue
+		}
+
+		const changed = (Object.keys(values) as (keyof typeof values)[]).some(
+			(key) => String(existing[key]) !== String(values[key])
+		)
+		if (changed) {
+			await db
+				.update(propEvaluations)
+				.set({ ...storedValues, updatedAt: new Date() })
+				.where(eq(propEvaluations.id, existing.id))
+		}
+	}
+
+	if (inserts.length > 0) {
+		await db.insert(propEvaluations).values(inserts).onConflictDoNothing()
+	}
+
+	if (prune) {
+		const dates = days.map((day) => day.date)
+		await db
+			.delete(propEvaluations)
+			.where(and(
+				eq(propEvaluations.ruleSetId, ruleSetId),
+				dates.length > 0 ? notInArray(propEvaluations.evaluationDate, dates) : undefined
+			))
+	}
+}
+
+const isPropAccount = async (userId: string, accountId: string): Promise<boolean> => {
+	const account = await db.query.tradingAccounts.findFirst({
+		where: and(eq(tradingAccounts.id, accountId), eq(tradingAccounts.userId, userId)),
+		columns: { accountType: true },
+	})
+	return account?.accountType === "prop"
+}
+
+// ==========================================
+// PROP RULE SET ACTIONS
+// ==========================================
+
+/**
+ * Get the current account's prop rule set (null when none is configured)
+ */
+const getPropRuleSet = async (): Promise<ActionResponse<PropRuleSet | null>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		const row = await db.query.propRuleSets.findFirst({
+			where: eq(propRuleSets.accountId, accountId),
+		})
+
+		return {
+			status: "success",
+			message: row ? "Prop rules retrieved" : "No prop rules configured",
+			data: row ? toPropRuleSet(row, await getUserDek(userId)) : null,
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get prop rules",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getPropRuleSet") }],
+		}
+	}
+}
+
+/**
+ * Create or update the current account's prop rule set.
+ * The stored evaluation history is cleared, so it is rebuilt against the new rules.
+ */
+const upsertPropRuleSet = async (input: PropRuleSetInput): Promise<ActionResponse<PropRuleSet>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const validated = propRuleSetSchema.parse(input)
+
+		if (!(await isPropAccount(userId, accountId))) {
+			return {
+				status: "error",
+				message: "Prop rules are only available for prop accounts",
+				errors: [{ code: "NOT_PROP_ACCOUNT", detail: "The current account is not a prop account" }],
+			}
+		}
+
+		const dek = await getUserDek(userId)
+		const startingBalanceCents = String(validated.startingBalanceCents)
+		const values = {
+			startingBalanceCents: dek
+				? encryptPropRuleSetFields({ startingBalanceCents }, dek).startingBalanceCents!
+				: startingBalanceCents,
+			drawdownType: validated.drawdownType,
+			maxDrawdownCents: validated.maxDrawdownCents,
+			lockDrawdownAtStart: validated.lockDrawdownAtStart,
+			dailyLossLimitCents: validated.dailyLossLimitCents ?? null,
+			profitTargetCents: validated.profitTargetCents ?? null,
+			minTradingDays: validated.minTradingDays ?? null,
+			consistencyPercent: validated.consistencyPercent != null
+				? String(validated.consistencyPercent)
+				: null,
+			scalingPlan: JSON.stringify(
+				validated.scalingPlan.toSorted((a, b) => a.profitThresholdCents - b.profitThresholdCents)
+			),
+			evaluationStartDate: validated.evaluationStartDate,
+			evaluationEndDate: validated.evaluationEndDate ?? null,
+		}
+
+		const [row] = await db
+			.insert(propRuleSets)
+			.values({ accountId, ...values })
+			.onConflictDoUpdate({
+				target: propRuleSets.accountId,
+				set: { ...values, updatedAt: new Date() },
+			})
+			.returning()
+
+		await db.delete(propEvaluations).where(eq(propEvaluations.ruleSetId, row.id))
+
+		invalidateMonthlyPlanData()
+
+		return {
+			status: "success",
+			message: "Prop rules saved",
+			data: toPropRuleSet(row, dek),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((issue) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${issue.path.join(".")}: ${issue.message}`,
+				})),
+			}
+		}
+
+		return {
+			status: "error",
+			message: "Failed to save prop rules",
+			errors: [{ code: "SAVE_FAILED", detail: toSafeErrorMessage(error, "upsertPropRuleSet") }],
+		}
+	}
+}
+
+/**
+ * Remove the current account's prop rule set and its evaluation history
+ */
+const deletePropRuleSet = async (): Promise<ActionResponse<void>> => {
+	try {
+		const { accountId } = await requireAuth()
+
+		await db.delete(propRuleSets).where(eq(propRuleSets.accountId, accountId))
+
+		invalidateMonthlyPlanData()
+
+		return { status: "success", message: "Prop rules removed" }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to remove prop rules",
+			errors: [{ code: "DELETE_FAILED", detail: toSafeErrorMessage(error, "deletePropRuleSet") }],
+		}
+	}
+}
+
+// ==========================================
+// EVALUATION ACTIONS
+// ==========================================
+
+/**
+ * Evaluate the current prop account against its rules and record the daily history.
+ * Returns null for non-prop accounts or when no rules are configured.
+ *
+ * @param date - Evaluate as of this day (Command Center date navigation); defaults to the effective now
+ */
+const getPropEvaluationStatus = async (
+	date?: Date
+): Promise<ActionResponse<PropEvaluationOverview | null>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		if (!(await isPropAccount(userId, accountId))) {
+			return { status: "success", message: "Not a prop account", data: null }
+		}
+
+		const row = await db.query.propRuleSets.findFirst({
+			where: eq(propRuleSets.accountId, accountId),
+		})
+		if (!row) {
+			return { status: "success", message: "No prop rules configured", data: null }
+		}
+
+		const dek = await getUserDek(userId)
+		const ruleSet = toPropRuleSet(row, dek)
+		const asOf = date ? new Date(date) : await getServerEffectiveNow()
+
+		const rawTrades = await db.query.trades.findMany({
+			where: and(
+				eq(trades.accountId, accountId),
+				eq(trades.isArchived, false),
+				isNotNull(trades.pnl),
+				gte(trades.entryDate, getStartOfDay(ruleSet.evaluationStartDate))
+			),
+			columns: { entryDate: true, exitDate: true, pnl: true, positionSize: true },
+		})
+
+		const accountTrades = dek
+			? rawTrades.map((trade) => decryptTradeFields(trade, dek))
+			: rawTrades
+
+		const tradeInputs: PropTradeInput[] = accountTrades.map((trade) => ({
+			closedAt: trade.exitDate ?? trade.entryDate,
+			pnlCents: Number(trade.pnl) || 0,
+			contracts: Number(trade.positionSize) || 0,
+		}))
+
+		const result = evaluatePropRules({ rules: ruleSet, trades: tradeInputs, asOf })
+
+		// Past-date views only see part of the trades, so they never prune
+		await recordEvaluationHistory(ruleSet.id, result.days, !date, dek)
+
+		return {
+			status: "success",
+			message: "Prop evaluation computed",
+			data: { ruleSet, evaluation: result.status },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to evaluate prop rules",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getPropEvaluationStatus") }],
+		}
+	}
+}
+
+/**
+ * Recorded evaluation days of the current account's rule set, newest first
+ */
+const getPropEvaluationHistory = async (): Promise<ActionResponse<PropEvaluationRecord[]>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		const ruleSet = await db.query.propRuleSets.findFirst({
+			where: eq(propRuleSets.accountId, accountId),
+			columns: { id: true },
+		})
+		if (!ruleSet) {
+			return { status: "success", message: "No prop rules configured", data: [] }
+		}
+
+		const rows = await db.query.propEvaluations.findMany({
+			where: eq(propEvaluations.ruleSetId, ruleSet.id),
+			orderBy: [desc(propEvaluations.evaluationDate)],
+			limit: EVALUATION_HISTORY_LIMIT,
+		})
+
+		const dek = await getUserDek(userId)
+
+		return {
+			status: "success",
+			message: "Prop evaluation history retrieved",
+			data: rows.map((row) => toPropEvaluationRecord(row, dek)),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get prop evaluation history",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getPropEvaluationHistory") }],
+		}
+	}
+}
+
+export {
+	getPropRuleSet,
+	upsertPropRuleSet,
+	deletePropRuleSet,
+	getPropEvaluationStatus,
+	getPropEvaluationHistory,
+}
@@ -0,0 +1,286 @@
+"use server"
+
+import { invalidateAccountData, invalidateTradeData } from "@/lib/cache/invalidate"
+import { db } from "@/db/drizzle"
+import { tradingAccounts, trades, type TradingAccount } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { ReplayTimeline } from "@/types/replay"
+import { and, eq, gte, lte } from "drizzle-orm"
+import { requireAuth } from "@/app/actions/auth"
+import { replayDateSchema, type ReplayDateInput } from "@/lib/validations/replay"
+import { formatDateKey, getEndOfDay, getStartOfDay } from "@/lib/dates"
+import { getTradingCalendar } from "@/lib/market/calendar-service"
+import {
+	buildReplayTimeline,
+	toReplayInstant,
+	validateReplayBranch,
+	validateReplayJump,
+	type ReplayDateError,
+} from "@/lib/replay"
+import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+import { getTranslations } from "next-intl/server"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+interface ReplaySession {
+	account: TradingAccount
+	startKey: string
+	currentKey: string
+}
+
+interface ReplayBranchResult {
+	currentDate: string
+	archivedTrades: number
+}
+
+const REPLAY_DATE_ERROR_KEYS: Record<ReplayDateError, string> = {
+	NOT_TRADING_DAY: "errors.notTradingDay",
+	BEFORE_START: "errors.beforeStart",
+	NOT_AFTER_CURRENT: "errors.notAfterCurrent",
+	AFTER_CURRENT: "errors.afterCurrent",
+}
+
+/**
+ * Loads the active account as a replay session. Accounts created before the
+ * start date was tracked fall back to their current date as the start.
+ */
+const loadReplaySession = async (
+	userId: string,
+	accountId: string
+): Promise<ReplaySession | "NOT_REPLAY" | "NO_DATE"> => {
+	const account = await db.query.tradingAccounts.findFirst({
+		where: and(eq(tradingAccounts.id, accountId), eq(tradingAccounts.userId, userId)),
+	})
+
+	if (!account || account.accountType !== "replay") return "NOT_REPLAY"
+	if (!account.replayCurrentDate) return "NO_DATE"
+
+	const currentKey = formatDateKey(account.replayCurrentDate)
+	const startKey = account.replayStartDate ? formatDateKey(account.replayStartDate) : currentKey
+	return { account, startKey, currentKey }
+}
+
+const sessionError = async (
+	code: ReplayDateError | "NOT_REPLAY" | "NO_DATE"
+): Promise<ActionResponse<never>> => {
+	const t = await getTranslations("commandCenter.replay")
+	const message =
+		code === "NOT_REPLAY"
+			? t("errors.onlyReplayAccounts")
+			: code === "NO_DATE"
+				? t("errors.noStartDate")
+				: t(REPLAY_DATE_ERROR_KEYS[code])
+	return { status: "error", message, errors: [{ code, detail: message }] }
+}
+
+const validationError = (detail: string): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: [{ code: "VALIDATION_ERROR", detail }],
+})
+
+const setReplayCurrentDate = async (accountId: string, dateKey: string): Promise<void> => {
+	await db
+		.update(tradingAccounts)
+		.set({ replayCurrentDate: toReplayInstant(dateKey), updatedAt: new Date() })
+		.where(eq(tradingAccounts.id, accountId))
+}
+
+/**
+ * Rewinds the session to `dateKey` and archives every trade entered on or
+ * after it, so the replay continues as if those days never happened.
+ */
+const branchSession = async (
+	session: ReplaySession,
+	dateKey: string,
+	userId: string
+): Promise<ReplayBranchResult> => {
+	const archived = await db
+		.update(trades)
+		.set({ isArchived: true, updatedAt: new Date() })
+		.where(
+			and(
+				eq(trades.accountId, session.account.id),
+				eq(trades.isArchived, false),
+				gte(trades.entryDate, getStartOfDay(toReplayInstant(dateKey)))
+			)
+		)
+		.returning({ id: trades.id })
+
+	await setReplayCurrentDate(session.account.id, dateKey)
+
+	invalidateAccountData()
+	invalidateTradeData(undefined, userId, session.account.id)
+
+	return { currentDate: dateKey, archivedTrades: archived.length }
+}
+
+// ==========================================
+// SESSION NAVIGATION
+// ==========================================
+
+/**
+ * Advances the replay to the next B3 trading day, skipping weekends and
+ * exchange holidays.
+ */
+export const advanceReplayDate = async (): Promise<ActionResponse<{ currentDate: string }>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const session = await loadReplaySession(userId, accountId)
+		if (typeof session === "string") return sessionError(session)
+
+		const calendar = await getTradingCalendar("B3")
+		const nextKey = calendar.getNextTradingDay(session.currentKey)
+		await setReplayCurrentDate(session.account.id, nextKey)
+
+		invalidateAccountData()
+
+		return {
+			status: "success",
+			message: "Replay advanced",
+			data: { currentDate: nextKey },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to advance replay",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "advanceReplayDate") }],
+		}
+	}
+}
+
+/**
+ * Jumps the replay forward to a picked trading day. Going back is a branch,
+ * since it discards the trades taken in between.
+ */
+export const jumpReplayToDate = async (
+	input: ReplayDateInput
+): Promise<ActionResponse<{ currentDate: string }>> => {
+	try {
+		const parsed = replayDateSchema.safeParse(input)
+		if (!parsed.success) return validationError(parsed.error.issues[0].message)
+
+		const { userId, accountId } = await requireAuth()
+		const session = await loadReplaySession(userId, accountId)
+		if (typeof session === "string") return sessionError(session)
+
+		const calendar = await getTradingCalendar("B3")
+		const error = validateReplayJump(calendar, session.currentKey, parsed.data.date)
+		if (error) return sessionError(error)
+
+		await setReplayCurrentDate(session.account.id, parsed.data.date)
+
+		invalidateAccountData()
+
+		return {
+			status: "success",
+			message: "Replay moved forward",
+			data: { currentDate: parsed.data.date },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to move replay",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "jumpReplayToDate") }],
+		}
+	}
+}
+
+// ==========================================
+// BRANCH & RESET
+// ==========================================
+
+/**
+ * Restarts the replay from an earlier trading day, archiving the trades
+ * entered on or after it.
+ */
+export const branchReplayFromDate = async (
+	input: ReplayDateInput
+): Promise<ActionResponse<ReplayBranchResult>> => {
+	try {
+		const parsed = replayDateSchema.safeParse(input)
+		if (!parsed.success) return validationError(parsed.error.issues[0].message)
+
+		const { userId, accountId } = await requireAuth()
+		const session = await loadReplaySession(userId, accountId)
+		if (typeof session === "string") return sessionError(session)
+
+		const calendar = await getTradingCalendar("B3")
+		const error = validateReplayBranch(calendar, session.startKey, session.currentKey, parsed.data.date)
+		if (error) return sessionError(error)
+
+		const result = await branchSession(session, parsed.data.date, userId)
+
+		return { status: "success", message: "Replay branched", data: result }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to branch replay",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "branchReplayFromDate") }],
+		}
+	}
+}
+
+/** Sends the replay back to its first trading day and archives all of its trades */
+export const resetReplay = async (): Promise<ActionResponse<ReplayBranchResult>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const session = await loadReplaySession(userId, accountId)
+		if (typeof session === "string") return sessionError(session)
+
+		const calendar = await getTradingCalendar("B3")
+		const result = await branchSession(session, calendar.getSessionKey(session.startKey), userId)
+
+		return { status: "success", message: "Replay reset", data: result }
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to reset replay",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "resetReplay") }],
+		}
+	}
+}
+
+// ==========================================
+// TIMELINE
+// ==========================================
+
+/** Trading days of the active replay session with the P&L of each one */
+export const getReplayTimeline = async (): Promise<ActionResponse<ReplayTimeline>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const session = await loadReplaySession(userId, accountId)
+		if (typeof session === "string") return sessionError(session)
+
+		const rows = await db.query.trades.findMany({
+			where: and(
+				eq(trades.accountId, session.account.id),
+				eq(trades.isArchived, false),
+				gte(trades.entryDate, getStartOfDay(toReplayInstant(session.startKey))),
+				lte(trades.entryDate, getEndOfDay(toReplayInstant(session.currentKey)))
+			),
+		})
+
+		const [dek, calendar] = await Promise.all([getUserDek(userId), getTradingCalendar("B3")])
+		const decryptedTrades = dek ? rows.map((row) => decryptTradeFields(row, dek)) : rows
+		const results = decryptedTrades.map((trade) => ({
+			entryDate: trade.entryDate,
+			pnlCents: trade.pnl === null ? null : Number(trade.pnl) || 0,
+		}))
+
+		return {
+			status: "success",
+			message: "Replay timeline retrieved",
+			data: buildReplayTimeline(calendar, session.startKey, session.currentKey, results),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to retrieve replay timeline",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getReplayTimeline") }],
+		}
+	}
+}
@@ -1,7 +1,7 @@
 "use server"
 
 import { db } from "@/db/drizzle"
-import { trades, tags, tradeTags, tradingAccounts } from "@/db/schema"
+import { trades, tags, tradeTags, tradingAccounts, taxLedgerEntries } from "@/db/schema"
 import { eq, and, gte, lte, desc, inArray } from "drizzle-orm"
 import {
 	startOfWeek,
@@ -11,14 +11,16 @@ import {
 	eachDayOfInterval,
 	subWeeks,
 	subMonths,
-	differenceInBusinessDays,
 } from "date-fns"
 import { fromCents } from "@/lib/money"
-import { formatDateKey } from "@/lib/dates"
+import { formatDateKey, getStartOfMonth, getEndOfMonth } from "@/lib/dates"
+import { getTradingCalendar } from "@/lib/market/calendar-service"
+import { shiftDateKey } from "@/lib/market/trading-calendar"
+import type { TradingCalendar } from "@/types/market-calendar"
 import { getUserSettings, type UserSettingsData } from "./settings"
 import { requireAuth } from "@/app/actions/auth"
 import { getServerEffectiveNow } from "@/lib/effective-date"
-import { getUserDek, decryptAccountFields } from "@/lib/user-crypto"
+import { getUserDek, decryptAccountFields, decryptTaxLedgerFields } from "@/lib/user-crypto"
 import { getTranslations } from "next-intl/server"
 import { isFrameworkSignal } from "@/lib/error-utils"
 
@@ -713,12 +715,9 @@ const calculatePropProfit = (
 	}
 }
 
-// Get business days in a month (excluding weekends)
-const getBusinessDaysInMonth = (date: Date): number => {
-	const start = startOfMonth(date)
-	const end = endOfMonth(date)
-	return differenceInBusinessDays(end, start) + 1
-}
+// Get B3 trading days in a month (excluding weekends and exchange holidays)
+const getTradingDaysInMonth = (calendar: TradingCalendar, date: Date): number =>
+	calendar.countTradingDays(formatDateKey(getStartOfMonth(date)), formatDateKey(getEndOfMonth(date)))
 
 // Get unique trading days from trades
 const getUniqueTradingDays = (
@@ -796,7 +795,37 @@ export const getMonthlyResultsWithProp = async (
 		}
 
 		// Calculate prop profit breakdown using account-specific settings
-		const prop = calculatePropProfit(report.summary.netPnl, accountSettings)
+		const estimatedProp = calculatePropProfit(report.summary.netPnl, accountSettings)
+
+		// Personal accounts: prefer the tax ledger (loss carry-forward, IRRF credit) over the flat estimate
+		const [reportYear, reportMonth] = report.monthStart.split("-").map(Number)
+		const storedLedgerEntry = !isPropAccount && accountSettings.showTaxEstimates
+			? await db.query.taxLedgerEntries.findFirst({
+					where: and(
+						eq(taxLedgerEntries.accountId, authContext.accountId),
+						eq(taxLedgerEntries.year, reportYear),
+						eq(taxLedgerEntries.month, reportMonth)
+					),
+				})
+			: undefined
+		const ledgerEntry = storedLedgerEntry && dek
+			? decryptTaxLedgerFields(storedLedgerEntry, dek)
+			: storedLedgerEntry
+		const ledgerTax = ledgerEntry
+			? fromCents(
+					Number(ledgerEntry.dayTradeTaxCents) +
+						Number(ledgerEntry.swingTaxCents) -
+						Number(ledgerEntry.irrfCreditUsedCents)
+				)
+			: null
+		const prop =
+			ledgerTax !== null
+				? {
+						...estimatedProp,
+						estimatedTax: ledgerTax,
+						netProfit: estimatedProp.traderShare - ledgerTax,
+					}
+				: estimatedProp
 
 		return {
 			status: "success",
@@ -838,10 +867,9 @@ export const getMonthlyProjection = async (): Promise<{
 
 		const now = await getServerEffectiveNow()
 		const monthStart = startOfMonth(now)
-		const monthEnd = endOfMonth(now)
 
-		// Get account, user settings, and current month trades in parallel
-		const [account, settingsResult, monthTrades] = await Promise.all([
+		// Get account, user settings, current month trades and the B3 calendar in parallel
+		const [account, settingsResult, monthTrades, calendar] = await Promise.all([
 			db.query.tradingAccounts.findFirst({
 				where: eq(tradingAccounts.id, authContext.accountId),
 			}),
@@ -854,6 +882,7 @@ export const getMonthlyProjection = async (): Promise<{
 					lte(trades.entryDate, now)
 				),
 			}),
+			getTradingCalendar("B3"),
 		])
 
 		if (!account) {
@@ -874,11 +903,11 @@ export const getMonthlyProjection = async (): Promise<{
 			: account
 
 		const userSettings = settingsResult.data
-		const totalTradingDays = getBusinessDaysInMonth(now)
+		const totalTradingDays = getTradingDaysInMonth(calendar, now)
 		const daysTraded = getUniqueTradingDays(monthTrades)
-		const tradingDaysRemaining = Math.max(
-			0,
-			differenceInBusinessDays(monthEnd, now)
+		const tradingDaysRemaining = calendar.countTradingDays(
+			shiftDateKey(formatDateKey(now), 1),
+			formatDateKey(getEndOfMonth(now))
 		)
 
 		const currentProfit = monthTrades.reduce(
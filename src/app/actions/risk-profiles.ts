@@ -1,12 +1,18 @@
 "use server"
 
+import { randomBytes } from "node:crypto"
 import { invalidateSettingsData } from "@/lib/cache/invalidate"
 import { db } from "@/db/drizzle"
-import { riskManagementProfiles } from "@/db/schema"
+import { riskManagementProfiles, riskProfileShares, riskProfileVersions } from "@/db/schema"
+import type { RiskManagementProfileRow } from "@/db/schema"
 import type { ActionResponse } from "@/types"
-import type { RiskManagementProfile } from "@/types/risk-profile"
+import type {
+	RiskManagementProfile,
+	RiskProfileCloneSource,
+	RiskProfileVersion,
+} from "@/types/risk-profile"
 import type { DecisionTreeConfig } from "@/types/risk-profile"
-import { eq } from "drizzle-orm"
+import { and, desc, eq, inArray, or } from "drizzle-orm"
 import { z } from "zod"
 import { riskProfileSchema } from "@/lib/validations/risk-profile"
 import type { RiskProfileSchemaInput } from "@/lib/validations/risk-profile"
@@ -14,15 +20,28 @@ import { requireAuth } from "@/app/actions/auth"
 import { requireRole } from "@/lib/auth-utils"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 import { getTranslations } from "next-intl/server"
+import {
+	haveRiskProfileRulesChanged,
+	parseRiskProfileVersionRow,
+	snapshotRiskProfileVersion,
+} from "@/lib/risk-profile-versions"
+import { findVisibleProfileRow } from "@/lib/risk-profile-visibility"
+import {
+	canEditRiskProfile,
+	canViewRiskProfile,
+	getRiskProfileOwnership,
+} from "@/lib/risk-profile-access"
+import { RISK_PROFILE_TEMPLATES } from "@/lib/risk-profile-templates"
 
 // ==========================================
 // HELPERS
 // ==========================================
 
 /**
- * Parses a DB row's JSON decision tree string into a typed DecisionTreeConfig.
+ * Parses a DB row's JSON decision tree string into a typed DecisionTreeConfig
+ * and classifies the profile from the reader's point of view.
  */
-const parseProfileRow = (row: typeof riskManagementProfiles.$inferSelect): RiskManagementProfile => ({
+const parseProfileRow = (row: RiskManagementProfileRow, userId: string): RiskManagementProfile => ({
 	id: row.id,
 	name: row.name,
 	description: row.description,
@@ -34,30 +53,67 @@ const parseProfileRow = (row: typeof riskManagementProfiles.$inferSelect): RiskM
 	monthlyLossCents: row.monthlyLossCents,
 	dailyProfitTargetCents: row.dailyProfitTargetCents,
 	decisionTree: JSON.parse(row.decisionTree) as DecisionTreeConfig,
+	currentVersion: row.currentVersion,
+	visibility: row.visibility as RiskManagementProfile["visibility"],
+	ownership: getRiskProfileOwnership(row, userId),
 	createdAt: row.createdAt,
 	updatedAt: row.updatedAt,
 })
 
+/** True when the current session belongs to an admin (never throws) */
+const isCurrentUserAdmin = async (): Promise<boolean> =>
+	requireRole("admin").then(() => true).catch(() => false)
+
+/** Rule columns written on create/clone, shared by every insert path */
+const toProfileValues = (validated: z.infer<typeof riskProfileSchema>) => ({
+	name: validated.name,
+	description: validated.description ?? null,
+	baseRiskCents: validated.baseRiskCents,
+	dailyLossCents: validated.dailyLossCents,
+	weeklyLossCents: validated.weeklyLossCents ?? null,
+	monthlyLossCents: validated.monthlyLossCents,
+	dailyProfitTargetCents: validated.dailyProfitTargetCents ?? null,
+	decisionTree: JSON.stringify(validated.decisionTree),
+})
+
 // ==========================================
 // RISK PROFILE ACTIONS
 // ==========================================
 
 /**
- * Returns all active risk profiles. Any authenticated user can read profiles.
+ * Returns every active profile the user can see: public profiles, their own
+ * personal profiles and profiles shared with them.
  */
 const listActiveRiskProfiles = async (): Promise<ActionResponse<RiskManagementProfile[]>> => {
 	try {
-		await requireAuth()
+		const { userId } = await requireAuth()
+
+		const shares = await db.query.riskProfileShares.findMany({
+			where: eq(riskProfileShares.userId, userId),
+			columns: { profileId: true },
+		})
+		const sharedIds = shares.map((share) => share.profileId)
 
 		const rows = await db.query.riskManagementProfiles.findMany({
-			where: eq(riskManagementProfiles.isActive, true),
+			where: and(
+				eq(riskManagementProfiles.isActive, true),
+				or(
+					eq(riskManagementProfiles.visibility, "public"),
+					eq(riskManagementProfiles.createdByUserId, userId),
+					sharedIds.length > 0 ? inArray(riskManagementProfiles.id, sharedIds) : undefined
+				)
+			),
 			orderBy: (profiles, { asc }) => [asc(profiles.name)],
 		})
 
+		const sharedIdSet = new Set(sharedIds)
+
 		return {
 			status: "success",
 			message: "Risk profiles retrieved",
-			data: rows.map(parseProfileRow),
+			data: rows
+				.filter((row) => canViewRiskProfile(row, userId, sharedIdSet.has(row.id)))
+				.map((row) => parseProfileRow(row, userId)),
 		}
 	} catch (error) {
 		return {
@@ -69,16 +125,14 @@ const listActiveRiskProfiles = async (): Promise<ActionResponse<RiskManagementPr
 }
 
 /**
- * Get a single risk profile by ID.
+ * Get a single risk profile by ID. Profiles the user can't see are reported as not found.
  */
 const getRiskProfile = async (id: string): Promise<ActionResponse<RiskManagementProfile>> => {
 	const t = await getTranslations("settings.riskProfiles")
 	try {
-		await requireAuth()
+		const { userId } = await requireAuth()
 
-		const row = await db.query.riskManagementProfiles.findFirst({
-			where: eq(riskManagementProfiles.id, id),
-		})
+		const row = await findVisibleProfileRow(id, userId)
 
 		if (!row) {
 			return {
@@ -91,7 +145,7 @@ const getRiskProfile = async (id: string): Promise<ActionResponse<RiskManagement
 		return {
 			status: "success",
 			message: "Risk profile retrieved",
-			data: parseProfileRow(row),
+			data: parseProfileRow(row, userId),
 		}
 	} catch (error) {
 		return {
@@ -103,38 +157,35 @@ const getRiskProfile = async (id: string): Promise<ActionResponse<RiskManagement
 }
 
 /**
- * Create a new risk management profile. Admin only.
+ * Create a new risk management profile. Admins create public profiles;
+ * everyone else creates a private personal profile.
  */
 const createRiskProfile = async (
 	input: RiskProfileSchemaInput
 ): Promise<ActionResponse<RiskManagementProfile>> => {
 	try {
 		const { userId } = await requireAuth()
-		await requireRole("admin")
+		const isAdmin = await isCurrentUserAdmin()
 
 		const validated = riskProfileSchema.parse(input)
 
 		const [row] = await db
 			.insert(riskManagementProfiles)
 			.values({
-				name: validated.name,
-				description: validated.description ?? null,
+				...toProfileValues(validated),
 				createdByUserId: userId,
-				baseRiskCents: validated.baseRiskCents,
-				dailyLossCents: validated.dailyLossCents,
-				weeklyLossCents: validated.weeklyLossCents ?? null,
-				monthlyLossCents: validated.monthlyLossCents,
-				dailyProfitTargetCents: validated.dailyProfitTargetCents ?? null,
-				decisionTree: JSON.stringify(validated.decisionTree),
+				visibility: isAdmin ? "public" : "private",
 			})
 			.returning()
 
+		await snapshotRiskProfileVersion(row, userId)
+
 		invalidateSettingsData()
 
 		return {
 			status: "success",
 			message: "Risk profile created",
-			data: parseProfileRow(row),
+			data: parseProfileRow(row, userId),
 		}
 	} catch (error) {
 		if (error instanceof z.ZodError) {
@@ -147,13 +198,6 @@ const createRiskProfile = async (
 				})),
 			}
 		}
-		if (error instanceof Error && error.message === "Forbidden") {
-			return {
-				status: "error",
-				message: "Admin access required",
-				errors: [{ code: "FORBIDDEN", detail: "Only admins can create risk profiles" }],
-			}
-		}
 		return {
 			status: "error",
 			message: "Failed to create risk profile",
@@ -163,7 +207,10 @@ const createRiskProfile = async (
 }
 
 /**
- * Update an existing risk management profile. Admin only.
+ * Update an existing risk management profile. Admins edit public profiles,
+ * owners edit their personal ones.
+ * Rule changes bump the profile to a new immutable version; plans pinned to an
+ * older version keep evaluating against it. Renames update the row in place.
  */
 const updateRiskProfile = async (
 	id: string,
@@ -172,27 +219,83 @@ const updateRiskProfile = async (
 	const t = await getTranslations("settings.riskProfiles")
 	try {
 		const { userId } = await requireAuth()
-		await requireRole("admin")
 
 		const validated = riskProfileSchema.parse(input)
 
+		const existing = await findVisibleProfileRow(id, userId)
+
+		if (!existing) {
+			return {
+				status: "error",
+				message: t("errors.notFound"),
+				errors: [{ code: "NOT_FOUND", detail: "Risk profile not found" }],
+			}
+		}
+
+		if (!canEditRiskProfile(existing, userId, await isCurrentUserAdmin())) {
+			return {
+				status: "error",
+				message: t("errors.readOnly"),
+				errors: [{ code: "FORBIDDEN", detail: "Risk profile is read-only for this user" }],
+			}
+		}
+
+		const { name, description, ...rules } = toProfileValues(validated)
+		const rulesChanged = haveRiskProfileRulesChanged(existing, rules)
+
 		const [row] = await db
 			.update(riskManagementProfiles)
 			.set({
-				name: validated.name,
-				description: validated.description ?? null,
-				baseRiskCents: validated.baseRiskCents,
-				dailyLossCents: validated.dailyLossCents,
-				weeklyLossCents: validated.weeklyLossCents ?? null,
-				monthlyLossCents: validated.monthlyLossCents,
-				dailyProfitTargetCents: validated.dailyProfitTargetCents ?? null,
-				decisionTree: JSON.stringify(validated.decisionTree),
+				name,
+				description,
+				...rules,
+				currentVersion: rulesChanged ? existing.currentVersion + 1 : existing.currentVersion,
 				updatedAt: new Date(),
 			})
 			.where(eq(riskManagementProfiles.id, id))
 			.returning()
 
-		if (!row) {
+		if (rulesChanged) {
+			await snapshotRiskProfileVersion(row, userId)
+		}
+
+		invalidateSettingsData()
+
+		return {
+			status: "success",
+			message: "Risk profile updated",
+			data: parseProfileRow(row, userId),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((e) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${e.path.join(".")}: ${e.message}`,
+				})),
+			}
+		}
+		return {
+			status: "error",
+			message: "Failed to update risk profile",
+			errors: [{ code: "UPDATE_ERROR", detail: toSafeErrorMessage(error, "updateRiskProfile") }],
+		}
+	}
+}
+
+/**
+ * Soft-delete a risk profile by marking it inactive. Same permissions as updating.
+ */
+const deactivateRiskProfile = async (id: string): Promise<ActionResponse<null>> => {
+	const t = await getTranslations("settings.riskProfiles")
+	try {
+		const { userId } = await requireAuth()
+
+		const existing = await findVisibleProfileRow(id, userId)
+
+		if (!existing) {
 			return {
 				status: "error",
 				message: t("errors.notFound"),
@@ -200,12 +303,97 @@ const updateRiskProfile = async (
 			}
 		}
 
+		if (!canEditRiskProfile(existing, userId, await isCurrentUserAdmin())) {
+			return {
+				status: "error",
+				message: t("errors.readOnly"),
+				errors: [{ code: "FORBIDDEN", detail: "Risk profile is read-only for this user" }],
+			}
+		}
+
+		await db
+			.update(riskManagementProfiles)
+			.set({ isActive: false, updatedAt: new Date() })
+			.where(eq(riskManagementProfiles.id, id))
+
 		invalidateSettingsData()
 
 		return {
 			status: "success",
-			message: "Risk profile updated",
-			data: parseProfileRow(row),
+			message: "Risk profile deactivated",
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to deactivate risk profile",
+			errors: [{ code: "DEACTIVATE_ERROR", detail: toSafeErrorMessage(error, "deactivateRiskProfile") }],
+		}
+	}
+}
+
+/**
+ * Copy a template or any visible profile into a new private profile owned by the user.
+ * The copy starts at version 1 and is fully editable.
+ */
+const cloneRiskProfile = async (
+	source: RiskProfileCloneSource,
+	name: string
+): Promise<ActionResponse<RiskManagementProfile>> => {
+	const t = await getTranslations("settings.riskProfiles")
+	try {
+		const { userId } = await requireAuth()
+
+		let sourceValues: RiskProfileSchemaInput | null = null
+
+		if (source.type === "template") {
+			const template = RISK_PROFILE_TEMPLATES.find((tpl) => tpl.id === source.templateId)
+			if (template) {
+				sourceValues = { name, description: null, ...template.defaults }
+			}
+		} else {
+			const row = await findVisibleProfileRow(source.profileId, userId)
+			if (row) {
+				const profile = parseProfileRow(row, userId)
+				sourceValues = {
+					name,
+					description: profile.description,
+					baseRiskCents: profile.baseRiskCents,
+					dailyLossCents: profile.dailyLossCents,
+					weeklyLossCents: profile.weeklyLossCents,
+					monthlyLossCents: profile.monthlyLossCents,
+					dailyProfitTargetCents: profile.dailyProfitTargetCents,
+					decisionTree: profile.decisionTree,
+				}
+			}
+		}
+
+		if (!sourceValues) {
+			return {
+				status: "error",
+				message: t("errors.notFound"),
+				errors: [{ code: "NOT_FOUND", detail: "Clone source not found" }],
+			}
+		}
+
+		const validated = riskProfileSchema.parse(sourceValues)
+
+		const [row] = await db
+			.insert(riskManagementProfiles)
+			.values({
+				...toProfileValues(validated),
+				createdByUserId: userId,
+				visibility: "private",
+			})
+			.returning()
+
+		await snapshotRiskProfileVersion(row, userId)
+
+		invalidateSettingsData()
+
+		return {
+			status: "success",
+			message: "Risk profile cloned",
+			data: parseProfileRow(row, userId),
 		}
 	} catch (error) {
 		if (error instanceof z.ZodError) {
@@ -218,52 +406,255 @@ const updateRiskProfile = async (
 				})),
 			}
 		}
-		if (error instanceof Error && error.message === "Forbidden") {
+		return {
+			status: "error",
+			message: "Failed to clone risk profile",
+			errors: [{ code: "CLONE_ERROR", detail: toSafeErrorMessage(error, "cloneRiskProfile") }],
+		}
+	}
+}
+
+// ==========================================
+// SHARING ACTIONS
+// ==========================================
+
+/**
+ * Turn on read-only link sharing for one of the user's personal profiles.
+ * Reuses the existing token so links handed out earlier keep working.
+ */
+const shareRiskProfile = async (id: string): Promise<ActionResponse<{ shareToken: string }>> => {
+	const t = await getTranslations("settings.riskProfiles")
+	try {
+		const { userId } = await requireAuth()
+
+		const existing = await db.query.riskManagementProfiles.findFirst({
+			where: and(eq(riskManagementProfiles.id, id), eq(riskManagementProfiles.createdByUserId, userId)),
+		})
+
+		if (!existing || existing.visibility === "public") {
 			return {
 				status: "error",
-				message: "Admin access required",
-				errors: [{ code: "FORBIDDEN", detail: "Only admins can update risk profiles" }],
+				message: t("errors.notFound"),
+				errors: [{ code: "NOT_FOUND", detail: "Personal risk profile not found" }],
 			}
 		}
+
+		const shareToken = existing.shareToken ?? randomBytes(24).toString("base64url")
+
+		await db
+			.update(riskManagementProfiles)
+			.set({ visibility: "shared", shareToken, updatedAt: new Date() })
+			.where(eq(riskManagementProfiles.id, id))
+
+		invalidateSettingsData()
+
+		return {
+			status: "success",
+			message: "Risk profile shared",
+			data: { shareToken },
+		}
+	} catch (error) {
 		return {
 			status: "error",
-			message: "Failed to update risk profile",
-			errors: [{ code: "UPDATE_ERROR", detail: toSafeErrorMessage(error, "updateRiskProfile") }],
+			message: "Failed to share risk profile",
+			errors: [{ code: "SHARE_ERROR", detail: toSafeErrorMessage(error, "shareRiskProfile") }],
 		}
 	}
 }
 
 /**
- * Soft-delete a risk profile by marking it inactive. Admin only.
+ * Make a shared profile private again. Invalidates the link and removes it
+ * from everyone's "Shared with me" list.
  */
-const deactivateRiskProfile = async (id: string): Promise<ActionResponse<null>> => {
+const stopSharingRiskProfile = async (id: string): Promise<ActionResponse<null>> => {
+	const t = await getTranslations("settings.riskProfiles")
 	try {
 		const { userId } = await requireAuth()
-		await requireRole("admin")
 
-		await db
+		const [row] = await db
 			.update(riskManagementProfiles)
-			.set({ isActive: false, updatedAt: new Date() })
-			.where(eq(riskManagementProfiles.id, id))
+			.set({ visibility: "private", shareToken: null, updatedAt: new Date() })
+			.where(
+				and(
+					eq(riskManagementProfiles.id, id),
+					eq(riskManagementProfiles.createdByUserId, userId),
+					eq(riskManagementProfiles.visibility, "shared")
+				)
+			)
+			.returning({ id: riskManagementProfiles.id })
+
+		if (!row) {
+			return {
+				status: "error",
+				message: t("errors.notFound"),
+				errors: [{ code: "NOT_FOUND", detail: "Shared risk profile not found" }],
+			}
+		}
+
+		await db.delete(riskProfileShares).where(eq(riskProfileShares.profileId, id))
 
 		invalidateSettingsData()
 
 		return {
 			status: "success",
-			message: "Risk profile deactivated",
+			message: "Risk profile is private again",
 		}
 	} catch (error) {
-		if (error instanceof Error && error.message === "Forbidden") {
+		return {
+			status: "error",
+			message: "Failed to stop sharing risk profile",
+			errors: [{ code: "SHARE_ERROR", detail: toSafeErrorMessage(error, "stopSharingRiskProfile") }],
+		}
+	}
+}
+
+/**
+ * Redeem a share link: adds the profile to the user's "Shared with me" list.
+ * Opening your own link is a no-op that just returns the profile.
+ */
+const acceptRiskProfileShare = async (shareToken: string): Promise<ActionResponse<RiskManagementProfile>> => {
+	const t = await getTranslations("settings.riskProfiles")
+	try {
+		const { userId } = await requireAuth()
+
+		const row = await db.query.riskManagementProfiles.findFirst({
+			where: and(
+				eq(riskManagementProfiles.shareToken, shareToken),
+				eq(riskManagementProfiles.visibility, "shared"),
+				eq(riskManagementProfiles.isActive, true)
+			),
+		})
+
+		if (!row) {
 			return {
 				status: "error",
-				message: "Admin access required",
-				errors: [{ code: "FORBIDDEN", detail: "Only admins can deactivate risk profiles" }],
+				message: t("errors.invalidShareLink"),
+				errors: [{ code: "INVALID_SHARE", detail: "Share link is invalid or was revoked" }],
 			}
 		}
+
+		if (row.createdByUserId !== userId) {
+			await db
+				.insert(riskProfileShares)
+				.values({ profileId: row.id, userId })
+				.onConflictDoNothing()
+		}
+
+		invalidateSettingsData()
+
+		return {
+			status: "success",
+			message: "Shared risk profile added",
+			data: parseProfileRow(row, userId),
+		}
+	} catch (error) {
 		return {
 			status: "error",
-			message: "Failed to deactivate risk profile",
-			errors: [{ code: "DEACTIVATE_ERROR", detail: toSafeErrorMessage(error, "deactivateRiskProfile") }],
+			message: "Failed to open shared risk profile",
+			errors: [{ code: "SHARE_ERROR", detail: toSafeErrorMessage(error, "acceptRiskProfileShare") }],
+		}
+	}
+}
+
+/**
+ * Remove a profile from the user's "Shared with me" list. The owner's profile is untouched.
+ */
+const removeSharedRiskProfile = async (id: string): Promise<ActionResponse<null>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		await db
+			.delete(riskProfileShares)
+			.where(and(eq(riskProfileShares.profileId, id), eq(riskProfileShares.userId, userId)))
+
+		invalidateSettingsData()
+
+		return {
+			status: "success",
+			message: "Shared risk profile removed",
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to remove shared risk profile",
+			errors: [{ code: "SHARE_ERROR", detail: toSafeErrorMessage(error, "removeSharedRiskProfile") }],
+		}
+	}
+}
+
+// ==========================================
+// VERSION ACTIONS
+// ==========================================
+
+/**
+ * Lists every version of a profile the user can see, newest first.
+ */
+const listRiskProfileVersions = async (
+	profileId: string
+): Promise<ActionResponse<RiskProfileVersion[]>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const profile = await findVisibleProfileRow(profileId, userId)
+		if (!profile) {
+			return {
+				status: "success",
+				message: "Risk profile versions retrieved",
+				data: [],
+			}
+		}
+
+		const rows = await db.query.riskProfileVersions.findMany({
+			where: eq(riskProfileVersions.profileId, profileId),
+			orderBy: [desc(riskProfileVersions.version)],
+		})
+
+		return {
+			status: "success",
+			message: "Risk profile versions retrieved",
+			data: rows.map(parseRiskProfileVersionRow),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get risk profile versions",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listRiskProfileVersions") }],
+		}
+	}
+}
+
+/**
+ * Get a single risk profile version by ID, if the user can see its profile.
+ */
+const getRiskProfileVersion = async (versionId: string): Promise<ActionResponse<RiskProfileVersion>> => {
+	const t = await getTranslations("settings.riskProfiles")
+	try {
+		const { userId } = await requireAuth()
+
+		const row = await db.query.riskProfileVersions.findFirst({
+			where: eq(riskProfileVersions.id, versionId),
+		})
+
+		const profile = row ? await findVisibleProfileRow(row.profileId, userId) : null
+
+		if (!row || !profile) {
+			return {
+				status: "error",
+				message: t("errors.versionNotFound"),
+				errors: [{ code: "NOT_FOUND", detail: "Risk profile version not found" }],
+			}
+		}
+
+		return {
+			status: "success",
+			message: "Risk profile version retrieved",
+			data: parseRiskProfileVersionRow(row),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get risk profile version",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "getRiskProfileVersion") }],
 		}
 	}
 }
@@ -274,4 +665,11 @@ export {
 	createRiskProfile,
 	updateRiskProfile,
 	deactivateRiskProfile,
+	cloneRiskProfile,
+	shareRiskProfile,
+	stopSharingRiskProfile,
+	acceptRiskProfileShare,
+	removeSharedRiskProfile,
+	listRiskProfileVersions,
+	getRiskProfileVersion,
 }
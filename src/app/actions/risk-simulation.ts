@@ -14,8 +14,9 @@ import { requireAuth } from "@/app/actions/auth"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { getAssetBySymbol } from "@/app/actions/assets"
 import { getAssetFees, getBreakevenTicks } from "@/app/actions/accounts"
+import { getRiskProfileVersion } from "@/app/actions/risk-profiles"
 import { fromCents } from "@/lib/money"
-import { formatDateKey, BRT_OFFSET } from "@/lib/dates"
+import { BRT_OFFSET } from "@/lib/dates"
 import {
 	calculateAssetPnL,
 	calculateRMultiple,
@@ -25,9 +26,13 @@ import {
 	riskSimulationParamsSchema,
 	dateRangeSchema,
 } from "@/lib/validations/risk-simulation"
-import { runSimpleSimulation } from "@/lib/risk-simulation"
+import { buildSessionKey, runSimpleSimulation } from "@/lib/risk-simulation"
 import { runAdvancedSimulation } from "@/lib/risk-simulation-advanced"
+import { getTradingCalendar } from "@/lib/market/calendar-service"
 import { toSafeErrorMessage } from "@/lib/error-utils"
+import { buildEquityFan } from "@/lib/equity-fan"
+import { findSimulationRun, recordSimulationRun, toSimulationRun } from "@/lib/simulation-runs"
+import type { ReopenedSimulationRun } from "@/types/simulation-run"
 import { getTranslations } from "next-intl/server"
 
 // ==========================================
@@ -61,7 +66,7 @@ const getSimulationPreview = async (
 		})
 
 		// Decrypt to read stopLoss values
-		const dek = await getUserDek(userId)
+		const [dek, calendar] = await Promise.all([getUserDek(userId), getTradingCalendar("B3")])
 		const decryptedTrades = dek
 			? rawTrades.map((t) => decryptTradeFields(t, dek))
 			: rawTrades
@@ -71,7 +76,7 @@ const getSimulationPreview = async (
 		)
 
 		const assets = [...new Set(decryptedTrades.map((t) => t.asset))]
-		const dayKeys = new Set(decryptedTrades.map((t) => formatDateKey(t.entryDate)))
+		const dayKeys = new Set(decryptedTrades.map((t) => buildSessionKey(t.entryDate, calendar)))
 
 		return {
 			status: "success",
@@ -99,17 +104,45 @@ const getSimulationPreview = async (
 
 /**
  * Fetches trades from DB, decrypts, enriches with asset config, and runs simulation.
+ * Shared by new runs and re-opened ones; only new runs are recorded.
+ *
+ * @param profileVersionId - Optional risk profile version to replay. Its decision tree
+ * and limits replace the ones in `params` (only the account balance is kept), so the
+ * result reflects the rules exactly as they were in that version.
  */
-const runRiskSimulationFromDb = async (
+const simulateFromDb = async (
 	dateFrom: string,
 	dateTo: string,
-	params: RiskSimulationParams
+	params: RiskSimulationParams,
+	profileVersionId?: string | null
 ): Promise<ActionResponse<RiskSimulationResult>> => {
 	const t = await getTranslations("riskSimulation")
 	try {
 		const { accountId, userId } = await requireAuth()
 		const validatedDates = dateRangeSchema.parse({ dateFrom, dateTo })
-		const validatedParams = riskSimulationParamsSchema.parse(params)
+		let validatedParams = riskSimulationParamsSchema.parse(params)
+
+		if (profileVersionId) {
+			const versionResult = await getRiskProfileVersion(profileVersionId)
+			if (versionResult.status !== "success" || !versionResult.data) {
+				return {
+					status: "error",
+					message: versionResult.message,
+					errors: versionResult.errors,
+				}
+			}
+
+			const version = versionResult.data
+			validatedParams = riskSimulationParamsSchema.parse({
+				mode: "advanced",
+				accountBalanceCents: validatedParams.accountBalanceCents,
+				decisionTree: version.decisionTree,
+				dailyLossCents: version.dailyLossCents,
+				dailyProfitTargetCents: version.dailyProfitTargetCents,
+				weeklyLossCents: version.weeklyLossCents,
+				monthlyLossCents: version.monthlyLossCents,
+			})
+		}
 
 		const startDate = new Date(`${validatedDates.dateFrom}T00:00:00${BRT_OFFSET}`)
 		const endDate = new Date(`${validatedDates.dateTo}T23:59:59.999${BRT_OFFSET}`)
@@ -126,8 +159,8 @@ const runRiskSimulationFromDb = async (
 			orderBy: [asc(trades.entryDate)],
 		})
 
-		// Decrypt
-		const dek = await getUserDek(userId)
+		// Decrypt; the B3 calendar groups trades into trading sessions
+		const [dek, calendar] = await Promise.all([getUserDek(userId), getTradingCalendar("B3")])
 		const decryptedTrades = dek
 			? rawTrades.map((t) => decryptTradeFields(t, dek))
 			: rawTrades
@@ -262,8 +295,8 @@ const runRiskSimulationFromDb = async (
 
 		// Run the appropriate engine
 		const result = validatedParams.mode === "simple"
-			? runSimpleSimulation(tradesForSim, validatedParams)
-			: runAdvancedSimulation(tradesForSim, validatedParams)
+			? runSimpleSimulation(tradesForSim, validatedParams, calendar)
+			: runAdvancedSimulation(tradesForSim, validatedParams, calendar)
 
 		return {
 			status: "success",
@@ -279,6 +312,96 @@ const runRiskSimulationFromDb = async (
 	}
 }
 
+/**
+ * Runs the simulation over the account's closed trades and saves it to the
+ * run history. See `simulateFromDb` for the parameters.
+ */
+const runRiskSimulationFromDb = async (
+	dateFrom: string,
+	dateTo: string,
+	params: RiskSimulationParams,
+	profileVersionId?: string | null
+): Promise<ActionResponse<RiskSimulationResult>> => {
+	const response = await simulateFromDb(dateFrom, dateTo, params, profileVersionId)
+	if (response.status !== "success" || !response.data) return response
+
+	const result = response.data
+	const { userId, accountId } = await requireAuth()
+	const t = await getTranslations("simulationRuns.defaultNames")
+
+	await recordSimulationRun({
+		userId,
+		accountId,
+		name: t("riskSimulation", { from: dateFrom, to: dateTo }),
+		seed: null,
+		inputs: {
+			kind: "risk_simulation",
+			dateFrom,
+			dateTo,
+			params,
+			profileVersionId: profileVersionId ?? null,
+		},
+		sourceStats: null,
+		statistics: { kind: "risk_simulation", values: result.summary },
+		distribution: [],
+		// A replay has a single path, so every band of its "fan" is the equity curve
+		equityFan: buildEquityFan(1, result.equityCurve.length + 1, (_, step) =>
+			step === 0
+				? result.params.accountBalanceCents
+				: result.equityCurve[step - 1].simulatedEquityCents
+		),
+	})
+
+	return response
+}
+
+// ==========================================
+// RE-OPEN A SAVED RUN
+// ==========================================
+
+/**
+ * Re-runs a saved risk simulation from its stored dates and rules. Replays
+ * are deterministic, but trades edited since the run change the result.
+ */
+const reopenRiskSimulationRun = async (
+	runId: string
+): Promise<ActionResponse<Extract<ReopenedSimulationRun, { kind: "risk_simulation" }>>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const row = await findSimulationRun(userId, accountId, runId)
+		if (!row || row.kind !== "risk_simulation") {
+			return {
+				status: "error",
+				message: "Simulation run not found",
+				errors: [{ code: "NOT_FOUND", detail: "Simulation run does not exist" }],
+			}
+		}
+
+		const run = toSimulationRun(row)
+		if (run.inputs.kind !== "risk_simulation") {
+			throw new Error("Stored inputs do not match the run kind")
+		}
+
+		const { dateFrom, dateTo, params, profileVersionId } = run.inputs
+		const response = await simulateFromDb(dateFrom, dateTo, params, profileVersionId)
+		if (response.status !== "success" || !response.data) {
+			return { status: "error", message: response.message, errors: response.errors }
+		}
+
+		return {
+			status: "success",
+			message: "Simulation run re-opened",
+			data: { kind: "risk_simulation", run, result: response.data },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to re-open simulation run",
+			errors: [{ code: "REOPEN_FAILED", detail: toSafeErrorMessage(error, "reopenRiskSimulationRun") }],
+		}
+	}
+}
+
 // ==========================================
 // TRADE YEARS (for quick date filters)
 // ==========================================
@@ -318,4 +441,4 @@ const getTradeYears = async (): Promise<ActionResponse<number[]>> => {
 	}
 }
 
-export { getSimulationPreview, runRiskSimulationFromDb, getTradeYears }
+export { getSimulationPreview, runRiskSimulationFromDb, reopenRiskSimulationRun, getTradeYears }
@@ -6,6 +6,7 @@ import { eq } from "drizzle-orm"
 import { requireAuth } from "@/app/actions/auth"
 import { requireRole } from "@/lib/auth-utils"
 import { RISK_PROFILE_TEMPLATES } from "@/lib/risk-profile-templates"
+import { snapshotRiskProfileVersion } from "@/lib/risk-profile-versions"
 
 // ==========================================
 // BUILT-IN PROFILE NAME MAP
@@ -69,7 +70,7 @@ const seedBuiltInRiskProfiles = async (): Promise<string[]> => {
 		const displayName = TEMPLATE_DISPLAY_NAMES[template.id] ?? template.id
 		if (existingNames.has(displayName)) continue
 
-		await db.insert(riskManagementProfiles).values({
+		const [profile] = await db.insert(riskManagementProfiles).values({
 			name: displayName,
 			description: TEMPLATE_DESCRIPTIONS[template.id] ?? null,
 			createdByUserId: userId,
@@ -80,7 +81,9 @@ const seedBuiltInRiskProfiles = async (): Promise<string[]> => {
 			monthlyLossCents: template.defaults.monthlyLossCents,
 			dailyProfitTargetCents: template.defaults.dailyProfitTargetCents ?? null,
 			decisionTree: JSON.stringify(template.defaults.decisionTree),
-		})
+		}).returning()
+
+		await snapshotRiskProfileVersion(profile, userId)
 
 		createdNames.push(displayName)
 	}
@@ -0,0 +1,249 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { simulationRuns } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type {
+	SimulationRun,
+	SimulationRunDetail,
+	SimulationRunKind,
+} from "@/types/simulation-run"
+import { and, desc, eq, inArray } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+import {
+	SIMULATION_HISTORY_LIMIT,
+	SIMULATION_RUN_CHART_COLUMNS,
+	toSimulationRun,
+	toSimulationRunDetail,
+} from "@/lib/simulation-runs"
+import {
+	SIMULATION_RUN_KINDS,
+	compareSimulationRunsSchema,
+	renameSimulationRunSchema,
+} from "@/lib/validations/simulation-run"
+
+// Runs are recorded by the simulators' own run actions (monte-carlo.ts,
+// risk-simulation.ts), which also re-open them; this file manages the history.
+
+const toValidationErrorResponse = (
+	error: z.ZodError
+): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: error.issues.map((e) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${e.path.join(".")}: ${e.message}`,
+	})),
+})
+
+/**
+ * Returns the current account's saved runs of the given kinds, newest first.
+ */
+const listSimulationRuns = async (
+	kinds: SimulationRunKind[]
+): Promise<ActionResponse<SimulationRun[]>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const validatedKinds = z
+			.array(z.enum(SIMULATION_RUN_KINDS))
+			.min(1)
+			.parse(kinds)
+
+		const rows = await db.query.simulationRuns.findMany({
+			where: and(
+				eq(simulationRuns.userId, userId),
+				eq(simulationRuns.accountId, accountId),
+				inArray(simulationRuns.kind, validatedKinds)
+			),
+			columns: SIMULATION_RUN_CHART_COLUMNS,
+			orderBy: [desc(simulationRuns.createdAt)],
+			limit: SIMULATION_HISTORY_LIMIT * validatedKinds.length,
+		})
+
+		return {
+			status: "success",
+			message: "Simulation runs retrieved",
+			data: rows.map(toSimulationRun),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to get simulation runs",
+			errors: [
+				{
+					code: "FETCH_ERROR",
+					detail: toSafeErrorMessage(error, "listSimulationRuns"),
+				},
+			],
+		}
+	}
+}
+
+const renameSimulationRun = async (
+	runId: string,
+	name: string
+): Promise<ActionResponse<SimulationRun>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const validated = renameSimulationRunSchema.parse({ runId, name })
+
+		const [row] = await db
+			.update(simulationRuns)
+			.set({ name: validated.name, updatedAt: new Date() })
+			.where(
+				and(
+					eq(simulationRuns.id, validated.runId),
+					eq(simulationRuns.userId, userId),
+					eq(simulationRuns.accountId, accountId)
+				)
+			)
+			.returning()
+
+		if (!row) {
+			return {
+				status: "error",
+				message: "Simulation run not found",
+				errors: [
+					{ code: "NOT_FOUND", detail: "Simulation run does not exist" },
+				],
+			}
+		}
+
+		return {
+			status: "success",
+			message: "Simulation run renamed",
+			data: toSimulationRun(row),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to rename simulation run",
+			errors: [
+				{
+					code: "UPDATE_ERROR",
+					detail: toSafeErrorMessage(error, "renameSimulationRun"),
+				},
+			],
+		}
+	}
+}
+
+const deleteSimulationRun = async (
+	runId: string
+): Promise<ActionResponse<void>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const validatedId = z.string().uuid().parse(runId)
+
+		const deleted = await db
+			.delete(simulationRuns)
+			.where(
+				and(
+					eq(simulationRuns.id, validatedId),
+					eq(simulationRuns.userId, userId),
+					eq(simulationRuns.accountId, accountId)
+				)
+			)
+			.returning({ id: simulationRuns.id })
+
+		if (deleted.length === 0) {
+			return {
+				status: "error",
+				message: "Simulation run not found",
+				errors: [
+					{ code: "NOT_FOUND", detail: "Simulation run does not exist" },
+				],
+			}
+		}
+
+		return { status: "success", message: "Simulation run deleted" }
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to delete simulation run",
+			errors: [
+				{
+					code: "DELETE_ERROR",
+					detail: toSafeErrorMessage(error, "deleteSimulationRun"),
+				},
+			],
+		}
+	}
+}
+
+/**
+ * Two saved runs of the same kind with their distributions and equity fans,
+ * in the order requested.
+ */
+const getSimulationRunsForCompare = async (
+	runIds: [string, string]
+): Promise<ActionResponse<[SimulationRunDetail, SimulationRunDetail]>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+		const validatedIds = compareSimulationRunsSchema.parse(runIds)
+
+		const rows = await db.query.simulationRuns.findMany({
+			where: and(
+				inArray(simulationRuns.id, validatedIds),
+				eq(simulationRuns.userId, userId),
+				eq(simulationRuns.accountId, accountId)
+			),
+		})
+
+		const first = rows.find((row) => row.id === validatedIds[0])
+		const second = rows.find((row) => row.id === validatedIds[1])
+		if (!first || !second) {
+			return {
+				status: "error",
+				message: "Simulation run not found",
+				errors: [
+					{ code: "NOT_FOUND", detail: "Simulation run does not exist" },
+				],
+			}
+		}
+
+		if (first.kind !== second.kind) {
+			return {
+				status: "error",
+				message: "Only runs of the same simulator can be compared",
+				errors: [
+					{ code: "KIND_MISMATCH", detail: "Runs are of different kinds" },
+				],
+			}
+		}
+
+		return {
+			status: "success",
+			message: "Simulation runs retrieved",
+			data: [toSimulationRunDetail(first), toSimulationRunDetail(second)],
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return toValidationErrorResponse(error)
+
+		return {
+			status: "error",
+			message: "Failed to get simulation runs",
+			errors: [
+				{
+					code: "FETCH_ERROR",
+					detail: toSafeErrorMessage(error, "getSimulationRunsForCompare"),
+				},
+			],
+		}
+	}
+}
+
+export {
+	listSimulationRuns,
+	renameSimulationRun,
+	deleteSimulationRun,
+	getSimulationRunsForCompare,
+}
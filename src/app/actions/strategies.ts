@@ -20,6 +20,7 @@ import {
 } from "@/lib/validations/strategy"
 import { calculateWinRate, calculateProfitFactor } from "@/lib/calculations"
 import { fromCents } from "@/lib/money"
+import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { requireAuth } from "@/app/actions/auth"
 import { toSafeErrorMessage } from "@/lib/error-utils"
 
@@ -445,6 +446,8 @@ export const getStrategies = async (
 			}
 		}
 
+		const dek = await getUserDek(authContext.userId)
+
 		// Calculate stats for each strategy
 		const strategiesWithStats: StrategyWithStats[] = await Promise.all(
 			allStrategies.map(async (strategy) => {
@@ -469,7 +472,9 @@ export const getStrategies = async (
 
 				return {
 					...strategy,
-					...calculateStrategyStats(strategyTrades),
+					...calculateStrategyStats(
+						dek ? strategyTrades.map((trade) => decryptTradeFields(trade, dek)) : strategyTrades
+					),
 					conditionCount: conditionCountResult[0]?.count ?? 0,
 					scenarioCount: scenarioCountResult[0]?.count ?? 0,
 				}
@@ -524,7 +529,7 @@ export const getStrategy = async (
 		}
 
 		// Get trades, condition count, and scenario count for this strategy
-		const [strategyTrades, conditionCountResult, scenarioCountResult] =
+		const [strategyTrades, conditionCountResult, scenarioCountResult, dek] =
 			await Promise.all([
 				db.query.trades.findMany({
 					where: and(
@@ -541,6 +546,7 @@ export const getStrategy = async (
 					.select({ count: sql<number>`count(*)::int` })
 					.from(strategyScenarios)
 					.where(eq(strategyScenarios.strategyId, strategy.id)),
+				getUserDek(authContext.userId),
 			])
 
 		return {
@@ -548,7 +554,9 @@ export const getStrategy = async (
 			message: "Strategy retrieved successfully",
 			data: {
 				...strategy,
-				...calculateStrategyStats(strategyTrades),
+				...calculateStrategyStats(
+					dek ? strategyTrades.map((trade) => decryptTradeFields(trade, dek)) : strategyTrades
+				),
 				conditionCount: conditionCountResult[0]?.count ?? 0,
 				scenarioCount: scenarioCountResult[0]?.count ?? 0,
 			},
@@ -0,0 +1,410 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { trades, notaImports, taxLedgerEntries, tradingAccounts } from "@/db/schema"
+import type { TaxLedgerEntryRow } from "@/db/schema"
+import { eq, and, isNotNull, notInArray, sql } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { getAssetsBySymbols } from "@/app/actions/assets"
+import { getUserSettings } from "@/app/actions/settings"
+import {
+	getUserDek,
+	decryptTradeFields,
+	decryptAccountFields,
+	encryptTaxLedgerFields,
+	decryptTaxLedgerFields,
+} from "@/lib/user-crypto"
+import { invalidateTaxData } from "@/lib/cache/invalidate"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+import { toCents } from "@/lib/money"
+import { BRT_OFFSET, formatDateKey } from "@/lib/dates"
+import { getTradingCalendar } from "@/lib/market/calendar-service"
+import {
+	aggregateMonthlyTaxInputs,
+	calculateTaxLedger,
+	isB3StockSymbol,
+	toMonthKey,
+	type TaxableTrade,
+} from "@/lib/tax-calculator"
+import {
+	taxLedgerYearSchema,
+	darfPaymentSchema,
+	type DarfPaymentInput,
+} from "@/lib/validations/tax"
+import type { ActionResponse } from "@/types"
+import type { TaxLedgerEntry, TaxLedgerYear } from "@/types/tax"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Asset type code used for cash-market equities (eligible for the swing exemption) */
+const STOCK_ASSET_TYPE_CODE = "STOCK"
+
+/** Columns a recalculation overwrites; the DARF payment mark is kept */
+const LEDGER_RESULT_COLUMNS = [
+	"dayTradeResultCents",
+	"swingResultCents",
+	"swingStockSalesCents",
+	"swingExempt",
+	"dayTradeLossCarryInCents",
+	"swingLossCarryInCents",
+	"dayTradeLossCarryOutCents",
+	"swingLossCarryOutCents",
+	"dayTradeTaxableCents",
+	"swingTaxableCents",
+	"dayTradeTaxCents",
+	"swingTaxCents",
+	"dayTradeTaxRate",
+	"swingTradeTaxRate",
+	"irrfCents",
+	"irrfCreditUsedCents",
+	"irrfCreditCarryOutCents",
+	"darfCarryInCents",
+	"darfDueCents",
+	"darfCarryOutCents",
+	"darfDueDate",
+] as const satisfies (keyof TaxLedgerEntryRow)[]
+
+/** Amounts and rates of a month, stored as text and encrypted when the user has a DEK */
+const LEDGER_AMOUNT_COLUMNS = [
+	"dayTradeResultCents",
+	"swingResultCents",
+	"swingStockSalesCents",
+	"dayTradeLossCarryInCents",
+	"swingLossCarryInCents",
+	"dayTradeLossCarryOutCents",
+	"swingLossCarryOutCents",
+	"dayTradeTaxableCents",
+	"swingTaxableCents",
+	"dayTradeTaxCents",
+	"swingTaxCents",
+	"dayTradeTaxRate",
+	"swingTradeTaxRate",
+	"irrfCents",
+	"irrfCreditUsedCents",
+	"irrfCreditCarryOutCents",
+	"darfCarryInCents",
+	"darfDueCents",
+	"darfCarryOutCents",
+] as const satisfies (keyof TaxLedgerEntry & keyof TaxLedgerEntryRow)[]
+
+type LedgerAmounts = Record<(typeof LEDGER_AMOUNT_COLUMNS)[number], string>
+
+const toStoredLedgerAmounts = (entry: TaxLedgerEntry, dek: string | null): LedgerAmounts => {
+	const amounts = Object.fromEntries(
+		LEDGER_AMOUNT_COLUMNS.map((key) => [key, String(entry[key])])
+	) as LedgerAmounts
+	return dek ? (encryptTaxLedgerFields(amounts, dek) as LedgerAmounts) : amounts
+}
+
+const toLedgerEntry = (storedRow: TaxLedgerEntryRow, dek: string | null): TaxLedgerEntry => {
+	const row = dek ? decryptTaxLedgerFields(storedRow, dek) : storedRow
+	return {
+		year: row.year,
+		month: row.month,
+		dayTradeResultCents: Number(row.dayTradeResultCents),
+		swingResultCents: Number(row.swingResultCents),
+		swingStockSalesCents: Number(row.swingStockSalesCents),
+		swingExempt: row.swingExempt,
+		dayTradeLossCarryInCents: Number(row.dayTradeLossCarryInCents),
+		swingLossCarryInCents: Number(row.swingLossCarryInCents),
+		dayTradeLossCarryOutCents: Number(row.dayTradeLossCarryOutCents),
+		swingLossCarryOutCents: Number(row.swingLossCarryOutCents),
+		dayTradeTaxableCents: Number(row.dayTradeTaxableCents),
+		swingTaxableCents: Number(row.swingTaxableCents),
+		dayTradeTaxCents: Number(row.dayTradeTaxCents),
+		swingTaxCents: Number(row.swingTaxCents),
+		dayTradeTaxRate: Number(row.dayTradeTaxRate),
+		swingTradeTaxRate: Number(row.swingTradeTaxRate),
+		irrfCents: Number(row.irrfCents),
+		irrfCreditUsedCents: Number(row.irrfCreditUsedCents),
+		irrfCreditCarryOutCents: Number(row.irrfCreditCarryOutCents),
+		darfCarryInCents: Number(row.darfCarryInCents),
+		darfDueCents: Number(row.darfDueCents),
+		darfCarryOutCents: Number(row.darfCarryOutCents),
+		darfDueDate: formatDateKey(row.darfDueDate),
+		darfPaidAt: row.darfPaidAt ? row.darfPaidAt.toISOString() : null,
+	}
+}
+
+/**
+ * Resolve which traded symbols are stocks.
+ * Registered assets use their asset type; unregistered symbols fall back to the B3 ticker pattern.
+ */
+const resolveStockSymbols = async (symbols: string[]): Promise<Set<string>> => {
+	const assetsBySymbol = await getAssetsBySymbols(symbols)
+	return new Set(
+		symbols.filter((symbol) => {
+			const asset = assetsBySymbol.get(symbol)
+			return asset ? asset.assetType.code === STOCK_ASSET_TYPE_CODE : isB3StockSymbol(symbol)
+		})
+	)
+}
+
+// ==========================================
+// TAX LEDGER ACTIONS
+// ==========================================
+
+/**
+ * Recompute the whole tax ledger for the active account.
+ * Runs the monthly apuração over every closed trade so loss carry-forward and
+ * IRRF credit stay consistent after edits, deletes or late imports.
+ * DARF payment marks are preserved across recalculations.
+ */
+export const recalculateTaxLedger = async (): Promise<ActionResponse<{ monthsComputed: number }>> => {
+	try {
+		const { userId, accountId } = await requireAuth()
+
+		const rawAccount = await db.query.tradingAccounts.findFirst({
+			where: eq(tradingAccounts.id, accountId),
+		})
+		if (!rawAccount) {
+			return {
+				status: "error",
+				message: "Account not found",
+				errors: [{ code: "NOT_FOUND", detail: "Active account not found" }],
+			}
+		}
+
+		const dek = await getUserDek(userId)
+		const account = dek ? decryptAccountFields(rawAccount, dek) : rawAccount
+
+		const rawTrades = await db.query.trades.findMany({
+			where: and(
+				eq(trades.accountId, accountId),
+				eq(trades.isArchived, false),
+				isNotNull(trades.exitDate)
+			),
+		})
+		const closedTrades = dek ? rawTrades.map((trade) => decryptTradeFields(trade, dek)) : rawTrades
+
+		const stockSymbols = await resolveStockSymbols([...new Set(closedTrades.map((trade) => trade.asset))])
+
+		const taxableTrades: TaxableTrade[] = closedTrades.map((trade) => {
+			const quantity = Number(trade.positionSize)
+			// The selling side is the exit for longs and the entry for shorts
+			const salePrice = trade.direction === "long" ? Number(trade.exitPrice) : Number(trade.entryPrice)
+			return {
+				entryDate: trade.entryDate,
+				exitDate: trade.exitDate!,
+				pnlCents: Math.round(Number(trade.pnl ?? 0)),
+				isStock: stockSymbols.has(trade.asset),
+				saleValueCents: toCents(salePrice * quantity),
+			}
+		})
+
+		const notas = await db.query.notaImports.findMany({
+			where: eq(notaImports.accountId, accountId),
+		})
+		const irrfByMonth = new Map<string, number>()
+		for (const nota of notas) {
+			if (nota.irrfCents <= 0) continue
+			const [year, month] = formatDateKey(nota.notaDate).split("-").map(Number)
+			const key = toMonthKey(year, month)
+			irrfByMonth.set(key, (irrfByMonth.get(key) ?? 0) + nota.irrfCents)
+		}
+
+		const settingsResult = await getUserSettings()
+		const taxExemptThresholdCents =
+			settingsResult.status === "success" && settingsResult.data
+				? settingsResult.data.taxExemptThreshold
+				: 0
+
+		const ledger = calculateTaxLedger({
+			months: aggregateMonthlyTaxInputs(taxableTrades, irrfByMonth),
+			dayTradeTaxRate: Number(account.dayTradeTaxRate),
+			swingTradeTaxRate: Number(account.swingTradeTaxRate),
+			taxExemptThresholdCents,
+			calendar: await getTradingCalendar("B3"),
+		})
+
+		// Upsert month by month, then drop months that no longer have trades.
+		// Without transactions, a failure midway leaves the previous ledger
+		// (partly updated) instead of none; payment marks are never touched.
+		if (ledger.length > 0) {
+			await db
+				.insert(taxLedgerEntries)
+				.values(
+					ledger.map((entry) => ({
+						...entry,
+						...toStoredLedgerAmounts(entry, dek),
+						accountId,
+						darfDueDate: new Date(`${entry.darfDueDate}T00:00:00${BRT_OFFSET}`),
+						// Only new months start unpaid; existing marks aren't in the update
+						darfPaidAt: null,
+					}))
+				)
+				.onConflictDoUpdate({
+					target: [taxLedgerEntries.accountId, taxLedgerEntries.year, taxLedgerEntries.month],
+					set: {
+						...Object.fromEntries(
+							LEDGER_RESULT_COLUMNS.map((key) => [
+								key,
+								sql`excluded.${sql.identifier(taxLedgerEntries[key].name)}`,
+							])
+						),
+						updatedAt: new Date(),
+					},
+				})
+		}
+
+		const monthKeys = ledger.map((entry) => entry.year * 100 + entry.month)
+		await db
+			.delete(taxLedgerEntries)
+			.where(
+				and(
+					eq(taxLedgerEntries.accountId, accountId),
+					monthKeys.length > 0
+						? notInArray(sql`${taxLedgerEntries.year} * 100 + ${taxLedgerEntries.month}`, monthKeys)
+						: undefined
+				)
+			)
+
+		invalidateTaxData()
+
+		return {
+			status: "success",
+			message: "Tax ledger recalculated successfully",
+			data: { monthsComputed: ledger.length },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to recalculate tax ledger",
+			errors: [{ code: "RECALCULATE_FAILED", detail: toSafeErrorMessage(error, "recalculateTaxLedger") }],
+		}
+	}
+}
+
+/**
+ * Get the persisted tax ledger for one calendar year of the active account.
+ * Carry balances come from the last computed month up to the end of that year.
+ */
+export const getTaxLedger = async (year: number): Promise<ActionResponse<TaxLedgerYear>> => {
+	try {
+		const validated = taxLedgerYearSchema.parse({ year })
+		const { userId, accountId } = await requireAuth()
+
+		const account = await db.query.tradingAccounts.findFirst({
+			where: eq(tradingAccounts.id, accountId),
+			columns: { accountType: true },
+		})
+
+		const rows = await db.query.taxLedgerEntries.findMany({
+			where: eq(taxLedgerEntries.accountId, accountId),
+		})
+		const dek = await getUserDek(userId)
+		const sortedEntries = rows
+			.map((row) => toLedgerEntry(row, dek))
+			.toSorted((a, b) => (a.year !== b.year ? a.year - b.year : a.month - b.month))
+
+		const entries = sortedEntries.filter((entry) => entry.year === validated.year)
+		const lastEntryUpToYear = sortedEntries.filter((entry) => entry.year <= validated.year).at(-1)
+
+		const lastComputedAt = rows.reduce<Date | null>(
+			(latest, row) => (!latest || row.updatedAt > latest ? row.updatedAt : latest),
+			null
+		)
+
+		return {
+			status: "success",
+			message: "Tax ledger retrieved successfully",
+			data: {
+				year: validated.year,
+				accountType: account?.accountType ?? "personal",
+				entries,
+				totals: {
+					darfDueCents: entries.reduce((sum, entry) => sum + entry.darfDueCents, 0),
+					darfPaidCents: entries
+						.filter((entry) => entry.darfPaidAt)
+						.reduce((sum, entry) => sum + entry.darfDueCents, 0),
+					irrfCents: entries.reduce((sum, entry) => sum + entry.irrfCents, 0),
+				},
+				carryForward: {
+					dayTradeLossCents: lastEntryUpToYear?.dayTradeLossCarryOutCents ?? 0,
+					swingLossCents: lastEntryUpToYear?.swingLossCarryOutCents ?? 0,
+					irrfCreditCents: lastEntryUpToYear?.irrfCreditCarryOutCents ?? 0,
+					darfCents: lastEntryUpToYear?.darfCarryOutCents ?? 0,
+				},
+				lastComputedAt: lastComputedAt ? lastComputedAt.toISOString() : null,
+			},
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((issue) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${issue.path.join(".")}: ${issue.message}`,
+				})),
+			}
+		}
+
+		return {
+			status: "error",
+			message: "Failed to retrieve tax ledger",
+			errors: [{ code: "FETCH_FAILED", detail: toSafeErrorMessage(error, "getTaxLedger") }],
+		}
+	}
+}
+
+/**
+ * Mark a month's DARF as paid, or clear the payment mark.
+ */
+export const setDarfPaid = async (input: DarfPaymentInput): Promise<ActionResponse<TaxLedgerEntry>> => {
+	try {
+		const validated = darfPaymentSchema.parse(input)
+		const { userId, accountId } = await requireAuth()
+
+		const [updated] = await db
+			.update(taxLedgerEntries)
+			.set({
+				darfPaidAt: validated.paid ? new Date() : null,
+				updatedAt: new Date(),
+			})
+			.where(
+				and(
+					eq(taxLedgerEntries.accountId, accountId),
+					eq(taxLedgerEntries.year, validated.year),
+					eq(taxLedgerEntries.month, validated.month)
+				)
+			)
+			.returning()
+
+		if (!updated) {
+			return {
+				status: "error",
+				message: "Tax ledger entry not found",
+				errors: [{ code: "NOT_FOUND", detail: `No ledger entry for ${toMonthKey(validated.year, validated.month)}` }],
+			}
+		}
+
+		invalidateTaxData()
+
+		return {
+			status: "success",
+			message: validated.paid ? "DARF marked as paid" : "DARF payment cleared",
+			data: toLedgerEntry(updated, await getUserDek(userId)),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) {
+			return {
+				status: "error",
+				message: "Validation failed",
+				errors: error.issues.map((issue) => ({
+					code: "VALIDATION_ERROR",
+					detail: `${issue.path.join(".")}: ${issue.message}`,
+				})),
+			}
+		}
+
+		return {
+			status: "error",
+			message: "Failed to update DARF payment",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "setDarfPaid") }],
+		}
+	}
+}
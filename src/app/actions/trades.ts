@@ -10,8 +10,9 @@ import {
 	strategies,
 	timeframes,
 	tradeExecutions,
+	tradeAttachments,
 } from "@/db/schema"
-import type { Trade, TradeExecution } from "@/db/schema"
+import type { Trade, TradeAttachment, TradeExecution } from "@/db/schema"
 import type {
 	ActionResponse,
 	PaginatedResponse,
@@ -29,6 +30,15 @@ import {
 	type TradeFilters,
 	type PaginationParams,
 } from "@/lib/validations/trade"
+import {
+	tradeAttachmentsSchema,
+	type TradeAttachmentInput,
+} from "@/lib/validations/trade-attachment"
+import {
+	assertOwnAttachmentKeys,
+	getTradeAttachmentKeys,
+	replaceTradeAttachments,
+} from "@/lib/trade-attachments"
 import type { CsvTradeInput } from "@/lib/csv-parser"
 import { eq, and, gte, lte, inArray, desc, asc, count, sql } from "drizzle-orm"
 import {
@@ -54,6 +64,7 @@ import {
 	decryptTradeFields,
 } from "@/lib/user-crypto"
 import { computeTradeHash } from "@/lib/deduplication"
+import { emitTradeWebhookEvents } from "@/lib/webhook-dispatcher"
 
 // Type for trade with relations
 export interface TradeWithRelations extends Trade {
@@ -63,6 +74,7 @@ export interface TradeWithRelations extends Trade {
 		tag: typeof tags.$inferSelect
 	}>
 	executions?: TradeExecution[]
+	attachments?: TradeAttachment[]
 }
 
 /**
@@ -74,7 +86,8 @@ export const createTrade = async (
 	try {
 		const { accountId, userId } = await requireAuth()
 		const validated = createTradeSchema.parse(input)
-		const { tagIds, ...tradeData } = validated
+		const { tagIds, attachments, ...tradeData } = validated
+		assertOwnAttachmentKeys(attachments ?? [], userId)
 
 		// Calculate derived fields if we have exit data
 		let pnl = tradeData.pnl
@@ -206,8 +219,6 @@ export const createTrade = async (
 			lessonLearned: tradeData.lessonLearned,
 			disciplineNotes: tradeData.disciplineNotes,
 			setupRank: tradeData.setupRank || null,
-			screenshotUrl: tradeData.screenshotUrl || null,
-			screenshotS3Key: tradeData.screenshotS3Key || null,
 		}
 
 		// Encrypt sensitive fields if user has a DEK
@@ -255,9 +266,15 @@ export const createTrade = async (
 			)
 		}
 
+		if (attachments?.length) {
+			await replaceTradeAttachments(trade.id, userId, attachments)
+		}
+
 		// Revalidate journal pages
 		invalidateTradeData(undefined, userId, accountId)
 
+		await emitTradeWebhookEvents(userId, accountId, trade, dek, { created: true })
+
 		return {
 			status: "success",
 			message: "Trade created successfully",
@@ -295,7 +312,7 @@ export const updateTrade = async (
 	try {
 		const { accountId, userId } = await requireAuth()
 		const validated = updateTradeSchema.parse(input)
-		const { tagIds, ...tradeData } = validated
+		const { tagIds, attachments, ...tradeData } = validated
 
 		// Get existing trade to merge data (verify ownership)
 		let existing = await db.query.trades.findFirst({
@@ -310,6 +327,11 @@ export const updateTrade = async (
 			}
 		}
 
+		// Refuse foreign files before writing anything
+		if (attachments !== undefined) {
+			assertOwnAttachmentKeys(attachments, userId, await getTradeAttachmentKeys(id))
+		}
+
 		// Decrypt existing trade fields before merging
 		const dek = await getUserDek(userId)
 		if (dek) {
@@ -469,10 +491,6 @@ export const updateTrade = async (
 			updateData.disciplineNotes = tradeData.disciplineNotes
 		if (tradeData.setupRank !== undefined)
 			updateData.setupRank = tradeData.setupRank || null
-		if (tradeData.screenshotUrl !== undefined)
-			updateData.screenshotUrl = tradeData.screenshotUrl || null
-		if (tradeData.screenshotS3Key !== undefined)
-			updateData.screenshotS3Key = tradeData.screenshotS3Key || null
 
 		// Always include calculated fields when we have exit data
 		// Money fields (pnl, plannedRiskAmount) stored as cents in text columns
@@ -557,9 +575,19 @@ export const updateTrade = async (
 			}
 		}
 
+		// Replace attachments if provided (the form always sends the full list)
+		if (attachments !== undefined) {
+			await replaceTradeAttachments(id, userId, attachments)
+		}
+
 		// Revalidate journal pages
 		invalidateTradeData(id, userId, accountId)
 
+		await emitTradeWebhookEvents(userId, accountId, trade, dek, {
+			created: false,
+			wasClosed: Boolean(existing.exitPrice),
+		})
+
 		return {
 			status: "success",
 			message: "Trade updated successfully",
@@ -648,6 +676,9 @@ export const getTrade = async (
 					},
 				},
 				executions: true,
+				attachments: {
+					orderBy: [asc(tradeAttachments.sortOrder)],
+				},
 			},
 		})
 
@@ -889,7 +920,8 @@ export interface BulkCreateResult {
 }
 
 export const bulkCreateTrades = async (
-	inputs: CsvTradeInput[]
+	inputs: CsvTradeInput[],
+	importBatchId?: string
 ): Promise<ActionResponse<BulkCreateResult>> => {
 	const result: BulkCreateResult = {
 		successCount: 0,
@@ -1072,7 +1104,7 @@ export const bulkCreateTrades = async (
 					}
 
 					const validated = createTradeSchema.parse(tradeInput)
-					const { tagIds, ...tradeData } = validated
+					const { tagIds, attachments: _attachments, ...tradeData } = validated
 
 					// Look up strategy ID from code or name
 					const strategyId = strategyCode
@@ -1213,8 +1245,7 @@ export const bulkCreateTrades = async (
 						lessonLearned: tradeData.lessonLearned,
 						disciplineNotes: tradeData.disciplineNotes,
 						setupRank: tradeData.setupRank || null,
-						screenshotUrl: tradeData.screenshotUrl || null,
-						screenshotS3Key: tradeData.screenshotS3Key || null,
+						importBatchId: importBatchId ?? null,
 					}
 
 					// Encrypt sensitive fields if user has a DEK
@@ -1326,8 +1357,7 @@ export interface CreateScaledTradeInput {
 	followedPlan?: boolean
 	disciplineNotes?: string
 	setupRank?: "A" | "AA" | "AAA" | null
-	screenshotUrl?: string
-	screenshotS3Key?: string
+	attachments?: TradeAttachmentInput[]
 	tagIds?: string[]
 	executions: Array<{
 		executionType: "entry" | "exit"
@@ -1348,7 +1378,9 @@ export const createScaledTrade = async (
 ): Promise<ActionResponse<Trade>> => {
 	try {
 		const { accountId, userId } = await requireAuth()
-		const { executions, tagIds, ...tradeData } = input
+		const { executions, tagIds, attachments, ...tradeData } = input
+		const validatedAttachments = tradeAttachmentsSchema.parse(attachments ?? [])
+		assertOwnAttachmentKeys(validatedAttachments, userId)
 
 		if (!executions || executions.length === 0) {
 			return {
@@ -1524,8 +1556,6 @@ export const createScaledTrade = async (
 			lessonLearned: tradeData.lessonLearned,
 			disciplineNotes: tradeData.disciplineNotes,
 			setupRank: tradeData.setupRank || null,
-			screenshotUrl: tradeData.screenshotUrl || null,
-			screenshotS3Key: tradeData.screenshotS3Key || null,
 		}
 
 		// Encrypt sensitive fields if user has a DEK
@@ -1591,9 +1621,15 @@ export const createScaledTrade = async (
 			)
 		}
 
+		if (validatedAttachments.length > 0) {
+			await replaceTradeAttachments(trade.id, userId, validatedAttachments)
+		}
+
 		// Revalidate journal pages
 		invalidateTradeData(undefined, userId, accountId)
 
+		await emitTradeWebhookEvents(userId, accountId, trade, dek, { created: true })
+
 		return {
 			status: "success",
 			message: "Scaled trade created successfully",
@@ -0,0 +1,432 @@
+"use server"
+
+import { db } from "@/db/drizzle"
+import { webhooks, webhookDeliveries, tradingAccounts } from "@/db/schema"
+import type { WebhookRow, WebhookDeliveryRow } from "@/db/schema"
+import type { ActionResponse } from "@/types"
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from "@/types/webhook"
+import { and, desc, eq } from "drizzle-orm"
+import { z } from "zod"
+import { requireAuth } from "@/app/actions/auth"
+import { webhookSchema, type WebhookInput } from "@/lib/validations/webhook"
+import { parseWebhookEvents } from "@/lib/webhooks"
+import { generateWebhookSecret } from "@/lib/webhook-delivery"
+import { checkWebhookUrl } from "@/lib/webhook-url-guard"
+import { emitWebhookEvent, redeliverWebhookDelivery } from "@/lib/webhook-dispatcher"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/** Webhooks a single user may configure */
+const MAX_WEBHOOKS_PER_USER = 10
+
+/** Delivery log entries returned per webhook */
+const DELIVERY_LOG_LIMIT = 50
+
+const toWebhook = (row: WebhookRow, accountName: string | null): Webhook => ({
+	id: row.id,
+	name: row.name,
+	url: row.url,
+	secret: row.secret,
+	events: parseWebhookEvents(row.events),
+	accountId: row.accountId,
+	accountName,
+	isActive: row.isActive,
+	createdAt: row.createdAt,
+	updatedAt: row.updatedAt,
+})
+
+const toWebhookDelivery = (row: WebhookDeliveryRow): WebhookDelivery => ({
+	id: row.id,
+	webhookId: row.webhookId,
+	event: row.event as WebhookEvent,
+	status: row.status as WebhookDeliveryStatus,
+	attempts: row.attempts,
+	responseStatus: row.responseStatus,
+	responseBody: row.responseBody,
+	error: row.error,
+	nextAttemptAt: row.nextAttemptAt,
+	deliveredAt: row.deliveredAt,
+	createdAt: row.createdAt,
+})
+
+const validationError = (error: z.ZodError): ActionResponse<never> => ({
+	status: "error",
+	message: "Validation failed",
+	errors: error.issues.map((issue) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${issue.path.join(".")}: ${issue.message}`,
+	})),
+})
+
+const blockedUrl = (reason: string): ActionResponse<never> => ({
+	status: "error",
+	message: "Webhook URLs can't point to private or internal addresses",
+	errors: [{ code: "VALIDATION_ERROR", detail: `url: ${reason}` }],
+})
+
+const notFound = (): ActionResponse<never> => ({
+	status: "error",
+	message: "Webhook not found",
+	errors: [{ code: "NOT_FOUND", detail: "Webhook does not exist or does not belong to this user" }],
+})
+
+/** Resolves the account name, or undefined when the account isn't the user's */
+const getOwnedAccountName = async (
+	userId: string,
+	accountId: string | null | undefined
+): Promise<string | null | undefined> => {
+	if (!accountId) return null
+	const account = await db.query.tradingAccounts.findFirst({
+		where: and(eq(tradingAccounts.id, accountId), eq(tradingAccounts.userId, userId)),
+		columns: { name: true },
+	})
+	return account?.name
+}
+
+const findOwnedWebhook = (userId: string, id: string) =>
+	db.query.webhooks.findFirst({
+		where: and(eq(webhooks.id, id), eq(webhooks.userId, userId)),
+	})
+
+// ==========================================
+// WEBHOOK ACTIONS
+// ==========================================
+
+/**
+ * Returns the user's webhooks, newest first.
+ */
+const listWebhooks = async (): Promise<ActionResponse<Webhook[]>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const rows = await db
+			.select({ webhook: webhooks, accountName: tradingAccounts.name })
+			.from(webhooks)
+			.leftJoin(tradingAccounts, eq(tradingAccounts.id, webhooks.accountId))
+			.where(eq(webhooks.userId, userId))
+			.orderBy(desc(webhooks.createdAt))
+
+		return {
+			status: "success",
+			message: "Webhooks retrieved",
+			data: rows.map((row) => toWebhook(row.webhook, row.accountName)),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get webhooks",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listWebhooks") }],
+		}
+	}
+}
+
+/**
+ * Create a webhook with a freshly generated signing secret.
+ */
+const createWebhook = async (input: WebhookInput): Promise<ActionResponse<Webhook>> => {
+	try {
+		const { userId } = await requireAuth()
+		const validated = webhookSchema.parse(input)
+
+		const urlCheck = await checkWebhookUrl(validated.url)
+		if (!urlCheck.allowed) return blockedUrl(urlCheck.reason)
+
+		const accountName = await getOwnedAccountName(userId, validated.accountId)
+		if (accountName === undefined) {
+			return {
+				status: "error",
+				message: "Account not found",
+				errors: [{ code: "NOT_FOUND", detail: "Account does not exist or does not belong to this user" }],
+			}
+		}
+
+		const existing = await db
+			.select({ id: webhooks.id })
+			.from(webhooks)
+			.where(eq(webhooks.userId, userId))
+
+		if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+			return {
+				status: "error",
+				message: "Too many webhooks",
+				errors: [{ code: "LIMIT_REACHED", detail: `Delete a webhook first (limit: ${MAX_WEBHOOKS_PER_USER})` }],
+			}
+		}
+
+		const [row] = await db
+			.insert(webhooks)
+			.values({
+				userId,
+				accountId: validated.accountId ?? null,
+				name: validated.name,
+				url: validated.url,
+				secret: generateWebhookSecret(),
+				events: JSON.stringify(validated.events),
+				isActive: validated.isActive,
+			})
+			.returning()
+
+		return {
+			status: "success",
+			message: "Webhook created",
+			data: toWebhook(row, accountName),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+
+		return {
+			status: "error",
+			message: "Failed to create webhook",
+			errors: [{ code: "CREATE_FAILED", detail: toSafeErrorMessage(error, "createWebhook") }],
+		}
+	}
+}
+
+/**
+ * Update a webhook's endpoint, event filter, account or active flag.
+ * The secret is kept; use rotateWebhookSecret to change it.
+ */
+const updateWebhook = async (id: string, input: WebhookInput): Promise<ActionResponse<Webhook>> => {
+	try {
+		const { userId } = await requireAuth()
+		const validated = webhookSchema.parse(input)
+
+		const urlCheck = await checkWebhookUrl(validated.url)
+		if (!urlCheck.allowed) return blockedUrl(urlCheck.reason)
+
+		const accountName = await getOwnedAccountName(userId, validated.accountId)
+		if (accountName === undefined) {
+			return {
+				status: "error",
+				message: "Account not found",
+				errors: [{ code: "NOT_FOUND", detail: "Account does not exist or does not belong to this user" }],
+			}
+		}
+
+		const [row] = await db
+			.update(webhooks)
+			.set({
+				accountId: validated.accountId ?? null,
+				name: validated.name,
+				url: validated.url,
+				events: JSON.stringify(validated.events),
+				isActive: validated.isActive,
+				updatedAt: new Date(),
+			})
+			.where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+			.returning()
+
+		if (!row) return notFound()
+
+		return {
+			status: "success",
+			message: "Webhook updated",
+			data: toWebhook(row, accountName),
+		}
+	} catch (error) {
+		if (error instanceof z.ZodError) return validationError(error)
+
+		return {
+			status: "error",
+			message: "Failed to update webhook",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "updateWebhook") }],
+		}
+	}
+}
+
+/**
+ * Replace a webhook's signing secret. Receivers must be updated before the
+ * next delivery or its signature check will fail.
+ */
+const rotateWebhookSecret = async (id: string): Promise<ActionResponse<{ secret: string }>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const [row] = await db
+			.update(webhooks)
+			.set({ secret: generateWebhookSecret(), updatedAt: new Date() })
+			.where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+			.returning({ secret: webhooks.secret })
+
+		if (!row) return notFound()
+
+		return {
+			status: "success",
+			message: "Webhook secret rotated",
+			data: { secret: row.secret },
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to rotate webhook secret",
+			errors: [{ code: "UPDATE_FAILED", detail: toSafeErrorMessage(error, "rotateWebhookSecret") }],
+		}
+	}
+}
+
+/**
+ * Delete a webhook together with its delivery log.
+ */
+const deleteWebhook = async (id: string): Promise<ActionResponse<void>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const [row] = await db
+			.delete(webhooks)
+			.where(and(eq(webhooks.id, id), eq(webhooks.userId, userId)))
+			.returning({ id: webhooks.id })
+
+		if (!row) return notFound()
+
+		return {
+			status: "success",
+			message: "Webhook deleted",
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to delete webhook",
+			errors: [{ code: "DELETE_FAILED", detail: toSafeErrorMessage(error, "deleteWebhook") }],
+		}
+	}
+}
+
+/**
+ * Returns the most recent deliveries of a webhook, newest first.
+ */
+const listWebhookDeliveries = async (webhookId: string): Promise<ActionResponse<WebhookDelivery[]>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const webhook = await findOwnedWebhook(userId, webhookId)
+		if (!webhook) return notFound()
+
+		const rows = await db
+			.select()
+			.from(webhookDeliveries)
+			.where(eq(webhookDeliveries.webhookId, webhookId))
+			.orderBy(desc(webhookDeliveries.createdAt))
+			.limit(DELIVERY_LOG_LIMIT)
+
+		return {
+			status: "success",
+			message: "Webhook deliveries retrieved",
+			data: rows.map(toWebhookDelivery),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to get webhook deliveries",
+			errors: [{ code: "FETCH_ERROR", detail: toSafeErrorMessage(error, "listWebhookDeliveries") }],
+		}
+	}
+}
+
+/**
+ * Send a webhook.test event to one webhook and wait for the endpoint's
+ * answer, so Settings can show whether it is reachable.
+ */
+const sendTestWebhookEvent = async (id: string): Promise<ActionResponse<WebhookDelivery>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const webhook = await findOwnedWebhook(userId, id)
+		if (!webhook) return notFound()
+
+		if (!webhook.isActive) {
+			return {
+				status: "error",
+				message: "Webhook is disabled",
+				errors: [{ code: "INACTIVE", detail: "Enable the webhook before sending a test event" }],
+			}
+		}
+
+		const [deliveryId] = await emitWebhookEvent({
+			userId,
+			accountId: webhook.accountId,
+			event: "webhook.test",
+			data: { webhookId: webhook.id, message: "Test event from Axion" },
+			webhookId: webhook.id,
+			immediate: true,
+		})
+
+		const delivery = deliveryId
+			? await db.query.webhookDeliveries.findFirst({ where: eq(webhookDeliveries.id, deliveryId) })
+			: undefined
+
+		if (!delivery) {
+			return {
+				status: "error",
+				message: "Failed to send test event",
+				errors: [{ code: "SEND_FAILED", detail: "The test delivery could not be queued" }],
+			}
+		}
+
+		return {
+			status: "success",
+			message: "Test event sent",
+			data: toWebhookDelivery(delivery),
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to send test event",
+			errors: [{ code: "SEND_FAILED", detail: toSafeErrorMessage(error, "sendTestWebhookEvent") }],
+		}
+	}
+}
+
+/**
+ * Send a logged delivery again with its original payload.
+ */
+const redeliverWebhook = async (deliveryId: string): Promise<ActionResponse<WebhookDelivery>> => {
+	try {
+		const { userId } = await requireAuth()
+
+		const [owned] = await db
+			.select({ id: webhookDeliveries.id })
+			.from(webhookDeliveries)
+			.innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+			.where(and(eq(webhookDeliveries.id, deliveryId), eq(webhooks.userId, userId)))
+
+		if (!owned) {
+			return {
+				status: "error",
+				message: "Delivery not found",
+				errors: [{ code: "NOT_FOUND", detail: "Delivery does not exist or does not belong to this user" }],
+			}
+		}
+
+		await redeliverWebhookDelivery(deliveryId)
+
+		const delivery = await db.query.webhookDeliveries.findFirst({
+			where: eq(webhookDeliveries.id, deliveryId),
+		})
+
+		return {
+			status: "success",
+			message: "Delivery resent",
+			data: delivery ? toWebhookDelivery(delivery) : undefined,
+		}
+	} catch (error) {
+		return {
+			status: "error",
+			message: "Failed to resend delivery",
+			errors: [{ code: "SEND_FAILED", detail: toSafeErrorMessage(error, "redeliverWebhook") }],
+		}
+	}
+}
+
+export {
+	listWebhooks,
+	createWebhook,
+	updateWebhook,
+	rotateWebhookSecret,
+	deleteWebhook,
+	listWebhookDeliveries,
+	sendTestWebhookEvent,
+	redeliverWebhook,
+}
@@ -0,0 +1,86 @@
+/**
+ * GET /api/account-archive/export?accountId=
+ * Download an account archive (ZIP of account.json + CSVs)
+ * Defaults to the session's current account
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import { canAccessFeature } from "@/lib/feature-access"
+import { buildAccountArchive } from "@/lib/account-archive/export"
+import { createAccountArchiveZip, getArchiveFileName } from "@/lib/account-archive/format"
+import { createDbRateLimiter } from "@/lib/db-rate-limiter"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+// Exports read every row of an account; a few per hour covers re-downloads
+const exportLimiter = createDbRateLimiter({
+	maxAttempts: 10,
+	windowMs: 60 * 60 * 1000, // 1 hour
+})
+
+export const GET = async (request: NextRequest) => {
+	const session = await auth()
+	if (!session?.user?.id) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.unauthorized" },
+			{ status: 401 }
+		)
+	}
+	if (!canAccessFeature(session.user.role ?? "trader", "settings:data-export")) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.forbidden" },
+			{ status: 403 }
+		)
+	}
+
+	const accountId = request.nextUrl.searchParams.get("accountId") ?? session.user.accountId
+	if (!accountId) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.missingFields" },
+			{ status: 400 }
+		)
+	}
+
+	const rateLimitResult = await exportLimiter.check(`account-archive-export:${session.user.id}`)
+	if (!rateLimitResult.allowed) {
+		return NextResponse.json(
+			{
+				status: "error",
+				message: "api.errors.tooManyRequests",
+				retryAfter: Math.ceil(rateLimitResult.retryAfterMs / 1000),
+			},
+			{ status: 429 }
+		)
+	}
+
+	try {
+		const archive = await buildAccountArchive(session.user.id, accountId)
+		if (!archive) {
+			return NextResponse.json(
+				{ status: "error", message: "api.errors.invalidParams" },
+				{ status: 404 }
+			)
+		}
+
+		const zip = createAccountArchiveZip(archive)
+		const fileName = getArchiveFileName(archive.account.name, archive.exportedAt)
+
+		return new NextResponse(new Uint8Array(zip), {
+			headers: {
+				"Content-Type": "application/zip",
+				"Content-Disposition": `attachment; filename="${fileName}"`,
+				"Content-Length": String(zip.length),
+				"Cache-Control": "no-store",
+			},
+		})
+	} catch (error) {
+		return NextResponse.json(
+			{
+				status: "error",
+				message: "settings.dataArchive.errors.exportFailed",
+				errors: [{ code: "EXPORT_FAILED", detail: toSafeErrorMessage(error, "accountArchive.export") }],
+			},
+			{ status: 500 }
+		)
+	}
+}
@@ -0,0 +1,137 @@
+/**
+ * POST /api/account-archive/import
+ * Import an account archive (multipart: file, target, accountName)
+ * target "new" creates an account from the archive; "current" merges into
+ * the session's current account, skipping trades already there
+ * Returns: AccountArchiveImportResult
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import { canAccessFeature } from "@/lib/feature-access"
+import { parseAccountArchive } from "@/lib/account-archive/format"
+import { importAccountArchive } from "@/lib/account-archive/import"
+import { importAccountArchiveSchema } from "@/lib/validations/account-archive"
+import { computeFileHash } from "@/lib/deduplication"
+import { createDbRateLimiter } from "@/lib/db-rate-limiter"
+import { invalidateAllData } from "@/lib/cache/invalidate"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024 // 50 MB
+
+const importLimiter = createDbRateLimiter({
+	maxAttempts: 5,
+	windowMs: 60 * 60 * 1000, // 1 hour
+})
+
+const ARCHIVE_ERROR_MESSAGES = {
+	invalidFile: "settings.dataArchive.errors.invalidFile",
+	unsupportedVersion: "settings.dataArchive.errors.unsupportedVersion",
+	invalidArchive: "settings.dataArchive.errors.invalidArchive",
+} as const
+
+export const POST = async (request: NextRequest) => {
+	const session = await auth()
+	if (!session?.user?.id) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.unauthorized" },
+			{ status: 401 }
+		)
+	}
+	if (!canAccessFeature(session.user.role ?? "trader", "settings:data-export")) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.forbidden" },
+			{ status: 403 }
+		)
+	}
+	const userId = session.user.id
+
+	const formData = await request.formData()
+	const file = formData.get("file") as File | null
+	const options = importAccountArchiveSchema.safeParse({
+		target: formData.get("target"),
+		accountName: formData.get("accountName") || undefined,
+	})
+
+	if (!file || !options.success) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.missingFields" },
+			{ status: 400 }
+		)
+	}
+	if (file.size > MAX_ARCHIVE_SIZE) {
+		return NextResponse.json(
+			{ status: "error", message: "settings.dataArchive.errors.fileTooLarge" },
+			{ status: 400 }
+		)
+	}
+
+	const currentAccountId = session.user.accountId
+	if (options.data.target === "current" && !currentAccountId) {
+		return NextResponse.json(
+			{ status: "error", message: "api.errors.missingFields" },
+			{ status: 400 }
+		)
+	}
+
+	const rateLimitResult = await importLimiter.check(`account-archive-import:${userId}`)
+	if (!rateLimitResult.allowed) {
+		return NextResponse.json(
+			{
+				status: "error",
+				message: "api.errors.tooManyRequests",
+				retryAfter: Math.ceil(rateLimitResult.retryAfterMs / 1000),
+			},
+			{ status: 429 }
+		)
+	}
+
+	const buffer = Buffer.from(await file.arrayBuffer())
+	const parsed = parseAccountArchive(buffer)
+	if ("error" in parsed) {
+		return NextResponse.json(
+			{
+				status: "error",
+				message: ARCHIVE_ERROR_MESSAGES[parsed.error],
+				errors: [{ code: "INVALID_ARCHIVE", detail: parsed.detail ?? parsed.error }],
+			},
+			{ status: 400 }
+		)
+	}
+
+	try {
+		const result = await importAccountArchive({
+			userId,
+			archive: parsed.archive,
+			target:
+				options.data.target === "new"
+					? { kind: "new", accountName: options.data.accountName }
+					: { kind: "current", accountId: currentAccountId! },
+			fileName: file.name,
+			fileHash: computeFileHash(buffer),
+		})
+		if (!result) {
+			return NextResponse.json(
+				{ status: "error", message: "api.errors.invalidParams" },
+				{ status: 404 }
+			)
+		}
+
+		invalidateAllData(userId)
+
+		return NextResponse.json({
+			status: "success",
+			message: "settings.dataArchive.importSuccess",
+			data: result,
+		})
+	} catch (error) {
+		return NextResponse.json(
+			{
+				status: "error",
+				message: "settings.dataArchive.errors.importFailed",
+				errors: [{ code: "IMPORT_FAILED", detail: toSafeErrorMessage(error, "accountArchive.import") }],
+			},
+			{ status: 500 }
+		)
+	}
+}
@@ -1,126 +1,102 @@
 import { db } from "@/db/drizzle"
-import { users, tradingAccounts, userSettings } from "@/db/schema"
+import { users, tradingAccounts, userSettings, apiKeys } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { NextResponse } from "next/server"
+import { ADMIN_API_KEY_SCOPES, hasApiKeyScope, isApiKeyExpired, parseApiKeyScopes } from "@/lib/api-keys"
+import { hashApiKeyToken } from "@/lib/api-key-tokens"
+import type { ApiKeyScope } from "@/types/api-key"
 
 interface ArchAuthContext {
 	userId: string
 	accountId: string
 	showAllAccounts: boolean
 	allAccountIds: string[]
+	apiKeyId: string
+	/** True when the key is pinned to one account; account switching is then refused */
+	accountRestricted: boolean
 }
 
 type AuthResult =
 	| { success: true; auth: ArchAuthContext }
 	| { success: false; response: NextResponse }
 
-/**
- * Parses ARCH_USER_EMAILS env var (comma-separated) into a trimmed, lowercased allowlist.
- */
-const getAllowedEmails = (): string[] => {
-	const raw = process.env.ARCH_USER_EMAILS ?? ""
-	return raw
-		.split(",")
-		.map((email) => email.trim().toLowerCase())
-		.filter(Boolean)
-}
+/** lastUsedAt is only rewritten when older than this, to avoid a write per request */
+const LAST_USED_THROTTLE_MS = 60_000
+
+const authError = (message: string, status = 401): AuthResult => ({
+	success: false,
+	response: NextResponse.json({ status: "error", message }, { status }),
+})
 
 /**
- * Validates Bearer token auth against env vars and resolves the user + default account.
+ * Validates a per-user API key and resolves the user + account it acts on.
  *
  * Security:
- * - Bearer token must match ARCH_API_KEY
- * - User must be in the ARCH_USER_EMAILS allowlist (comma-separated)
- * - User must have isAdmin = true in the database
- * - Caller can select which email via the X-Arch-User header (defaults to first in allowlist)
+ * - Bearer token is hashed and looked up in api_keys; revoked and expired keys are rejected
+ * - The key must carry the scope the route requires (write scopes cover reads)
+ * - Admin-only scopes are re-checked against the user's current isAdmin flag
+ * - Keys restricted to an account only ever see that account
  *
  * @param request - The incoming Next.js request
+ * @param scope - The scope the calling route requires
  * @returns AuthResult with either the auth context or an error response
  */
-const archAuth = async (request: Request): Promise<AuthResult> => {
-	const apiKey = process.env.ARCH_API_KEY
-	if (!apiKey) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Arch API key not configured" },
-				{ status: 500 }
-			),
-		}
-	}
-
+const archAuth = async (request: Request, scope: ApiKeyScope): Promise<AuthResult> => {
 	const authHeader = request.headers.get("authorization")
 	if (!authHeader?.startsWith("Bearer ")) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Missing or invalid Authorization header" },
-				{ status: 401 }
-			),
-		}
+		return authError("Missing or invalid Authorization header")
 	}
 
-	const token = authHeader.slice(7)
-	if (token !== apiKey) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Invalid API key" },
-				{ status: 401 }
-			),
-		}
-	}
+	const token = authHeader.slice(7).trim()
+
+	const [key] = await db
+		.select({
+			id: apiKeys.id,
+			userId: apiKeys.userId,
+			accountId: apiKeys.accountId,
+			scopes: apiKeys.scopes,
+			expiresAt: apiKeys.expiresAt,
+			lastUsedAt: apiKeys.lastUsedAt,
+			revokedAt: apiKeys.revokedAt,
+			isAdmin: users.isAdmin,
+		})
+		.from(apiKeys)
+		.innerJoin(users, eq(users.id, apiKeys.userId))
+		.where(eq(apiKeys.keyHash, hashApiKeyToken(token)))
+		.limit(1)
 
-	const allowedEmails = getAllowedEmails()
-	if (allowedEmails.length === 0) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "ARCH_USER_EMAILS not configured" },
-				{ status: 500 }
-			),
-		}
+	if (!key || key.revokedAt) {
+		return authError("Invalid API key")
 	}
 
-	// Caller can select which email via X-Arch-User header; defaults to first in allowlist
-	const requestedEmail = request.headers.get("x-arch-user")?.trim().toLowerCase()
-	const targetEmail = requestedEmail && allowedEmails.includes(requestedEmail)
-		? requestedEmail
-		: allowedEmails[0]
+	if (isApiKeyExpired(key.expiresAt)) {
+		return authError("API key has expired")
+	}
 
-	if (requestedEmail && !allowedEmails.includes(requestedEmail)) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Requested email is not in the allowed list" },
-				{ status: 403 }
-			),
-		}
+	if (!hasApiKeyScope(parseApiKeyScopes(key.scopes), scope)) {
+		return authError(`API key is missing the "${scope}" scope`, 403)
 	}
 
-	const [user] = await db
-		.select({ id: users.id, isAdmin: users.isAdmin })
-		.from(users)
-		.where(eq(users.email, targetEmail))
-		.limit(1)
+	if (ADMIN_API_KEY_SCOPES.includes(scope) && !key.isAdmin) {
+		return authError("This scope requires admin privileges", 403)
+	}
 
-	if (!user) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Arch user not found" },
-				{ status: 401 }
-			),
-		}
+	const now = new Date()
+	if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS) {
+		await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, key.id))
 	}
 
-	if (!user.isAdmin) {
+	if (key.accountId) {
 		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "Arch access requires admin privileges" },
-				{ status: 403 }
-			),
+			success: true,
+			auth: {
+				userId: key.userId,
+				accountId: key.accountId,
+				showAllAccounts: false,
+				allAccountIds: [key.accountId],
+				apiKeyId: key.id,
+				accountRestricted: true,
+			},
 		}
 	}
 
@@ -129,26 +105,20 @@ const archAuth = async (request: Request): Promise<AuthResult> => {
 		.from(tradingAccounts)
 		.where(
 			and(
-				eq(tradingAccounts.userId, user.id),
+				eq(tradingAccounts.userId, key.userId),
 				eq(tradingAccounts.isDefault, true)
 			)
 		)
 		.limit(1)
 
 	if (!defaultAccount) {
-		return {
-			success: false,
-			response: NextResponse.json(
-				{ status: "error", message: "No default trading account found" },
-				{ status: 401 }
-			),
-		}
+		return authError("No default trading account found")
 	}
 
 	const [settings] = await db
 		.select({ showAllAccounts: userSettings.showAllAccounts })
 		.from(userSettings)
-		.where(eq(userSettings.userId, user.id))
+		.where(eq(userSettings.userId, key.userId))
 		.limit(1)
 
 	const showAllAccounts = settings?.showAllAccounts ?? false
@@ -159,7 +129,7 @@ const archAuth = async (request: Request): Promise<AuthResult> => {
 		const accounts = await db
 			.select({ id: tradingAccounts.id })
 			.from(tradingAccounts)
-			.where(eq(tradingAccounts.userId, user.id))
+			.where(eq(tradingAccounts.userId, key.userId))
 
 		allAccountIds = accounts.map((account) => account.id)
 	}
@@ -167,10 +137,12 @@ const archAuth = async (request: Request): Promise<AuthResult> => {
 	return {
 		success: true,
 		auth: {
-			userId: user.id,
+			userId: key.userId,
 			accountId: defaultAccount.id,
 			showAllAccounts,
 			allAccountIds,
+			apiKeyId: key.id,
+			accountRestricted: false,
 		},
 	}
 }
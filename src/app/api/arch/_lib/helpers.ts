@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server"
+import type { z } from "zod"
 import { fromCents } from "@/lib/money"
 
 interface ArchSuccessResponse {
@@ -18,6 +19,10 @@ interface ArchErrorResponse {
 	errors?: ArchErrorDetail[]
 }
 
+type ParseResult<T> =
+	| { success: true; data: T }
+	| { success: false; response: NextResponse<ArchErrorResponse> }
+
 interface TradeRelationStrategy {
 	name: string
 }
@@ -125,6 +130,71 @@ const archError = (
 		{ status: statusCode ?? 400 }
 	)
 
+/**
+ * Maps zod issues to Arch error details, one per issue, prefixed with the
+ * offending field path.
+ */
+const toValidationErrors = (error: z.ZodError): ArchErrorDetail[] =>
+	error.issues.map((issue) => ({
+		code: "VALIDATION_ERROR",
+		detail: `${issue.path.join(".")}: ${issue.message}`,
+	}))
+
+/**
+ * Reads and validates a JSON request body against the route's schema.
+ * Malformed JSON and schema violations both become 400 responses.
+ *
+ * @param request - The incoming request
+ * @param schema - The body schema from _lib/schemas (also published in the OpenAPI document)
+ * @returns ParseResult with either the parsed body or an error response
+ */
+const parseArchBody = async <T extends z.ZodType>(
+	request: Request,
+	schema: T
+): Promise<ParseResult<z.output<T>>> => {
+	let raw: unknown
+	try {
+		raw = await request.json()
+	} catch {
+		return {
+			success: false,
+			response: archError("Invalid JSON body", [
+				{ code: "INVALID_JSON", detail: "Request body must be a JSON object" },
+			]),
+		}
+	}
+
+	const result = schema.safeParse(raw)
+	if (!result.success) {
+		return { success: false, response: archError("Validation failed", toValidationErrors(result.error)) }
+	}
+	return { success: true, data: result.data }
+}
+
+/**
+ * Validates query params against the route's schema. Repeated keys are
+ * checked by their first value, the one searchParams.get() returns.
+ *
+ * @param searchParams - The request's query params
+ * @param schema - The query schema from _lib/schemas (also published in the OpenAPI document)
+ * @returns ParseResult with either the parsed params or an error response
+ */
+const parseArchQuery = <T extends z.ZodType>(
+	searchParams: URLSearchParams,
+	schema: T
+): ParseResult<z.output<T>> => {
+	const raw: Record<string, string> = {}
+	for (const key of searchParams.keys()) {
+		raw[key] = searchParams.get(key) ?? ""
+	}
+
+	const result = schema.safeParse(raw)
+	if (!result.success) {
+		return { success: false, response: archError("Invalid query parameters", toValidationErrors(result.error)) }
+	}
+	return { success: true, data: result.data }
+}
+
 /**
  * Converts a trade record to an Arch-friendly format.
  * - Converts cents fields (pnl, plannedRiskAmount, commission, fees) to dollars via fromCents()
@@ -204,8 +274,16 @@ const formatExecutionForArch = (
 	}
 }
 
-export { archSuccess, archError, formatTradeForArch, formatExecutionForArch }
+export {
+	archSuccess,
+	archError,
+	parseArchBody,
+	parseArchQuery,
+	formatTradeForArch,
+	formatExecutionForArch,
+}
 export type {
+	ParseResult,
 	ArchSuccessResponse,
 	ArchErrorDetail,
 	ArchErrorResponse,
@@ -0,0 +1,656 @@
+import { z } from "zod"
+import type { ApiKeyScope } from "@/types/api-key"
+import {
+	archFilterQuerySchema,
+	archDateRangeQuerySchema,
+	archDateQuerySchema,
+	archTradeListQuerySchema,
+	archEquityCurveQuerySchema,
+	archDailyPnlQuerySchema,
+	archPerformanceQuerySchema,
+	archMonthlyPlanQuerySchema,
+	archWeeklyReportQuerySchema,
+	archMonthlyReportQuerySchema,
+	archBugListQuerySchema,
+	archIdPathSchema,
+	archCreateTradeBodySchema,
+	archUpdateTradeBodySchema,
+	archIdBodySchema,
+	archTradeNotesBodySchema,
+	archAddTradeTagsBodySchema,
+	archRemoveTradeTagBodySchema,
+	archCreateExecutionBodySchema,
+	archUpdateExecutionBodySchema,
+	archUpdateStrategyBodySchema,
+	archCreateTagBodySchema,
+	archUpdateTagBodySchema,
+	archSwitchAccountBodySchema,
+	archCreateBugBodySchema,
+	archUpdateBugBodySchema,
+	createStrategySchema,
+	monthlyPlanSchema,
+	dailyNotesSchema,
+	dataSourceSchema,
+	simulationParamsV2Schema,
+} from "./schemas"
+
+type JsonSchema = Record<string, unknown>
+
+interface ArchOperation {
+	method: "GET" | "POST"
+	/** OpenAPI-style path, e.g. /api/arch/trades/{id} */
+	path: string
+	summary: string
+	/** Scope the API key must carry; null for public endpoints */
+	scope: ApiKeyScope | null
+	pathParams?: z.ZodObject
+	query?: z.ZodObject
+	body?: z.ZodType
+	notes?: string
+}
+
+const ARCH_API_VERSION = "1.0.0"
+
+const ARCH_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+	"trades:read": "Trades, executions, strategies, tags, accounts and reference data",
+	"trades:write": "Create/update/delete trades, executions, strategies and tags; switch default account. Implies trades:read",
+	"analytics:read": "Analytics, reports and Monte Carlo endpoints",
+	"plans:read": "Monthly plans, live status and command center",
+	"plans:write": "Upsert monthly plans and command center notes. Implies plans:read",
+	"bugs:manage": "Bug report endpoints (admin users only)",
+}
+
+/**
+ * Every Arch endpoint with the schemas its route validates against. The docs
+ * endpoint and the OpenAPI document are both rendered from this list, and the
+ * contract test checks it against the route files.
+ */
+const ARCH_OPERATIONS: ArchOperation[] = [
+	// ── Meta ──────────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/docs",
+		summary: "Self-documenting API surface. No auth required.",
+		scope: null,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/openapi.json",
+		summary: "OpenAPI 3.1 document for the Arch API. No auth required.",
+		scope: null,
+	},
+	// ── Reference ─────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/reference/strategies",
+		summary: "List all strategies for the authenticated user.",
+		scope: "trades:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/reference/tags",
+		summary: "List all tags for the authenticated user.",
+		scope: "trades:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/reference/timeframes",
+		summary: "List all available timeframes (global table).",
+		scope: "trades:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/reference/assets",
+		summary: "List configured assets (with types) and user's traded symbols.",
+		scope: "trades:read",
+	},
+	// ── Trades ────────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/trades/list",
+		summary: "List trades with filtering, pagination, and sorting.",
+		scope: "trades:read",
+		query: archTradeListQuerySchema,
+		notes: "All query params are optional. Defaults: limit=20, offset=0, sortBy=entryDate, sortOrder=desc.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/trades/grouped",
+		summary: "List trades grouped by date for calendar/daily views.",
+		scope: "trades:read",
+		query: archDateRangeQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/trades/{id}",
+		summary: "Get a single trade by ID with full details.",
+		scope: "trades:read",
+		pathParams: archIdPathSchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/create",
+		summary: "Create a new trade.",
+		scope: "trades:write",
+		body: archCreateTradeBodySchema,
+		notes: "P&L, outcome and R-multiple are calculated from prices and the asset configuration.",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/update",
+		summary: "Update an existing trade.",
+		scope: "trades:write",
+		body: archUpdateTradeBodySchema,
+		notes: "Provided fields are merged over the stored trade; P&L is recalculated when prices change.",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/delete",
+		summary: "Delete a trade by ID.",
+		scope: "trades:write",
+		body: archIdBodySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/notes",
+		summary: "Update note fields on a trade.",
+		scope: "trades:write",
+		body: archTradeNotesBodySchema,
+		notes: "At least one note field must be provided.",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/tags/add",
+		summary: "Add one or more tags to a trade.",
+		scope: "trades:write",
+		body: archAddTradeTagsBodySchema,
+		notes: "tags is an array of tag names. Uses fuzzy naming resolution.",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/trades/tags/remove",
+		summary: "Remove a tag from a trade.",
+		scope: "trades:write",
+		body: archRemoveTradeTagBodySchema,
+		notes: "tag is a single tag name. Uses fuzzy naming resolution.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/trades/{id}/executions",
+		summary: "List all executions for a specific trade.",
+		scope: "trades:read",
+		pathParams: archIdPathSchema,
+	},
+	// ── Executions ────────────────────────────────────────────
+	{
+		method: "POST",
+		path: "/api/arch/executions/create",
+		summary: "Create a new execution (entry or exit) for a trade.",
+		scope: "trades:write",
+		body: archCreateExecutionBodySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/executions/update",
+		summary: "Update an existing execution.",
+		scope: "trades:write",
+		body: archUpdateExecutionBodySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/executions/delete",
+		summary: "Delete an execution by ID.",
+		scope: "trades:write",
+		body: archIdBodySchema,
+	},
+	// ── Analytics ─────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/analytics/stats",
+		summary: "Overall trading statistics (netPnl, winRate, profitFactor, avgR, etc.).",
+		scope: "analytics:read",
+		query: archFilterQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/discipline",
+		summary: "Discipline/compliance score with trend analysis.",
+		scope: "analytics:read",
+		query: archFilterQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/equity-curve",
+		summary: "Equity curve with drawdown tracking.",
+		scope: "analytics:read",
+		query: archEquityCurveQuerySchema,
+		notes: "mode: 'daily' (default) or 'trade'. Returns EquityPoint[] with date, equity, accountEquity, drawdown.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/daily-pnl",
+		summary: "Daily P&L for a specific month (calendar view).",
+		scope: "analytics:read",
+		query: archDailyPnlQuerySchema,
+		notes: "month is 0-indexed (0=January). Returns DailyPnL[] with date, pnl, tradeCount.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/streaks",
+		summary: "Win/loss streak data with best/worst day.",
+		scope: "analytics:read",
+		query: archFilterQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/performance",
+		summary: "Performance grouped by variable.",
+		scope: "analytics:read",
+		query: archPerformanceQuerySchema,
+		notes: "Returns PerformanceByGroup[].",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/expected-value",
+		summary: "Expected value calculation (capital + R-based edge).",
+		scope: "analytics:read",
+		query: archFilterQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/analytics/r-distribution",
+		summary: "R-multiple distribution histogram buckets.",
+		scope: "analytics:read",
+		query: archFilterQuerySchema,
+	},
+	// ── Live Trading Status ───────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/live-status",
+		summary: "Live trading status — risk profile resolution, next trade sizing, stop conditions.",
+		scope: "plans:read",
+		query: archDateQuerySchema,
+		notes: "Returns hasProfile, status (dayPhase, nextTradeRisk, alerts), tradeSummaries.",
+	},
+	// ── Monthly Plans ─────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/monthly-plans/active",
+		summary: "Get the active monthly plan for the current month.",
+		scope: "plans:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/monthly-plans/get",
+		summary: "Get a monthly plan for a specific year/month.",
+		scope: "plans:read",
+		query: archMonthlyPlanQuerySchema,
+		notes: "month is 1-indexed (1=January).",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/monthly-plans/upsert",
+		summary: "Create or update a monthly plan.",
+		scope: "plans:write",
+		body: monthlyPlanSchema,
+		notes: "Money amounts are in cents; percentages are decimals (1.00 = 1%). riskProfileId must be a profile the key's user can see, else 404.",
+	},
+	// ── Command Center ────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/command-center/daily-summary",
+		summary: "Daily summary — P&L, win/loss counts, best/worst trade.",
+		scope: "plans:read",
+		query: archDateQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/command-center/circuit-breaker",
+		summary: "Circuit breaker status — all stop-trading triggers and risk budgets.",
+		scope: "plans:read",
+		query: archDateQuerySchema,
+		notes: "Returns shouldStopTrading, alerts[], recommendedRiskCents, remaining budgets.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/command-center/notes",
+		summary: "Get daily notes (pre-market, post-market, mood).",
+		scope: "plans:read",
+		query: archDateQuerySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/command-center/notes",
+		summary: "Create or update daily notes.",
+		scope: "plans:write",
+		body: dailyNotesSchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/command-center/checklists",
+		summary: "Get checklists with today's completion status.",
+		scope: "plans:read",
+		query: archDateQuerySchema,
+	},
+	// ── Strategies ────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/strategies/list",
+		summary: "List strategies with performance stats (tradeCount, winRate, profitFactor, avgR, compliance).",
+		scope: "trades:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/strategies/{id}",
+		summary: "Get a single strategy with stats, conditions, and scenarios.",
+		scope: "trades:read",
+		pathParams: archIdPathSchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/strategies/create",
+		summary: "Create a new strategy.",
+		scope: "trades:write",
+		body: createStrategySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/strategies/update",
+		summary: "Update an existing strategy.",
+		scope: "trades:write",
+		body: archUpdateStrategyBodySchema,
+		notes: "When conditions is provided it replaces the existing conditions entirely.",
+	},
+	// ── Tags ──────────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/tags/list",
+		summary: "List tags with per-tag performance stats (tradeCount, totalPnl, winRate, avgR).",
+		scope: "trades:read",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/tags/create",
+		summary: "Create a new tag.",
+		scope: "trades:write",
+		body: archCreateTagBodySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/tags/update",
+		summary: "Update an existing tag.",
+		scope: "trades:write",
+		body: archUpdateTagBodySchema,
+	},
+	// ── Accounts ──────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/accounts/list",
+		summary: "List all trading accounts for the user.",
+		scope: "trades:read",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/accounts/{id}",
+		summary: "Get account detail with asset/timeframe configurations.",
+		scope: "trades:read",
+		pathParams: archIdPathSchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/accounts/switch",
+		summary: "Switch the default trading account.",
+		scope: "trades:write",
+		body: archSwitchAccountBodySchema,
+		notes: "Refused for keys restricted to a single account.",
+	},
+	// ── Monte Carlo ───────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/monte-carlo/data-sources",
+		summary: "Available data sources for Monte Carlo simulation.",
+		scope: "analytics:read",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/monte-carlo/stats",
+		summary: "Pre-simulation statistics for a data source.",
+		scope: "analytics:read",
+		body: dataSourceSchema,
+		notes: "strategyId is required when type=strategy.",
+	},
+	{
+		method: "POST",
+		path: "/api/arch/monte-carlo/run",
+		summary: "Run V2 Monte Carlo simulation with risk management profile.",
+		scope: "analytics:read",
+		body: simulationParamsV2Schema,
+		notes: "Returns MonteCarloResultV2 with equity paths, statistics, and confidence intervals.",
+	},
+	// ── Reports ───────────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/reports/weekly",
+		summary: "Weekly trading report with daily breakdown and top wins/losses.",
+		scope: "analytics:read",
+		query: archWeeklyReportQuerySchema,
+		notes: "Defaults to the current week.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/reports/monthly",
+		summary: "Monthly trading report with weekly and asset breakdowns.",
+		scope: "analytics:read",
+		query: archMonthlyReportQuerySchema,
+		notes: "year+month or monthOffset. Includes best/worst day.",
+	},
+	{
+		method: "GET",
+		path: "/api/arch/reports/monthly-results",
+		summary: "Monthly results with prop firm profit calculations.",
+		scope: "analytics:read",
+		query: archMonthlyReportQuerySchema,
+		notes: "Includes prop firm share split, estimated tax, and trader net profit.",
+	},
+	// ── Bug Reports ───────────────────────────────────────────
+	{
+		method: "GET",
+		path: "/api/arch/bugs/list",
+		summary: "List bug reports, newest first.",
+		scope: "bugs:manage",
+		query: archBugListQuerySchema,
+	},
+	{
+		method: "GET",
+		path: "/api/arch/bugs/{id}",
+		summary: "Get a single bug report.",
+		scope: "bugs:manage",
+		pathParams: archIdPathSchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/bugs/create",
+		summary: "File a bug report.",
+		scope: "bugs:manage",
+		body: archCreateBugBodySchema,
+	},
+	{
+		method: "POST",
+		path: "/api/arch/bugs/update",
+		summary: "Accept, reject or close a bug report.",
+		scope: "bugs:manage",
+		body: archUpdateBugBodySchema,
+	},
+]
+
+/**
+ * JSON Schema for what a client sends. Transforms and refinements can't be
+ * expressed, so they fall back to their input type.
+ */
+const toJsonSchema = (schema: z.ZodType): JsonSchema => {
+	const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, {
+		io: "input",
+		unrepresentable: "any",
+	}) as JsonSchema
+	return jsonSchema
+}
+
+/** Field names of an object schema (or union of objects), split by whether they are required */
+const describeSchemaFields = (schema: z.ZodType): { required: string[]; optional: string[] } => {
+	const jsonSchema = toJsonSchema(schema)
+	const branches = ((jsonSchema.oneOf ?? jsonSchema.anyOf) as JsonSchema[] | undefined) ?? [jsonSchema]
+
+	const all = new Set<string>()
+	let required: string[] | null = null
+	for (const branch of branches) {
+		Object.keys((branch.properties as JsonSchema | undefined) ?? {}).forEach((key) => all.add(key))
+		const branchRequired = (branch.required as string[] | undefined) ?? []
+		required = required ? required.filter((key) => branchRequired.includes(key)) : branchRequired
+	}
+
+	const requiredFields = required ?? []
+	return {
+		required: requiredFields,
+		optional: [...all].filter((key) => !requiredFields.includes(key)),
+	}
+}
+
+const toParameters = (schema: z.ZodObject, location: "path" | "query"): JsonSchema[] => {
+	const jsonSchema = toJsonSchema(schema)
+	const properties = (jsonSchema.properties as Record<string, JsonSchema> | undefined) ?? {}
+	const required = (jsonSchema.required as string[] | undefined) ?? []
+
+	return Object.entries(properties).map(([name, { description, ...propertySchema }]) => ({
+		name,
+		in: location,
+		required: location === "path" || required.includes(name),
+		...(description !== undefined && { description }),
+		schema: propertySchema,
+	}))
+}
+
+/** e.g. getTradesByIdExecutions for GET /api/arch/trades/{id}/executions */
+const toOperationId = (operation: ArchOperation): string => {
+	const words = operation.path
+		.replace("/api/arch/", "")
+		.replace(/\{(\w+)\}/g, "by/$1")
+		.split(/[/.-]/)
+	return operation.method.toLowerCase() + words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("")
+}
+
+const errorResponse = (description: string): JsonSchema => ({
+	description,
+	content: { "application/json": { schema: { $ref: "#/components/schemas/ArchError" } } },
+})
+
+const toOpenApiOperation = (operation: ArchOperation): JsonSchema => {
+	const parameters = [
+		...(operation.pathParams ? toParameters(operation.pathParams, "path") : []),
+		...(operation.query ? toParameters(operation.query, "query") : []),
+	]
+
+	const responses: JsonSchema = {
+		"200": {
+			description: "Success",
+			content: { "application/json": { schema: { $ref: "#/components/schemas/ArchSuccess" } } },
+		},
+		...((operation.query || operation.body) && { "400": errorResponse("Invalid parameters or body") }),
+		...(operation.scope && {
+			"401": errorResponse("Missing, invalid, revoked or expired API key"),
+			"403": errorResponse("API key is missing the required scope"),
+		}),
+		...(operation.pathParams && { "404": errorResponse("Not found") }),
+		"500": errorResponse("Unexpected server error"),
+	}
+
+	return {
+		operationId: toOperationId(operation),
+		summary: operation.summary,
+		...(operation.notes && { description: operation.notes }),
+		tags: [operation.path.split("/")[3]],
+		security: operation.scope ? [{ apiKey: [operation.scope] }] : [],
+		...(parameters.length > 0 && { parameters }),
+		...(operation.body && {
+			requestBody: {
+				required: true,
+				content: { "application/json": { schema: toJsonSchema(operation.body) } },
+			},
+		}),
+		responses,
+	}
+}
+
+/**
+ * Builds the OpenAPI 3.1 document for the Arch API from ARCH_OPERATIONS.
+ * Key scopes are listed as the operation's security requirement.
+ */
+const buildArchOpenApiDocument = (): JsonSchema => {
+	const paths: Record<string, Record<string, JsonSchema>> = {}
+	for (const operation of ARCH_OPERATIONS) {
+		paths[operation.path] ??= {}
+		paths[operation.path][operation.method.toLowerCase()] = toOpenApiOperation(operation)
+	}
+
+	const scopeList = Object.entries(ARCH_SCOPE_DESCRIPTIONS)
+		.map(([scope, description]) => `- \`${scope}\`: ${description}`)
+		.join("\n")
+
+	return {
+		openapi: "3.1.0",
+		info: {
+			title: "Axion Arch API",
+			version: ARCH_API_VERSION,
+			description:
+				"Programmatic access to the Axion trading journal. Every response uses the ArchSuccess / ArchError envelope.",
+		},
+		paths,
+		components: {
+			securitySchemes: {
+				apiKey: {
+					type: "http",
+					scheme: "bearer",
+					description: `Personal API key from Settings → API Keys. Each operation lists the scope it needs:\n${scopeList}`,
+				},
+			},
+			schemas: {
+				ArchSuccess: {
+					type: "object",
+					required: ["status", "message"],
+					properties: {
+						status: { const: "success" },
+						message: { type: "string" },
+						data: {},
+					},
+				},
+				ArchError: {
+					type: "object",
+					required: ["status", "message"],
+					properties: {
+						status: { const: "error" },
+						message: { type: "string" },
+						errors: {
+							type: "array",
+							items: {
+								type: "object",
+								required: ["code", "detail"],
+								properties: {
+									code: { type: "string" },
+									detail: { type: "string" },
+								},
+							},
+						},
+					},
+				},
+			},
+		},
+	}
+}
+
+export {
+	ARCH_API_VERSION,
+	ARCH_SCOPE_DESCRIPTIONS,
+	ARCH_OPERATIONS,
+	buildArchOpenApiDocument,
+	describeSchemaFields,
+	type ArchOperation,
+}
@@ -0,0 +1,256 @@
+import { z } from "zod"
+import { createStrategySchema, updateStrategySchema } from "@/lib/validations/strategy"
+import { monthlyPlanSchema } from "@/lib/validations/monthly-plan"
+import { dailyNotesSchema } from "@/lib/validations/command-center"
+import { dataSourceSchema, simulationParamsV2Schema } from "@/lib/validations/monte-carlo"
+
+/**
+ * Request schemas for the Arch API. Routes validate their query strings and
+ * bodies with these, and the OpenAPI document is generated from the same
+ * objects, so the published contract is whatever the routes accept.
+ */
+
+// ==========================================
+// SHARED FIELDS
+// ==========================================
+
+const idField = z.string().uuid()
+const numericField = z.union([z.number(), z.string()])
+const dateField = z.union([z.string(), z.number()])
+const setupRankField = z.enum(["A", "AA", "AAA"]).nullable()
+const noteField = z.string().nullable()
+
+const isoDateParam = z
+	.string()
+	.refine((value) => !Number.isNaN(Date.parse(value)), "must be an ISO date")
+	.describe("ISO date or date-time")
+const integerParam = z.string().regex(/^-?\d+$/, "must be an integer")
+const listParam = (description: string) => z.string().describe(`Comma-separated ${description}`)
+
+// ==========================================
+// QUERY SCHEMAS
+// ==========================================
+
+const archFilterQuerySchema = z.object({
+	dateFrom: isoDateParam.optional(),
+	dateTo: isoDateParam.optional(),
+	assets: listParam("asset symbols").optional(),
+	directions: listParam("directions: long, short").optional(),
+	outcomes: listParam("outcomes: win, loss, breakeven").optional(),
+	strategy: z.string().describe("Strategy name (fuzzy match)").optional(),
+	timeframe: z.string().describe("Timeframe name (fuzzy match)").optional(),
+	tags: listParam("tag names (fuzzy match)").optional(),
+	strategyIds: listParam("strategy IDs").optional(),
+	tagIds: listParam("tag IDs").optional(),
+	timeframeIds: listParam("timeframe IDs").optional(),
+})
+
+const archDateRangeQuerySchema = z.object({
+	dateFrom: isoDateParam.optional(),
+	dateTo: isoDateParam.optional(),
+})
+
+const archDateQuerySchema = z.object({
+	date: isoDateParam.describe("Day to report on; defaults to today").optional(),
+})
+
+const archTradeListQuerySchema = z.object({
+	dateFrom: isoDateParam.optional(),
+	dateTo: isoDateParam.optional(),
+	assets: listParam("asset symbols").optional(),
+	directions: listParam("directions: long, short").optional(),
+	outcomes: listParam("outcomes: win, loss, breakeven").optional(),
+	strategy: z.string().describe("Strategy name (fuzzy match)").optional(),
+	tags: listParam("tag names (fuzzy match)").optional(),
+	timeframe: z.string().describe("Timeframe name (fuzzy match)").optional(),
+	limit: integerParam.describe("Page size, 1-100 (default 20)").optional(),
+	offset: integerParam.describe("Rows to skip (default 0)").optional(),
+	sortBy: z.enum(["entryDate", "pnl", "realizedRMultiple", "asset"]).optional(),
+	sortOrder: z.enum(["asc", "desc"]).optional(),
+})
+
+const archEquityCurveQuerySchema = archDateRangeQuerySchema.extend({
+	mode: z.enum(["daily", "trade"]).optional(),
+})
+
+const archDailyPnlQuerySchema = z.object({
+	year: integerParam,
+	month: integerParam.describe("0-indexed month (0 = January)"),
+})
+
+const archPerformanceQuerySchema = archFilterQuerySchema.extend({
+	groupBy: z.enum(["asset", "timeframe", "hour", "dayOfWeek", "strategy"]),
+})
+
+const archMonthlyPlanQuerySchema = z.object({
+	year: integerParam,
+	month: integerParam.describe("1-indexed month (1 = January)"),
+})
+
+const archWeeklyReportQuerySchema = z.object({
+	weekStart: isoDateParam.optional(),
+	weekOffset: integerParam.describe("0 = current week, 1 = previous, ...").optional(),
+})
+
+const archMonthlyReportQuerySchema = z.object({
+	year: integerParam.optional(),
+	month: integerParam.describe("1-indexed month (1 = January)").optional(),
+	monthOffset: integerParam.describe("0 = current month, 1 = previous, ...").optional(),
+})
+
+const archBugListQuerySchema = z.object({
+	status: z.enum(["open", "accepted", "rejected", "closed"]).optional(),
+	limit: integerParam.describe("Page size, 1-100 (default 50)").optional(),
+	offset: integerParam.describe("Rows to skip (default 0)").optional(),
+})
+
+const archIdPathSchema = z.object({
+	id: idField,
+})
+
+// ==========================================
+// BODY SCHEMAS
+// ==========================================
+
+const archTradeFields = {
+	asset: z.string().min(1),
+	direction: z.enum(["long", "short"]),
+	entryDate: dateField,
+	entryPrice: numericField,
+	positionSize: numericField,
+	exitDate: dateField.optional(),
+	exitPrice: numericField.optional(),
+	stopLoss: numericField.optional(),
+	takeProfit: numericField.optional(),
+	riskAmount: numericField.optional(),
+	strategy: z.string().describe("Strategy name (fuzzy match)").optional(),
+	timeframe: z.string().describe("Timeframe name (fuzzy match)").optional(),
+	tags: z.array(z.string()).describe("Tag names (fuzzy match)").optional(),
+	preTradeThoughts: z.string().optional(),
+	postTradeReflection: z.string().optional(),
+	lessonLearned: z.string().optional(),
+	disciplineNotes: z.string().optional(),
+	followedPlan: z.boolean().optional(),
+	setupRank: setupRankField.optional(),
+	mfe: numericField.optional(),
+	mae: numericField.optional(),
+	contractsExecuted: numericField.optional(),
+}
+
+const archCreateTradeBodySchema = z.object(archTradeFields)
+
+const archUpdateTradeBodySchema = z
+	.object(archTradeFields)
+	.partial()
+	.extend({ id: idField })
+
+const archIdBodySchema = z.object({
+	id: idField,
+})
+
+const archTradeNotesBodySchema = z.object({
+	id: idField,
+	preTradeThoughts: noteField.optional(),
+	postTradeReflection: noteField.optional(),
+	lessonLearned: noteField.optional(),
+	disciplineNotes: noteField.optional(),
+})
+
+const archAddTradeTagsBodySchema = z.object({
+	tradeId: idField,
+	tags: z.array(z.string().min(1)).min(1).describe("Tag names (fuzzy match)"),
+})
+
+const archRemoveTradeTagBodySchema = z.object({
+	tradeId: idField,
+	tag: z.string().min(1).describe("Tag name (fuzzy match)"),
+})
+
+const archExecutionFields = {
+	executionType: z.enum(["entry", "exit"]),
+	executionDate: z.string().min(1),
+	price: z.number(),
+	quantity: z.number(),
+	orderType: z.enum(["market", "limit", "stop", "stop_limit"]).nullable().optional(),
+	notes: z.string().nullable().optional(),
+	commission: z.number().nullable().optional(),
+	fees: z.number().nullable().optional(),
+	slippage: z.number().nullable().optional(),
+}
+
+const archCreateExecutionBodySchema = z.object({
+	tradeId: idField,
+	...archExecutionFields,
+})
+
+const archUpdateExecutionBodySchema = z
+	.object(archExecutionFields)
+	.partial()
+	.extend({ id: idField })
+
+const archUpdateStrategyBodySchema = updateStrategySchema.extend({ id: idField })
+
+const archCreateTagBodySchema = z.object({
+	name: z.string().min(1).max(50),
+	type: z.enum(["setup", "mistake", "general"]),
+	color: z
+		.string()
+		.regex(/^#[0-9A-Fa-f]{6}$/)
+		.optional(),
+	description: z.string().max(500).optional(),
+})
+
+const archUpdateTagBodySchema = archCreateTagBodySchema.partial().extend({ id: idField })
+
+const archSwitchAccountBodySchema = z.object({
+	accountId: idField,
+})
+
+const archCreateBugBodySchema = z.object({
+	subject: z.string().min(1).max(200),
+	description: z.string().min(1),
+	currentUrl: z.string().max(500).optional(),
+	consoleLogs: z.string().optional(),
+	networkErrors: z.string().optional(),
+})
+
+const archUpdateBugBodySchema = z.object({
+	id: idField,
+	action: z.enum(["accept", "reject", "close"]),
+	rejectReason: z.string().optional().describe("Required when action is reject"),
+	adminNotes: z.string().optional(),
+})
+
+export {
+	archFilterQuerySchema,
+	archDateRangeQuerySchema,
+	archDateQuerySchema,
+	archTradeListQuerySchema,
+	archEquityCurveQuerySchema,
+	archDailyPnlQuerySchema,
+	archPerformanceQuerySchema,
+	archMonthlyPlanQuerySchema,
+	archWeeklyReportQuerySchema,
+	archMonthlyReportQuerySchema,
+	archBugListQuerySchema,
+	archIdPathSchema,
+	archCreateTradeBodySchema,
+	archUpdateTradeBodySchema,
+	archIdBodySchema,
+	archTradeNotesBodySchema,
+	archAddTradeTagsBodySchema,
+	archRemoveTradeTagBodySchema,
+	archCreateExecutionBodySchema,
+	archUpdateExecutionBodySchema,
+	archUpdateStrategyBodySchema,
+	archCreateTagBodySchema,
+	archUpdateTagBodySchema,
+	archSwitchAccountBodySchema,
+	archCreateBugBodySchema,
+	archUpdateBugBodySchema,
+	createStrategySchema,
+	monthlyPlanSchema,
+	dailyNotesSchema,
+	dataSourceSchema,
+	simulationParamsV2Schema,
+}
@@ -10,13 +10,20 @@ const GET = async (
 	request: NextRequest,
 	{ params }: { params: Promise<{ id: string }> }
 ) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
 	try {
 		const { id } = await params
 
+		// Keys pinned to an account can't read the others
+		if (auth.accountRestricted && id !== auth.accountId) {
+			return archError("Account not found", [
+				{ code: "NOT_FOUND", detail: "Account does not exist" },
+			], 404)
+		}
+
 		const account = await db.query.tradingAccounts.findFirst({
 			where: and(
 				eq(tradingAccounts.id, id),
@@ -1,19 +1,21 @@
 import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { tradingAccounts } from "@/db/schema"
-import { eq } from "drizzle-orm"
+import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
 import { archSuccess, archError } from "../../_lib/helpers"
 import { getUserDek, decryptAccountFields } from "@/lib/user-crypto"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
 	try {
 		const accounts = await db.query.tradingAccounts.findMany({
-			where: eq(tradingAccounts.userId, auth.userId),
+			where: auth.accountRestricted
+				? and(eq(tradingAccounts.userId, auth.userId), eq(tradingAccounts.id, auth.accountId))
+				: eq(tradingAccounts.userId, auth.userId),
 		})
 
 		const dek = await getUserDek(auth.userId)
@@ -3,23 +3,25 @@ import { db } from "@/db/drizzle"
 import { tradingAccounts } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archSwitchAccountBodySchema } from "../../_lib/schemas"
 
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = await request.json()
-		const { accountId } = body
+	if (auth.accountRestricted) {
+		return archError("This API key is restricted to a single account", [
+			{ code: "ACCOUNT_RESTRICTED", detail: "Account switching is not available for account-restricted keys" },
+		], 403)
+	}
 
-		if (!accountId) {
-			return archError("Missing required field: accountId", [
-				{ code: "MISSING_FIELD", detail: "accountId is required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archSwitchAccountBodySchema)
+	if (!parsed.success) return parsed.response
+	const { accountId } = parsed.data
 
+	try {
 		// Verify the account belongs to the user
 		const targetAccount = await db.query.tradingAccounts.findFirst({
 			where: and(
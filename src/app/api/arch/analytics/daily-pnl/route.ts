@@ -3,35 +3,28 @@ import { eq, and, gte, lte, asc, inArray } from "drizzle-orm"
 import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archDailyPnlQuerySchema } from "../../_lib/schemas"
 import { fromCents } from "@/lib/money"
 import { getStartOfMonth, getEndOfMonth, formatDateKey } from "@/lib/dates"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const searchParams = request.nextUrl.searchParams
-		const yearParam = searchParams.get("year")
-		const monthParam = searchParams.get("month")
-
-		if (!yearParam || !monthParam) {
-			return archError(
-				"Missing required parameters",
-				[{ code: "MISSING_PARAMS", detail: "year and month query params are required" }]
-			)
-		}
+	const query = parseArchQuery(request.nextUrl.searchParams, archDailyPnlQuerySchema)
+	if (!query.success) return query.response
 
-		const year = parseInt(yearParam, 10)
-		const monthIndex = parseInt(monthParam, 10)
+	try {
+		const year = parseInt(query.data.year, 10)
+		const monthIndex = parseInt(query.data.month, 10)
 
-		if (Number.isNaN(year) || Number.isNaN(monthIndex) || monthIndex < 0 || monthIndex > 11) {
+		if (monthIndex < 0 || monthIndex > 11) {
 			return archError(
 				"Invalid parameters",
-				[{ code: "INVALID_PARAMS", detail: "year must be a number, month must be 0-11" }]
+				[{ code: "INVALID_PARAMS", detail: "month must be 0-11" }]
 			)
 		}
 
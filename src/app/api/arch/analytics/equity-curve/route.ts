@@ -3,20 +3,23 @@ import { eq, and, gte, lte, inArray } from "drizzle-orm"
 import { db } from "@/db/drizzle"
 import { trades, settings, tradingAccounts } from "@/db/schema"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archEquityCurveQuerySchema } from "../../_lib/schemas"
 import { fetchAndDecryptTrades } from "../../_lib/decrypt"
 import { fromCents } from "@/lib/money"
 import { formatDateKey } from "@/lib/dates"
 import type { SQL } from "drizzle-orm"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archEquityCurveQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const searchParams = request.nextUrl.searchParams
-		const mode = searchParams.get("mode") === "trade" ? "trade" : "daily"
+		const mode = query.data.mode ?? "daily"
 
 		// Get account balance from trading account
 		const account = await db.query.tradingAccounts.findFirst({
@@ -37,8 +40,7 @@ const GET = async (request: NextRequest) => {
 
 		const conditions: SQL[] = [accountCondition, eq(trades.isArchived, false)]
 
-		const dateFrom = searchParams.get("dateFrom")
-		const dateTo = searchParams.get("dateTo")
+		const { dateFrom, dateTo } = query.data
 		if (dateFrom) conditions.push(gte(trades.entryDate, new Date(dateFrom)))
 		if (dateTo) conditions.push(lte(trades.entryDate, new Date(dateTo)))
 
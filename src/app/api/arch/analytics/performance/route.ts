@@ -1,16 +1,13 @@
 import type { NextRequest } from "next/server"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archPerformanceQuerySchema } from "../../_lib/schemas"
 import { parseArchFilters } from "../../_lib/filters"
 import { fetchAndDecryptTrades } from "../../_lib/decrypt"
 import { fromCents } from "@/lib/money"
 import { calculateWinRate, calculateProfitFactor } from "@/lib/calculations"
 import { getBrtTimeParts } from "@/lib/dates"
 
-type GroupByOption = "asset" | "timeframe" | "hour" | "dayOfWeek" | "strategy"
-
-const VALID_GROUP_BY: GroupByOption[] = ["asset", "timeframe", "hour", "dayOfWeek", "strategy"]
-
 const DAY_NAMES = [
 	"Sunday",
 	"Monday",
@@ -33,20 +30,16 @@ interface GroupData {
 }
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archPerformanceQuerySchema)
+	if (!query.success) return query.response
+
 	try {
 		const searchParams = request.nextUrl.searchParams
-		const groupByParam = searchParams.get("groupBy") as GroupByOption | null
-
-		if (!groupByParam || !VALID_GROUP_BY.includes(groupByParam)) {
-			return archError(
-				"Invalid or missing groupBy parameter",
-				[{ code: "INVALID_PARAMS", detail: `groupBy must be one of: ${VALID_GROUP_BY.join(", ")}` }]
-			)
-		}
+		const groupByParam = query.data.groupBy
 
 		const conditions = await parseArchFilters(searchParams, auth)
 
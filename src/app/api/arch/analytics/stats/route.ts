@@ -1,16 +1,20 @@
 import type { NextRequest } from "next/server"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archFilterQuerySchema } from "../../_lib/schemas"
 import { parseArchFilters } from "../../_lib/filters"
 import { fetchAndDecryptTrades } from "../../_lib/decrypt"
 import { fromCents } from "@/lib/money"
 import { calculateWinRate, calculateProfitFactor } from "@/lib/calculations"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archFilterQuerySchema)
+	if (!query.success) return query.response
+
 	try {
 		const searchParams = request.nextUrl.searchParams
 		const conditions = await parseArchFilters(searchParams, auth)
@@ -14,7 +14,7 @@ const GET = async (
 	request: NextRequest,
 	{ params }: { params: Promise<{ id: string }> }
 ) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "bugs:manage")
 	if (!authResult.success) return authResult.response
 
 	try {
@@ -1,20 +1,12 @@
 import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { bugReports } from "@/db/schema"
-import { z } from "zod"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archCreateBugBodySchema } from "../../_lib/schemas"
 
 const ARCH_USER_AGENT = "Arch API"
 
-const createSchema = z.object({
-	subject: z.string().min(1).max(200),
-	description: z.string().min(1),
-	currentUrl: z.string().max(500).optional(),
-	consoleLogs: z.string().optional(),
-	networkErrors: z.string().optional(),
-})
-
 /**
  * POST /api/arch/bugs/create
  *
@@ -22,14 +14,15 @@ const createSchema = z.object({
  * Useful for Arch to file bugs discovered during automated operations.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "bugs:manage")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = await request.json()
-		const validated = createSchema.parse(body)
+	const parsed = await parseArchBody(request, archCreateBugBodySchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
+	try {
 		const [report] = await db
 			.insert(bugReports)
 			.values({
@@ -45,11 +38,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Bug report created", { id: report.id })
 	} catch (error) {
-		if (error instanceof z.ZodError) {
-			return archError("Invalid request body", [
-				{ code: "VALIDATION_ERROR", detail: error.message },
-			])
-		}
 		return archError(
 			"Failed to create bug report",
 			[{ code: "CREATE_FAILED", detail: String(error) }],
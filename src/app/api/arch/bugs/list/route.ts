@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { bugReports, users } from "@/db/schema"
 import { eq, desc, sql } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archBugListQuerySchema } from "../../_lib/schemas"
 
 /**
  * GET /api/arch/bugs/list
@@ -12,18 +13,16 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * Query params: ?status=open&limit=50&offset=0
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "bugs:manage")
 	if (!authResult.success) return authResult.response
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archBugListQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const { searchParams } = new URL(request.url)
-		const validStatuses = ["open", "accepted", "rejected", "closed"] as const
-		const rawStatus = searchParams.get("status")
-		const statusFilter = rawStatus && validStatuses.includes(rawStatus as typeof validStatuses[number])
-			? (rawStatus as typeof validStatuses[number])
-			: null
-		const limit = Math.min(Number(searchParams.get("limit")) || 50, 100)
-		const offset = Number(searchParams.get("offset")) || 0
+		const statusFilter = query.data.status ?? null
+		const limit = Math.min(Number(query.data.limit) || 50, 100)
+		const offset = Number(query.data.offset) || 0
 
 		const conditions = statusFilter
 			? eq(bugReports.status, statusFilter)
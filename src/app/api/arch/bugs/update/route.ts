@@ -2,16 +2,9 @@ import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { bugReports } from "@/db/schema"
 import { eq } from "drizzle-orm"
-import { z } from "zod"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
-
-const updateSchema = z.object({
-	id: z.string().uuid(),
-	action: z.enum(["accept", "reject", "close"]),
-	rejectReason: z.string().optional(),
-	adminNotes: z.string().optional(),
-})
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archUpdateBugBodySchema } from "../../_lib/schemas"
 
 /**
  * POST /api/arch/bugs/update
@@ -19,14 +12,15 @@ const updateSchema = z.object({
  * Update bug report status. Actions: accept, reject (requires rejectReason), close.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "bugs:manage")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = await request.json()
-		const validated = updateSchema.parse(body)
+	const parsed = await parseArchBody(request, archUpdateBugBodySchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
+	try {
 		if (validated.action === "reject" && !validated.rejectReason) {
 			return archError("rejectReason is required when rejecting", [
 				{ code: "VALIDATION_ERROR", detail: "rejectReason is required" },
@@ -68,11 +62,6 @@ const POST = async (request: NextRequest) => {
 		const actionLabel = validated.action === "close" ? "closed" : `${validated.action}ed`
 		return archSuccess(`Bug report ${actionLabel}`, updated)
 	} catch (error) {
-		if (error instanceof z.ZodError) {
-			return archError("Invalid request body", [
-				{ code: "VALIDATION_ERROR", detail: error.message },
-			])
-		}
 		return archError(
 			"Failed to update bug report",
 			[{ code: "UPDATE_FAILED", detail: String(error) }],
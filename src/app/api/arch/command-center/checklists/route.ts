@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { dailyChecklists, checklistCompletions } from "@/db/schema"
 import { eq, and, gte, lte, desc, inArray } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archDateQuerySchema } from "../../_lib/schemas"
 import type { ChecklistItem } from "@/lib/validations/command-center"
 
 /**
@@ -15,13 +16,16 @@ import type { ChecklistItem } from "@/lib/validations/command-center"
  * - date (optional): ISO date string, defaults to today
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const dateParam = request.nextUrl.searchParams.get("date")
+		const dateParam = query.data.date
 		const today = dateParam ? new Date(dateParam) : new Date()
 		today.setHours(0, 0, 0, 0)
 		const tomorrow = new Date(today)
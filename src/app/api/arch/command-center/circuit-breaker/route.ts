@@ -5,7 +5,8 @@ import { eq, and, gte, lte, desc } from "drizzle-orm"
 import { getUserDek, decryptMonthlyPlanFields } from "@/lib/user-crypto"
 import { fromCents, toCents } from "@/lib/money"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archDateQuerySchema } from "../../_lib/schemas"
 
 /**
  * GET /api/arch/command-center/circuit-breaker
@@ -17,13 +18,16 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * - date (optional): ISO date string, defaults to today
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const dateParam = request.nextUrl.searchParams.get("date")
+		const dateParam = query.data.date
 		const today = dateParam ? new Date(dateParam) : new Date()
 		today.setHours(0, 0, 0, 0)
 		const tomorrow = new Date(today)
@@ -1,10 +1,11 @@
 import type { NextRequest } from "next/server"
-import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
-import { eq, and, gte, lte, desc } from "drizzle-orm"
+import { eq, gte, lte } from "drizzle-orm"
 import { fromCents } from "@/lib/money"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { fetchAndDecryptTrades } from "../../_lib/decrypt"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archDateQuerySchema } from "../../_lib/schemas"
 
 /**
  * GET /api/arch/command-center/daily-summary
@@ -15,27 +16,27 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * - date (optional): ISO date string, defaults to today
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
-	const { accountId } = authResult.auth
+	const { userId, accountId } = authResult.auth
+
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateQuerySchema)
+	if (!query.success) return query.response
 
 	try {
-		const dateParam = request.nextUrl.searchParams.get("date")
+		const dateParam = query.data.date
 		const today = dateParam ? new Date(dateParam) : new Date()
 		today.setHours(0, 0, 0, 0)
 		const tomorrow = new Date(today)
 		tomorrow.setDate(tomorrow.getDate() + 1)
 
-		const todaysTrades = await db.query.trades.findMany({
-			where: and(
-				eq(trades.accountId, accountId),
-				gte(trades.entryDate, today),
-				lte(trades.entryDate, tomorrow),
-				eq(trades.isArchived, false)
-			),
-			orderBy: [desc(trades.entryDate)],
-		})
+		const todaysTrades = await fetchAndDecryptTrades(userId, [
+			eq(trades.accountId, accountId),
+			gte(trades.entryDate, today),
+			lte(trades.entryDate, tomorrow),
+			eq(trades.isArchived, false),
+		])
 
 		let totalPnL = 0
 		let winCount = 0
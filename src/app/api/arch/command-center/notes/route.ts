@@ -2,11 +2,11 @@ import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { dailyAccountNotes } from "@/db/schema"
 import { eq, and, gte, lte } from "drizzle-orm"
-import { z } from "zod"
 import { dailyNotesSchema } from "@/lib/validations/command-center"
 import { getUserDek, encryptDailyNotesFields, decryptDailyNotesFields } from "@/lib/user-crypto"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody, parseArchQuery } from "../../_lib/helpers"
+import { archDateQuerySchema } from "../../_lib/schemas"
 
 /**
  * GET /api/arch/command-center/notes
@@ -17,13 +17,16 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * - date (optional): ISO date string, defaults to today
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const dateParam = request.nextUrl.searchParams.get("date")
+		const dateParam = query.data.date
 		const today = dateParam ? new Date(dateParam) : new Date()
 		today.setHours(0, 0, 0, 0)
 		const tomorrow = new Date(today)
@@ -63,15 +66,16 @@ const GET = async (request: NextRequest) => {
  * Body: { date, preMarketNotes?, postMarketNotes?, mood? }
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:write")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
-	try {
-		const body = await request.json()
-		const validated = dailyNotesSchema.parse(body)
+	const parsed = await parseArchBody(request, dailyNotesSchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
+	try {
 		const noteDate = new Date(validated.date)
 		noteDate.setHours(0, 0, 0, 0)
 		const nextDay = new Date(noteDate)
@@ -135,13 +139,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Notes created", decryptedNewNotes)
 	} catch (error) {
-		if (error instanceof z.ZodError) {
-			return archError("Validation failed", error.issues.map((issue) => ({
-				code: "VALIDATION_ERROR",
-				detail: `${issue.path.join(".")}: ${issue.message}`,
-			})))
-		}
-
 		const message = error instanceof Error ? error.message : "Unknown error"
 		return archError("Failed to save notes", [
 			{ code: "SAVE_FAILED", detail: message },
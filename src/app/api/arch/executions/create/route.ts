@@ -8,7 +8,9 @@ import {
 	archSuccess,
 	archError,
 	formatExecutionForArch,
+	parseArchBody,
 } from "../../_lib/helpers"
+import { archCreateExecutionBodySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 import {
 	getUserDek,
@@ -18,56 +20,20 @@ import {
 import { updateTradeAggregates } from "@/app/actions/executions"
 import { toCents } from "@/lib/money"
 
-interface CreateExecutionBody {
-	tradeId: string
-	executionType: "entry" | "exit"
-	executionDate: string
-	price: number
-	quantity: number
-	orderType?: "market" | "limit" | "stop" | "stop_limit" | null
-	notes?: string | null
-	commission?: number | null
-	fees?: number | null
-	slippage?: number | null
-}
-
 /**
  * POST /api/arch/executions/create
  * Create a new execution leg for a trade.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as CreateExecutionBody
-
-		if (
-			!body.tradeId ||
-			!body.executionType ||
-			!body.executionDate ||
-			body.price == null ||
-			body.quantity == null
-		) {
-			return archError("Missing required fields", [
-				{
-					code: "VALIDATION_ERROR",
-					detail:
-						"tradeId, executionType, executionDate, price, and quantity are required",
-				},
-			])
-		}
-
-		if (!["entry", "exit"].includes(body.executionType)) {
-			return archError("Invalid execution type", [
-				{
-					code: "VALIDATION_ERROR",
-					detail: "executionType must be 'entry' or 'exit'",
-				},
-			])
-		}
+	const parsed = await parseArchBody(request, archCreateExecutionBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const tradeCondition = and(
 			eq(trades.id, body.tradeId),
 			buildAccountCondition(auth)
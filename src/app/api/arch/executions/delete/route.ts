@@ -3,32 +3,25 @@ import { db } from "@/db/drizzle"
 import { trades, tradeExecutions } from "@/db/schema"
 import { eq } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archIdBodySchema } from "../../_lib/schemas"
 import { getUserDek } from "@/lib/user-crypto"
 import { updateTradeAggregates } from "@/app/actions/executions"
 
-interface DeleteExecutionBody {
-	id: string
-}
-
 /**
  * POST /api/arch/executions/delete
  * Delete an execution leg from a trade.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as DeleteExecutionBody
-
-		if (!body.id) {
-			return archError("Missing required field", [
-				{ code: "VALIDATION_ERROR", detail: "id is required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archIdBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const existing = await db.query.tradeExecutions.findFirst({
 			where: eq(tradeExecutions.id, body.id),
 			with: { trade: true },
@@ -8,7 +8,9 @@ import {
 	archSuccess,
 	archError,
 	formatExecutionForArch,
+	parseArchBody,
 } from "../../_lib/helpers"
+import { archUpdateExecutionBodySchema } from "../../_lib/schemas"
 import {
 	getUserDek,
 	encryptExecutionFields,
@@ -17,37 +19,20 @@ import {
 import { updateTradeAggregates } from "@/app/actions/executions"
 import { toCents } from "@/lib/money"
 
-interface UpdateExecutionBody {
-	id: string
-	executionType?: "entry" | "exit"
-	executionDate?: string
-	price?: number
-	quantity?: number
-	orderType?: "market" | "limit" | "stop" | "stop_limit" | null
-	notes?: string | null
-	commission?: number | null
-	fees?: number | null
-	slippage?: number | null
-}
-
 /**
  * POST /api/arch/executions/update
  * Update an existing execution leg.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as UpdateExecutionBody
-
-		if (!body.id) {
-			return archError("Missing required field", [
-				{ code: "VALIDATION_ERROR", detail: "id is required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archUpdateExecutionBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const rawExisting = await db.query.tradeExecutions.findFirst({
 			where: eq(tradeExecutions.id, body.id),
 			with: { trade: true },
@@ -1,12 +1,14 @@
 import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
-import { trades, monthlyPlans, riskManagementProfiles } from "@/db/schema"
+import { trades, monthlyPlans, riskManagementProfiles, riskProfileVersions } from "@/db/schema"
 import { eq, and, gte, lte } from "drizzle-orm"
 import { getUserDek, decryptTradeFields, decryptMonthlyPlanFields } from "@/lib/user-crypto"
 import { resolveLiveStatus } from "@/lib/live-trading-status"
+import { emitRiskWebhookEvents } from "@/lib/webhook-dispatcher"
 import { fromCents } from "@/lib/money"
 import { archAuth } from "../_lib/auth"
-import { archSuccess, archError } from "../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../_lib/helpers"
+import { archDateQuerySchema } from "../_lib/schemas"
 import type { DecisionTreeConfig } from "@/types/risk-profile"
 import type { TradeSummary } from "@/types/live-trading-status"
 
@@ -20,13 +22,16 @@ import type { TradeSummary } from "@/types/live-trading-status"
  * - date (optional): ISO date string, defaults to today
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const dateParam = request.nextUrl.searchParams.get("date")
+		const dateParam = query.data.date
 		const today = dateParam ? new Date(dateParam) : new Date()
 		today.setHours(0, 0, 0, 0)
 		const tomorrow = new Date(today)
@@ -59,12 +64,18 @@ const GET = async (request: NextRequest) => {
 			})
 		}
 
-		// Fetch the linked risk profile directly
-		const [profileRow] = await db
-			.select()
-			.from(riskManagementProfiles)
-			.where(eq(riskManagementProfiles.id, monthlyPlan.riskProfileId))
-			.limit(1)
+		// Fetch the pinned profile version, or the linked profile for unpinned plans
+		const [profileRow] = monthlyPlan.riskProfileVersionId
+			? await db
+				.select()
+				.from(riskProfileVersions)
+				.where(eq(riskProfileVersions.id, monthlyPlan.riskProfileVersionId))
+				.limit(1)
+			: await db
+				.select()
+				.from(riskManagementProfiles)
+				.where(eq(riskManagementProfiles.id, monthlyPlan.riskProfileId))
+				.limit(1)
 
 		if (!profileRow) {
 			return archSuccess("Risk profile not found", {
@@ -128,6 +139,16 @@ const GET = async (request: NextRequest) => {
 			maxTrades,
 		})
 
+		if (!dateParam) {
+			await emitRiskWebhookEvents(userId, accountId, {
+				date: today,
+				dailyPnlCents: status.dailyPnlCents,
+				lossLimitHit: status.stopReason === "dailyLossLimit",
+				shouldStopTrading: status.shouldStopTrading,
+				reasons: status.stopReason ? [status.stopReason] : [],
+			})
+		}
+
 		// Build trade summaries by zipping decrypted trades with step numbers
 		const tradeSummaries: TradeSummary[] = todaysTrades.map((trade, index) => ({
 			tradeStepNumber: status.tradeStepNumbers[index] ?? index + 1,
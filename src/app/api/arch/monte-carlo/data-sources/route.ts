@@ -7,7 +7,7 @@ import { eq, and, inArray, isNotNull, desc } from "drizzle-orm"
 import type { DataSourceOption } from "@/types/monte-carlo"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
@@ -1,23 +1,23 @@
 import type { NextRequest } from "next/server"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
 import { db } from "@/db/drizzle"
 import { trades, strategies } from "@/db/schema"
 import { eq, and, inArray, isNotNull, desc } from "drizzle-orm"
-import { z } from "zod"
 import { dataSourceSchema } from "@/lib/validations/monte-carlo"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import type { SourceStats } from "@/types/monte-carlo"
 
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = await request.json()
-		const validated = dataSourceSchema.parse(body)
+	const parsed = await parseArchBody(request, dataSourceSchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
+	try {
 		let tradesList: Array<{
 			outcome: string | null
 			pnl: number | string | null
@@ -244,16 +244,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Stats retrieved", stats)
 	} catch (error) {
-		if (error instanceof z.ZodError) {
-			return archError(
-				"Validation failed",
-				error.issues.map((e) => ({
-					code: "VALIDATION_ERROR",
-					detail: `${e.path.join(".")}: ${e.message}`,
-				}))
-			)
-		}
-
 		return archError(
 			"Failed to retrieve simulation stats",
 			[{ code: "FETCH_FAILED", detail: String(error) }],
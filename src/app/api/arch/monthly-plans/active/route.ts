@@ -13,7 +13,7 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * Uses the current date to determine year/month.
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
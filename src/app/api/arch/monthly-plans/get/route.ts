@@ -4,7 +4,8 @@ import { monthlyPlans } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { getUserDek, decryptMonthlyPlanFields } from "@/lib/user-crypto"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archMonthlyPlanQuerySchema } from "../../_lib/schemas"
 
 /**
  * GET /api/arch/monthly-plans/get
@@ -16,26 +17,20 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * - month (required): 1-indexed month (1-12)
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:read")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
-	const yearParam = request.nextUrl.searchParams.get("year")
-	const monthParam = request.nextUrl.searchParams.get("month")
+	const query = parseArchQuery(request.nextUrl.searchParams, archMonthlyPlanQuerySchema)
+	if (!query.success) return query.response
 
-	if (!yearParam || !monthParam) {
-		return archError("Missing required query params: year and month", [
-			{ code: "MISSING_PARAMS", detail: "Both year and month query params are required" },
-		])
-	}
-
-	const year = parseInt(yearParam, 10)
-	const month = parseInt(monthParam, 10)
+	const year = parseInt(query.data.year, 10)
+	const month = parseInt(query.data.month, 10)
 
-	if (Number.isNaN(year) || Number.isNaN(month) || month < 1 || month > 12) {
+	if (month < 1 || month > 12) {
 		return archError("Invalid year or month", [
-			{ code: "INVALID_PARAMS", detail: "Year must be a number, month must be 1-12" },
+			{ code: "INVALID_PARAMS", detail: "Month must be 1-12" },
 		])
 	}
 
@@ -2,13 +2,14 @@ import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { monthlyPlans } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
-import { z } from "zod"
 import { monthlyPlanSchema } from "@/lib/validations/monthly-plan"
 import { deriveMonthlyPlanValues } from "@/lib/monthly-plan"
 import { getUserDek, encryptMonthlyPlanFields, decryptMonthlyPlanFields } from "@/lib/user-crypto"
 import { isMonthBeyondAllowed } from "@/lib/monthly-plan-date-guard"
+import { getLatestRiskProfileVersionId } from "@/lib/risk-profile-versions"
+import { findVisibleProfileRow } from "@/lib/risk-profile-visibility"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
 
 /**
  * POST /api/arch/monthly-plans/upsert
@@ -19,15 +20,16 @@ import { archSuccess, archError } from "../../_lib/helpers"
  * Body: MonthlyPlanInput (JSON)
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "plans:write")
 	if (!authResult.success) return authResult.response
 
 	const { userId, accountId } = authResult.auth
 
-	try {
-		const body = await request.json()
-		const validated = monthlyPlanSchema.parse(body)
+	const parsed = await parseArchBody(request, monthlyPlanSchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
+	try {
 		// Block plans for months too far in the future
 		if (isMonthBeyondAllowed(validated.year, validated.month)) {
 			return archError("Plans can only be created for the current or next month (within last 5 days)", [
@@ -55,6 +57,23 @@ const POST = async (request: NextRequest) => {
 			),
 		})
 
+		// Only profiles the key's user can see (public, own or shared with them) can be attached
+		if (validated.riskProfileId && validated.riskProfileId !== existing?.riskProfileId) {
+			const profile = await findVisibleProfileRow(validated.riskProfileId, userId)
+			if (!profile) {
+				return archError("Risk profile not found", [
+					{ code: "NOT_FOUND", detail: "Risk profile not found" },
+				], 404)
+			}
+		}
+
+		// Keep the pinned version while the profile stays the same
+		const riskProfileVersionId = !validated.riskProfileId
+			? null
+			: existing?.riskProfileId === validated.riskProfileId && existing.riskProfileVersionId
+				? existing.riskProfileVersionId
+				: await getLatestRiskProfileVersionId(validated.riskProfileId)
+
 		const planFields = {
 			accountBalance: String(validated.accountBalance),
 			riskPerTradePercent: String(validated.riskPerTradePercent),
@@ -77,6 +96,7 @@ const POST = async (request: NextRequest) => {
 				: null,
 			notes: validated.notes ?? null,
 			riskProfileId: validated.riskProfileId ?? null,
+			riskProfileVersionId,
 			weeklyLossPercent: validated.weeklyLossPercent != null
 				? String(validated.weeklyLossPercent)
 				: null,
@@ -127,13 +147,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Monthly plan created", decryptedNewPlan)
 	} catch (error) {
-		if (error instanceof z.ZodError) {
-			return archError("Validation failed", error.issues.map((issue) => ({
-				code: "VALIDATION_ERROR",
-				detail: `${issue.path.join(".")}: ${issue.message}`,
-			})))
-		}
-
 		const message = error instanceof Error ? error.message : "Unknown error"
 		return archError("Failed to save monthly plan", [
 			{ code: "SAVE_FAILED", detail: message },
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { buildArchOpenApiDocument } from "../_lib/openapi"
+
+/**
+ * GET /api/arch/openapi.json
+ *
+ * OpenAPI 3.1 document generated from the schemas the routes validate with.
+ * No auth required, like /api/arch/docs.
+ */
+const GET = async (): Promise<NextResponse> => NextResponse.json(buildArchOpenApiDocument())
+
+export { GET }
@@ -6,7 +6,7 @@ import { archAuth } from "../../_lib/auth"
 import { archSuccess, archError } from "../../_lib/helpers"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
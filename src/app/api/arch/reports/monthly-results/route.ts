@@ -4,7 +4,8 @@ import { trades, tradingAccounts } from "@/db/schema"
 import { eq, and, gte, lte, desc, inArray } from "drizzle-orm"
 import { startOfMonth, endOfMonth, startOfWeek, endOfWeek, subMonths } from "date-fns"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archMonthlyReportQuerySchema } from "../../_lib/schemas"
 import { fromCents } from "@/lib/money"
 import { formatDateKey } from "@/lib/dates"
 import { getUserDek, decryptTradeFields, decryptAccountFields } from "@/lib/user-crypto"
@@ -37,21 +38,22 @@ const calculatePropProfit = (
 }
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archMonthlyReportQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const searchParams = request.nextUrl.searchParams
 		const accountCondition = auth.showAllAccounts
 			? inArray(trades.accountId, auth.allAccountIds)
 			: eq(trades.accountId, auth.accountId)
 
 		// Determine month boundaries
 		let referenceDate: Date
-		const yearParam = searchParams.get("year")
-		const monthParam = searchParams.get("month")
-		const monthOffset = parseInt(searchParams.get("monthOffset") ?? "0", 10) || 0
+		const { year: yearParam, month: monthParam } = query.data
+		const monthOffset = parseInt(query.data.monthOffset ?? "0", 10) || 0
 
 		if (yearParam && monthParam) {
 			referenceDate = new Date(parseInt(yearParam, 10), parseInt(monthParam, 10) - 1, 15)
@@ -1,6 +1,7 @@
 import type { NextRequest } from "next/server"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archWeeklyReportQuerySchema } from "../../_lib/schemas"
 import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
 import { eq, and, gte, lte, inArray, desc } from "drizzle-orm"
@@ -12,14 +13,15 @@ import { calculateReportSummary } from "../../_lib/report-summary"
 import type { WeeklyReport, DailyBreakdown } from "@/app/actions/reports"
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "analytics:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archWeeklyReportQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const searchParams = request.nextUrl.searchParams
-		const weekStartParam = searchParams.get("weekStart")
-		const weekOffsetParam = searchParams.get("weekOffset")
+		const { weekStart: weekStartParam, weekOffset: weekOffsetParam } = query.data
 
 		const accountCondition = auth.showAllAccounts
 			? inArray(trades.accountId, auth.allAccountIds)
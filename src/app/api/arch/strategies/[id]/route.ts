@@ -18,7 +18,7 @@ interface RouteParams {
  * Returns a single strategy by ID with performance stats, conditions, and scenarios.
  */
 const GET = async (request: NextRequest, { params }: RouteParams) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
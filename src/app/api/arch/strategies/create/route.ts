@@ -2,9 +2,8 @@ import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { strategies, strategyConditions } from "@/db/schema"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
 import { createStrategySchema } from "@/lib/validations/strategy"
-import type { CreateStrategyInput } from "@/lib/validations/strategy"
 
 /**
  * POST /api/arch/strategies/create
@@ -13,15 +12,15 @@ import type { CreateStrategyInput } from "@/lib/validations/strategy"
  * Validates input with Zod schema and handles unique constraint violations.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as CreateStrategyInput
+	const parsed = await parseArchBody(request, createStrategySchema)
+	if (!parsed.success) return parsed.response
+	const { conditions, ...strategyData } = parsed.data
 
-		const validated = createStrategySchema.parse(body)
-		const { conditions, ...strategyData } = validated
+	try {
 
 		const [newStrategy] = await db
 			.insert(strategies)
@@ -64,13 +63,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Strategy created successfully", createdStrategy)
 	} catch (error) {
-		if (error instanceof Error && error.name === "ZodError") {
-			return archError(
-				"Validation failed",
-				[{ code: "VALIDATION_ERROR", detail: error.message }]
-			)
-		}
-
 		const errorMessage = String(error)
 		const errorCause = error instanceof Error ? String(error.cause ?? "") : ""
 
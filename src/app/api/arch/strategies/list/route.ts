@@ -15,7 +15,7 @@ import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
  * Strategies are user-level (not account-scoped). Trade stats respect the showAllAccounts setting.
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
@@ -3,29 +3,8 @@ import { db } from "@/db/drizzle"
 import { strategies, strategyConditions } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
-import { updateStrategySchema } from "@/lib/validations/strategy"
-
-interface ArchUpdateStrategyBody {
-	id: string
-	code?: string
-	name?: string
-	description?: string
-	entryCriteria?: string
-	exitCriteria?: string
-	riskRules?: string
-	targetRMultiple?: number
-	maxRiskPercent?: number
-	screenshotUrl?: string
-	screenshotS3Key?: string
-	notes?: string
-	isActive?: boolean
-	conditions?: Array<{
-		conditionId: string
-		tier: "mandatory" | "tier_2" | "tier_3"
-		sortOrder?: number
-	}>
-}
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archUpdateStrategyBodySchema } from "../../_lib/schemas"
 
 /**
  * POST /api/arch/strategies/update
@@ -34,23 +13,18 @@ interface ArchUpdateStrategyBody {
  * If conditions are provided, replaces existing conditions entirely.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as ArchUpdateStrategyBody
-
-		if (!body.id) {
-			return archError(
-				"Missing required field: id",
-				[{ code: "MISSING_FIELDS", detail: "Required: id (UUID)" }]
-			)
-		}
+	const parsed = await parseArchBody(request, archUpdateStrategyBodySchema)
+	if (!parsed.success) return parsed.response
+	const { id, conditions, ...strategyData } = parsed.data
 
+	try {
 		const existing = await db.query.strategies.findFirst({
 			where: and(
-				eq(strategies.id, body.id),
+				eq(strategies.id, id),
 				eq(strategies.userId, auth.userId)
 			),
 		})
@@ -63,10 +37,6 @@ const POST = async (request: NextRequest) => {
 			)
 		}
 
-		const { id, conditions, ...updateFields } = body
-		const validated = updateStrategySchema.parse(updateFields)
-		const { conditions: validatedConditions, ...strategyData } = validated
-
 		const updateValues: Record<string, unknown> = {
 			updatedAt: new Date(),
 		}
@@ -94,15 +64,14 @@ const POST = async (request: NextRequest) => {
 				)
 			)
 
-		const conditionsToInsert = validatedConditions ?? conditions
-		if (conditionsToInsert !== undefined) {
+		if (conditions !== undefined) {
 			await db
 				.delete(strategyConditions)
 				.where(eq(strategyConditions.strategyId, id))
 
-			if (conditionsToInsert.length) {
+			if (conditions.length) {
 				await db.insert(strategyConditions).values(
-					conditionsToInsert.map((condition) => ({
+					conditions.map((condition) => ({
 						strategyId: id,
 						conditionId: condition.conditionId,
 						tier: condition.tier,
@@ -123,13 +92,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Strategy updated successfully", updatedStrategy)
 	} catch (error) {
-		if (error instanceof Error && error.name === "ZodError") {
-			return archError(
-				"Validation failed",
-				[{ code: "VALIDATION_ERROR", detail: error.message }]
-			)
-		}
-
 		const errorMessage = String(error)
 		const errorCause = error instanceof Error ? String(error.cause ?? "") : ""
 
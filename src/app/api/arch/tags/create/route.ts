@@ -1,21 +1,9 @@
 import type { NextRequest } from "next/server"
 import { db } from "@/db/drizzle"
 import { tags } from "@/db/schema"
-import { z } from "zod"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
-
-const createTagSchema = z.object({
-	name: z.string().min(1).max(50),
-	type: z.enum(["setup", "mistake", "general"]),
-	color: z
-		.string()
-		.regex(/^#[0-9A-Fa-f]{6}$/)
-		.optional(),
-	description: z.string().max(500).optional(),
-})
-
-type CreateTagInput = z.infer<typeof createTagSchema>
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archCreateTagBodySchema } from "../../_lib/schemas"
 
 /**
  * POST /api/arch/tags/create
@@ -24,14 +12,15 @@ type CreateTagInput = z.infer<typeof createTagSchema>
  * Validates input with Zod and handles unique constraint violations.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as CreateTagInput
+	const parsed = await parseArchBody(request, archCreateTagBodySchema)
+	if (!parsed.success) return parsed.response
+	const validated = parsed.data
 
-		const validated = createTagSchema.parse(body)
+	try {
 
 		const [newTag] = await db
 			.insert(tags)
@@ -46,13 +35,6 @@ const POST = async (request: NextRequest) => {
 
 		return archSuccess("Tag created successfully", newTag)
 	} catch (error) {
-		if (error instanceof Error && error.name === "ZodError") {
-			return archError(
-				"Validation failed",
-				[{ code: "VALIDATION_ERROR", detail: error.message }]
-			)
-		}
-
 		const errorMessage = String(error)
 		const errorCause = error instanceof Error ? String(error.cause ?? "") : ""
 
@@ -15,7 +15,7 @@ import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
  * Sorted by tradeCount descending.
  */
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
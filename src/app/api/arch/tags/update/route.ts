@@ -3,23 +3,19 @@ import { db } from "@/db/drizzle"
 import { tags } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archUpdateTagBodySchema } from "../../_lib/schemas"
 
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = await request.json()
-		const { id, name, type, color, description } = body
-
-		if (!id) {
-			return archError("Missing required field: id", [
-				{ code: "MISSING_FIELD", detail: "id is required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archUpdateTagBodySchema)
+	if (!parsed.success) return parsed.response
+	const { id, name, type, color, description } = parsed.data
 
+	try {
 		const existing = await db.query.tags.findFirst({
 			where: and(eq(tags.id, id), eq(tags.userId, auth.userId)),
 		})
@@ -20,7 +20,7 @@ const GET = async (
 	request: NextRequest,
 	{ params }: { params: Promise<{ id: string }> }
 ) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { trades, tradeTags } from "@/db/schema"
 import { eq } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError, formatTradeForArch } from "../../_lib/helpers"
+import { archSuccess, archError, formatTradeForArch, parseArchBody } from "../../_lib/helpers"
+import { archCreateTradeBodySchema } from "../../_lib/schemas"
 import {
 	resolveStrategyName,
 	resolveTagNames,
@@ -19,34 +20,10 @@ import {
 import { fromCents, toCents, toNumericString } from "@/lib/money"
 import { getUserDek, encryptTradeFields } from "@/lib/user-crypto"
 import { computeTradeHash } from "@/lib/deduplication"
+import { emitTradeWebhookEvents } from "@/lib/webhook-dispatcher"
 import { createTradeSchema } from "@/lib/validations/trade"
 import type { CreateTradeInput } from "@/lib/validations/trade"
 
-interface ArchCreateTradeBody {
-	asset: string
-	direction: "long" | "short"
-	entryDate: string | Date | number
-	entryPrice: number | string
-	positionSize: number | string
-	exitDate?: string | Date | number
-	exitPrice?: number | string
-	stopLoss?: number | string
-	takeProfit?: number | string
-	riskAmount?: number | string
-	strategy?: string
-	timeframe?: string
-	tags?: string[]
-	preTradeThoughts?: string
-	postTradeReflection?: string
-	lessonLearned?: string
-	disciplineNotes?: string
-	followedPlan?: boolean
-	setupRank?: "A" | "AA" | "AAA" | null
-	mfe?: number | string
-	mae?: number | string
-	contractsExecuted?: number | string
-}
-
 /**
  * POST /api/arch/trades/create
  *
@@ -56,30 +33,15 @@ interface ArchCreateTradeBody {
  * Encrypts sensitive fields if DEK is available.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as ArchCreateTradeBody
-
-		// Validate required fields before fuzzy resolution
-		if (
-			!body.asset ||
-			!body.direction ||
-			!body.entryDate ||
-			!body.entryPrice ||
-			!body.positionSize
-		) {
-			return archError("Missing required fields", [
-				{
-					code: "MISSING_FIELDS",
-					detail:
-						"Required: asset, direction, entryDate, entryPrice, positionSize",
-				},
-			])
-		}
+	const parsed = await parseArchBody(request, archCreateTradeBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		// Resolve fuzzy names to IDs
 		const strategyId = body.strategy
 			? await resolveStrategyName(body.strategy, auth.userId)
@@ -294,6 +256,8 @@ const POST = async (request: NextRequest) => {
 			)
 		}
 
+		await emitTradeWebhookEvents(auth.userId, auth.accountId, trade, dek, { created: true })
+
 		// Fetch the created trade with relations for formatted response
 		const createdTrade = await db.query.trades.findFirst({
 			where: eq(trades.id, trade.id),
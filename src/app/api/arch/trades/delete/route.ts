@@ -3,13 +3,10 @@ import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archIdBodySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 
-interface ArchDeleteTradeBody {
-	id: string
-}
-
 /**
  * POST /api/arch/trades/delete
  *
@@ -17,19 +14,15 @@ interface ArchDeleteTradeBody {
  * Verifies trade ownership via accountId (or allAccountIds if showAllAccounts).
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as ArchDeleteTradeBody
-
-		if (!body.id) {
-			return archError("Missing required field: id", [
-				{ code: "MISSING_FIELDS", detail: "Required: id (UUID)" },
-			])
-		}
+	const parsed = await parseArchBody(request, archIdBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const accountCondition = buildAccountCondition(auth)
 
 		// Verify trade exists and belongs to the user
@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
 import { eq, and, gte, lte, desc } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchQuery } from "../../_lib/helpers"
+import { archDateRangeQuerySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { formatDateKey, APP_TIMEZONE } from "@/lib/dates"
@@ -123,14 +124,15 @@ const calculateDaySummary = (
 }
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archDateRangeQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const searchParams = request.nextUrl.searchParams
-		const dateFrom = searchParams.get("dateFrom")
-		const dateTo = searchParams.get("dateTo")
+		const { dateFrom, dateTo } = query.data
 
 		const conditions = [
 			buildAccountCondition(auth),
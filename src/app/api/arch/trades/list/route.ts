@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { trades, tradeTags } from "@/db/schema"
 import { eq, and, gte, lte, inArray, desc, asc, count } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError, formatTradeForArch } from "../../_lib/helpers"
+import { archSuccess, archError, formatTradeForArch, parseArchQuery } from "../../_lib/helpers"
+import { archTradeListQuerySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import {
@@ -12,16 +13,6 @@ import {
 	resolveTimeframeName,
 } from "../../_lib/resolve-names"
 
-type SortByColumn = "entryDate" | "pnl" | "realizedRMultiple" | "asset"
-type SortOrder = "asc" | "desc"
-
-const VALID_SORT_COLUMNS: SortByColumn[] = [
-	"entryDate",
-	"pnl",
-	"realizedRMultiple",
-	"asset",
-]
-const VALID_SORT_ORDERS: SortOrder[] = ["asc", "desc"]
 const MAX_LIMIT = 100
 const DEFAULT_LIMIT = 20
 
@@ -41,7 +32,7 @@ const sortColumnMap = {
  * @returns Clamped integer
  */
 const clampInt = (
-	value: string | null,
+	value: string | undefined,
 	fallback: number,
 	max: number
 ): number => {
@@ -52,41 +43,33 @@ const clampInt = (
 }
 
 const GET = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:read")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
+	const query = parseArchQuery(request.nextUrl.searchParams, archTradeListQuerySchema)
+	if (!query.success) return query.response
+
 	try {
-		const searchParams = request.nextUrl.searchParams
-
-		// Parse query params
-		const dateFrom = searchParams.get("dateFrom")
-		const dateTo = searchParams.get("dateTo")
-		const assetsParam = searchParams.get("assets")
-		const directionsParam = searchParams.get("directions")
-		const outcomesParam = searchParams.get("outcomes")
-		const strategyParam = searchParams.get("strategy")
-		const tagsParam = searchParams.get("tags")
-		const timeframeParam = searchParams.get("timeframe")
-		const limit = clampInt(searchParams.get("limit"), DEFAULT_LIMIT, MAX_LIMIT)
+		const {
+			dateFrom,
+			dateTo,
+			assets: assetsParam,
+			directions: directionsParam,
+			outcomes: outcomesParam,
+			strategy: strategyParam,
+			tags: tagsParam,
+			timeframe: timeframeParam,
+			sortBy = "entryDate",
+			sortOrder = "desc",
+		} = query.data
+		const limit = clampInt(query.data.limit, DEFAULT_LIMIT, MAX_LIMIT)
 		const offset = clampInt(
-			searchParams.get("offset"),
+			query.data.offset,
 			0,
 			Number.MAX_SAFE_INTEGER
 		)
 
-		const sortByRaw = searchParams.get("sortBy") as SortByColumn | null
-		const sortBy: SortByColumn =
-			sortByRaw && VALID_SORT_COLUMNS.includes(sortByRaw)
-				? sortByRaw
-				: "entryDate"
-
-		const sortOrderRaw = searchParams.get("sortOrder") as SortOrder | null
-		const sortOrder: SortOrder =
-			sortOrderRaw && VALID_SORT_ORDERS.includes(sortOrderRaw)
-				? sortOrderRaw
-				: "desc"
-
 		const assets = assetsParam
 			? assetsParam
 					.split(",")
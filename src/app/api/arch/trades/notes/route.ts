@@ -3,36 +3,25 @@ import { db } from "@/db/drizzle"
 import { trades } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError } from "../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../_lib/helpers"
+import { archTradeNotesBodySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 import { getUserDek, encryptTradeFields } from "@/lib/user-crypto"
 
-interface UpdateNotesBody {
-	id: string
-	preTradeThoughts?: string | null
-	postTradeReflection?: string | null
-	lessonLearned?: string | null
-	disciplineNotes?: string | null
-}
-
 /**
  * POST /api/arch/trades/notes
  * Update journal notes on a trade.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as UpdateNotesBody
-
-		if (!body.id) {
-			return archError("Missing required field", [
-				{ code: "VALIDATION_ERROR", detail: "id is required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archTradeNotesBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const { id, ...noteFields } = body
 
 		// Verify at least one note field is provided
@@ -3,33 +3,25 @@ import { db } from "@/db/drizzle"
 import { trades, tradeTags } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../../_lib/auth"
-import { archSuccess, archError } from "../../../_lib/helpers"
+import { archSuccess, archError, parseArchBody } from "../../../_lib/helpers"
+import { archRemoveTradeTagBodySchema } from "../../../_lib/schemas"
 import { buildAccountCondition } from "../../../_lib/filters"
 import { resolveTagName } from "../../../_lib/resolve-names"
 
-interface RemoveTagBody {
-	tradeId: string
-	tag: string
-}
-
 /**
  * POST /api/arch/trades/tags/remove
  * Remove a single tag from a trade by fuzzy name resolution.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as RemoveTagBody
-
-		if (!body.tradeId || !body.tag) {
-			return archError("Missing required fields", [
-				{ code: "VALIDATION_ERROR", detail: "tradeId and tag are required" },
-			])
-		}
+	const parsed = await parseArchBody(request, archRemoveTradeTagBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const tradeCondition = and(
 			eq(trades.id, body.tradeId),
 			buildAccountCondition(auth)
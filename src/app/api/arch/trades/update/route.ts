@@ -3,7 +3,8 @@ import { db } from "@/db/drizzle"
 import { trades, tradeTags } from "@/db/schema"
 import { eq, and } from "drizzle-orm"
 import { archAuth } from "../../_lib/auth"
-import { archSuccess, archError, formatTradeForArch } from "../../_lib/helpers"
+import { archSuccess, archError, formatTradeForArch, parseArchBody } from "../../_lib/helpers"
+import { archUpdateTradeBodySchema } from "../../_lib/schemas"
 import { buildAccountCondition } from "../../_lib/filters"
 import {
 	resolveStrategyName,
@@ -23,32 +24,7 @@ import {
 	encryptTradeFields,
 	decryptTradeFields,
 } from "@/lib/user-crypto"
-
-interface ArchUpdateTradeBody {
-	id: string
-	asset?: string
-	direction?: "long" | "short"
-	entryDate?: string | Date | number
-	exitDate?: string | Date | number
-	entryPrice?: number | string
-	exitPrice?: number | string
-	positionSize?: number | string
-	stopLoss?: number | string
-	takeProfit?: number | string
-	riskAmount?: number | string
-	strategy?: string
-	timeframe?: string
-	tags?: string[]
-	preTradeThoughts?: string
-	postTradeReflection?: string
-	lessonLearned?: string
-	disciplineNotes?: string
-	followedPlan?: boolean
-	setupRank?: "A" | "AA" | "AAA" | null
-	mfe?: number | string
-	mae?: number | string
-	contractsExecuted?: number | string
-}
+import { emitTradeWebhookEvents } from "@/lib/webhook-dispatcher"
 
 /**
  * POST /api/arch/trades/update
@@ -59,19 +35,15 @@ interface ArchUpdateTradeBody {
  * Recalculates P&L, outcome, and R-multiple when prices change.
  */
 const POST = async (request: NextRequest) => {
-	const authResult = await archAuth(request)
+	const authResult = await archAuth(request, "trades:write")
 	if (!authResult.success) return authResult.response
 	const { auth } = authResult
 
-	try {
-		const body = (await request.json()) as ArchUpdateTradeBody
-
-		if (!body.id) {
-			return archError("Missing required field: id", [
-				{ code: "MISSING_FIELDS", detail: "Required: id (UUID)" },
-			])
-		}
+	const parsed = await parseArchBody(request, archUpdateTradeBodySchema)
+	if (!parsed.success) return parsed.response
+	const body = parsed.data
 
+	try {
 		const accountCondition = buildAccountCondition(auth)
 
 		// Fetch existing trade and verify ownership
@@ -358,6 +330,11 @@ const POST = async (request: NextRequest) => {
 			}
 		}
 
+		await emitTradeWebhookEvents(auth.userId, updatedTrade.accountId, updatedTrade, dek, {
+			created: false,
+			wasClosed: Boolean(existing.exitPrice),
+		})
+
 		// Fetch updated trade with relations for formatted response
 		const tradeWithRelations = await db.query.trades.findFirst({
 			where: eq(trades.id, body.id),
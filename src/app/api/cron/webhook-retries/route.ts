@@ -0,0 +1,33 @@
+/**
+ * GET /api/cron/webhook-retries
+ *
+ * Attempts webhook deliveries whose retry time has passed. Meant to be hit
+ * by a scheduler every few minutes; retries also run after any new event,
+ * so this only matters for users who go quiet while deliveries are failing.
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import { NextResponse, type NextRequest } from "next/server"
+import { retryDueWebhookDeliveries } from "@/lib/webhook-dispatcher"
+import { toSafeErrorMessage } from "@/lib/error-utils"
+
+export const GET = async (request: NextRequest) => {
+	const secret = process.env.CRON_SECRET
+	if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+		return NextResponse.json({ status: "error", message: "Unauthorized" }, { status: 401 })
+	}
+
+	try {
+		const attempted = await retryDueWebhookDeliveries()
+		return NextResponse.json({
+			status: "success",
+			message: "Webhook retries processed",
+			data: { attempted },
+		})
+	} catch (error) {
+		return NextResponse.json(
+			{ status: "error", message: toSafeErrorMessage(error, "cron.webhookRetries") },
+			{ status: 500 }
+		)
+	}
+}
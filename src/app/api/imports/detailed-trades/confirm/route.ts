@@ -2,17 +2,23 @@
  * POST /api/imports/detailed-trades/confirm
  * Confirm import and commit trades to database
  * Uses cached preview from previous /api/imports/detailed-trades call
+ * Trades left open are stored with their executions and tracked as open positions;
+ * exits of carried positions are added to the existing trade
  */
 
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/auth"
 import { db } from "@/db/drizzle"
-import { trades as tradesTable } from "@/db/schema"
+import { trades as tradesTable, tradeExecutions } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
 import { previewCache } from "../route"
 import { encryptField } from "@/lib/crypto"
-import { getUserDek } from "@/lib/user-crypto"
-import { toNumericString } from "@/lib/money"
-import type { GroupedTrade } from "@/lib/csv-parsers"
+import { getUserDek, encryptExecutionFields } from "@/lib/user-crypto"
+import { toCents, toNumericString } from "@/lib/money"
+import { syncOpenPosition } from "@/lib/open-positions"
+import { createImportBatch, completeImportBatch, snapshotTradeForBatch } from "@/lib/import-batches"
+import { updateTradeAggregates } from "@/app/actions/executions"
+import { parseExecutionTime, type GroupedTrade, type RawExecution } from "@/lib/csv-parsers"
 
 /**
  * Converts a numeric value to string, throwing if null.
@@ -34,6 +40,47 @@ const encryptRequired = (value: string, dek: string): string => {
 	return result
 }
 
+/**
+ * Build a trade execution row from a parsed statement execution.
+ * Commission is converted to cents like manually entered executions.
+ */
+const toExecutionInsert = (
+	tradeId: string,
+	execution: RawExecution,
+	executionType: "entry" | "exit",
+	importBatchId: string,
+	dek: string | null
+): typeof tradeExecutions.$inferInsert => {
+	const price = requireNumericString(execution.price)
+	const quantity = requireNumericString(execution.quantity)
+	const commission = toCents(execution.commission)
+	const executionValue = toCents(execution.price * execution.quantity)
+
+	const execInsert: Record<string, unknown> = {
+		tradeId,
+		executionType,
+		executionDate: parseExecutionTime(execution),
+		price,
+		quantity,
+		commission: String(commission),
+		fees: "0",
+		executionValue: String(executionValue),
+		importBatchId,
+	}
+
+	if (dek) {
+		Object.assign(execInsert, encryptExecutionFields({
+			price,
+			quantity,
+			commission,
+			fees: 0,
+			executionValue,
+		}, dek))
+	}
+
+	return execInsert as typeof tradeExecutions.$inferInsert
+}
+
 export const POST = async (req: NextRequest) => {
 	try {
 		// Authenticate using NextAuth
@@ -76,9 +123,18 @@ export const POST = async (req: NextRequest) => {
 		// Get user's DEK for encryption (null when encryption is disabled)
 		const dek = await getUserDek(userId)
 
+		// Every trade and execution written below belongs to this import batch
+		const importBatchId = await createImportBatch({
+			userId,
+			accountId,
+			source: "detailed_csv",
+			sourceName: preview.brokerName,
+			fileName: cached.fileName,
+			fileHash: cached.fileHash,
+		})
+
 		// Convert trades to database format (plaintext when dek is null)
-		type TradeInsert = typeof tradesTable.$inferInsert
-		const tradesToInsert: TradeInsert[] = preview.trades.map((trade: GroupedTrade) => {
+		const toTradeInsert = (trade: GroupedTrade) => {
 			// Use the already-correct Date objects from the parser (constructed with BRT offset)
 			const entryDate = trade.entryGroup.firstExecutionTime
 			const exitDate = trade.exitGroup
@@ -115,28 +171,95 @@ export const POST = async (req: NextRequest) => {
 				importedAt: new Date(),
 				importSource: `${preview.brokerName}_DETAILED_CSV`,
 				source: "csv",
+				importBatchId,
+				remainingQuantity: requireNumericString(trade.remainingQuantity),
 				isEncrypted: !!dek,
 			}
-		})
+		}
+
+		const newTrades = preview.trades.filter((trade) => !trade.continuesTradeId)
+		const closedTrades = newTrades.filter((trade) => trade.remainingQuantity === 0)
+		const openTrades = newTrades.filter((trade) => trade.remainingQuantity > 0)
+		const carriedTrades = preview.trades.filter((trade) => trade.continuesTradeId)
 
-		// Insert trades
+		// Insert closed trades
 		let insertedCount = 0
-		if (tradesToInsert.length > 0) {
-			await db.insert(tradesTable).values(tradesToInsert)
-			insertedCount = tradesToInsert.length
+		let executionsCreated = 0
+		if (closedTrades.length > 0) {
+			await db.insert(tradesTable).values(closedTrades.map(toTradeInsert))
+			insertedCount = closedTrades.length
+		}
+
+		// Insert open trades as scaled trades with their executions, so a later
+		// import or execution can continue them
+		for (const trade of openTrades) {
+			const [inserted] = await db
+				.insert(tradesTable)
+				.values({
+					...toTradeInsert(trade),
+					executionMode: "scaled",
+					totalEntryQuantity: requireNumericString(trade.entryQuantity),
+					totalExitQuantity: requireNumericString(trade.exitQuantity ?? 0),
+					avgEntryPrice: requireNumericString(trade.entryPrice),
+					avgExitPrice: toNumericString(trade.exitPrice),
+				})
+				.returning({ id: tradesTable.id })
+
+			const executionValues = [
+				...trade.entryGroup.executions.map((execution) =>
+					toExecutionInsert(inserted.id, execution, "entry", importBatchId, dek)
+				),
+				...(trade.exitGroup?.executions ?? []).map((execution) =>
+					toExecutionInsert(inserted.id, execution, "exit", importBatchId, dek)
+				),
+			]
+			await db.insert(tradeExecutions).values(executionValues)
+			executionsCreated += executionValues.length
+
+			await syncOpenPosition(
+				{
+					id: inserted.id,
+					accountId,
+					asset: trade.asset,
+					direction: trade.direction,
+					entryDate: trade.entryGroup.firstExecutionTime,
+				},
+				trade.remainingQuantity,
+				trade.entryPrice,
+				dek
+			)
+			insertedCount++
+		}
+
+		// Add the exits of carried positions to their existing trades
+		let continuedCount = 0
+		for (const trade of carriedTrades) {
+			const existing = await db.query.trades.findFirst({
+				where: and(
+					eq(tradesTable.id, trade.continuesTradeId!),
+					eq(tradesTable.accountId, accountId)
+				),
+				columns: { id: true },
+			})
+			if (!existing || !trade.exitGroup) continue
+
+			// Keep the pre-import state so a rollback can restore it
+			await snapshotTradeForBatch(importBatchId, existing.id)
+			await db.insert(tradeExecutions).values(
+				trade.exitGroup.executions.map((execution) =>
+					toExecutionInsert(existing.id, execution, "exit", importBatchId, dek)
+				)
+			)
+			await updateTradeAggregates(existing.id, dek)
+			executionsCreated += trade.exitGroup.executions.length
+			continuedCount++
 		}
 
-		// TODO: Log import to importLogs table once it exists in schema
-		// This would track import history for auditing and rate limiting persistence
-		// const importLog = await db.insert(importLogs).values({
-		//   id: uuid(),
-		//   accountId,
-		//   source: `${preview.brokerName}_DETAILED_CSV`,
-		//   importedCount: insertedCount,
-		//   failedCount: 0,
-		//   status: "success",
-		//   details: {...}
-		// })
+		await completeImportBatch(importBatchId, {
+			tradesCreated: insertedCount,
+			tradesEnriched: continuedCount,
+			executionsCreated,
+		})
 
 		// Clear cache
 		previewCache.delete(importId)
@@ -145,6 +268,7 @@ export const POST = async (req: NextRequest) => {
 			success: true,
 			importId,
 			importedTradesCount: insertedCount,
+			continuedTradesCount: continuedCount,
 			message: "imports.success.imported",
 		})
 	} catch (error) {
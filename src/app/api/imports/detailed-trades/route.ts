@@ -1,20 +1,33 @@
 /**
  * POST /api/imports/detailed-trades
  * Upload broker statement CSV and get import preview
+ * Accepts a built-in broker name, or a column mapping (wizard / saved import template)
+ * Exits of positions left open by earlier imports continue those trades
  * Returns: ImportPreview with detected trades and warnings
  * Validates 30-minute cooldown between imports
  */
 
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/auth"
+import { db } from "@/db/drizzle"
+import { tradingAccounts } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
 import {
 	parseStatementCSV,
 	validateStatementCSV,
+	parseMappedCSV,
+	validateColumnMapping,
+	readCsvTable,
 	groupExecutionsIntoTrades,
 	createImportPreview,
 	type BrokerName,
+	type CsvColumnMapping,
 	type ImportPreview,
 } from "@/lib/csv-parsers"
+import { columnMappingSchema } from "@/lib/validations/import-template"
+import { getOpenPositions } from "@/lib/open-positions"
+import { getUserDek } from "@/lib/user-crypto"
+import { computeFileHash } from "@/lib/deduplication"
 
 import { createDbRateLimiter } from "@/lib/db-rate-limiter"
 
@@ -27,9 +40,10 @@ const importLimiter = createDbRateLimiter({
 })
 
 // Cache for import previews (1 hour TTL)
+// File name/hash are kept for the import batch recorded on confirmation
 const previewCache = new Map<
 	string,
-	{ preview: ImportPreview; timestamp: number; accountId: string }
+	{ preview: ImportPreview; timestamp: number; accountId: string; fileName: string | null; fileHash: string }
 >()
 
 const CACHE_TTL = 3600000 // 1 hour
@@ -57,10 +71,20 @@ export const POST = async (req: NextRequest) => {
 			accountId,
 			brokerName,
 			csvContent,
-		}: { accountId: string; brokerName: BrokerName; csvContent: string } = body
+			fileName,
+			mapping,
+			templateName,
+		}: {
+			accountId: string
+			brokerName?: BrokerName
+			csvContent: string
+			fileName?: string
+			mapping?: CsvColumnMapping
+			templateName?: string
+		} = body
 
 		// Validate inputs
-		if (!accountId || !brokerName || !csvContent) {
+		if (!accountId || (!brokerName && !mapping) || !csvContent) {
 			return NextResponse.json(
 				{
 					error: "api.errors.missingFields",
@@ -69,13 +93,33 @@ export const POST = async (req: NextRequest) => {
 			)
 		}
 
-		if (!["CLEAR", "XP", "GENIAL"].includes(brokerName)) {
+		const parsedMapping = mapping ? columnMappingSchema.safeParse(mapping) : null
+		if (parsedMapping && !parsedMapping.success) {
+			return NextResponse.json(
+				{ error: "imports.errors.invalidMapping" },
+				{ status: 400 }
+			)
+		}
+
+		if (!parsedMapping && !["CLEAR", "XP", "GENIAL"].includes(brokerName!)) {
 			return NextResponse.json(
 				{ error: `api.errors.invalidParams|${brokerName}` },
 				{ status: 400 }
 			)
 		}
 
+		// Open positions are per account, so the account must belong to the user
+		const account = await db.query.tradingAccounts.findFirst({
+			where: and(eq(tradingAccounts.id, accountId), eq(tradingAccounts.userId, userId)),
+			columns: { id: true },
+		})
+		if (!account) {
+			return NextResponse.json(
+				{ error: "api.errors.forbidden" },
+				{ status: 403 }
+			)
+		}
+
 		// Check rate limit (30-minute cooldown, DB-backed)
 		const rateLimitResult = await importLimiter.check(`csv-import:${accountId}`)
 		if (!rateLimitResult.allowed) {
@@ -90,7 +134,9 @@ export const POST = async (req: NextRequest) => {
 		}
 
 		// Validate CSV format
-		const validation = validateStatementCSV(brokerName, csvContent)
+		const validation = parsedMapping
+			? validateColumnMapping(readCsvTable(csvContent, parsedMapping.data.delimiter).headers, parsedMapping.data)
+			: validateStatementCSV(brokerName!, csvContent)
 		if (!validation.valid) {
 			return NextResponse.json(
 				{ error: "imports.errors.invalidCsvFormat", details: validation.error },
@@ -99,23 +145,29 @@ export const POST = async (req: NextRequest) => {
 		}
 
 		// Parse CSV into executions
-		const executions = parseStatementCSV({
-			brokerName,
-			csvContent,
-		})
-
-		// Group executions into trades
-		const trades = groupExecutionsIntoTrades(executions)
+		const sourceName = parsedMapping ? templateName?.trim() || "CUSTOM" : brokerName!
+		const executions = parsedMapping
+			? parseMappedCSV(csvContent, parsedMapping.data, sourceName)
+			: parseStatementCSV({
+					brokerName: brokerName!,
+					csvContent,
+				})
+
+		// Group executions into trades, continuing positions left open by earlier imports
+		const openPositions = await getOpenPositions(accountId, await getUserDek(userId))
+		const trades = groupExecutionsIntoTrades(executions, openPositions)
 
 		// Create import preview
 		const importId = generateImportId()
-		const preview = createImportPreview(trades, brokerName, executions.length, importId)
+		const preview = createImportPreview(trades, sourceName, executions.length, importId)
 
 		// Cache preview for confirmation step (1 hour TTL)
 		previewCache.set(importId, {
 			preview,
 			timestamp: Date.now(),
 			accountId,
+			fileName: fileName?.slice(0, 255) ?? null,
+			fileHash: computeFileHash(Buffer.from(csvContent)),
 		})
 
 		return NextResponse.json({
@@ -0,0 +1,89 @@
+/**
+ * POST /api/monte-carlo/v2/jobs
+ * Runs a Capital Expectancy job inside this request and streams it as
+ * server-sent events: progress with partial statistics, then one final
+ * completed / failed event, after which the stream closes. The finished run
+ * is saved to the history first; if that fails the job still completes, with
+ * `recorded: false`. Aborting the request cancels the job.
+ */
+
+import { NextRequest, NextResponse } from "next/server"
+import { auth } from "@/auth"
+import { prepareSimulationV2Job } from "@/app/actions/monte-carlo"
+import { JobCancelledError, recordMonteCarloV2Job, runMonteCarloV2Job } from "@/lib/monte-carlo-v2-jobs"
+import type { MonteCarloV2JobEvent, MonteCarloV2JobRequest } from "@/types/monte-carlo"
+
+// The job runs for as long as the response streams; the budget caps keep it well inside this
+export const maxDuration = 300
+
+const encoder = new TextEncoder()
+
+export const POST = async (request: NextRequest) => {
+	const session = await auth()
+	if (!session?.user?.id) {
+		return NextResponse.json({ status: "error", message: "api.errors.unauthorized" }, { status: 401 })
+	}
+
+	let body: MonteCarloV2JobRequest
+	try {
+		body = await request.json()
+	} catch {
+		return NextResponse.json(
+			{ status: "error", message: "Invalid request body", errors: [{ code: "INVALID_BODY", detail: "Expected JSON" }] },
+			{ status: 400 }
+		)
+	}
+
+	const prepared = await prepareSimulationV2Job(body)
+	if (prepared.status !== "success" || !prepared.data) {
+		return NextResponse.json(prepared, { status: 400 })
+	}
+	const job = prepared.data
+
+	// Aborted when the client disconnects or cancels
+	const controller = new AbortController()
+	request.signal.addEventListener("abort", () => controller.abort())
+
+	const stream = new ReadableStream<Uint8Array>({
+		start: async (streamController) => {
+			const send = (event: MonteCarloV2JobEvent) => {
+				if (controller.signal.aborted) return
+				streamController.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+			}
+
+			try {
+				const result = await runMonteCarloV2Job({
+					params: job.params,
+					empirical: job.empirical,
+					signal: controller.signal,
+					onProgress: send,
+				})
+				const recorded = await recordMonteCarloV2Job(job, result.result).then(
+					() => true,
+					(error: unknown) => {
+						console.error("Monte Carlo V2 history save error:", error)
+						return false
+					}
+				)
+				send({ type: "completed", result, recorded })
+			} catch (error) {
+				// A cancelled job has no one left to tell
+				if (!(error instanceof JobCancelledError)) {
+					console.error("Monte Carlo V2 job error:", error)
+					send({ type: "failed", message: "Failed to run V2 simulation" })
+				}
+			}
+
+			if (!controller.signal.aborted) streamController.close()
+		},
+		cancel: () => controller.abort(),
+	})
+
+	return new Response(stream, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			"Connection": "keep-alive",
+		},
+	})
+}
@@ -1,12 +1,19 @@
 /**
- * POST /api/uploads — Upload an image to S3-compatible storage
- * DELETE /api/uploads — Delete an image from S3-compatible storage
+ * POST /api/uploads — Upload a file to S3-compatible storage
+ * (images everywhere; trades also take videos and PDFs, and images there get a thumbnail)
+ * DELETE /api/uploads — Delete a file from S3-compatible storage
  */
 
 import { NextRequest, NextResponse } from "next/server"
 import { auth } from "@/auth"
 import { uploadFile, deleteFile } from "@/lib/storage"
-import { validateFile, buildS3Key, uploadSchema } from "@/lib/validations/upload"
+import { createThumbnail, getThumbnailKey } from "@/lib/thumbnails"
+import {
+	validateFile,
+	buildS3Key,
+	getAttachmentKind,
+	uploadSchema,
+} from "@/lib/validations/upload"
 
 export const POST = async (request: NextRequest) => {
 	const session = await auth()
@@ -46,7 +53,7 @@ export const POST = async (request: NextRequest) => {
 	}
 
 	// Validate file type and size
-	const fileError = validateFile(file)
+	const fileError = validateFile(file, metaResult.data.path)
 	if (fileError) {
 		return NextResponse.json(
 			{ status: "error", message: fileError },
@@ -55,7 +62,12 @@ export const POST = async (request: NextRequest) => {
 	}
 
 	const buffer = Buffer.from(await file.arrayBuffer())
-	const s3Key = buildS3Key(metaResult.data.path, metaResult.data.entityId, file.name)
+	const s3Key = buildS3Key(
+		metaResult.data.path,
+		metaResult.data.entityId,
+		file.name,
+		session.user.id
+	)
 
 	const result = await uploadFile({
 		key: s3Key,
@@ -63,10 +75,26 @@ export const POST = async (request: NextRequest) => {
 		contentType: file.type,
 	})
 
+	// Trade image attachments get a thumbnail for the gallery; if the image
+	// can't be decoded the gallery falls back to the original
+	let thumbnail: { url: string; s3Key: string } | null = null
+	if (metaResult.data.path === "trades" && getAttachmentKind(file.type) === "image") {
+		thumbnail = await createThumbnail(buffer)
+			.then(({ body, contentType }) =>
+				uploadFile({ key: getThumbnailKey(s3Key), body, contentType })
+			)
+			.catch(() => null)
+	}
+
 	return NextResponse.json({
 		status: "success",
 		message: "upload.success",
-		data: { url: result.url, s3Key: result.s3Key },
+		data: {
+			url: result.url,
+			s3Key: result.s3Key,
+			thumbnailUrl: thumbnail?.url ?? null,
+			thumbnailS3Key: thumbnail?.s3Key ?? null,
+		},
 	})
 }
 
@@ -15,6 +15,7 @@ import {
 	TimeHeatmap,
 	SessionPerformanceChart,
 	SessionAssetTable,
+	ExcursionAnalysis,
 	type FilterState,
 } from "@/components/analytics"
 import { LoadingSpinner } from "@/components/shared"
@@ -42,6 +43,9 @@ import type {
 	TimeHeatmapCell,
 	SessionPerformance,
 	SessionAssetPerformance,
+	ExitEfficiencyData,
+	StopEfficiencyData,
+	MoneyLeftGroup,
 	AnalyticsDashboardData,
 } from "@/types"
 
@@ -109,6 +113,10 @@ const EMPTY_DASHBOARD: AnalyticsDashboardData = {
 	timeHeatmap: [],
 	sessionPerformance: [],
 	sessionAssetPerformance: [],
+	exitEfficiency: { sampleSize: 0, avgCapture: 0, avgMfeR: 0, avgRealizedR: 0, points: [] },
+	stopEfficiency: { winnerCount: 0, avgWinnerMaeR: 0, shallowWinnerPercent: 0, buckets: [] },
+	moneyLeftByStrategy: [],
+	moneyLeftByAsset: [],
 }
 
 /**
@@ -160,6 +168,14 @@ const AnalyticsContent = ({
 	const [sessionAssetPerformance, setSessionAssetPerformance] = useState<
 		SessionAssetPerformance[]
 	>(dashboard.sessionAssetPerformance)
+	const [exitEfficiency, setExitEfficiency] =
+		useState<ExitEfficiencyData>(dashboard.exitEfficiency)
+	const [stopEfficiency, setStopEfficiency] =
+		useState<StopEfficiencyData>(dashboard.stopEfficiency)
+	const [moneyLeftByStrategy, setMoneyLeftByStrategy] =
+		useState<MoneyLeftGroup[]>(dashboard.moneyLeftByStrategy)
+	const [moneyLeftByAsset, setMoneyLeftByAsset] =
+		useState<MoneyLeftGroup[]>(dashboard.moneyLeftByAsset)
 
 	// Track account identity — clear cache only on account switch, not on every SSR re-render
 	const accountKey = availableAssets.join(",")
@@ -188,6 +204,10 @@ const AnalyticsContent = ({
 		setTimeHeatmap(d.timeHeatmap)
 		setSessionPerformance(d.sessionPerformance)
 		setSessionAssetPerformance(d.sessionAssetPerformance)
+		setExitEfficiency(d.exitEfficiency)
+		setStopEfficiency(d.stopEfficiency)
+		setMoneyLeftByStrategy(d.moneyLeftByStrategy)
+		setMoneyLeftByAsset(d.moneyLeftByAsset)
 		setTagStats(tags)
 	}
 
@@ -279,6 +299,14 @@ const AnalyticsContent = ({
 				<RDistribution data={rDistribution} />
 			</div>
 
+			{/* MFE/MAE: exit and stop efficiency */}
+			<ExcursionAnalysis
+				exitEfficiency={exitEfficiency}
+				stopEfficiency={stopEfficiency}
+				moneyLeftByStrategy={moneyLeftByStrategy}
+				moneyLeftByAsset={moneyLeftByAsset}
+			/>
+
 			{/* Tag Cloud - Full Width */}
 			<TagCloud data={tagStats} expectancyMode={expectancyMode} />
 
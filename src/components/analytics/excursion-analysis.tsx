@@ -0,0 +1,366 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { useTranslations } from "next-intl"
+import {
+	ScatterChart,
+	Scatter,
+	BarChart,
+	Bar,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	Cell,
+	ReferenceLine,
+} from "recharts"
+import { Crosshair, Loader2, RefreshCw } from "lucide-react"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart-container"
+import { Button } from "@/components/ui/button"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import { useChartConfig } from "@/hooks/use-chart-config"
+import { formatBrlCompactWithSign, formatR } from "@/lib/formatting"
+import { clearAnalyticsCache } from "@/lib/cache/analytics-cache"
+import { backfillTradeExcursions } from "@/app/actions/price-bars"
+import type {
+	ExitEfficiencyData,
+	ExitEfficiencyPoint,
+	MoneyLeftGroup,
+	StopEfficiencyData,
+} from "@/types"
+
+interface ExcursionAnalysisProps {
+	exitEfficiency: ExitEfficiencyData
+	stopEfficiency: StopEfficiencyData
+	moneyLeftByStrategy: MoneyLeftGroup[]
+	moneyLeftByAsset: MoneyLeftGroup[]
+}
+
+interface ExitTooltipProps {
+	active?: boolean
+	payload?: ReadonlyArray<{ payload: ExitEfficiencyPoint }>
+}
+
+const ExitTooltip = ({ active, payload }: ExitTooltipProps) => {
+	const t = useTranslations("analytics.excursion")
+	if (!active || !payload || payload.length === 0) return null
+	const point = payload[0].payload
+	return (
+		<div className="border-bg-300 bg-bg-200 p-s-300 rounded-lg border shadow-lg">
+			<p className="text-small text-txt-100 font-semibold">{point.asset}</p>
+			<div className="mt-s-200 space-y-s-100 text-tiny text-txt-200">
+				<p>{t("mfeR")}: {formatR(point.mfeR)}</p>
+				<p>{t("realizedR")}: {formatR(point.realizedR)}</p>
+			</div>
+		</div>
+	)
+}
+
+const BackfillButton = () => {
+	const t = useTranslations("analytics.excursion")
+	const router = useRouter()
+	const { showToast } = useToast()
+	const [isPending, startTransition] = useTransition()
+	const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+	// One page per request; keep calling with the returned cursor until it runs out
+	const handleBackfill = () => {
+		startTransition(async () => {
+			const totals = { fromBars: 0, fromStored: 0, skipped: 0 }
+			let done = 0
+			let cursor: string | undefined
+			let failed = false
+			try {
+				do {
+					const result = await backfillTradeExcursions({ cursor })
+					if (result.status !== "success" || !result.data) {
+						showToast("error", result.message)
+						failed = true
+						break
+					}
+					totals.fromBars += result.data.fromBars
+					totals.fromStored += result.data.fromStored
+					totals.skipped += result.data.skipped
+					done += result.data.scanned
+					setProgress({ done, total: done + result.data.remaining })
+					cursor = result.data.nextCursor ?? undefined
+				} while (cursor)
+			} finally {
+				setProgress(null)
+			}
+
+			if (!failed) {
+				showToast(
+					"success",
+					t("backfillDone", {
+						updated: totals.fromBars + totals.fromStored,
+						fromBars: totals.fromBars,
+						skipped: totals.skipped,
+					})
+				)
+			}
+			// Pages finished before a failure are already saved
+			clearAnalyticsCache()
+			router.refresh()
+		})
+	}
+
+	return (
+		<Button
+			id="analytics-excursion-backfill"
+			variant="outline"
+			size="sm"
+			onClick={handleBackfill}
+			disabled={isPending}
+		>
+			{isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+			{progress ? t("backfillProgress", progress) : t("backfill")}
+		</Button>
+	)
+}
+
+/**
+ * MFE/MAE analysis: how much of each move was kept at exit, how far winners
+ * went against the entry, and what the uncaptured moves were worth.
+ */
+export const ExcursionAnalysis = ({
+	exitEfficiency,
+	stopEfficiency,
+	moneyLeftByStrategy,
+	moneyLeftByAsset,
+}: ExcursionAnalysisProps) => {
+	const t = useTranslations("analytics.excursion")
+	const { yAxisWidth, tickFontSize } = useChartConfig()
+	const [moneyLeftGroup, setMoneyLeftGroup] = useState<"strategy" | "asset">("strategy")
+
+	const moneyLeft = moneyLeftGroup === "strategy" ? moneyLeftByStrategy : moneyLeftByAsset
+	const totalMoneyLeft = moneyLeft.reduce((sum, group) => sum + group.moneyLeft, 0)
+	const maxR = Math.max(
+		1,
+		...exitEfficiency.points.flatMap((point) => [point.mfeR, Math.abs(point.realizedR)])
+	)
+
+	return (
+		<div id="analytics-excursion-section" className="mt-m-400 sm:mt-m-500 lg:mt-m-600">
+			<div className="mb-s-300 sm:mb-m-400 gap-s-300 flex flex-wrap items-center justify-between">
+				<h2 className="gap-s-200 text-body sm:text-h3 text-txt-100 flex items-center font-semibold">
+					<Crosshair className="text-acc-100 h-5 w-5" />
+					{t("title")}
+				</h2>
+				<BackfillButton />
+			</div>
+
+			{exitEfficiency.sampleSize === 0 && stopEfficiency.winnerCount === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-m-500 text-small text-txt-300 rounded-lg border text-center">
+					{t("noData")}
+				</div>
+			) : (
+				<>
+					<div className="gap-m-400 sm:gap-m-500 lg:gap-m-600 grid grid-cols-1 lg:grid-cols-2">
+						{/* Exit efficiency */}
+						<div id="analytics-exit-efficiency" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+							<h3 className="text-small sm:text-body text-txt-100 font-semibold">{t("exitTitle")}</h3>
+							<p className="mt-s-100 text-tiny text-txt-300">{t("exitDescription")}</p>
+							<div className="mt-s-300 gap-s-300 grid grid-cols-3">
+								<div className="bg-bg-100 p-s-200 rounded-lg text-center">
+									<p className="text-tiny text-txt-300">{t("capture")}</p>
+									<p className="mt-s-100 text-body text-acc-100 font-bold">
+										{exitEfficiency.avgCapture.toFixed(0)}%
+									</p>
+								</div>
+								<div className="bg-bg-100 p-s-200 rounded-lg text-center">
+									<p className="text-tiny text-txt-300">{t("avgMfeR")}</p>
+									<p className="mt-s-100 text-body text-trade-buy font-bold">
+										{formatR(exitEfficiency.avgMfeR)}
+									</p>
+								</div>
+								<div className="bg-bg-100 p-s-200 rounded-lg text-center">
+									<p className="text-tiny text-txt-300">{t("avgRealizedR")}</p>
+									<p className="mt-s-100 text-body text-txt-100 font-bold">
+										{formatR(exitEfficiency.avgRealizedR)}
+									</p>
+								</div>
+							</div>
+							<ChartContainer id="chart-analytics-exit-efficiency" className="mt-m-400 h-56 sm:h-64 min-w-0">
+								<ScatterChart margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+									<CartesianGrid strokeDasharray="3 3" stroke="var(--color-bg-300)" />
+									<XAxis
+										type="number"
+										dataKey="mfeR"
+										name={t("mfeR")}
+										domain={[0, Math.ceil(maxR)]}
+										stroke="var(--color-txt-300)"
+										fontSize={tickFontSize}
+										tickLine={false}
+										axisLine={false}
+										tickFormatter={(value: number) => `${value}R`}
+									/>
+									<YAxis
+										type="number"
+										dataKey="realizedR"
+										name={t("realizedR")}
+										domain={[-Math.ceil(maxR), Math.ceil(maxR)]}
+										stroke="var(--color-txt-300)"
+										fontSize={tickFontSize}
+										tickLine={false}
+										axisLine={false}
+										width={yAxisWidth}
+										tickFormatter={(value: number) => `${value}R`}
+									/>
+									<ChartTooltip content={<ExitTooltip />} />
+									<ReferenceLine
+										segment={[
+											{ x: 0, y: 0 },
+											{ x: Math.ceil(maxR), y: Math.ceil(maxR) },
+										]}
+										stroke="var(--color-txt-300)"
+										strokeDasharray="4 4"
+									/>
+									<ReferenceLine y={0} stroke="var(--color-bg-300)" />
+									<Scatter data={exitEfficiency.points} isAnimationActive={false}>
+										{exitEfficiency.points.map((point) => (
+											<Cell
+												key={point.tradeId}
+												fill={point.realizedR >= 0 ? "var(--color-trade-buy)" : "var(--color-trade-sell)"}
+												fillOpacity={0.7}
+											/>
+										))}
+									</Scatter>
+								</ScatterChart>
+							</ChartContainer>
+						</div>
+
+						{/* Stop efficiency */}
+						<div id="analytics-stop-efficiency" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+							<h3 className="text-small sm:text-body text-txt-100 font-semibold">{t("stopTitle")}</h3>
+							<p className="mt-s-100 text-tiny text-txt-300">{t("stopDescription")}</p>
+							<div className="mt-s-300 gap-s-300 grid grid-cols-2">
+								<div className="bg-bg-100 p-s-200 rounded-lg text-center">
+									<p className="text-tiny text-txt-300">{t("avgWinnerMaeR")}</p>
+									<p className="mt-s-100 text-body text-trade-sell font-bold">
+										{formatR(stopEfficiency.avgWinnerMaeR)}
+									</p>
+								</div>
+								<div className="bg-bg-100 p-s-200 rounded-lg text-center">
+									<p className="text-tiny text-txt-300">{t("shallowWinners")}</p>
+									<p className="mt-s-100 text-body text-acc-100 font-bold">
+										{stopEfficiency.shallowWinnerPercent.toFixed(0)}%
+									</p>
+								</div>
+							</div>
+							<ChartContainer id="chart-analytics-stop-efficiency" className="mt-m-400 h-56 sm:h-64 min-w-0">
+								<BarChart data={stopEfficiency.buckets} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
+									<CartesianGrid strokeDasharray="3 3" stroke="var(--color-bg-300)" vertical={false} />
+									<XAxis
+										dataKey="range"
+										stroke="var(--color-txt-300)"
+										fontSize={tickFontSize}
+										tickLine={false}
+										axisLine={false}
+										angle={-30}
+										textAnchor="end"
+										height={50}
+									/>
+									<YAxis
+										stroke="var(--color-txt-300)"
+										fontSize={tickFontSize}
+										tickLine={false}
+										axisLine={false}
+										allowDecimals={false}
+										width={yAxisWidth}
+									/>
+									<ChartTooltip />
+									<Bar dataKey="count" name={t("winners")} radius={[4, 4, 0, 0]} maxBarSize={60}>
+										{stopEfficiency.buckets.map((bucket) => (
+											<Cell
+												key={bucket.range}
+												fill={bucket.rangeMax > -0.5 ? "var(--color-acc-100)" : "var(--color-trade-sell)"}
+												opacity={0.8}
+											/>
+										))}
+									</Bar>
+								</BarChart>
+							</ChartContainer>
+							{stopEfficiency.winnerCount > 0 && (
+								<p className="mt-s-300 text-small text-txt-200">
+									{t("stopInsight", {
+										percent: stopEfficiency.shallowWinnerPercent.toFixed(0),
+										count: stopEfficiency.winnerCount,
+									})}
+								</p>
+							)}
+						</div>
+					</div>
+
+					{/* Money left on the table */}
+					<div id="analytics-money-left" className="mt-m-400 sm:mt-m-500 lg:mt-m-600 border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+						<div className="mb-s-300 gap-s-300 flex flex-wrap items-start justify-between">
+							<div>
+								<h3 className="text-small sm:text-body text-txt-100 font-semibold">{t("moneyLeftTitle")}</h3>
+								<p className="mt-s-100 text-tiny text-txt-300">{t("moneyLeftDescription")}</p>
+							</div>
+							<Select
+								value={moneyLeftGroup}
+								onValueChange={(value) => setMoneyLeftGroup(value as "strategy" | "asset")}
+							>
+								<SelectTrigger id="analytics-money-left-group" className="w-36" aria-label={t("groupBy")}>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="strategy">{t("byStrategy")}</SelectItem>
+									<SelectItem value="asset">{t("byAsset")}</SelectItem>
+								</SelectContent>
+							</Select>
+						</div>
+
+						{moneyLeft.length === 0 ? (
+							<p className="py-m-400 text-small text-txt-300 text-center">{t("moneyLeftNoRisk")}</p>
+						) : (
+							<div className="overflow-x-auto">
+								<table className="w-full">
+									<thead>
+										<tr className="border-bg-300 border-b">
+											<th className="pb-s-200 text-tiny text-txt-300 text-left font-medium">
+												{moneyLeftGroup === "strategy" ? t("strategy") : t("asset")}
+											</th>
+											<th className="pb-s-200 text-tiny text-txt-300 text-center font-medium">{t("trades")}</th>
+											<th className="pb-s-200 text-tiny text-txt-300 text-center font-medium">{t("capture")}</th>
+											<th className="pb-s-200 text-tiny text-txt-300 text-right font-medium">{t("moneyLeft")}</th>
+										</tr>
+									</thead>
+									<tbody>
+										{moneyLeft.map((group) => (
+											<tr key={group.group} className="border-bg-300/50 border-b last:border-b-0">
+												<td className="py-s-200 text-small text-txt-100 font-medium">{group.group}</td>
+												<td className="py-s-200 text-small text-txt-200 text-center">{group.tradeCount}</td>
+												<td className="py-s-200 text-small text-txt-200 text-center">{group.avgCapture.toFixed(0)}%</td>
+												<td className="py-s-200 text-small text-warning text-right font-medium">
+													{formatBrlCompactWithSign(group.moneyLeft)}
+												</td>
+											</tr>
+										))}
+									</tbody>
+									<tfoot>
+										<tr className="border-bg-300 border-t">
+											<td colSpan={3} className="pt-s-200 text-small text-txt-100 font-semibold">{t("total")}</td>
+											<td className="pt-s-200 text-small text-warning text-right font-semibold">
+												{formatBrlCompactWithSign(totalMoneyLeft)}
+											</td>
+										</tr>
+									</tfoot>
+								</table>
+							</div>
+						)}
+					</div>
+				</>
+			)}
+		</div>
+	)
+}
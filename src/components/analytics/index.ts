@@ -11,3 +11,4 @@ export { TimeHeatmap } from "./time-heatmap"
 export { SessionPerformanceChart } from "./session-performance-chart"
 export { SessionAssetTable } from "./session-asset-table"
 export { ExpectancyModeToggle, type ExpectancyMode } from "./expectancy-mode-toggle"
+export { ExcursionAnalysis } from "./excursion-analysis"
@@ -1,23 +1,43 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter, usePathname } from "next/navigation"
 import {
 	ChevronLeft,
 	ChevronRight,
 	CalendarDays,
+	GitBranch,
 	SkipForward,
 } from "lucide-react"
 import { useTranslations, useLocale } from "next-intl"
+import { format } from "date-fns"
+import type { Locale } from "date-fns"
 import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
 import { cn } from "@/lib/utils"
-import { APP_TIMEZONE, formatDateKey } from "@/lib/dates"
-import { advanceReplayDate } from "@/app/actions/accounts"
+import { APP_TIMEZONE, formatDateKey, getDateFnsLocale } from "@/lib/dates"
+import { useMarketCalendar } from "@/hooks/use-market-calendar"
+import { advanceReplayDate, branchReplayFromDate, jumpReplayToDate } from "@/app/actions/replay"
 
 interface DateNavigatorProps {
 	currentDate: string // ISO date string YYYY-MM-DD
 	isToday: boolean
 	isReplayAccount?: boolean
+	/** Replay session bounds (YYYY-MM-DD), only set for replay accounts */
+	replayStartDate?: string | null
+	replayCurrentDate?: string | null
 }
 
 const formatDisplayDate = (dateStr: string, locale: string): string => {
@@ -31,28 +51,57 @@ const formatDisplayDate = (dateStr: string, locale: string): string => {
 	})
 }
 
+/** Calendar cells are local midnights; read them back as the day they show */
+const toPickerDateKey = (date: Date): string => format(date, "yyyy-MM-dd")
+
 export const DateNavigator = ({
 	currentDate,
 	isToday,
 	isReplayAccount = false,
+	replayStartDate = null,
+	replayCurrentDate = null,
 }: DateNavigatorProps) => {
 	const t = useTranslations("commandCenter.dateNavigator")
+	const tCommon = useTranslations("common")
 	const router = useRouter()
 	const pathname = usePathname()
+	const locale = useLocale()
 	const [isAdvancing, setIsAdvancing] = useState(false)
+	const [isPickerOpen, setIsPickerOpen] = useState(false)
+	const [replayError, setReplayError] = useState<string | null>(null)
+	const [dateFnsLocale, setDateFnsLocale] = useState<Locale | undefined>(undefined)
+	const b3Calendar = useMarketCalendar("B3")
 
-	const handleNavigate = (offset: number) => {
-		const date = new Date(currentDate + "T12:00:00")
-		date.setDate(date.getDate() + offset)
-		const newDateStr = formatDateKey(date)
+	useEffect(() => {
+		getDateFnsLocale(locale).then(setDateFnsLocale)
+	}, [locale])
 
-		// For replay accounts, "today" is the replay date — just remove the param
+	const isBeforeReplayStart = (dateKey: string): boolean =>
+		replayStartDate !== null && dateKey < replayStartDate
+
+	const canBranchHere =
+		isReplayAccount && !isToday && b3Calendar.isTradingDay(currentDate) && !isBeforeReplayStart(currentDate)
+
+	/** Shows a replay day: the session's current day has no date param */
+	const goToReplayDay = (dateKey: string) => {
+		router.push(dateKey === replayCurrentDate ? pathname : `${pathname}?date=${dateKey}`)
+	}
+
+	const handleNavigate = (offset: number) => {
+		// Replay sessions step through B3 trading days only
 		if (isReplayAccount) {
-			// Can't navigate forward past replay date
-			router.push(`${pathname}?date=${newDateStr}`)
+			goToReplayDay(
+				offset > 0
+					? b3Calendar.getNextTradingDay(currentDate)
+					: b3Calendar.getPreviousTradingDay(currentDate)
+			)
 			return
 		}
 
+		const date = new Date(currentDate + "T12:00:00")
+		date.setDate(date.getDate() + offset)
+		const newDateStr = formatDateKey(date)
+
 		// For normal accounts, check if navigating to actual today
 		const today = new Date()
 		const todayStr = formatDateKey(today)
@@ -74,11 +123,65 @@ export const DateNavigator = ({
 		setIsAdvancing(false)
 
 		if (result.status === "success") {
+			setReplayError(null)
 			router.refresh()
+		} else {
+			setReplayError(result.message)
 		}
 	}
 
-	const locale = useLocale()
+	/** Days up to the session's current day are viewed; later ones move the replay forward */
+	const handlePickReplayDate = async (day: Date | undefined) => {
+		if (!day) return
+		setIsPickerOpen(false)
+		const dateKey = toPickerDateKey(day)
+
+		if (!replayCurrentDate || dateKey <= replayCurrentDate) {
+			goToReplayDay(dateKey)
+			return
+		}
+
+		setIsAdvancing(true)
+		const result = await jumpReplayToDate({ date: dateKey })
+		setIsAdvancing(false)
+
+		if (result.status === "success") {
+			setReplayError(null)
+			router.push(pathname)
+			router.refresh()
+		} else {
+			setReplayError(result.message)
+		}
+	}
+
+	const handleBranchReplay = async () => {
+		setIsAdvancing(true)
+		const result = await branchReplayFromDate({ date: currentDate })
+		setIsAdvancing(false)
+
+		if (result.status === "success") {
+			setReplayError(null)
+			router.push(pathname)
+			router.refresh()
+		} else {
+			setReplayError(result.message)
+		}
+	}
+
+	const dateLabel = (
+		<span
+			className={cn(
+				"text-small font-medium",
+				isToday ? "text-txt-100" : "text-acc-100"
+			)}
+		>
+			{isToday
+				? isReplayAccount
+					? formatDisplayDate(currentDate, locale)
+					: t("today")
+				: formatDisplayDate(currentDate, locale)}
+		</span>
+	)
 
 	return (
 		<div id="cc-date-navigator" className="gap-s-200 flex flex-wrap items-center">
@@ -87,28 +190,51 @@ export const DateNavigator = ({
 				variant="ghost"
 				size="sm"
 				onClick={() => handleNavigate(-1)}
-				aria-label={t("previousDay")}
+				disabled={isReplayAccount && isBeforeReplayStart(b3Calendar.getPreviousTradingDay(currentDate))}
+				aria-label={isReplayAccount ? t("previousTradingDay") : t("previousDay")}
 				tabIndex={0}
 				className="size-10 sm:size-9 p-0"
 			>
 				<ChevronLeft className="h-4 w-4" />
 			</Button>
 
-			<div className="gap-s-200 flex items-center">
-				<CalendarDays className="text-txt-300 h-4 w-4" />
-				<span
-					className={cn(
-						"text-small font-medium",
-						isToday ? "text-txt-100" : "text-acc-100"
-					)}
-				>
-					{isToday
-						? isReplayAccount
-							? formatDisplayDate(currentDate, locale)
-							: t("today")
-						: formatDisplayDate(currentDate, locale)}
-				</span>
-			</div>
+			{isReplayAccount ? (
+				<Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+					<PopoverTrigger asChild>
+						<button
+							id="date-nav-replay-picker"
+							type="button"
+							disabled={isAdvancing}
+							className="gap-s-200 px-s-200 py-s-100 hover:bg-bg-300 flex items-center rounded-md transition-colors"
+							aria-label={t("pickReplayDay")}
+						>
+							<CalendarDays className="text-txt-300 h-4 w-4" />
+							{dateLabel}
+						</button>
+					</PopoverTrigger>
+					<PopoverContent className="w-auto p-0" align="start">
+						<Calendar
+							mode="single"
+							selected={new Date(currentDate + "T12:00:00")}
+							onSelect={handlePickReplayDate}
+							disabled={(day) => {
+								const dateKey = toPickerDateKey(day)
+								return !b3Calendar.isTradingDay(dateKey) || isBeforeReplayStart(dateKey)
+							}}
+							defaultMonth={new Date(currentDate + "T12:00:00")}
+							locale={dateFnsLocale}
+						/>
+						<p className="px-s-300 pb-s-300 text-tiny text-txt-300 max-w-64">
+							{t("pickerHint")}
+						</p>
+					</PopoverContent>
+				</Popover>
+			) : (
+				<div className="gap-s-200 flex items-center">
+					<CalendarDays className="text-txt-300 h-4 w-4" />
+					{dateLabel}
+				</div>
+			)}
 
 			<Button
 				id="date-nav-next"
@@ -116,7 +242,7 @@ export const DateNavigator = ({
 				size="sm"
 				onClick={() => handleNavigate(1)}
 				disabled={isToday}
-				aria-label={t("nextDay")}
+				aria-label={isReplayAccount ? t("nextTradingDay") : t("nextDay")}
 				tabIndex={0}
 				className="size-10 sm:size-9 p-0"
 			>
@@ -151,11 +277,55 @@ export const DateNavigator = ({
 				</Button>
 			)}
 
+			{canBranchHere && (
+				<AlertDialog>
+					<AlertDialogTrigger asChild>
+						<Button
+							id="date-nav-branch-replay"
+							variant="ghost"
+							size="sm"
+							disabled={isAdvancing}
+							className="ml-s-200 gap-s-100 text-tiny text-acc-100"
+							tabIndex={0}
+						>
+							<GitBranch className="h-3.5 w-3.5" />
+							<span>{t("branchReplay")}</span>
+						</Button>
+					</AlertDialogTrigger>
+					<AlertDialogContent>
+						<AlertDialogHeader>
+							<AlertDialogTitle>{t("branchTitle")}</AlertDialogTitle>
+							<AlertDialogDescription>
+								{t("branchDescription", { date: formatDisplayDate(currentDate, locale) })}
+							</AlertDialogDescription>
+						</AlertDialogHeader>
+						<AlertDialogFooter>
+							<AlertDialogCancel id="date-nav-branch-cancel">
+								{tCommon("cancel")}
+							</AlertDialogCancel>
+							<AlertDialogAction
+								id="date-nav-branch-confirm"
+								className="bg-fb-error hover:bg-fb-error/90"
+								onClick={handleBranchReplay}
+							>
+								{t("branchConfirm")}
+							</AlertDialogAction>
+						</AlertDialogFooter>
+					</AlertDialogContent>
+				</AlertDialog>
+			)}
+
 			{!isToday && (
 				<span className="ml-s-200 bg-acc-100/10 px-s-200 py-s-100 text-tiny text-acc-100 rounded-sm" role="status">
 					{t("readOnlyNotice")}
 				</span>
 			)}
+
+			{replayError && (
+				<span className="ml-s-200 text-tiny text-fb-error" role="alert">
+					{replayError}
+				</span>
+			)}
 		</div>
 	)
 }
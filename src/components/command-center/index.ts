@@ -8,4 +8,6 @@ export { DailySummaryCard } from "./daily-summary-card"
 export { MoodSelector } from "./mood-selector"
 export { BiasSelector, BiasDisplay, BiasBadge } from "./bias-selector"
 export { LiveTradingStatusPanel } from "./live-trading-status-panel"
+export { PropEvaluationPanel } from "./prop-evaluation-panel"
 export { DateNavigator } from "./date-navigator"
+export { ReplayTimelinePanel } from "./replay-timeline-panel"
@@ -0,0 +1,198 @@
+"use client"
+
+import type { ElementType } from "react"
+import { AlertTriangle, CheckCircle, Trophy, XCircle } from "lucide-react"
+import { useTranslations } from "next-intl"
+import { cn } from "@/lib/utils"
+import { fromCents } from "@/lib/money"
+import { useFormatting } from "@/hooks/use-formatting"
+import type { PropEvaluationOverview, PropEvaluationStatusKind } from "@/types/prop-evaluation"
+
+interface StatusStyle {
+	borderClass: string
+	bgClass: string
+	icon: ElementType
+	iconClass: string
+	badgeClass: string
+}
+
+const STATUS_STYLES: Record<PropEvaluationStatusKind, StatusStyle> = {
+	in_progress: {
+		borderClass: "border-bg-300",
+		bgClass: "bg-bg-200",
+		icon: CheckCircle,
+		iconClass: "text-action-buy",
+		badgeClass: "bg-bg-300 text-txt-100",
+	},
+	at_risk: {
+		borderClass: "border-warning/50",
+		bgClass: "bg-warning/5",
+		icon: AlertTriangle,
+		iconClass: "text-warning",
+		badgeClass: "bg-warning text-bg-100",
+	},
+	passed: {
+		borderClass: "border-trade-buy",
+		bgClass: "bg-trade-buy/10",
+		icon: Trophy,
+		iconClass: "text-trade-buy",
+		badgeClass: "bg-trade-buy text-bg-100",
+	},
+	failed: {
+		borderClass: "border-fb-error",
+		bgClass: "bg-fb-error/10",
+		icon: XCircle,
+		iconClass: "text-fb-error",
+		badgeClass: "bg-fb-error text-bg-100",
+	},
+}
+
+interface MetricCellProps {
+	label: string
+	value: string
+	subLabel?: string
+	valueClassName?: string
+}
+
+const MetricCell = ({ label, value, subLabel, valueClassName = "text-txt-100" }: MetricCellProps) => (
+	<div className="space-y-s-100">
+		<span className="text-tiny text-txt-300 block">{label}</span>
+		<span className={cn("text-body block font-semibold", valueClassName)}>{value}</span>
+		{subLabel && <span className="text-tiny text-txt-300 block">{subLabel}</span>}
+	</div>
+)
+
+interface PropEvaluationPanelProps {
+	data: PropEvaluationOverview | null
+}
+
+export const PropEvaluationPanel = ({ data }: PropEvaluationPanelProps) => {
+	const t = useTranslations("commandCenter.propEvaluation")
+	const { formatCurrency, formatPercent } = useFormatting()
+
+	if (!data) return null
+
+	const { ruleSet, evaluation } = data
+	const style = STATUS_STYLES[evaluation.status]
+	const StatusIcon = style.icon
+
+	return (
+		<div
+			id="cc-prop-evaluation"
+			className={cn(
+				"p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border transition-colors",
+				style.borderClass,
+				style.bgClass
+			)}
+		>
+			{/* Header */}
+			<div className="mb-s-300 sm:mb-m-400 flex items-center justify-between">
+				<div className="gap-s-200 flex items-center">
+					<StatusIcon className={cn("h-5 w-5 sm:h-6 sm:w-6", style.iconClass)} />
+					<div>
+						<h3 className="text-small sm:text-body text-txt-100 font-semibold">{t("title")}</h3>
+						<p className="text-tiny text-txt-300">{t(`drawdownTypes.${ruleSet.drawdownType}`)}</p>
+					</div>
+				</div>
+				<span className={cn("px-m-400 py-s-100 text-small rounded-full font-bold", style.badgeClass)}>
+					{t(`status.${evaluation.status}`)}
+				</span>
+			</div>
+
+			{/* Broken rules */}
+			{evaluation.violations.length > 0 && (
+				<div className="mb-s-300 sm:mb-m-400 space-y-s-200">
+					{evaluation.violations.map((violation) => (
+						<div
+							key={`${violation.type}-${violation.date}`}
+							className={cn(
+								"gap-s-200 text-small flex items-center",
+								violation.type === "scaling_plan" ? "text-warning" : "text-fb-error"
+							)}
+						>
+							<AlertTriangle className="h-4 w-4" />
+							<span>{t(`violations.${violation.type}`, { date: violation.date })}</span>
+						</div>
+					))}
+				</div>
+			)}
+
+			{/* Row 1: Drawdown and profit */}
+			<div className="gap-s-300 sm:gap-m-400 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+				<MetricCell
+					label={t("distanceToFloor")}
+					value={formatCurrency(fromCents(evaluation.distanceToFloorCents))}
+					valueClassName={evaluation.status === "at_risk" ? "text-warning" : "text-txt-100"}
+					subLabel={`${t("floor")}: ${formatCurrency(fromCents(evaluation.drawdownFloorCents))}`}
+				/>
+				<MetricCell
+					label={t("profit")}
+					value={formatCurrency(fromCents(evaluation.profitCents))}
+					valueClassName={evaluation.profitCents >= 0 ? "text-trade-buy" : "text-trade-sell"}
+					subLabel={
+						evaluation.profitTargetCents !== null && evaluation.profitProgressPercent !== null
+							? t("targetProgress", {
+								target: formatCurrency(fromCents(evaluation.profitTargetCents)),
+								progress: formatPercent(evaluation.profitProgressPercent),
+							})
+							: undefined
+					}
+				/>
+				{evaluation.dailyLossRemainingCents !== null && (
+					<MetricCell
+						label={t("dailyLossRemaining")}
+						value={formatCurrency(fromCents(evaluation.dailyLossRemainingCents))}
+						subLabel={`${t("todayPnl")}: ${formatCurrency(fromCents(evaluation.todayPnlCents))}`}
+					/>
+				)}
+			</div>
+
+			{/* Row 2: Consistency, days and scaling */}
+			<div className="mt-s-300 sm:mt-m-400 gap-s-300 sm:gap-m-400 grid grid-cols-2 lg:grid-cols-4">
+				<MetricCell
+					label={t("consistency")}
+					value={evaluation.consistencyPercent !== null ? formatPercent(evaluation.consistencyPercent) : "-"}
+					valueClassName={evaluation.isConsistencyMet ? "text-txt-100" : "text-warning"}
+					subLabel={
+						evaluation.consistencyLimitPercent !== null
+							? `${t("limit")}: ${formatPercent(evaluation.consistencyLimitPercent)}`
+							: undefined
+					}
+				/>
+				<MetricCell
+					label={t("tradingDays")}
+					value={
+						evaluation.minTradingDays !== null
+							? `${evaluation.tradingDays} / ${evaluation.minTradingDays}`
+							: `${evaluation.tradingDays}`
+					}
+					subLabel={
+						evaluation.tradingDaysRemaining !== null
+							? t("daysRemaining", { count: evaluation.tradingDaysRemaining })
+							: undefined
+					}
+				/>
+				{evaluation.calendarDaysRemaining !== null && (
+					<MetricCell
+						label={t("deadline")}
+						value={t("daysRemaining", { count: evaluation.calendarDaysRemaining })}
+					/>
+				)}
+				{evaluation.currentMaxContracts !== null && (
+					<MetricCell
+						label={t("maxContracts")}
+						value={`${evaluation.currentMaxContracts}`}
+						subLabel={
+							evaluation.nextScalingTier
+								? t("nextTier", {
+									contracts: evaluation.nextScalingTier.maxContracts,
+									profit: formatCurrency(fromCents(evaluation.nextScalingTier.profitThresholdCents)),
+								})
+								: undefined
+						}
+					/>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,182 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter, usePathname } from "next/navigation"
+import { History, RotateCcw } from "lucide-react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { cn } from "@/lib/utils"
+import { fromCents } from "@/lib/money"
+import { useFormatting } from "@/hooks/use-formatting"
+import { resetReplay } from "@/app/actions/replay"
+import type { ReplayDay, ReplayTimeline } from "@/types/replay"
+
+interface ReplayTimelinePanelProps {
+	timeline: ReplayTimeline | null
+	/** Day currently shown in the Command Center (YYYY-MM-DD) */
+	viewDate: string
+}
+
+const getDayClass = (day: ReplayDay): string => {
+	if (day.isCurrent) return "bg-bg-300 border-acc-100"
+	if (day.tradeCount === 0) return "bg-bg-300/50 border-transparent"
+	if (day.pnlCents > 0) return "bg-trade-buy/70 border-transparent"
+	if (day.pnlCents < 0) return "bg-trade-sell/70 border-transparent"
+	return "bg-txt-300/50 border-transparent"
+}
+
+export const ReplayTimelinePanel = ({ timeline, viewDate }: ReplayTimelinePanelProps) => {
+	const t = useTranslations("commandCenter.replay")
+	const tCommon = useTranslations("common")
+	const router = useRouter()
+	const pathname = usePathname()
+	const { formatCurrency, formatDate } = useFormatting()
+	const [isResetting, setIsResetting] = useState(false)
+	const [resetError, setResetError] = useState<string | null>(null)
+
+	if (!timeline) return null
+
+	const formatDayKey = (dateKey: string): string =>
+		formatDate(new Date(dateKey + "T12:00:00"), { day: "numeric", month: "short", year: "numeric" })
+
+	const handleSelectDay = (day: ReplayDay) => {
+		router.push(day.isCurrent ? pathname : `${pathname}?date=${day.date}`)
+	}
+
+	const handleReset = async () => {
+		setIsResetting(true)
+		const result = await resetReplay()
+		setIsResetting(false)
+
+		if (result.status === "success") {
+			setResetError(null)
+			router.push(pathname)
+			router.refresh()
+		} else {
+			setResetError(result.message)
+		}
+	}
+
+	return (
+		<div
+			id="cc-replay-timeline"
+			className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border"
+		>
+			{/* Header */}
+			<div className="mb-s-300 gap-s-200 flex flex-wrap items-center justify-between">
+				<div className="gap-s-200 flex items-center">
+					<History className="text-acc-100 h-5 w-5" />
+					<div>
+						<h3 className="text-small sm:text-body text-txt-100 font-semibold">{t("title")}</h3>
+						<p className="text-tiny text-txt-300">
+							{t("startedOn", { date: formatDayKey(timeline.startDate) })}
+						</p>
+					</div>
+				</div>
+
+				<AlertDialog>
+					<AlertDialogTrigger asChild>
+						<Button
+							id="replay-timeline-reset"
+							variant="ghost"
+							size="sm"
+							disabled={isResetting}
+							className="gap-s-100 text-tiny text-txt-300"
+						>
+							<RotateCcw className="h-3.5 w-3.5" />
+							<span>{t("reset")}</span>
+						</Button>
+					</AlertDialogTrigger>
+					<AlertDialogContent>
+						<AlertDialogHeader>
+							<AlertDialogTitle>{t("resetTitle")}</AlertDialogTitle>
+							<AlertDialogDescription>
+								{t("resetDescription", { date: formatDayKey(timeline.startDate) })}
+							</AlertDialogDescription>
+						</AlertDialogHeader>
+						<AlertDialogFooter>
+							<AlertDialogCancel id="replay-timeline-reset-cancel">
+								{tCommon("cancel")}
+							</AlertDialogCancel>
+							<AlertDialogAction
+								id="replay-timeline-reset-confirm"
+								className="bg-fb-error hover:bg-fb-error/90"
+								onClick={handleReset}
+							>
+								{t("resetConfirm")}
+							</AlertDialogAction>
+						</AlertDialogFooter>
+					</AlertDialogContent>
+				</AlertDialog>
+			</div>
+
+			{/* Totals */}
+			<div className="mb-s-300 gap-m-400 text-small flex flex-wrap">
+				<span className="text-txt-300">
+					{t("daysReplayed")}: <span className="text-txt-100 font-semibold">{timeline.daysReplayed}</span>
+				</span>
+				<span className="text-txt-300">
+					{t("daysTraded")}: <span className="text-txt-100 font-semibold">{timeline.daysTraded}</span>
+				</span>
+				<span className="text-txt-300">
+					{t("totalPnl")}:{" "}
+					<span
+						className={cn(
+							"font-semibold",
+							timeline.totalPnlCents >= 0 ? "text-trade-buy" : "text-trade-sell"
+						)}
+					>
+						{formatCurrency(fromCents(timeline.totalPnlCents))}
+					</span>
+				</span>
+			</div>
+
+			{/* One cell per trading day */}
+			<div className="gap-s-100 flex flex-wrap" role="list" aria-label={t("timelineLabel")}>
+				{timeline.days.map((day) => {
+					const label = day.tradeCount > 0
+						? t("dayWithTrades", {
+							date: formatDayKey(day.date),
+							count: day.tradeCount,
+							pnl: formatCurrency(fromCents(day.pnlCents)),
+						})
+						: t("dayWithoutTrades", { date: formatDayKey(day.date) })
+
+					return (
+						<button
+							key={day.date}
+							id={`replay-timeline-day-${day.date}`}
+							type="button"
+							role="listitem"
+							onClick={() => handleSelectDay(day)}
+							title={label}
+							aria-label={label}
+							className={cn(
+								"h-5 w-5 rounded-sm border-2 transition-transform hover:scale-110",
+								getDayClass(day),
+								day.date === viewDate && "ring-acc-100 ring-1 ring-offset-1"
+							)}
+						/>
+					)
+				})}
+			</div>
+
+			{resetError && (
+				<p className="mt-s-200 text-tiny text-fb-error" role="alert">
+					{resetError}
+				</p>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,305 @@
+/**
+ * Column Mapping Wizard
+ * Maps arbitrary CSV headings to execution fields (date, time, asset, side,
+ * quantity, price, fees) with format options, and previews the parsed
+ * executions and grouped trades live as the mapping changes.
+ */
+
+"use client"
+
+import { useMemo } from "react"
+import { useTranslations } from "next-intl"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table"
+import {
+	parseMappedCSV,
+	groupExecutionsIntoTrades,
+	type CsvColumnMapping,
+	type CsvDateFormat,
+	type CsvTable,
+} from "@/lib/csv-parsers"
+import { cn } from "@/lib/utils"
+
+/** Select value for optional columns that are not mapped */
+const NONE = "__none__"
+
+const REQUIRED_FIELDS = ["date", "asset", "quantity", "price"] as const
+const OPTIONAL_FIELDS = ["time", "side"] as const
+const DATE_FORMATS: CsvDateFormat[] = ["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD", "YYYYMMDD"]
+const PREVIEW_ROWS = 5
+
+interface ColumnMappingWizardProps {
+	csvContent: string
+	table: CsvTable
+	mapping: CsvColumnMapping
+	onChange: (mapping: CsvColumnMapping) => void
+}
+
+const splitValues = (value: string): string[] =>
+	value
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean)
+
+export const ColumnMappingWizard = ({
+	csvContent,
+	table,
+	mapping,
+	onChange,
+}: ColumnMappingWizardProps) => {
+	const t = useTranslations("imports.mapping")
+
+	const setColumn = <K extends keyof CsvColumnMapping["columns"]>(
+		field: K,
+		value: CsvColumnMapping["columns"][K]
+	) => onChange({ ...mapping, columns: { ...mapping.columns, [field]: value } })
+
+	const toggleFee = (header: string) => {
+		const fees = mapping.columns.fees.includes(header)
+			? mapping.columns.fees.filter((fee) => fee !== header)
+			: [...mapping.columns.fees, header]
+		setColumn("fees", fees)
+	}
+
+	// Live preview: parse with the current mapping and group like the server does
+	const preview = useMemo(() => {
+		try {
+			const executions = parseMappedCSV(csvContent, mapping, "CUSTOM")
+			return {
+				executions,
+				tradeCount: groupExecutionsIntoTrades(executions).length,
+				error: null,
+			}
+		} catch (error) {
+			return {
+				executions: [],
+				tradeCount: 0,
+				error: error instanceof Error ? error.message : String(error),
+			}
+		}
+	}, [csvContent, mapping])
+
+	const renderColumnSelect = (
+		field: (typeof REQUIRED_FIELDS)[number] | (typeof OPTIONAL_FIELDS)[number],
+		optional: boolean
+	) => {
+		const value = mapping.columns[field]
+		return (
+			<div key={field} className="space-y-2">
+				<Label id={`mapping-${field}-label`} htmlFor={`mapping-${field}`} className="text-txt-100">
+					{t(`fields.${field}`)}
+				</Label>
+				<Select
+					value={value === null ? NONE : value || undefined}
+					onValueChange={(v) => setColumn(field, v === NONE ? null : v)}
+				>
+					<SelectTrigger id={`mapping-${field}`} className="w-full">
+						<SelectValue placeholder={t("selectColumn")} />
+					</SelectTrigger>
+					<SelectContent>
+						{optional && (
+							<SelectItem value={NONE}>
+								{field === "time" ? t("timeInDateColumn") : t("sideFromQuantitySign")}
+							</SelectItem>
+						)}
+						{table.headers.map((header) => (
+							<SelectItem key={header} value={header}>
+								{header}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+		)
+	}
+
+	return (
+		<div className="space-y-6">
+			{/* Column assignment */}
+			<div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+				{REQUIRED_FIELDS.map((field) => renderColumnSelect(field, false))}
+				{OPTIONAL_FIELDS.map((field) => renderColumnSelect(field, true))}
+			</div>
+
+			{/* Fee columns */}
+			<div className="space-y-2">
+				<p className="text-sm font-medium text-txt-100">{t("feeColumns")}</p>
+				<p className="text-xs text-txt-300">{t("feeColumnsHint")}</p>
+				<div className="flex flex-wrap gap-3">
+					{table.headers.map((header, index) => (
+						<label key={header} className="flex items-center gap-2 text-sm text-txt-200">
+							<Checkbox
+								id={`mapping-fee-${index}`}
+								checked={mapping.columns.fees.includes(header)}
+								onCheckedChange={() => toggleFee(header)}
+							/>
+							{header}
+						</label>
+					))}
+				</div>
+			</div>
+
+			{/* Formats */}
+			<div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+				<div className="space-y-2">
+					<Label id="mapping-date-format-label" htmlFor="mapping-date-format" className="text-txt-100">
+						{t("dateFormat")}
+					</Label>
+					<Select
+						value={mapping.dateFormat}
+						onValueChange={(v) => onChange({ ...mapping, dateFormat: v as CsvDateFormat })}
+					>
+						<SelectTrigger id="mapping-date-format" className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{DATE_FORMATS.map((format) => (
+								<SelectItem key={format} value={format}>
+									{format}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="space-y-2">
+					<Label id="mapping-decimal-label" htmlFor="mapping-decimal" className="text-txt-100">
+						{t("decimalSeparator")}
+					</Label>
+					<Select
+						value={mapping.decimalSeparator}
+						onValueChange={(v) =>
+							onChange({ ...mapping, decimalSeparator: v as CsvColumnMapping["decimalSeparator"] })
+						}
+					>
+						<SelectTrigger id="mapping-decimal" className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value=",">{t("decimalComma")}</SelectItem>
+							<SelectItem value=".">{t("decimalDot")}</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="space-y-2">
+					<Label id="mapping-delimiter-label" htmlFor="mapping-delimiter" className="text-txt-100">
+						{t("delimiter")}
+					</Label>
+					<Select
+						value={mapping.delimiter}
+						onValueChange={(v) =>
+							onChange({ ...mapping, delimiter: v as CsvColumnMapping["delimiter"] })
+						}
+					>
+						<SelectTrigger id="mapping-delimiter" className="w-full">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="auto">{t("delimiterAuto")}</SelectItem>
+							<SelectItem value=",">{t("delimiterComma")}</SelectItem>
+							<SelectItem value=";">{t("delimiterSemicolon")}</SelectItem>
+							<SelectItem value={"\t"}>{t("delimiterTab")}</SelectItem>
+						</SelectContent>
+					</Select>
+				</div>
+			</div>
+
+			{/* Side encoding (only when a side column is mapped) */}
+			{mapping.columns.side !== null && (
+				<div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+					<div className="space-y-2">
+						<Label id="mapping-buy-values-label" htmlFor="mapping-buy-values" className="text-txt-100">
+							{t("buyValues")}
+						</Label>
+						<Input
+							id="mapping-buy-values"
+							defaultValue={mapping.sideEncoding.buy.join(", ")}
+							onBlur={(e) =>
+								onChange({
+									...mapping,
+									sideEncoding: { ...mapping.sideEncoding, buy: splitValues(e.target.value) },
+								})
+							}
+						/>
+					</div>
+					<div className="space-y-2">
+						<Label id="mapping-sell-values-label" htmlFor="mapping-sell-values" className="text-txt-100">
+							{t("sellValues")}
+						</Label>
+						<Input
+							id="mapping-sell-values"
+							defaultValue={mapping.sideEncoding.sell.join(", ")}
+							onBlur={(e) =>
+								onChange({
+									...mapping,
+									sideEncoding: { ...mapping.sideEncoding, sell: splitValues(e.target.value) },
+								})
+							}
+						/>
+					</div>
+				</div>
+			)}
+
+			{/* Live preview */}
+			<div className="space-y-2">
+				<div className="flex items-center justify-between">
+					<p className="text-sm font-medium text-txt-100">{t("preview")}</p>
+					<p className={cn("text-xs", preview.error ? "text-red-600" : "text-txt-300")}>
+						{preview.error
+							? t("previewError", { error: preview.error })
+							: t("previewSummary", {
+									executions: preview.executions.length,
+									rows: table.rows.length,
+									trades: preview.tradeCount,
+								})}
+					</p>
+				</div>
+				{preview.executions.length > 0 && (
+					<Table>
+						<TableHeader>
+							<TableRow>
+								<TableHead>{t("fields.date")}</TableHead>
+								<TableHead>{t("fields.time")}</TableHead>
+								<TableHead>{t("fields.asset")}</TableHead>
+								<TableHead>{t("fields.side")}</TableHead>
+								<TableHead className="text-right">{t("fields.quantity")}</TableHead>
+								<TableHead className="text-right">{t("fields.price")}</TableHead>
+								<TableHead className="text-right">{t("fees")}</TableHead>
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{preview.executions.slice(0, PREVIEW_ROWS).map((execution, index) => (
+								<TableRow key={index}>
+									<TableCell>{execution.date}</TableCell>
+									<TableCell>{execution.time}</TableCell>
+									<TableCell>{execution.asset}</TableCell>
+									<TableCell>{execution.side === "BUY" ? t("buy") : t("sell")}</TableCell>
+									<TableCell className="text-right font-mono">{execution.quantity}</TableCell>
+									<TableCell className="text-right font-mono">{execution.price}</TableCell>
+									<TableCell className="text-right font-mono">
+										{execution.commission.toFixed(2)}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</div>
+		</div>
+	)
+}
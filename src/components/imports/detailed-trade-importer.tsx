@@ -1,14 +1,15 @@
 /**
  * Detailed Trade Importer Component
  * 3-step flow for importing broker statement CSVs:
- * Step 1: Select broker and upload file
+ * Step 1: Select broker (or a saved import template / custom mapping) and upload file
+ *   (custom mapping: map CSV columns to execution fields, optionally saving the mapping as a template)
  * Step 2: Review detected trades with warnings
  * Step 3: Confirm import
  */
 
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { useTranslations } from "next-intl"
 import { Button } from "@/components/ui/button"
@@ -23,12 +24,20 @@ import {
 	SelectValue,
 } from "@/components/ui/select"
 import { useToast } from "@/components/ui/toast"
-import type { BrokerName } from "@/lib/csv-parsers"
+import { readCsvTable, suggestColumnMapping } from "@/lib/csv-parsers"
+import type { BrokerName, CsvColumnMapping, CsvTable, ImportTemplate } from "@/lib/csv-parsers"
 import type { ImportPreview } from "@/lib/csv-parsers"
-import { Loader2, AlertCircle, CheckCircle2 } from "lucide-react"
+import { listImportTemplates, saveImportTemplate } from "@/app/actions/import-templates"
+import { Loader2, AlertCircle, CheckCircle2, Save } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { ColumnMappingWizard } from "./column-mapping-wizard"
 
-type Step = "select" | "preview" | "importing" | "success" | "error"
+type Step = "select" | "mapping" | "preview" | "importing" | "success" | "error"
+
+/** Source select value: a built-in broker, a saved template ("template:<id>") or a new custom mapping */
+type ImportSource = BrokerName | `template:${string}` | "CUSTOM"
+
+const TEMPLATE_PREFIX = "template:"
 
 interface DetailedTradeImporterProps {
 	accountId: string
@@ -43,37 +52,54 @@ export const DetailedTradeImporter = ({
 	const tCommon = useTranslations("common")
 
 	const [step, setStep] = useState<Step>("select")
-	const [brokerName, setBrokerName] = useState<BrokerName | "">("")
+	const [source, setSource] = useState<ImportSource | "">("")
 	const [csvFile, setCsvFile] = useState<File | null>(null)
 	const [preview, setPreview] = useState<ImportPreview | null>(null)
 	const [importId, setImportId] = useState<string>("")
 	const [loading, setLoading] = useState(false)
 	const [error, setError] = useState<string>("")
 
+	// Column mapping (custom sources)
+	const [templates, setTemplates] = useState<ImportTemplate[]>([])
+	const [csvContent, setCsvContent] = useState("")
+	const [csvTable, setCsvTable] = useState<CsvTable | null>(null)
+	const [mapping, setMapping] = useState<CsvColumnMapping | null>(null)
+	const [templateName, setTemplateName] = useState("")
+	const [savingTemplate, setSavingTemplate] = useState(false)
+
+	useEffect(() => {
+		listImportTemplates().then((result) => {
+			if (result.status === "success" && result.data) {
+				setTemplates(result.data)
+			}
+		})
+	}, [])
+
+	const selectedTemplate = source.startsWith(TEMPLATE_PREFIX)
+		? templates.find((template) => template.id === source.slice(TEMPLATE_PREFIX.length))
+		: undefined
+	const sourceLabel = selectedTemplate?.name ?? (source === "CUSTOM" ? templateName || t("customMapping") : source)
+
 	/**
-	 * Handle broker selection and CSV upload
+	 * Request the grouped-trade preview for the uploaded CSV
 	 */
-	const handleSelectStep = async () => {
-		if (!brokerName || !csvFile) {
-			setError(t("errors.selectBrokerAndFile"))
-			return
-		}
-
+	const requestPreview = async (
+		content: string,
+		request: { brokerName: BrokerName } | { mapping: CsvColumnMapping; templateName?: string }
+	) => {
 		setLoading(true)
 		setError("")
 
 		try {
-			// Read CSV file
-			const csvContent = await csvFile.text()
-
 			// Send to API for preview
 			const response = await fetch("/api/imports/detailed-trades", {
 				method: "POST",
 				headers: { "Content-Type": "application/json" },
 				body: JSON.stringify({
 					accountId,
-					brokerName,
-					csvContent,
+					csvContent: content,
+					fileName: csvFile?.name,
+					...request,
 				}),
 			})
 
@@ -104,6 +130,61 @@ export const DetailedTradeImporter = ({
 		}
 	}
 
+	/**
+	 * Handle broker selection and CSV upload
+	 */
+	const handleSelectStep = async () => {
+		if (!source || !csvFile) {
+			setError(t("errors.selectBrokerAndFile"))
+			return
+		}
+
+		// Read CSV file
+		const content = await csvFile.text()
+		setCsvContent(content)
+
+		if (source === "CUSTOM") {
+			const table = readCsvTable(content)
+			setCsvTable(table)
+			setMapping(suggestColumnMapping(table.headers))
+			setError("")
+			setStep("mapping")
+			return
+		}
+
+		if (selectedTemplate) {
+			await requestPreview(content, { mapping: selectedTemplate.mapping, templateName: selectedTemplate.name })
+			return
+		}
+
+		await requestPreview(content, { brokerName: source as BrokerName })
+	}
+
+	/**
+	 * Save the current mapping as a reusable template and select it
+	 */
+	const handleSaveTemplate = async () => {
+		if (!mapping || !templateName.trim()) return
+
+		setSavingTemplate(true)
+		try {
+			const result = await saveImportTemplate({ name: templateName, mapping })
+			if (result.status === "success" && result.data) {
+				const saved = result.data
+				setTemplates((prev) =>
+					[...prev.filter((template) => template.id !== saved.id), saved].toSorted((a, b) =>
+						a.name.localeCompare(b.name)
+					)
+				)
+				showToast("success", t("mapping.templateSaved", { name: saved.name }))
+			} else {
+				showToast("error", result.message)
+			}
+		} finally {
+			setSavingTemplate(false)
+		}
+	}
+
 	/**
 	 * Confirm import and commit trades
 	 */
@@ -135,7 +216,9 @@ export const DetailedTradeImporter = ({
 			setStep("success")
 			showToast(
 				"success",
-				t("tradesImported", { count: data.importedTradesCount, broker: brokerName })
+				data.continuedTradesCount > 0
+					? `${t("tradesImported", { count: data.importedTradesCount, broker: sourceLabel })} • ${t("tradesContinued", { count: data.continuedTradesCount })}`
+					: t("tradesImported", { count: data.importedTradesCount, broker: sourceLabel })
 			)
 
 			// Redirect after 2 seconds
@@ -171,7 +254,7 @@ export const DetailedTradeImporter = ({
 						<Label id="broker" htmlFor="broker" className="text-txt-100">
 							{t("broker")}
 						</Label>
-						<Select value={brokerName} onValueChange={(v) => setBrokerName(v as BrokerName)}>
+						<Select value={source} onValueChange={(v) => setSource(v as ImportSource)}>
 							<SelectTrigger id="broker" className="w-full">
 								<SelectValue placeholder={t("selectBroker")} />
 							</SelectTrigger>
@@ -179,6 +262,12 @@ export const DetailedTradeImporter = ({
 								<SelectItem value="CLEAR">Clear</SelectItem>
 								<SelectItem value="XP">XP</SelectItem>
 								<SelectItem value="GENIAL">Genial</SelectItem>
+								{templates.map((template) => (
+									<SelectItem key={template.id} value={`${TEMPLATE_PREFIX}${template.id}`}>
+										{t("mapping.templateOption", { name: template.name })}
+									</SelectItem>
+								))}
+								<SelectItem value="CUSTOM">{t("customMapping")}</SelectItem>
 							</SelectContent>
 						</Select>
 					</div>
@@ -214,7 +303,7 @@ export const DetailedTradeImporter = ({
 				<Button
 					id="select-step-button"
 					onClick={handleSelectStep}
-					disabled={!brokerName || !csvFile || loading}
+					disabled={!source || !csvFile || loading}
 					className="w-full"
 				>
 					{loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
@@ -224,6 +313,78 @@ export const DetailedTradeImporter = ({
 		)
 	}
 
+	// Step 1b: Map Columns (custom mapping)
+	if (step === "mapping" && csvTable && mapping) {
+		return (
+			<div className="space-y-6 border border-bg-300 rounded-lg p-6 bg-bg-100">
+				<div>
+					<h3 className="text-lg font-semibold text-txt-100">{t("mapping.title")}</h3>
+					<p className="text-sm text-txt-300 mt-1">
+						{t("mapping.description", { columns: csvTable.headers.length, rows: csvTable.rows.length })}
+					</p>
+				</div>
+
+				<ColumnMappingWizard
+					csvContent={csvContent}
+					table={csvTable}
+					mapping={mapping}
+					onChange={setMapping}
+				/>
+
+				{/* Save as template */}
+				<div className="flex items-end gap-2">
+					<div className="flex-1 space-y-2">
+						<Label id="mapping-template-name-label" htmlFor="mapping-template-name" className="text-txt-100">
+							{t("mapping.templateName")}
+						</Label>
+						<Input
+							id="mapping-template-name"
+							value={templateName}
+							onChange={(e) => setTemplateName(e.target.value)}
+							placeholder={t("mapping.templateNamePlaceholder")}
+							maxLength={100}
+						/>
+					</div>
+					<Button
+						id="mapping-save-template-button"
+						variant="outline"
+						onClick={handleSaveTemplate}
+						disabled={!templateName.trim() || savingTemplate}
+					>
+						{savingTemplate ? (
+							<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+						) : (
+							<Save className="w-4 h-4 mr-2" />
+						)}
+						{t("mapping.saveTemplate")}
+					</Button>
+				</div>
+
+				<div className="flex gap-2">
+					<Button
+						id="mapping-back-button"
+						variant="outline"
+						onClick={() => setStep("select")}
+						className="flex-1"
+					>
+						{tCommon("back")}
+					</Button>
+					<Button
+						id="mapping-next-button"
+						onClick={() =>
+							requestPreview(csvContent, { mapping, templateName: templateName.trim() || undefined })
+						}
+						disabled={loading}
+						className="flex-1"
+					>
+						{loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+						{loading ? t("parsingCsv") : tCommon("next")}
+					</Button>
+				</div>
+			</div>
+		)
+	}
+
 	// Step 2: Preview Trades
 	if (step === "preview" && preview) {
 		return (
@@ -302,6 +463,16 @@ export const DetailedTradeImporter = ({
 										{trade.netPnl ? trade.netPnl.toFixed(2) : "—"}
 									</p>
 								</div>
+								{trade.continuesTradeId && (
+									<p className="text-xs text-txt-300">
+										{t("continuesOpenPosition", { quantity: trade.entryQuantity })}
+									</p>
+								)}
+								{trade.remainingQuantity > 0 && (
+									<p className="text-xs text-txt-300">
+										{t("remainsOpen", { quantity: trade.remainingQuantity })}
+									</p>
+								)}
 								{trade.warnings.length > 0 && (
 									<p className="text-xs text-yellow-700 mt-1">
 										{trade.warnings.join("; ")}
@@ -324,7 +495,7 @@ export const DetailedTradeImporter = ({
 					<Button
 						id="preview-back-button"
 						variant="outline"
-						onClick={() => setStep("select")}
+						onClick={() => setStep(source === "CUSTOM" ? "mapping" : "select")}
 						className="flex-1"
 					>
 						{tCommon("back")}
@@ -366,7 +537,7 @@ export const DetailedTradeImporter = ({
 				<div>
 					<h3 className="text-lg font-semibold text-green-900">{t("successTitle")}</h3>
 					<p className="text-sm text-green-700 mt-1">
-						{t("tradesImported", { count: preview?.detectedTradeCount ?? 0, broker: brokerName })}
+						{t("tradesImported", { count: preview?.detectedTradeCount ?? 0, broker: sourceLabel })}
 					</p>
 				</div>
 				<p className="text-xs text-green-600">{t("redirecting")}</p>
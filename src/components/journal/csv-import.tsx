@@ -57,6 +57,7 @@ export const CsvImport = () => {
 	// File state
 	const [isDragging, setIsDragging] = useState(false)
 	const [fileName, setFileName] = useState<string | null>(null)
+	const [fileContent, setFileContent] = useState<string | null>(null)
 	const [parseResult, setParseResult] = useState<CsvParseResult | null>(null)
 
 	// Validation state
@@ -133,6 +134,7 @@ export const CsvImport = () => {
 
 				const result = parseCsvContent(content)
 				setParseResult(result)
+				setFileContent(content)
 
 				if (result.trades.length === 0) {
 					showToast("error", t("noTradesFound"))
@@ -233,6 +235,7 @@ export const CsvImport = () => {
 		setValidationResult(null)
 		setProcessedTrades([])
 		setFileName(null)
+		setFileContent(null)
 		setExpandedIds(new Set())
 		setSelectedIds(new Set())
 		if (fileInputRef.current) {
@@ -342,7 +345,10 @@ export const CsvImport = () => {
 				})
 			}, 200)
 
-			const result = await importCsvTrades(selectedTrades)
+			const result = await importCsvTrades(
+				selectedTrades,
+				fileName && fileContent ? { fileName, content: fileContent } : undefined
+			)
 
 			clearInterval(progressInterval)
 			setImportProgress(100)
@@ -7,6 +7,9 @@ export { CsvImport } from "./csv-import"
 export { OcrImport } from "./ocr-import"
 export { NotaImport } from "./nota-import"
 export { NotaMatchCard } from "./nota-match-card"
+export { NotaTradeCandidateCard } from "./nota-trade-candidate-card"
+export { NotaDayReview, type NotaReview } from "./nota-day-review"
+export { NotaCostReconciliation } from "./nota-cost-reconciliation"
 export { NewTradeTabs } from "./new-trade-tabs"
 export { ExecutionList } from "./execution-list"
 export { ExecutionForm } from "./execution-form"
@@ -19,3 +22,7 @@ export { TradeRow } from "./trade-row"
 export { TradeDayGroup } from "./trade-day-group"
 export { PeriodFilter } from "./period-filter"
 export { JournalContent } from "./journal-content"
+export { TradeChart } from "./trade-chart"
+export { PriceBarImportDialog } from "./price-bar-import-dialog"
+export { TradeAttachmentsInput, toAttachmentDrafts } from "./trade-attachments-input"
+export { TradeAttachmentsGallery } from "./trade-attachments-gallery"
@@ -0,0 +1,165 @@
+"use client"
+
+import { useState, useCallback, useEffect } from "react"
+import { useTranslations } from "next-intl"
+import { Loader2, Scale, CheckCircle2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast"
+import { useFormatting } from "@/hooks/use-formatting"
+import { fromCents } from "@/lib/money"
+import { BRT_OFFSET } from "@/lib/dates"
+import { cn } from "@/lib/utils"
+import {
+	getNotaCostReconciliation,
+	allocateNotaCostsToTrades,
+} from "@/app/actions/nota-import"
+import type { NotaCostReconciliationDay } from "@/lib/nota-parser/types"
+
+/**
+ * Per-day comparison of official nota costs vs the commission/fees stored on trades,
+ * with a shortcut to allocate a nota's costs back onto its linked trades.
+ */
+export const NotaCostReconciliation = () => {
+	const t = useTranslations("journal.nota.reconciliation")
+	const { showToast } = useToast()
+	const { formatCurrency, formatCurrencyWithSign, formatDate } = useFormatting()
+
+	const [days, setDays] = useState<NotaCostReconciliationDay[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [allocatingId, setAllocatingId] = useState<string | null>(null)
+
+	const fetchReconciliation = useCallback(async () => {
+		setIsLoading(true)
+		try {
+			const result = await getNotaCostReconciliation()
+			if (result.status === "success" && result.data) {
+				setDays(result.data)
+			}
+		} catch {
+			showToast("error", t("fetchError"))
+		} finally {
+			setIsLoading(false)
+		}
+	}, [showToast, t])
+
+	useEffect(() => {
+		fetchReconciliation()
+	}, [fetchReconciliation])
+
+	const handleAllocate = async (notaImportId: string) => {
+		setAllocatingId(notaImportId)
+		try {
+			const result = await allocateNotaCostsToTrades(notaImportId)
+			if (result.status === "success" && result.data) {
+				showToast("success", t("allocated", { count: result.data.tradesUpdated }))
+				await fetchReconciliation()
+			} else {
+				showToast("error", result.message)
+			}
+		} finally {
+			setAllocatingId(null)
+		}
+	}
+
+	if (isLoading) {
+		return (
+			<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 flex justify-center rounded-lg border">
+				<Loader2 className="text-txt-300 h-5 w-5 animate-spin" />
+			</div>
+		)
+	}
+
+	if (days.length === 0) return null
+
+	return (
+		<div id="nota-cost-reconciliation" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+			<div className="gap-s-200 flex items-center">
+				<Scale className="text-txt-300 h-4 w-4" />
+				<h3 className="text-small text-txt-100 font-semibold">{t("title")}</h3>
+			</div>
+			<p className="mt-s-200 text-tiny text-txt-300">{t("description")}</p>
+
+			<div className="mt-m-400">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>{t("date")}</TableHead>
+							<TableHead className="text-right">{t("official")}</TableHead>
+							<TableHead className="text-right">{t("journal")}</TableHead>
+							<TableHead className="text-right">{t("difference")}</TableHead>
+							<TableHead className="text-right">{t("allocate")}</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{days.map((day) => (
+							<TableRow key={day.date}>
+								<TableCell className="text-txt-100 align-top font-medium">
+									{formatDate(new Date(`${day.date}T12:00:00${BRT_OFFSET}`))}
+									<span className="text-tiny text-txt-300 block font-normal">
+										{t("tradeCount", { count: day.tradeCount })}
+									</span>
+								</TableCell>
+								<TableCell className="text-txt-100 text-right align-top font-mono">
+									{formatCurrency(fromCents(day.officialCents))}
+								</TableCell>
+								<TableCell className="text-txt-200 text-right align-top font-mono">
+									{formatCurrency(fromCents(day.journalCents))}
+								</TableCell>
+								<TableCell
+									className={cn(
+										"text-right align-top font-mono",
+										day.differenceCents === 0
+											? "text-txt-300"
+											: day.differenceCents > 0
+												? "text-trade-sell"
+												: "text-trade-buy"
+									)}
+								>
+									{formatCurrencyWithSign(fromCents(day.differenceCents))}
+								</TableCell>
+								<TableCell className="text-right align-top">
+									<div className="space-y-s-100">
+										{day.notas.map((nota) => (
+											<div key={nota.notaImportId} className="gap-s-200 flex items-center justify-end">
+												<span className="text-tiny text-txt-300 max-w-[160px] truncate" title={nota.fileName}>
+													{nota.fileName}
+												</span>
+												{nota.allocatedAt ? (
+													<span className="text-tiny text-trade-buy gap-s-100 flex items-center">
+														<CheckCircle2 className="h-3 w-3" />
+														{t("allocatedBadge")}
+													</span>
+												) : (
+													<Button
+														id={`nota-cost-allocate-${nota.notaImportId}`}
+														variant="outline"
+														size="sm"
+														onClick={() => handleAllocate(nota.notaImportId)}
+														disabled={allocatingId !== null || nota.linkedTradeCount === 0}
+													>
+														{allocatingId === nota.notaImportId && (
+															<Loader2 className="mr-2 h-3 w-3 animate-spin" />
+														)}
+														{t("allocateButton", { count: nota.linkedTradeCount })}
+													</Button>
+												)}
+											</div>
+										))}
+									</div>
+								</TableCell>
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,228 @@
+"use client"
+
+import { CheckCircle2, AlertTriangle, Info } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { cn } from "@/lib/utils"
+import { NotaMatchCard } from "./nota-match-card"
+import { NotaTradeCandidateCard } from "./nota-trade-candidate-card"
+import type { NotaParseResult, NotaEnrichmentPreview } from "@/lib/nota-parser/types"
+
+/** One nota of the uploaded PDF with its preview and the user's selections */
+interface NotaReview {
+	parseResult: NotaParseResult
+	preview: NotaEnrichmentPreview
+	selectedIds: Set<string>
+	reEnrichIds: Set<string>
+	selectedCandidateIds: Set<string>
+}
+
+interface NotaDayReviewProps {
+	review: NotaReview
+	onToggleSelect: (tradeId: string) => void
+	onToggleReEnrich: (tradeId: string) => void
+	onToggleCandidate: (candidateId: string) => void
+}
+
+const NotaDayReview = ({
+	review,
+	onToggleSelect,
+	onToggleReEnrich,
+	onToggleCandidate,
+}: NotaDayReviewProps) => {
+	const t = useTranslations("journal.nota")
+	const locale = useLocale()
+	const { parseResult, preview } = review
+
+	// Count matches by status for the summary
+	const matchCounts = preview.matches.reduce(
+		(acc, m) => {
+			acc[m.status] = (acc[m.status] || 0) + 1
+			return acc
+		},
+		{} as Record<string, number>
+	)
+
+	const footerRows = [
+		{ key: "brokerage", value: parseResult.totalBrokerage },
+		{ key: "settlementFee", value: parseResult.settlementFee },
+		{ key: "registrationFee", value: parseResult.registrationFee },
+		{ key: "bmfFees", value: parseResult.bmfFees },
+		{ key: "irrf", value: parseResult.irrf },
+	] as const
+
+	return (
+		<div className="space-y-m-400 sm:space-y-m-500">
+			{/* Nota metadata */}
+			<div className="bg-bg-200 p-s-300 sm:p-m-400 gap-s-300 sm:gap-m-500 grid grid-cols-2 rounded-lg md:grid-cols-4">
+				<div>
+					<span className="text-tiny text-txt-300 block">{t("notaDate")}</span>
+					<span className="text-small text-txt-100 font-medium">
+						{new Date(parseResult.notaDate).toLocaleDateString(locale)}
+					</span>
+				</div>
+				<div>
+					<span className="text-tiny text-txt-300 block">{t("broker")}</span>
+					<span className="text-small text-txt-100 font-medium">{parseResult.brokerName}</span>
+				</div>
+				<div>
+					<span className="text-tiny text-txt-300 block">{t("notaNumber")}</span>
+					<span className="text-small text-txt-100 font-medium">{parseResult.notaNumber}</span>
+				</div>
+				<div>
+					<span className="text-tiny text-txt-300 block">
+						{t("totalFills", { count: parseResult.fills.length })}
+					</span>
+					<span className="text-small text-txt-100 font-medium">
+						{t("matchSummary", {
+							matched: preview.matches.length,
+							unmatched: preview.unmatchedFills.length,
+						})}
+					</span>
+				</div>
+			</div>
+
+			{/* Already imported: the whole nota is skipped on import */}
+			{preview.alreadyImported && (
+				<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
+					<div className="gap-s-200 flex items-center">
+						<Info className="text-txt-300 h-4 w-4 shrink-0" />
+						<span className="text-small text-txt-300">
+							{t("notaAlreadyImported", { number: parseResult.notaNumber })}
+						</span>
+					</div>
+				</div>
+			)}
+
+			{/* Parser warnings (e.g. unresolved BOVESPA tickers) */}
+			{parseResult.warnings.length > 0 && (
+				<div className="border-warning/30 bg-warning/10 p-s-300 sm:p-m-400 rounded-lg border">
+					<div className="gap-s-200 flex items-center">
+						<AlertTriangle className="text-warning h-4 w-4 shrink-0" />
+						<span className="text-small text-warning font-medium">
+							{t("parseWarnings", { count: parseResult.warnings.length })}
+						</span>
+					</div>
+					<ul className="mt-s-100 text-tiny text-txt-300 list-inside list-disc">
+						{parseResult.warnings.map((warning) => (
+							<li key={warning}>{warning}</li>
+						))}
+					</ul>
+				</div>
+			)}
+
+			{/* Match summary badges */}
+			<div className="gap-s-200 flex flex-wrap">
+				{(matchCounts.matched ?? 0) > 0 && (
+					<span className="bg-trade-buy/10 text-trade-buy text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
+						<CheckCircle2 className="h-3 w-3" />
+						{matchCounts.matched} {t("matched")}
+					</span>
+				)}
+				{(matchCounts.already_enriched ?? 0) > 0 && (
+					<span className="bg-bg-300/30 text-txt-300 text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
+						<Info className="h-3 w-3" />
+						{matchCounts.already_enriched} {t("alreadyEnriched")}
+					</span>
+				)}
+				{(matchCounts.quantity_mismatch ?? 0) + (matchCounts.price_mismatch ?? 0) > 0 && (
+					<span className="bg-warning/10 text-warning text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
+						<AlertTriangle className="h-3 w-3" />
+						{(matchCounts.quantity_mismatch ?? 0) + (matchCounts.price_mismatch ?? 0)}{" "}
+						{t("priceMismatch")}
+					</span>
+				)}
+			</div>
+
+			{/* Match cards */}
+			<div className="space-y-s-200">
+				{preview.matches.map((match) => (
+					<NotaMatchCard
+						key={match.tradeId}
+						match={match}
+						isSelected={review.selectedIds.has(match.tradeId)}
+						reEnrich={review.reEnrichIds.has(match.tradeId)}
+						onToggleSelect={() => onToggleSelect(match.tradeId)}
+						onToggleReEnrich={() => onToggleReEnrich(match.tradeId)}
+					/>
+				))}
+			</div>
+
+			{/* Unmatched fills warning */}
+			{preview.unmatchedFills.length > 0 && (
+				<div className="border-warning/30 bg-warning/10 p-s-300 sm:p-m-400 rounded-lg border">
+					<div className="gap-s-200 flex items-center">
+						<AlertTriangle className="text-warning h-4 w-4 shrink-0" />
+						<span className="text-small text-warning font-medium">
+							{t("unmatchedFillsWarning", {
+								count: preview.unmatchedFills.length,
+							})}
+						</span>
+					</div>
+					<p className="mt-s-100 text-tiny text-txt-300">{t("newTradesDescription")}</p>
+				</div>
+			)}
+
+			{/* Round trips from unmatched fills, offered as new trades */}
+			{preview.tradeCandidates.length > 0 && (
+				<div className="space-y-s-200">
+					{preview.tradeCandidates.map((candidate) => (
+						<NotaTradeCandidateCard
+							key={candidate.candidateId}
+							candidate={candidate}
+							isSelected={review.selectedCandidateIds.has(candidate.candidateId)}
+							onToggleSelect={() => onToggleCandidate(candidate.candidateId)}
+						/>
+					))}
+				</div>
+			)}
+
+			{/* Unmatched trades info */}
+			{preview.unmatchedTrades.length > 0 && (
+				<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
+					<div className="gap-s-200 flex items-center">
+						<Info className="text-txt-300 h-4 w-4 shrink-0" />
+						<span className="text-small text-txt-300">
+							{t("unmatchedTradesInfo", {
+								count: preview.unmatchedTrades.length,
+							})}
+						</span>
+					</div>
+				</div>
+			)}
+
+			{/* Financial summary */}
+			{parseResult.netTotal > 0 && (
+				<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
+					<h4 className="text-small text-txt-100 font-semibold">{t("financialSummary")}</h4>
+					<div className="mt-s-200 gap-x-m-500 gap-y-s-100 grid grid-cols-2 md:grid-cols-3">
+						{footerRows
+							.filter((row) => row.value > 0)
+							.map((row) => (
+								<div key={row.key} className="flex justify-between">
+									<span className="text-tiny text-txt-300">{t(row.key)}</span>
+									<span className="text-tiny text-txt-200">
+										{row.value.toLocaleString(locale, { minimumFractionDigits: 2 })}
+									</span>
+								</div>
+							))}
+						<div className="border-bg-300 pt-s-100 col-span-full flex justify-between border-t">
+							<span className="text-tiny text-txt-100 font-medium">{t("netTotal")}</span>
+							<span
+								className={cn(
+									"text-tiny font-medium",
+									parseResult.netTotalDebitCredit === "C" ? "text-trade-buy" : "text-trade-sell"
+								)}
+							>
+								{parseResult.netTotal.toLocaleString(locale, { minimumFractionDigits: 2 })}{" "}
+								{parseResult.netTotalDebitCredit === "C" ? "C" : "D"}
+							</span>
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export { NotaDayReview }
+export type { NotaReview }
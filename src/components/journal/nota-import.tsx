@@ -14,25 +14,21 @@ import {
 	X,
 	Loader2,
 	CheckCircle2,
-	AlertTriangle,
-	Info,
 } from "lucide-react"
 import { useTranslations, useLocale } from "next-intl"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs"
 import { useToast } from "@/components/ui/toast"
 import { useLoadingOverlay } from "@/components/ui/loading-overlay"
 import {
 	parseNotaPdf,
 	matchNotaFills,
-	enrichTradesFromNota,
+	importNotaBatch,
 } from "@/app/actions/nota-import"
-import { NotaMatchCard } from "./nota-match-card"
-import type {
-	NotaParseResult,
-	NotaEnrichmentPreview,
-	ConfirmedEnrichment,
-} from "@/lib/nota-parser/types"
+import { NotaDayReview, type NotaReview } from "./nota-day-review"
+import { NotaCostReconciliation } from "./nota-cost-reconciliation"
+import type { NotaImportInput } from "@/lib/nota-parser/types"
 
 type Step = "upload" | "review" | "enriching"
 
@@ -54,13 +50,9 @@ export const NotaImport = () => {
 	// File data
 	const [fileName, setFileName] = useState<string | null>(null)
 
-	// Parse + Match results
-	const [parseResult, setParseResult] = useState<NotaParseResult | null>(null)
-	const [preview, setPreview] = useState<NotaEnrichmentPreview | null>(null)
-
-	// Selection state for matches
-	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
-	const [reEnrichIds, setReEnrichIds] = useState<Set<string>>(new Set())
+	// Parse + Match results with selection state, one entry per nota in the PDF
+	const [reviews, setReviews] = useState<NotaReview[]>([])
+	const [activeNota, setActiveNota] = useState("0")
 
 	// Enriching state
 	const [isEnriching, setIsEnriching] = useState(false)
@@ -95,37 +87,58 @@ export const NotaImport = () => {
 					return
 				}
 
-				const parsed = parseResponse.data!
-				setParseResult(parsed)
-
-				// Step 2: Match fills to existing trades
-				updateLoading({ message: t("matching") })
+				const parsedNotas = parseResponse.data!
 
-				const matchResponse = await matchNotaFills(
-					parsed.fills,
-					parsed.notaDate.toString(),
-					parsed.brokerName
-				)
+				// Step 2: Match each nota's fills to existing trades
+				const nextReviews: NotaReview[] = []
+				for (const [index, parsed] of parsedNotas.entries()) {
+					updateLoading({
+						message: parsedNotas.length > 1
+							? t("matchingNota", { current: index + 1, total: parsedNotas.length })
+							: t("matching"),
+					})
 
-				if (matchResponse.status === "error") {
-					showToast("error", matchResponse.message)
-					setIsProcessing(false)
-					hideLoading()
-					return
+					const matchResponse = await matchNotaFills(
+						parsed.fills,
+						parsed.notaDate.toString(),
+						parsed.brokerName,
+						parsed.notaNumber,
+						parsed.fileHash
+					)
+
+					if (matchResponse.status === "error") {
+						showToast("error", matchResponse.message)
+						setIsProcessing(false)
+						hideLoading()
+						return
+					}
+
+					const matchPreview = matchResponse.data!
+					const isNew = !matchPreview.alreadyImported
+
+					nextReviews.push({
+						parseResult: parsed,
+						preview: matchPreview,
+						// Auto-select all "matched" trades
+						selectedIds: new Set(
+							isNew
+								? matchPreview.matches.filter((m) => m.status === "matched").map((m) => m.tradeId)
+								: []
+						),
+						reEnrichIds: new Set(),
+						// Auto-select closed round trips that aren't already journaled
+						selectedCandidateIds: new Set(
+							isNew
+								? matchPreview.tradeCandidates
+										.filter((c) => c.status === "closed" && !c.isDuplicate)
+										.map((c) => c.candidateId)
+								: []
+						),
+					})
 				}
 
-				const matchPreview = matchResponse.data!
-				setPreview(matchPreview)
-
-				// Auto-select all "matched" trades
-				const autoSelected = new Set(
-					matchPreview.matches
-						.filter((m) => m.status === "matched")
-						.map((m) => m.tradeId)
-				)
-				setSelectedIds(autoSelected)
-				setReEnrichIds(new Set())
-
+				setReviews(nextReviews)
+				setActiveNota("0")
 				setStep("review")
 				setIsProcessing(false)
 				hideLoading()
@@ -169,72 +182,108 @@ export const NotaImport = () => {
 	const handleClear = () => {
 		setStep("upload")
 		setFileName(null)
-		setParseResult(null)
-		setPreview(null)
-		setSelectedIds(new Set())
-		setReEnrichIds(new Set())
+		setReviews([])
+		setActiveNota("0")
 		setIsProcessing(false)
 		if (fileInputRef.current) {
 			fileInputRef.current.value = ""
 		}
 	}
 
-	const handleToggleSelect = (tradeId: string) => {
-		setSelectedIds((prev) => {
-			const next = new Set(prev)
-			if (next.has(tradeId)) {
-				next.delete(tradeId)
-			} else {
-				next.add(tradeId)
-			}
-			return next
-		})
+	const updateReview = (index: number, update: (review: NotaReview) => NotaReview) => {
+		setReviews((prev) => prev.map((review, i) => (i === index ? update(review) : review)))
+	}
+
+	const toggleInSet = (set: Set<string>, id: string): Set<string> => {
+		const next = new Set(set)
+		if (next.has(id)) {
+			next.delete(id)
+		} else {
+			next.add(id)
+		}
+		return next
+	}
+
+	const handleToggleSelect = (index: number, tradeId: string) => {
+		updateReview(index, (review) => ({
+			...review,
+			selectedIds: toggleInSet(review.selectedIds, tradeId),
+		}))
 	}
 
-	const handleToggleReEnrich = (tradeId: string) => {
-		setReEnrichIds((prev) => {
-			const next = new Set(prev)
-			if (next.has(tradeId)) {
-				next.delete(tradeId)
-				// Also deselect
-				setSelectedIds((s) => {
-					const ns = new Set(s)
-					ns.delete(tradeId)
-					return ns
-				})
+	const handleToggleCandidate = (index: number, candidateId: string) => {
+		updateReview(index, (review) => ({
+			...review,
+			selectedCandidateIds: toggleInSet(review.selectedCandidateIds, candidateId),
+		}))
+	}
+
+	const handleToggleReEnrich = (index: number, tradeId: string) => {
+		updateReview(index, (review) => {
+			const reEnrichIds = toggleInSet(review.reEnrichIds, tradeId)
+			// Re-enriching selects the trade; turning it off deselects it
+			const selectedIds = new Set(review.selectedIds)
+			if (reEnrichIds.has(tradeId)) {
+				selectedIds.add(tradeId)
 			} else {
-				next.add(tradeId)
-				// Also select
-				setSelectedIds((s) => new Set(s).add(tradeId))
+				selectedIds.delete(tradeId)
 			}
-			return next
+			return { ...review, reEnrichIds, selectedIds }
 		})
 	}
 
+	/** Build the import input for one nota from its selections */
+	const toImportInput = ({
+		parseResult,
+		preview,
+		selectedIds,
+		reEnrichIds,
+		selectedCandidateIds,
+	}: NotaReview): NotaImportInput => ({
+		notaNumber: parseResult.notaNumber,
+		notaDate: parseResult.notaDate.toString(),
+		brokerName: parseResult.brokerName,
+		footer: {
+			totalOperationValue: parseResult.totalOperationValue,
+			totalBrokerage: parseResult.totalBrokerage,
+			settlementFee: parseResult.settlementFee,
+			registrationFee: parseResult.registrationFee,
+			bmfFees: parseResult.bmfFees,
+			irrf: parseResult.irrf,
+			netTotal: parseResult.netTotal,
+			netTotalDebitCredit: parseResult.netTotalDebitCredit,
+		},
+		confirmedMatches: preview.matches
+			.filter((m) => selectedIds.has(m.tradeId))
+			.map((m) => ({
+				tradeId: m.tradeId,
+				entryFills: m.entryFills,
+				exitFills: m.exitFills,
+				reEnrich: reEnrichIds.has(m.tradeId),
+			})),
+		newTrades: preview.tradeCandidates.filter((c) => selectedCandidateIds.has(c.candidateId)),
+		// Fills of skipped matches and round trips are kept on the nota as unlinked fills
+		unmatchedFills: [
+			...preview.matches.filter((m) => !selectedIds.has(m.tradeId)),
+			...preview.tradeCandidates.filter((c) => !selectedCandidateIds.has(c.candidateId)),
+		].flatMap((m) => [...m.entryFills, ...m.exitFills]),
+	})
+
+	const selectedCount = reviews.reduce((sum, review) => sum + review.selectedIds.size, 0)
+	const selectedCandidateCount = reviews.reduce((sum, review) => sum + review.selectedCandidateIds.size, 0)
+
 	const handleEnrich = async () => {
-		if (!preview || !parseResult || selectedIds.size === 0) return
+		if (reviews.length === 0 || selectedCount + selectedCandidateCount === 0) return
 
 		setIsEnriching(true)
 		showLoading({ message: t("enriching") })
 
 		try {
-			// Build confirmed enrichments from selected matches
-			const confirmedMatches: ConfirmedEnrichment[] = preview.matches
-				.filter((m) => selectedIds.has(m.tradeId))
-				.map((m) => ({
-					tradeId: m.tradeId,
-					entryFills: m.entryFills,
-					exitFills: m.exitFills,
-					reEnrich: reEnrichIds.has(m.tradeId),
-				}))
-
-			const result = await enrichTradesFromNota(
-				confirmedMatches,
-				parseResult.notaDate.toString(),
-				parseResult.brokerName,
-				fileName!,
-				parseResult.fileHash
-			)
+			const notas = reviews
+				.filter((review) => !review.preview.alreadyImported)
+				.map(toImportInput)
+
+			const result = await importNotaBatch(notas, fileName!, reviews[0].parseResult.fileHash)
 
 			hideLoading()
 
@@ -242,11 +291,21 @@ export const NotaImport = () => {
 				const data = result.data!
 				showToast(
 					"success",
-					t("success", {
-						count: data.tradesEnriched,
-						executions: data.executionsInserted,
-					})
+					data.tradesCreated > 0 || data.duplicatesSkipped > 0
+						? t("successWithCreated", {
+								count: data.tradesEnriched,
+								created: data.tradesCreated,
+								duplicates: data.duplicatesSkipped,
+								executions: data.executionsInserted,
+							})
+						: t("success", {
+								count: data.tradesEnriched,
+								executions: data.executionsInserted,
+							})
 				)
+				if (data.alreadyImported.length > 0) {
+					showToast("info", t("notasSkipped", { count: data.alreadyImported.length }))
+				}
 				setTimeout(() => router.push("/journal"), 500)
 			} else {
 				showToast("error", result.message)
@@ -259,18 +318,6 @@ export const NotaImport = () => {
 		}
 	}
 
-	const selectedCount = selectedIds.size
-
-	// Count matches by status for the summary
-	const matchCounts =
-		preview?.matches.reduce(
-			(acc, m) => {
-				acc[m.status] = (acc[m.status] || 0) + 1
-				return acc
-			},
-			{} as Record<string, number>
-		) ?? {}
-
 	return (
 		<div className="space-y-m-400 sm:space-y-m-500 lg:space-y-m-600">
 			{/* Step 1: Upload Area */}
@@ -329,9 +376,9 @@ export const NotaImport = () => {
 			)}
 
 			{/* Step 2: Review Matches */}
-			{step === "review" && preview && parseResult && (
+			{step === "review" && reviews.length > 0 && (
 				<div className="space-y-m-400 sm:space-y-m-500">
-					{/* File + Nota Info Header */}
+					{/* File Header */}
 					<div className="bg-bg-200 p-s-300 sm:p-m-400 rounded-lg">
 						<div className="flex items-center justify-between">
 							<div className="gap-s-300 flex items-center">
@@ -339,6 +386,11 @@ export const NotaImport = () => {
 								<span className="text-small text-txt-100 font-medium">
 									{fileName}
 								</span>
+								{reviews.length > 1 && (
+									<span className="text-tiny text-txt-300">
+										{t("notaCount", { count: reviews.length })}
+									</span>
+								)}
 							</div>
 							<Button
 								id="nota-import-clear"
@@ -350,220 +402,45 @@ export const NotaImport = () => {
 								<X className="h-4 w-4" />
 							</Button>
 						</div>
-
-						{/* Nota metadata */}
-						<div className="mt-s-300 sm:mt-m-400 gap-s-300 sm:gap-m-500 grid grid-cols-2 md:grid-cols-4">
-							<div>
-								<span className="text-tiny text-txt-300 block">
-									{t("notaDate")}
-								</span>
-								<span className="text-small text-txt-100 font-medium">
-									{new Date(parseResult.notaDate).toLocaleDateString(locale)}
-								</span>
-							</div>
-							<div>
-								<span className="text-tiny text-txt-300 block">
-									{t("broker")}
-								</span>
-								<span className="text-small text-txt-100 font-medium">
-									{parseResult.brokerName}
-								</span>
-							</div>
-							<div>
-								<span className="text-tiny text-txt-300 block">
-									{t("notaNumber")}
-								</span>
-								<span className="text-small text-txt-100 font-medium">
-									{parseResult.notaNumber}
-								</span>
-							</div>
-							<div>
-								<span className="text-tiny text-txt-300 block">
-									{t("totalFills", { count: parseResult.fills.length })}
-								</span>
-								<span className="text-small text-txt-100 font-medium">
-									{t("matchSummary", {
-										matched: preview.matches.length,
-										unmatched: preview.unmatchedFills.length,
-									})}
-								</span>
-							</div>
-						</div>
 					</div>
 
-					{/* Match summary badges */}
-					<div className="gap-s-200 flex flex-wrap">
-						{(matchCounts.matched ?? 0) > 0 && (
-							<span className="bg-trade-buy/10 text-trade-buy text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
-								<CheckCircle2 className="h-3 w-3" />
-								{matchCounts.matched} {t("matched")}
-							</span>
-						)}
-						{(matchCounts.already_enriched ?? 0) > 0 && (
-							<span className="bg-bg-300/30 text-txt-300 text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
-								<Info className="h-3 w-3" />
-								{matchCounts.already_enriched} {t("alreadyEnriched")}
-							</span>
-						)}
-						{(matchCounts.quantity_mismatch ?? 0) +
-							(matchCounts.price_mismatch ?? 0) >
-							0 && (
-							<span className="bg-warning/10 text-warning text-tiny gap-s-100 flex items-center rounded-full px-3 py-1 font-medium">
-								<AlertTriangle className="h-3 w-3" />
-								{(matchCounts.quantity_mismatch ?? 0) +
-									(matchCounts.price_mismatch ?? 0)}{" "}
-								{t("priceMismatch")}
-							</span>
-						)}
-					</div>
-
-					{/* Match cards */}
-					<div className="space-y-s-200">
-						{preview.matches.map((match) => (
-							<NotaMatchCard
-								key={match.tradeId}
-								match={match}
-								isSelected={selectedIds.has(match.tradeId)}
-								reEnrich={reEnrichIds.has(match.tradeId)}
-								onToggleSelect={() => handleToggleSelect(match.tradeId)}
-								onToggleReEnrich={() => handleToggleReEnrich(match.tradeId)}
-							/>
-						))}
-					</div>
-
-					{/* Unmatched fills warning */}
-					{preview.unmatchedFills.length > 0 && (
-						<div className="border-warning/30 bg-warning/10 p-s-300 sm:p-m-400 rounded-lg border">
-							<div className="gap-s-200 flex items-center">
-								<AlertTriangle className="text-warning h-4 w-4 shrink-0" />
-								<span className="text-small text-warning font-medium">
-									{t("unmatchedFillsWarning", {
-										count: preview.unmatchedFills.length,
-									})}
-								</span>
-							</div>
-							<div className="mt-s-200 space-y-s-100">
-								{preview.unmatchedFills.map((fill, idx) => (
-									<div
-										key={`unmatched-${idx}`}
-										className="text-tiny text-txt-300 gap-s-200 flex items-center"
+					{/* One tab per trading day when the PDF holds several notas */}
+					{reviews.length === 1 ? (
+						<NotaDayReview
+							review={reviews[0]}
+							onToggleSelect={(tradeId) => handleToggleSelect(0, tradeId)}
+							onToggleReEnrich={(tradeId) => handleToggleReEnrich(0, tradeId)}
+							onToggleCandidate={(candidateId) => handleToggleCandidate(0, candidateId)}
+						/>
+					) : (
+						<Tabs value={activeNota} onValueChange={setActiveNota}>
+							<TabsList className="mb-s-300 sm:mb-m-400 w-full justify-start overflow-x-auto">
+								{reviews.map((review, index) => (
+									<TabsTrigger
+										key={`${review.parseResult.notaNumber}-${index}`}
+										value={String(index)}
+										className={cn("flex-none", review.preview.alreadyImported && "opacity-60")}
 									>
-										<span
-											className={
-												fill.side === "C"
-													? "text-action-buy"
-													: "text-action-sell"
-											}
-										>
-											{fill.side === "C" ? t("buy") : t("sell")}
-										</span>
-										<span className="text-txt-200">{fill.normalizedAsset}</span>
-										<span>{fill.quantity}x</span>
-										<span>
-											{fill.price.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
+										{new Date(review.parseResult.notaDate).toLocaleDateString(locale)}
+										{review.selectedIds.size + review.selectedCandidateIds.size > 0 && (
+											<span className="text-tiny text-acc-100">
+												({review.selectedIds.size + review.selectedCandidateIds.size})
+											</span>
+										)}
+									</TabsTrigger>
 								))}
-							</div>
-						</div>
-					)}
-
-					{/* Unmatched trades info */}
-					{preview.unmatchedTrades.length > 0 && (
-						<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
-							<div className="gap-s-200 flex items-center">
-								<Info className="text-txt-300 h-4 w-4 shrink-0" />
-								<span className="text-small text-txt-300">
-									{t("unmatchedTradesInfo", {
-										count: preview.unmatchedTrades.length,
-									})}
-								</span>
-							</div>
-						</div>
-					)}
-
-					{/* Financial summary */}
-					{parseResult.netTotal > 0 && (
-						<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
-							<h4 className="text-small text-txt-100 font-semibold">
-								{t("financialSummary")}
-							</h4>
-							<div className="mt-s-200 gap-x-m-500 gap-y-s-100 grid grid-cols-2 md:grid-cols-3">
-								{parseResult.totalBrokerage > 0 && (
-									<div className="flex justify-between">
-										<span className="text-tiny text-txt-300">
-											{t("brokerage")}
-										</span>
-										<span className="text-tiny text-txt-200">
-											{parseResult.totalBrokerage.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
-								)}
-								{parseResult.settlementFee > 0 && (
-									<div className="flex justify-between">
-										<span className="text-tiny text-txt-300">
-											{t("settlementFee")}
-										</span>
-										<span className="text-tiny text-txt-200">
-											{parseResult.settlementFee.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
-								)}
-								{parseResult.registrationFee > 0 && (
-									<div className="flex justify-between">
-										<span className="text-tiny text-txt-300">
-											{t("registrationFee")}
-										</span>
-										<span className="text-tiny text-txt-200">
-											{parseResult.registrationFee.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
-								)}
-								{parseResult.bmfFees > 0 && (
-									<div className="flex justify-between">
-										<span className="text-tiny text-txt-300">
-											{t("bmfFees")}
-										</span>
-										<span className="text-tiny text-txt-200">
-											{parseResult.bmfFees.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
-								)}
-								{parseResult.irrf > 0 && (
-									<div className="flex justify-between">
-										<span className="text-tiny text-txt-300">{t("irrf")}</span>
-										<span className="text-tiny text-txt-200">
-											{parseResult.irrf.toLocaleString(locale, {
-												minimumFractionDigits: 2,
-											})}
-										</span>
-									</div>
-								)}
-								<div className="border-bg-300 pt-s-100 col-span-full flex justify-between border-t">
-									<span className="text-tiny text-txt-100 font-medium">
-										{t("netTotal")}
-									</span>
-									<span
-										className={cn("text-tiny font-medium", parseResult.netTotalDebitCredit === "C" ? "text-trade-buy" : "text-trade-sell")}
-									>
-										{parseResult.netTotal.toLocaleString(locale, {
-											minimumFractionDigits: 2,
-										})}{" "}
-										{parseResult.netTotalDebitCredit === "C" ? "C" : "D"}
-									</span>
-								</div>
-							</div>
-						</div>
+							</TabsList>
+							{reviews.map((review, index) => (
+								<TabsContent key={`${review.parseResult.notaNumber}-${index}`} value={String(index)}>
+									<NotaDayReview
+										review={review}
+										onToggleSelect={(tradeId) => handleToggleSelect(index, tradeId)}
+										onToggleReEnrich={(tradeId) => handleToggleReEnrich(index, tradeId)}
+										onToggleCandidate={(candidateId) => handleToggleCandidate(index, candidateId)}
+									/>
+								</TabsContent>
+							))}
+						</Tabs>
 					)}
 
 					{/* Action buttons */}
@@ -577,15 +454,15 @@ export const NotaImport = () => {
 						</Button>
 
 						<div className="gap-m-400 flex items-center">
-							{selectedCount > 0 && (
+							{selectedCount + selectedCandidateCount > 0 && (
 								<span className="text-small text-txt-300">
-									{tCommon("tradesSelected", { count: selectedCount })}
+									{tCommon("tradesSelected", { count: selectedCount + selectedCandidateCount })}
 								</span>
 							)}
 							<Button
 								id="nota-import-enrich"
 								onClick={handleEnrich}
-								disabled={isEnriching || selectedCount === 0}
+								disabled={isEnriching || selectedCount + selectedCandidateCount === 0}
 								className="min-w-[180px]"
 							>
 								{isEnriching ? (
@@ -596,7 +473,12 @@ export const NotaImport = () => {
 								) : (
 									<>
 										<CheckCircle2 className="mr-2 h-4 w-4" />
-										{t("enrichButton", { count: selectedCount })}
+										{selectedCandidateCount > 0
+											? t("enrichAndCreateButton", {
+													count: selectedCount,
+													created: selectedCandidateCount,
+												})
+											: t("enrichButton", { count: selectedCount })}
 									</>
 								)}
 							</Button>
@@ -622,6 +504,9 @@ export const NotaImport = () => {
 					</div>
 				</div>
 			)}
+
+			{/* Cost reconciliation for previously imported notas */}
+			{step === "upload" && !isProcessing && <NotaCostReconciliation />}
 		</div>
 	)
 }
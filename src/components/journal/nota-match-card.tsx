@@ -190,4 +190,4 @@ const NotaMatchCard = ({
 	)
 }
 
-export { NotaMatchCard }
+export { NotaMatchCard, FillTable }
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, ChevronUp, PlusCircle, Copy, Clock } from "lucide-react"
+import { useTranslations, useLocale } from "next-intl"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useFormatting } from "@/hooks/use-formatting"
+import { FillTable } from "./nota-match-card"
+import type { NotaTradeCandidate } from "@/lib/nota-parser/types"
+
+interface NotaTradeCandidateCardProps {
+	candidate: NotaTradeCandidate
+	isSelected: boolean
+	onToggleSelect: () => void
+}
+
+const NotaTradeCandidateCard = ({
+	candidate,
+	isSelected,
+	onToggleSelect,
+}: NotaTradeCandidateCardProps) => {
+	const t = useTranslations("journal.nota")
+	const tCommon = useTranslations("common")
+	const locale = useLocale()
+	const { formatCurrencyWithSign } = useFormatting()
+	const [isExpanded, setIsExpanded] = useState(false)
+
+	const isOpen = candidate.status === "open"
+	const StatusIcon = candidate.isDuplicate ? Copy : isOpen ? Clock : PlusCircle
+
+	return (
+		<div
+			className={cn(
+				"rounded-lg border transition-colors",
+				candidate.isDuplicate ? "border-bg-300" : "border-acc-100/30",
+				isSelected ? "bg-acc-100/10" : "bg-bg-200"
+			)}
+		>
+			{/* Header */}
+			<div className="p-s-300 sm:p-m-400 flex items-center gap-s-200 sm:gap-m-400">
+				{!candidate.isDuplicate && (
+					<Checkbox
+						id={`nota-candidate-checkbox-${candidate.candidateId}`}
+						checked={isSelected}
+						onCheckedChange={onToggleSelect}
+						aria-label={t("selectNewTrade", { asset: candidate.asset })}
+					/>
+				)}
+
+				<StatusIcon className={cn("h-4 w-4 shrink-0", candidate.isDuplicate ? "text-txt-300" : "text-acc-100")} />
+
+				{/* Round trip info */}
+				<div className="flex-1 min-w-0">
+					<div className="flex flex-wrap items-center gap-s-200">
+						<span className="text-small text-txt-100 font-semibold">{candidate.asset}</span>
+						<span className={cn(
+							"text-tiny px-s-100 rounded font-medium",
+							candidate.direction === "long" ? "bg-action-buy-muted text-action-buy" : "bg-action-sell-muted text-action-sell"
+						)}>
+							{candidate.direction === "long" ? tCommon("long") : tCommon("short")}
+						</span>
+						<span className="text-tiny px-s-100 rounded font-medium bg-acc-100/10 text-acc-100">
+							{candidate.isDuplicate ? t("duplicateTrade") : isOpen ? t("openPosition") : t("newTrade")}
+						</span>
+					</div>
+					<p className="text-tiny text-txt-300 mt-s-100">
+						{t("candidateSummary", {
+							quantity: candidate.entryQuantity,
+							entry: candidate.avgEntryPrice.toLocaleString(locale, { minimumFractionDigits: 2 }),
+							exit: candidate.avgExitPrice !== null
+								? candidate.avgExitPrice.toLocaleString(locale, { minimumFractionDigits: 2 })
+								: "-",
+						})}
+					</p>
+				</div>
+
+				{/* Net P&L */}
+				{candidate.netPnl !== null && (
+					<span
+						className={cn(
+							"text-small shrink-0 font-mono font-medium",
+							candidate.netPnl >= 0 ? "text-trade-buy" : "text-trade-sell"
+						)}
+					>
+						{formatCurrencyWithSign(candidate.netPnl)}
+					</span>
+				)}
+
+				{/* Expand button */}
+				<Button
+					id={`nota-candidate-expand-${candidate.candidateId}`}
+					type="button"
+					variant="ghost"
+					size="icon"
+					onClick={() => setIsExpanded((prev) => !prev)}
+					aria-label={tCommon("toggleDetails")}
+					aria-expanded={isExpanded}
+				>
+					{isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+				</Button>
+			</div>
+
+			{/* Expanded fill details */}
+			{isExpanded && (
+				<div className="border-bg-300 px-s-300 pb-s-300 sm:px-m-400 sm:pb-m-400 border-t pt-s-300 sm:pt-m-400">
+					<FillTable fills={candidate.entryFills} label={t("entryFills")} t={t} locale={locale} />
+					<FillTable fills={candidate.exitFills} label={t("exitFills")} t={t} locale={locale} />
+				</div>
+			)}
+		</div>
+	)
+}
+
+export { NotaTradeCandidateCard }
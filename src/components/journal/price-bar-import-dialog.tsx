@@ -0,0 +1,239 @@
+"use client"
+
+import { useEffect, useRef, useState, useTransition } from "react"
+import { useTranslations } from "next-intl"
+import { FileUp, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import { importPriceBars } from "@/app/actions/price-bars"
+import { getActiveTimeframes } from "@/app/actions/timeframes"
+import { parseOhlcContent } from "@/lib/ohlc-parser"
+import { MAX_BARS_PER_IMPORT } from "@/lib/validations/price-bar"
+import { formatBrtShortDateTime } from "@/lib/dates"
+import type { Timeframe } from "@/db/schema"
+import type { OhlcParseResult } from "@/types/price-bar"
+
+interface PriceBarImportDialogProps {
+	defaultAsset: string
+	onImported: () => void
+}
+
+/** Reads a file as text, falling back to Latin-1 for ProfitChart's ANSI exports */
+const readFileText = async (file: File): Promise<string> => {
+	const read = (encoding: string) =>
+		new Promise<string>((resolve, reject) => {
+			const reader = new FileReader()
+			reader.onload = (e) => resolve(e.target?.result as string)
+			reader.onerror = () => reject(new Error("Failed to read file"))
+			reader.readAsText(file, encoding)
+		})
+
+	const content = await read("UTF-8")
+	return content.includes("\ufffd") ? read("ISO-8859-1") : content
+}
+
+export const PriceBarImportDialog = ({ defaultAsset, onImported }: PriceBarImportDialogProps) => {
+	const t = useTranslations("trade.chart.import")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+	const fileInputRef = useRef<HTMLInputElement>(null)
+
+	const [isOpen, setIsOpen] = useState(false)
+	const [timeframeOptions, setTimeframeOptions] = useState<Timeframe[]>([])
+	const [fileName, setFileName] = useState<string | null>(null)
+	const [parsed, setParsed] = useState<OhlcParseResult | null>(null)
+	const [asset, setAsset] = useState(defaultAsset)
+	const [timeframeId, setTimeframeId] = useState("")
+	const [progress, setProgress] = useState(0)
+	const [isPending, startTransition] = useTransition()
+
+	useEffect(() => {
+		if (!isOpen) return
+		getActiveTimeframes().then((rows) =>
+			setTimeframeOptions(rows.filter((timeframe) => timeframe.type === "time_based"))
+		)
+	}, [isOpen])
+
+	const reset = () => {
+		setFileName(null)
+		setParsed(null)
+		setAsset(defaultAsset)
+		setProgress(0)
+		if (fileInputRef.current) fileInputRef.current.value = ""
+	}
+
+	const handleOpenChange = (open: boolean) => {
+		setIsOpen(open)
+		if (!open) reset()
+	}
+
+	const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0]
+		if (!file) return
+		setFileName(file.name)
+		const result = parseOhlcContent(await readFileText(file))
+		setParsed(result)
+		if (result.asset) setAsset(result.asset)
+		if (result.bars.length === 0) showToast("error", t("noBars"))
+	}
+
+	const handleImport = () => {
+		if (!parsed?.format || parsed.bars.length === 0) return
+		const source = parsed.format
+		startTransition(async () => {
+			let tradesUpdated = 0
+			// Server actions cap the request body, so large files go in chunks
+			for (let start = 0; start < parsed.bars.length; start += MAX_BARS_PER_IMPORT) {
+				const result = await importPriceBars({
+					asset,
+					timeframeId,
+					source,
+					bars: parsed.bars.slice(start, start + MAX_BARS_PER_IMPORT),
+				})
+				if (result.status !== "success" || !result.data) {
+					showToast("error", result.message)
+					return
+				}
+				tradesUpdated += result.data.tradesUpdated
+				setProgress(Math.min(start + MAX_BARS_PER_IMPORT, parsed.bars.length))
+			}
+
+			showToast("success", t("imported", { count: parsed.bars.length, trades: tradesUpdated }))
+			handleOpenChange(false)
+			onImported()
+		})
+	}
+
+	const firstBar = parsed?.bars[0]
+	const lastBar = parsed?.bars[parsed.bars.length - 1]
+
+	return (
+		<Dialog open={isOpen} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button id="trade-chart-import-bars" variant="outline" size="sm">
+					<FileUp className="mr-2 h-4 w-4" />
+					{t("trigger")}
+				</Button>
+			</DialogTrigger>
+			<DialogContent id="price-bar-import-dialog" className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{t("title")}</DialogTitle>
+					<DialogDescription>{t("description")}</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-m-400">
+					<div className="space-y-s-200">
+						<input
+							ref={fileInputRef}
+							id="price-bar-file-input"
+							type="file"
+							accept=".csv,.txt"
+							className="hidden"
+							onChange={handleFileChange}
+						/>
+						<Button
+							id="price-bar-choose-file"
+							variant="outline"
+							className="w-full"
+							onClick={() => fileInputRef.current?.click()}
+							disabled={isPending}
+						>
+							<Upload className="mr-2 h-4 w-4" />
+							{fileName ?? t("chooseFile")}
+						</Button>
+						{parsed && parsed.bars.length > 0 && firstBar && lastBar && (
+							<p id="price-bar-summary" className="text-caption text-txt-300">
+								{t("summary", {
+									count: parsed.bars.length,
+									format: parsed.format === "profitchart" ? "ProfitChart" : "MetaTrader",
+									from: formatBrtShortDateTime(firstBar.time),
+									to: formatBrtShortDateTime(lastBar.time),
+								})}
+							</p>
+						)}
+						{parsed && parsed.errors.length > 0 && (
+							<p id="price-bar-errors" className="text-caption text-warning">
+								{t("skippedLines", {
+									count: parsed.errors.length,
+									lines: parsed.errors
+										.slice(0, 5)
+										.map((error) => error.line)
+										.join(", "),
+								})}
+							</p>
+						)}
+					</div>
+
+					<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2">
+						<div className="space-y-s-200">
+							<label htmlFor="price-bar-asset" className="text-small text-txt-200">
+								{t("asset")}
+							</label>
+							<Input
+								id="price-bar-asset"
+								value={asset}
+								maxLength={20}
+								onChange={(e) => setAsset(e.target.value.toUpperCase())}
+							/>
+						</div>
+						<div className="space-y-s-200">
+							<label htmlFor="price-bar-timeframe" className="text-small text-txt-200">
+								{t("timeframe")}
+							</label>
+							<Select value={timeframeId} onValueChange={setTimeframeId}>
+								<SelectTrigger id="price-bar-timeframe" aria-label={t("timeframe")}>
+									<SelectValue placeholder={t("timeframePlaceholder")} />
+								</SelectTrigger>
+								<SelectContent>
+									{timeframeOptions.map((timeframe) => (
+										<SelectItem key={timeframe.id} value={timeframe.id}>
+											{timeframe.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button
+						id="price-bar-import-cancel"
+						variant="outline"
+						onClick={() => handleOpenChange(false)}
+						disabled={isPending}
+					>
+						{tCommon("cancel")}
+					</Button>
+					<Button
+						id="price-bar-import-submit"
+						onClick={handleImport}
+						disabled={isPending || !parsed?.bars.length || !asset.trim() || !timeframeId}
+					>
+						{isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+						{isPending && parsed
+							? t("importing", { done: progress, total: parsed.bars.length })
+							: t("submit")}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	)
+}
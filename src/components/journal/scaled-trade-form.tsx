@@ -16,6 +16,7 @@ import {
 	Loader2,
 	Plus,
 	Info,
+	Paperclip,
 } from "lucide-react"
 import { useTranslations, useLocale } from "next-intl"
 import { cn } from "@/lib/utils"
@@ -43,10 +44,13 @@ import {
 	InlineExecutionRow,
 	type ExecutionRowData,
 } from "./inline-execution-row"
+import { TradeAttachmentsInput } from "./trade-attachments-input"
 import type {
 	SharedTradeFormState,
 	TradeFormRef,
 } from "@/lib/validations/trade"
+import type { TradeAttachmentDraft } from "@/lib/validations/trade-attachment"
+import { uploadAttachments } from "@/lib/upload-files"
 import type { Strategy, Tag, Timeframe } from "@/db/schema"
 import type { AssetWithType } from "@/app/actions/assets"
 import { formatDateKey, formatBrtTimeShort, BRT_OFFSET } from "@/lib/dates"
@@ -160,6 +164,9 @@ export const ScaledTradeForm = forwardRef<TradeFormRef, ScaledTradeFormProps>(
 			() => (defaultDate ? new Date(defaultDate) : new Date()),
 			[defaultDate]
 		)
+		// Attachments (local-first: files upload on submit)
+		const [attachments, setAttachments] = useState<TradeAttachmentDraft[]>([])
+
 		const [entries, setEntries] = useState<ExecutionRowData[]>([
 			createEmptyExecution("entry", effectiveNow),
 		])
@@ -438,6 +445,15 @@ export const ScaledTradeForm = forwardRef<TradeFormRef, ScaledTradeFormProps>(
 						})),
 				]
 
+				const { attachments: uploadedAttachments, errors: uploadErrors } =
+					await uploadAttachments(attachments, crypto.randomUUID())
+
+				if (uploadErrors.length > 0) {
+					showToast("error", t("attachments.uploadFailed"))
+					setIsSubmitting(false)
+					return
+				}
+
 				const result = await createScaledTrade({
 					asset,
 					direction,
@@ -453,6 +469,7 @@ export const ScaledTradeForm = forwardRef<TradeFormRef, ScaledTradeFormProps>(
 					disciplineNotes: disciplineNotes || undefined,
 					setupRank: setupRank || undefined,
 					tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
+					attachments: uploadedAttachments,
 					executions,
 				})
 
@@ -1051,6 +1068,22 @@ export const ScaledTradeForm = forwardRef<TradeFormRef, ScaledTradeFormProps>(
 								/>
 							</div>
 						)}
+
+						{/* Attachments */}
+						<div className="space-y-s-200">
+							<div className="gap-s-200 flex items-center">
+								<Paperclip className="text-txt-300 h-4 w-4" />
+								<Label id="label-scaled-attachments">
+									{t("attachments.title")}
+								</Label>
+							</div>
+							<p className="text-tiny text-txt-300">{t("attachments.hint")}</p>
+							<TradeAttachmentsInput
+								attachments={attachments}
+								onChange={setAttachments}
+								disabled={isSubmitting}
+							/>
+						</div>
 					</TabsContent>
 
 					{/* Tags Tab */}
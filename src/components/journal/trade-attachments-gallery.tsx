@@ -0,0 +1,101 @@
+"use client"
+
+import { useState } from "react"
+import { useTranslations } from "next-intl"
+import { ExternalLink, FileText, Paperclip } from "lucide-react"
+import { Card } from "@/components/ui/card"
+import { ImageLightbox } from "@/components/shared/image-lightbox"
+import type { TradeAttachment } from "@/db/schema"
+
+interface TradeAttachmentsGalleryProps {
+	attachments: TradeAttachment[]
+}
+
+/**
+ * Trade detail gallery: images open in the lightbox (thumbnails in the grid),
+ * recordings play inline and documents open in a new tab.
+ */
+export const TradeAttachmentsGallery = ({ attachments }: TradeAttachmentsGalleryProps) => {
+	const t = useTranslations("trade.attachments")
+	const [lightboxOpen, setLightboxOpen] = useState(false)
+	const [lightboxIndex, setLightboxIndex] = useState(0)
+
+	if (attachments.length === 0) return null
+
+	const images = attachments.filter((attachment) => attachment.kind === "image")
+
+	return (
+		<Card id="trade-detail-attachments" className="p-m-400 sm:p-m-500 lg:p-m-600">
+			<h3 className="mb-s-300 sm:mb-m-500 gap-s-200 text-small sm:text-body text-txt-100 flex items-center font-semibold">
+				<Paperclip className="text-acc-100 h-5 w-5" />
+				{t("title")}
+			</h3>
+
+			<ul className="gap-s-300 sm:gap-m-400 grid grid-cols-1 sm:grid-cols-2">
+				{attachments.map((attachment) => (
+					<li key={attachment.id} className="space-y-s-200">
+						{attachment.kind === "image" && (
+							<button
+								type="button"
+								className="border-bg-300 w-full cursor-pointer overflow-hidden rounded-lg border focus-visible:ring-2 focus-visible:ring-acc-100 focus-visible:outline-none"
+								onClick={() => {
+									setLightboxIndex(images.findIndex((image) => image.id === attachment.id))
+									setLightboxOpen(true)
+								}}
+								aria-label={t("preview", { name: attachment.fileName })}
+							>
+								<img
+									src={attachment.thumbnailUrl ?? attachment.url}
+									alt={attachment.caption ?? attachment.fileName}
+									loading="lazy"
+									className="aspect-video w-full object-cover"
+								/>
+							</button>
+						)}
+						{attachment.kind === "video" && (
+							<video
+								src={attachment.url}
+								controls
+								preload="metadata"
+								className="border-bg-300 bg-bg-100 aspect-video w-full rounded-lg border"
+							/>
+						)}
+						{attachment.kind === "document" && (
+							<a
+								href={attachment.url}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="border-bg-300 bg-bg-100 text-txt-200 hover:border-acc-100/50 gap-s-200 flex aspect-video w-full flex-col items-center justify-center rounded-lg border transition-colors"
+							>
+								<FileText className="h-8 w-8" />
+								<span className="text-tiny gap-s-100 flex items-center">
+									{t("openDocument")}
+									<ExternalLink className="h-3 w-3" />
+								</span>
+							</a>
+						)}
+						<div>
+							{attachment.caption && (
+								<p className="text-small text-txt-100">{attachment.caption}</p>
+							)}
+							<p className="text-tiny text-txt-300 truncate" title={attachment.fileName}>
+								{attachment.fileName}
+							</p>
+						</div>
+					</li>
+				))}
+			</ul>
+
+			<ImageLightbox
+				images={images.map((image) => ({
+					src: image.url,
+					alt: image.caption ?? image.fileName,
+					caption: image.caption ?? undefined,
+				}))}
+				initialIndex={Math.max(lightboxIndex, 0)}
+				open={lightboxOpen}
+				onOpenChange={setLightboxOpen}
+			/>
+		</Card>
+	)
+}
@@ -0,0 +1,306 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent, type DragEvent } from "react"
+import { useTranslations } from "next-intl"
+import { ChevronLeft, ChevronRight, FileText, Paperclip, Video, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ImageLightbox } from "@/components/shared/image-lightbox"
+import { cn } from "@/lib/utils"
+import {
+	ACCEPTED_ATTACHMENT_TYPES,
+	MAX_ATTACHMENT_SIZES,
+	getAttachmentKind,
+} from "@/lib/validations/upload"
+import {
+	MAX_CAPTION_LENGTH,
+	MAX_TRADE_ATTACHMENTS,
+	type TradeAttachmentDraft,
+} from "@/lib/validations/trade-attachment"
+import type { TradeAttachment } from "@/db/schema"
+
+const toMegabytes = (bytes: number): number => bytes / 1024 / 1024
+
+/** Drafts for a trade's stored attachments (edit mode) */
+const toAttachmentDrafts = (attachments: TradeAttachment[] = []): TradeAttachmentDraft[] =>
+	attachments.map((attachment) => ({
+		key: attachment.id,
+		kind: attachment.kind,
+		fileName: attachment.fileName,
+		caption: attachment.caption ?? "",
+		previewUrl: attachment.kind === "image" ? (attachment.thumbnailUrl ?? attachment.url) : null,
+		uploaded: {
+			kind: attachment.kind,
+			url: attachment.url,
+			s3Key: attachment.s3Key,
+			thumbnailUrl: attachment.thumbnailUrl,
+			thumbnailS3Key: attachment.thumbnailS3Key,
+			fileName: attachment.fileName,
+			contentType: attachment.contentType,
+			sizeBytes: attachment.sizeBytes,
+			caption: attachment.caption,
+		},
+	}))
+
+/** Full-size source for the lightbox: the original once uploaded, else the local blob */
+const getFullImageUrl = (draft: TradeAttachmentDraft): string =>
+	draft.uploaded?.url ?? draft.previewUrl ?? ""
+
+interface TradeAttachmentsInputProps {
+	attachments: TradeAttachmentDraft[]
+	onChange: (attachments: TradeAttachmentDraft[]) => void
+	disabled?: boolean
+}
+
+/**
+ * Multi-file picker for trade attachments: chart captures, short screen
+ * recordings and PDFs, each with an optional caption. Files stay local until
+ * the form is submitted (see uploadAttachments).
+ */
+const TradeAttachmentsInput = ({ attachments, onChange, disabled }: TradeAttachmentsInputProps) => {
+	const t = useTranslations("trade.attachments")
+	const tCommon = useTranslations("common")
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [isDragOver, setIsDragOver] = useState(false)
+	const [lightboxOpen, setLightboxOpen] = useState(false)
+	const [lightboxIndex, setLightboxIndex] = useState(0)
+
+	const canAdd = !disabled && attachments.length < MAX_TRADE_ATTACHMENTS
+	const images = attachments.filter((draft) => draft.kind === "image")
+
+	const addFiles = (files: File[]) => {
+		const room = MAX_TRADE_ATTACHMENTS - attachments.length
+		const added: TradeAttachmentDraft[] = []
+		let nextError: string | null = null
+
+		for (const file of files) {
+			const kind = getAttachmentKind(file.type)
+			if (!kind) {
+				nextError = t("invalidFileType", { name: file.name })
+				continue
+			}
+			if (file.size > MAX_ATTACHMENT_SIZES[kind]) {
+				nextError = t("fileTooLarge", {
+					name: file.name,
+					maxSize: toMegabytes(MAX_ATTACHMENT_SIZES[kind]),
+				})
+				continue
+			}
+			if (added.length >= room) {
+				nextError = t("limitReached", { max: MAX_TRADE_ATTACHMENTS })
+				break
+			}
+			added.push({
+				key: crypto.randomUUID(),
+				kind,
+				fileName: file.name,
+				caption: "",
+				previewUrl: kind === "image" ? URL.createObjectURL(file) : null,
+				file,
+			})
+		}
+
+		setError(nextError)
+		if (added.length > 0) onChange([...attachments, ...added])
+	}
+
+	const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+		addFiles(Array.from(e.target.files ?? []))
+		// Reset so the same file can be re-selected
+		if (fileInputRef.current) fileInputRef.current.value = ""
+	}
+
+	const handleDrop = (e: DragEvent) => {
+		e.preventDefault()
+		setIsDragOver(false)
+		if (canAdd) addFiles(Array.from(e.dataTransfer.files))
+	}
+
+	const handleRemove = (key: string) => {
+		const draft = attachments.find((item) => item.key === key)
+		// Local previews are blob URLs; uploaded ones are remote
+		if (draft?.file && draft.previewUrl) URL.revokeObjectURL(draft.previewUrl)
+		setError(null)
+		onChange(attachments.filter((item) => item.key !== key))
+	}
+
+	const handleMove = (index: number, offset: -1 | 1) => {
+		const target = index + offset
+		if (target < 0 || target >= attachments.length) return
+		const next = [...attachments]
+		;[next[index], next[target]] = [next[target], next[index]]
+		onChange(next)
+	}
+
+	const handleCaptionChange = (key: string, caption: string) => {
+		onChange(attachments.map((item) => (item.key === key ? { ...item, caption } : item)))
+	}
+
+	const openImage = (key: string) => {
+		setLightboxIndex(images.findIndex((draft) => draft.key === key))
+		setLightboxOpen(true)
+	}
+
+	return (
+		<div className="space-y-s-300">
+			{attachments.length > 0 && (
+				<ul className="gap-s-300 grid grid-cols-1 sm:grid-cols-2">
+					{attachments.map((draft, index) => (
+						<li
+							key={draft.key}
+							className={cn(
+								"bg-bg-100 overflow-hidden rounded-lg border",
+								draft.uploaded ? "border-bg-300" : "border-acc-100/30"
+							)}
+						>
+							<div className="relative">
+								{draft.kind === "image" && draft.previewUrl ? (
+									<button
+										type="button"
+										className="w-full cursor-pointer focus-visible:ring-2 focus-visible:ring-acc-100 focus-visible:outline-none"
+										onClick={() => openImage(draft.key)}
+										aria-label={t("preview", { name: draft.fileName })}
+									>
+										<img
+											src={draft.previewUrl}
+											alt={draft.caption || draft.fileName}
+											className="aspect-video w-full object-cover"
+										/>
+									</button>
+								) : (
+									<div className="bg-bg-200 text-txt-300 gap-s-200 flex aspect-video w-full flex-col items-center justify-center">
+										{draft.kind === "video" ? (
+											<Video className="h-8 w-8" />
+										) : (
+											<FileText className="h-8 w-8" />
+										)}
+										<span className="text-tiny">{t(`kinds.${draft.kind}`)}</span>
+									</div>
+								)}
+								<Button
+									id={`trade-attachment-remove-${index}`}
+									type="button"
+									variant="ghost"
+									size="sm"
+									className="bg-bg-100/80 absolute top-s-100 right-s-100 size-9 p-0"
+									onClick={() => handleRemove(draft.key)}
+									disabled={disabled}
+									aria-label={tCommon("remove")}
+								>
+									<X className="h-4 w-4" />
+								</Button>
+							</div>
+
+							<div className="p-s-200 space-y-s-200">
+								<div className="gap-s-100 flex items-center">
+									<p className="text-tiny text-txt-200 min-w-0 flex-1 truncate" title={draft.fileName}>
+										{draft.fileName}
+									</p>
+									<Button
+										id={`trade-attachment-move-earlier-${index}`}
+										type="button"
+										variant="ghost"
+										size="icon"
+										className="h-7 w-7"
+										onClick={() => handleMove(index, -1)}
+										disabled={disabled || index === 0}
+										aria-label={t("moveEarlier")}
+									>
+										<ChevronLeft className="h-4 w-4" />
+									</Button>
+									<Button
+										id={`trade-attachment-move-later-${index}`}
+										type="button"
+										variant="ghost"
+										size="icon"
+										className="h-7 w-7"
+										onClick={() => handleMove(index, 1)}
+										disabled={disabled || index === attachments.length - 1}
+										aria-label={t("moveLater")}
+									>
+										<ChevronRight className="h-4 w-4" />
+									</Button>
+								</div>
+								<Input
+									id={`trade-attachment-caption-${index}`}
+									value={draft.caption}
+									onChange={(e) => handleCaptionChange(draft.key, e.target.value)}
+									placeholder={t("captionPlaceholder")}
+									maxLength={MAX_CAPTION_LENGTH}
+									disabled={disabled}
+									aria-label={t("caption", { name: draft.fileName })}
+								/>
+							</div>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{canAdd && (
+				<div
+					role="button"
+					tabIndex={0}
+					className={cn(
+						"border-bg-300 p-l-700 flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed transition-colors focus-visible:ring-2 focus-visible:ring-acc-100 focus-visible:ring-offset-2 focus-visible:ring-offset-bg-100 focus-visible:outline-none",
+						isDragOver && "border-acc-100 bg-acc-100/5"
+					)}
+					onClick={() => fileInputRef.current?.click()}
+					onKeyDown={(e) => {
+						if (e.key === "Enter" || e.key === " ") fileInputRef.current?.click()
+					}}
+					onDrop={handleDrop}
+					onDragOver={(e) => {
+						e.preventDefault()
+						setIsDragOver(true)
+					}}
+					onDragLeave={(e) => {
+						e.preventDefault()
+						setIsDragOver(false)
+					}}
+					aria-label={t("upload")}
+				>
+					<Paperclip className="text-txt-300 mb-s-200 h-8 w-8" />
+					<p className="text-small text-txt-200">
+						<span className="text-acc-100 font-medium">{tCommon("upload")}</span>{" "}
+						{t("dragAndDrop")}
+					</p>
+					<p className="text-tiny text-txt-300 mt-s-100 text-center">
+						{t("acceptedFormats", {
+							maxImage: toMegabytes(MAX_ATTACHMENT_SIZES.image),
+							maxVideo: toMegabytes(MAX_ATTACHMENT_SIZES.video),
+							maxDocument: toMegabytes(MAX_ATTACHMENT_SIZES.document),
+						})}
+					</p>
+					<p className="text-tiny text-txt-300 mt-s-100">
+						{t("count", { count: attachments.length, max: MAX_TRADE_ATTACHMENTS })}
+					</p>
+					<input
+						ref={fileInputRef}
+						type="file"
+						multiple
+						accept={ACCEPTED_ATTACHMENT_TYPES.join(",")}
+						className="hidden"
+						onChange={handleInputChange}
+						aria-hidden="true"
+					/>
+				</div>
+			)}
+
+			{error && <p className="text-small text-fb-error">{error}</p>}
+
+			<ImageLightbox
+				images={images.map((draft) => ({
+					src: getFullImageUrl(draft),
+					alt: draft.caption || draft.fileName,
+					caption: draft.caption || undefined,
+				}))}
+				initialIndex={Math.max(lightboxIndex, 0)}
+				open={lightboxOpen}
+				onOpenChange={setLightboxOpen}
+			/>
+		</div>
+	)
+}
+
+export { TradeAttachmentsInput, toAttachmentDrafts, type TradeAttachmentsInputProps }
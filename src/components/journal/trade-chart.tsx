@@ -0,0 +1,319 @@
+"use client"
+
+import { useMemo, useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { useTranslations } from "next-intl"
+import {
+	ComposedChart,
+	Bar,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	ReferenceLine,
+	ReferenceDot,
+	ReferenceArea,
+} from "recharts"
+import { CandlestickChart, Loader2, RefreshCw } from "lucide-react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart-container"
+import { useToast } from "@/components/ui/toast"
+import { useChartConfig } from "@/hooks/use-chart-config"
+import { formatBrtShortDateTime, formatBrtTimeShort } from "@/lib/dates"
+import { formatR } from "@/lib/formatting"
+import { getTradeChartData, recalculateTradeExcursion } from "@/app/actions/price-bars"
+import type { PriceBar, TradeChartData } from "@/types/price-bar"
+import { PriceBarImportDialog } from "./price-bar-import-dialog"
+
+interface TradeChartProps {
+	tradeId: string
+	initialData: TradeChartData
+}
+
+interface CandlePoint extends PriceBar {
+	index: number
+	range: [number, number]
+}
+
+interface CandleShapeProps {
+	x?: number
+	y?: number
+	width?: number
+	height?: number
+	payload?: CandlePoint
+}
+
+/**
+ * Draws one candle inside the pixel box recharts gives the [low, high] range
+ * bar: the box spans the wick, the body is placed proportionally inside it.
+ */
+const Candle = ({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) => {
+	if (!payload) return null
+	const { open, close, high, low } = payload
+	const pixelsPerPoint = high === low ? 0 : height / (high - low)
+	const bodyTop = y + (high - Math.max(open, close)) * pixelsPerPoint
+	const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerPoint, 1)
+	const color = close >= open ? "var(--color-trade-buy)" : "var(--color-trade-sell)"
+	const centerX = x + width / 2
+
+	return (
+		<g>
+			<line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+			<rect
+				x={x + width * 0.15}
+				y={bodyTop}
+				width={width * 0.7}
+				height={bodyHeight}
+				fill={color}
+				stroke={color}
+			/>
+		</g>
+	)
+}
+
+interface CandleTooltipProps {
+	active?: boolean
+	payload?: ReadonlyArray<{ payload: CandlePoint }>
+}
+
+const CandleTooltip = ({ active, payload }: CandleTooltipProps) => {
+	const t = useTranslations("trade.chart")
+	if (!active || !payload || payload.length === 0) return null
+	const bar = payload[0].payload
+	return (
+		<div className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border shadow-lg">
+			<p className="text-tiny text-txt-300">{formatBrtShortDateTime(bar.time)}</p>
+			<p className="text-tiny text-txt-100">
+				{t("ohlc", { open: bar.open, high: bar.high, low: bar.low, close: bar.close })}
+			</p>
+		</div>
+	)
+}
+
+/** Index of the bar a fill happened in (the last bar opened at or before it) */
+const findBarIndex = (bars: PriceBar[], time: Date): number => {
+	let found = -1
+	for (let i = 0; i < bars.length; i++) {
+		if (bars[i].time.getTime() <= time.getTime()) found = i
+		else break
+	}
+	return found
+}
+
+export const TradeChart = ({ tradeId, initialData }: TradeChartProps) => {
+	const t = useTranslations("trade.chart")
+	const router = useRouter()
+	const { showToast } = useToast()
+	const { yAxisWidth, tickFontSize } = useChartConfig()
+	const [data, setData] = useState<TradeChartData>(initialData)
+	const [isPending, startTransition] = useTransition()
+
+	const candles = useMemo<CandlePoint[]>(
+		() => data.bars.map((bar, index) => ({ ...bar, index, range: [bar.low, bar.high] })),
+		[data.bars]
+	)
+
+	const fills = useMemo(
+		() =>
+			data.executions
+				.map((execution) => ({ ...execution, index: findBarIndex(data.bars, execution.time) }))
+				.filter((execution) => execution.index >= 0),
+		[data.executions, data.bars]
+	)
+
+	const yDomain = useMemo(() => {
+		const levels = [
+			...data.bars.flatMap((bar) => [bar.low, bar.high]),
+			data.entryPrice,
+			...[data.exitPrice, data.stopLoss, data.takeProfit].filter((level): level is number => level !== null),
+		]
+		const min = Math.min(...levels)
+		const max = Math.max(...levels)
+		const padding = (max - min) * 0.05 || 1
+		return [min - padding, max + padding]
+	}, [data])
+
+	const entryIndex = fills.find((fill) => fill.type === "entry")?.index
+	const lastFillIndex = fills.length > 0 ? fills[fills.length - 1].index : undefined
+
+	const handleTimeframeChange = (timeframeId: string) => {
+		startTransition(async () => {
+			const result = await getTradeChartData(tradeId, timeframeId)
+			if (result.status === "success" && result.data) {
+				setData(result.data)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleRecalculate = () => {
+		if (!data.timeframeId) return
+		const timeframeId = data.timeframeId
+		startTransition(async () => {
+			const result = await recalculateTradeExcursion(tradeId, timeframeId)
+			if (result.status === "success") {
+				showToast("success", t("excursionUpdated"))
+				router.refresh()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleImported = () => {
+		startTransition(async () => {
+			const result = await getTradeChartData(tradeId, data.timeframeId ?? undefined)
+			if (result.status === "success" && result.data) setData(result.data)
+			router.refresh()
+		})
+	}
+
+	return (
+		<Card id="trade-detail-chart" className="p-m-400 sm:p-m-500 lg:p-m-600">
+			<div className="mb-m-400 gap-s-300 flex flex-wrap items-center justify-between">
+				<h3 className="gap-s-200 text-small sm:text-body text-txt-100 flex items-center font-semibold">
+					<CandlestickChart className="text-acc-100 h-5 w-5" />
+					{t("title")}
+				</h3>
+				<div className="gap-s-200 flex flex-wrap items-center">
+					{data.timeframes.length > 0 && (
+						<Select value={data.timeframeId ?? undefined} onValueChange={handleTimeframeChange}>
+							<SelectTrigger id="trade-chart-timeframe" className="w-32" aria-label={t("timeframe")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{data.timeframes.map((timeframe) => (
+									<SelectItem key={timeframe.id} value={timeframe.id}>
+										{timeframe.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					{data.excursion && (
+						<Button
+							id="trade-chart-recalculate"
+							variant="outline"
+							size="sm"
+							onClick={handleRecalculate}
+							disabled={isPending}
+						>
+							{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+							{t("recalculate")}
+						</Button>
+					)}
+					<PriceBarImportDialog defaultAsset={data.asset} onImported={handleImported} />
+				</div>
+			</div>
+
+			{candles.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-small text-txt-300 rounded-lg border text-center">
+					{t("empty", { asset: data.asset })}
+				</div>
+			) : (
+				<>
+					<ChartContainer id="chart-trade-candles" className="h-72 sm:h-80 lg:h-96">
+						<ComposedChart data={candles} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+							<CartesianGrid strokeDasharray="3 3" stroke="var(--color-bg-300)" strokeOpacity={0.5} />
+							<XAxis
+								dataKey="index"
+								stroke="var(--color-txt-300)"
+								fontSize={tickFontSize}
+								tickLine={false}
+								axisLine={false}
+								minTickGap={24}
+								tickFormatter={(index: number) =>
+									candles[index] ? formatBrtTimeShort(candles[index].time) : ""
+								}
+							/>
+							<YAxis
+								stroke="var(--color-txt-300)"
+								fontSize={tickFontSize}
+								tickLine={false}
+								axisLine={false}
+								domain={yDomain}
+								width={yAxisWidth}
+								tickFormatter={(value: number) => value.toLocaleString()}
+							/>
+							<ChartTooltip content={<CandleTooltip />} />
+							{entryIndex !== undefined && lastFillIndex !== undefined && (
+								<ReferenceArea
+									x1={entryIndex}
+									x2={lastFillIndex}
+									fill="var(--color-acc-100)"
+									fillOpacity={0.06}
+								/>
+							)}
+							<Bar dataKey="range" shape={<Candle />} isAnimationActive={false} />
+							<ReferenceLine
+								y={data.entryPrice}
+								stroke="var(--color-txt-300)"
+								strokeDasharray="4 4"
+								label={{ value: t("entry"), position: "insideTopLeft", fontSize: tickFontSize, fill: "var(--color-txt-300)" }}
+							/>
+							{data.stopLoss !== null && (
+								<ReferenceLine
+									y={data.stopLoss}
+									stroke="var(--color-trade-sell)"
+									strokeDasharray="6 3"
+									label={{ value: t("stop"), position: "insideBottomLeft", fontSize: tickFontSize, fill: "var(--color-trade-sell)" }}
+								/>
+							)}
+							{data.takeProfit !== null && (
+								<ReferenceLine
+									y={data.takeProfit}
+									stroke="var(--color-trade-buy)"
+									strokeDasharray="6 3"
+									label={{ value: t("target"), position: "insideTopLeft", fontSize: tickFontSize, fill: "var(--color-trade-buy)" }}
+								/>
+							)}
+							{fills.map((fill, i) => (
+								<ReferenceDot
+									key={`${fill.type}-${i}`}
+									x={fill.index}
+									y={fill.price}
+									r={5}
+									fill={fill.type === "entry" ? "var(--color-acc-100)" : "var(--color-warning)"}
+									stroke="var(--color-bg-100)"
+									strokeWidth={2}
+								/>
+							))}
+						</ComposedChart>
+					</ChartContainer>
+
+					<div className="mt-s-300 gap-m-400 text-tiny text-txt-300 flex flex-wrap items-center justify-between">
+						<div className="gap-m-400 flex flex-wrap items-center">
+							<span className="gap-s-100 flex items-center">
+								<span className="bg-acc-100 h-2.5 w-2.5 rounded-full" aria-hidden="true" />
+								{t("entryFill")}
+							</span>
+							<span className="gap-s-100 flex items-center">
+								<span className="bg-warning h-2.5 w-2.5 rounded-full" aria-hidden="true" />
+								{t("exitFill")}
+							</span>
+						</div>
+						{data.excursion && (
+							<span id="trade-chart-excursion">
+								{t("excursionFromBars", {
+									mfe: data.excursion.mfe,
+									mae: data.excursion.mae,
+								})}
+								{data.excursion.mfeR !== null && data.excursion.maeR !== null && (
+									<> ({formatR(data.excursion.mfeR)} / {formatR(data.excursion.maeR)})</>
+								)}
+							</span>
+						)}
+					</div>
+				</>
+			)}
+		</Card>
+	)
+}
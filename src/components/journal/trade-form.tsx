@@ -18,7 +18,7 @@ import {
 	Loader2,
 	Plus,
 	Info,
-	ImageIcon,
+	Paperclip,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import {
@@ -61,13 +61,22 @@ import {
 	FormLabel,
 	FormMessage,
 } from "@/components/ui/form"
-import type { Trade, Strategy, Tag, Timeframe } from "@/db/schema"
+import type {
+	Trade,
+	TradeAttachment,
+	Strategy,
+	Tag,
+	Timeframe,
+} from "@/db/schema"
 import type { AssetWithType } from "@/app/actions/assets"
 import { getTags } from "@/app/actions/tags"
 import { TagForm } from "@/components/settings/tag-form"
-import { ImageUpload } from "@/components/shared/image-upload"
-import { uploadFiles } from "@/lib/upload-files"
-import type { PersistedImage, PendingImage } from "@/lib/validations/upload"
+import { uploadAttachments } from "@/lib/upload-files"
+import type { TradeAttachmentDraft } from "@/lib/validations/trade-attachment"
+import {
+	TradeAttachmentsInput,
+	toAttachmentDrafts,
+} from "./trade-attachments-input"
 import {
 	Tooltip,
 	TooltipContent,
@@ -77,6 +86,7 @@ import {
 interface TradeFormProps {
 	trade?: Trade & {
 		tradeTags?: Array<{ tag: Tag }>
+		attachments?: TradeAttachment[]
 	}
 	strategies?: Strategy[]
 	tags?: Tag[]
@@ -157,8 +167,6 @@ const buildTradeFormValues = (
 	followedPlan: trade.followedPlan ?? undefined,
 	disciplineNotes: trade.disciplineNotes ?? undefined,
 	setupRank: trade.setupRank ?? undefined,
-	screenshotUrl: trade.screenshotUrl ?? undefined,
-	screenshotS3Key: trade.screenshotS3Key ?? undefined,
 	tagIds: trade.tradeTags?.map((tt) => tt.tag.id) ?? [],
 })
 
@@ -212,16 +220,10 @@ const TradeForm = forwardRef<TradeFormRef, TradeFormProps>(
 		const [isTagFormOpen, setIsTagFormOpen] = useState(false)
 		const [localTags, setLocalTags] = useState<Tag[]>(tags)
 
-		// Trade screenshot state (local-first)
-		const [persistedScreenshot, setPersistedScreenshot] =
-			useState<PersistedImage | null>(() => {
-				if (trade?.screenshotUrl && trade?.screenshotS3Key) {
-					return { url: trade.screenshotUrl, s3Key: trade.screenshotS3Key }
-				}
-				return null
-			})
-		const [pendingScreenshot, setPendingScreenshot] =
-			useState<PendingImage | null>(null)
+		// Attachments (local-first: new files upload on submit)
+		const [attachments, setAttachments] = useState<TradeAttachmentDraft[]>(
+			() => toAttachmentDrafts(trade?.attachments)
+		)
 
 		const handleTagCreated = async () => {
 			// Refresh tags from server after inline creation
@@ -460,38 +462,21 @@ const TradeForm = forwardRef<TradeFormRef, TradeFormProps>(
 		const onSubmit = async (data: TradeFormInput) => {
 			setIsSubmitting(true)
 			try {
-				// Upload pending screenshot if present
-				let screenshotUrl = ""
-				let screenshotS3Key = ""
-
-				if (pendingScreenshot) {
-					const entityId = trade?.id ?? crypto.randomUUID()
-					const { uploaded, errors } = await uploadFiles({
-						pendingImages: [pendingScreenshot],
-						path: "trades",
-						entityId,
-					})
-
-					if (errors.length > 0) {
-						showToast("error", errors[0])
-						setIsSubmitting(false)
-						return
-					}
-
-					if (uploaded.length > 0) {
-						screenshotUrl = uploaded[0].url
-						screenshotS3Key = uploaded[0].s3Key
-					}
-				} else if (persistedScreenshot) {
-					screenshotUrl = persistedScreenshot.url
-					screenshotS3Key = persistedScreenshot.s3Key
+				// Upload new attachment files; stored ones pass through
+				const entityId = trade?.id ?? crypto.randomUUID()
+				const { attachments: uploadedAttachments, errors: uploadErrors } =
+					await uploadAttachments(attachments, entityId)
+
+				if (uploadErrors.length > 0) {
+					showToast("error", t("attachments.uploadFailed"))
+					setIsSubmitting(false)
+					return
 				}
 
 				const submitData = {
 					...data,
 					riskAmount: calculatedRisk ?? undefined,
-					screenshotUrl,
-					screenshotS3Key,
+					attachments: uploadedAttachments,
 				}
 				const result = isEditing
 					? await updateTrade(trade.id, submitData)
@@ -1401,26 +1386,21 @@ const TradeForm = forwardRef<TradeFormRef, TradeFormProps>(
 								/>
 							)}
 
-							{/* Trade Screenshot */}
+							{/* Attachments */}
 							<div className="space-y-s-200">
 								<div className="gap-s-200 flex items-center">
-									<ImageIcon className="text-txt-300 h-4 w-4" />
-									<Label id="label-trade-screenshot">
-										{t("tradeScreenshot")}
+									<Paperclip className="text-txt-300 h-4 w-4" />
+									<Label id="label-trade-attachments">
+										{t("attachments.title")}
 									</Label>
 								</div>
 								<p className="text-tiny text-txt-300">
-									{t("tradeScreenshotHint")}
+									{t("attachments.hint")}
 								</p>
-								<ImageUpload
-									persistedImages={
-										persistedScreenshot ? [persistedScreenshot] : []
-									}
-									pendingImages={pendingScreenshot ? [pendingScreenshot] : []}
-									onFileAdd={(img) => setPendingScreenshot(img)}
-									onPendingRemove={() => setPendingScreenshot(null)}
-									onPersistedRemove={() => setPersistedScreenshot(null)}
-									maxImages={1}
+								<TradeAttachmentsInput
+									attachments={attachments}
+									onChange={setAttachments}
+									disabled={isSubmitting}
 								/>
 							</div>
 						</AnimatedTabsContent>
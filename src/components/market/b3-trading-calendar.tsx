@@ -5,12 +5,8 @@ import { useTranslations, useLocale } from "next-intl"
 import { ChevronLeft, ChevronRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
-import {
-	isB3Holiday,
-	isNyseHoliday,
-	getB3HolidayName,
-	getNyseHolidayName,
-} from "@/lib/market/holidays"
+import { useMarketCalendar } from "@/hooks/use-market-calendar"
+import type { MarketHoliday } from "@/types/market-calendar"
 
 const WEEKDAYS_EN = ["Mo", "Tu", "We", "Th", "Fr", "Sa", "Su"]
 const WEEKDAYS_PT = ["Seg", "Ter", "Qua", "Qui", "Sex", "Sáb", "Dom"]
@@ -32,8 +28,9 @@ interface DayInfo {
 	isToday: boolean
 	isB3Closed: boolean
 	isNyseClosed: boolean
-	b3HolidayName: string | null
-	nyseHolidayName: string | null
+	isHalfDay: boolean
+	b3Holiday: MarketHoliday | null
+	nyseHoliday: MarketHoliday | null
 }
 
 export const B3TradingCalendar = () => {
@@ -41,6 +38,8 @@ export const B3TradingCalendar = () => {
 	const locale = useLocale()
 
 	const [monthOffset, setMonthOffset] = useState(0)
+	const b3Calendar = useMarketCalendar("B3")
+	const nyseCalendar = useMarketCalendar("NYSE")
 
 	const today = new Date()
 	const todayStr = toDateStr(
@@ -67,16 +66,21 @@ export const B3TradingCalendar = () => {
 				const dateStr = toDateStr(yr, mo, d)
 				const dayOfWeek = getMondayBasedDay(new Date(yr, mo, d))
 				const isWeekend = dayOfWeek >= 5
+				const b3Holiday = isWeekend ? null : b3Calendar.getHoliday(dateStr)
+				const nyseHoliday = isWeekend ? null : nyseCalendar.getHoliday(dateStr)
 
 				dayInfos.push({
 					day: d,
 					dateStr,
 					isWeekend,
 					isToday: dateStr === todayStr,
-					isB3Closed: isWeekend || isB3Holiday(dateStr),
-					isNyseClosed: isWeekend || isNyseHoliday(dateStr),
-					b3HolidayName: getB3HolidayName(dateStr, locale),
-					nyseHolidayName: getNyseHolidayName(dateStr, locale),
+					isB3Closed: !b3Calendar.isTradingDay(dateStr),
+					isNyseClosed: !nyseCalendar.isTradingDay(dateStr),
+					isHalfDay:
+						b3Holiday?.sessionType === "half_day" ||
+						nyseHoliday?.sessionType === "half_day",
+					b3Holiday,
+					nyseHoliday,
 				})
 			}
 
@@ -92,9 +96,18 @@ export const B3TradingCalendar = () => {
 				trailingEmpty,
 			}
 		},
-		[monthOffset, todayStr, locale]
+		[monthOffset, todayStr, b3Calendar, nyseCalendar]
 	)
 
+	/** Holiday name in the current locale, with the hours of a shortened session */
+	const describeHoliday = (holiday: MarketHoliday): string => {
+		const name = locale === "pt-BR" ? holiday.name : holiday.nameEn
+		if (holiday.sessionType !== "half_day") return name
+		if (holiday.opensAt) return `${name} (${t("opensAt", { time: holiday.opensAt })})`
+		if (holiday.closesAt) return `${name} (${t("closesAt", { time: holiday.closesAt })})`
+		return name
+	}
+
 	const weekdays = locale === "pt-BR" ? WEEKDAYS_PT : WEEKDAYS_EN
 
 	const monthName = new Intl.DateTimeFormat(
@@ -172,8 +185,8 @@ export const B3TradingCalendar = () => {
 						!day.isWeekend && !day.isB3Closed && day.isNyseClosed
 
 					const tooltipParts = [
-						day.b3HolidayName ? `🇧🇷 ${day.b3HolidayName}` : null,
-						day.nyseHolidayName ? `🇺🇸 ${day.nyseHolidayName}` : null,
+						day.b3Holiday ? `🇧🇷 ${describeHoliday(day.b3Holiday)}` : null,
+						day.nyseHoliday ? `🇺🇸 ${describeHoliday(day.nyseHoliday)}` : null,
 					].filter(Boolean)
 
 					const tooltip = tooltipParts.join("\n")
@@ -181,6 +194,7 @@ export const B3TradingCalendar = () => {
 						b3OnlyClosedNotWeekend ||
 						nyseOnlyClosedNotWeekend ||
 						bothClosedNotWeekend
+					const halfDayOnly = day.isHalfDay && !specialDay
 
 					return (
 						<div
@@ -201,6 +215,8 @@ export const B3TradingCalendar = () => {
 								// Both closed — diagonal gradient via globals.css utility class
 								bothClosedNotWeekend && !day.isToday && "bg-both-closed text-txt-100",
 								bothClosedNotWeekend && day.isToday && "text-txt-100",
+								// Shortened session on an open day — dashed outline
+								halfDayOnly && !day.isToday && "border-txt-300/60 border-dashed",
 								// Today — highlighted with font-color opacity bg
 								day.isToday
 									? specialDay
@@ -250,6 +266,13 @@ export const B3TradingCalendar = () => {
 					/>
 					<span className="text-txt-300">{t("usClosed")}</span>
 				</span>
+				<span className="text-tiny flex items-center gap-1.5">
+					<span
+						className="border-txt-300/60 h-3 w-3 rounded-sm border border-dashed"
+						aria-hidden="true"
+					/>
+					<span className="text-txt-300">{t("halfDay")}</span>
+				</span>
 			</div>
 		</div>
 	)
@@ -0,0 +1,82 @@
+"use client"
+
+import { useTranslations } from "next-intl"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import { BOOTSTRAP_METHODS } from "@/lib/validations/monte-carlo"
+import type { BootstrapConfig } from "@/types/monte-carlo"
+
+interface BootstrapSettingsProps {
+	config: BootstrapConfig
+	onChange: (config: BootstrapConfig) => void
+	disabled?: boolean
+}
+
+/** Resampling method for empirical mode: independent draws or streak-preserving blocks */
+export const BootstrapSettings = ({
+	config,
+	onChange,
+	disabled = false,
+}: BootstrapSettingsProps) => {
+	const t = useTranslations("monteCarlo.bootstrap")
+
+	return (
+		<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 rounded-lg border">
+			<h3 className="mb-s-300 text-small text-txt-200 font-medium">
+				{t("title")}
+			</h3>
+			<div className="gap-s-300 flex">
+				{BOOTSTRAP_METHODS.map((method) => (
+					<button
+						key={method}
+						id={`monte-carlo-bootstrap-${method}`}
+						type="button"
+						onClick={() => onChange({ ...config, method })}
+						aria-pressed={config.method === method}
+						disabled={disabled}
+						className={cn(
+							"px-m-400 py-s-300 text-small flex-1 rounded-md border font-medium transition-colors",
+							config.method === method
+								? "border-acc-100 bg-acc-100/10 text-acc-100"
+								: "border-bg-300 bg-bg-100 text-txt-200 hover:border-bg-200"
+						)}
+					>
+						{t(`methods.${method}`)}
+					</button>
+				))}
+			</div>
+			<p className="mt-s-200 text-tiny text-txt-300">
+				{t(`descriptions.${config.method}`)}
+			</p>
+
+			{config.method === "block" && (
+				<div className="mt-m-400 max-w-48">
+					<Label
+						id="label-monte-carlo-block-length"
+						className="mb-s-200 text-small text-txt-200 block"
+						required
+						filled={!!config.blockLength}
+					>
+						{t("blockLength")}
+					</Label>
+					<Input
+						id="monte-carlo-block-length"
+						type="number"
+						step="1"
+						min={2}
+						max={50}
+						value={config.blockLength}
+						onChange={(e) =>
+							onChange({
+								...config,
+								blockLength: parseInt(e.target.value) || 0,
+							})
+						}
+						disabled={disabled}
+					/>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useTranslations } from "next-intl"
+import { cn } from "@/lib/utils"
+import type { BootstrapSummary } from "@/types/monte-carlo"
+
+interface ComparisonRow {
+	key: string
+	label: string
+	parametric: number
+	empirical: number
+	format: (value: number) => string
+	/** Whether a larger value is the better outcome (colors the difference) */
+	higherIsBetter: boolean
+}
+
+interface EmpiricalComparisonProps {
+	bootstrap: BootstrapSummary
+	rows: ComparisonRow[]
+}
+
+/**
+ * Parametric vs. empirical results for the same source, row by row. The
+ * difference column is colored by whether the real distribution does better
+ * or worse than the win/loss model predicts.
+ */
+const EmpiricalComparison = ({ bootstrap, rows }: EmpiricalComparisonProps) => {
+	const t = useTranslations("monteCarlo.comparison")
+
+	const formatDelta = (row: ComparisonRow): string => {
+		const delta = row.empirical - row.parametric
+		if (!Number.isFinite(delta)) return "—"
+		const formatted = row.format(Math.abs(delta)).replace(/^[+-]/, "")
+		if (delta === 0) return formatted
+		return `${delta > 0 ? "+" : "-"}${formatted}`
+	}
+
+	const getDeltaClass = (row: ComparisonRow): string => {
+		const delta = row.empirical - row.parametric
+		if (!Number.isFinite(delta) || Math.abs(delta) < 1e-9) return "text-txt-300"
+		return delta > 0 === row.higherIsBetter
+			? "text-trade-buy"
+			: "text-trade-sell"
+	}
+
+	return (
+		<div
+			id="monte-carlo-empirical-comparison"
+			className="border-bg-300 bg-bg-200 overflow-hidden rounded-lg border"
+		>
+			<div className="p-s-300 sm:p-m-400 border-bg-300 border-b">
+				<h3 className="text-small sm:text-body text-txt-100 font-semibold">
+					{t("title")}
+				</h3>
+				<p className="mt-s-100 text-tiny text-txt-300">
+					{t("description", {
+						source: bootstrap.sourceName,
+						count: bootstrap.sampleSize,
+					})}
+				</p>
+				<p className="mt-s-100 text-tiny text-txt-300">
+					{bootstrap.method === "block"
+						? t("methodBlock", { length: bootstrap.blockLength })
+						: t("methodPlain")}
+					{" · "}
+					{t("sourceEdge", {
+						winRate: bootstrap.winRate.toFixed(1),
+						rewardRisk: bootstrap.rewardRiskRatio.toFixed(2),
+					})}
+				</p>
+			</div>
+			<div className="overflow-x-auto">
+				<table className="w-full" aria-label={t("title")}>
+					<thead>
+						<tr className="bg-bg-100 border-bg-300 border-b">
+							<th className="text-tiny text-txt-300 px-3 py-2 text-left font-medium whitespace-nowrap">
+								{t("metric")}
+							</th>
+							<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+								{t("parametric")}
+							</th>
+							<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+								{t("empirical")}
+							</th>
+							<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+								{t("difference")}
+							</th>
+						</tr>
+					</thead>
+					<tbody>
+						{rows.map((row) => (
+							<tr
+								key={row.key}
+								className="border-bg-300 border-b last:border-b-0"
+							>
+								<td className="text-small text-txt-200 px-3 py-2">
+									{row.label}
+								</td>
+								<td className="text-small text-txt-100 px-3 py-2 text-right whitespace-nowrap">
+									{row.format(row.parametric)}
+								</td>
+								<td className="text-small text-txt-100 px-3 py-2 text-right font-medium whitespace-nowrap">
+									{row.format(row.empirical)}
+								</td>
+								<td
+									className={cn(
+										"text-small px-3 py-2 text-right whitespace-nowrap",
+										getDeltaClass(row)
+									)}
+								>
+									{formatDelta(row)}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	)
+}
+
+export { EmpiricalComparison, type ComparisonRow }
@@ -10,3 +10,5 @@ export { MetricsCards } from "./metrics-cards"
 export { KellyCriterionCard } from "./kelly-criterion-card"
 export { TradeSequenceList } from "./trade-sequence-list"
 export { StrategyAnalysis } from "./strategy-analysis"
+export { BootstrapSettings } from "./bootstrap-settings"
+export { EmpiricalComparison } from "./empirical-comparison"
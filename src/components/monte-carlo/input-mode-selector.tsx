@@ -2,10 +2,13 @@
 
 import { useTranslations } from "next-intl"
 import { cn } from "@/lib/utils"
+import type { InputMode } from "@/types/monte-carlo"
+
+const INPUT_MODES: InputMode[] = ["auto", "empirical", "manual"]
 
 interface InputModeSelectorProps {
-	mode: "auto" | "manual"
-	onModeChange: (mode: "auto" | "manual") => void
+	mode: InputMode
+	onModeChange: (mode: InputMode) => void
 }
 
 export const InputModeSelector = ({
@@ -19,34 +22,28 @@ export const InputModeSelector = ({
 			<h3 className="mb-s-300 text-small text-txt-200 font-medium">
 				{t("title")}
 			</h3>
-			<div className="gap-s-300 flex">
-				<button
-					type="button"
-					onClick={() => onModeChange("auto")}
-					aria-pressed={mode === "auto"}
-					className={cn(
-						"px-m-400 py-s-300 text-small flex-1 rounded-md border font-medium transition-colors",
-						mode === "auto"
-							? "border-acc-100 bg-acc-100/10 text-acc-100"
-							: "border-bg-300 bg-bg-100 text-txt-200 hover:border-bg-200"
-					)}
-				>
-					{t("auto")}
-				</button>
-				<button
-					type="button"
-					onClick={() => onModeChange("manual")}
-					aria-pressed={mode === "manual"}
-					className={cn(
-						"px-m-400 py-s-300 text-small flex-1 rounded-md border font-medium transition-colors",
-						mode === "manual"
-							? "border-acc-100 bg-acc-100/10 text-acc-100"
-							: "border-bg-300 bg-bg-100 text-txt-200 hover:border-bg-200"
-					)}
-				>
-					{t("manual")}
-				</button>
+			<div className="gap-s-300 flex flex-col sm:flex-row">
+				{INPUT_MODES.map((inputMode) => (
+					<button
+						key={inputMode}
+						id={`monte-carlo-input-mode-${inputMode}`}
+						type="button"
+						onClick={() => onModeChange(inputMode)}
+						aria-pressed={mode === inputMode}
+						className={cn(
+							"px-m-400 py-s-300 text-small flex-1 rounded-md border font-medium transition-colors",
+							mode === inputMode
+								? "border-acc-100 bg-acc-100/10 text-acc-100"
+								: "border-bg-300 bg-bg-100 text-txt-200 hover:border-bg-200"
+						)}
+					>
+						{t(inputMode)}
+					</button>
+				))}
 			</div>
+			{mode === "empirical" && (
+				<p className="mt-s-300 text-tiny text-txt-300">{t("empiricalHint")}</p>
+			)}
 		</div>
 	)
 }
@@ -17,6 +17,8 @@ import { monteCarloGuide } from "@/components/ui/page-guide/guide-configs/monte-
 import { useFeatureAccess } from "@/hooks/use-feature-access"
 import { InputModeSelector } from "./input-mode-selector"
 import { DataSourceSelector } from "./data-source-selector"
+import { BootstrapSettings } from "./bootstrap-settings"
+import { EmpiricalComparison, type ComparisonRow } from "./empirical-comparison"
 import { StatsPreview } from "./stats-preview"
 import { SimulationParamsForm } from "./simulation-params-form"
 import { EquityCurveChart } from "./equity-curve-chart"
@@ -27,20 +29,35 @@ import { KellyCriterionCard } from "./kelly-criterion-card"
 import { TradeSequenceList } from "./trade-sequence-list"
 import { StrategyAnalysis } from "./strategy-analysis"
 import { MonteCarloV2Content } from "./v2/monte-carlo-v2-content"
+import { PropChallengeContent } from "./prop-challenge"
+import { SimulationRunHistory } from "@/components/simulation-runs"
+import { useToast } from "@/components/ui/toast"
 import {
 	getDataSourceOptions,
 	getSimulationStats,
 	runSimulation,
+	runEmpiricalSimulation,
+	reopenMonteCarloRun,
 } from "@/app/actions/monte-carlo"
-import { defaultSimulationParams } from "@/lib/validations/monte-carlo"
+import {
+	defaultSimulationParams,
+	defaultBootstrapConfig,
+} from "@/lib/validations/monte-carlo"
+import { formatR, formatRatio } from "@/lib/formatting"
 import type {
 	DataSource,
 	SourceStats,
 	SimulationParams,
 	MonteCarloResult,
 	DataSourceOption,
+	InputMode,
+	BootstrapConfig,
+	EmpiricalComparison as EmpiricalComparisonResult,
 } from "@/types/monte-carlo"
 import type { RiskManagementProfile } from "@/types/risk-profile"
+import type { ReopenedSimulationRun, SimulationRun } from "@/types/simulation-run"
+
+type MonteCarloTab = "edgeExpectancy" | "capitalExpectancy" | "propChallenge"
 
 interface MonteCarloContentProps {
 	initialOptions: DataSourceOption[]
@@ -53,10 +70,20 @@ export const MonteCarloContent = ({
 }: MonteCarloContentProps) => {
 	const t = useTranslations("monteCarlo")
 	const tOverlay = useTranslations("overlay")
+	const tRuns = useTranslations("simulationRuns")
 	const { showLoading, hideLoading } = useLoadingOverlay()
+	const { showToast } = useToast()
+
+	const [activeTab, setActiveTab] = useState<MonteCarloTab>("edgeExpectancy")
+	// Bumped after each recorded run so the history list reloads
+	const [historyKey, setHistoryKey] = useState(0)
+	const [reopenedV2Run, setReopenedV2Run] = useState<Extract<
+		ReopenedSimulationRun,
+		{ kind: "monte_carlo_v2" }
+	> | null>(null)
 
 	// Mode state
-	const [inputMode, setInputMode] = useState<"auto" | "manual">("auto")
+	const [inputMode, setInputMode] = useState<InputMode>("auto")
 	const [selectedSource, setSelectedSource] = useState<DataSource | null>(null)
 	const [sourceStats, setSourceStats] = useState<SourceStats | null>(null)
 	const [isLoadingStats, setIsLoadingStats] = useState(false)
@@ -65,9 +92,14 @@ export const MonteCarloContent = ({
 	const [params, setParams] = useState<SimulationParams>(
 		defaultSimulationParams
 	)
+	const [bootstrapConfig, setBootstrapConfig] = useState<BootstrapConfig>(
+		defaultBootstrapConfig
+	)
 
 	// Results state
 	const [result, setResult] = useState<MonteCarloResult | null>(null)
+	const [comparison, setComparison] =
+		useState<EmpiricalComparisonResult<MonteCarloResult> | null>(null)
 	const [isRunning, setIsRunning] = useState(false)
 	const [error, setError] = useState<string | null>(null)
 
@@ -93,7 +125,7 @@ export const MonteCarloContent = ({
 
 	// When source changes, load stats
 	useEffect(() => {
-		if (selectedSource && inputMode === "auto") {
+		if (selectedSource && inputMode !== "manual") {
 			loadSourceStats(selectedSource)
 		}
 	}, [selectedSource, inputMode, loadSourceStats])
@@ -115,15 +147,42 @@ export const MonteCarloContent = ({
 	}
 
 	const handleRunSimulation = async () => {
+		if (inputMode === "empirical" && !selectedSource) {
+			setError(t("errors.selectDataSource"))
+			return
+		}
+
 		setIsRunning(true)
 		setError(null)
 		setResult(null)
+		setComparison(null)
 		showLoading({ message: tOverlay("runningSimulation") })
 
 		try {
-			const response = await runSimulation(params)
+			if (inputMode === "empirical" && selectedSource) {
+				const response = await runEmpiricalSimulation(
+					selectedSource,
+					params,
+					bootstrapConfig
+				)
+				if (response.status === "success" && response.data) {
+					setComparison(response.data)
+					setResult(response.data.empirical)
+					setHistoryKey((key) => key + 1)
+				} else {
+					const errorDetails = response.errors?.map((e) => e.detail).join(", ")
+					setError(errorDetails || response.message)
+				}
+				return
+			}
+
+			const response = await runSimulation(
+				params,
+				inputMode === "auto" ? selectedSource : null
+			)
 			if (response.status === "success" && response.data) {
 				setResult(response.data)
+				setHistoryKey((key) => key + 1)
 			} else {
 				const errorDetails = response.errors?.map((e) => e.detail).join(", ")
 				setError(errorDetails || response.message)
@@ -139,6 +198,36 @@ export const MonteCarloContent = ({
 	// Reset to run again
 	const handleRunAgain = () => {
 		setResult(null)
+		setComparison(null)
+	}
+
+	// Replay a saved run and restore its inputs; the seed is dropped from the
+	// form so the next run draws a fresh one
+	const handleReopenRun = async (run: SimulationRun) => {
+		const response = await reopenMonteCarloRun(run.id)
+		if (response.status !== "success" || !response.data) {
+			showToast("error", tRuns("reopenError"))
+			return
+		}
+
+		const reopened = response.data
+		if (reopened.kind === "monte_carlo_v2") {
+			setReopenedV2Run(reopened)
+			setActiveTab("capitalExpectancy")
+			return
+		}
+
+		const { inputs } = reopened.run
+		if (inputs.kind !== "monte_carlo") return
+
+		setInputMode(inputs.empirical ? "empirical" : inputs.source ? "auto" : "manual")
+		setSelectedSource(inputs.source)
+		setBootstrapConfig(inputs.empirical?.bootstrap ?? defaultBootstrapConfig)
+		setParams({ ...inputs.params, seed: undefined })
+		setResult(reopened.result)
+		setComparison(reopened.comparison)
+		setError(null)
+		setActiveTab("edgeExpectancy")
 	}
 
 	const tV2 = useTranslations("monteCarlo.v2")
@@ -156,8 +245,11 @@ export const MonteCarloContent = ({
 				<p className="mt-s-100 text-small text-txt-300">{t("subtitle")}</p>
 			</div>
 
-			{/* Mode Tabs: Edge Expectancy | Capital Expectancy */}
-			<Tabs defaultValue="edgeExpectancy">
+			{/* Mode Tabs: Edge Expectancy | Capital Expectancy | Prop Challenge */}
+			<Tabs
+				value={activeTab}
+				onValueChange={(value) => setActiveTab(value as MonteCarloTab)}
+			>
 				<TabsList id="monte-carlo-tabs" variant="line" className="mb-m-400 sm:mb-m-500">
 					<TabsTrigger value="edgeExpectancy">
 						{tV2("tabEdgeExpectancy")}
@@ -165,6 +257,9 @@ export const MonteCarloContent = ({
 					<TabsTrigger value="capitalExpectancy">
 						{tV2("tabCapitalExpectancy")}
 					</TabsTrigger>
+					<TabsTrigger value="propChallenge">
+						{tV2("tabPropChallenge")}
+					</TabsTrigger>
 				</TabsList>
 
 				<AnimatedTabsContent value="edgeExpectancy">
@@ -178,7 +273,10 @@ export const MonteCarloContent = ({
 						isLoadingStats={isLoadingStats}
 						params={params}
 						setParams={setParams}
+						bootstrapConfig={bootstrapConfig}
+						setBootstrapConfig={setBootstrapConfig}
 						result={result}
+						comparison={comparison}
 						isRunning={isRunning}
 						error={error}
 						onUseStats={handleUseStats}
@@ -194,9 +292,25 @@ export const MonteCarloContent = ({
 						profiles={riskProfiles}
 						dataSourceOptions={initialOptions}
 						budgetCap={limits.monteCarloV2BudgetCap}
+						reopenedRun={reopenedV2Run}
+						onRunRecorded={() => setHistoryKey((key) => key + 1)}
+					/>
+				</AnimatedTabsContent>
+
+				<AnimatedTabsContent value="propChallenge">
+					<PropChallengeContent
+						profiles={riskProfiles}
+						dataSourceOptions={initialOptions}
+						budgetCap={limits.propChallengeBudgetCap}
 					/>
 				</AnimatedTabsContent>
 			</Tabs>
+
+			<SimulationRunHistory
+				kinds={["monte_carlo", "monte_carlo_v2"]}
+				refreshKey={historyKey}
+				onReopen={handleReopenRun}
+			/>
 		</div>
 	)
 }
@@ -207,8 +321,8 @@ export const MonteCarloContent = ({
 
 interface EdgeExpectancyContentProps {
 	initialOptions: DataSourceOption[]
-	inputMode: "auto" | "manual"
-	setInputMode: (mode: "auto" | "manual") => void
+	inputMode: InputMode
+	setInputMode: (mode: InputMode) => void
 	selectedSource: DataSource | null
 	setSelectedSource: (source: DataSource | null) => void
 	sourceStats: SourceStats | null
@@ -217,7 +331,10 @@ interface EdgeExpectancyContentProps {
 	setParams: (
 		params: SimulationParams | ((prev: SimulationParams) => SimulationParams)
 	) => void
+	bootstrapConfig: BootstrapConfig
+	setBootstrapConfig: (config: BootstrapConfig) => void
 	result: MonteCarloResult | null
+	comparison: EmpiricalComparisonResult<MonteCarloResult> | null
 	isRunning: boolean
 	error: string | null
 	onUseStats: () => void
@@ -237,7 +354,10 @@ const EdgeExpectancyContent = ({
 	isLoadingStats,
 	params,
 	setParams,
+	bootstrapConfig,
+	setBootstrapConfig,
 	result,
+	comparison,
 	isRunning,
 	error,
 	onUseStats,
@@ -248,6 +368,10 @@ const EdgeExpectancyContent = ({
 }: EdgeExpectancyContentProps) => {
 	const t = useTranslations("monteCarlo")
 
+	const comparisonRows: ComparisonRow[] = comparison
+		? buildEdgeComparisonRows(comparison, t)
+		: []
+
 	return (
 		<div className="space-y-m-400 sm:space-y-m-500">
 			{/* Input Section */}
@@ -274,12 +398,30 @@ const EdgeExpectancyContent = ({
 						</div>
 					)}
 
+					{/* Data Source + Resampling (Empirical mode only) */}
+					{inputMode === "empirical" && (
+						<div className="gap-m-400 grid lg:grid-cols-2">
+							<DataSourceSelector
+								options={initialOptions}
+								selectedSource={selectedSource}
+								onSourceChange={setSelectedSource}
+								isLoading={isLoadingStats}
+							/>
+							<BootstrapSettings
+								config={bootstrapConfig}
+								onChange={setBootstrapConfig}
+								disabled={isRunning}
+							/>
+						</div>
+					)}
+
 					{/* Parameters Form */}
 					<SimulationParamsForm
 						params={params}
 						onChange={setParams}
 						disabled={isRunning}
 						budgetCap={budgetCap}
+						edgeFromSource={inputMode === "empirical"}
 					/>
 
 					{/* Error Message */}
@@ -337,7 +479,7 @@ const EdgeExpectancyContent = ({
 								{t("results.winRateLabel")}:
 							</span>
 							<span className="text-txt-100 font-medium">
-								{params.winRate}%
+								{result.params.winRate.toFixed(1)}%
 							</span>
 						</div>
 						<div className="gap-m-400 flex items-center">
@@ -345,9 +487,19 @@ const EdgeExpectancyContent = ({
 								{t("results.rrLabel")}:
 							</span>
 							<span className="text-txt-100 font-medium">
-								1:{params.rewardRiskRatio}
+								1:{result.params.rewardRiskRatio.toFixed(2)}
 							</span>
 						</div>
+						{result.params.seed !== undefined && (
+							<div className="gap-m-400 flex items-center">
+								<span className="text-txt-300 text-small">
+									{t("results.seedLabel")}:
+								</span>
+								<span className="text-txt-100 font-medium">
+									{result.params.seed}
+								</span>
+							</div>
+						)}
 						<Button
 							id="monte-carlo-run-again"
 							variant="outline"
@@ -359,6 +511,14 @@ const EdgeExpectancyContent = ({
 						</Button>
 					</div>
 
+					{/* Parametric vs. Empirical (charts below show the empirical run) */}
+					{comparison && (
+						<EmpiricalComparison
+							bootstrap={comparison.bootstrap}
+							rows={comparisonRows}
+						/>
+					)}
+
 					{/* Charts Row */}
 					<div className="gap-m-400 sm:gap-m-500 grid lg:grid-cols-2">
 						<EquityCurveChart trades={result.sampleRun.trades} />
@@ -387,3 +547,86 @@ const EdgeExpectancyContent = ({
 		</div>
 	)
 }
+
+const buildEdgeComparisonRows = (
+	{ parametric, empirical }: EmpiricalComparisonResult<MonteCarloResult>,
+	t: ReturnType<typeof useTranslations>
+): ComparisonRow[] => {
+	const formatPercent = (value: number) => `${value.toFixed(1)}%`
+	const formatStreak = (value: number) => value.toFixed(1)
+	const rows: Array<
+		Omit<ComparisonRow, "parametric" | "empirical"> & {
+			pick: (result: MonteCarloResult) => number
+		}
+	> = [
+		{
+			key: "expectedRPerTrade",
+			label: t("metrics.expectedRPerTrade"),
+			pick: (r) => r.statistics.expectedRPerTrade,
+			format: formatR,
+			higherIsBetter: true,
+		},
+		{
+			key: "medianFinalR",
+			label: t("metrics.medianFinalR"),
+			pick: (r) => r.statistics.medianFinalR,
+			format: formatR,
+			higherIsBetter: true,
+		},
+		{
+			key: "worstCaseFinalR",
+			label: t("metrics.worstCase"),
+			pick: (r) => r.statistics.worstCaseFinalR,
+			format: formatR,
+			higherIsBetter: true,
+		},
+		{
+			key: "bestCaseFinalR",
+			label: t("metrics.bestCase"),
+			pick: (r) => r.statistics.bestCaseFinalR,
+			format: formatR,
+			higherIsBetter: true,
+		},
+		{
+			key: "profitablePct",
+			label: t("metrics.profitableSimulations"),
+			pick: (r) => r.statistics.profitablePct,
+			format: formatPercent,
+			higherIsBetter: true,
+		},
+		{
+			key: "medianMaxRDrawdown",
+			label: t("metrics.medianMaxDrawdownR"),
+			pick: (r) => r.statistics.medianMaxRDrawdown,
+			format: (v) => `${v.toFixed(2)}R`,
+			higherIsBetter: false,
+		},
+		{
+			key: "worstMaxRDrawdown",
+			label: t("metrics.worstDrawdownR"),
+			pick: (r) => r.statistics.worstMaxRDrawdown,
+			format: (v) => `${v.toFixed(2)}R`,
+			higherIsBetter: false,
+		},
+		{
+			key: "expectedMaxLossStreak",
+			label: t("metrics.maxLossesInRow"),
+			pick: (r) => r.statistics.expectedMaxLossStreak,
+			format: formatStreak,
+			higherIsBetter: false,
+		},
+		{
+			key: "profitFactor",
+			label: t("metrics.profitFactor"),
+			pick: (r) => r.statistics.profitFactor,
+			format: formatRatio,
+			higherIsBetter: true,
+		},
+	]
+
+	return rows.map(({ pick, ...row }) => ({
+		...row,
+		parametric: pick(parametric),
+		empirical: pick(empirical),
+	}))
+}
@@ -0,0 +1,2 @@
+export { PropChallengeContent } from "./prop-challenge-content"
+export { PropChallengeResults } from "./prop-challenge-results"
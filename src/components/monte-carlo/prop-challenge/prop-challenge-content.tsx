@@ -0,0 +1,565 @@
+"use client"
+
+import {
+	useState,
+	useCallback,
+	useEffect,
+	useMemo,
+	type ReactNode,
+} from "react"
+import { useTranslations } from "next-intl"
+import { Dices } from "lucide-react"
+import { LoadingSpinner } from "@/components/shared"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { DataSourceSelector } from "../data-source-selector"
+import { PropChallengeResults } from "./prop-challenge-results"
+import {
+	getSimulationStats,
+	runPropChallengeSimulation,
+} from "@/app/actions/monte-carlo"
+import { getPropRuleSet } from "@/app/actions/prop-rules"
+import { fromCents, toCents } from "@/lib/money"
+import { formatRatio } from "@/lib/formatting"
+import {
+	buildChallengeProfile,
+	estimatePropChallengeIterations,
+} from "@/lib/prop-challenge"
+import { MAX_PROP_CHALLENGE_PROFILES } from "@/lib/validations/monte-carlo"
+import { cn } from "@/lib/utils"
+import type { RiskManagementProfile } from "@/types/risk-profile"
+import type { PropDrawdownType, PropRuleSet } from "@/types/prop-evaluation"
+import type {
+	DataSource,
+	DataSourceOption,
+	PropChallengeComparison,
+	SourceStats,
+} from "@/types/monte-carlo"
+
+interface PropChallengeContentProps {
+	profiles: RiskManagementProfile[]
+	dataSourceOptions: DataSourceOption[]
+	budgetCap: number
+}
+
+interface ChallengeRulesForm {
+	startingBalance: string
+	profitTarget: string
+	drawdownType: PropDrawdownType
+	maxDrawdown: string
+	lockDrawdownAtStart: boolean
+	dailyLossLimit: string
+	minTradingDays: string
+	maxCalendarDays: string
+	consistencyPercent: string
+}
+
+const DRAWDOWN_TYPES: PropDrawdownType[] = [
+	"trailing",
+	"eod_trailing",
+	"static",
+]
+
+const DEFAULT_RULES_FORM: ChallengeRulesForm = {
+	startingBalance: "50000",
+	profitTarget: "3000",
+	drawdownType: "trailing",
+	maxDrawdown: "2500",
+	lockDrawdownAtStart: true,
+	dailyLossLimit: "",
+	minTradingDays: "",
+	maxCalendarDays: "30",
+	consistencyPercent: "",
+}
+
+/** Prefills the challenge with the account's own prop rules, when it has a target */
+const toRulesForm = (ruleSet: PropRuleSet): ChallengeRulesForm => ({
+	...DEFAULT_RULES_FORM,
+	startingBalance: fromCents(ruleSet.startingBalanceCents).toString(),
+	profitTarget:
+		ruleSet.profitTargetCents !== null
+			? fromCents(ruleSet.profitTargetCents).toString()
+			: DEFAULT_RULES_FORM.profitTarget,
+	drawdownType: ruleSet.drawdownType,
+	maxDrawdown: fromCents(ruleSet.maxDrawdownCents).toString(),
+	lockDrawdownAtStart: ruleSet.lockDrawdownAtStart,
+	dailyLossLimit:
+		ruleSet.dailyLossLimitCents !== null
+			? fromCents(ruleSet.dailyLossLimitCents).toString()
+			: "",
+	minTradingDays: ruleSet.minTradingDays?.toString() ?? "",
+	consistencyPercent: ruleSet.consistencyPercent?.toString() ?? "",
+})
+
+const parseOptionalCents = (value: string): number | null =>
+	value.trim() === "" ? null : toCents(parseFloat(value))
+
+const parseOptionalNumber = (value: string): number | null =>
+	value.trim() === "" ? null : Number(value)
+
+interface FieldProps {
+	label: string
+	help?: string
+	children: ReactNode
+}
+
+const Field = ({ label, help, children }: FieldProps) => (
+	<div>
+		<label className="mb-s-200 text-small text-txt-200 block">{label}</label>
+		{children}
+		{help && <p className="mt-s-100 text-tiny text-txt-300">{help}</p>}
+	</div>
+)
+
+/**
+ * Prop challenge pass-probability simulator: the trader's stats from a data
+ * source, played through each selected risk profile against the challenge rules.
+ */
+const PropChallengeContent = ({
+	profiles,
+	dataSourceOptions,
+	budgetCap,
+}: PropChallengeContentProps) => {
+	const t = useTranslations("monteCarlo.propChallenge")
+	const tMC = useTranslations("monteCarlo")
+	const tDrawdown = useTranslations(
+		"commandCenter.propEvaluation.drawdownTypes"
+	)
+
+	const [selectedSource, setSelectedSource] = useState<DataSource | null>(null)
+	const [sourceStats, setSourceStats] = useState<SourceStats | null>(null)
+	const [isLoadingStats, setIsLoadingStats] = useState(false)
+	const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([])
+	const [form, setForm] = useState<ChallengeRulesForm>(DEFAULT_RULES_FORM)
+	const [simulationCount, setSimulationCount] = useState("1000")
+
+	const [result, setResult] = useState<PropChallengeComparison | null>(null)
+	const [isRunning, setIsRunning] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		const loadRuleSet = async () => {
+			const response = await getPropRuleSet()
+			if (response.status === "success" && response.data) {
+				setForm(toRulesForm(response.data))
+			}
+		}
+		loadRuleSet()
+	}, [])
+
+	const loadSourceStats = useCallback(async (source: DataSource) => {
+		setIsLoadingStats(true)
+		try {
+			const response = await getSimulationStats(source)
+			setSourceStats(
+				response.status === "success" && response.data ? response.data : null
+			)
+		} catch (error) {
+			console.error("Failed to load source stats:", error)
+			setSourceStats(null)
+		} finally {
+			setIsLoadingStats(false)
+		}
+	}, [])
+
+	useEffect(() => {
+		if (selectedSource) {
+			loadSourceStats(selectedSource)
+		}
+	}, [selectedSource, loadSourceStats])
+
+	const updateField = <K extends keyof ChallengeRulesForm>(
+		field: K,
+		value: ChallengeRulesForm[K]
+	) => {
+		setForm((prev) => ({ ...prev, [field]: value }))
+	}
+
+	const toggleProfile = (profileId: string, checked: boolean) => {
+		setSelectedProfileIds((prev) =>
+			checked ? [...prev, profileId] : prev.filter((id) => id !== profileId)
+		)
+	}
+
+	const budgetInfo = useMemo(() => {
+		// Profiles as the action will simulate them, once the source's stats are in
+		const simProfiles = sourceStats
+			? profiles
+					.filter((profile) => selectedProfileIds.includes(profile.id))
+					.map((profile) => buildChallengeProfile(profile, sourceStats))
+			: []
+		const totalIterations = estimatePropChallengeIterations({
+			profiles: simProfiles,
+			simulationCount: parseInt(simulationCount, 10) || 0,
+			rules: { maxCalendarDays: parseInt(form.maxCalendarDays, 10) || 0 },
+		})
+		return {
+			totalIterations,
+			isOverBudget: totalIterations > budgetCap,
+		}
+	}, [
+		profiles,
+		selectedProfileIds,
+		sourceStats,
+		simulationCount,
+		form.maxCalendarDays,
+		budgetCap,
+	])
+
+	const isValid =
+		!!selectedSource &&
+		!!sourceStats &&
+		selectedProfileIds.length > 0 &&
+		parseFloat(form.startingBalance) > 0 &&
+		parseFloat(form.profitTarget) > 0 &&
+		parseFloat(form.maxDrawdown) > 0 &&
+		parseInt(form.maxCalendarDays, 10) > 0 &&
+		parseInt(simulationCount, 10) > 0 &&
+		!budgetInfo.isOverBudget
+
+	const handleRunSimulation = async () => {
+		if (!selectedSource) return
+
+		setIsRunning(true)
+		setError(null)
+		try {
+			const response = await runPropChallengeSimulation({
+				source: selectedSource,
+				profileIds: selectedProfileIds,
+				rules: {
+					startingBalanceCents: toCents(parseFloat(form.startingBalance)),
+					profitTargetCents: toCents(parseFloat(form.profitTarget)),
+					drawdownType: form.drawdownType,
+					maxDrawdownCents: toCents(parseFloat(form.maxDrawdown)),
+					lockDrawdownAtStart: form.lockDrawdownAtStart,
+					dailyLossLimitCents: parseOptionalCents(form.dailyLossLimit),
+					minTradingDays: parseOptionalNumber(form.minTradingDays),
+					maxCalendarDays: parseInt(form.maxCalendarDays, 10),
+					consistencyPercent: parseOptionalNumber(form.consistencyPercent),
+				},
+				simulationCount: parseInt(simulationCount, 10),
+			})
+			if (response.status === "success" && response.data) {
+				setResult(response.data)
+			} else {
+				setError(response.errors?.[0]?.detail ?? response.message)
+			}
+		} catch {
+			setError(t("errors.simulationFailed"))
+		} finally {
+			setIsRunning(false)
+		}
+	}
+
+	const handleRunAgain = () => {
+		setResult(null)
+		setError(null)
+	}
+
+	return (
+		<div className="space-y-m-500">
+			{/* Header */}
+			<div>
+				<h2 className="text-h3 text-txt-100 font-bold">{t("title")}</h2>
+				<p className="mt-s-100 text-small text-txt-300">{t("subtitle")}</p>
+			</div>
+
+			{!result && (
+				<div className="space-y-m-400">
+					{/* Data source — the trader's edge for every attempt */}
+					<div className="gap-m-400 grid lg:grid-cols-2">
+						<DataSourceSelector
+							options={dataSourceOptions}
+							selectedSource={selectedSource}
+							onSourceChange={setSelectedSource}
+							isLoading={isLoadingStats}
+						/>
+						<div className="border-bg-300 bg-bg-200 p-m-500 rounded-lg border">
+							<h3 className="mb-m-400 text-body text-txt-100 font-semibold">
+								{t("stats.title")}
+							</h3>
+							{isLoadingStats ? (
+								<LoadingSpinner size="sm" />
+							) : sourceStats ? (
+								<div className="gap-s-300 text-small grid grid-cols-2">
+									<span className="text-txt-300">{t("stats.winRate")}</span>
+									<span className="text-txt-100 text-right font-medium">
+										{sourceStats.winRate.toFixed(1)}%
+									</span>
+									<span className="text-txt-300">
+										{t("stats.profitFactor")}
+									</span>
+									<span className="text-txt-100 text-right font-medium">
+										{formatRatio(sourceStats.profitFactor)}
+									</span>
+									<span className="text-txt-300">{t("stats.trades")}</span>
+									<span className="text-txt-100 text-right font-medium">
+										{sourceStats.totalTrades}
+									</span>
+								</div>
+							) : (
+								<p className="text-small text-txt-300">{t("stats.empty")}</p>
+							)}
+						</div>
+					</div>
+
+					{/* Risk profiles to compare */}
+					<div className="border-bg-300 bg-bg-200 p-m-500 rounded-lg border">
+						<h3 className="text-body text-txt-100 font-semibold">
+							{t("profiles.title")}
+						</h3>
+						<p className="mb-m-400 text-tiny text-txt-300">
+							{t("profiles.hint", { max: MAX_PROP_CHALLENGE_PROFILES })}
+						</p>
+						{profiles.length === 0 ? (
+							<p className="text-small text-txt-300">{t("profiles.empty")}</p>
+						) : (
+							<div className="gap-s-300 grid sm:grid-cols-2 lg:grid-cols-3">
+								{profiles.map((profile) => {
+									const isChecked = selectedProfileIds.includes(profile.id)
+									const isLocked =
+										!isChecked &&
+										selectedProfileIds.length >= MAX_PROP_CHALLENGE_PROFILES
+									return (
+										<div
+											key={profile.id}
+											className={cn(
+												"flex items-center gap-2",
+												isLocked && "opacity-50"
+											)}
+										>
+											<Checkbox
+												id={`prop-challenge-profile-${profile.id}`}
+												checked={isChecked}
+												onCheckedChange={(value) =>
+													toggleProfile(profile.id, value === true)
+												}
+												disabled={isLocked || isRunning}
+											/>
+											<label
+												htmlFor={`prop-challenge-profile-${profile.id}`}
+												className="text-small text-txt-200"
+											>
+												{profile.name}
+											</label>
+										</div>
+									)
+								})}
+							</div>
+						)}
+					</div>
+
+					{/* Challenge rules */}
+					<div className="border-bg-300 bg-bg-200 p-m-500 rounded-lg border">
+						<h3 className="mb-m-400 text-body text-txt-100 font-semibold">
+							{t("rules.title")}
+						</h3>
+						<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+							<Field label={t("rules.startingBalance")}>
+								<Input
+									id="prop-challenge-starting-balance"
+									type="number"
+									step="0.01"
+									min="0"
+									value={form.startingBalance}
+									onChange={(e) =>
+										updateField("startingBalance", e.target.value)
+									}
+								/>
+							</Field>
+							<Field label={t("rules.profitTarget")}>
+								<Input
+									id="prop-challenge-profit-target"
+									type="number"
+									step="0.01"
+									min="0"
+									value={form.profitTarget}
+									onChange={(e) => updateField("profitTarget", e.target.value)}
+								/>
+							</Field>
+							<Field label={t("rules.maxDrawdown")}>
+								<Input
+									id="prop-challenge-max-drawdown"
+									type="number"
+									step="0.01"
+									min="0"
+									value={form.maxDrawdown}
+									onChange={(e) => updateField("maxDrawdown", e.target.value)}
+								/>
+							</Field>
+							<Field label={t("rules.drawdownType")}>
+								<Select
+									value={form.drawdownType}
+									onValueChange={(value: PropDrawdownType) =>
+										updateField("drawdownType", value)
+									}
+								>
+									<SelectTrigger id="prop-challenge-drawdown-type">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{DRAWDOWN_TYPES.map((type) => (
+											<SelectItem key={type} value={type}>
+												{tDrawdown(type)}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</Field>
+							<Field
+								label={t("rules.dailyLossLimit")}
+								help={t("rules.optional")}
+							>
+								<Input
+									id="prop-challenge-daily-loss-limit"
+									type="number"
+									step="0.01"
+									min="0"
+									value={form.dailyLossLimit}
+									onChange={(e) =>
+										updateField("dailyLossLimit", e.target.value)
+									}
+								/>
+							</Field>
+							<Field
+								label={t("rules.minTradingDays")}
+								help={t("rules.optional")}
+							>
+								<Input
+									id="prop-challenge-min-trading-days"
+									type="number"
+									step="1"
+									min="1"
+									value={form.minTradingDays}
+									onChange={(e) =>
+										updateField("minTradingDays", e.target.value)
+									}
+								/>
+							</Field>
+							<Field label={t("rules.maxCalendarDays")}>
+								<Input
+									id="prop-challenge-max-calendar-days"
+									type="number"
+									step="1"
+									min="1"
+									max="365"
+									value={form.maxCalendarDays}
+									onChange={(e) =>
+										updateField("maxCalendarDays", e.target.value)
+									}
+								/>
+							</Field>
+							<Field
+								label={t("rules.consistencyPercent")}
+								help={t("rules.consistencyPercentHelp")}
+							>
+								<div className="relative">
+									<Input
+										id="prop-challenge-consistency-percent"
+										type="number"
+										step="1"
+										min="1"
+										max="100"
+										value={form.consistencyPercent}
+										onChange={(e) =>
+											updateField("consistencyPercent", e.target.value)
+										}
+										className="pr-8"
+									/>
+									<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+										%
+									</span>
+								</div>
+							</Field>
+							<Field label={t("rules.simulations")}>
+								<Input
+									id="prop-challenge-simulation-count"
+									type="number"
+									step="100"
+									min="100"
+									max="10000"
+									value={simulationCount}
+									onChange={(e) => setSimulationCount(e.target.value)}
+								/>
+							</Field>
+						</div>
+						{form.drawdownType !== "static" && (
+							<div className="mt-m-400 flex items-center gap-2">
+								<Switch
+									id="prop-challenge-lock-drawdown"
+									checked={form.lockDrawdownAtStart}
+									onCheckedChange={(checked) =>
+										updateField("lockDrawdownAtStart", checked)
+									}
+								/>
+								<label
+									htmlFor="prop-challenge-lock-drawdown"
+									className="text-small text-txt-200"
+								>
+									{t("rules.lockDrawdownAtStart")}
+								</label>
+							</div>
+						)}
+
+						{/* Budget Indicator */}
+						<p
+							className={cn(
+								"mt-m-400 text-small",
+								budgetInfo.isOverBudget
+									? "text-fb-error font-semibold"
+									: "text-txt-300"
+							)}
+						>
+							{t("rules.totalIterations", {
+								total: budgetInfo.totalIterations.toLocaleString(),
+								cap: budgetCap.toLocaleString(),
+							})}
+						</p>
+					</div>
+
+					{/* Error Message */}
+					{error && (
+						<div className="border-fb-error/30 bg-fb-error/10 p-m-400 text-small text-fb-error rounded-lg border">
+							{error}
+						</div>
+					)}
+
+					{/* Run Button */}
+					<div className="flex justify-center">
+						<Button
+							id="prop-challenge-run-simulation"
+							size="lg"
+							onClick={handleRunSimulation}
+							disabled={isRunning || !isValid}
+							className="w-full sm:w-auto sm:min-w-[200px]"
+						>
+							{isRunning ? (
+								<LoadingSpinner size="sm" label={tMC("runningSimulation")} />
+							) : (
+								<>
+									<Dices className="mr-s-200 h-5 w-5" />
+									{t("run")}
+								</>
+							)}
+						</Button>
+					</div>
+				</div>
+			)}
+
+			{result && (
+				<PropChallengeResults comparison={result} onRunAgain={handleRunAgain} />
+			)}
+		</div>
+	)
+}
+
+export { PropChallengeContent }
@@ -0,0 +1,194 @@
+"use client"
+
+import { useTranslations } from "next-intl"
+import { RotateCcw, Trophy } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatCompactCurrency } from "@/lib/formatting"
+import type {
+	PropChallengeComparison,
+	PropChallengeFailReason,
+	PropChallengeProfileResult,
+} from "@/types/monte-carlo"
+
+interface PropChallengeResultsProps {
+	comparison: PropChallengeComparison
+	onRunAgain: () => void
+}
+
+const FAIL_REASONS: PropChallengeFailReason[] = [
+	"max_drawdown",
+	"daily_loss",
+	"expired",
+]
+
+const FAIL_REASON_COLORS: Record<PropChallengeFailReason, string> = {
+	max_drawdown: "bg-trade-sell",
+	daily_loss: "bg-warning",
+	expired: "bg-txt-300",
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`
+
+interface ProfileRowProps {
+	profileResult: PropChallengeProfileResult
+	isBest: boolean
+}
+
+const ProfileRow = ({ profileResult, isBest }: ProfileRowProps) => {
+	const t = useTranslations("monteCarlo.propChallenge.results")
+	const { statistics } = profileResult.result
+	const formatDays = (days: number | null) =>
+		days === null ? "—" : t("days", { count: Math.round(days) })
+
+	return (
+		<div className="border-bg-300 bg-bg-100 p-m-400 rounded-lg border">
+			<div className="mb-s-300 gap-s-200 flex items-center justify-between">
+				<div className="gap-s-200 flex items-center">
+					<span className="text-body text-txt-100 font-semibold">
+						{profileResult.profileName}
+					</span>
+					{isBest && (
+						<Badge
+							id={`prop-challenge-best-${profileResult.profileId}`}
+							variant="outline"
+							className="border-trade-buy/40 text-trade-buy"
+						>
+							<Trophy />
+							{t("best")}
+						</Badge>
+					)}
+				</div>
+				<span className="text-h3 text-trade-buy font-bold">
+					{formatPercent(statistics.passPercent)}
+				</span>
+			</div>
+
+			{/* Outcome split: pass, then each way to fail */}
+			<div className="bg-bg-300 mb-s-300 flex h-3 w-full overflow-hidden rounded-full">
+				<div
+					className="bg-trade-buy h-full"
+					style={{ width: `${statistics.passPercent}%` }}
+				/>
+				{FAIL_REASONS.map((reason) => (
+					<div
+						key={reason}
+						className={`${FAIL_REASON_COLORS[reason]} h-full`}
+						style={{ width: `${statistics.failPercent[reason]}%` }}
+					/>
+				))}
+			</div>
+
+			<div className="gap-s-300 text-tiny grid grid-cols-2 sm:grid-cols-4">
+				{FAIL_REASONS.map((reason) => (
+					<div key={reason}>
+						<p className="text-txt-300">{t(`failReasons.${reason}`)}</p>
+						<p className="text-small text-txt-100 font-medium">
+							{formatPercent(statistics.failPercent[reason])}
+						</p>
+					</div>
+				))}
+				<div>
+					<p className="text-txt-300">{t("targetReachedNotPassed")}</p>
+					<p className="text-small text-txt-100 font-medium">
+						{formatPercent(statistics.targetReachedNotPassedPercent)}
+					</p>
+				</div>
+				<div>
+					<p className="text-txt-300">{t("meanCalendarDays")}</p>
+					<p className="text-small text-txt-100 font-medium">
+						{formatDays(statistics.meanCalendarDaysToPass)}
+					</p>
+				</div>
+				<div>
+					<p className="text-txt-300">{t("medianCalendarDays")}</p>
+					<p className="text-small text-txt-100 font-medium">
+						{formatDays(statistics.medianCalendarDaysToPass)}
+					</p>
+				</div>
+				<div>
+					<p className="text-txt-300">{t("meanTradingDays")}</p>
+					<p className="text-small text-txt-100 font-medium">
+						{formatDays(statistics.meanTradingDaysToPass)}
+					</p>
+				</div>
+			</div>
+		</div>
+	)
+}
+
+/**
+ * Pass probability of the challenge under each risk profile, best first,
+ * with how the other attempts failed and how long passing took.
+ */
+export const PropChallengeResults = ({
+	comparison,
+	onRunAgain,
+}: PropChallengeResultsProps) => {
+	const t = useTranslations("monteCarlo.propChallenge.results")
+	const [first] = comparison.profiles
+	const { rules, profile, seed } = first.result.params
+	const bestPassPercent = first.result.statistics.passPercent
+
+	return (
+		<div className="space-y-m-500">
+			{/* Challenge and the edge every attempt was played with */}
+			<div className="border-bg-300 bg-bg-200 p-m-500 gap-m-400 flex flex-col rounded-lg border sm:flex-row sm:items-center sm:justify-between">
+				<div>
+					<h3 className="text-body text-txt-100 font-semibold">
+						{t("title", {
+							target: formatCompactCurrency(
+								rules.profitTargetCents / 100,
+								"R$"
+							),
+							account: formatCompactCurrency(
+								rules.startingBalanceCents / 100,
+								"R$"
+							),
+							days: rules.maxCalendarDays,
+						})}
+					</h3>
+					<p className="text-tiny text-txt-300">
+						{t("statsUsed", {
+							source: comparison.stats.sourceName,
+							winRate: profile.winRate.toFixed(1),
+							rewardRisk: profile.rewardRiskRatio.toFixed(2),
+							breakeven: profile.breakevenRate.toFixed(1),
+							trades: comparison.stats.totalTrades,
+						})}
+					</p>
+					<p className="text-tiny text-txt-300">
+						{t("seed", {
+							seed,
+							count: first.result.params.simulationCount,
+						})}
+					</p>
+				</div>
+				<Button
+					id="prop-challenge-run-again"
+					variant="outline"
+					size="sm"
+					onClick={onRunAgain}
+				>
+					<RotateCcw className="mr-s-200 h-4 w-4" />
+					{t("runAgain")}
+				</Button>
+			</div>
+
+			<div className="space-y-m-400">
+				{comparison.profiles.map((profileResult) => (
+					<ProfileRow
+						key={profileResult.profileId}
+						profileResult={profileResult}
+						isBest={
+							comparison.profiles.length > 1 &&
+							profileResult.result.statistics.passPercent === bestPassPercent
+						}
+					/>
+				))}
+			</div>
+
+			<p className="text-tiny text-txt-300">{t("disclaimer")}</p>
+		</div>
+	)
+}
@@ -11,6 +11,8 @@ interface SimulationParamsFormProps {
 	onChange: (params: SimulationParams) => void
 	disabled?: boolean
 	budgetCap: number
+	/** Empirical mode: win rate and R:R come from the source's trades */
+	edgeFromSource?: boolean
 }
 
 export const SimulationParamsForm = ({
@@ -18,6 +20,7 @@ export const SimulationParamsForm = ({
 	onChange,
 	disabled = false,
 	budgetCap,
+	edgeFromSource = false,
 }: SimulationParamsFormProps) => {
 	const t = useTranslations("monteCarlo.params")
 
@@ -43,58 +46,62 @@ export const SimulationParamsForm = ({
 
 			<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3">
 				{/* Win Rate */}
-				<div>
-					<Label
-						id="label-simulation-win-rate"
-						className="mb-s-200 text-small text-txt-200 block"
-						required
-						filled={!!params.winRate}
-					>
-						{t("winRate")}
-					</Label>
-					<div className="relative">
+				{!edgeFromSource && (
+					<div>
+						<Label
+							id="label-simulation-win-rate"
+							className="mb-s-200 text-small text-txt-200 block"
+							required
+							filled={!!params.winRate}
+						>
+							{t("winRate")}
+						</Label>
+						<div className="relative">
+							<Input
+								id="simulation-win-rate"
+								type="number"
+								step="1"
+								min={1}
+								max={99}
+								value={params.winRate}
+								onChange={(e) =>
+									handleChange("winRate", parseFloat(e.target.value) || 0)
+								}
+								className="pr-7"
+								disabled={disabled}
+							/>
+							<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+								%
+							</span>
+						</div>
+					</div>
+				)}
+
+				{/* Reward/Risk Ratio */}
+				{!edgeFromSource && (
+					<div>
+						<Label
+							id="label-simulation-reward-risk-ratio"
+							className="mb-s-200 text-small text-txt-200 block"
+							required
+							filled={!!params.rewardRiskRatio}
+						>
+							{t("rewardRiskRatio")}
+						</Label>
 						<Input
-							id="simulation-win-rate"
+							id="simulation-reward-risk-ratio"
 							type="number"
-							step="1"
-							min={1}
-							max={99}
-							value={params.winRate}
+							step="0.1"
+							min={0.1}
+							max={20}
+							value={params.rewardRiskRatio}
 							onChange={(e) =>
-								handleChange("winRate", parseFloat(e.target.value) || 0)
+								handleChange("rewardRiskRatio", parseFloat(e.target.value) || 0)
 							}
-							className="pr-7"
 							disabled={disabled}
 						/>
-						<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
-							%
-						</span>
 					</div>
-				</div>
-
-				{/* Reward/Risk Ratio */}
-				<div>
-					<Label
-						id="label-simulation-reward-risk-ratio"
-						className="mb-s-200 text-small text-txt-200 block"
-						required
-						filled={!!params.rewardRiskRatio}
-					>
-						{t("rewardRiskRatio")}
-					</Label>
-					<Input
-						id="simulation-reward-risk-ratio"
-						type="number"
-						step="0.1"
-						min={0.1}
-						max={20}
-						value={params.rewardRiskRatio}
-						onChange={(e) =>
-							handleChange("rewardRiskRatio", parseFloat(e.target.value) || 0)
-						}
-						disabled={disabled}
-					/>
-				</div>
+				)}
 
 				{/* Number of Trades */}
 				<div>
@@ -178,6 +185,10 @@ export const SimulationParamsForm = ({
 				</div>
 			</div>
 
+			{edgeFromSource && (
+				<p className="mt-s-300 text-tiny text-txt-300">{t("edgeFromSource")}</p>
+			)}
+
 			{/* Budget Indicator */}
 			<div className="mt-m-400 text-small flex items-center justify-between">
 				<span className="text-txt-300">
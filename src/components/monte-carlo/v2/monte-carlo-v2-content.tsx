@@ -2,48 +2,70 @@
 
 import { useState, useCallback, useEffect, useMemo } from "react"
 import { useTranslations } from "next-intl"
-import { useLoadingOverlay } from "@/components/ui/loading-overlay"
 import { Dices } from "lucide-react"
 import { LoadingSpinner } from "@/components/shared"
 import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/toast"
 import { Input } from "@/components/ui/input"
 import { InputModeSelector } from "../input-mode-selector"
 import { DataSourceSelector } from "../data-source-selector"
 import { StatsPreview } from "../stats-preview"
+import { BootstrapSettings } from "../bootstrap-settings"
+import {
+	EmpiricalComparison,
+	type ComparisonRow,
+} from "../empirical-comparison"
 import { RiskProfileSelector } from "./risk-profile-selector"
 import { V2ResultsSummary } from "./v2-results-summary"
 import { V2MetricsCards } from "./v2-metrics-cards"
 import { DailyPnlChart } from "./daily-pnl-chart"
 import { ModeDistributionChart } from "./mode-distribution-chart"
 import { V2DistributionHistogram } from "./v2-distribution-histogram"
-import { getSimulationStats, runSimulationV2 } from "@/app/actions/monte-carlo"
+import { V2EquityFanChart } from "./v2-equity-fan-chart"
+import { V2PathStatistics } from "./v2-path-statistics"
+import { V2JobProgress } from "./v2-job-progress"
+import { getSimulationStats } from "@/app/actions/monte-carlo"
+import { useMonteCarloV2Job } from "@/hooks/use-monte-carlo-v2-job"
 import { buildProfileForSim } from "@/lib/risk-profile"
-import { toCents } from "@/lib/money"
+import { fromCents, toCents } from "@/lib/money"
+import { formatCompactCurrency, formatRatio } from "@/lib/formatting"
+import { defaultBootstrapConfig } from "@/lib/validations/monte-carlo"
 import { cn } from "@/lib/utils"
 import type { RiskManagementProfile } from "@/types/risk-profile"
 import type {
+	BootstrapConfig,
 	DataSource,
 	DataSourceOption,
+	EmpiricalComparison as EmpiricalComparisonResult,
+	InputMode,
 	MonteCarloResultV2,
 	RiskManagementProfileForSim,
 	SourceStats,
 } from "@/types/monte-carlo"
+import type { ReopenedSimulationRun } from "@/types/simulation-run"
 
 interface MonteCarloV2ContentProps {
 	profiles: RiskManagementProfile[]
 	dataSourceOptions: DataSourceOption[]
 	budgetCap: number
+	/** A saved run replayed from the history list; its inputs fill the form */
+	reopenedRun?: Extract<
+		ReopenedSimulationRun,
+		{ kind: "monte_carlo_v2" }
+	> | null
+	onRunRecorded?: () => void
 }
 
 const MonteCarloV2Content = ({
 	profiles,
 	dataSourceOptions,
 	budgetCap,
+	reopenedRun = null,
+	onRunRecorded,
 }: MonteCarloV2ContentProps) => {
 	const t = useTranslations("monteCarlo.v2")
 	const tMC = useTranslations("monteCarlo")
-	const tOverlay = useTranslations("overlay")
-	const { showLoading, hideLoading } = useLoadingOverlay()
+	const { showToast } = useToast()
 
 	// Profile selection state
 	const [selectedProfileId, setSelectedProfileId] = useState("")
@@ -58,9 +80,14 @@ const MonteCarloV2Content = ({
 	const [tradingDaysPerWeek, setTradingDaysPerWeek] = useState("5")
 	const [commissionPerTrade, setCommissionPerTrade] = useState("0")
 	const [ruinThreshold, setRuinThreshold] = useState("50")
+	const [profitTarget, setProfitTarget] = useState("10")
+	const [drawdownFloor, setDrawdownFloor] = useState("10")
 
 	// Data source state (auto-populate from strategy)
-	const [inputMode, setInputMode] = useState<"auto" | "manual">("auto")
+	const [inputMode, setInputMode] = useState<InputMode>("auto")
+	const [bootstrapConfig, setBootstrapConfig] = useState<BootstrapConfig>(
+		defaultBootstrapConfig
+	)
 	const [selectedSource, setSelectedSource] = useState<DataSource | null>(null)
 	const [sourceStats, setSourceStats] = useState<SourceStats | null>(null)
 	const [isLoadingStats, setIsLoadingStats] = useState(false)
@@ -82,7 +109,7 @@ const MonteCarloV2Content = ({
 	}, [])
 
 	useEffect(() => {
-		if (selectedSource && inputMode === "auto") {
+		if (selectedSource && inputMode !== "manual") {
 			loadSourceStats(selectedSource)
 		}
 	}, [selectedSource, inputMode, loadSourceStats])
@@ -137,16 +164,26 @@ const MonteCarloV2Content = ({
 		const days = parseInt(tradingDaysPerMonth, 10) || 22
 		const months = parseInt(monthsToTrade, 10) || 1
 		const sims = parseInt(simulationCount, 10) || 0
-		const totalIterations = maxTradesPerDay * days * months * sims
+		// Empirical runs are compared against a parametric run of the same inputs
+		const simulations = inputMode === "empirical" ? 2 : 1
+		const totalIterations = maxTradesPerDay * days * months * sims * simulations
 		const budgetUsage = totalIterations / budgetCap
 		const isOverBudget = totalIterations > budgetCap
 		return { totalIterations, budgetUsage, isOverBudget }
-	}, [tradingDaysPerMonth, monthsToTrade, simulationCount, budgetCap])
+	}, [tradingDaysPerMonth, monthsToTrade, simulationCount, inputMode, budgetCap])
 
 	// Results state
 	const [result, setResult] = useState<MonteCarloResultV2 | null>(null)
+	const [comparison, setComparison] =
+		useState<EmpiricalComparisonResult<MonteCarloResultV2> | null>(null)
 	const [isRunning, setIsRunning] = useState(false)
+	const [isCancelling, setIsCancelling] = useState(false)
 	const [error, setError] = useState<string | null>(null)
+	const {
+		progress: jobProgress,
+		run: runJob,
+		cancel: cancelJob,
+	} = useMonteCarloV2Job()
 
 	const selectedProfile = profiles.find((p) => p.id === selectedProfileId)
 
@@ -178,37 +215,66 @@ const MonteCarloV2Content = ({
 
 	const handleRunSimulation = useCallback(async () => {
 		if (!simProfile) return
+		if (inputMode === "empirical" && !selectedSource) {
+			setError(tMC("errors.selectDataSource"))
+			return
+		}
 
 		setIsRunning(true)
 		setError(null)
 		setResult(null)
-		showLoading({ message: tOverlay("runningSimulation") })
+		setComparison(null)
 
 		try {
 			const balance = Math.round(parseFloat(initialBalance) * 100) // to cents
 			const simCount = parseInt(simulationCount, 10) || 5000
 			const months = parseInt(monthsToTrade, 10) || 1
-
-			const response = await runSimulationV2({
+			const simParams = {
 				profile: simProfile,
 				simulationCount: simCount,
 				initialBalance: balance,
 				monthsToTrade: months,
 				ruinThresholdPercent: parseInt(ruinThreshold, 10) || 50,
-			})
+				profitTargetPercent: parseFloat(profitTarget) || 10,
+				drawdownFloorPercent: parseFloat(drawdownFloor) || 10,
+			}
 
-			if (response.status === "success" && response.data) {
-				setResult(response.data)
-			} else {
-				const errorDetails = response.errors?.map((e) => e.detail).join(", ")
-				setError(errorDetails || response.message)
+			const outcome = await runJob(
+				inputMode === "empirical" && selectedSource
+					? {
+							mode: "empirical",
+							params: simParams,
+							source: selectedSource,
+							bootstrap: bootstrapConfig,
+						}
+					: {
+							mode: "parametric",
+							params: simParams,
+							source: inputMode === "auto" ? selectedSource : null,
+						}
+			)
+			switch (outcome.type) {
+				case "completed":
+					setComparison(outcome.result.comparison)
+					setResult(outcome.result.result)
+					if (outcome.recorded) onRunRecorded?.()
+					else showToast("warning", t("job.notRecorded"))
+					break
+				case "failed":
+					setError(t("job.failed"))
+					break
+				case "rejected":
+					setError(outcome.message)
+					break
+				case "cancelled":
+					break
 			}
 		} catch (error) {
 			console.error("V2 simulation error:", error)
 			setError(tMC("errors.failedToRunSimulation"))
 		} finally {
-			hideLoading()
 			setIsRunning(false)
+			setIsCancelling(false)
 		}
 	}, [
 		simProfile,
@@ -216,14 +282,61 @@ const MonteCarloV2Content = ({
 		simulationCount,
 		monthsToTrade,
 		ruinThreshold,
-		showLoading,
-		hideLoading,
-		tOverlay,
+		profitTarget,
+		drawdownFloor,
+		inputMode,
+		selectedSource,
+		bootstrapConfig,
+		runJob,
+		t,
 		tMC,
+		showToast,
+		onRunRecorded,
 	])
 
+	const handleCancelSimulation = useCallback(() => {
+		setIsCancelling(true)
+		cancelJob()
+	}, [cancelJob])
+
+	// Show a re-opened run and restore the form it was run from. The profile
+	// is matched by name since the run stores a snapshot, not the profile id.
+	useEffect(() => {
+		if (!reopenedRun) return
+		const { inputs } = reopenedRun.run
+		if (inputs.kind !== "monte_carlo_v2") return
+
+		const { params } = inputs
+		const { profile } = params
+		const matchingProfile = profiles.find((p) => p.name === profile.name)
+		if (matchingProfile) setSelectedProfileId(matchingProfile.id)
+
+		setInputMode(
+			inputs.empirical ? "empirical" : inputs.source ? "auto" : "manual"
+		)
+		setSelectedSource(inputs.source)
+		setBootstrapConfig(inputs.empirical?.bootstrap ?? defaultBootstrapConfig)
+		setWinRate(profile.winRate.toString())
+		setProfitFactor("")
+		setRewardRiskRatio(profile.rewardRiskRatio.toFixed(2))
+		setBreakevenRate(profile.breakevenRate.toString())
+		setCommissionPerTrade(fromCents(profile.commissionPerTradeCents).toString())
+		setTradingDaysPerMonth(profile.tradingDaysPerMonth.toString())
+		setTradingDaysPerWeek(profile.tradingDaysPerWeek.toString())
+		setSimulationCount(params.simulationCount.toString())
+		setInitialBalance(fromCents(params.initialBalance).toString())
+		setMonthsToTrade(params.monthsToTrade.toString())
+		setRuinThreshold(params.ruinThresholdPercent.toString())
+		setProfitTarget(params.profitTargetPercent.toString())
+		setDrawdownFloor(params.drawdownFloorPercent.toString())
+		setResult(reopenedRun.result)
+		setComparison(reopenedRun.comparison)
+		setError(null)
+	}, [reopenedRun, profiles])
+
 	const handleRunAgain = () => {
 		setResult(null)
+		setComparison(null)
 	}
 
 	const isValid =
@@ -267,6 +380,22 @@ const MonteCarloV2Content = ({
 						</div>
 					)}
 
+					{inputMode === "empirical" && (
+						<div className="gap-m-400 grid lg:grid-cols-2">
+							<DataSourceSelector
+								options={dataSourceOptions}
+								selectedSource={selectedSource}
+								onSourceChange={setSelectedSource}
+								isLoading={isLoadingStats}
+							/>
+							<BootstrapSettings
+								config={bootstrapConfig}
+								onChange={setBootstrapConfig}
+								disabled={isRunning}
+							/>
+						</div>
+					)}
+
 					{/* Profile Selector */}
 					<RiskProfileSelector
 						profiles={profiles}
@@ -275,108 +404,114 @@ const MonteCarloV2Content = ({
 						simProfile={simProfile}
 					/>
 
-					{/* Parameters — Row 1: Core trade stats */}
-					<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
-						<div>
-							<label className="mb-s-200 text-small text-txt-200 block">
-								{t("params.winRate")}
-							</label>
-							<div className="relative">
-								<Input
-									id="v2-win-rate"
-									type="number"
-									step="0.1"
-									min="0"
-									max="100"
-									value={winRate}
-									onChange={(e) => setWinRate(e.target.value)}
-									placeholder="40.7"
-									className="pr-8"
-									aria-label={t("params.winRate")}
-								/>
-								<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
-									%
-								</span>
+					{/* Parameters — Row 1: Core trade stats (from the source's trades in empirical mode) */}
+					{inputMode === "empirical" ? (
+						<p className="text-tiny text-txt-300">
+							{t("params.edgeFromSource")}
+						</p>
+					) : (
+						<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
+							<div>
+								<label className="mb-s-200 text-small text-txt-200 block">
+									{t("params.winRate")}
+								</label>
+								<div className="relative">
+									<Input
+										id="v2-win-rate"
+										type="number"
+										step="0.1"
+										min="0"
+										max="100"
+										value={winRate}
+										onChange={(e) => setWinRate(e.target.value)}
+										placeholder="40.7"
+										className="pr-8"
+										aria-label={t("params.winRate")}
+									/>
+									<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+										%
+									</span>
+								</div>
 							</div>
-						</div>
-
-						<div>
-							<label className="mb-s-200 text-small text-txt-200 block">
-								{t("params.profitFactor")}
-							</label>
-							<Input
-								id="v2-profit-factor"
-								type="number"
-								step="0.01"
-								min="0"
-								value={profitFactor}
-								onChange={(e) => setProfitFactor(e.target.value)}
-								placeholder={t("params.profitFactorPlaceholder")}
-								aria-label={t("params.profitFactor")}
-							/>
-						</div>
 
-						<div>
-							<label className="mb-s-200 text-small text-txt-200 block">
-								{t("params.rewardRiskRatio")}
-								{derivedRR !== null && (
-									<span className="text-tiny text-acc-100 ml-s-200">
-										({t("params.derivedFromPF")})
-									</span>
-								)}
-							</label>
-							{derivedRR !== null ? (
+							<div>
+								<label className="mb-s-200 text-small text-txt-200 block">
+									{t("params.profitFactor")}
+								</label>
 								<Input
-									id="v2-reward-risk-ratio"
-									type="number"
-									value={derivedRR.toFixed(2)}
-									readOnly
-									disabled
-									className="opacity-70"
-									aria-label={t("params.rewardRiskRatio")}
-								/>
-							) : (
-								<Input
-									id="v2-reward-risk-ratio"
+									id="v2-profit-factor"
 									type="number"
 									step="0.01"
 									min="0"
-									value={rewardRiskRatio}
-									onChange={(e) => setRewardRiskRatio(e.target.value)}
-									placeholder="1.38"
-									aria-label={t("params.rewardRiskRatio")}
+									value={profitFactor}
+									onChange={(e) => setProfitFactor(e.target.value)}
+									placeholder={t("params.profitFactorPlaceholder")}
+									aria-label={t("params.profitFactor")}
 								/>
-							)}
-							{impliedPF !== null && !derivedRR && (
-								<p className="text-tiny text-txt-300 mt-s-100">
-									{t("params.impliedPF")}: {impliedPF.toFixed(2)}
-								</p>
-							)}
-						</div>
+							</div>
 
-						<div>
-							<label className="mb-s-200 text-small text-txt-200 block">
-								{t("params.breakevenRate")}
-							</label>
-							<div className="relative">
-								<Input
-									id="v2-breakeven-rate"
-									type="number"
-									step="0.1"
-									min="0"
-									max="80"
-									value={breakevenRate}
-									onChange={(e) => setBreakevenRate(e.target.value)}
-									placeholder="0"
-									className="pr-8"
-									aria-label={t("params.breakevenRate")}
-								/>
-								<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
-									%
-								</span>
+							<div>
+								<label className="mb-s-200 text-small text-txt-200 block">
+									{t("params.rewardRiskRatio")}
+									{derivedRR !== null && (
+										<span className="text-tiny text-acc-100 ml-s-200">
+											({t("params.derivedFromPF")})
+										</span>
+									)}
+								</label>
+								{derivedRR !== null ? (
+									<Input
+										id="v2-reward-risk-ratio"
+										type="number"
+										value={derivedRR.toFixed(2)}
+										readOnly
+										disabled
+										className="opacity-70"
+										aria-label={t("params.rewardRiskRatio")}
+									/>
+								) : (
+									<Input
+										id="v2-reward-risk-ratio"
+										type="number"
+										step="0.01"
+										min="0"
+										value={rewardRiskRatio}
+										onChange={(e) => setRewardRiskRatio(e.target.value)}
+										placeholder="1.38"
+										aria-label={t("params.rewardRiskRatio")}
+									/>
+								)}
+								{impliedPF !== null && !derivedRR && (
+									<p className="text-tiny text-txt-300 mt-s-100">
+										{t("params.impliedPF")}: {impliedPF.toFixed(2)}
+									</p>
+								)}
+							</div>
+
+							<div>
+								<label className="mb-s-200 text-small text-txt-200 block">
+									{t("params.breakevenRate")}
+								</label>
+								<div className="relative">
+									<Input
+										id="v2-breakeven-rate"
+										type="number"
+										step="0.1"
+										min="0"
+										max="80"
+										value={breakevenRate}
+										onChange={(e) => setBreakevenRate(e.target.value)}
+										placeholder="0"
+										className="pr-8"
+										aria-label={t("params.breakevenRate")}
+									/>
+									<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+										%
+									</span>
+								</div>
 							</div>
 						</div>
-					</div>
+					)}
 
 					{/* Parameters — Row 2: Simulation config */}
 					<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4">
@@ -505,6 +640,50 @@ const MonteCarloV2Content = ({
 								</span>
 							</div>
 						</div>
+						<div>
+							<label className="mb-s-200 text-small text-txt-200 block">
+								{t("params.profitTarget")}
+							</label>
+							<div className="relative">
+								<Input
+									id="v2-profit-target"
+									type="number"
+									step="1"
+									min="1"
+									max="1000"
+									value={profitTarget}
+									onChange={(e) => setProfitTarget(e.target.value)}
+									placeholder="10"
+									className="pr-8"
+									aria-label={t("params.profitTarget")}
+								/>
+								<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+									%
+								</span>
+							</div>
+						</div>
+						<div>
+							<label className="mb-s-200 text-small text-txt-200 block">
+								{t("params.drawdownFloor")}
+							</label>
+							<div className="relative">
+								<Input
+									id="v2-drawdown-floor"
+									type="number"
+									step="1"
+									min="1"
+									max="99"
+									value={drawdownFloor}
+									onChange={(e) => setDrawdownFloor(e.target.value)}
+									placeholder="10"
+									className="pr-8"
+									aria-label={t("params.drawdownFloor")}
+								/>
+								<span className="text-tiny text-txt-300 absolute top-1/2 right-3 -translate-y-1/2">
+									%
+								</span>
+							</div>
+						</div>
 					</div>
 
 					{/* Budget Indicator */}
@@ -539,6 +718,16 @@ const MonteCarloV2Content = ({
 						</div>
 					)}
 
+					{/* Progress of the running job, with partial statistics */}
+					{isRunning && (
+						<V2JobProgress
+							progress={jobProgress}
+							monthsToTrade={parseInt(monthsToTrade, 10) || 1}
+							isCancelling={isCancelling}
+							onCancel={handleCancelSimulation}
+						/>
+					)}
+
 					{/* Run Button */}
 					<div className="flex justify-center">
 						<Button
@@ -570,6 +759,14 @@ const MonteCarloV2Content = ({
 						onRunAgain={handleRunAgain}
 					/>
 
+					{/* Parametric vs. Empirical (charts below show the empirical run) */}
+					{comparison && (
+						<EmpiricalComparison
+							bootstrap={comparison.bootstrap}
+							rows={buildCapitalComparisonRows(comparison, t)}
+						/>
+					)}
+
 					{/* Charts Row */}
 					<div className="gap-m-500 grid lg:grid-cols-2">
 						<DailyPnlChart
@@ -579,19 +776,34 @@ const MonteCarloV2Content = ({
 						<ModeDistributionChart statistics={result.statistics} />
 					</div>
 
-					{/* Distribution - Full width (convert buckets from cents-P&L to currency-finalBalance) */}
-					<V2DistributionHistogram
-						buckets={result.distributionBuckets.map((b) => ({
-							...b,
-							rangeStart:
-								result.params.initialBalance / 100 + b.rangeStart / 100,
-							rangeEnd: result.params.initialBalance / 100 + b.rangeEnd / 100,
-						}))}
-						medianBalance={
-							result.params.initialBalance / 100 +
-							result.statistics.medianMonthlyPnl / 100
-						}
-						initialBalance={result.params.initialBalance / 100}
+					{/* Balance paths across runs, next to where they ended up */}
+					<div className="gap-m-500 grid lg:grid-cols-2">
+						<V2EquityFanChart
+							fan={result.equityFan}
+							initialBalance={result.params.initialBalance}
+							profitTargetPercent={result.params.profitTargetPercent}
+							drawdownFloorPercent={result.params.drawdownFloorPercent}
+						/>
+						{/* Distribution (convert buckets from cents-P&L to currency-finalBalance) */}
+						<V2DistributionHistogram
+							buckets={result.distributionBuckets.map((b) => ({
+								...b,
+								rangeStart:
+									result.params.initialBalance / 100 + b.rangeStart / 100,
+								rangeEnd: result.params.initialBalance / 100 + b.rangeEnd / 100,
+							}))}
+							medianBalance={
+								result.params.initialBalance / 100 +
+								result.statistics.medianMonthlyPnl / 100
+							}
+							initialBalance={result.params.initialBalance / 100}
+						/>
+					</div>
+
+					<V2PathStatistics
+						statistics={result.pathStatistics}
+						profitTargetPercent={result.params.profitTargetPercent}
+						drawdownFloorPercent={result.params.drawdownFloorPercent}
 					/>
 
 					{/* Metrics Cards */}
@@ -606,4 +818,84 @@ const MonteCarloV2Content = ({
 	)
 }
 
+const buildCapitalComparisonRows = (
+	{ parametric, empirical }: EmpiricalComparisonResult<MonteCarloResultV2>,
+	t: ReturnType<typeof useTranslations>
+): ComparisonRow[] => {
+	const formatMoney = (cents: number) =>
+		formatCompactCurrency(cents / 100, "R$")
+	const formatPercent = (value: number) => `${value.toFixed(1)}%`
+	const months = parametric.params.monthsToTrade
+	const pnlLabel =
+		months > 1 ? t("metrics.periodPnl", { months }) : t("metrics.monthlyPnl")
+	const rows: Array<
+		Omit<ComparisonRow, "parametric" | "empirical"> & {
+			pick: (result: MonteCarloResultV2) => number
+		}
+	> = [
+		{
+			key: "medianMonthlyPnl",
+			label: `${pnlLabel} · ${t("metrics.median")}`,
+			pick: (r) => r.statistics.medianMonthlyPnl,
+			format: formatMoney,
+			higherIsBetter: true,
+		},
+		{
+			key: "worstCaseMonthlyPnl",
+			label: `${pnlLabel} · ${t("metrics.worstCase")}`,
+			pick: (r) => r.statistics.worstCaseMonthlyPnl,
+			format: formatMoney,
+			higherIsBetter: true,
+		},
+		{
+			key: "bestCaseMonthlyPnl",
+			label: `${pnlLabel} · ${t("metrics.bestCase")}`,
+			pick: (r) => r.statistics.bestCaseMonthlyPnl,
+			format: formatMoney,
+			higherIsBetter: true,
+		},
+		{
+			key: "profitableMonthsPct",
+			label: t("metrics.profitablePeriods"),
+			pick: (r) => r.statistics.profitableMonthsPct,
+			format: formatPercent,
+			higherIsBetter: true,
+		},
+		{
+			key: "medianMaxDrawdownPercent",
+			label: t("metrics.medianMaxDrawdown"),
+			pick: (r) => r.statistics.medianMaxDrawdownPercent,
+			format: formatPercent,
+			higherIsBetter: false,
+		},
+		{
+			key: "worstMaxDrawdownPercent",
+			label: t("metrics.worstMaxDrawdown"),
+			pick: (r) => r.statistics.worstMaxDrawdownPercent,
+			format: formatPercent,
+			higherIsBetter: false,
+		},
+		{
+			key: "riskOfRuinPercent",
+			label: t("metrics.riskOfRuin"),
+			pick: (r) => r.statistics.riskOfRuinPercent,
+			format: formatPercent,
+			higherIsBetter: false,
+		},
+		{
+			key: "sharpeRatio",
+			label: t("metrics.sharpeRatio"),
+			pick: (r) => r.statistics.sharpeRatio,
+			format: formatRatio,
+			higherIsBetter: true,
+		},
+	]
+
+	return rows.map(({ pick, ...row }) => ({
+		...row,
+		parametric: pick(parametric),
+		empirical: pick(empirical),
+	}))
+}
+
 export { MonteCarloV2Content }
@@ -83,32 +83,25 @@ const RiskProfileSelector = ({
 						]
 						const isBuiltIn = (p: RiskManagementProfile) =>
 							builtInNames.some((n) => p.name.includes(n))
-						const builtIn = profiles.filter(isBuiltIn)
-						const custom = profiles.filter((p) => !isBuiltIn(p))
-						return (
-							<>
-								{builtIn.length > 0 && (
-									<SelectGroup>
-										<SelectLabel>{t("profileSelector.builtInGroup")}</SelectLabel>
-										{builtIn.map((profile) => (
-											<SelectItem key={profile.id} value={profile.id}>
-												{profile.name}
-											</SelectItem>
-										))}
-									</SelectGroup>
-								)}
-								{custom.length > 0 && (
-									<SelectGroup>
-										<SelectLabel>{t("profileSelector.customGroup")}</SelectLabel>
-										{custom.map((profile) => (
-											<SelectItem key={profile.id} value={profile.id}>
-												{profile.name}
-											</SelectItem>
-										))}
-									</SelectGroup>
-								)}
-							</>
-						)
+						const system = profiles.filter((p) => p.ownership === "system")
+						const groups = [
+							{ key: "builtIn", label: t("profileSelector.builtInGroup"), items: system.filter(isBuiltIn) },
+							{ key: "custom", label: t("profileSelector.customGroup"), items: system.filter((p) => !isBuiltIn(p)) },
+							{ key: "mine", label: t("profileSelector.mineGroup"), items: profiles.filter((p) => p.ownership === "mine") },
+							{ key: "shared", label: t("profileSelector.sharedGroup"), items: profiles.filter((p) => p.ownership === "shared") },
+						]
+						return groups
+							.filter((group) => group.items.length > 0)
+							.map((group) => (
+								<SelectGroup key={group.key}>
+									<SelectLabel>{group.label}</SelectLabel>
+									{group.items.map((profile) => (
+										<SelectItem key={profile.id} value={profile.id}>
+											{profile.name}
+										</SelectItem>
+									))}
+								</SelectGroup>
+							))
 					})()}
 				</SelectContent>
 			</Select>
@@ -0,0 +1,160 @@
+"use client"
+
+import { useMemo } from "react"
+import { useTranslations } from "next-intl"
+import {
+	ComposedChart,
+	Area,
+	Line,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	ReferenceLine,
+} from "recharts"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart-container"
+import { useChartConfig } from "@/hooks/use-chart-config"
+import { formatCompactCurrency } from "@/lib/formatting"
+import type { EquityFanPoint } from "@/types/monte-carlo"
+
+interface V2EquityFanChartProps {
+	/** Balance percentiles in cents, by trading day */
+	fan: EquityFanPoint[]
+	initialBalance: number // cents
+	profitTargetPercent: number
+	drawdownFloorPercent: number
+	currency?: string
+}
+
+/**
+ * Spread of balance paths across all runs: P5–P95 and P25–P75 bands around
+ * the median, with the profit target and drawdown floor as reference lines.
+ */
+export const V2EquityFanChart = ({
+	fan,
+	initialBalance,
+	profitTargetPercent,
+	drawdownFloorPercent,
+	currency = "R$",
+}: V2EquityFanChartProps) => {
+	const t = useTranslations("monteCarlo.v2.charts")
+	const { yAxisWidth } = useChartConfig()
+
+	const chartData = useMemo(
+		() =>
+			fan.map((point) => ({
+				day: point.step,
+				outer: [point.p5 / 100, point.p95 / 100],
+				inner: [point.p25 / 100, point.p75 / 100],
+				median: point.p50 / 100,
+			})),
+		[fan]
+	)
+
+	const targetBalance = (initialBalance / 100) * (1 + profitTargetPercent / 100)
+	const floorBalance = (initialBalance / 100) * (1 - drawdownFloorPercent / 100)
+
+	return (
+		<div className="border-bg-300 bg-bg-200 p-m-500 rounded-lg border">
+			<div className="mb-m-400">
+				<h3 className="text-body text-txt-100 font-semibold">
+					{t("equityFan")}
+				</h3>
+				<p className="text-tiny text-txt-300">{t("equityFanHint")}</p>
+			</div>
+
+			<ChartContainer id="chart-monte-carlo-v2-equity-fan" className="h-72">
+				<ComposedChart
+					data={chartData}
+					margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+				>
+					<CartesianGrid
+						strokeDasharray="3 3"
+						stroke="var(--color-bg-300)"
+						strokeOpacity={0.5}
+					/>
+					<XAxis
+						dataKey="day"
+						type="number"
+						domain={[0, "dataMax"]}
+						stroke="var(--color-txt-300)"
+						fontSize={11}
+						tickLine={false}
+						axisLine={false}
+					/>
+					<YAxis
+						stroke="var(--color-txt-300)"
+						fontSize={11}
+						tickLine={false}
+						axisLine={false}
+						tickFormatter={(value: number) =>
+							formatCompactCurrency(value, currency)
+						}
+						domain={["auto", "auto"]}
+						width={yAxisWidth}
+					/>
+					<ChartTooltip
+						variant="line"
+						labelFormatter={(value) => t("dayLabel", { day: Number(value) })}
+						formatter={(value) =>
+							Array.isArray(value)
+								? value
+										.map((v) => formatCompactCurrency(Number(v), currency))
+										.join(" – ")
+								: formatCompactCurrency(Number(value), currency)
+						}
+					/>
+					<ReferenceLine
+						y={targetBalance}
+						stroke="var(--color-trade-buy)"
+						strokeDasharray="4 4"
+						label={{
+							value: t("target"),
+							position: "insideTopLeft",
+							fill: "var(--color-trade-buy)",
+							fontSize: 10,
+						}}
+					/>
+					<ReferenceLine
+						y={floorBalance}
+						stroke="var(--color-trade-sell)"
+						strokeDasharray="4 4"
+						label={{
+							value: t("floor"),
+							position: "insideBottomLeft",
+							fill: "var(--color-trade-sell)",
+							fontSize: 10,
+						}}
+					/>
+					<Area
+						type="monotone"
+						dataKey="outer"
+						name={t("bandOuter")}
+						stroke="none"
+						fill="var(--color-acc-100)"
+						fillOpacity={0.12}
+					/>
+					<Area
+						type="monotone"
+						dataKey="inner"
+						name={t("bandInner")}
+						stroke="none"
+						fill="var(--color-acc-100)"
+						fillOpacity={0.25}
+					/>
+					<Line
+						type="monotone"
+						dataKey="median"
+						name={t("bandMedian")}
+						stroke="var(--color-acc-100)"
+						strokeWidth={2}
+						dot={false}
+					/>
+				</ComposedChart>
+			</ChartContainer>
+
+			<p className="mt-s-300 text-tiny text-txt-300 text-center">
+				{t("tradingDay")}
+			</p>
+		</div>
+	)
+}
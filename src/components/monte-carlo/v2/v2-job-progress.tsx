@@ -0,0 +1,126 @@
+"use client"
+
+import { useTranslations } from "next-intl"
+import { Loader2, Square } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { formatCompactCurrency } from "@/lib/formatting"
+import type { MonteCarloV2JobProgress } from "@/hooks/use-monte-carlo-v2-job"
+
+interface V2JobProgressProps {
+	/** Null until the job's first event arrives */
+	progress: MonteCarloV2JobProgress | null
+	monthsToTrade: number
+	isCancelling: boolean
+	onCancel: () => void
+}
+
+/**
+ * Progress of a running Capital Expectancy job, with the statistics of the
+ * runs finished so far.
+ */
+const V2JobProgress = ({
+	progress,
+	monthsToTrade,
+	isCancelling,
+	onCancel,
+}: V2JobProgressProps) => {
+	const t = useTranslations("monteCarlo.v2.job")
+	const tMetrics = useTranslations("monteCarlo.v2.metrics")
+
+	const completedRuns = progress?.completedRuns ?? 0
+	const totalRuns = progress?.totalRuns ?? 0
+	const percent = totalRuns > 0 ? (completedRuns / totalRuns) * 100 : 0
+	const partial = progress?.partial ?? null
+
+	return (
+		<div
+			id="monte-carlo-v2-job-progress"
+			className="border-bg-300 bg-bg-200 p-m-400 sm:p-m-500 space-y-m-400 rounded-lg border"
+		>
+			<div className="gap-m-400 flex flex-wrap items-center justify-between">
+				<div className="gap-s-300 flex items-center">
+					<Loader2 className="text-acc-100 h-5 w-5 animate-spin" />
+					<div>
+						<p className="text-body text-txt-100 font-semibold">
+							{t("running")}
+						</p>
+						<p className="text-small text-txt-300">
+							{t("runsCompleted", {
+								completed: completedRuns.toLocaleString(),
+								total: totalRuns.toLocaleString(),
+							})}
+						</p>
+					</div>
+				</div>
+				<Button
+					id="monte-carlo-v2-cancel-simulation"
+					variant="outline"
+					size="sm"
+					onClick={onCancel}
+					disabled={isCancelling}
+				>
+					<Square className="mr-s-100 h-4 w-4" />
+					{isCancelling ? t("cancelling") : t("cancel")}
+				</Button>
+			</div>
+
+			<div
+				className="bg-bg-300 h-2 overflow-hidden rounded-full"
+				role="progressbar"
+				aria-valuemin={0}
+				aria-valuemax={100}
+				aria-valuenow={Math.round(percent)}
+				aria-label={t("running")}
+			>
+				<div
+					className="bg-acc-100 h-full transition-[width] duration-300"
+					style={{ width: `${percent}%` }}
+				/>
+			</div>
+
+			{partial && (
+				<div>
+					<p className="mb-s-200 text-tiny text-txt-300">{t("partialHint")}</p>
+					<div className="gap-s-300 grid grid-cols-2 sm:grid-cols-4">
+						<PartialMetric
+							label={
+								monthsToTrade > 1
+									? tMetrics("periodPnl", { months: monthsToTrade })
+									: tMetrics("monthlyPnl")
+							}
+							value={formatCompactCurrency(
+								partial.medianMonthlyPnl / 100,
+								"R$"
+							)}
+						/>
+						<PartialMetric
+							label={
+								monthsToTrade > 1
+									? tMetrics("profitablePeriods")
+									: tMetrics("profitableMonths")
+							}
+							value={`${partial.profitableMonthsPct.toFixed(1)}%`}
+						/>
+						<PartialMetric
+							label={tMetrics("medianMaxDrawdown")}
+							value={`${partial.medianMaxDrawdownPercent.toFixed(1)}%`}
+						/>
+						<PartialMetric
+							label={tMetrics("riskOfRuin")}
+							value={`${partial.riskOfRuinPercent.toFixed(1)}%`}
+						/>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
+
+const PartialMetric = ({ label, value }: { label: string; value: string }) => (
+	<div className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border">
+		<p className="text-tiny text-txt-300">{label}</p>
+		<p className="text-body text-txt-100 font-semibold">{value}</p>
+	</div>
+)
+
+export { V2JobProgress }
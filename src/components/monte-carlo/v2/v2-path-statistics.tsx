@@ -0,0 +1,146 @@
+"use client"
+
+import { useMemo } from "react"
+import { useTranslations } from "next-intl"
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart-container"
+import { useChartConfig } from "@/hooks/use-chart-config"
+import type { PathStatisticsV2 } from "@/types/monte-carlo"
+
+interface V2PathStatisticsProps {
+	statistics: PathStatisticsV2
+	profitTargetPercent: number
+	drawdownFloorPercent: number
+}
+
+interface StatProps {
+	label: string
+	value: string
+	valueClass?: string
+}
+
+const Stat = ({ label, value, valueClass = "text-txt-100" }: StatProps) => (
+	<div className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border">
+		<p className="text-tiny text-txt-300">{label}</p>
+		<p className={`text-body font-semibold ${valueClass}`}>{value}</p>
+	</div>
+)
+
+/**
+ * The race between the profit target and the drawdown floor, and how long
+ * runs stayed below their peak — with the longest drawdown's distribution.
+ */
+export const V2PathStatistics = ({
+	statistics,
+	profitTargetPercent,
+	drawdownFloorPercent,
+}: V2PathStatisticsProps) => {
+	const t = useTranslations("monteCarlo.v2.path")
+	const { yAxisWidth } = useChartConfig()
+
+	const chartData = useMemo(
+		() =>
+			statistics.longestDrawdownBuckets.map((bucket) => ({
+				...bucket,
+				// Integer-wide buckets: rangeEnd is exclusive
+				label:
+					bucket.rangeEnd - bucket.rangeStart === 1
+						? `${bucket.rangeStart}`
+						: `${bucket.rangeStart}–${bucket.rangeEnd - 1}`,
+			})),
+		[statistics.longestDrawdownBuckets]
+	)
+
+	const formatDays = (days: number) => t("days", { count: Math.round(days) })
+
+	return (
+		<div className="border-bg-300 bg-bg-200 p-m-500 rounded-lg border">
+			<div className="mb-m-400">
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-tiny text-txt-300">
+					{t("hint", {
+						target: profitTargetPercent,
+						floor: drawdownFloorPercent,
+					})}
+				</p>
+			</div>
+
+			<div className="gap-s-300 mb-m-500 grid grid-cols-2 lg:grid-cols-4">
+				<Stat
+					label={t("targetBeforeFloor")}
+					value={`${statistics.targetBeforeFloorPercent.toFixed(1)}%`}
+					valueClass="text-trade-buy"
+				/>
+				<Stat
+					label={t("floorBeforeTarget")}
+					value={`${statistics.floorBeforeTargetPercent.toFixed(1)}%`}
+					valueClass="text-trade-sell"
+				/>
+				<Stat
+					label={t("medianDaysToTarget")}
+					value={
+						statistics.medianDaysToTarget === null
+							? "—"
+							: formatDays(statistics.medianDaysToTarget)
+					}
+				/>
+				<Stat
+					label={t("longestDrawdown")}
+					value={t("longestDrawdownValue", {
+						median: formatDays(statistics.medianLongestDrawdownDays),
+						worst: formatDays(statistics.worstLongestDrawdownDays),
+					})}
+				/>
+			</div>
+
+			<h4 className="mb-s-300 text-small text-txt-100 font-semibold">
+				{t("drawdownDistribution")}
+			</h4>
+			<ChartContainer
+				id="chart-monte-carlo-v2-drawdown-duration"
+				className="h-56"
+			>
+				<BarChart
+					data={chartData}
+					margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+				>
+					<CartesianGrid
+						strokeDasharray="3 3"
+						stroke="var(--color-bg-300)"
+						strokeOpacity={0.5}
+						vertical={false}
+					/>
+					<XAxis
+						dataKey="label"
+						stroke="var(--color-txt-300)"
+						fontSize={10}
+						tickLine={false}
+						axisLine={false}
+						interval="preserveStartEnd"
+					/>
+					<YAxis
+						stroke="var(--color-txt-300)"
+						fontSize={11}
+						tickLine={false}
+						axisLine={false}
+						tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+						width={yAxisWidth}
+					/>
+					<ChartTooltip
+						labelFormatter={(value) => t("daysLabel", { range: String(value) })}
+						formatter={(value) => [`${Number(value).toFixed(1)}%`, t("runs")]}
+					/>
+					<Bar
+						dataKey="percentage"
+						fill="var(--color-trade-sell)"
+						fillOpacity={0.75}
+						radius={[3, 3, 0, 0]}
+					/>
+				</BarChart>
+			</ChartContainer>
+			<p className="mt-s-300 text-tiny text-txt-300 text-center">
+				{t("drawdownDistributionAxis")}
+			</p>
+		</div>
+	)
+}
@@ -49,6 +49,12 @@ const V2ResultsSummary = ({ params, onRunAgain }: V2ResultsSummaryProps) => {
 					1:{profile.rewardRiskRatio.toFixed(2)}
 				</span>
 			</div>
+			{params.seed !== undefined && (
+				<div className="gap-s-200 flex items-center">
+					<span className="text-txt-300 text-small">{t("seed")}:</span>
+					<span className="text-txt-100 font-medium">{params.seed}</span>
+				</div>
+			)}
 			{impliedPF && (
 				<div className="gap-s-200 flex items-center">
 					<span className="text-txt-300 text-small">{t("profitFactor")}:</span>
@@ -0,0 +1,317 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { useTranslations } from "next-intl"
+import { Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { fromCents, toCents } from "@/lib/money"
+import type { DecisionTreeConfig, LossRecoveryStep, RiskManagementProfile } from "@/types/risk-profile"
+
+const MAX_RECOVERY_STEPS = 10
+
+// ─── Field Helpers ──────────────────────────────────────────
+
+/** Cents → input value in currency units ("" for unset optional amounts) */
+const toInputValue = (cents: number | null): string => (cents === null ? "" : String(fromCents(cents)))
+
+/** Input value in currency units → cents (null when left empty) */
+const toCentsOrNull = (value: string): number | null => (value.trim() === "" ? null : toCents(value))
+
+const toIntOrNull = (value: string): number | null => {
+	if (value.trim() === "") return null
+	const parsed = parseInt(value, 10)
+	return Number.isNaN(parsed) ? null : parsed
+}
+
+interface EditorRowProps {
+	label: string
+	htmlFor: string
+	children: ReactNode
+}
+
+const EditorRow = ({ label, htmlFor, children }: EditorRowProps) => (
+	<div className="gap-s-300 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+		<label htmlFor={htmlFor} className="text-small text-txt-200">
+			{label}
+		</label>
+		{children}
+	</div>
+)
+
+// ─── Main Component ─────────────────────────────────────────
+
+interface DecisionTreeEditorProps {
+	draft: RiskManagementProfile
+	onChange: (draft: RiskManagementProfile) => void
+	onSave: () => void
+	isSaving: boolean
+}
+
+/**
+ * Form for the parts of a profile traders tune most: limits, the base trade and
+ * the loss recovery sequence. Limits are written both to the profile columns and
+ * to the matching decision tree fields so the two never drift apart.
+ */
+const DecisionTreeEditor = ({ draft, onChange, onSave, isSaving }: DecisionTreeEditorProps) => {
+	const t = useTranslations("commandCenter.plan.decisionTree.editor")
+	const tree = draft.decisionTree
+
+	const updateTree = (changes: Partial<DecisionTreeConfig>) =>
+		onChange({ ...draft, decisionTree: { ...tree, ...changes } })
+
+	const handleBaseRisk = (value: string) => {
+		const riskCents = toCents(value)
+		onChange({
+			...draft,
+			baseRiskCents: riskCents,
+			decisionTree: { ...tree, baseTrade: { ...tree.baseTrade, riskCents } },
+		})
+	}
+
+	const handleWeeklyLoss = (value: string) => {
+		const weeklyLossCents = toCentsOrNull(value)
+		onChange({
+			...draft,
+			weeklyLossCents,
+			decisionTree: { ...tree, cascadingLimits: { ...tree.cascadingLimits, weeklyLossCents } },
+		})
+	}
+
+	const handleMonthlyLoss = (value: string) => {
+		const monthlyLossCents = toCents(value)
+		onChange({
+			...draft,
+			monthlyLossCents,
+			decisionTree: { ...tree, cascadingLimits: { ...tree.cascadingLimits, monthlyLossCents } },
+		})
+	}
+
+	const handleDailyTarget = (value: string) => {
+		const dailyProfitTargetCents = toCentsOrNull(value)
+		// A single-target gain mode can't exist without a target, so keep its last value
+		const gainMode = tree.gainMode.type === "singleTarget"
+			? { ...tree.gainMode, dailyTargetCents: dailyProfitTargetCents ?? tree.gainMode.dailyTargetCents }
+			: { ...tree.gainMode, dailyTargetCents: dailyProfitTargetCents }
+		onChange({ ...draft, dailyProfitTargetCents, decisionTree: { ...tree, gainMode } })
+	}
+
+	const updateStep = (index: number, step: LossRecoveryStep) => {
+		const sequence = tree.lossRecovery.sequence.map((current, i) => (i === index ? step : current))
+		updateTree({ lossRecovery: { ...tree.lossRecovery, sequence } })
+	}
+
+	const addStep = () => {
+		const sequence = [
+			...tree.lossRecovery.sequence,
+			{ riskCalculation: { type: "percentOfBase" as const, percent: 50 }, maxContractsOverride: null },
+		]
+		updateTree({ lossRecovery: { ...tree.lossRecovery, sequence } })
+	}
+
+	const removeStep = (index: number) => {
+		const sequence = tree.lossRecovery.sequence.filter((_, i) => i !== index)
+		updateTree({ lossRecovery: { ...tree.lossRecovery, sequence } })
+	}
+
+	return (
+		<div id="decision-tree-editor" className="space-y-m-500 pt-s-200">
+			{/* Identity */}
+			<section className="space-y-s-300">
+				<EditorRow label={t("name")} htmlFor="dt-editor-name">
+					<Input
+						id="dt-editor-name"
+						value={draft.name}
+						maxLength={100}
+						onChange={(e) => onChange({ ...draft, name: e.target.value })}
+						className="w-full sm:w-72"
+					/>
+				</EditorRow>
+				<EditorRow label={t("description")} htmlFor="dt-editor-description">
+					<Textarea
+						id="dt-editor-description"
+						value={draft.description ?? ""}
+						onChange={(e) => onChange({ ...draft, description: e.target.value || null })}
+						className="w-full sm:w-72"
+						rows={2}
+					/>
+				</EditorRow>
+			</section>
+
+			{/* Limits */}
+			<section className="space-y-s-300">
+				<h4 className="text-small text-txt-100 font-semibold">{t("limits")}</h4>
+				<EditorRow label={t("baseRisk")} htmlFor="dt-editor-base-risk">
+					<Input
+						id="dt-editor-base-risk"
+						type="number"
+						step="0.01"
+						min="0"
+						value={toInputValue(draft.baseRiskCents)}
+						onChange={(e) => handleBaseRisk(e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+				<EditorRow label={t("dailyLoss")} htmlFor="dt-editor-daily-loss">
+					<Input
+						id="dt-editor-daily-loss"
+						type="number"
+						step="0.01"
+						min="0"
+						value={toInputValue(draft.dailyLossCents)}
+						onChange={(e) => onChange({ ...draft, dailyLossCents: toCents(e.target.value) })}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+				<EditorRow label={t("weeklyLoss")} htmlFor="dt-editor-weekly-loss">
+					<Input
+						id="dt-editor-weekly-loss"
+						type="number"
+						step="0.01"
+						min="0"
+						placeholder={t("optional")}
+						value={toInputValue(draft.weeklyLossCents)}
+						onChange={(e) => handleWeeklyLoss(e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+				<EditorRow label={t("monthlyLoss")} htmlFor="dt-editor-monthly-loss">
+					<Input
+						id="dt-editor-monthly-loss"
+						type="number"
+						step="0.01"
+						min="0"
+						value={toInputValue(draft.monthlyLossCents)}
+						onChange={(e) => handleMonthlyLoss(e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+				<EditorRow label={t("dailyTarget")} htmlFor="dt-editor-daily-target">
+					<Input
+						id="dt-editor-daily-target"
+						type="number"
+						step="0.01"
+						min="0"
+						placeholder={t("optional")}
+						value={toInputValue(draft.dailyProfitTargetCents)}
+						onChange={(e) => handleDailyTarget(e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+			</section>
+
+			{/* Base trade */}
+			<section className="space-y-s-300">
+				<h4 className="text-small text-txt-100 font-semibold">{t("baseTrade")}</h4>
+				<EditorRow label={t("maxContracts")} htmlFor="dt-editor-max-contracts">
+					<Input
+						id="dt-editor-max-contracts"
+						type="number"
+						min="1"
+						placeholder={t("optional")}
+						value={tree.baseTrade.maxContracts ?? ""}
+						onChange={(e) => updateTree({ baseTrade: { ...tree.baseTrade, maxContracts: toIntOrNull(e.target.value) } })}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+				<EditorRow label={t("minStopPoints")} htmlFor="dt-editor-min-stop">
+					<Input
+						id="dt-editor-min-stop"
+						type="number"
+						min="1"
+						placeholder={t("optional")}
+						value={tree.baseTrade.minStopPoints ?? ""}
+						onChange={(e) => updateTree({ baseTrade: { ...tree.baseTrade, minStopPoints: toIntOrNull(e.target.value) } })}
+						className="w-full text-right sm:w-40"
+					/>
+				</EditorRow>
+			</section>
+
+			{/* Loss recovery */}
+			<section className="space-y-s-300">
+				<div className="flex items-center justify-between">
+					<h4 className="text-small text-txt-100 font-semibold">{t("lossRecovery")}</h4>
+					<Button
+						id="dt-editor-add-step"
+						variant="outline"
+						size="sm"
+						onClick={addStep}
+						disabled={tree.lossRecovery.sequence.length >= MAX_RECOVERY_STEPS}
+						aria-label={t("addStep")}
+					>
+						<Plus className="mr-s-100 h-3.5 w-3.5" />
+						{t("addStep")}
+					</Button>
+				</div>
+				{tree.lossRecovery.sequence.length === 0 && (
+					<p className="text-tiny text-txt-300">{t("noSteps")}</p>
+				)}
+				{tree.lossRecovery.sequence.map((step, index) => (
+					<div key={index} className="gap-s-300 flex items-center justify-between">
+						<span className="text-small text-txt-200">{t("step", { trade: index + 2 })}</span>
+						<div className="gap-s-200 flex items-center">
+							{step.riskCalculation.type === "percentOfBase" ? (
+								<>
+									<Input
+										id={`dt-editor-step-${index}`}
+										type="number"
+										min="1"
+										max="200"
+										value={step.riskCalculation.percent}
+										onChange={(e) => updateStep(index, {
+											...step,
+											riskCalculation: { type: "percentOfBase", percent: Number(e.target.value) },
+										})}
+										className="w-24 text-right"
+										aria-label={t("stepPercent", { trade: index + 2 })}
+									/>
+									<span className="text-tiny text-txt-300">{t("ofBase")}</span>
+								</>
+							) : (
+								<span className="text-tiny text-txt-300">{t(`stepType.${step.riskCalculation.type}`)}</span>
+							)}
+							<Button
+								id={`dt-editor-remove-step-${index}`}
+								variant="ghost"
+								size="icon"
+								onClick={() => removeStep(index)}
+								aria-label={t("removeStep", { trade: index + 2 })}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					</div>
+				))}
+				<EditorRow label={t("executeAllRegardless")} htmlFor="dt-editor-execute-all">
+					<Switch
+						id="dt-editor-execute-all"
+						checked={tree.lossRecovery.executeAllRegardless}
+						onCheckedChange={(checked) => updateTree({ lossRecovery: { ...tree.lossRecovery, executeAllRegardless: checked } })}
+					/>
+				</EditorRow>
+				<EditorRow label={t("stopAfterSequence")} htmlFor="dt-editor-stop-after">
+					<Switch
+						id="dt-editor-stop-after"
+						checked={tree.lossRecovery.stopAfterSequence}
+						onCheckedChange={(checked) => updateTree({ lossRecovery: { ...tree.lossRecovery, stopAfterSequence: checked } })}
+					/>
+				</EditorRow>
+			</section>
+
+			<div className="flex justify-end">
+				<Button id="dt-editor-save" onClick={onSave} disabled={isSaving || !draft.name.trim()} aria-label={t("save")}>
+					{isSaving ? (
+						<Loader2 className="mr-s-100 h-4 w-4 animate-spin" />
+					) : (
+						<Save className="mr-s-100 h-4 w-4" />
+					)}
+					{t("save")}
+				</Button>
+			</div>
+		</div>
+	)
+}
+
+export { DecisionTreeEditor }
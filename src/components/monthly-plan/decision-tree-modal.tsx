@@ -1,6 +1,6 @@
 "use client"
 
-import { useMemo } from "react"
+import { useMemo, useState } from "react"
 import { useTranslations } from "next-intl"
 import { useFormatting } from "@/hooks/use-formatting"
 import { fromCents } from "@/lib/money"
@@ -18,7 +18,8 @@ import {
 	AnimatedTabsContent,
 } from "@/components/ui/tabs"
 import { RecoveryPathsTree } from "./recovery-paths-tree"
-import type { RiskManagementProfile } from "@/types/risk-profile"
+import { DecisionTreeEditor } from "./decision-tree-editor"
+import type { RiskManagementProfile, RiskProfileInput } from "@/types/risk-profile"
 import type { LossRecoveryStep, DecisionTreeConfig } from "@/types/risk-profile"
 
 // ─── Constants ──────────────────────────────────────────────
@@ -1020,6 +1021,11 @@ interface DecisionTreeModalProps {
 	onOpenChange: (open: boolean) => void
 	profile: RiskManagementProfile
 	effectiveValues?: EffectiveValues | null
+	/**
+	 * Enables the edit tab. The visualization follows the unsaved draft, so the
+	 * caller should remount the modal (via `key`) when the stored profile changes.
+	 */
+	onSave?: (input: RiskProfileInput) => Promise<void>
 }
 
 const DecisionTreeModal = ({
@@ -1027,17 +1033,20 @@ const DecisionTreeModal = ({
 	onOpenChange,
 	profile,
 	effectiveValues,
+	onSave,
 }: DecisionTreeModalProps) => {
 	const t = useTranslations("commandCenter.plan.decisionTree")
 	const { formatCurrency, formatCurrencyWithSign } = useFormatting()
-	const { decisionTree } = profile
+	const [draft, setDraft] = useState(profile)
+	const [isSaving, setIsSaving] = useState(false)
+	const { decisionTree } = draft
 
 	// Resolve effective values (fall back to stored when no overrides)
 	const baseRiskCents = effectiveValues?.riskCents ?? decisionTree.baseTrade.riskCents
-	const dailyLossCents = effectiveValues?.dailyLossCents ?? profile.dailyLossCents
+	const dailyLossCents = effectiveValues?.dailyLossCents ?? draft.dailyLossCents
 	const weeklyLossCents = effectiveValues?.weeklyLossCents ?? decisionTree.cascadingLimits.weeklyLossCents
 	const monthlyLossCents = effectiveValues?.monthlyLossCents ?? decisionTree.cascadingLimits.monthlyLossCents
-	const dailyTargetCents = effectiveValues?.dailyProfitTargetCents ?? profile.dailyProfitTargetCents
+	const dailyTargetCents = effectiveValues?.dailyProfitTargetCents ?? draft.dailyProfitTargetCents
 
 	// Build resolved gain mode with effective daily target
 	const resolvedGainMode = useMemo(() => {
@@ -1053,10 +1062,26 @@ const DecisionTreeModal = ({
 	}), [decisionTree.cascadingLimits, weeklyLossCents, monthlyLossCents])
 
 	const situations = useMemo(
-		() => computeTradeSituations(decisionTree, baseRiskCents, profile, t),
-		[decisionTree, baseRiskCents, profile, t]
+		() => computeTradeSituations(decisionTree, baseRiskCents, draft, t),
+		[decisionTree, baseRiskCents, draft, t]
 	)
 
+	const handleSave = async () => {
+		if (!onSave) return
+		setIsSaving(true)
+		await onSave({
+			name: draft.name.trim(),
+			description: draft.description,
+			baseRiskCents: draft.baseRiskCents,
+			dailyLossCents: draft.dailyLossCents,
+			weeklyLossCents: draft.weeklyLossCents,
+			monthlyLossCents: draft.monthlyLossCents,
+			dailyProfitTargetCents: draft.dailyProfitTargetCents,
+			decisionTree: draft.decisionTree,
+		})
+		setIsSaving(false)
+	}
+
 	return (
 		<Dialog open={open} onOpenChange={onOpenChange}>
 			<DialogContent
@@ -1066,7 +1091,7 @@ const DecisionTreeModal = ({
 			>
 				<DialogHeader>
 					<DialogTitle>
-						{t("title")} &mdash; {profile.name}
+						{t("title")} &mdash; {draft.name}
 					</DialogTitle>
 				</DialogHeader>
 
@@ -1074,6 +1099,9 @@ const DecisionTreeModal = ({
 					<TabsList variant="line" className="w-full overflow-x-auto scrollbar-none">
 						<TabsTrigger value="overview" className="shrink-0">{t("tabs.overview")}</TabsTrigger>
 						<TabsTrigger value="paths" className="shrink-0">{t("tabs.paths")}</TabsTrigger>
+						{onSave && (
+							<TabsTrigger value="edit" className="shrink-0">{t("tabs.edit")}</TabsTrigger>
+						)}
 						{situations.map((situation) => (
 							<TabsTrigger
 								key={situation.tradeNumber}
@@ -1197,6 +1225,18 @@ const DecisionTreeModal = ({
 						</div>
 					</AnimatedTabsContent>
 
+					{/* Edit tab — only offered when the caller can persist changes */}
+					{onSave && (
+						<AnimatedTabsContent value="edit">
+							<DecisionTreeEditor
+								draft={draft}
+								onChange={setDraft}
+								onSave={handleSave}
+								isSaving={isSaving}
+							/>
+						</AnimatedTabsContent>
+					)}
+
 					{/* Per-trade tabs */}
 					{situations.map((situation) => (
 						<AnimatedTabsContent
@@ -505,32 +505,25 @@ const MonthlyPlanForm = ({
 													]
 													const isBuiltIn = (p: RiskManagementProfile) =>
 														builtInNames.some((n) => p.name.includes(n))
-													const builtIn = riskProfiles.filter(isBuiltIn)
-													const custom = riskProfiles.filter((p) => !isBuiltIn(p))
-													return (
-														<>
-															{builtIn.length > 0 && (
-																<SelectGroup>
-																	<SelectLabel>{t("form.builtInGroup")}</SelectLabel>
-																	{builtIn.map((profile) => (
-																		<SelectItem key={profile.id} value={profile.id}>
-																			{profile.name}
-																		</SelectItem>
-																	))}
-																</SelectGroup>
-															)}
-															{custom.length > 0 && (
-																<SelectGroup>
-																	<SelectLabel>{t("form.customGroup")}</SelectLabel>
-																	{custom.map((profile) => (
-																		<SelectItem key={profile.id} value={profile.id}>
-																			{profile.name}
-																		</SelectItem>
-																	))}
-																</SelectGroup>
-															)}
-														</>
-													)
+													const system = riskProfiles.filter((p) => p.ownership === "system")
+													const groups = [
+														{ key: "builtIn", label: t("form.builtInGroup"), items: system.filter(isBuiltIn) },
+														{ key: "custom", label: t("form.customGroup"), items: system.filter((p) => !isBuiltIn(p)) },
+														{ key: "mine", label: t("form.mineGroup"), items: riskProfiles.filter((p) => p.ownership === "mine") },
+														{ key: "shared", label: t("form.sharedGroup"), items: riskProfiles.filter((p) => p.ownership === "shared") },
+													]
+													return groups
+														.filter((group) => group.items.length > 0)
+														.map((group) => (
+															<SelectGroup key={group.key}>
+																<SelectLabel>{group.label}</SelectLabel>
+																{group.items.map((profile) => (
+																	<SelectItem key={profile.id} value={profile.id}>
+																		{profile.name}
+																	</SelectItem>
+																))}
+															</SelectGroup>
+														))
 												})()}
 											</SelectContent>
 										</Select>
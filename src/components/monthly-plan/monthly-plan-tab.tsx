@@ -14,6 +14,7 @@ import { useTranslations } from "next-intl"
 import { Button } from "@/components/ui/button"
 import { MonthlyPlanForm } from "./monthly-plan-form"
 import { MonthlyPlanSummary } from "./monthly-plan-summary"
+import { RiskProfileVersionBanner } from "./risk-profile-version-banner"
 import { useFormatting } from "@/hooks/use-formatting"
 import { fromCents } from "@/lib/money"
 import {
@@ -217,12 +218,17 @@ export const MonthlyPlanTab = ({
 			)}
 
 			{!loading && plan && !isEditing && (
-				<MonthlyPlanSummary
-					plan={plan}
-					profileName={plan.riskProfileId
-						? riskProfiles.find((p) => p.id === plan.riskProfileId)?.name ?? null
-						: null}
-				/>
+				<>
+					<MonthlyPlanSummary
+						plan={plan}
+						profileName={plan.riskProfileId
+							? riskProfiles.find((p) => p.id === plan.riskProfileId)?.name ?? null
+							: null}
+					/>
+					{plan.riskProfileVersionId && (
+						<RiskProfileVersionBanner plan={plan} onPlanChange={setPlan} />
+					)}
+				</>
 			)}
 		</div>
 	)
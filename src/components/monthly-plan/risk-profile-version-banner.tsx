@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { GitCompare, History } from "lucide-react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/components/ui/toast"
+import { RiskProfileVersionDiff } from "./risk-profile-version-diff"
+import { listRiskProfileVersions } from "@/app/actions/risk-profiles"
+import { adoptLatestRiskProfileVersion } from "@/app/actions/monthly-plans"
+import type { MonthlyPlan } from "@/db/schema"
+import type { RiskProfileVersion } from "@/types/risk-profile"
+
+interface RiskProfileVersionBannerProps {
+	plan: MonthlyPlan
+	onPlanChange: (plan: MonthlyPlan) => void
+}
+
+/**
+ * Shows which profile version the plan is pinned to and, when the profile has
+ * been edited since, what changed and an option to move to the latest rules.
+ */
+export const RiskProfileVersionBanner = ({ plan, onPlanChange }: RiskProfileVersionBannerProps) => {
+	const t = useTranslations("commandCenter.plan.profileVersion")
+	const { showToast } = useToast()
+	const [versions, setVersions] = useState<RiskProfileVersion[]>([])
+	const [showDiff, setShowDiff] = useState(false)
+	const [isAdopting, setIsAdopting] = useState(false)
+
+	const profileId = plan.riskProfileId
+
+	useEffect(() => {
+		if (!profileId) return
+		let cancelled = false
+		listRiskProfileVersions(profileId).then((response) => {
+			if (!cancelled && response.status === "success" && response.data) {
+				setVersions(response.data)
+			}
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [profileId])
+
+	const latest = versions[0]
+	const pinned = versions.find((v) => v.id === plan.riskProfileVersionId)
+
+	if (!profileId || !latest || !pinned) return null
+
+	const isOutdated = pinned.version < latest.version
+
+	const handleAdopt = async () => {
+		setIsAdopting(true)
+		const response = await adoptLatestRiskProfileVersion(plan.id)
+		setIsAdopting(false)
+
+		if (response.status === "success" && response.data) {
+			onPlanChange(response.data)
+			setShowDiff(false)
+			showToast("success", t("adopted", { version: latest.version }))
+		} else {
+			showToast("error", response.message)
+		}
+	}
+
+	return (
+		<div id="plan-profile-version" className="border-bg-300 bg-bg-200 p-m-400 space-y-s-300 rounded-lg border">
+			<div className="gap-s-200 flex flex-wrap items-center justify-between">
+				<div className="gap-s-200 flex items-center">
+					<History className="text-acc-100 h-4 w-4" />
+					<span className="text-small text-txt-100">
+						{isOutdated
+							? t("outdated", { pinned: pinned.version, latest: latest.version })
+							: t("pinned", { version: pinned.version })}
+					</span>
+				</div>
+				{versions.length > 1 && (
+					<div className="gap-s-200 flex items-center">
+						<Button
+							id="plan-profile-version-toggle-diff"
+							variant="ghost"
+							size="sm"
+							onClick={() => setShowDiff((prev) => !prev)}
+							aria-label={showDiff ? t("hideChanges") : t("viewChanges")}
+						>
+							<GitCompare className="mr-s-100 h-3.5 w-3.5" />
+							{showDiff ? t("hideChanges") : t("viewChanges")}
+						</Button>
+						{isOutdated && (
+							<Button
+								id="plan-profile-version-adopt"
+								variant="outline"
+								size="sm"
+								onClick={handleAdopt}
+								disabled={isAdopting}
+								aria-label={t("adoptLatest")}
+							>
+								{t("adoptLatest")}
+							</Button>
+						)}
+					</div>
+				)}
+			</div>
+
+			{showDiff && (
+				<RiskProfileVersionDiff
+					versions={versions}
+					initialFromId={isOutdated ? pinned.id : versions[1].id}
+					initialToId={latest.id}
+				/>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useTranslations } from "next-intl"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { diffRiskProfileVersions } from "@/lib/risk-profile-diff"
+import type { RiskProfileDiffKind, RiskProfileVersion } from "@/types/risk-profile"
+
+const KIND_CLASSES: Record<RiskProfileDiffKind, string> = {
+	added: "text-trade-buy",
+	removed: "text-trade-sell",
+	changed: "text-warning",
+}
+
+/** Leaf values are primitives; removed/added array entries can be whole objects */
+const formatValue = (value: unknown): string => {
+	if (value === undefined || value === null) return "-"
+	if (typeof value === "object") return JSON.stringify(value)
+	return String(value)
+}
+
+interface RiskProfileVersionDiffProps {
+	versions: RiskProfileVersion[]
+	initialFromId: string
+	initialToId: string
+}
+
+/**
+ * Side-by-side comparison of two versions of the same risk profile.
+ * `versions` is expected newest first, as returned by listRiskProfileVersions.
+ */
+export const RiskProfileVersionDiff = ({
+	versions,
+	initialFromId,
+	initialToId,
+}: RiskProfileVersionDiffProps) => {
+	const t = useTranslations("commandCenter.plan.profileVersion")
+	const [fromId, setFromId] = useState(initialFromId)
+	const [toId, setToId] = useState(initialToId)
+
+	const from = versions.find((v) => v.id === fromId)
+	const to = versions.find((v) => v.id === toId)
+
+	const entries = useMemo(
+		() => (from && to ? diffRiskProfileVersions(from, to) : []),
+		[from, to]
+	)
+
+	const renderSelect = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+		<div className="gap-s-200 flex items-center">
+			<span className="text-tiny text-txt-300">{label}</span>
+			<Select value={value} onValueChange={onChange}>
+				<SelectTrigger id={id} size="sm" className="w-[90px]" aria-label={label}>
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					{versions.map((version) => (
+						<SelectItem key={version.id} value={version.id}>
+							{t("versionLabel", { version: version.version })}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+		</div>
+	)
+
+	return (
+		<div id="plan-profile-version-diff" className="space-y-s-300">
+			<div className="gap-m-400 flex flex-wrap items-center">
+				{renderSelect("plan-profile-diff-from", t("from"), fromId, setFromId)}
+				{renderSelect("plan-profile-diff-to", t("to"), toId, setToId)}
+			</div>
+
+			{entries.length === 0 ? (
+				<p className="text-small text-txt-300">{t("noChanges")}</p>
+			) : (
+				<div className="overflow-x-auto">
+					<table className="text-small w-full">
+						<thead>
+							<tr className="text-tiny text-txt-300 border-bg-300 border-b text-left">
+								<th className="py-s-200 pr-s-300 font-medium">{t("field")}</th>
+								<th className="py-s-200 pr-s-300 font-medium">{t("before")}</th>
+								<th className="py-s-200 font-medium">{t("after")}</th>
+							</tr>
+						</thead>
+						<tbody>
+							{entries.map((entry) => (
+								<tr key={entry.path} className="border-bg-300 border-b last:border-0">
+									<td className={cn("py-s-200 pr-s-300 font-mono text-tiny", KIND_CLASSES[entry.kind])}>
+										{entry.path}
+									</td>
+									<td className="py-s-200 pr-s-300 text-txt-300 font-mono text-tiny break-all">
+										{formatValue(entry.before)}
+									</td>
+									<td className="py-s-200 text-txt-100 font-mono text-tiny break-all">
+										{formatValue(entry.after)}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+		</div>
+	)
+}
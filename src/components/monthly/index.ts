@@ -4,3 +4,4 @@ export { PropProfitSummary } from "./prop-profit-summary"
 export { MonthlyProjection } from "./monthly-projection"
 export { MonthComparison } from "./month-comparison"
 export { WeeklyBreakdown } from "./weekly-breakdown"
+export { PropEvaluationHistory } from "./prop-evaluation-history"
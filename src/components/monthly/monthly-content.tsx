@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useTransition } from "react"
 import { useTranslations } from "next-intl"
-import { startOfMonth, subMonths } from "date-fns"
+import { format, startOfMonth, subMonths } from "date-fns"
 import { useEffectiveDate } from "@/components/providers/effective-date-provider"
 import { MonthNavigator } from "./month-navigator"
 import { LoadingSpinner } from "@/components/shared"
@@ -10,6 +10,8 @@ import { PropProfitSummary } from "./prop-profit-summary"
 import { MonthlyProjection } from "./monthly-projection"
 import { MonthComparison } from "./month-comparison"
 import { WeeklyBreakdown } from "./weekly-breakdown"
+import { PropEvaluationHistory } from "./prop-evaluation-history"
+import { PropEvaluationPanel } from "@/components/command-center/prop-evaluation-panel"
 import { useRegisterPageGuide } from "@/components/ui/page-guide"
 import { monthlyGuide } from "@/components/ui/page-guide/guide-configs/monthly"
 import {
@@ -20,17 +22,22 @@ import {
 	type MonthlyProjection as MonthlyProjectionData,
 	type MonthComparison as MonthComparisonData,
 } from "@/app/actions/reports"
+import type { PropEvaluationOverview, PropEvaluationRecord } from "@/types/prop-evaluation"
 
 interface MonthlyContentProps {
 	initialMonthlyData: MonthlyResultsWithProp | null
 	initialProjectionData: MonthlyProjectionData | null
 	initialComparisonData: MonthComparisonData | null
+	initialPropEvaluation?: PropEvaluationOverview | null
+	initialPropHistory?: PropEvaluationRecord[]
 }
 
 export const MonthlyContent = ({
 	initialMonthlyData,
 	initialProjectionData,
 	initialComparisonData,
+	initialPropEvaluation = null,
+	initialPropHistory = [],
 }: MonthlyContentProps) => {
 	const t = useTranslations("monthly")
 	const effectiveDate = useEffectiveDate()
@@ -62,6 +69,10 @@ export const MonthlyContent = ({
 	// Determine if we're viewing the current month
 	const isCurrentMonth = monthOffset === 0
 
+	// Prop evaluation days of the month being viewed
+	const monthKey = format(currentDate, "yyyy-MM")
+	const monthPropHistory = initialPropHistory.filter((record) => record.date.startsWith(monthKey))
+
 	const loadData = async (offset: number) => {
 		setError(null)
 
@@ -136,6 +147,9 @@ export const MonthlyContent = ({
 				maxDate={startOfMonth(effectiveDate)}
 			/>
 
+			{/* Prop evaluation live status (current month only) */}
+			{isCurrentMonth && <PropEvaluationPanel data={initialPropEvaluation} />}
+
 			{isPending && <LoadingSpinner size="sm" className="py-m-400" />}
 
 			{monthlyData && !isPending && (
@@ -177,6 +191,9 @@ export const MonthlyContent = ({
 					)}
 				</>
 			)}
+
+			{/* Prop evaluation history */}
+			<PropEvaluationHistory records={monthPropHistory} />
 		</div>
 	)
 }
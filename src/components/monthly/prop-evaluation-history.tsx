@@ -0,0 +1,85 @@
+"use client"
+
+import { useTranslations } from "next-intl"
+import { History } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { fromCents } from "@/lib/money"
+import { useFormatting } from "@/hooks/use-formatting"
+import type { PropEvaluationRecord, PropEvaluationStatusKind } from "@/types/prop-evaluation"
+
+const STATUS_BADGE_CLASSES: Record<PropEvaluationStatusKind, string> = {
+	in_progress: "border-bg-300 text-txt-200",
+	at_risk: "border-warning text-warning",
+	passed: "border-trade-buy text-trade-buy",
+	failed: "border-fb-error text-fb-error",
+}
+
+interface PropEvaluationHistoryProps {
+	records: PropEvaluationRecord[]
+}
+
+export const PropEvaluationHistory = ({ records }: PropEvaluationHistoryProps) => {
+	const t = useTranslations("monthly.propHistory")
+	const tStatus = useTranslations("commandCenter.propEvaluation.status")
+	const { formatCurrency, formatPercent } = useFormatting()
+
+	if (records.length === 0) return null
+
+	return (
+		<div id="monthly-prop-history" className="border-bg-300 bg-bg-200 p-m-400 rounded-lg border">
+			<div className="mb-s-300 gap-s-200 flex items-center">
+				<History className="text-acc-100 h-4 w-4" />
+				<h3 className="text-small text-txt-100 font-semibold">{t("title")}</h3>
+			</div>
+
+			<div className="overflow-x-auto">
+				<table className="text-small w-full">
+					<thead>
+						<tr className="text-tiny text-txt-300 border-bg-300 border-b text-left">
+							<th className="py-s-200 pr-s-300 font-medium">{t("date")}</th>
+							<th className="py-s-200 pr-s-300 font-medium">{t("status")}</th>
+							<th className="py-s-200 pr-s-300 text-right font-medium">{t("dayPnl")}</th>
+							<th className="py-s-200 pr-s-300 text-right font-medium">{t("balance")}</th>
+							<th className="py-s-200 pr-s-300 text-right font-medium">{t("floor")}</th>
+							<th className="py-s-200 text-right font-medium">{t("consistency")}</th>
+						</tr>
+					</thead>
+					<tbody>
+						{records.map((record) => (
+							<tr key={record.id} className="border-bg-300 border-b last:border-0">
+								<td className="py-s-200 pr-s-300 text-txt-200">{record.date}</td>
+								<td className="py-s-200 pr-s-300">
+									<Badge
+										id={`prop-history-status-${record.id}`}
+										variant="outline"
+										className={STATUS_BADGE_CLASSES[record.status]}
+									>
+										{tStatus(record.status)}
+									</Badge>
+								</td>
+								<td
+									className={cn(
+										"py-s-200 pr-s-300 text-right",
+										record.pnlCents >= 0 ? "text-trade-buy" : "text-trade-sell"
+									)}
+								>
+									{formatCurrency(fromCents(record.pnlCents))}
+								</td>
+								<td className="py-s-200 pr-s-300 text-txt-100 text-right">
+									{formatCurrency(fromCents(record.balanceCents))}
+								</td>
+								<td className="py-s-200 pr-s-300 text-txt-200 text-right">
+									{formatCurrency(fromCents(record.drawdownFloorCents))}
+								</td>
+								<td className="py-s-200 text-txt-200 text-right">
+									{record.consistencyPercent !== null ? formatPercent(record.consistencyPercent) : "-"}
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			</div>
+		</div>
+	)
+}
@@ -2,3 +2,4 @@ export { ReportsContent } from "./reports-content"
 export { WeeklyReportCard } from "./weekly-report-card"
 export { MonthlyReportCard } from "./monthly-report-card"
 export { MistakeCostCard } from "./mistake-cost-card"
+export { TaxLedgerCard } from "./tax-ledger-card"
@@ -1,35 +1,86 @@
 "use client"
 
+import { useCallback } from "react"
+import { useTranslations } from "next-intl"
+import {
+	Tabs,
+	TabsList,
+	TabsTrigger,
+	AnimatedTabsContent,
+} from "@/components/ui/tabs"
+import { useUrlParams } from "@/hooks/use-url-params"
+import { LayoutGrid, Receipt } from "lucide-react"
 import { WeeklyReportCard } from "./weekly-report-card"
 import { MonthlyReportCard } from "./monthly-report-card"
 import { MistakeCostCard } from "./mistake-cost-card"
+import { TaxLedgerCard } from "./tax-ledger-card"
 import type { WeeklyReport, MonthlyReport, MistakeCostAnalysis } from "@/app/actions/reports"
+import type { TaxLedgerYear } from "@/types/tax"
 import { useRegisterPageGuide } from "@/components/ui/page-guide"
 import { reportsGuide } from "@/components/ui/page-guide/guide-configs/reports"
 
+const VALID_TABS = ["overview", "tax"]
+
 interface ReportsContentProps {
 	weeklyReport: WeeklyReport | null
 	monthlyReport: MonthlyReport | null
 	mistakeCostAnalysis: MistakeCostAnalysis | null
+	taxLedger: TaxLedgerYear | null
+	taxYear: number
 }
 
 export const ReportsContent = ({
 	weeklyReport,
 	monthlyReport,
 	mistakeCostAnalysis,
+	taxLedger,
+	taxYear,
 }: ReportsContentProps) => {
+	const t = useTranslations("reports.tabs")
+	const urlParams = useUrlParams()
 	useRegisterPageGuide(reportsGuide)
 
+	const tabFromUrl = urlParams.get("tab") ?? ""
+	const activeTab = VALID_TABS.includes(tabFromUrl) ? tabFromUrl : "overview"
+
+	const handleTabChange = useCallback(
+		(value: string) => {
+			urlParams.set({ tab: value })
+		},
+		[urlParams]
+	)
+
 	return (
-		<div className="space-y-m-400 sm:space-y-m-500 lg:space-y-m-600">
-			{/* Weekly and Monthly side by side on larger screens */}
-			<div className="grid gap-m-400 sm:gap-m-500 lg:gap-m-600 lg:grid-cols-2">
-				<WeeklyReportCard initialReport={weeklyReport} />
-				<MonthlyReportCard initialReport={monthlyReport} />
+		<Tabs value={activeTab} onValueChange={handleTabChange}>
+			<div id="reports-tabs" className="mb-m-400 sm:mb-m-500">
+				<TabsList variant="line">
+					<TabsTrigger value="overview" className="gap-s-200">
+						<LayoutGrid className="h-4 w-4" />
+						{t("overview")}
+					</TabsTrigger>
+					<TabsTrigger value="tax" className="gap-s-200">
+						<Receipt className="h-4 w-4" />
+						{t("tax")}
+					</TabsTrigger>
+				</TabsList>
 			</div>
 
-			{/* Mistake Cost Analysis */}
-			<MistakeCostCard data={mistakeCostAnalysis} />
-		</div>
+			<AnimatedTabsContent value="overview">
+				<div className="space-y-m-400 sm:space-y-m-500 lg:space-y-m-600">
+					{/* Weekly and Monthly side by side on larger screens */}
+					<div className="grid gap-m-400 sm:gap-m-500 lg:gap-m-600 lg:grid-cols-2">
+						<WeeklyReportCard initialReport={weeklyReport} />
+						<MonthlyReportCard initialReport={monthlyReport} />
+					</div>
+
+					{/* Mistake Cost Analysis */}
+					<MistakeCostCard data={mistakeCostAnalysis} />
+				</div>
+			</AnimatedTabsContent>
+
+			<AnimatedTabsContent value="tax">
+				<TaxLedgerCard initialLedger={taxLedger} initialYear={taxYear} />
+			</AnimatedTabsContent>
+		</Tabs>
 	)
 }
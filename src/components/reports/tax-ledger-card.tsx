@@ -0,0 +1,272 @@
+"use client"
+
+import { useState, useTransition, useEffect } from "react"
+import { useTranslations, useLocale } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast"
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, Info, Check } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { fromCents } from "@/lib/money"
+import { useFormatting } from "@/hooks/use-formatting"
+import { getTaxLedger, recalculateTaxLedger, setDarfPaid } from "@/app/actions/tax"
+import type { TaxLedgerEntry, TaxLedgerYear } from "@/types/tax"
+import { format, parseISO } from "date-fns"
+import { ptBR, enUS } from "date-fns/locale"
+
+interface TaxLedgerCardProps {
+	initialLedger: TaxLedgerYear | null
+	initialYear: number
+}
+
+export const TaxLedgerCard = ({ initialLedger, initialYear }: TaxLedgerCardProps) => {
+	const t = useTranslations("reports.tax")
+	const tCommon = useTranslations("common")
+	const locale = useLocale()
+	const dateLocale = locale === "pt-BR" ? ptBR : enUS
+	const { formatCurrency, formatCurrencyWithSign } = useFormatting()
+	const { showToast } = useToast()
+	const [ledger, setLedger] = useState<TaxLedgerYear | null>(initialLedger)
+	const [year, setYear] = useState(initialYear)
+	const [isPending, startTransition] = useTransition()
+
+	// Reset state when initialLedger changes (e.g., account switch)
+	useEffect(() => {
+		setLedger(initialLedger)
+		setYear(initialYear)
+	}, [initialLedger, initialYear])
+
+	const loadYear = async (targetYear: number) => {
+		const result = await getTaxLedger(targetYear)
+		if (result.status === "success" && result.data) {
+			setLedger(result.data)
+			setYear(targetYear)
+		}
+	}
+
+	const handleYearChange = (targetYear: number) => {
+		startTransition(async () => {
+			await loadYear(targetYear)
+		})
+	}
+
+	const handleRecalculate = () => {
+		startTransition(async () => {
+			const result = await recalculateTaxLedger()
+			if (result.status === "success") {
+				showToast("success", t("recalculated"))
+				await loadYear(year)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleTogglePaid = (entry: TaxLedgerEntry) => {
+		startTransition(async () => {
+			const result = await setDarfPaid({
+				year: entry.year,
+				month: entry.month,
+				paid: !entry.darfPaidAt,
+			})
+			if (result.status === "success") {
+				await loadYear(year)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	if (!ledger) {
+		return (
+			<div id="reports-tax" className="rounded-lg border border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500">
+				<h2 className="text-small sm:text-body font-semibold text-txt-100">{t("title")}</h2>
+				<p className="mt-m-400 text-txt-300">{tCommon("noData")}</p>
+			</div>
+		)
+	}
+
+	const { entries, totals, carryForward } = ledger
+	const isInformativeOnly = ledger.accountType === "prop" || ledger.accountType === "replay"
+
+	return (
+		<div id="reports-tax" className="rounded-lg border border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500">
+			{/* Header */}
+			<div className="flex flex-wrap items-center justify-between gap-s-300">
+				<div>
+					<h2 className="text-small sm:text-body font-semibold text-txt-100">{t("title")}</h2>
+					<p className="text-tiny text-txt-200">{t("description")}</p>
+				</div>
+				<div className="flex items-center gap-s-200">
+					<Button id="tax-ledger-previous-year"
+						variant="ghost"
+						size="sm"
+						onClick={() => handleYearChange(year - 1)}
+						disabled={isPending}
+					>
+						<ChevronLeft className="h-4 w-4" />
+					</Button>
+					<span className="text-small text-txt-200">{year}</span>
+					<Button id="tax-ledger-next-year"
+						variant="ghost"
+						size="sm"
+						onClick={() => handleYearChange(year + 1)}
+						disabled={isPending}
+					>
+						<ChevronRight className="h-4 w-4" />
+					</Button>
+					<Button id="tax-ledger-recalculate"
+						variant="outline"
+						size="sm"
+						onClick={handleRecalculate}
+						disabled={isPending}
+						className="gap-s-200"
+					>
+						{isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+						{t("recalculate")}
+					</Button>
+				</div>
+			</div>
+
+			{isInformativeOnly && (
+				<div className="mt-m-400 flex items-start gap-s-200 rounded-md border border-bg-300 bg-bg-100 p-s-300 text-tiny text-txt-200">
+					<Info className="mt-px h-4 w-4 shrink-0" />
+					<p>{t("informativeOnly")}</p>
+				</div>
+			)}
+
+			{entries.length === 0 ? (
+				<p className="mt-m-400 text-txt-300">{ledger.lastComputedAt ? tCommon("noData") : t("notComputed")}</p>
+			) : (
+				<>
+					{/* Year summary */}
+					<div className="mt-m-500 grid grid-cols-2 gap-m-400 sm:grid-cols-4">
+						<div>
+							<p className="text-tiny text-txt-200">{t("darfDueTotal")}</p>
+							<p className="text-h3 font-bold text-txt-100">
+								{formatCurrency(fromCents(totals.darfDueCents))}
+							</p>
+						</div>
+						<div>
+							<p className="text-tiny text-txt-200">{t("darfPaidTotal")}</p>
+							<p className="text-h3 font-bold text-trade-buy">
+								{formatCurrency(fromCents(totals.darfPaidCents))}
+							</p>
+						</div>
+						<div>
+							<p className="text-tiny text-txt-200">{t("irrfTotal")}</p>
+							<p className="text-h3 font-bold text-txt-100">
+								{formatCurrency(fromCents(totals.irrfCents))}
+							</p>
+						</div>
+						<div>
+							<p className="text-tiny text-txt-200">{t("lossCarryForward")}</p>
+							<p className="text-small font-medium text-txt-100">
+								{t("dayTradeShort")}: {formatCurrency(fromCents(carryForward.dayTradeLossCents))}
+							</p>
+							<p className="text-small font-medium text-txt-100">
+								{t("swingShort")}: {formatCurrency(fromCents(carryForward.swingLossCents))}
+							</p>
+						</div>
+					</div>
+
+					{/* Monthly apuração */}
+					<div className="mt-m-500">
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>{t("month")}</TableHead>
+									<TableHead className="text-right">{t("dayTradeResult")}</TableHead>
+									<TableHead className="text-right">{t("swingResult")}</TableHead>
+									<TableHead className="hidden text-right md:table-cell">{t("lossCarryOut")}</TableHead>
+									<TableHead className="text-right">{t("taxDue")}</TableHead>
+									<TableHead className="hidden text-right md:table-cell">{t("irrfCredit")}</TableHead>
+									<TableHead className="text-right">{t("darf")}</TableHead>
+									<TableHead className="hidden sm:table-cell">{t("dueDate")}</TableHead>
+									<TableHead className="text-center">{t("paid")}</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{entries.map((entry) => {
+									const monthKey = `${entry.year}-${String(entry.month).padStart(2, "0")}`
+									return (
+										<TableRow key={monthKey}>
+											<TableCell className="font-medium text-txt-100">
+												{format(new Date(entry.year, entry.month - 1, 1), "MMM", { locale: dateLocale })}
+											</TableCell>
+											<TableCell
+												className={cn(
+													"text-right font-mono",
+													entry.dayTradeResultCents >= 0 ? "text-trade-buy" : "text-trade-sell"
+												)}
+											>
+												{formatCurrencyWithSign(fromCents(entry.dayTradeResultCents))}
+											</TableCell>
+											<TableCell
+												className={cn(
+													"text-right font-mono",
+													entry.swingResultCents >= 0 ? "text-trade-buy" : "text-trade-sell"
+												)}
+											>
+												{formatCurrencyWithSign(fromCents(entry.swingResultCents))}
+												{entry.swingExempt && (
+													<Badge id={`badge-tax-exempt-${monthKey}`} variant="outline" className="ml-s-200 text-tiny">{t("exempt")}</Badge>
+												)}
+											</TableCell>
+											<TableCell className="hidden text-right font-mono text-txt-200 md:table-cell">
+												{formatCurrency(fromCents(entry.dayTradeLossCarryOutCents + entry.swingLossCarryOutCents))}
+											</TableCell>
+											<TableCell className="text-right font-mono text-txt-100">
+												{formatCurrency(fromCents(entry.dayTradeTaxCents + entry.swingTaxCents))}
+											</TableCell>
+											<TableCell className="hidden text-right font-mono text-txt-200 md:table-cell">
+												{formatCurrency(fromCents(entry.irrfCreditUsedCents))}
+											</TableCell>
+											<TableCell className="text-right font-mono font-semibold text-txt-100">
+												{entry.darfDueCents > 0
+													? formatCurrency(fromCents(entry.darfDueCents))
+													: entry.darfCarryOutCents > 0
+														? <span className="text-tiny font-normal text-txt-300">{t("belowMinimum")}</span>
+														: "—"}
+											</TableCell>
+											<TableCell className="hidden text-txt-200 sm:table-cell">
+												{format(parseISO(entry.darfDueDate), "P", { locale: dateLocale })}
+											</TableCell>
+											<TableCell className="text-center">
+												{entry.darfDueCents > 0 && (
+													<Button id={`tax-ledger-toggle-paid-${monthKey}`}
+														variant={entry.darfPaidAt ? "default" : "outline"}
+														size="sm"
+														onClick={() => handleTogglePaid(entry)}
+														disabled={isPending}
+														aria-label={entry.darfPaidAt ? t("markUnpaid") : t("markPaid")}
+													>
+														<Check className="h-4 w-4" />
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									)
+								})}
+							</TableBody>
+						</Table>
+					</div>
+
+					{carryForward.irrfCreditCents > 0 && (
+						<p className="mt-m-400 text-tiny text-txt-200">
+							{t("irrfCreditCarry", { amount: formatCurrency(fromCents(carryForward.irrfCreditCents)) })}
+						</p>
+					)}
+				</>
+			)}
+		</div>
+	)
+}
@@ -2,6 +2,7 @@ export { RiskSimulationContent } from "./risk-simulation-content"
 export { SimulationConfigPanel } from "./simulation-config-panel"
 export { RiskParamsForm } from "./risk-params-form"
 export { PrefillSelector } from "./prefill-selector"
+export { ProfileVersionSelector } from "./profile-version-selector"
 export { PreviewBanner } from "./preview-banner"
 export { SummaryCards } from "./summary-cards"
 export { EquityCurveOverlay } from "./equity-curve-overlay"
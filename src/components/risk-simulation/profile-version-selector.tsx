@@ -0,0 +1,83 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useTranslations } from "next-intl"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useFormatting } from "@/hooks/use-formatting"
+import { listRiskProfileVersions } from "@/app/actions/risk-profiles"
+import type { RiskProfileVersion } from "@/types/risk-profile"
+
+interface ProfileVersionSelectorProps {
+	profileId: string
+	selectedVersionId: string | null
+	onSelect: (version: RiskProfileVersion) => void
+}
+
+/**
+ * Lets the user replay a historic version of the selected risk profile.
+ * Hidden while the profile only has a single version.
+ */
+const ProfileVersionSelector = ({
+	profileId,
+	selectedVersionId,
+	onSelect,
+}: ProfileVersionSelectorProps) => {
+	const t = useTranslations("riskSimulation.config")
+	const { formatShortDate } = useFormatting()
+	const [versions, setVersions] = useState<RiskProfileVersion[]>([])
+
+	useEffect(() => {
+		let cancelled = false
+		listRiskProfileVersions(profileId).then((response) => {
+			if (!cancelled && response.status === "success" && response.data) {
+				setVersions(response.data)
+			}
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [profileId])
+
+	if (versions.length < 2) return null
+
+	const handleChange = (versionId: string) => {
+		const version = versions.find((v) => v.id === versionId)
+		if (version) onSelect(version)
+	}
+
+	return (
+		<div id="sim-profile-version">
+			<h3 className="text-small text-txt-100 mb-s-300 font-semibold">
+				{t("profileVersion")}
+			</h3>
+			<Select value={selectedVersionId ?? ""} onValueChange={handleChange}>
+				<SelectTrigger
+					id="sim-profile-version-select"
+					size="sm"
+					className="w-full sm:max-w-xs"
+					aria-label={t("profileVersion")}
+				>
+					<SelectValue placeholder={t("profileVersionCurrent")} />
+				</SelectTrigger>
+				<SelectContent>
+					{versions.map((version, index) => (
+						<SelectItem key={version.id} value={version.id}>
+							{index === 0
+								? t("profileVersionLatest", { version: version.version, date: formatShortDate(new Date(version.createdAt)) })
+								: t("profileVersionOption", { version: version.version, date: formatShortDate(new Date(version.createdAt)) })}
+						</SelectItem>
+					))}
+				</SelectContent>
+			</Select>
+			<p className="text-tiny text-txt-300 mt-s-100">{t("profileVersionHint")}</p>
+		</div>
+	)
+}
+
+export { ProfileVersionSelector }
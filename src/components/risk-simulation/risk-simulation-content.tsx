@@ -13,12 +13,15 @@ import { EquityCurveOverlay } from "./equity-curve-overlay"
 import { TradeComparisonTable } from "./trade-comparison-table"
 import { SkippedTradesWarning } from "./skipped-trades-warning"
 import { DecisionTraceModal } from "./decision-trace-modal"
+import { SimulationRunHistory } from "@/components/simulation-runs"
+import { useToast } from "@/components/ui/toast"
 import {
 	getSimulationPreview,
 	runRiskSimulationFromDb,
+	reopenRiskSimulationRun,
 } from "@/app/actions/risk-simulation"
 import type { MonthlyPlan } from "@/db/schema"
-import type { RiskManagementProfile } from "@/types/risk-profile"
+import type { RiskManagementProfile, RiskProfileVersion } from "@/types/risk-profile"
 import type {
 	PrefillSource,
 	AdvancedSimulationParams,
@@ -26,6 +29,7 @@ import type {
 	RiskSimulationResult,
 	SimulationPreview,
 } from "@/types/risk-simulation"
+import type { SimulationRun } from "@/types/simulation-run"
 
 interface RiskSimulationContentProps {
 	monthlyPlan: MonthlyPlan | null
@@ -41,7 +45,9 @@ const RiskSimulationContent = ({
 	const t = useTranslations("riskSimulation")
 	const tCommon = useTranslations("common")
 	const tOverlay = useTranslations("overlay")
+	const tRuns = useTranslations("simulationRuns")
 	const { showLoading, hideLoading } = useLoadingOverlay()
+	const { showToast } = useToast()
 
 	// Register page guide so the header trigger appears
 	useRegisterPageGuide(riskSimulationGuide)
@@ -60,12 +66,15 @@ const RiskSimulationContent = ({
 	// Prefill state
 	const [prefillSource, setPrefillSource] = useState<PrefillSource | null>(null)
 	const [activeProfileId, setActiveProfileId] = useState<string | null>(null)
+	const [activeVersionId, setActiveVersionId] = useState<string | null>(null)
 	const originalAdvancedParamsRef = useRef<AdvancedSimulationParams | null>(null)
 
 	// Result state
 	const [result, setResult] = useState<RiskSimulationResult | null>(null)
 	const [traceModalOpen, setTraceModalOpen] = useState(false)
 	const [error, setError] = useState<string | null>(null)
+	// Bumped after each recorded run so the history list reloads
+	const [historyKey, setHistoryKey] = useState(0)
 
 	const handleDateChange = useCallback(
 		async (from: string, to: string) => {
@@ -100,6 +109,7 @@ const RiskSimulationContent = ({
 		(newParams: RiskSimulationParams, source: PrefillSource, profileId?: string) => {
 			setPrefillSource(source)
 			setActiveProfileId(profileId ?? null)
+			setActiveVersionId(null)
 			setParams(newParams)
 			setResult(null)
 
@@ -112,22 +122,75 @@ const RiskSimulationContent = ({
 		[]
 	)
 
+	/** Swap in a historic version's rules, keeping the simulated account balance */
+	const handleVersionSelect = useCallback(
+		(version: RiskProfileVersion) => {
+			if (!params) return
+
+			const versionParams: AdvancedSimulationParams = {
+				mode: "advanced",
+				accountBalanceCents: params.accountBalanceCents,
+				decisionTree: version.decisionTree,
+				dailyLossCents: version.dailyLossCents,
+				dailyProfitTargetCents: version.dailyProfitTargetCents,
+				weeklyLossCents: version.weeklyLossCents,
+				monthlyLossCents: version.monthlyLossCents,
+			}
+			originalAdvancedParamsRef.current = { ...versionParams }
+			setActiveVersionId(version.id)
+			setParams(versionParams)
+			setResult(null)
+		},
+		[params]
+	)
+
+	/** Manual edits no longer match any stored version */
+	const handleParamsChange = useCallback((newParams: RiskSimulationParams) => {
+		setParams(newParams)
+		setActiveVersionId(null)
+	}, [])
+
 	const handleRunSimulation = useCallback(async () => {
 		if (!dateFrom || !dateTo || !params) return
 
 		setError(null)
 		showLoading({ message: tOverlay("runningRiskSimulation") })
 
-		const response = await runRiskSimulationFromDb(dateFrom, dateTo, params)
+		const response = await runRiskSimulationFromDb(dateFrom, dateTo, params, activeVersionId)
 
 		hideLoading()
 
 		if (response.status === "success" && response.data) {
 			setResult(response.data)
+			setHistoryKey((key) => key + 1)
 		} else {
 			setError(response.errors?.[0]?.detail ?? response.message)
 		}
-	}, [dateFrom, dateTo, params, showLoading, hideLoading, tOverlay])
+	}, [dateFrom, dateTo, params, activeVersionId, showLoading, hideLoading, tOverlay])
+
+	/** Replay a saved run against the current trades and restore its range and rules */
+	const handleReopenRun = useCallback(
+		async (run: SimulationRun) => {
+			const response = await reopenRiskSimulationRun(run.id)
+			if (response.status !== "success" || !response.data) {
+				showToast("error", tRuns("reopenError"))
+				return
+			}
+
+			const { inputs } = response.data.run
+			if (inputs.kind !== "risk_simulation") return
+
+			await handleDateChange(inputs.dateFrom, inputs.dateTo)
+			setPrefillSource(null)
+			setActiveProfileId(null)
+			setActiveVersionId(inputs.profileVersionId)
+			setParams(inputs.params)
+			originalAdvancedParamsRef.current =
+				inputs.params.mode === "advanced" ? { ...inputs.params } : null
+			setResult(response.data.result)
+		},
+		[handleDateChange, showToast, tRuns]
+	)
 
 	const allTradesLackSl = preview !== null && preview.tradesWithSl === 0 && preview.totalTrades > 0
 	const canRun = dateFrom && dateTo && params && preview && !allTradesLackSl
@@ -151,7 +214,7 @@ const RiskSimulationContent = ({
 				onDateChange={handleDateChange}
 				tradeYears={tradeYears}
 				params={params}
-				onParamsChange={setParams}
+				onParamsChange={handleParamsChange}
 				preview={preview}
 				isLoadingPreview={isLoadingPreview}
 				monthlyPlan={monthlyPlan}
@@ -160,6 +223,8 @@ const RiskSimulationContent = ({
 				prefillSource={prefillSource}
 				activeProfileId={activeProfileId}
 				onPrefillSelect={handlePrefillSelect}
+				activeVersionId={activeVersionId}
+				onVersionSelect={handleVersionSelect}
 				isLocked={isLocked}
 				originalAdvancedParams={originalAdvancedParamsRef.current}
 			/>
@@ -216,6 +281,12 @@ const RiskSimulationContent = ({
 					/>
 				</div>
 			)}
+
+			<SimulationRunHistory
+				kinds={["risk_simulation"]}
+				refreshKey={historyKey}
+				onReopen={handleReopenRun}
+			/>
 		</div>
 	)
 }
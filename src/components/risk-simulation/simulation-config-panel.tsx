@@ -12,10 +12,11 @@ import {
 	SelectValue,
 } from "@/components/ui/select"
 import { PrefillSelector } from "./prefill-selector"
+import { ProfileVersionSelector } from "./profile-version-selector"
 import { RiskParamsForm } from "./risk-params-form"
 import { PreviewBanner } from "./preview-banner"
 import type { MonthlyPlan } from "@/db/schema"
-import type { RiskManagementProfile } from "@/types/risk-profile"
+import type { RiskManagementProfile, RiskProfileVersion } from "@/types/risk-profile"
 import type {
 	PrefillSource,
 	AdvancedSimulationParams,
@@ -38,6 +39,8 @@ interface SimulationConfigPanelProps {
 	prefillSource: PrefillSource | null
 	activeProfileId: string | null
 	onPrefillSelect: (params: RiskSimulationParams, source: PrefillSource, profileId?: string) => void
+	activeVersionId: string | null
+	onVersionSelect: (version: RiskProfileVersion) => void
 	isLocked: boolean
 	originalAdvancedParams: AdvancedSimulationParams | null
 }
@@ -75,6 +78,8 @@ const SimulationConfigPanel = ({
 	prefillSource,
 	activeProfileId,
 	onPrefillSelect,
+	activeVersionId,
+	onVersionSelect,
 	isLocked,
 	originalAdvancedParams,
 }: SimulationConfigPanelProps) => {
@@ -196,6 +201,14 @@ const SimulationConfigPanel = ({
 						activeProfileId={activeProfileId}
 					/>
 
+					{prefillSource === "riskProfile" && activeProfileId && (
+						<ProfileVersionSelector
+							profileId={activeProfileId}
+							selectedVersionId={activeVersionId}
+							onSelect={onVersionSelect}
+						/>
+					)}
+
 					{params && (
 						<RiskParamsForm
 							params={params}
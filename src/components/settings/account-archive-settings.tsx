@@ -0,0 +1,242 @@
+"use client"
+
+import { useRef, useState, type ChangeEvent } from "react"
+import { useTranslations } from "next-intl"
+import { useRouter } from "next/navigation"
+import { Download, FileArchive, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { useToast } from "@/components/ui/toast"
+import type {
+	AccountArchiveImportResult,
+	AccountArchiveImportTarget,
+	AccountArchiveSection,
+} from "@/types/account-archive"
+
+const MESSAGE_PREFIX = "settings.dataArchive."
+
+const SECTIONS: AccountArchiveSection[] = [
+	"trades",
+	"executions",
+	"strategies",
+	"tags",
+	"conditions",
+	"monthlyPlans",
+	"checklists",
+	"checklistCompletions",
+	"dailyNotes",
+	"assetSettings",
+]
+
+/** File name from a Content-Disposition header */
+const getDownloadName = (header: string | null): string | null => header?.match(/filename="([^"]+)"/)?.[1] ?? null
+
+interface AccountArchiveSettingsProps {
+	accountName: string
+}
+
+export const AccountArchiveSettings = ({ accountName }: AccountArchiveSettingsProps) => {
+	const t = useTranslations("settings.dataArchive")
+	const { showToast } = useToast()
+	const router = useRouter()
+	const fileInputRef = useRef<HTMLInputElement>(null)
+	const [isExporting, setIsExporting] = useState(false)
+	const [isImporting, setIsImporting] = useState(false)
+	const [file, setFile] = useState<File | null>(null)
+	const [target, setTarget] = useState<AccountArchiveImportTarget>("new")
+	const [newAccountName, setNewAccountName] = useState("")
+	const [result, setResult] = useState<AccountArchiveImportResult | null>(null)
+
+	/** Route messages under settings.dataArchive are shown as-is, anything else generically */
+	const toErrorMessage = (message: unknown, fallback: "exportFailed" | "importFailed"): string => {
+		if (message === "api.errors.tooManyRequests") return t("errors.tooManyRequests")
+		if (typeof message === "string" && message.startsWith(MESSAGE_PREFIX)) {
+			return t(message.slice(MESSAGE_PREFIX.length))
+		}
+		return t(`errors.${fallback}`)
+	}
+
+	const handleExport = async () => {
+		setIsExporting(true)
+		try {
+			const response = await fetch("/api/account-archive/export")
+			if (!response.ok) {
+				const data = await response.json().catch(() => null)
+				showToast("error", toErrorMessage(data?.message, "exportFailed"))
+				return
+			}
+
+			const blob = await response.blob()
+			const url = URL.createObjectURL(blob)
+			const a = document.createElement("a")
+			a.href = url
+			a.download = getDownloadName(response.headers.get("Content-Disposition")) ?? "axion-account.zip"
+			document.body.appendChild(a)
+			a.click()
+			document.body.removeChild(a)
+			URL.revokeObjectURL(url)
+		} catch {
+			showToast("error", t("errors.exportFailed"))
+		} finally {
+			setIsExporting(false)
+		}
+	}
+
+	const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+		setFile(e.target.files?.[0] ?? null)
+		setResult(null)
+	}
+
+	const handleImport = async () => {
+		if (!file) return
+		setIsImporting(true)
+		try {
+			const formData = new FormData()
+			formData.append("file", file)
+			formData.append("target", target)
+			if (target === "new" && newAccountName.trim()) {
+				formData.append("accountName", newAccountName.trim())
+			}
+
+			const response = await fetch("/api/account-archive/import", { method: "POST", body: formData })
+			const data = await response.json()
+
+			if (data.status !== "success") {
+				showToast("error", toErrorMessage(data.message, "importFailed"))
+				return
+			}
+
+			setResult(data.data)
+			setFile(null)
+			setNewAccountName("")
+			if (fileInputRef.current) fileInputRef.current.value = ""
+			showToast("success", t("importSuccess"))
+			router.refresh()
+		} catch {
+			showToast("error", t("errors.importFailed"))
+		} finally {
+			setIsImporting(false)
+		}
+	}
+
+	return (
+		<div id="settings-data-archive" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+			<h2 className="text-small sm:text-body text-txt-100 font-semibold">{t("title")}</h2>
+			<p className="mt-s-100 text-tiny text-txt-300">{t("description")}</p>
+
+			{/* Export */}
+			<div className="mt-m-400 gap-m-400 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+				<div>
+					<p className="text-small text-txt-100">{t("exportTitle")}</p>
+					<p className="mt-s-100 text-tiny text-txt-300">{t("exportDescription", { account: accountName })}</p>
+				</div>
+				<Button
+					id="data-archive-export"
+					variant="outline"
+					size="sm"
+					onClick={handleExport}
+					disabled={isExporting}
+				>
+					{isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+					{t("exportButton")}
+				</Button>
+			</div>
+
+			{/* Import */}
+			<div className="border-bg-300 mt-m-400 pt-m-400 space-y-m-400 border-t">
+				<div>
+					<p className="text-small text-txt-100">{t("importTitle")}</p>
+					<p className="mt-s-100 text-tiny text-txt-300">{t("importDescription")}</p>
+				</div>
+
+				<div className="gap-s-300 flex flex-wrap items-center">
+					<input
+						ref={fileInputRef}
+						type="file"
+						accept=".zip,.json"
+						onChange={handleFileChange}
+						className="hidden"
+						id="data-archive-file-input"
+					/>
+					<Button
+						id="data-archive-choose-file"
+						variant="outline"
+						size="sm"
+						onClick={() => fileInputRef.current?.click()}
+						disabled={isImporting}
+					>
+						<FileArchive className="mr-2 h-4 w-4" />
+						{t("chooseFile")}
+					</Button>
+					<span className="text-tiny text-txt-300 break-all">{file?.name ?? t("noFile")}</span>
+				</div>
+
+				<RadioGroup
+					id="data-archive-target"
+					value={target}
+					onValueChange={(value) => setTarget(value as AccountArchiveImportTarget)}
+					className="space-y-s-200"
+				>
+					<div className="flex items-center space-x-2">
+						<RadioGroupItem value="new" id="data-archive-target-new" />
+						<Label id="label-data-archive-target-new" htmlFor="data-archive-target-new" className="cursor-pointer font-normal">
+							{t("targetNew")}
+						</Label>
+					</div>
+					<div className="flex items-center space-x-2">
+						<RadioGroupItem value="current" id="data-archive-target-current" />
+						<Label id="label-data-archive-target-current" htmlFor="data-archive-target-current" className="cursor-pointer font-normal">
+							{t("targetCurrent", { account: accountName })}
+						</Label>
+					</div>
+				</RadioGroup>
+
+				{target === "new" ? (
+					<div className="space-y-s-100 sm:max-w-sm">
+						<Label id="label-data-archive-account-name" htmlFor="data-archive-account-name">{t("accountName")}</Label>
+						<Input
+							id="data-archive-account-name"
+							value={newAccountName}
+							onChange={(e) => setNewAccountName(e.target.value)}
+							placeholder={t("accountNamePlaceholder")}
+							maxLength={100}
+						/>
+					</div>
+				) : (
+					<p className="text-tiny text-txt-300">{t("mergeHint")}</p>
+				)}
+
+				<Button
+					id="data-archive-import"
+					size="sm"
+					onClick={handleImport}
+					disabled={!file || isImporting}
+				>
+					{isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+					{t("importButton")}
+				</Button>
+
+				{result && (
+					<div id="data-archive-result" className="border-bg-300 bg-bg-100 p-s-300 space-y-s-200 rounded-lg border">
+						<p className="text-small text-txt-100 font-medium">
+							{result.createdAccount
+								? t("resultCreated", { account: result.accountName })
+								: t("resultMerged", { account: result.accountName })}
+						</p>
+						<ul className="text-tiny text-txt-300 gap-x-m-400 gap-y-s-100 grid grid-cols-1 sm:grid-cols-2">
+							{SECTIONS.map((section) => (
+								<li key={section}>
+									{t(`sections.${section}`)}:{" "}
+									{t("resultCounts", { imported: result.imported[section], skipped: result.skipped[section] })}
+								</li>
+							))}
+						</ul>
+						{result.createdAccount && <p className="text-tiny text-txt-300">{t("switchHint")}</p>}
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -30,6 +30,8 @@ import { useLoadingOverlay } from "@/components/ui/loading-overlay"
 import { cn } from "@/lib/utils"
 import { RecalculateButton } from "./recalculate-button"
 import { RecalculatePnLButton } from "./recalculate-pnl-button"
+import { PropRulesSettings } from "./prop-rules-settings"
+import { AccountArchiveSettings } from "./account-archive-settings"
 import { Link } from "@/i18n/routing"
 import {
 	getCurrentAccount,
@@ -58,7 +60,7 @@ interface AccountSettingsProps {
 const AccountSettings = ({ assets }: AccountSettingsProps) => {
 	const t = useTranslations("settings.account")
 	const tGeneral = useTranslations("settings.general")
-	const { isAdmin } = useFeatureAccess()
+	const { isAdmin, canAccess } = useFeatureAccess()
 	const tCommon = useTranslations("common")
 	const tOverlay = useTranslations("overlay")
 	const { showToast } = useToast()
@@ -122,10 +124,8 @@ const AccountSettings = ({ assets }: AccountSettingsProps) => {
 						).toString(),
 						defaultFees: fromCents(accountData.defaultFees).toString(),
 						defaultBreakevenTicks: accountData.defaultBreakevenTicks.toString(),
-						replayStartDate: accountData.replayCurrentDate
-							? new Date(accountData.replayCurrentDate)
-									.toISOString()
-									.split("T")[0]
+						replayStartDate: accountData.replayStartDate
+							? formatDateKey(new Date(accountData.replayStartDate))
 							: "",
 						defaultAsset: accountData.defaultAsset || "",
 					})
@@ -456,8 +456,8 @@ const AccountSettings = ({ assets }: AccountSettingsProps) => {
 								/>
 							) : (
 								<span className="text-small text-txt-200">
-									{account?.replayCurrentDate
-										? new Date(account.replayCurrentDate).toLocaleDateString()
+									{account?.replayStartDate
+										? new Date(account.replayStartDate).toLocaleDateString()
 										: "-"}
 								</span>
 							)}
@@ -578,10 +578,8 @@ const AccountSettings = ({ assets }: AccountSettingsProps) => {
 										defaultFees: fromCents(account.defaultFees).toString(),
 										defaultBreakevenTicks:
 											account.defaultBreakevenTicks.toString(),
-										replayStartDate: account.replayCurrentDate
-											? new Date(account.replayCurrentDate)
-													.toISOString()
-													.split("T")[0]
+										replayStartDate: account.replayStartDate
+											? formatDateKey(new Date(account.replayStartDate))
 											: "",
 										defaultAsset: account.defaultAsset || "",
 									})
@@ -604,6 +602,9 @@ const AccountSettings = ({ assets }: AccountSettingsProps) => {
 				)}
 			</div>
 
+			{/* Prop Evaluation Rules */}
+			{account?.accountType === "prop" && <PropRulesSettings />}
+
 			{/* Default Commission & Fees */}
 			<div id="settings-default-fees" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
 				<div className="flex items-center justify-between">
@@ -946,19 +947,9 @@ const AccountSettings = ({ assets }: AccountSettingsProps) => {
 				</div>
 			)}
 
-			{/* Data Export — admin only */}
-			{isAdmin && (
-				<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
-					<h2 className="text-small sm:text-body text-txt-100 font-semibold">
-						{tGeneral("dataExport")}
-					</h2>
-					<p className="mt-m-400 text-small text-txt-200">
-						{tGeneral("dataExportDesc")}
-					</p>
-					<p className="mt-m-400 text-tiny text-txt-300">
-						{tGeneral("exportComingSoon")}
-					</p>
-				</div>
+			{/* Data Export & Import — account archive */}
+			{canAccess("settings:data-export") && account && (
+				<AccountArchiveSettings accountName={account.name} />
 			)}
 
 			{/* Danger Zone */}
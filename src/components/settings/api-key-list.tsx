@@ -0,0 +1,331 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import { listApiKeys, createApiKey, revokeApiKey } from "@/app/actions/api-keys"
+import { getUserAccounts } from "@/app/actions/auth"
+import { API_KEY_SCOPES, ADMIN_API_KEY_SCOPES } from "@/lib/api-keys"
+import { formatDateTime } from "@/lib/dates"
+import type { ApiKey, ApiKeyScope } from "@/types/api-key"
+import type { TradingAccount } from "@/db/schema"
+import { Copy, KeyRound, Loader2, Plus } from "lucide-react"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+
+const ANY_ACCOUNT = "any"
+const NEVER_EXPIRES = "never"
+const EXPIRY_OPTIONS = ["30", "90", "365", NEVER_EXPIRES] as const
+
+interface ApiKeyListProps {
+	isAdmin: boolean
+}
+
+export const ApiKeyList = ({ isAdmin }: ApiKeyListProps) => {
+	const t = useTranslations("settings.apiKeys")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+
+	const [keys, setKeys] = useState<ApiKey[]>([])
+	const [accounts, setAccounts] = useState<TradingAccount[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+
+	const [name, setName] = useState("")
+	const [scopes, setScopes] = useState<ApiKeyScope[]>(["trades:read"])
+	const [accountId, setAccountId] = useState<string>(ANY_ACCOUNT)
+	const [expiry, setExpiry] = useState<string>("90")
+	const [newToken, setNewToken] = useState<string | null>(null)
+
+	const availableScopes = API_KEY_SCOPES.filter(
+		(scope) => isAdmin || !ADMIN_API_KEY_SCOPES.includes(scope)
+	)
+
+	const loadKeys = async () => {
+		const result = await listApiKeys()
+		if (result.status === "success" && result.data) {
+			setKeys(result.data)
+		}
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		loadKeys()
+		getUserAccounts().then(setAccounts)
+	}, [])
+
+	const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+		setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+	}
+
+	const handleCreate = () => {
+		startTransition(async () => {
+			const result = await createApiKey({
+				name,
+				scopes,
+				accountId: accountId === ANY_ACCOUNT ? null : accountId,
+				expiresInDays: expiry === NEVER_EXPIRES ? null : Number(expiry),
+			})
+			if (result.status === "success" && result.data) {
+				setNewToken(result.data.token)
+				setName("")
+				showToast("success", t("created"))
+				await loadKeys()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleRevoke = (id: string) => {
+		startTransition(async () => {
+			const result = await revokeApiKey(id)
+			if (result.status === "success") {
+				showToast("success", t("revoked"))
+				await loadKeys()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleCopyToken = async () => {
+		if (!newToken) return
+		await navigator.clipboard.writeText(newToken)
+		showToast("success", t("tokenCopied"))
+	}
+
+	const getStatus = (key: ApiKey): "active" | "revoked" | "expired" => {
+		if (key.revokedAt) return "revoked"
+		if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) return "expired"
+		return "active"
+	}
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-api-keys" className="space-y-m-500">
+			<div>
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-small text-txt-300">{t("description")}</p>
+			</div>
+
+			{/* Create form */}
+			<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 space-y-m-400 rounded-lg border">
+				<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-3">
+					<div className="space-y-s-200">
+						<label htmlFor="api-key-name" className="text-small text-txt-200">
+							{t("name")}
+						</label>
+						<Input
+							id="api-key-name"
+							value={name}
+							maxLength={100}
+							placeholder={t("namePlaceholder")}
+							onChange={(e) => setName(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="api-key-account" className="text-small text-txt-200">
+							{t("account")}
+						</label>
+						<Select value={accountId} onValueChange={setAccountId}>
+							<SelectTrigger id="api-key-account" aria-label={t("account")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ANY_ACCOUNT}>{t("anyAccount")}</SelectItem>
+								{accounts.map((account) => (
+									<SelectItem key={account.id} value={account.id}>
+										{account.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="api-key-expiry" className="text-small text-txt-200">
+							{t("expiry")}
+						</label>
+						<Select value={expiry} onValueChange={setExpiry}>
+							<SelectTrigger id="api-key-expiry" aria-label={t("expiry")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{EXPIRY_OPTIONS.map((option) => (
+									<SelectItem key={option} value={option}>
+										{option === NEVER_EXPIRES ? t("neverExpires") : t("expiresInDays", { days: Number(option) })}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<fieldset className="space-y-s-200">
+					<legend className="text-small text-txt-200 mb-s-200">{t("scopes")}</legend>
+					<div className="gap-s-300 grid grid-cols-1 sm:grid-cols-2">
+						{availableScopes.map((scope) => (
+							<div key={scope} className="gap-s-200 flex items-start">
+								<Checkbox
+									id={`api-key-scope-${scope}`}
+									checked={scopes.includes(scope)}
+									onCheckedChange={(value) => toggleScope(scope, value === true)}
+								/>
+								<label htmlFor={`api-key-scope-${scope}`} className="text-small text-txt-200 cursor-pointer">
+									<span className="text-txt-100 font-mono">{scope}</span>
+									<span className="text-caption text-txt-300 block">{t(`scopeHelp.${scope}`)}</span>
+								</label>
+							</div>
+						))}
+					</div>
+				</fieldset>
+
+				<div className="flex justify-end">
+					<Button
+						id="api-key-create"
+						onClick={handleCreate}
+						disabled={isPending || !name.trim() || scopes.length === 0}
+						aria-label={t("create")}
+					>
+						{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+						{t("create")}
+					</Button>
+				</div>
+
+				{newToken && (
+					<div className="border-acc-100/40 bg-acc-100/5 p-s-300 space-y-s-200 rounded-lg border">
+						<p className="text-small text-txt-100 font-medium">{t("tokenOnce")}</p>
+						<div className="gap-s-200 flex items-center">
+							<code className="bg-bg-100 text-caption text-txt-100 px-s-200 py-s-100 min-w-0 flex-1 truncate rounded">
+								{newToken}
+							</code>
+							<Button
+								id="api-key-copy-token"
+								variant="outline"
+								size="sm"
+								onClick={handleCopyToken}
+								aria-label={t("copyToken")}
+							>
+								<Copy className="mr-2 h-4 w-4" />
+								{t("copyToken")}
+							</Button>
+						</div>
+					</div>
+				)}
+			</div>
+
+			{/* Existing keys */}
+			{keys.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-txt-300 rounded-lg border text-center">
+					{t("empty")}
+				</div>
+			) : (
+				<div className="space-y-s-300">
+					{keys.map((key) => {
+						const status = getStatus(key)
+						return (
+							<div
+								key={key.id}
+								className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 gap-m-400 flex items-start justify-between rounded-lg border"
+							>
+								<div className="gap-s-300 flex min-w-0 items-start">
+									<KeyRound className="text-txt-300 mt-1 h-4 w-4 shrink-0" />
+									<div className="min-w-0 space-y-s-100">
+										<div className="gap-s-200 flex flex-wrap items-center">
+											<p className="text-body text-txt-100 font-medium">{key.name}</p>
+											<code className="text-caption text-txt-300">{key.keyPrefix}…</code>
+											{status !== "active" && (
+												<Badge id={`api-key-status-${key.id}`} variant="outline">
+													{t(`status.${status}`)}
+												</Badge>
+											)}
+										</div>
+										<div className="gap-s-100 flex flex-wrap">
+											{key.scopes.map((scope) => (
+												<Badge key={scope} id={`api-key-${key.id}-scope-${scope}`} variant="secondary">
+													{scope}
+												</Badge>
+											))}
+										</div>
+										<p className="text-caption text-txt-300">
+											{key.accountName ?? t("anyAccount")} •{" "}
+											{key.lastUsedAt
+												? t("lastUsed", { date: formatDateTime(key.lastUsedAt) })
+												: t("neverUsed")}{" "}
+											•{" "}
+											{key.expiresAt
+												? t("expiresAt", { date: formatDateTime(key.expiresAt) })
+												: t("neverExpires")}
+										</p>
+									</div>
+								</div>
+								{status === "active" && (
+									<AlertDialog>
+										<AlertDialogTrigger asChild>
+											<Button
+												id={`api-key-revoke-${key.id}`}
+												variant="outline"
+												size="sm"
+												className="shrink-0"
+												disabled={isPending}
+											>
+												{t("revoke")}
+											</Button>
+										</AlertDialogTrigger>
+										<AlertDialogContent>
+											<AlertDialogHeader>
+												<AlertDialogTitle>{t("revokeTitle")}</AlertDialogTitle>
+												<AlertDialogDescription>
+													{t("revokeDescription", { name: key.name })}
+												</AlertDialogDescription>
+											</AlertDialogHeader>
+											<AlertDialogFooter>
+												<AlertDialogCancel id={`api-key-revoke-cancel-${key.id}`}>
+													{tCommon("cancel")}
+												</AlertDialogCancel>
+												<AlertDialogAction
+													id={`api-key-revoke-confirm-${key.id}`}
+													className="bg-fb-error hover:bg-fb-error/90"
+													onClick={() => handleRevoke(key.id)}
+												>
+													{t("revoke")}
+												</AlertDialogAction>
+											</AlertDialogFooter>
+										</AlertDialogContent>
+									</AlertDialog>
+								)}
+							</div>
+						)
+					})}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { useTranslations } from "next-intl"
+import { Loader2, Lock, LockOpen, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table"
+import { useToast } from "@/components/ui/toast"
+import { getEncryptionStatus } from "@/app/actions/encryption"
+import { formatDateTime } from "@/lib/dates"
+import type { EncryptionStatus as EncryptionStatusData, TableEncryptionCoverage } from "@/types/encryption"
+
+/** Share of non-empty rows that are fully encrypted */
+const getCoveragePercent = (coverage: TableEncryptionCoverage): number => {
+	const withData = coverage.encryptedRows + coverage.plaintextRows
+	return withData === 0 ? 100 : Math.floor((coverage.encryptedRows / withData) * 100)
+}
+
+export const EncryptionStatus = () => {
+	const t = useTranslations("settings.encryption")
+	const { showToast } = useToast()
+	const [status, setStatus] = useState<EncryptionStatusData | null>(null)
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+
+	const loadStatus = async () => {
+		const result = await getEncryptionStatus()
+		if (result.status === "success" && result.data) {
+			setStatus(result.data)
+		} else {
+			showToast("error", result.message)
+		}
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		loadStatus()
+	}, [])
+
+	const handleRefresh = () => {
+		startTransition(async () => {
+			await loadStatus()
+		})
+	}
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	if (!status) return null
+
+	return (
+		<div id="settings-encryption" className="space-y-m-500">
+			<div className="gap-m-400 flex flex-wrap items-start justify-between">
+				<div>
+					<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+					<p className="text-small text-txt-300">{t("description")}</p>
+				</div>
+				<Button id="encryption-refresh" variant="outline" size="sm" onClick={handleRefresh} disabled={isPending}>
+					{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+					{t("refresh")}
+				</Button>
+			</div>
+
+			{/* Key configuration */}
+			<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 space-y-s-200 rounded-lg border">
+				<div className="gap-s-200 flex flex-wrap items-center">
+					{status.configured ? (
+						<Lock className="text-trade-buy h-4 w-4" />
+					) : (
+						<LockOpen className="text-trade-sell h-4 w-4" />
+					)}
+					<span className="text-small text-txt-100 font-medium">
+						{status.configured ? t("configured") : t("notConfigured")}
+					</span>
+					{status.masterKeyRotationPending && (
+						<Badge id="encryption-master-key-rotation" variant="outline">
+							{t("masterKeyRotationPending")}
+						</Badge>
+					)}
+				</div>
+				<p id="encryption-user-summary" className="text-caption text-txt-300">
+					{t("usersWithDek", { withDek: status.users.withDek, total: status.users.total })}
+					{status.users.rotatingDek > 0 && <> • {t("usersRotating", { count: status.users.rotatingDek })}</>}
+				</p>
+			</div>
+
+			{/* Coverage per table */}
+			<div className="overflow-x-auto rounded-md border">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>{t("table")}</TableHead>
+							<TableHead className="text-right">{t("encryptedRows")}</TableHead>
+							<TableHead className="text-right">{t("plaintextRows")}</TableHead>
+							<TableHead className="hidden text-right sm:table-cell">{t("emptyRows")}</TableHead>
+							<TableHead className="w-40">{t("coverage")}</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{status.tables.map((coverage) => {
+							const percent = getCoveragePercent(coverage)
+							return (
+								<TableRow key={coverage.table} id={`encryption-coverage-${coverage.table}`}>
+									<TableCell className="text-txt-100 font-medium">{t(`tables.${coverage.table}`)}</TableCell>
+									<TableCell className="text-right">{coverage.encryptedRows}</TableCell>
+									<TableCell
+										className={`text-right ${coverage.plaintextRows > 0 ? "text-warning" : ""}`}
+									>
+										{coverage.plaintextRows}
+									</TableCell>
+									<TableCell className="hidden text-right sm:table-cell">{coverage.emptyRows}</TableCell>
+									<TableCell>
+										<div className="gap-s-200 flex items-center">
+											<div className="bg-bg-300 h-2 flex-1 overflow-hidden rounded-full">
+												<div
+													className={`h-full rounded-full ${percent === 100 ? "bg-trade-buy" : "bg-warning"}`}
+													style={{ width: `${percent}%` }}
+												/>
+											</div>
+											<span className="text-caption text-txt-300 w-10 text-right">{percent}%</span>
+										</div>
+									</TableCell>
+								</TableRow>
+							)
+						})}
+					</TableBody>
+				</Table>
+			</div>
+
+			{/* Recent jobs */}
+			<div className="space-y-s-200">
+				<h4 className="text-small text-txt-100 font-semibold">{t("recentJobs")}</h4>
+				<p className="text-caption text-txt-300">{t("jobsHint")}</p>
+				{status.jobs.length === 0 ? (
+					<div className="border-bg-300 bg-bg-200 p-m-400 text-small text-txt-300 rounded-lg border text-center">
+						{t("noJobs")}
+					</div>
+				) : (
+					status.jobs.map((job) => (
+						<div
+							key={job.id}
+							id={`encryption-job-${job.id}`}
+							className="border-bg-300 bg-bg-200 p-s-300 space-y-s-100 rounded-lg border"
+						>
+							<div className="gap-s-200 flex flex-wrap items-center">
+								<span className="text-small text-txt-100 font-medium">{t(`kinds.${job.kind}`)}</span>
+								<Badge
+									id={`encryption-job-status-${job.id}`}
+									variant={
+										job.status === "completed" ? "secondary" : job.status === "failed" ? "destructive" : "outline"
+									}
+								>
+									{t(`statuses.${job.status}`)}
+								</Badge>
+							</div>
+							<p className="text-caption text-txt-300">
+								{t("jobProgress", { updated: job.rowsUpdated, scanned: job.rowsScanned })} •{" "}
+								{formatDateTime(job.startedAt)}
+								{job.status === "running" && job.cursorTable && (
+									<> • {t("jobCursor", { table: job.cursorTable })}</>
+								)}
+							</p>
+							{job.error && <p className="text-caption text-trade-sell break-all">{job.error}</p>}
+						</div>
+					))
+				)}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,174 @@
+"use client"
+
+import { useState, useTransition, useEffect } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/toast"
+import { listImportBatches, rollbackImportBatch } from "@/app/actions/import-batches"
+import type { ImportBatch } from "@/types/import-batch"
+import { formatDateTime } from "@/lib/dates"
+import { FileText, Loader2, Undo2 } from "lucide-react"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+
+export const ImportHistoryList = () => {
+	const t = useTranslations("settings.importHistory")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+
+	const [batches, setBatches] = useState<ImportBatch[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+	const [rollingBackId, setRollingBackId] = useState<string | null>(null)
+
+	const loadBatches = async () => {
+		setIsLoading(true)
+		const result = await listImportBatches()
+		if (result.status === "success" && result.data) {
+			setBatches(result.data)
+		}
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		loadBatches()
+	}, [])
+
+	const handleRollback = (batchId: string) => {
+		setRollingBackId(batchId)
+		startTransition(async () => {
+			const result = await rollbackImportBatch(batchId)
+			if (result.status === "success" && result.data) {
+				showToast(
+					"success",
+					t("rolledBack", {
+						deleted: result.data.tradesDeleted,
+						restored: result.data.tradesRestored,
+					})
+				)
+			} else if (result.errors?.[0]?.code === "LATER_IMPORT") {
+				showToast("error", t("laterImportError"))
+			} else {
+				showToast("error", t("rollbackError"))
+			}
+			await loadBatches()
+			setRollingBackId(null)
+		})
+	}
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-import-history" className="space-y-m-400">
+			<div>
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-small text-txt-300">{t("description")}</p>
+			</div>
+
+			{batches.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-txt-300 rounded-lg border text-center">
+					{t("empty")}
+				</div>
+			) : (
+				<div className="space-y-s-300">
+					{batches.map((batch) => {
+						const isRolledBack = batch.status === "rolled_back"
+						return (
+							<div
+								key={batch.id}
+								className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 gap-m-400 flex items-start justify-between rounded-lg border"
+							>
+								<div className="gap-s-300 flex min-w-0 items-start">
+									<FileText className="text-txt-300 mt-1 h-4 w-4 shrink-0" />
+									<div className="min-w-0">
+										<div className="gap-s-200 flex flex-wrap items-center">
+											<p className="text-body text-txt-100 font-medium">
+												{t(`sources.${batch.source}`)}
+												{batch.sourceName && ` • ${batch.sourceName}`}
+											</p>
+											{isRolledBack && (
+												<Badge id={`import-rolled-back-${batch.id}`} variant="outline">
+													{t("rolledBackBadge")}
+												</Badge>
+											)}
+										</div>
+										{batch.fileName && (
+											<p className="text-small text-txt-200 truncate">{batch.fileName}</p>
+										)}
+										<p className="text-caption text-txt-300">
+											{formatDateTime(batch.createdAt)} •{" "}
+											{t("counts", {
+												created: batch.tradesCreated,
+												enriched: batch.tradesEnriched,
+												executions: batch.executionsCreated,
+											})}
+										</p>
+									</div>
+								</div>
+
+								{!isRolledBack && (
+									isPending && rollingBackId === batch.id ? (
+										<Loader2 className="text-txt-300 h-4 w-4 shrink-0 animate-spin" />
+									) : (
+										<AlertDialog>
+											<AlertDialogTrigger asChild>
+												<Button
+													id={`import-rollback-${batch.id}`}
+													variant="outline"
+													size="sm"
+													className="shrink-0"
+												>
+													<Undo2 className="mr-2 h-4 w-4" />
+													{t("rollback")}
+												</Button>
+											</AlertDialogTrigger>
+											<AlertDialogContent>
+												<AlertDialogHeader>
+													<AlertDialogTitle>{t("rollbackTitle")}</AlertDialogTitle>
+													<AlertDialogDescription>
+														{t("rollbackDescription", {
+															created: batch.tradesCreated,
+															enriched: batch.tradesEnriched,
+														})}
+													</AlertDialogDescription>
+												</AlertDialogHeader>
+												<AlertDialogFooter>
+													<AlertDialogCancel id={`import-rollback-cancel-${batch.id}`}>
+														{tCommon("cancel")}
+													</AlertDialogCancel>
+													<AlertDialogAction
+														id={`import-rollback-confirm-${batch.id}`}
+														className="bg-fb-error hover:bg-fb-error/90"
+														onClick={() => handleRollback(batch.id)}
+													>
+														{t("rollback")}
+													</AlertDialogAction>
+												</AlertDialogFooter>
+											</AlertDialogContent>
+										</AlertDialog>
+									)
+								)}
+							</div>
+						)
+					})}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -5,13 +5,21 @@ export { TimeframeList } from "./timeframe-list"
 export { TimeframeForm } from "./timeframe-form"
 export { TagList } from "./tag-list"
 export { TagForm } from "./tag-form"
+export { ImportHistoryList } from "./import-history-list"
+export { RiskProfileList } from "./risk-profile-list"
+export { ApiKeyList } from "./api-key-list"
+export { WebhookList } from "./webhook-list"
+export { MarketHolidayList } from "./market-holiday-list"
+export { EncryptionStatus } from "./encryption-status"
 export { GeneralSettings } from "./general-settings"
 export { UserProfileSettings } from "./user-profile-settings"
 export { AccountSettings } from "./account-settings"
+export { AccountArchiveSettings } from "./account-archive-settings"
 export { LanguageSwitcher } from "./language-switcher"
 export { BrandSwitcher } from "./brand-switcher"
 export { RecalculateButton } from "./recalculate-button"
 export { TradingAccountSettings } from "./trading-account-settings"
+export { PropRulesSettings } from "./prop-rules-settings"
 export { UserList } from "./user-list"
 export { ConditionList } from "./condition-list"
 export { ConditionForm } from "./condition-form"
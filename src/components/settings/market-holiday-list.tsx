@@ -0,0 +1,422 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { useLocale, useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import {
+	getMarketHolidays,
+	createMarketHoliday,
+	updateMarketHoliday,
+	deleteMarketHoliday,
+	generateMarketHolidayYear,
+} from "@/app/actions/market-calendar"
+import type { MarketCode, MarketHolidayRecord, MarketSessionType } from "@/types/market-calendar"
+import { CalendarDays, Loader2, Plus, Wand2 } from "lucide-react"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+
+const MARKETS: MarketCode[] = ["B3", "NYSE"]
+
+interface HolidayDraft {
+	date: string
+	name: string
+	nameEn: string
+	sessionType: MarketSessionType
+	opensAt: string
+	closesAt: string
+}
+
+const EMPTY_DRAFT: HolidayDraft = {
+	date: "",
+	name: "",
+	nameEn: "",
+	sessionType: "closed",
+	opensAt: "",
+	closesAt: "",
+}
+
+const toDraft = (holiday: MarketHolidayRecord): HolidayDraft => ({
+	date: holiday.date,
+	name: holiday.name,
+	nameEn: holiday.nameEn,
+	sessionType: holiday.sessionType,
+	opensAt: holiday.opensAt ?? "",
+	closesAt: holiday.closesAt ?? "",
+})
+
+export const MarketHolidayList = () => {
+	const t = useTranslations("settings.marketCalendar")
+	const tCommon = useTranslations("common")
+	const locale = useLocale()
+	const { showToast } = useToast()
+
+	const [market, setMarket] = useState<MarketCode>("B3")
+	const [year, setYear] = useState(() => new Date().getFullYear())
+	const [holidays, setHolidays] = useState<MarketHolidayRecord[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+
+	const [draft, setDraft] = useState<HolidayDraft>(EMPTY_DRAFT)
+	const [editingId, setEditingId] = useState<string | null>(null)
+
+	const loadHolidays = async (target: MarketCode) => {
+		const result = await getMarketHolidays(target)
+		if (result.status === "success" && result.data) {
+			setHolidays(result.data)
+		}
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		loadHolidays(market)
+	}, [market])
+
+	const yearHolidays = holidays.filter((holiday) => holiday.date.startsWith(`${year}-`))
+
+	const resetForm = () => {
+		setDraft(EMPTY_DRAFT)
+		setEditingId(null)
+	}
+
+	const handleMarketChange = (value: string) => {
+		setMarket(value as MarketCode)
+		resetForm()
+	}
+
+	const handleSave = () => {
+		startTransition(async () => {
+			const input = {
+				market,
+				date: draft.date,
+				name: draft.name,
+				nameEn: draft.nameEn,
+				sessionType: draft.sessionType,
+				opensAt: draft.opensAt || null,
+				closesAt: draft.closesAt || null,
+			}
+			const result = editingId
+				? await updateMarketHoliday(editingId, input)
+				: await createMarketHoliday(input)
+			if (result.status === "success") {
+				showToast("success", editingId ? t("updated") : t("created"))
+				resetForm()
+				await loadHolidays(market)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleEdit = (holiday: MarketHolidayRecord) => {
+		setEditingId(holiday.id)
+		setDraft(toDraft(holiday))
+	}
+
+	const handleDelete = (id: string) => {
+		startTransition(async () => {
+			const result = await deleteMarketHoliday(id)
+			if (result.status === "success") {
+				showToast("success", t("deleted"))
+				if (editingId === id) resetForm()
+				await loadHolidays(market)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleGenerate = () => {
+		startTransition(async () => {
+			const result = await generateMarketHolidayYear({ market, year })
+			if (result.status === "success" && result.data) {
+				showToast("success", t("generated", { count: result.data.inserted }))
+				await loadHolidays(market)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const formatHolidayDate = (dateKey: string): string =>
+		new Date(`${dateKey}T12:00:00Z`).toLocaleDateString(locale === "pt-BR" ? "pt-BR" : "en-US", {
+			weekday: "short",
+			day: "2-digit",
+			month: "short",
+			timeZone: "UTC",
+		})
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-market-calendar" className="space-y-m-500">
+			<div>
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-small text-txt-300">{t("description")}</p>
+			</div>
+
+			{/* Market / year filter */}
+			<div className="gap-m-400 flex flex-wrap items-end justify-between">
+				<div className="gap-m-400 flex flex-wrap items-end">
+					<div className="space-y-s-200">
+						<label htmlFor="market-calendar-market" className="text-small text-txt-200">
+							{t("market")}
+						</label>
+						<Select value={market} onValueChange={handleMarketChange}>
+							<SelectTrigger id="market-calendar-market" className="w-32" aria-label={t("market")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{MARKETS.map((code) => (
+									<SelectItem key={code} value={code}>
+										{code}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="market-calendar-year" className="text-small text-txt-200">
+							{t("year")}
+						</label>
+						<Input
+							id="market-calendar-year"
+							type="number"
+							className="w-28"
+							min={2000}
+							max={2100}
+							value={year}
+							onChange={(e) => setYear(Number(e.target.value))}
+						/>
+					</div>
+				</div>
+				<Button
+					id="market-calendar-generate"
+					variant="outline"
+					onClick={handleGenerate}
+					disabled={isPending || !year}
+				>
+					{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+					{t("generate", { year })}
+				</Button>
+			</div>
+
+			{/* Create / edit form */}
+			<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 space-y-m-400 rounded-lg border">
+				<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-3">
+					<div className="space-y-s-200">
+						<label htmlFor="market-holiday-date" className="text-small text-txt-200">
+							{t("date")}
+						</label>
+						<Input
+							id="market-holiday-date"
+							type="date"
+							value={draft.date}
+							onChange={(e) => setDraft((prev) => ({ ...prev, date: e.target.value }))}
+						/>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="market-holiday-name" className="text-small text-txt-200">
+							{t("name")}
+						</label>
+						<Input
+							id="market-holiday-name"
+							value={draft.name}
+							maxLength={100}
+							onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+						/>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="market-holiday-name-en" className="text-small text-txt-200">
+							{t("nameEn")}
+						</label>
+						<Input
+							id="market-holiday-name-en"
+							value={draft.nameEn}
+							maxLength={100}
+							onChange={(e) => setDraft((prev) => ({ ...prev, nameEn: e.target.value }))}
+						/>
+					</div>
+				</div>
+
+				<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-3">
+					<div className="space-y-s-200">
+						<label htmlFor="market-holiday-session" className="text-small text-txt-200">
+							{t("sessionType")}
+						</label>
+						<Select
+							value={draft.sessionType}
+							onValueChange={(value) =>
+								setDraft((prev) => ({ ...prev, sessionType: value as MarketSessionType }))
+							}
+						>
+							<SelectTrigger id="market-holiday-session" aria-label={t("sessionType")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="closed">{t("sessionTypes.closed")}</SelectItem>
+								<SelectItem value="half_day">{t("sessionTypes.half_day")}</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					{draft.sessionType === "half_day" && (
+						<>
+							<div className="space-y-s-200">
+								<label htmlFor="market-holiday-opens" className="text-small text-txt-200">
+									{t("opensAt")}
+								</label>
+								<Input
+									id="market-holiday-opens"
+									type="time"
+									value={draft.opensAt}
+									onChange={(e) => setDraft((prev) => ({ ...prev, opensAt: e.target.value }))}
+								/>
+							</div>
+							<div className="space-y-s-200">
+								<label htmlFor="market-holiday-closes" className="text-small text-txt-200">
+									{t("closesAt")}
+								</label>
+								<Input
+									id="market-holiday-closes"
+									type="time"
+									value={draft.closesAt}
+									onChange={(e) => setDraft((prev) => ({ ...prev, closesAt: e.target.value }))}
+								/>
+							</div>
+						</>
+					)}
+				</div>
+
+				<div className="gap-s-200 flex justify-end">
+					{editingId && (
+						<Button id="market-holiday-cancel-edit" variant="outline" onClick={resetForm} disabled={isPending}>
+							{tCommon("cancel")}
+						</Button>
+					)}
+					<Button
+						id="market-holiday-save"
+						onClick={handleSave}
+						disabled={isPending || !draft.date || !draft.name.trim() || !draft.nameEn.trim()}
+						aria-label={editingId ? t("save") : t("create")}
+					>
+						{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+						{editingId ? t("save") : t("create")}
+					</Button>
+				</div>
+			</div>
+
+			{/* Stored entries for the selected year */}
+			{yearHolidays.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-txt-300 rounded-lg border text-center">
+					{t("empty", { market, year })}
+				</div>
+			) : (
+				<div className="space-y-s-200">
+					{yearHolidays.map((holiday) => (
+						<div
+							key={holiday.id}
+							className="border-bg-300 bg-bg-200 p-s-300 gap-m-400 flex flex-col justify-between rounded-lg border sm:flex-row sm:items-center"
+						>
+							<div className="gap-s-300 flex min-w-0 items-start">
+								<CalendarDays className="text-txt-300 mt-1 h-4 w-4 shrink-0" />
+								<div className="min-w-0 space-y-s-100">
+									<div className="gap-s-200 flex flex-wrap items-center">
+										<span className="text-small text-txt-300 capitalize">{formatHolidayDate(holiday.date)}</span>
+										<p className="text-body text-txt-100 font-medium">
+											{locale === "pt-BR" ? holiday.name : holiday.nameEn}
+										</p>
+										<Badge
+											id={`market-holiday-session-${holiday.id}`}
+											variant={holiday.sessionType === "closed" ? "secondary" : "outline"}
+										>
+											{t(`sessionTypes.${holiday.sessionType}`)}
+										</Badge>
+										<Badge id={`market-holiday-source-${holiday.id}`} variant="outline">
+											{t(`sources.${holiday.source}`)}
+										</Badge>
+									</div>
+									{holiday.sessionType === "half_day" && (
+										<p className="text-caption text-txt-300">
+											{holiday.opensAt && t("opensAtValue", { time: holiday.opensAt })}
+											{holiday.opensAt && holiday.closesAt && " • "}
+											{holiday.closesAt && t("closesAtValue", { time: holiday.closesAt })}
+										</p>
+									)}
+								</div>
+							</div>
+							<div className="gap-s-200 flex shrink-0">
+								<Button
+									id={`market-holiday-edit-${holiday.id}`}
+									variant="outline"
+									size="sm"
+									onClick={() => handleEdit(holiday)}
+									disabled={isPending}
+								>
+									{t("edit")}
+								</Button>
+								<AlertDialog>
+									<AlertDialogTrigger asChild>
+										<Button
+											id={`market-holiday-delete-${holiday.id}`}
+											variant="outline"
+											size="sm"
+											disabled={isPending}
+										>
+											{tCommon("delete")}
+										</Button>
+									</AlertDialogTrigger>
+									<AlertDialogContent>
+										<AlertDialogHeader>
+											<AlertDialogTitle>{t("deleteTitle")}</AlertDialogTitle>
+											<AlertDialogDescription>
+												{t("deleteDescription", {
+													name: locale === "pt-BR" ? holiday.name : holiday.nameEn,
+												})}
+											</AlertDialogDescription>
+										</AlertDialogHeader>
+										<AlertDialogFooter>
+											<AlertDialogCancel id={`market-holiday-delete-cancel-${holiday.id}`}>
+												{tCommon("cancel")}
+											</AlertDialogCancel>
+											<AlertDialogAction
+												id={`market-holiday-delete-confirm-${holiday.id}`}
+												className="bg-fb-error hover:bg-fb-error/90"
+												onClick={() => handleDelete(holiday.id)}
+											>
+												{tCommon("delete")}
+											</AlertDialogAction>
+										</AlertDialogFooter>
+									</AlertDialogContent>
+								</AlertDialog>
+							</div>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,366 @@
+"use client"
+
+import { useState, useTransition, useEffect, type ReactNode } from "react"
+import { useTranslations } from "next-intl"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { DatePicker } from "@/components/ui/date-picker"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import { getPropRuleSet, upsertPropRuleSet, deletePropRuleSet } from "@/app/actions/prop-rules"
+import type { PropDrawdownType, PropRuleSet } from "@/types/prop-evaluation"
+import { fromCents, toCents } from "@/lib/money"
+import { formatDateKey } from "@/lib/dates"
+import { Loader2, Plus, Trash2 } from "lucide-react"
+
+interface ScalingTierForm {
+	profitThreshold: string
+	maxContracts: string
+}
+
+interface PropRulesForm {
+	startingBalance: string
+	drawdownType: PropDrawdownType
+	maxDrawdown: string
+	lockDrawdownAtStart: boolean
+	dailyLossLimit: string
+	profitTarget: string
+	minTradingDays: string
+	consistencyPercent: string
+	scalingPlan: ScalingTierForm[]
+	evaluationStartDate: string
+	evaluationEndDate: string
+}
+
+const DRAWDOWN_TYPES: PropDrawdownType[] = ["trailing", "eod_trailing", "static"]
+
+const toOptionalMoney = (cents: number | null): string => (cents !== null ? fromCents(cents).toString() : "")
+
+const toForm = (ruleSet: PropRuleSet | null): PropRulesForm => ({
+	startingBalance: ruleSet ? fromCents(ruleSet.startingBalanceCents).toString() : "",
+	drawdownType: ruleSet?.drawdownType ?? "trailing",
+	maxDrawdown: ruleSet ? fromCents(ruleSet.maxDrawdownCents).toString() : "",
+	lockDrawdownAtStart: ruleSet?.lockDrawdownAtStart ?? true,
+	dailyLossLimit: toOptionalMoney(ruleSet?.dailyLossLimitCents ?? null),
+	profitTarget: toOptionalMoney(ruleSet?.profitTargetCents ?? null),
+	minTradingDays: ruleSet?.minTradingDays?.toString() ?? "",
+	consistencyPercent: ruleSet?.consistencyPercent?.toString() ?? "",
+	scalingPlan: (ruleSet?.scalingPlan ?? []).map((tier) => ({
+		profitThreshold: fromCents(tier.profitThresholdCents).toString(),
+		maxContracts: tier.maxContracts.toString(),
+	})),
+	evaluationStartDate: formatDateKey(ruleSet?.evaluationStartDate ?? new Date()),
+	evaluationEndDate: ruleSet?.evaluationEndDate ? formatDateKey(ruleSet.evaluationEndDate) : "",
+})
+
+const parseOptionalCents = (value: string): number | null =>
+	value.trim() === "" ? null : toCents(parseFloat(value))
+
+const parseOptionalNumber = (value: string): number | null =>
+	value.trim() === "" ? null : Number(value)
+
+interface RuleRowProps {
+	label: string
+	help?: string
+	children: ReactNode
+}
+
+const RuleRow = ({ label, help, children }: RuleRowProps) => (
+	<div className="gap-s-200 sm:gap-m-400 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+		<div className="flex-1">
+			<p className="text-small text-txt-100">{label}</p>
+			{help && <p className="text-tiny text-txt-300">{help}</p>}
+		</div>
+		{children}
+	</div>
+)
+
+export const PropRulesSettings = () => {
+	const t = useTranslations("settings.propRules")
+	const tDrawdown = useTranslations("commandCenter.propEvaluation.drawdownTypes")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+	const [isPending, startTransition] = useTransition()
+	const [isLoading, setIsLoading] = useState(true)
+	const [ruleSet, setRuleSet] = useState<PropRuleSet | null>(null)
+	const [form, setForm] = useState<PropRulesForm>(() => toForm(null))
+
+	useEffect(() => {
+		const loadRuleSet = async () => {
+			const result = await getPropRuleSet()
+			if (result.status === "success") {
+				setRuleSet(result.data ?? null)
+				setForm(toForm(result.data ?? null))
+			}
+			setIsLoading(false)
+		}
+		loadRuleSet()
+	}, [])
+
+	const updateField = <K extends keyof PropRulesForm>(field: K, value: PropRulesForm[K]) => {
+		setForm((prev) => ({ ...prev, [field]: value }))
+	}
+
+	const updateTier = (index: number, field: keyof ScalingTierForm, value: string) => {
+		setForm((prev) => ({
+			...prev,
+			scalingPlan: prev.scalingPlan.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)),
+		}))
+	}
+
+	const handleSave = () => {
+		startTransition(async () => {
+			const result = await upsertPropRuleSet({
+				startingBalanceCents: toCents(parseFloat(form.startingBalance)),
+				drawdownType: form.drawdownType,
+				maxDrawdownCents: toCents(parseFloat(form.maxDrawdown)),
+				lockDrawdownAtStart: form.lockDrawdownAtStart,
+				dailyLossLimitCents: parseOptionalCents(form.dailyLossLimit),
+				profitTargetCents: parseOptionalCents(form.profitTarget),
+				minTradingDays: parseOptionalNumber(form.minTradingDays),
+				consistencyPercent: parseOptionalNumber(form.consistencyPercent),
+				scalingPlan: form.scalingPlan.map((tier) => ({
+					profitThresholdCents: toCents(parseFloat(tier.profitThreshold)),
+					maxContracts: parseInt(tier.maxContracts) || 0,
+				})),
+				evaluationStartDate: new Date(form.evaluationStartDate + "T12:00:00"),
+				evaluationEndDate: form.evaluationEndDate
+					? new Date(form.evaluationEndDate + "T12:00:00")
+					: null,
+			})
+			if (result.status === "success" && result.data) {
+				setRuleSet(result.data)
+				setForm(toForm(result.data))
+				showToast("success", t("saved"))
+			} else if (result.errors?.[0]?.code === "VALIDATION_ERROR") {
+				showToast("error", t("validationError"))
+			} else {
+				showToast("error", t("saveError"))
+			}
+		})
+	}
+
+	const handleRemove = () => {
+		startTransition(async () => {
+			const result = await deletePropRuleSet()
+			if (result.status === "success") {
+				setRuleSet(null)
+				setForm(toForm(null))
+				showToast("success", t("removed"))
+			} else {
+				showToast("error", t("saveError"))
+			}
+		})
+	}
+
+	if (isLoading) {
+		return (
+			<div className="flex items-center justify-center py-12">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-prop-rules" className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 lg:p-m-500 rounded-lg border">
+			<h2 className="text-small sm:text-body text-txt-100 font-semibold">{t("title")}</h2>
+			<p className="mt-s-200 text-tiny text-txt-300">{t("description")}</p>
+
+			<div className="mt-m-400 space-y-m-400">
+				<RuleRow label={t("startingBalance")}>
+					<Input
+						id="prop-starting-balance"
+						type="number"
+						step="0.01"
+						min="0"
+						value={form.startingBalance}
+						onChange={(e) => updateField("startingBalance", e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</RuleRow>
+				<RuleRow label={t("drawdownType")} help={t("drawdownTypeHelp")}>
+					<Select
+						value={form.drawdownType}
+						onValueChange={(value: PropDrawdownType) => updateField("drawdownType", value)}
+					>
+						<SelectTrigger id="prop-drawdown-type" className="w-full sm:w-48">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{DRAWDOWN_TYPES.map((type) => (
+								<SelectItem key={type} value={type}>
+									{tDrawdown(type)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</RuleRow>
+				<RuleRow label={t("maxDrawdown")}>
+					<Input
+						id="prop-max-drawdown"
+						type="number"
+						step="0.01"
+						min="0"
+						value={form.maxDrawdown}
+						onChange={(e) => updateField("maxDrawdown", e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</RuleRow>
+				{form.drawdownType !== "static" && (
+					<RuleRow label={t("lockDrawdownAtStart")} help={t("lockDrawdownAtStartHelp")}>
+						<Switch
+							id="prop-lock-drawdown"
+							checked={form.lockDrawdownAtStart}
+							onCheckedChange={(checked) => updateField("lockDrawdownAtStart", checked)}
+						/>
+					</RuleRow>
+				)}
+				<RuleRow label={t("dailyLossLimit")} help={t("optional")}>
+					<Input
+						id="prop-daily-loss-limit"
+						type="number"
+						step="0.01"
+						min="0"
+						value={form.dailyLossLimit}
+						onChange={(e) => updateField("dailyLossLimit", e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</RuleRow>
+				<RuleRow label={t("profitTarget")} help={t("optional")}>
+					<Input
+						id="prop-profit-target"
+						type="number"
+						step="0.01"
+						min="0"
+						value={form.profitTarget}
+						onChange={(e) => updateField("profitTarget", e.target.value)}
+						className="w-full text-right sm:w-40"
+					/>
+				</RuleRow>
+				<RuleRow label={t("minTradingDays")} help={t("optional")}>
+					<Input
+						id="prop-min-trading-days"
+						type="number"
+						step="1"
+						min="1"
+						value={form.minTradingDays}
+						onChange={(e) => updateField("minTradingDays", e.target.value)}
+						className="w-full text-right sm:w-24"
+					/>
+				</RuleRow>
+				<RuleRow label={t("consistencyPercent")} help={t("consistencyPercentHelp")}>
+					<div className="gap-s-200 flex items-center">
+						<Input
+							id="prop-consistency-percent"
+							type="number"
+							step="0.01"
+							min="0"
+							max="100"
+							value={form.consistencyPercent}
+							onChange={(e) => updateField("consistencyPercent", e.target.value)}
+							className="w-full text-right sm:w-24"
+						/>
+						<span className="text-small text-txt-300">%</span>
+					</div>
+				</RuleRow>
+				<RuleRow label={t("evaluationStartDate")}>
+					<DatePicker
+						id="prop-evaluation-start"
+						value={new Date(form.evaluationStartDate + "T12:00:00")}
+						onChange={(date) => date && updateField("evaluationStartDate", formatDateKey(date))}
+						className="w-full sm:w-48"
+					/>
+				</RuleRow>
+				<RuleRow label={t("evaluationEndDate")} help={t("optional")}>
+					<DatePicker
+						id="prop-evaluation-end"
+						value={form.evaluationEndDate ? new Date(form.evaluationEndDate + "T12:00:00") : undefined}
+						onChange={(date) => updateField("evaluationEndDate", date ? formatDateKey(date) : "")}
+						className="w-full sm:w-48"
+					/>
+				</RuleRow>
+
+				{/* Scaling plan */}
+				<div className="space-y-s-300">
+					<div className="flex items-center justify-between">
+						<div>
+							<p className="text-small text-txt-100">{t("scalingPlan")}</p>
+							<p className="text-tiny text-txt-300">{t("scalingPlanHelp")}</p>
+						</div>
+						<Button
+							id="prop-scaling-add-tier"
+							variant="ghost"
+							size="sm"
+							onClick={() =>
+								updateField("scalingPlan", [...form.scalingPlan, { profitThreshold: "0", maxContracts: "1" }])
+							}
+						>
+							<Plus className="mr-2 h-4 w-4" />
+							{t("addTier")}
+						</Button>
+					</div>
+					{form.scalingPlan.map((tier, index) => (
+						<div key={index} className="gap-s-200 flex items-center">
+							<Input
+								id={`prop-scaling-threshold-${index}`}
+								type="number"
+								step="0.01"
+								min="0"
+								value={tier.profitThreshold}
+								onChange={(e) => updateTier(index, "profitThreshold", e.target.value)}
+								placeholder={t("tierThreshold")}
+								className="flex-1 text-right"
+							/>
+							<Input
+								id={`prop-scaling-contracts-${index}`}
+								type="number"
+								step="1"
+								min="1"
+								value={tier.maxContracts}
+								onChange={(e) => updateTier(index, "maxContracts", e.target.value)}
+								placeholder={t("tierContracts")}
+								className="w-24 text-right"
+							/>
+							<Button
+								id={`prop-scaling-remove-tier-${index}`}
+								variant="ghost"
+								size="sm"
+								aria-label={t("removeTier")}
+								onClick={() =>
+									updateField("scalingPlan", form.scalingPlan.filter((_, i) => i !== index))
+								}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</div>
+					))}
+				</div>
+			</div>
+
+			<div className="mt-m-500 gap-s-300 flex justify-end">
+				{ruleSet && (
+					<Button
+						id="prop-rules-remove"
+						variant="ghost"
+						size="sm"
+						onClick={handleRemove}
+						disabled={isPending}
+					>
+						{t("remove")}
+					</Button>
+				)}
+				<Button id="prop-rules-save" size="sm" onClick={handleSave} disabled={isPending}>
+					{isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+					{tCommon("save")}
+				</Button>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,329 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import type { ReactNode } from "react"
+import { useTranslations } from "next-intl"
+import { Copy, Eye, Link2, Link2Off, Loader2, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/toast"
+import { useFormatting } from "@/hooks/use-formatting"
+import { useUrlParams } from "@/hooks/use-url-params"
+import { fromCents } from "@/lib/money"
+import { RISK_PROFILE_TEMPLATES } from "@/lib/risk-profile-templates"
+import { DecisionTreeModal } from "@/components/monthly-plan/decision-tree-modal"
+import {
+	acceptRiskProfileShare,
+	cloneRiskProfile,
+	deactivateRiskProfile,
+	listActiveRiskProfiles,
+	removeSharedRiskProfile,
+	shareRiskProfile,
+	stopSharingRiskProfile,
+	updateRiskProfile,
+} from "@/app/actions/risk-profiles"
+import type { RiskManagementProfile, RiskProfileCloneSource, RiskProfileInput } from "@/types/risk-profile"
+
+interface ProfileRowProps {
+	profile: RiskManagementProfile
+	children: ReactNode
+}
+
+const ProfileRow = ({ profile, children }: ProfileRowProps) => {
+	const t = useTranslations("settings.riskProfiles")
+	const { formatCurrency } = useFormatting()
+
+	return (
+		<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 gap-m-400 flex flex-col justify-between rounded-lg border sm:flex-row sm:items-center">
+			<div className="min-w-0">
+				<div className="gap-s-200 flex flex-wrap items-center">
+					<p className="text-body text-txt-100 font-medium">{profile.name}</p>
+					{profile.ownership === "mine" && profile.visibility === "shared" && (
+						<Badge id={`risk-profile-shared-${profile.id}`} variant="outline">
+							{t("sharedBadge")}
+						</Badge>
+					)}
+				</div>
+				{profile.description && (
+					<p className="text-small text-txt-200 truncate">{profile.description}</p>
+				)}
+				<p className="text-caption text-txt-300">
+					{t("summary", {
+						risk: formatCurrency(fromCents(profile.baseRiskCents)),
+						dailyLoss: formatCurrency(fromCents(profile.dailyLossCents)),
+						version: profile.currentVersion,
+					})}
+				</p>
+			</div>
+			<div className="gap-s-200 flex shrink-0 flex-wrap items-center">{children}</div>
+		</div>
+	)
+}
+
+export const RiskProfileList = () => {
+	const t = useTranslations("settings.riskProfiles")
+	const tTemplates = useTranslations("settings.riskProfiles.templates")
+	const { showToast } = useToast()
+	const urlParams = useUrlParams()
+	const shareToken = urlParams.get("share")
+
+	const [profiles, setProfiles] = useState<RiskManagementProfile[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+	const [viewing, setViewing] = useState<RiskManagementProfile | null>(null)
+
+	const loadProfiles = async () => {
+		const result = await listActiveRiskProfiles()
+		if (result.status === "success" && result.data) {
+			setProfiles(result.data)
+		}
+		setIsLoading(false)
+	}
+
+	useEffect(() => {
+		loadProfiles()
+	}, [])
+
+	// Opening a share link lands here with ?share=<token>
+	useEffect(() => {
+		if (!shareToken) return
+		acceptRiskProfileShare(shareToken).then(async (result) => {
+			if (result.status === "success" && result.data) {
+				showToast("success", t("shareAccepted", { name: result.data.name }))
+				await loadProfiles()
+			} else {
+				showToast("error", result.message)
+			}
+			urlParams.set({ share: null })
+		})
+	}, [shareToken]) // eslint-disable-line react-hooks/exhaustive-deps
+
+	const myProfiles = profiles.filter((profile) => profile.ownership === "mine")
+	const sharedProfiles = profiles.filter((profile) => profile.ownership === "shared")
+	const systemProfiles = profiles.filter((profile) => profile.ownership === "system")
+
+	const handleClone = (source: RiskProfileCloneSource, sourceName: string) => {
+		startTransition(async () => {
+			const result = await cloneRiskProfile(source, t("copyName", { name: sourceName }))
+			if (result.status === "success" && result.data) {
+				showToast("success", t("cloned", { name: result.data.name }))
+				await loadProfiles()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleShare = (profile: RiskManagementProfile) => {
+		startTransition(async () => {
+			const result = await shareRiskProfile(profile.id)
+			if (result.status === "success" && result.data) {
+				const link = `${window.location.origin}${window.location.pathname}?tab=riskProfiles&share=${result.data.shareToken}`
+				await navigator.clipboard.writeText(link)
+				showToast("success", t("linkCopied"))
+				await loadProfiles()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const runAndReload = (action: () => Promise<{ status: string; message: string }>, successMessage: string) => {
+		startTransition(async () => {
+			const result = await action()
+			if (result.status === "success") {
+				showToast("success", successMessage)
+				await loadProfiles()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleSave = async (input: RiskProfileInput) => {
+		if (!viewing) return
+		const result = await updateRiskProfile(viewing.id, input)
+		if (result.status === "success" && result.data) {
+			showToast("success", t("saved"))
+			setViewing(result.data)
+			await loadProfiles()
+		} else {
+			showToast("error", result.message)
+		}
+	}
+
+	const viewButton = (profile: RiskManagementProfile) => (
+		<Button
+			id={`risk-profile-view-${profile.id}`}
+			variant="ghost"
+			size="sm"
+			onClick={() => setViewing(profile)}
+			aria-label={profile.ownership === "mine" ? t("edit") : t("view")}
+		>
+			<Eye className="mr-s-100 h-3.5 w-3.5" />
+			{profile.ownership === "mine" ? t("edit") : t("view")}
+		</Button>
+	)
+
+	const cloneButton = (profile: RiskManagementProfile) => (
+		<Button
+			id={`risk-profile-clone-${profile.id}`}
+			variant="outline"
+			size="sm"
+			disabled={isPending}
+			onClick={() => handleClone({ type: "profile", profileId: profile.id }, profile.name)}
+			aria-label={t("clone")}
+		>
+			<Copy className="mr-s-100 h-3.5 w-3.5" />
+			{t("clone")}
+		</Button>
+	)
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-risk-profiles" className="space-y-l-700">
+			<div>
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-small text-txt-300">{t("personalDescription")}</p>
+			</div>
+
+			{/* My profiles */}
+			<section className="space-y-s-300">
+				<h4 className="text-small text-txt-100 font-semibold">{t("sections.mine")}</h4>
+				{myProfiles.length === 0 ? (
+					<div className="border-bg-300 bg-bg-200 p-m-500 text-small text-txt-300 rounded-lg border text-center">
+						{t("emptyMine")}
+					</div>
+				) : (
+					myProfiles.map((profile) => (
+						<ProfileRow key={profile.id} profile={profile}>
+							{viewButton(profile)}
+							<Button
+								id={`risk-profile-share-${profile.id}`}
+								variant="outline"
+								size="sm"
+								disabled={isPending}
+								onClick={() => handleShare(profile)}
+								aria-label={profile.visibility === "shared" ? t("copyLink") : t("share")}
+							>
+								<Link2 className="mr-s-100 h-3.5 w-3.5" />
+								{profile.visibility === "shared" ? t("copyLink") : t("share")}
+							</Button>
+							{profile.visibility === "shared" && (
+								<Button
+									id={`risk-profile-stop-sharing-${profile.id}`}
+									variant="ghost"
+									size="sm"
+									disabled={isPending}
+									onClick={() => runAndReload(() => stopSharingRiskProfile(profile.id), t("sharingStopped"))}
+									aria-label={t("stopSharing")}
+								>
+									<Link2Off className="mr-s-100 h-3.5 w-3.5" />
+									{t("stopSharing")}
+								</Button>
+							)}
+							<Button
+								id={`risk-profile-delete-${profile.id}`}
+								variant="ghost"
+								size="icon"
+								disabled={isPending}
+								onClick={() => runAndReload(() => deactivateRiskProfile(profile.id), t("deleted"))}
+								aria-label={t("delete")}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</ProfileRow>
+					))
+				)}
+			</section>
+
+			{/* Shared with me */}
+			<section className="space-y-s-300">
+				<h4 className="text-small text-txt-100 font-semibold">{t("sections.shared")}</h4>
+				{sharedProfiles.length === 0 ? (
+					<div className="border-bg-300 bg-bg-200 p-m-500 text-small text-txt-300 rounded-lg border text-center">
+						{t("emptyShared")}
+					</div>
+				) : (
+					sharedProfiles.map((profile) => (
+						<ProfileRow key={profile.id} profile={profile}>
+							{viewButton(profile)}
+							{cloneButton(profile)}
+							<Button
+								id={`risk-profile-remove-shared-${profile.id}`}
+								variant="ghost"
+								size="icon"
+								disabled={isPending}
+								onClick={() => runAndReload(() => removeSharedRiskProfile(profile.id), t("sharedRemoved"))}
+								aria-label={t("removeShared")}
+							>
+								<Trash2 className="h-4 w-4" />
+							</Button>
+						</ProfileRow>
+					))
+				)}
+			</section>
+
+			{/* Built-in profiles */}
+			{systemProfiles.length > 0 && (
+				<section className="space-y-s-300">
+					<h4 className="text-small text-txt-100 font-semibold">{t("sections.system")}</h4>
+					{systemProfiles.map((profile) => (
+						<ProfileRow key={profile.id} profile={profile}>
+							{viewButton(profile)}
+							{cloneButton(profile)}
+						</ProfileRow>
+					))}
+				</section>
+			)}
+
+			{/* Templates */}
+			<section className="space-y-s-300">
+				<h4 className="text-small text-txt-100 font-semibold">{tTemplates("title")}</h4>
+				<div className="gap-s-300 grid grid-cols-1 sm:grid-cols-2">
+					{RISK_PROFILE_TEMPLATES.map((template) => (
+						<div
+							key={template.id}
+							className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 gap-s-200 flex flex-col justify-between rounded-lg border"
+						>
+							<div>
+								<p className="text-body text-txt-100 font-medium">{tTemplates(template.nameKey)}</p>
+								<p className="text-caption text-txt-300">{template.author}</p>
+								<p className="text-small text-txt-200 mt-s-100">{tTemplates(template.descriptionKey)}</p>
+							</div>
+							<Button
+								id={`risk-profile-template-${template.id}`}
+								variant="outline"
+								size="sm"
+								className="self-start"
+								disabled={isPending}
+								onClick={() => handleClone({ type: "template", templateId: template.id }, tTemplates(template.nameKey))}
+								aria-label={t("useTemplate")}
+							>
+								<Copy className="mr-s-100 h-3.5 w-3.5" />
+								{t("useTemplate")}
+							</Button>
+						</div>
+					))}
+				</div>
+			</section>
+
+			{viewing && (
+				<DecisionTreeModal
+					key={`${viewing.id}-${viewing.currentVersion}`}
+					open
+					onOpenChange={(open) => !open && setViewing(null)}
+					profile={viewing}
+					onSave={viewing.ownership === "mine" ? handleSave : undefined}
+				/>
+			)}
+		</div>
+	)
+}
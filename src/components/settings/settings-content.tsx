@@ -17,10 +17,16 @@ import { AccountSettings } from "./account-settings"
 import { UserList } from "./user-list"
 import { ConditionList } from "./condition-list"
 import { BugReportsList } from "./bug-reports-list"
+import { ImportHistoryList } from "./import-history-list"
+import { RiskProfileList } from "./risk-profile-list"
+import { ApiKeyList } from "./api-key-list"
+import { WebhookList } from "./webhook-list"
+import { MarketHolidayList } from "./market-holiday-list"
+import { EncryptionStatus } from "./encryption-status"
 import type { AssetWithType } from "@/app/actions/assets"
 import type { AssetType, Timeframe } from "@/db/schema"
 import type { UserWithAccounts } from "@/app/actions/user-management"
-import { User, Briefcase, Coins, Clock, Tag, Users, Filter, Bug } from "lucide-react"
+import { User, Briefcase, Coins, Clock, Tag, Users, Filter, Bug, History, ShieldCheck, KeyRound, Webhook, CalendarDays, Lock } from "lucide-react"
 import { useRegisterPageGuide } from "@/components/ui/page-guide"
 import { settingsGuide } from "@/components/ui/page-guide/guide-configs/settings"
 
@@ -33,6 +39,7 @@ const TAB_SPECIFIC_PARAMS = [
 	"assetQ",
 	"assetType",
 	"userQ",
+	"share",
 ] as const
 
 interface SettingsContentProps {
@@ -56,8 +63,8 @@ export const SettingsContent = ({
 	const urlParams = useUrlParams()
 	useRegisterPageGuide(settingsGuide)
 
-	const baseTabs = ["profile", "account", "tags"]
-	const adminTabs = ["conditions", "assets", "timeframes", "users", "bugs"]
+	const baseTabs = ["profile", "account", "tags", "riskProfiles", "imports", "apiKeys", "webhooks"]
+	const adminTabs = ["conditions", "assets", "timeframes", "marketCalendar", "encryption", "users", "bugs"]
 	const validTabs = isAdmin ? [...baseTabs, ...adminTabs] : baseTabs
 	const tabFromUrl = urlParams.get("tab") ?? ""
 	const activeTab = validTabs.includes(tabFromUrl) ? tabFromUrl : "profile"
@@ -91,6 +98,22 @@ export const SettingsContent = ({
 						<Tag className="h-4 w-4" />
 						{t("tags")}
 					</TabsTrigger>
+					<TabsTrigger value="riskProfiles" className="gap-s-200 shrink-0">
+						<ShieldCheck className="h-4 w-4" />
+						{t("riskProfiles")}
+					</TabsTrigger>
+					<TabsTrigger value="imports" className="gap-s-200 shrink-0">
+						<History className="h-4 w-4" />
+						{t("imports")}
+					</TabsTrigger>
+					<TabsTrigger value="apiKeys" className="gap-s-200 shrink-0">
+						<KeyRound className="h-4 w-4" />
+						{t("apiKeys")}
+					</TabsTrigger>
+					<TabsTrigger value="webhooks" className="gap-s-200 shrink-0">
+						<Webhook className="h-4 w-4" />
+						{t("webhooks")}
+					</TabsTrigger>
 					{isAdmin && (
 						<TabsTrigger value="conditions" className="gap-s-200 shrink-0">
 							<Filter className="h-4 w-4" />
@@ -107,6 +130,14 @@ export const SettingsContent = ({
 								<Clock className="h-4 w-4" />
 								{t("timeframes")}
 							</TabsTrigger>
+							<TabsTrigger value="marketCalendar" className="gap-s-200 shrink-0">
+								<CalendarDays className="h-4 w-4" />
+								{t("marketCalendar")}
+							</TabsTrigger>
+							<TabsTrigger value="encryption" className="gap-s-200 shrink-0">
+								<Lock className="h-4 w-4" />
+								{t("encryption")}
+							</TabsTrigger>
 							<TabsTrigger value="users" className="gap-s-200 shrink-0">
 								<Users className="h-4 w-4" />
 								{t("users")}
@@ -136,6 +167,22 @@ export const SettingsContent = ({
 				<TagList />
 			</AnimatedTabsContent>
 
+			<AnimatedTabsContent value="riskProfiles">
+				<RiskProfileList />
+			</AnimatedTabsContent>
+
+			<AnimatedTabsContent value="imports">
+				<ImportHistoryList />
+			</AnimatedTabsContent>
+
+			<AnimatedTabsContent value="apiKeys">
+				<ApiKeyList isAdmin={isAdmin} />
+			</AnimatedTabsContent>
+
+			<AnimatedTabsContent value="webhooks">
+				<WebhookList />
+			</AnimatedTabsContent>
+
 			{isAdmin && (
 				<AnimatedTabsContent value="conditions">
 					<ConditionList />
@@ -152,6 +199,14 @@ export const SettingsContent = ({
 						<TimeframeList timeframes={timeframes} />
 					</AnimatedTabsContent>
 
+					<AnimatedTabsContent value="marketCalendar">
+						<MarketHolidayList />
+					</AnimatedTabsContent>
+
+					<AnimatedTabsContent value="encryption">
+						<EncryptionStatus />
+					</AnimatedTabsContent>
+
 					<AnimatedTabsContent value="users">
 						<UserList users={usersWithAccounts} currentUserId={currentUserId} />
 					</AnimatedTabsContent>
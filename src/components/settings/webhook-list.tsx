@@ -0,0 +1,541 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { useTranslations } from "next-intl"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/components/ui/toast"
+import {
+	listWebhooks,
+	createWebhook,
+	updateWebhook,
+	rotateWebhookSecret,
+	deleteWebhook,
+	listWebhookDeliveries,
+	sendTestWebhookEvent,
+	redeliverWebhook,
+} from "@/app/actions/webhooks"
+import { getUserAccounts } from "@/app/actions/auth"
+import { WEBHOOK_EVENTS } from "@/lib/webhooks"
+import { formatDateTime } from "@/lib/dates"
+import type { Webhook, WebhookDelivery, WebhookEvent } from "@/types/webhook"
+import type { TradingAccount } from "@/db/schema"
+import { Copy, Eye, EyeOff, Loader2, Plus, RefreshCw, Send, Webhook as WebhookIcon } from "lucide-react"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+
+const ALL_ACCOUNTS = "all"
+
+interface WebhookDraft {
+	name: string
+	url: string
+	accountId: string
+	events: WebhookEvent[]
+	isActive: boolean
+}
+
+const EMPTY_DRAFT: WebhookDraft = {
+	name: "",
+	url: "",
+	accountId: ALL_ACCOUNTS,
+	events: ["trade.created", "trade.closed"],
+	isActive: true,
+}
+
+const toDraft = (webhook: Webhook): WebhookDraft => ({
+	name: webhook.name,
+	url: webhook.url,
+	accountId: webhook.accountId ?? ALL_ACCOUNTS,
+	events: webhook.events,
+	isActive: webhook.isActive,
+})
+
+export const WebhookList = () => {
+	const t = useTranslations("settings.webhooks")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+
+	const [webhooks, setWebhooks] = useState<Webhook[]>([])
+	const [accounts, setAccounts] = useState<TradingAccount[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+
+	const [draft, setDraft] = useState<WebhookDraft>(EMPTY_DRAFT)
+	const [editingId, setEditingId] = useState<string | null>(null)
+	const [revealedId, setRevealedId] = useState<string | null>(null)
+	const [logWebhookId, setLogWebhookId] = useState<string | null>(null)
+	const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+
+	const loadWebhooks = async () => {
+		const result = await listWebhooks()
+		if (result.status === "success" && result.data) {
+			setWebhooks(result.data)
+		}
+		setIsLoading(false)
+	}
+
+	const loadDeliveries = async (webhookId: string) => {
+		const result = await listWebhookDeliveries(webhookId)
+		if (result.status === "success" && result.data) {
+			setDeliveries(result.data)
+		}
+	}
+
+	useEffect(() => {
+		loadWebhooks()
+		getUserAccounts().then(setAccounts)
+	}, [])
+
+	const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+		setDraft((prev) => ({
+			...prev,
+			events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+		}))
+	}
+
+	const resetForm = () => {
+		setDraft(EMPTY_DRAFT)
+		setEditingId(null)
+	}
+
+	const handleSave = () => {
+		startTransition(async () => {
+			const input = {
+				name: draft.name,
+				url: draft.url,
+				events: draft.events,
+				accountId: draft.accountId === ALL_ACCOUNTS ? null : draft.accountId,
+				isActive: draft.isActive,
+			}
+			const result = editingId ? await updateWebhook(editingId, input) : await createWebhook(input)
+			if (result.status === "success") {
+				showToast("success", editingId ? t("updated") : t("created"))
+				resetForm()
+				await loadWebhooks()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleEdit = (webhook: Webhook) => {
+		setEditingId(webhook.id)
+		setDraft(toDraft(webhook))
+	}
+
+	const handleDelete = (id: string) => {
+		startTransition(async () => {
+			const result = await deleteWebhook(id)
+			if (result.status === "success") {
+				showToast("success", t("deleted"))
+				if (editingId === id) resetForm()
+				if (logWebhookId === id) setLogWebhookId(null)
+				await loadWebhooks()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleRotate = (id: string) => {
+		startTransition(async () => {
+			const result = await rotateWebhookSecret(id)
+			if (result.status === "success") {
+				showToast("success", t("secretRotated"))
+				setRevealedId(id)
+				await loadWebhooks()
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleCopySecret = async (secret: string) => {
+		await navigator.clipboard.writeText(secret)
+		showToast("success", t("secretCopied"))
+	}
+
+	const handleSendTest = (id: string) => {
+		startTransition(async () => {
+			const result = await sendTestWebhookEvent(id)
+			if (result.status === "success" && result.data) {
+				if (result.data.status === "succeeded") {
+					showToast("success", t("testSucceeded", { status: result.data.responseStatus ?? "" }))
+				} else {
+					showToast("error", t("testFailed", { error: result.data.error ?? "" }))
+				}
+				setLogWebhookId(id)
+				await loadDeliveries(id)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	const handleToggleLog = (id: string) => {
+		if (logWebhookId === id) {
+			setLogWebhookId(null)
+			return
+		}
+		setDeliveries([])
+		setLogWebhookId(id)
+		startTransition(async () => {
+			await loadDeliveries(id)
+		})
+	}
+
+	const handleRedeliver = (delivery: WebhookDelivery) => {
+		startTransition(async () => {
+			const result = await redeliverWebhook(delivery.id)
+			if (result.status === "success") {
+				showToast("success", t("redelivered"))
+				await loadDeliveries(delivery.webhookId)
+			} else {
+				showToast("error", result.message)
+			}
+		})
+	}
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="settings-webhooks" className="space-y-m-500">
+			<div>
+				<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+				<p className="text-small text-txt-300">{t("description")}</p>
+			</div>
+
+			{/* Create / edit form */}
+			<div className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 space-y-m-400 rounded-lg border">
+				<div className="gap-m-400 grid grid-cols-1 sm:grid-cols-3">
+					<div className="space-y-s-200">
+						<label htmlFor="webhook-name" className="text-small text-txt-200">
+							{t("name")}
+						</label>
+						<Input
+							id="webhook-name"
+							value={draft.name}
+							maxLength={100}
+							placeholder={t("namePlaceholder")}
+							onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+						/>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="webhook-url" className="text-small text-txt-200">
+							{t("url")}
+						</label>
+						<Input
+							id="webhook-url"
+							type="url"
+							value={draft.url}
+							placeholder="https://example.com/webhooks/axion"
+							onChange={(e) => setDraft((prev) => ({ ...prev, url: e.target.value }))}
+						/>
+					</div>
+					<div className="space-y-s-200">
+						<label htmlFor="webhook-account" className="text-small text-txt-200">
+							{t("account")}
+						</label>
+						<Select
+							value={draft.accountId}
+							onValueChange={(value) => setDraft((prev) => ({ ...prev, accountId: value }))}
+						>
+							<SelectTrigger id="webhook-account" aria-label={t("account")}>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value={ALL_ACCOUNTS}>{t("allAccounts")}</SelectItem>
+								{accounts.map((account) => (
+									<SelectItem key={account.id} value={account.id}>
+										{account.name}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<fieldset className="space-y-s-200">
+					<legend className="text-small text-txt-200 mb-s-200">{t("events")}</legend>
+					<div className="gap-s-300 grid grid-cols-1 sm:grid-cols-2">
+						{WEBHOOK_EVENTS.map((event) => (
+							<div key={event} className="gap-s-200 flex items-start">
+								<Checkbox
+									id={`webhook-event-${event}`}
+									checked={draft.events.includes(event)}
+									onCheckedChange={(value) => toggleEvent(event, value === true)}
+								/>
+								<label htmlFor={`webhook-event-${event}`} className="text-small text-txt-200 cursor-pointer">
+									<span className="text-txt-100 font-mono">{event}</span>
+									<span className="text-caption text-txt-300 block">{t(`eventHelp.${event}`)}</span>
+								</label>
+							</div>
+						))}
+					</div>
+				</fieldset>
+
+				<div className="gap-s-300 flex flex-wrap items-center justify-between">
+					<div className="gap-s-200 flex items-center">
+						<Switch
+							id="webhook-active"
+							checked={draft.isActive}
+							onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, isActive: checked }))}
+						/>
+						<label htmlFor="webhook-active" className="text-small text-txt-200 cursor-pointer">
+							{t("active")}
+						</label>
+					</div>
+					<div className="gap-s-200 flex">
+						{editingId && (
+							<Button id="webhook-cancel-edit" variant="outline" onClick={resetForm} disabled={isPending}>
+								{tCommon("cancel")}
+							</Button>
+						)}
+						<Button
+							id="webhook-save"
+							onClick={handleSave}
+							disabled={isPending || !draft.name.trim() || !draft.url.trim() || draft.events.length === 0}
+							aria-label={editingId ? t("save") : t("create")}
+						>
+							{isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+							{editingId ? t("save") : t("create")}
+						</Button>
+					</div>
+				</div>
+			</div>
+
+			{/* Configured webhooks */}
+			{webhooks.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-txt-300 rounded-lg border text-center">
+					{t("empty")}
+				</div>
+			) : (
+				<div className="space-y-s-300">
+					{webhooks.map((webhook) => (
+						<div
+							key={webhook.id}
+							className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 space-y-s-300 rounded-lg border"
+						>
+							<div className="gap-m-400 flex flex-col justify-between sm:flex-row sm:items-start">
+								<div className="gap-s-300 flex min-w-0 items-start">
+									<WebhookIcon className="text-txt-300 mt-1 h-4 w-4 shrink-0" />
+									<div className="min-w-0 space-y-s-100">
+										<div className="gap-s-200 flex flex-wrap items-center">
+											<p className="text-body text-txt-100 font-medium">{webhook.name}</p>
+											{!webhook.isActive && (
+												<Badge id={`webhook-status-${webhook.id}`} variant="outline">
+													{t("disabled")}
+												</Badge>
+											)}
+										</div>
+										<p className="text-caption text-txt-300 truncate">{webhook.url}</p>
+										<div className="gap-s-100 flex flex-wrap">
+											{webhook.events.map((event) => (
+												<Badge key={event} id={`webhook-${webhook.id}-event-${event}`} variant="secondary">
+													{event}
+												</Badge>
+											))}
+										</div>
+										<p className="text-caption text-txt-300">{webhook.accountName ?? t("allAccounts")}</p>
+										<div className="gap-s-200 flex items-center">
+											<span className="text-caption text-txt-300">{t("secret")}</span>
+											<code className="bg-bg-100 text-caption text-txt-100 px-s-200 py-s-100 min-w-0 truncate rounded">
+												{revealedId === webhook.id ? webhook.secret : "••••••••••••"}
+											</code>
+											<Button
+												id={`webhook-reveal-${webhook.id}`}
+												variant="ghost"
+												size="sm"
+												onClick={() => setRevealedId(revealedId === webhook.id ? null : webhook.id)}
+												aria-label={revealedId === webhook.id ? t("hideSecret") : t("showSecret")}
+											>
+												{revealedId === webhook.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+											</Button>
+											<Button
+												id={`webhook-copy-secret-${webhook.id}`}
+												variant="ghost"
+												size="sm"
+												onClick={() => handleCopySecret(webhook.secret)}
+												aria-label={t("copySecret")}
+											>
+												<Copy className="h-4 w-4" />
+											</Button>
+										</div>
+									</div>
+								</div>
+								<div className="gap-s-200 flex shrink-0 flex-wrap">
+									<Button
+										id={`webhook-test-${webhook.id}`}
+										variant="outline"
+										size="sm"
+										onClick={() => handleSendTest(webhook.id)}
+										disabled={isPending || !webhook.isActive}
+									>
+										<Send className="mr-2 h-4 w-4" />
+										{t("sendTest")}
+									</Button>
+									<Button
+										id={`webhook-log-${webhook.id}`}
+										variant="outline"
+										size="sm"
+										onClick={() => handleToggleLog(webhook.id)}
+									>
+										{logWebhookId === webhook.id ? t("hideDeliveries") : t("showDeliveries")}
+									</Button>
+									<Button
+										id={`webhook-edit-${webhook.id}`}
+										variant="outline"
+										size="sm"
+										onClick={() => handleEdit(webhook)}
+										disabled={isPending}
+									>
+										{t("edit")}
+									</Button>
+									<AlertDialog>
+										<AlertDialogTrigger asChild>
+											<Button
+												id={`webhook-rotate-${webhook.id}`}
+												variant="outline"
+												size="sm"
+												disabled={isPending}
+											>
+												{t("rotateSecret")}
+											</Button>
+										</AlertDialogTrigger>
+										<AlertDialogContent>
+											<AlertDialogHeader>
+												<AlertDialogTitle>{t("rotateTitle")}</AlertDialogTitle>
+												<AlertDialogDescription>{t("rotateDescription")}</AlertDialogDescription>
+											</AlertDialogHeader>
+											<AlertDialogFooter>
+												<AlertDialogCancel id={`webhook-rotate-cancel-${webhook.id}`}>
+													{tCommon("cancel")}
+												</AlertDialogCancel>
+												<AlertDialogAction
+													id={`webhook-rotate-confirm-${webhook.id}`}
+													onClick={() => handleRotate(webhook.id)}
+												>
+													{t("rotateSecret")}
+												</AlertDialogAction>
+											</AlertDialogFooter>
+										</AlertDialogContent>
+									</AlertDialog>
+									<AlertDialog>
+										<AlertDialogTrigger asChild>
+											<Button
+												id={`webhook-delete-${webhook.id}`}
+												variant="outline"
+												size="sm"
+												disabled={isPending}
+											>
+												{tCommon("delete")}
+											</Button>
+										</AlertDialogTrigger>
+										<AlertDialogContent>
+											<AlertDialogHeader>
+												<AlertDialogTitle>{t("deleteTitle")}</AlertDialogTitle>
+												<AlertDialogDescription>
+													{t("deleteDescription", { name: webhook.name })}
+												</AlertDialogDescription>
+											</AlertDialogHeader>
+											<AlertDialogFooter>
+												<AlertDialogCancel id={`webhook-delete-cancel-${webhook.id}`}>
+													{tCommon("cancel")}
+												</AlertDialogCancel>
+												<AlertDialogAction
+													id={`webhook-delete-confirm-${webhook.id}`}
+													className="bg-fb-error hover:bg-fb-error/90"
+													onClick={() => handleDelete(webhook.id)}
+												>
+													{tCommon("delete")}
+												</AlertDialogAction>
+											</AlertDialogFooter>
+										</AlertDialogContent>
+									</AlertDialog>
+								</div>
+							</div>
+
+							{/* Delivery log */}
+							{logWebhookId === webhook.id && (
+								<div className="border-bg-300 pt-s-300 space-y-s-200 border-t">
+									{deliveries.length === 0 ? (
+										<p className="text-caption text-txt-300">{t("noDeliveries")}</p>
+									) : (
+										deliveries.map((delivery) => (
+											<div
+												key={delivery.id}
+												className="bg-bg-100 px-s-300 py-s-200 gap-s-300 flex items-start justify-between rounded"
+											>
+												<div className="min-w-0 space-y-s-100">
+													<div className="gap-s-200 flex flex-wrap items-center">
+														<code className="text-caption text-txt-100">{delivery.event}</code>
+														<Badge
+															id={`webhook-delivery-status-${delivery.id}`}
+															variant={delivery.status === "failed" ? "destructive" : delivery.status === "succeeded" ? "secondary" : "outline"}
+														>
+															{t(`deliveryStatus.${delivery.status}`)}
+														</Badge>
+														{delivery.responseStatus !== null && (
+															<span className="text-caption text-txt-300">HTTP {delivery.responseStatus}</span>
+														)}
+													</div>
+													<p className="text-caption text-txt-300">
+														{formatDateTime(delivery.createdAt)} •{" "}
+														{t("attempts", { count: delivery.attempts })}
+														{delivery.status === "pending" && delivery.nextAttemptAt && (
+															<> • {t("nextAttempt", { date: formatDateTime(delivery.nextAttemptAt) })}</>
+														)}
+													</p>
+													{delivery.error && (
+														<p className="text-caption text-fb-error truncate">{delivery.error}</p>
+													)}
+												</div>
+												<Button
+													id={`webhook-redeliver-${delivery.id}`}
+													variant="ghost"
+													size="sm"
+													className="shrink-0"
+													onClick={() => handleRedeliver(delivery)}
+													disabled={isPending}
+													aria-label={t("redeliver")}
+												>
+													<RefreshCw className="mr-2 h-4 w-4" />
+													{t("redeliver")}
+												</Button>
+											</div>
+										))
+									)}
+								</div>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
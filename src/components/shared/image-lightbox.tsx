@@ -10,6 +10,8 @@ import { cn } from "@/lib/utils"
 interface LightboxImage {
 	src: string
 	alt?: string
+	/** Shown under the image */
+	caption?: string
 }
 
 interface ImageLightboxProps {
@@ -79,7 +81,7 @@ const ImageLightbox = ({
 				{/* Image container */}
 				<div className="p-m-500 relative h-full w-full overflow-auto">
 					{/* Current image */}
-					<div className="flex min-h-full w-full items-center justify-center">
+					<div className="flex min-h-full w-full flex-col items-center justify-center">
 						<img
 							src={current?.src}
 							alt={
@@ -88,6 +90,11 @@ const ImageLightbox = ({
 							}
 							className="max-w-full rounded-md"
 						/>
+						{current?.caption && (
+							<p className="mt-s-300 mb-m-500 text-small text-txt-200 text-center">
+								{current.caption}
+							</p>
+						)}
 					</div>
 
 					{/* Navigation arrows */}
@@ -0,0 +1,2 @@
+export { SimulationRunHistory } from "./simulation-run-history"
+export { SimulationRunCompare } from "./simulation-run-compare"
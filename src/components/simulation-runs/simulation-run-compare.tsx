@@ -0,0 +1,627 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useTranslations } from "next-intl"
+import {
+	ComposedChart,
+	Area,
+	Line,
+	XAxis,
+	YAxis,
+	CartesianGrid,
+	Legend,
+} from "recharts"
+import { Loader2 } from "lucide-react"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart-container"
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog"
+import { getSimulationRunsForCompare } from "@/app/actions/simulation-runs"
+import { useChartConfig } from "@/hooks/use-chart-config"
+import { formatCompactCurrency, formatR, formatRatio } from "@/lib/formatting"
+import { formatDateTime } from "@/lib/dates"
+import { cn } from "@/lib/utils"
+import type {
+	SimulationRunDetail,
+	SimulationRunKind,
+} from "@/types/simulation-run"
+
+interface SimulationRunCompareProps {
+	/** The two runs to compare; null closes the dialog */
+	runIds: [string, string] | null
+	onClose: () => void
+}
+
+interface MetricRow {
+	key: string
+	label: string
+	values: [number, number]
+	format: (value: number) => string
+	higherIsBetter: boolean
+}
+
+const RUN_COLORS = ["var(--color-acc-100)", "var(--color-acc-200)"] as const
+
+const formatMoney = (cents: number) => formatCompactCurrency(cents / 100, "R$")
+const formatPercent = (value: number) => `${value.toFixed(1)}%`
+
+/** Converts a stored value to the unit the charts show (R or currency) */
+const toChartValue = (kind: SimulationRunKind, value: number) =>
+	kind === "monte_carlo" ? value : value / 100
+
+const formatChartValue = (kind: SimulationRunKind, value: number) =>
+	kind === "monte_carlo" ? formatR(value) : formatCompactCurrency(value, "R$")
+
+/**
+ * Two saved runs of the same simulator side by side: headline metrics, the
+ * final-outcome distributions and the equity fans (P5–P95 band, P25–P75
+ * band and median) overlaid on shared axes.
+ */
+const SimulationRunCompare = ({
+	runIds,
+	onClose,
+}: SimulationRunCompareProps) => {
+	const t = useTranslations("simulationRuns.compareView")
+	const tRuns = useTranslations("simulationRuns")
+	const { yAxisWidth } = useChartConfig()
+
+	const [runs, setRuns] = useState<
+		[SimulationRunDetail, SimulationRunDetail] | null
+	>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (!runIds) return
+
+		let cancelled = false
+		setRuns(null)
+		setError(null)
+		getSimulationRunsForCompare(runIds).then((response) => {
+			if (cancelled) return
+			if (response.status === "success" && response.data) {
+				setRuns(response.data)
+			} else {
+				setError(response.message)
+			}
+		})
+
+		return () => {
+			cancelled = true
+		}
+	}, [runIds])
+
+	const kind = runs?.[0].kind ?? null
+
+	const metricRows = useMemo(
+		() => (runs ? buildMetricRows(runs, t) : []),
+		[runs, t]
+	)
+
+	const distributionData = useMemo(() => {
+		if (!runs || !kind) return []
+		const byX = new Map<number, { x: number; a?: number; b?: number }>()
+		runs.forEach((run, index) => {
+			for (const bucket of run.distribution) {
+				const x = toChartValue(kind, (bucket.rangeStart + bucket.rangeEnd) / 2)
+				const point = byX.get(x) ?? { x }
+				point[index === 0 ? "a" : "b"] = bucket.percentage
+				byX.set(x, point)
+			}
+		})
+		return [...byX.values()].toSorted((p, q) => p.x - q.x)
+	}, [runs, kind])
+
+	const fanData = useMemo(() => {
+		if (!runs || !kind) return []
+		type FanRow = {
+			step: number
+			aOuter?: [number, number]
+			aInner?: [number, number]
+			aMedian?: number
+			bOuter?: [number, number]
+			bInner?: [number, number]
+			bMedian?: number
+		}
+		const byStep = new Map<number, FanRow>()
+		runs.forEach((run, index) => {
+			const prefix = index === 0 ? ("a" as const) : ("b" as const)
+			for (const point of run.equityFan) {
+				const row = byStep.get(point.step) ?? { step: point.step }
+				const value = (v: number) => toChartValue(kind, v)
+				row[`${prefix}Outer`] = [value(point.p5), value(point.p95)]
+				row[`${prefix}Inner`] = [value(point.p25), value(point.p75)]
+				row[`${prefix}Median`] = value(point.p50)
+				byStep.set(point.step, row)
+			}
+		})
+		return [...byStep.values()].toSorted((p, q) => p.step - q.step)
+	}, [runs, kind])
+
+	const getDeltaClass = (row: MetricRow) => {
+		const delta = row.values[1] - row.values[0]
+		if (!Number.isFinite(delta) || Math.abs(delta) < 1e-9) return "text-txt-300"
+		return delta > 0 === row.higherIsBetter
+			? "text-trade-buy"
+			: "text-trade-sell"
+	}
+
+	const formatDelta = (row: MetricRow) => {
+		const delta = row.values[1] - row.values[0]
+		if (!Number.isFinite(delta)) return "—"
+		const formatted = row.format(Math.abs(delta)).replace(/^[+-]/, "")
+		if (delta === 0) return formatted
+		return `${delta > 0 ? "+" : "-"}${formatted}`
+	}
+
+	// Risk simulation replays have a single path: only the median line is meaningful
+	const showBands = kind !== "risk_simulation"
+
+	return (
+		<Dialog open={!!runIds} onOpenChange={(open) => !open && onClose()}>
+			<DialogContent
+				id="simulation-run-compare"
+				className="max-h-[90vh] overflow-y-auto lg:max-w-4xl xl:max-w-5xl"
+			>
+				<DialogHeader>
+					<DialogTitle>{t("title")}</DialogTitle>
+					<DialogDescription>{t("description")}</DialogDescription>
+				</DialogHeader>
+
+				{error && (
+					<div className="border-fb-error/30 bg-fb-error/10 p-m-400 text-small text-fb-error rounded-lg border">
+						{error}
+					</div>
+				)}
+
+				{!runs && !error && (
+					<div className="p-l-700 flex items-center justify-center">
+						<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+					</div>
+				)}
+
+				{runs && kind && (
+					<div className="space-y-m-400">
+						{/* Run headers */}
+						<div className="gap-s-300 grid sm:grid-cols-2">
+							{runs.map((run, index) => (
+								<div
+									key={run.id}
+									className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border"
+									style={{
+										borderLeftColor: RUN_COLORS[index],
+										borderLeftWidth: 3,
+									}}
+								>
+									<p className="text-small text-txt-100 truncate font-medium">
+										{run.name}
+									</p>
+									<p className="text-caption text-txt-300">
+										{formatDateTime(run.createdAt)}
+										{run.seed !== null &&
+											` • ${tRuns("seed", { seed: run.seed })}`}
+									</p>
+								</div>
+							))}
+						</div>
+
+						{/* Metrics */}
+						<div className="border-bg-300 overflow-x-auto rounded-lg border">
+							<table className="w-full" aria-label={t("metricsTitle")}>
+								<thead>
+									<tr className="bg-bg-100 border-bg-300 border-b">
+										<th className="text-tiny text-txt-300 px-3 py-2 text-left font-medium whitespace-nowrap">
+											{t("metric")}
+										</th>
+										<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+											{t("runA")}
+										</th>
+										<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+											{t("runB")}
+										</th>
+										<th className="text-tiny text-txt-300 px-3 py-2 text-right font-medium whitespace-nowrap">
+											{t("difference")}
+										</th>
+									</tr>
+								</thead>
+								<tbody>
+									{metricRows.map((row) => (
+										<tr
+											key={row.key}
+											className="border-bg-300 border-b last:border-b-0"
+										>
+											<td className="text-small text-txt-200 px-3 py-2">
+												{row.label}
+											</td>
+											<td className="text-small text-txt-100 px-3 py-2 text-right whitespace-nowrap">
+												{row.format(row.values[0])}
+											</td>
+											<td className="text-small text-txt-100 px-3 py-2 text-right whitespace-nowrap">
+												{row.format(row.values[1])}
+											</td>
+											<td
+												className={cn(
+													"text-small px-3 py-2 text-right whitespace-nowrap",
+													getDeltaClass(row)
+												)}
+											>
+												{formatDelta(row)}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+
+						{/* Outcome distributions */}
+						{distributionData.length > 0 && (
+							<div className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border">
+								<h3 className="text-small text-txt-100 font-semibold">
+									{t("distribution")}
+								</h3>
+								<p className="mb-s-300 text-tiny text-txt-300">
+									{t(`distributionHint.${kind}`)}
+								</p>
+								<ChartContainer
+									id="simulation-run-compare-distribution"
+									className="h-56 sm:h-64"
+								>
+									<ComposedChart
+										data={distributionData}
+										margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+									>
+										<CartesianGrid
+											strokeDasharray="3 3"
+											stroke="var(--color-bg-300)"
+											strokeOpacity={0.5}
+										/>
+										<XAxis
+											dataKey="x"
+											type="number"
+											domain={["dataMin", "dataMax"]}
+											stroke="var(--color-txt-300)"
+											fontSize={11}
+											tickLine={false}
+											axisLine={false}
+											tickFormatter={(value: number) =>
+												formatChartValue(kind, value)
+											}
+										/>
+										<YAxis
+											stroke="var(--color-txt-300)"
+											fontSize={11}
+											tickLine={false}
+											axisLine={false}
+											tickFormatter={(value: number) => `${value.toFixed(0)}%`}
+											width={yAxisWidth}
+										/>
+										<ChartTooltip
+											variant="line"
+											labelFormatter={(value) =>
+												formatChartValue(kind, Number(value))
+											}
+											formatter={(value) => formatPercent(Number(value))}
+										/>
+										<Legend
+											wrapperStyle={{
+												fontSize: 12,
+												color: "var(--color-txt-300)",
+											}}
+										/>
+										{runs.map((run, index) => (
+											<Area
+												key={run.id}
+												type="monotone"
+												dataKey={index === 0 ? "a" : "b"}
+												name={run.name}
+												stroke={RUN_COLORS[index]}
+												fill={RUN_COLORS[index]}
+												fillOpacity={0.15}
+												strokeWidth={2}
+												connectNulls
+											/>
+										))}
+									</ComposedChart>
+								</ChartContainer>
+							</div>
+						)}
+
+						{/* Equity fans */}
+						{fanData.length > 0 && (
+							<div className="border-bg-300 bg-bg-100 p-s-300 rounded-lg border">
+								<h3 className="text-small text-txt-100 font-semibold">
+									{t("equityFan")}
+								</h3>
+								<p className="mb-s-300 text-tiny text-txt-300">
+									{showBands ? t("equityFanHint") : t("equityCurveHint")}
+								</p>
+								<ChartContainer
+									id="simulation-run-compare-equity-fan"
+									className="h-64 sm:h-72"
+								>
+									<ComposedChart
+										data={fanData}
+										margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+									>
+										<CartesianGrid
+											strokeDasharray="3 3"
+											stroke="var(--color-bg-300)"
+											strokeOpacity={0.5}
+										/>
+										<XAxis
+											dataKey="step"
+											type="number"
+											domain={[0, "dataMax"]}
+											stroke="var(--color-txt-300)"
+											fontSize={11}
+											tickLine={false}
+											axisLine={false}
+										/>
+										<YAxis
+											stroke="var(--color-txt-300)"
+											fontSize={11}
+											tickLine={false}
+											axisLine={false}
+											tickFormatter={(value: number) =>
+												formatChartValue(kind, value)
+											}
+											width={yAxisWidth}
+										/>
+										<ChartTooltip
+											variant="line"
+											labelFormatter={(value) =>
+												t(`stepLabel.${kind}`, { step: Number(value) })
+											}
+											formatter={(value) =>
+												Array.isArray(value)
+													? value
+															.map((v) => formatChartValue(kind, Number(v)))
+															.join(" – ")
+													: formatChartValue(kind, Number(value))
+											}
+										/>
+										<Legend
+											wrapperStyle={{
+												fontSize: 12,
+												color: "var(--color-txt-300)",
+											}}
+										/>
+										{showBands &&
+											runs.flatMap((run, index) => {
+												const prefix = index === 0 ? "a" : "b"
+												return [
+													<Area
+														key={`${run.id}-outer`}
+														type="monotone"
+														dataKey={`${prefix}Outer`}
+														name={t("bandOuter", { name: run.name })}
+														stroke="none"
+														fill={RUN_COLORS[index]}
+														fillOpacity={0.1}
+														connectNulls
+														legendType="none"
+													/>,
+													<Area
+														key={`${run.id}-inner`}
+														type="monotone"
+														dataKey={`${prefix}Inner`}
+														name={t("bandInner", { name: run.name })}
+														stroke="none"
+														fill={RUN_COLORS[index]}
+														fillOpacity={0.2}
+														connectNulls
+														legendType="none"
+													/>,
+												]
+											})}
+										{runs.map((run, index) => (
+											<Line
+												key={`${run.id}-median`}
+												type="monotone"
+												dataKey={index === 0 ? "aMedian" : "bMedian"}
+												name={
+													showBands ? t("median", { name: run.name }) : run.name
+												}
+												stroke={RUN_COLORS[index]}
+												strokeWidth={2}
+												dot={false}
+												connectNulls
+											/>
+										))}
+									</ComposedChart>
+								</ChartContainer>
+							</div>
+						)}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+interface MetricDefinition<TValues> {
+	key: string
+	pick: (values: TValues) => number
+	format: (value: number) => string
+	higherIsBetter: boolean
+}
+
+const toMetricRows = <TValues,>(
+	values: [TValues, TValues],
+	definitions: MetricDefinition<TValues>[],
+	t: ReturnType<typeof useTranslations>
+): MetricRow[] =>
+	definitions.map(({ pick, ...definition }) => ({
+		...definition,
+		label: t(`metrics.${definition.key}`),
+		values: [pick(values[0]), pick(values[1])],
+	}))
+
+/** Headline metrics per simulator; B minus A drives the difference column */
+const buildMetricRows = (
+	[a, b]: [SimulationRunDetail, SimulationRunDetail],
+	t: ReturnType<typeof useTranslations>
+): MetricRow[] => {
+	const [statsA, statsB] = [a.statistics, b.statistics]
+	const count = (value: number) => value.toString()
+
+	if (statsA.kind === "monte_carlo" && statsB.kind === "monte_carlo") {
+		return toMetricRows(
+			[statsA.values, statsB.values],
+			[
+				{
+					key: "medianFinalR",
+					pick: (s) => s.medianFinalR,
+					format: formatR,
+					higherIsBetter: true,
+				},
+				{
+					key: "worstCaseFinalR",
+					pick: (s) => s.worstCaseFinalR,
+					format: formatR,
+					higherIsBetter: true,
+				},
+				{
+					key: "bestCaseFinalR",
+					pick: (s) => s.bestCaseFinalR,
+					format: formatR,
+					higherIsBetter: true,
+				},
+				{
+					key: "profitablePct",
+					pick: (s) => s.profitablePct,
+					format: formatPercent,
+					higherIsBetter: true,
+				},
+				{
+					key: "expectedRPerTrade",
+					pick: (s) => s.expectedRPerTrade,
+					format: formatR,
+					higherIsBetter: true,
+				},
+				{
+					key: "medianMaxRDrawdown",
+					pick: (s) => s.medianMaxRDrawdown,
+					format: (v) => `${v.toFixed(2)}R`,
+					higherIsBetter: false,
+				},
+				{
+					key: "expectedMaxLossStreak",
+					pick: (s) => s.expectedMaxLossStreak,
+					format: (v) => v.toFixed(1),
+					higherIsBetter: false,
+				},
+				{
+					key: "profitFactor",
+					pick: (s) => s.profitFactor,
+					format: formatRatio,
+					higherIsBetter: true,
+				},
+			],
+			t
+		)
+	}
+
+	if (statsA.kind === "monte_carlo_v2" && statsB.kind === "monte_carlo_v2") {
+		return toMetricRows(
+			[statsA.values, statsB.values],
+			[
+				{
+					key: "medianPnl",
+					pick: (s) => s.medianMonthlyPnl,
+					format: formatMoney,
+					higherIsBetter: true,
+				},
+				{
+					key: "worstCasePnl",
+					pick: (s) => s.worstCaseMonthlyPnl,
+					format: formatMoney,
+					higherIsBetter: true,
+				},
+				{
+					key: "bestCasePnl",
+					pick: (s) => s.bestCaseMonthlyPnl,
+					format: formatMoney,
+					higherIsBetter: true,
+				},
+				{
+					key: "profitablePct",
+					pick: (s) => s.profitableMonthsPct,
+					format: formatPercent,
+					higherIsBetter: true,
+				},
+				{
+					key: "medianMaxDrawdownPercent",
+					pick: (s) => s.medianMaxDrawdownPercent,
+					format: formatPercent,
+					higherIsBetter: false,
+				},
+				{
+					key: "riskOfRuin",
+					pick: (s) => s.riskOfRuinPercent,
+					format: formatPercent,
+					higherIsBetter: false,
+				},
+				{
+					key: "sharpeRatio",
+					pick: (s) => s.sharpeRatio,
+					format: formatRatio,
+					higherIsBetter: true,
+				},
+			],
+			t
+		)
+	}
+
+	if (statsA.kind === "risk_simulation" && statsB.kind === "risk_simulation") {
+		return toMetricRows(
+			[statsA.values, statsB.values],
+			[
+				{
+					key: "totalPnl",
+					pick: (s) => s.simulatedTotalPnlCents,
+					format: formatMoney,
+					higherIsBetter: true,
+				},
+				{
+					key: "winRate",
+					pick: (s) => s.simulatedWinRate,
+					format: formatPercent,
+					higherIsBetter: true,
+				},
+				{
+					key: "profitFactor",
+					pick: (s) => s.simulatedProfitFactor,
+					format: formatRatio,
+					higherIsBetter: true,
+				},
+				{
+					key: "maxDrawdownPercent",
+					pick: (s) => s.simulatedMaxDrawdownPercent,
+					format: formatPercent,
+					higherIsBetter: false,
+				},
+				{
+					key: "executedTrades",
+					pick: (s) => s.executedTrades,
+					format: count,
+					higherIsBetter: true,
+				},
+				{
+					key: "daysHitDailyLimit",
+					pick: (s) => s.daysHitDailyLimit,
+					format: count,
+					higherIsBetter: false,
+				},
+			],
+			t
+		)
+	}
+
+	return []
+}
+
+export { SimulationRunCompare }
@@ -0,0 +1,361 @@
+"use client"
+
+import { useCallback, useEffect, useState, useTransition } from "react"
+import { useTranslations } from "next-intl"
+import {
+	Check,
+	FolderOpen,
+	GitCompare,
+	History,
+	Loader2,
+	Pencil,
+	Trash2,
+	X,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/components/ui/toast"
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import {
+	deleteSimulationRun,
+	listSimulationRuns,
+	renameSimulationRun,
+} from "@/app/actions/simulation-runs"
+import { formatCompactCurrency, formatR } from "@/lib/formatting"
+import { formatDateTime } from "@/lib/dates"
+import { SimulationRunCompare } from "./simulation-run-compare"
+import type { SimulationRun, SimulationRunKind } from "@/types/simulation-run"
+
+interface SimulationRunHistoryProps {
+	kinds: SimulationRunKind[]
+	/** Bumped by the page after each new run so the list reloads */
+	refreshKey: number
+	/** Replays the run in its simulator */
+	onReopen: (run: SimulationRun) => Promise<void>
+}
+
+/**
+ * Saved runs of one page's simulators, newest first. Each run can be
+ * re-opened, renamed or deleted; two runs of the same kind can be compared.
+ */
+export const SimulationRunHistory = ({
+	kinds,
+	refreshKey,
+	onReopen,
+}: SimulationRunHistoryProps) => {
+	const t = useTranslations("simulationRuns")
+	const tCommon = useTranslations("common")
+	const { showToast } = useToast()
+
+	const [runs, setRuns] = useState<SimulationRun[]>([])
+	const [isLoading, setIsLoading] = useState(true)
+	const [isPending, startTransition] = useTransition()
+	const [busyRunId, setBusyRunId] = useState<string | null>(null)
+	const [editingRunId, setEditingRunId] = useState<string | null>(null)
+	const [draftName, setDraftName] = useState("")
+	const [selectedIds, setSelectedIds] = useState<string[]>([])
+	const [compareIds, setCompareIds] = useState<[string, string] | null>(null)
+
+	const kindsKey = kinds.join(",")
+
+	const loadRuns = useCallback(async () => {
+		const result = await listSimulationRuns(
+			kindsKey.split(",") as SimulationRunKind[]
+		)
+		if (result.status === "success" && result.data) {
+			setRuns(result.data)
+			setSelectedIds((prev) =>
+				prev.filter((id) => result.data!.some((run) => run.id === id))
+			)
+		}
+		setIsLoading(false)
+	}, [kindsKey])
+
+	useEffect(() => {
+		loadRuns()
+	}, [loadRuns, refreshKey])
+
+	const selectedRuns = runs.filter((run) => selectedIds.includes(run.id))
+	const canCompare =
+		selectedRuns.length === 2 && selectedRuns[0].kind === selectedRuns[1].kind
+
+	const toggleSelected = (run: SimulationRun, checked: boolean) => {
+		setSelectedIds((prev) => {
+			if (!checked) return prev.filter((id) => id !== run.id)
+			// Keep the latest pick when a third run is selected
+			return [...prev.slice(-1), run.id]
+		})
+	}
+
+	const handleReopen = (run: SimulationRun) => {
+		setBusyRunId(run.id)
+		startTransition(async () => {
+			await onReopen(run)
+			setBusyRunId(null)
+		})
+	}
+
+	const startEditing = (run: SimulationRun) => {
+		setEditingRunId(run.id)
+		setDraftName(run.name)
+	}
+
+	const handleRename = (runId: string) => {
+		setBusyRunId(runId)
+		startTransition(async () => {
+			const result = await renameSimulationRun(runId, draftName)
+			if (result.status === "success" && result.data) {
+				const renamed = result.data
+				setRuns((prev) => prev.map((run) => (run.id === runId ? renamed : run)))
+				setEditingRunId(null)
+				showToast("success", t("renamed"))
+			} else {
+				showToast("error", t("renameError"))
+			}
+			setBusyRunId(null)
+		})
+	}
+
+	const handleDelete = (runId: string) => {
+		setBusyRunId(runId)
+		startTransition(async () => {
+			const result = await deleteSimulationRun(runId)
+			if (result.status === "success") {
+				showToast("success", t("deleted"))
+				await loadRuns()
+			} else {
+				showToast("error", t("deleteError"))
+			}
+			setBusyRunId(null)
+		})
+	}
+
+	const formatHeadline = (run: SimulationRun): string => {
+		const { statistics } = run
+		switch (statistics.kind) {
+			case "monte_carlo":
+				return t("headline.monteCarlo", {
+					median: formatR(statistics.values.medianFinalR),
+					profitable: statistics.values.profitablePct.toFixed(1),
+				})
+			case "monte_carlo_v2":
+				return t("headline.monteCarloV2", {
+					pnl: formatCompactCurrency(
+						statistics.values.medianMonthlyPnl / 100,
+						"R$"
+					),
+					ruin: statistics.values.riskOfRuinPercent.toFixed(1),
+				})
+			case "risk_simulation":
+				return t("headline.riskSimulation", {
+					pnl: formatCompactCurrency(
+						statistics.values.simulatedTotalPnlCents / 100,
+						"R$"
+					),
+					drawdown: statistics.values.simulatedMaxDrawdownPercent.toFixed(1),
+				})
+		}
+	}
+
+	if (isLoading) {
+		return (
+			<div className="p-l-700 flex items-center justify-center">
+				<Loader2 className="text-txt-300 h-6 w-6 animate-spin" />
+			</div>
+		)
+	}
+
+	return (
+		<div id="simulation-run-history" className="space-y-m-400">
+			<div className="gap-m-400 flex flex-wrap items-start justify-between">
+				<div>
+					<h3 className="text-body text-txt-100 font-semibold">{t("title")}</h3>
+					<p className="text-small text-txt-300">{t("description")}</p>
+				</div>
+				<Button
+					id="simulation-run-compare-selected"
+					variant="outline"
+					size="sm"
+					disabled={!canCompare}
+					onClick={() => setCompareIds([selectedIds[0], selectedIds[1]])}
+				>
+					<GitCompare className="mr-2 h-4 w-4" />
+					{t("compare", { count: selectedIds.length })}
+				</Button>
+			</div>
+
+			{selectedRuns.length === 2 && !canCompare && (
+				<p className="text-tiny text-warning">{t("compareKindMismatch")}</p>
+			)}
+
+			{runs.length === 0 ? (
+				<div className="border-bg-300 bg-bg-200 p-l-700 text-txt-300 rounded-lg border text-center">
+					{t("empty")}
+				</div>
+			) : (
+				<div className="space-y-s-300">
+					{runs.map((run) => {
+						const isBusy = isPending && busyRunId === run.id
+						const isEditing = editingRunId === run.id
+						return (
+							<div
+								key={run.id}
+								className="border-bg-300 bg-bg-200 p-s-300 sm:p-m-400 gap-m-400 flex items-start justify-between rounded-lg border"
+							>
+								<div className="gap-s-300 flex min-w-0 flex-1 items-start">
+									<Checkbox
+										id={`simulation-run-select-${run.id}`}
+										className="mt-1"
+										checked={selectedIds.includes(run.id)}
+										onCheckedChange={(checked) =>
+											toggleSelected(run, checked === true)
+										}
+										aria-label={t("selectToCompare")}
+									/>
+									<History className="text-txt-300 mt-1 h-4 w-4 shrink-0" />
+									<div className="min-w-0 flex-1">
+										{isEditing ? (
+											<div className="gap-s-200 flex items-center">
+												<Input
+													id={`simulation-run-name-${run.id}`}
+													value={draftName}
+													maxLength={100}
+													onChange={(e) => setDraftName(e.target.value)}
+													onKeyDown={(e) => {
+														if (e.key === "Enter") handleRename(run.id)
+														if (e.key === "Escape") setEditingRunId(null)
+													}}
+													aria-label={t("nameLabel")}
+													autoFocus
+												/>
+												<Button
+													id={`simulation-run-name-save-${run.id}`}
+													variant="ghost"
+													size="icon"
+													onClick={() => handleRename(run.id)}
+													disabled={isBusy || draftName.trim().length === 0}
+													aria-label={t("save")}
+												>
+													<Check className="h-4 w-4" />
+												</Button>
+												<Button
+													id={`simulation-run-name-cancel-${run.id}`}
+													variant="ghost"
+													size="icon"
+													onClick={() => setEditingRunId(null)}
+													aria-label={tCommon("cancel")}
+												>
+													<X className="h-4 w-4" />
+												</Button>
+											</div>
+										) : (
+											<div className="gap-s-200 flex flex-wrap items-center">
+												<p className="text-body text-txt-100 truncate font-medium">
+													{run.name}
+												</p>
+												{kinds.length > 1 && (
+													<Badge
+														id={`simulation-run-kind-${run.id}`}
+														variant="outline"
+													>
+														{t(`kinds.${run.kind}`)}
+													</Badge>
+												)}
+											</div>
+										)}
+										<p className="text-small text-txt-200">
+											{formatHeadline(run)}
+										</p>
+										<p className="text-caption text-txt-300">
+											{formatDateTime(run.createdAt)}
+											{run.seed !== null &&
+												` • ${t("seed", { seed: run.seed })}`}
+										</p>
+									</div>
+								</div>
+
+								{isBusy ? (
+									<Loader2 className="text-txt-300 h-4 w-4 shrink-0 animate-spin" />
+								) : (
+									<div className="gap-s-200 flex shrink-0 items-center">
+										<Button
+											id={`simulation-run-reopen-${run.id}`}
+											variant="outline"
+											size="sm"
+											onClick={() => handleReopen(run)}
+										>
+											<FolderOpen className="mr-2 h-4 w-4" />
+											{t("reopen")}
+										</Button>
+										<Button
+											id={`simulation-run-rename-${run.id}`}
+											variant="ghost"
+											size="icon"
+											onClick={() => startEditing(run)}
+											aria-label={t("rename")}
+										>
+											<Pencil className="h-4 w-4" />
+										</Button>
+										<AlertDialog>
+											<AlertDialogTrigger asChild>
+												<Button
+													id={`simulation-run-delete-${run.id}`}
+													variant="ghost"
+													size="icon"
+													aria-label={t("delete")}
+												>
+													<Trash2 className="h-4 w-4" />
+												</Button>
+											</AlertDialogTrigger>
+											<AlertDialogContent>
+												<AlertDialogHeader>
+													<AlertDialogTitle>
+														{t("deleteTitle")}
+													</AlertDialogTitle>
+													<AlertDialogDescription>
+														{t("deleteDescription", { name: run.name })}
+													</AlertDialogDescription>
+												</AlertDialogHeader>
+												<AlertDialogFooter>
+													<AlertDialogCancel
+														id={`simulation-run-delete-cancel-${run.id}`}
+													>
+														{tCommon("cancel")}
+													</AlertDialogCancel>
+													<AlertDialogAction
+														id={`simulation-run-delete-confirm-${run.id}`}
+														className="bg-fb-error hover:bg-fb-error/90"
+														onClick={() => handleDelete(run.id)}
+													>
+														{t("delete")}
+													</AlertDialogAction>
+												</AlertDialogFooter>
+											</AlertDialogContent>
+										</AlertDialog>
+									</div>
+								)}
+							</div>
+						)
+					})}
+				</div>
+			)}
+
+			<SimulationRunCompare
+				runIds={compareIds}
+				onClose={() => setCompareIds(null)}
+			/>
+		</div>
+	)
+}
@@ -0,0 +1,35 @@
+CREATE TABLE "tax_ledger_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" uuid NOT NULL,
+	"year" integer NOT NULL,
+	"month" integer NOT NULL,
+	"day_trade_result_cents" integer DEFAULT 0 NOT NULL,
+	"swing_result_cents" integer DEFAULT 0 NOT NULL,
+	"swing_stock_sales_cents" integer DEFAULT 0 NOT NULL,
+	"swing_exempt" boolean DEFAULT false NOT NULL,
+	"day_trade_loss_carry_in_cents" integer DEFAULT 0 NOT NULL,
+	"swing_loss_carry_in_cents" integer DEFAULT 0 NOT NULL,
+	"day_trade_loss_carry_out_cents" integer DEFAULT 0 NOT NULL,
+	"swing_loss_carry_out_cents" integer DEFAULT 0 NOT NULL,
+	"day_trade_taxable_cents" integer DEFAULT 0 NOT NULL,
+	"swing_taxable_cents" integer DEFAULT 0 NOT NULL,
+	"day_trade_tax_cents" integer DEFAULT 0 NOT NULL,
+	"swing_tax_cents" integer DEFAULT 0 NOT NULL,
+	"day_trade_tax_rate" numeric(5, 2) NOT NULL,
+	"swing_trade_tax_rate" numeric(5, 2) NOT NULL,
+	"irrf_cents" integer DEFAULT 0 NOT NULL,
+	"irrf_credit_used_cents" integer DEFAULT 0 NOT NULL,
+	"irrf_credit_carry_out_cents" integer DEFAULT 0 NOT NULL,
+	"darf_carry_in_cents" integer DEFAULT 0 NOT NULL,
+	"darf_due_cents" integer DEFAULT 0 NOT NULL,
+	"darf_carry_out_cents" integer DEFAULT 0 NOT NULL,
+	"darf_due_date" timestamp with time zone NOT NULL,
+	"darf_paid_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "nota_imports" ADD COLUMN "irrf_cents" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ADD CONSTRAINT "tax_ledger_entries_account_id_trading_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."trading_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tax_ledger_entries_account_idx" ON "tax_ledger_entries" USING btree ("account_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "tax_ledger_entries_account_year_month_idx" ON "tax_ledger_entries" USING btree ("account_id","year","month");
\ No newline at end of file
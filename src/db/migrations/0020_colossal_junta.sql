@@ -0,0 +1,41 @@
+CREATE TABLE "nota_costs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"nota_import_id" uuid NOT NULL,
+	"total_operation_value_cents" integer DEFAULT 0 NOT NULL,
+	"brokerage_cents" integer DEFAULT 0 NOT NULL,
+	"operational_fees_cents" integer DEFAULT 0 NOT NULL,
+	"settlement_fee_cents" integer DEFAULT 0 NOT NULL,
+	"registration_fee_cents" integer DEFAULT 0 NOT NULL,
+	"bmf_fees_cents" integer DEFAULT 0 NOT NULL,
+	"net_total_cents" integer DEFAULT 0 NOT NULL,
+	"net_total_debit_credit" varchar(1) DEFAULT 'C' NOT NULL,
+	"allocated_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "nota_costs_nota_import_id_unique" UNIQUE("nota_import_id")
+);
+--> statement-breakpoint
+CREATE TABLE "nota_fills" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"nota_import_id" uuid NOT NULL,
+	"trade_id" uuid,
+	"sequence_number" integer NOT NULL,
+	"exchange" varchar(20) NOT NULL,
+	"side" varchar(1) NOT NULL,
+	"market_type" varchar(30) NOT NULL,
+	"raw_asset" varchar(50) NOT NULL,
+	"normalized_asset" varchar(20) NOT NULL,
+	"expiry_date" varchar(10),
+	"quantity" numeric(18, 8) NOT NULL,
+	"price" numeric(18, 8) NOT NULL,
+	"operation_value_cents" integer DEFAULT 0 NOT NULL,
+	"debit_credit" varchar(1) NOT NULL,
+	"operational_fee_cents" integer DEFAULT 0 NOT NULL,
+	"is_day_trade" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "nota_costs" ADD CONSTRAINT "nota_costs_nota_import_id_nota_imports_id_fk" FOREIGN KEY ("nota_import_id") REFERENCES "public"."nota_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "nota_fills" ADD CONSTRAINT "nota_fills_nota_import_id_nota_imports_id_fk" FOREIGN KEY ("nota_import_id") REFERENCES "public"."nota_imports"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "nota_fills" ADD CONSTRAINT "nota_fills_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "nota_fills_nota_import_idx" ON "nota_fills" USING btree ("nota_import_id");--> statement-breakpoint
+CREATE INDEX "nota_fills_trade_idx" ON "nota_fills" USING btree ("trade_id");
\ No newline at end of file
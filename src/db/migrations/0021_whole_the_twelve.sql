@@ -0,0 +1,2 @@
+ALTER TABLE "nota_imports" ADD COLUMN "nota_number" varchar(30);--> statement-breakpoint
+CREATE INDEX "nota_imports_account_number_idx" ON "nota_imports" USING btree ("account_id","nota_number");
\ No newline at end of file
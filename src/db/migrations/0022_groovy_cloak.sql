@@ -0,0 +1,12 @@
+CREATE TABLE "import_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"mapping" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "import_templates" ADD CONSTRAINT "import_templates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_templates_user_idx" ON "import_templates" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "import_templates_user_name_idx" ON "import_templates" USING btree ("user_id","name");
\ No newline at end of file
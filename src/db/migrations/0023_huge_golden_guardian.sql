@@ -0,0 +1,16 @@
+CREATE TABLE "open_positions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" uuid NOT NULL,
+	"trade_id" uuid NOT NULL,
+	"asset" varchar(20) NOT NULL,
+	"direction" "trade_direction" NOT NULL,
+	"remaining_quantity" numeric(20, 8) NOT NULL,
+	"average_price" numeric(20, 8) NOT NULL,
+	"opened_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "open_positions" ADD CONSTRAINT "open_positions_account_id_trading_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."trading_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "open_positions" ADD CONSTRAINT "open_positions_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "open_positions_account_asset_idx" ON "open_positions" USING btree ("account_id","asset");--> statement-breakpoint
+CREATE UNIQUE INDEX "open_positions_trade_idx" ON "open_positions" USING btree ("trade_id");
\ No newline at end of file
@@ -0,0 +1,40 @@
+CREATE TABLE "import_batch_trade_snapshots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"import_batch_id" uuid NOT NULL,
+	"trade_id" uuid NOT NULL,
+	"snapshot" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "import_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"account_id" uuid NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"source_name" varchar(100),
+	"file_name" varchar(255),
+	"file_hash" varchar(64),
+	"trades_created" integer DEFAULT 0 NOT NULL,
+	"trades_enriched" integer DEFAULT 0 NOT NULL,
+	"executions_created" integer DEFAULT 0 NOT NULL,
+	"status" varchar(20) DEFAULT 'completed' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"rolled_back_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "nota_imports" ADD COLUMN "import_batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "trade_executions" ADD COLUMN "import_batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "trades" ADD COLUMN "import_batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "import_batch_trade_snapshots" ADD CONSTRAINT "import_batch_trade_snapshots_import_batch_id_import_batches_id_fk" FOREIGN KEY ("import_batch_id") REFERENCES "public"."import_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_batch_trade_snapshots" ADD CONSTRAINT "import_batch_trade_snapshots_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_account_id_trading_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."trading_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "import_batch_trade_snapshots_batch_trade_idx" ON "import_batch_trade_snapshots" USING btree ("import_batch_id","trade_id");--> statement-breakpoint
+CREATE INDEX "import_batch_trade_snapshots_trade_idx" ON "import_batch_trade_snapshots" USING btree ("trade_id");--> statement-breakpoint
+CREATE INDEX "import_batches_account_idx" ON "import_batches" USING btree ("account_id","created_at");--> statement-breakpoint
+CREATE INDEX "import_batches_user_idx" ON "import_batches" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "nota_imports" ADD CONSTRAINT "nota_imports_import_batch_id_import_batches_id_fk" FOREIGN KEY ("import_batch_id") REFERENCES "public"."import_batches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trade_executions" ADD CONSTRAINT "trade_executions_import_batch_id_import_batches_id_fk" FOREIGN KEY ("import_batch_id") REFERENCES "public"."import_batches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "trades" ADD CONSTRAINT "trades_import_batch_id_import_batches_id_fk" FOREIGN KEY ("import_batch_id") REFERENCES "public"."import_batches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trade_executions_import_batch_idx" ON "trade_executions" USING btree ("import_batch_id");--> statement-breakpoint
+CREATE INDEX "trades_import_batch_idx" ON "trades" USING btree ("import_batch_id");
\ No newline at end of file
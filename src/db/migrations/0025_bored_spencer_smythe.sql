@@ -0,0 +1,38 @@
+CREATE TABLE "prop_evaluations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rule_set_id" uuid NOT NULL,
+	"evaluation_date" varchar(10) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"pnl_cents" bigint NOT NULL,
+	"balance_cents" bigint NOT NULL,
+	"drawdown_floor_cents" bigint NOT NULL,
+	"profit_cents" bigint NOT NULL,
+	"trading_days" integer NOT NULL,
+	"consistency_percent" numeric(7, 2),
+	"violations" text DEFAULT '[]' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "prop_rule_sets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"account_id" uuid NOT NULL,
+	"starting_balance_cents" bigint NOT NULL,
+	"drawdown_type" varchar(20) NOT NULL,
+	"max_drawdown_cents" bigint NOT NULL,
+	"lock_drawdown_at_start" boolean DEFAULT true NOT NULL,
+	"daily_loss_limit_cents" bigint,
+	"profit_target_cents" bigint,
+	"min_trading_days" integer,
+	"consistency_percent" numeric(5, 2),
+	"scaling_plan" text DEFAULT '[]' NOT NULL,
+	"evaluation_start_date" timestamp with time zone NOT NULL,
+	"evaluation_end_date" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "prop_evaluations" ADD CONSTRAINT "prop_evaluations_rule_set_id_prop_rule_sets_id_fk" FOREIGN KEY ("rule_set_id") REFERENCES "public"."prop_rule_sets"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "prop_rule_sets" ADD CONSTRAINT "prop_rule_sets_account_id_trading_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."trading_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "prop_evaluations_rule_set_date_idx" ON "prop_evaluations" USING btree ("rule_set_id","evaluation_date");--> statement-breakpoint
+CREATE UNIQUE INDEX "prop_rule_sets_account_idx" ON "prop_rule_sets" USING btree ("account_id");
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "risk_profile_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"base_risk_cents" integer NOT NULL,
+	"daily_loss_cents" integer NOT NULL,
+	"weekly_loss_cents" integer,
+	"monthly_loss_cents" integer NOT NULL,
+	"daily_profit_target_cents" integer,
+	"decision_tree" text NOT NULL,
+	"created_by_user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "monthly_plans" ADD COLUMN "risk_profile_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "risk_management_profiles" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "risk_profile_versions" ADD CONSTRAINT "risk_profile_versions_profile_id_risk_management_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."risk_management_profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "risk_profile_versions" ADD CONSTRAINT "risk_profile_versions_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "risk_profile_versions_profile_idx" ON "risk_profile_versions" USING btree ("profile_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "risk_profile_versions_profile_version_idx" ON "risk_profile_versions" USING btree ("profile_id","version");--> statement-breakpoint
+ALTER TABLE "monthly_plans" ADD CONSTRAINT "monthly_plans_risk_profile_version_id_risk_profile_versions_id_fk" FOREIGN KEY ("risk_profile_version_id") REFERENCES "public"."risk_profile_versions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Backfill version 1 from each profile's current rules
+INSERT INTO "risk_profile_versions" ("profile_id", "version", "name", "description", "base_risk_cents", "daily_loss_cents", "weekly_loss_cents", "monthly_loss_cents", "daily_profit_target_cents", "decision_tree", "created_by_user_id", "created_at")
+SELECT "id", 1, "name", "description", "base_risk_cents", "daily_loss_cents", "weekly_loss_cents", "monthly_loss_cents", "daily_profit_target_cents", "decision_tree", "created_by_user_id", "updated_at" FROM "risk_management_profiles";--> statement-breakpoint
+-- Pin existing monthly plans to that version
+UPDATE "monthly_plans" SET "risk_profile_version_id" = (SELECT "id" FROM "risk_profile_versions" WHERE "risk_profile_versions"."profile_id" = "monthly_plans"."risk_profile_id" AND "risk_profile_versions"."version" = 1) WHERE "risk_profile_id" IS NOT NULL;
@@ -0,0 +1,14 @@
+CREATE TABLE "risk_profile_shares" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "risk_management_profiles" ADD COLUMN "visibility" varchar(20) DEFAULT 'public' NOT NULL;--> statement-breakpoint
+ALTER TABLE "risk_management_profiles" ADD COLUMN "share_token" varchar(64);--> statement-breakpoint
+ALTER TABLE "risk_profile_shares" ADD CONSTRAINT "risk_profile_shares_profile_id_risk_management_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."risk_management_profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "risk_profile_shares" ADD CONSTRAINT "risk_profile_shares_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "risk_profile_shares_user_idx" ON "risk_profile_shares" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "risk_profile_shares_profile_user_idx" ON "risk_profile_shares" USING btree ("profile_id","user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "risk_profiles_share_token_idx" ON "risk_management_profiles" USING btree ("share_token");
\ No newline at end of file
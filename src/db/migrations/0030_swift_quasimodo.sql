@@ -0,0 +1,3 @@
+ALTER TABLE "trading_accounts" ADD COLUMN "replay_start_date" timestamp with time zone;--> statement-breakpoint
+-- Existing replay sessions started no later than their first trade or their current day
+UPDATE "trading_accounts" SET "replay_start_date" = LEAST("replay_current_date", (SELECT MIN("entry_date") FROM "trades" WHERE "trades"."account_id" = "trading_accounts"."id")) WHERE "account_type" = 'replay' AND "replay_current_date" IS NOT NULL;
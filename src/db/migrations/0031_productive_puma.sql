@@ -0,0 +1,72 @@
+CREATE TABLE "market_holidays" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"market" varchar(10) NOT NULL,
+	"date" varchar(10) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"name_en" varchar(100) NOT NULL,
+	"session_type" varchar(20) DEFAULT 'closed' NOT NULL,
+	"opens_at" varchar(5),
+	"closes_at" varchar(5),
+	"source" varchar(20) DEFAULT 'manual' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "market_holidays_market_date_idx" ON "market_holidays" USING btree ("market","date");--> statement-breakpoint
+-- Seed 2025-2026 (the years previously hard-coded) so admins start from a reviewed calendar
+INSERT INTO "market_holidays" ("market", "date", "name", "name_en", "session_type", "opens_at", "closes_at", "source") VALUES
+	('B3', '2025-01-01', 'Confraternização Universal', 'New Year''s Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-03-03', 'Carnaval', 'Carnival', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-03-04', 'Carnaval', 'Carnival', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-03-05', 'Quarta-feira de Cinzas', 'Ash Wednesday', 'half_day', '13:00', NULL, 'generated'),
+	('B3', '2025-04-18', 'Paixão de Cristo', 'Good Friday', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-04-21', 'Tiradentes', 'Tiradentes Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-05-01', 'Dia do Trabalho', 'Labour Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-06-19', 'Corpus Christi', 'Corpus Christi', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-07-09', 'Revolução Constitucionalista', 'Constitutionalist Revolution', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-11-20', 'Consciência Negra', 'Black Awareness Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-12-24', 'Véspera de Natal', 'Christmas Eve', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-12-25', 'Natal', 'Christmas Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2025-12-31', 'Véspera de Ano Novo', 'New Year''s Eve', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-01-01', 'Confraternização Universal', 'New Year''s Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-02-16', 'Carnaval', 'Carnival', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-02-17', 'Carnaval', 'Carnival', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-02-18', 'Quarta-feira de Cinzas', 'Ash Wednesday', 'half_day', '13:00', NULL, 'generated'),
+	('B3', '2026-04-03', 'Paixão de Cristo', 'Good Friday', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-04-21', 'Tiradentes', 'Tiradentes Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-05-01', 'Dia do Trabalho', 'Labour Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-06-04', 'Corpus Christi', 'Corpus Christi', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-07-09', 'Revolução Constitucionalista', 'Constitutionalist Revolution', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-09-07', 'Independência do Brasil', 'Independence Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-10-12', 'Nossa Senhora Aparecida', 'Our Lady of Aparecida', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-11-02', 'Finados', 'All Souls'' Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-11-20', 'Consciência Negra', 'Black Awareness Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-12-24', 'Véspera de Natal', 'Christmas Eve', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-12-25', 'Natal', 'Christmas Day', 'closed', NULL, NULL, 'generated'),
+	('B3', '2026-12-31', 'Véspera de Ano Novo', 'New Year''s Eve', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-01-01', 'Ano Novo', 'New Year''s Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-01-09', 'Luto Nacional (Pres. Carter)', 'National Day of Mourning (President Carter)', 'closed', NULL, NULL, 'manual'),
+	('NYSE', '2025-01-20', 'Martin Luther King Jr.', 'Martin Luther King Jr. Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-02-17', 'Dia dos Presidentes', 'Presidents'' Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-04-18', 'Sexta-feira Santa', 'Good Friday', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-05-26', 'Memorial Day', 'Memorial Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-06-19', 'Juneteenth', 'Juneteenth', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-07-03', 'Véspera da Independência EUA', 'Independence Day Eve', 'half_day', NULL, '13:00', 'generated'),
+	('NYSE', '2025-07-04', 'Independência EUA', 'Independence Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-09-01', 'Dia do Trabalho EUA', 'Labor Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-11-27', 'Ação de Graças', 'Thanksgiving', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2025-11-28', 'Dia após Ação de Graças', 'Day after Thanksgiving', 'half_day', NULL, '13:00', 'generated'),
+	('NYSE', '2025-12-24', 'Véspera de Natal', 'Christmas Eve', 'half_day', NULL, '13:00', 'generated'),
+	('NYSE', '2025-12-25', 'Natal', 'Christmas Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-01-01', 'Ano Novo', 'New Year''s Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-01-19', 'Martin Luther King Jr.', 'Martin Luther King Jr. Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-02-16', 'Dia dos Presidentes', 'Presidents'' Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-04-03', 'Sexta-feira Santa', 'Good Friday', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-05-25', 'Memorial Day', 'Memorial Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-06-19', 'Juneteenth', 'Juneteenth', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-07-03', 'Independência EUA', 'Independence Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-09-07', 'Dia do Trabalho EUA', 'Labor Day', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-11-26', 'Ação de Graças', 'Thanksgiving', 'closed', NULL, NULL, 'generated'),
+	('NYSE', '2026-11-27', 'Dia após Ação de Graças', 'Day after Thanksgiving', 'half_day', NULL, '13:00', 'generated'),
+	('NYSE', '2026-12-24', 'Véspera de Natal', 'Christmas Eve', 'half_day', NULL, '13:00', 'generated'),
+	('NYSE', '2026-12-25', 'Natal', 'Christmas Day', 'closed', NULL, NULL, 'generated');
@@ -0,0 +1,19 @@
+CREATE TABLE "price_bars" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"asset" varchar(20) NOT NULL,
+	"timeframe_id" uuid NOT NULL,
+	"time" timestamp with time zone NOT NULL,
+	"open" numeric(18, 8) NOT NULL,
+	"high" numeric(18, 8) NOT NULL,
+	"low" numeric(18, 8) NOT NULL,
+	"close" numeric(18, 8) NOT NULL,
+	"volume" numeric(20, 4),
+	"source" varchar(20) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "price_bars" ADD CONSTRAINT "price_bars_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "price_bars" ADD CONSTRAINT "price_bars_timeframe_id_timeframes_id_fk" FOREIGN KEY ("timeframe_id") REFERENCES "public"."timeframes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "price_bars_user_asset_tf_time_idx" ON "price_bars" USING btree ("user_id","asset","timeframe_id","time");--> statement-breakpoint
+CREATE INDEX "price_bars_user_asset_time_idx" ON "price_bars" USING btree ("user_id","asset","time");
\ No newline at end of file
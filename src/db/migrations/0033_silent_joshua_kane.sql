@@ -0,0 +1,18 @@
+CREATE TABLE "encryption_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar(30) NOT NULL,
+	"user_id" uuid,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"cursor_table" varchar(50),
+	"cursor_id" text,
+	"rows_scanned" integer DEFAULT 0 NOT NULL,
+	"rows_updated" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "pending_encrypted_dek" text;--> statement-breakpoint
+ALTER TABLE "encryption_jobs" ADD CONSTRAINT "encryption_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "encryption_jobs_kind_status_idx" ON "encryption_jobs" USING btree ("kind","status");
\ No newline at end of file
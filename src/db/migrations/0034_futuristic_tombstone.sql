@@ -0,0 +1,29 @@
+CREATE TYPE "public"."trade_attachment_kind" AS ENUM('image', 'video', 'document');--> statement-breakpoint
+CREATE TABLE "trade_attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"trade_id" uuid NOT NULL,
+	"kind" "trade_attachment_kind" NOT NULL,
+	"url" varchar(500) NOT NULL,
+	"s3_key" varchar(500) NOT NULL,
+	"thumbnail_url" varchar(500),
+	"thumbnail_s3_key" varchar(500),
+	"file_name" varchar(255) NOT NULL,
+	"content_type" varchar(100) NOT NULL,
+	"size_bytes" integer,
+	"caption" varchar(200),
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "trade_attachments" ADD CONSTRAINT "trade_attachments_trade_id_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."trades"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "trade_attachments_trade_idx" ON "trade_attachments" USING btree ("trade_id");--> statement-breakpoint
+-- Move each trade's single screenshot into its first attachment. The stored key is
+-- kept when it is a trade upload (so removing the attachment deletes the file);
+-- anything else gets '' like other files the trade doesn't own
+INSERT INTO "trade_attachments" ("trade_id", "kind", "url", "s3_key", "file_name", "content_type", "sort_order", "created_at")
+SELECT "id", 'image', "screenshot_url", CASE WHEN "screenshot_s3_key" LIKE 'trades/%' THEN "screenshot_s3_key" ELSE '' END, left(regexp_replace("screenshot_url", '^.*/', ''), 255),
+	CASE lower(substring("screenshot_url" from '\.([A-Za-z0-9]+)$')) WHEN 'png' THEN 'image/png' WHEN 'webp' THEN 'image/webp' ELSE 'image/jpeg' END,
+	0, "updated_at"
+FROM "trades" WHERE "screenshot_url" IS NOT NULL AND "screenshot_url" <> '';--> statement-breakpoint
+ALTER TABLE "trades" DROP COLUMN "screenshot_url";--> statement-breakpoint
+ALTER TABLE "trades" DROP COLUMN "screenshot_s3_key";
\ No newline at end of file
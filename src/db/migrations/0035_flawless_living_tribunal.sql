@@ -0,0 +1,19 @@
+CREATE TABLE "simulation_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"account_id" uuid,
+	"kind" varchar(30) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"seed" integer,
+	"inputs" text NOT NULL,
+	"source_stats" text,
+	"statistics" text NOT NULL,
+	"distribution" text DEFAULT '[]' NOT NULL,
+	"equity_fan" text DEFAULT '[]' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "simulation_runs" ADD CONSTRAINT "simulation_runs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "simulation_runs" ADD CONSTRAINT "simulation_runs_account_id_trading_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."trading_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "simulation_runs_user_kind_idx" ON "simulation_runs" USING btree ("user_id","kind","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "open_positions" ALTER COLUMN "remaining_quantity" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "open_positions" ALTER COLUMN "average_price" SET DATA TYPE text;
\ No newline at end of file
@@ -0,0 +1,41 @@
+ALTER TABLE "prop_evaluations" ALTER COLUMN "pnl_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "prop_evaluations" ALTER COLUMN "balance_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "prop_evaluations" ALTER COLUMN "drawdown_floor_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "prop_evaluations" ALTER COLUMN "profit_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "prop_rule_sets" ALTER COLUMN "starting_balance_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_result_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_result_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_result_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_result_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_stock_sales_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_stock_sales_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_loss_carry_in_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_loss_carry_in_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_loss_carry_in_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_loss_carry_in_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_loss_carry_out_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_loss_carry_out_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_loss_carry_out_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_loss_carry_out_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_taxable_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_taxable_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_taxable_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_taxable_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_tax_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_tax_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_tax_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_tax_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "day_trade_tax_rate" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "swing_trade_tax_rate" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_credit_used_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_credit_used_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_credit_carry_out_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "irrf_credit_carry_out_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_carry_in_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_carry_in_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_due_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_due_cents" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_carry_out_cents" SET DATA TYPE text;--> statement-breakpoint
+ALTER TABLE "tax_ledger_entries" ALTER COLUMN "darf_carry_out_cents" DROP DEFAULT;
\ No newline at end of file
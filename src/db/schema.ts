@@ -45,6 +45,13 @@ export const orderTypeEnum = pgEnum("order_type", [
 	"stop_limit",
 ])
 
+// Trade Attachment Kind Enum (chart captures, screen recordings, PDFs like the nota)
+export const tradeAttachmentKindEnum = pgEnum("trade_attachment_kind", [
+	"image",
+	"video",
+	"document",
+])
+
 // Account Type Enum
 export const accountTypeEnum = pgEnum("account_type", ["personal", "prop", "replay"])
 
@@ -92,6 +99,8 @@ export const users = pgTable(
 
 		// Encrypted Data Encryption Key (envelope encryption)
 		encryptedDek: text("encrypted_dek"),
+		// Replacement DEK while a rotation re-encrypts this user's rows; swapped in when it finishes
+		pendingEncryptedDek: text("pending_encrypted_dek"),
 
 		// General user settings (not account-specific)
 		preferredLocale: varchar("preferred_locale", { length: 10 }).default("pt-BR").notNull(),
@@ -159,7 +168,8 @@ export const tradingAccounts = pgTable(
 		showPropCalculations: boolean("show_prop_calculations").default(true).notNull(),
 		brand: varchar("brand", { length: 20 }).default("bravo").notNull(),
 
-		// Replay mode: the effective "today" for this account
+		// Replay mode: the first day of the session and the effective "today" for this account
+		replayStartDate: timestamp("replay_start_date", { withTimezone: true }),
 		replayCurrentDate: timestamp("replay_current_date", { withTimezone: true }),
 
 		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
@@ -426,7 +436,8 @@ export const trades = pgTable(
 		}),
 		outcome: tradeOutcomeEnum("outcome"),
 
-		// MFE/MAE (prices, not money)
+		// MFE/MAE (prices, not money): best and worst price reached while open.
+		// mfeR/maeR are those excursions in R, signed (mfeR >= 0, maeR <= 0)
 		mfe: decimal("mfe", { precision: 18, scale: 8 }),
 		mae: decimal("mae", { precision: 18, scale: 8 }),
 		mfeR: decimal("mfe_r", { precision: 8, scale: 2 }),
@@ -451,9 +462,6 @@ export const trades = pgTable(
 
 		// Setup Quality Ranking (A/AA/AAA based on conditions met)
 		setupRank: setupRankEnum("setup_rank"),
-		// Trade screenshot
-		screenshotUrl: varchar("screenshot_url", { length: 500 }),
-		screenshotS3Key: varchar("screenshot_s3_key", { length: 500 }),
 
 		// Compliance
 		followedPlan: boolean("followed_plan"),
@@ -483,6 +491,10 @@ export const trades = pgTable(
 
 		// Trade source (manual = web UI, arch = Arch API, csv = CSV imports)
 		source: varchar("source", { length: 20 }).default("manual"),
+		// Import that created the trade (rollback removes it)
+		importBatchId: uuid("import_batch_id").references(() => importBatches.id, {
+			onDelete: "set null",
+		}),
 	},
 	(table) => [
 		index("trades_account_idx").on(table.accountId),
@@ -492,6 +504,7 @@ export const trades = pgTable(
 		index("trades_strategy_idx").on(table.strategyId),
 		index("trades_timeframe_idx").on(table.timeframeId),
 		index("trades_dedup_hash_idx").on(table.deduplicationHash),
+		index("trades_import_batch_idx").on(table.importBatchId),
 
 		// Composite indexes for analytics queries
 		index("idx_trades_account_archived_date").on(
@@ -539,6 +552,11 @@ export const tradeExecutions = pgTable(
 		// Calculated field (encrypted) - quantity * price in cents
 		executionValue: text("execution_value").notNull(), // encrypted
 
+		// Import that added the execution (rollback removes it)
+		importBatchId: uuid("import_batch_id").references(() => importBatches.id, {
+			onDelete: "set null",
+		}),
+
 		// Timestamps
 		createdAt: timestamp("created_at", { withTimezone: true })
 			.defaultNow()
@@ -551,9 +569,37 @@ export const tradeExecutions = pgTable(
 		index("trade_executions_trade_idx").on(table.tradeId),
 		index("trade_executions_type_idx").on(table.executionType),
 		index("trade_executions_date_idx").on(table.executionDate),
+		index("trade_executions_import_batch_idx").on(table.importBatchId),
 	]
 )
 
+// Trade Attachments Table (images, recordings and documents, in display order)
+// Images get a downscaled WebP thumbnail at upload; other kinds have none
+export const tradeAttachments = pgTable(
+	"trade_attachments",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		tradeId: uuid("trade_id")
+			.notNull()
+			.references(() => trades.id, { onDelete: "cascade" }),
+		kind: tradeAttachmentKindEnum("kind").notNull(),
+		url: varchar("url", { length: 500 }).notNull(),
+		// Empty for copies that point at another trade's file (archive imports)
+		s3Key: varchar("s3_key", { length: 500 }).notNull(),
+		thumbnailUrl: varchar("thumbnail_url", { length: 500 }),
+		thumbnailS3Key: varchar("thumbnail_s3_key", { length: 500 }),
+		fileName: varchar("file_name", { length: 255 }).notNull(),
+		contentType: varchar("content_type", { length: 100 }).notNull(),
+		sizeBytes: integer("size_bytes"),
+		caption: varchar("caption", { length: 200 }),
+		sortOrder: integer("sort_order").default(0).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true })
+			.defaultNow()
+			.notNull(),
+	},
+	(table) => [index("trade_attachments_trade_idx").on(table.tradeId)]
+)
+
 // Tags Table (user-level: shared across all accounts)
 export const tags = pgTable(
 	"tags",
@@ -840,12 +886,66 @@ export const riskManagementProfiles = pgTable(
 		// Decision tree config (JSON stored as text — matches dailyChecklists.items pattern)
 		decisionTree: text("decision_tree").notNull(), // JSON: DecisionTreeConfig
 
+		// Latest entry in risk_profile_versions (the row above always mirrors it)
+		currentVersion: integer("current_version").default(1).notNull(),
+
+		// Who can see the profile: "public" (admin-managed, everyone), "private" (creator only),
+		// "shared" (creator plus anyone who opened the share link)
+		visibility: varchar("visibility", { length: 20 }).default("public").notNull(),
+		shareToken: varchar("share_token", { length: 64 }),
+
 		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 	},
 	(table) => [
 		index("risk_profiles_created_by_idx").on(table.createdByUserId),
 		index("risk_profiles_active_idx").on(table.isActive),
+		uniqueIndex("risk_profiles_share_token_idx").on(table.shareToken),
+	]
+)
+
+// Risk Profile Shares Table (users who opened a shared profile's link — "Shared with me")
+export const riskProfileShares = pgTable(
+	"risk_profile_shares",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		profileId: uuid("profile_id")
+			.notNull()
+			.references(() => riskManagementProfiles.id, { onDelete: "cascade" }),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("risk_profile_shares_user_idx").on(table.userId),
+		uniqueIndex("risk_profile_shares_profile_user_idx").on(table.profileId, table.userId),
+	]
+)
+
+// Risk Profile Versions Table (immutable snapshot of a profile's rules, one per edit)
+export const riskProfileVersions = pgTable(
+	"risk_profile_versions",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		profileId: uuid("profile_id")
+			.notNull()
+			.references(() => riskManagementProfiles.id, { onDelete: "cascade" }),
+		version: integer("version").notNull(),
+		name: varchar("name", { length: 100 }).notNull(),
+		description: text("description"),
+		baseRiskCents: integer("base_risk_cents").notNull(),
+		dailyLossCents: integer("daily_loss_cents").notNull(),
+		weeklyLossCents: integer("weekly_loss_cents"),
+		monthlyLossCents: integer("monthly_loss_cents").notNull(),
+		dailyProfitTargetCents: integer("daily_profit_target_cents"),
+		decisionTree: text("decision_tree").notNull(), // JSON: DecisionTreeConfig
+		createdByUserId: uuid("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("risk_profile_versions_profile_idx").on(table.profileId),
+		uniqueIndex("risk_profile_versions_profile_version_idx").on(table.profileId, table.version),
 	]
 )
 
@@ -882,6 +982,10 @@ export const monthlyPlans = pgTable(
 		riskProfileId: uuid("risk_profile_id").references(() => riskManagementProfiles.id, {
 			onDelete: "set null",
 		}),
+		// Version of the profile the plan is pinned to, so later edits don't rewrite past days
+		riskProfileVersionId: uuid("risk_profile_version_id").references(() => riskProfileVersions.id, {
+			onDelete: "set null",
+		}),
 
 		// Weekly loss limit (optional, independent of risk profile)
 		weeklyLossPercent: decimal("weekly_loss_percent", { precision: 5, scale: 2 }), // nullable
@@ -1004,22 +1108,450 @@ export const notaImports = pgTable(
 			.references(() => tradingAccounts.id, { onDelete: "cascade" }),
 		fileName: varchar("file_name", { length: 255 }).notNull(),
 		fileHash: varchar("file_hash", { length: 64 }).notNull(),
+		notaNumber: varchar("nota_number", { length: 30 }), // Dedup key: one PDF may hold many notas
 		notaDate: timestamp("nota_date", { withTimezone: true }).notNull(),
 		brokerName: varchar("broker_name", { length: 100 }),
 		totalFills: integer("total_fills").notNull().default(0),
 		matchedFills: integer("matched_fills").notNull().default(0),
 		unmatchedFills: integer("unmatched_fills").notNull().default(0),
 		tradesEnriched: integer("trades_enriched").notNull().default(0),
+		irrfCents: integer("irrf_cents").notNull().default(0), // IRRF "dedo-duro" withheld on this nota
 		status: varchar("status", { length: 20 }).notNull().default("completed"),
+		importBatchId: uuid("import_batch_id").references(() => importBatches.id, {
+			onDelete: "set null",
+		}),
 		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 	},
 	(table) => [
 		index("nota_imports_account_idx").on(table.accountId),
 		index("nota_imports_file_hash_idx").on(table.fileHash),
+		index("nota_imports_account_number_idx").on(table.accountId, table.notaNumber),
 		index("nota_imports_date_idx").on(table.notaDate),
 	]
 )
 
+// Nota Fills Table (every fill printed on an imported nota, matched or not)
+// Prices/quantities as decimals, money fields stored as integers in cents.
+export const notaFills = pgTable(
+	"nota_fills",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		notaImportId: uuid("nota_import_id")
+			.notNull()
+			.references(() => notaImports.id, { onDelete: "cascade" }),
+		tradeId: uuid("trade_id").references(() => trades.id, { onDelete: "set null" }), // null = unmatched
+		sequenceNumber: integer("sequence_number").notNull(),
+		exchange: varchar("exchange", { length: 20 }).notNull(),
+		side: varchar("side", { length: 1 }).notNull(), // C = Compra, V = Venda
+		marketType: varchar("market_type", { length: 30 }).notNull(),
+		rawAsset: varchar("raw_asset", { length: 50 }).notNull(),
+		normalizedAsset: varchar("normalized_asset", { length: 20 }).notNull(),
+		expiryDate: varchar("expiry_date", { length: 10 }), // DD/MM/YYYY as printed
+		quantity: decimal("quantity", { precision: 18, scale: 8 }).notNull(),
+		price: decimal("price", { precision: 18, scale: 8 }).notNull(),
+		operationValueCents: integer("operation_value_cents").notNull().default(0),
+		debitCredit: varchar("debit_credit", { length: 1 }).notNull(),
+		operationalFeeCents: integer("operational_fee_cents").notNull().default(0),
+		isDayTrade: boolean("is_day_trade").default(false).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("nota_fills_nota_import_idx").on(table.notaImportId),
+		index("nota_fills_trade_idx").on(table.tradeId),
+	]
+)
+
+// Nota Costs Table (official cost breakdown from the nota footer, one row per nota)
+// allocatedAt is set once the costs have been distributed onto the linked trades.
+export const notaCosts = pgTable(
+	"nota_costs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		notaImportId: uuid("nota_import_id")
+			.notNull()
+			.unique()
+			.references(() => notaImports.id, { onDelete: "cascade" }),
+		totalOperationValueCents: integer("total_operation_value_cents").notNull().default(0),
+		brokerageCents: integer("brokerage_cents").notNull().default(0),
+		operationalFeesCents: integer("operational_fees_cents").notNull().default(0), // sum of per-fill "Taxa operacional"
+		settlementFeeCents: integer("settlement_fee_cents").notNull().default(0),
+		registrationFeeCents: integer("registration_fee_cents").notNull().default(0),
+		bmfFeesCents: integer("bmf_fees_cents").notNull().default(0),
+		netTotalCents: integer("net_total_cents").notNull().default(0),
+		netTotalDebitCredit: varchar("net_total_debit_credit", { length: 1 }).notNull().default("C"),
+		allocatedAt: timestamp("allocated_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	}
+)
+
+// Tax Ledger Table (monthly Brazilian income tax apuração per account)
+// Persisted so loss carry-forward and DARF history remain auditable month by month.
+// Money fields stored in cents (encrypted, like the rates); loss carry values are stored as positive amounts.
+export const taxLedgerEntries = pgTable(
+	"tax_ledger_entries",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		accountId: uuid("account_id")
+			.notNull()
+			.references(() => tradingAccounts.id, { onDelete: "cascade" }),
+		year: integer("year").notNull(),
+		month: integer("month").notNull(), // 1-12
+
+		// Net results realized in the month
+		dayTradeResultCents: text("day_trade_result_cents").notNull(),
+		swingResultCents: text("swing_result_cents").notNull(),
+		swingStockSalesCents: text("swing_stock_sales_cents").notNull(),
+		swingExempt: boolean("swing_exempt").default(false).notNull(),
+
+		// Loss carry-forward (separate buckets for day trade and swing)
+		dayTradeLossCarryInCents: text("day_trade_loss_carry_in_cents").notNull(),
+		swingLossCarryInCents: text("swing_loss_carry_in_cents").notNull(),
+		dayTradeLossCarryOutCents: text("day_trade_loss_carry_out_cents").notNull(),
+		swingLossCarryOutCents: text("swing_loss_carry_out_cents").notNull(),
+
+		// Taxable base and tax due
+		dayTradeTaxableCents: text("day_trade_taxable_cents").notNull(),
+		swingTaxableCents: text("swing_taxable_cents").notNull(),
+		dayTradeTaxCents: text("day_trade_tax_cents").notNull(),
+		swingTaxCents: text("swing_tax_cents").notNull(),
+		dayTradeTaxRate: text("day_trade_tax_rate").notNull(),
+		swingTradeTaxRate: text("swing_trade_tax_rate").notNull(),
+
+		// IRRF credit (withheld on notas, deducted from the tax due)
+		irrfCents: text("irrf_cents").notNull(),
+		irrfCreditUsedCents: text("irrf_credit_used_cents").notNull(),
+		irrfCreditCarryOutCents: text("irrf_credit_carry_out_cents").notNull(),
+
+		// DARF (amounts below the R$10 minimum roll into the next month)
+		darfCarryInCents: text("darf_carry_in_cents").notNull(),
+		darfDueCents: text("darf_due_cents").notNull(),
+		darfCarryOutCents: text("darf_carry_out_cents").notNull(),
+		darfDueDate: timestamp("darf_due_date", { withTimezone: true }).notNull(),
+		darfPaidAt: timestamp("darf_paid_at", { withTimezone: true }),
+
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("tax_ledger_entries_account_idx").on(table.accountId),
+		uniqueIndex("tax_ledger_entries_account_year_month_idx").on(table.accountId, table.year, table.month),
+	]
+)
+
+// Import Templates Table (user-level saved CSV column mappings, listed next to the built-in brokers)
+export const importTemplates = pgTable(
+	"import_templates",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: varchar("name", { length: 100 }).notNull(),
+		mapping: text("mapping").notNull(), // JSON: CsvColumnMapping
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("import_templates_user_idx").on(table.userId),
+		uniqueIndex("import_templates_user_name_idx").on(table.userId, table.name),
+	]
+)
+
+// Import Batches Table (one row per import run: CSV, OCR, detailed CSV or nota)
+// Created trades/executions point at their batch; enriched trades keep a snapshot for rollback
+export const importBatches = pgTable(
+	"import_batches",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		accountId: uuid("account_id")
+			.notNull()
+			.references(() => tradingAccounts.id, { onDelete: "cascade" }),
+		source: varchar("source", { length: 20 }).notNull(), // csv | ocr | detailed_csv | nota | archive
+		sourceName: varchar("source_name", { length: 100 }), // Broker or template label
+		fileName: varchar("file_name", { length: 255 }),
+		fileHash: varchar("file_hash", { length: 64 }),
+		tradesCreated: integer("trades_created").notNull().default(0),
+		tradesEnriched: integer("trades_enriched").notNull().default(0),
+		executionsCreated: integer("executions_created").notNull().default(0),
+		status: varchar("status", { length: 20 }).notNull().default("completed"), // completed | rolled_back
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		rolledBackAt: timestamp("rolled_back_at", { withTimezone: true }),
+	},
+	(table) => [
+		index("import_batches_account_idx").on(table.accountId, table.createdAt),
+		index("import_batches_user_idx").on(table.userId),
+	]
+)
+
+// Import Batch Trade Snapshots (state of a trade before an import enriched it)
+// snapshot: JSON { trade: restorable trade columns, executions: rows as stored (encrypted when enabled) }
+export const importBatchTradeSnapshots = pgTable(
+	"import_batch_trade_snapshots",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		importBatchId: uuid("import_batch_id")
+			.notNull()
+			.references(() => importBatches.id, { onDelete: "cascade" }),
+		tradeId: uuid("trade_id")
+			.notNull()
+			.references(() => trades.id, { onDelete: "cascade" }),
+		snapshot: text("snapshot").notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		uniqueIndex("import_batch_trade_snapshots_batch_trade_idx").on(table.importBatchId, table.tradeId),
+		index("import_batch_trade_snapshots_trade_idx").on(table.tradeId),
+	]
+)
+
+// Open Positions Table (trades with contracts still open, continued by later imports/executions)
+// Kept in sync with trades.remaining_quantity; one row per open trade
+export const openPositions = pgTable(
+	"open_positions",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		accountId: uuid("account_id")
+			.notNull()
+			.references(() => tradingAccounts.id, { onDelete: "cascade" }),
+		tradeId: uuid("trade_id")
+			.notNull()
+			.references(() => trades.id, { onDelete: "cascade" }),
+		asset: varchar("asset", { length: 20 }).notNull(),
+		direction: tradeDirectionEnum("direction").notNull(),
+		// Encrypted with the owner's DEK, like the trade's quantities and prices
+		remainingQuantity: text("remaining_quantity").notNull(),
+		averagePrice: text("average_price").notNull(),
+		openedAt: timestamp("opened_at", { withTimezone: true }).notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		index("open_positions_account_asset_idx").on(table.accountId, table.asset),
+		uniqueIndex("open_positions_trade_idx").on(table.tradeId),
+	]
+)
+
+// Prop Rule Sets Table (evaluation rules of a prop account — one per account)
+export const propRuleSets = pgTable(
+	"prop_rule_sets",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		accountId: uuid("account_id")
+			.notNull()
+			.references(() => tradingAccounts.id, { onDelete: "cascade" }),
+		startingBalanceCents: text("starting_balance_cents").notNull(), // cents (encrypted)
+		drawdownType: varchar("drawdown_type", { length: 20 }).notNull(), // trailing | eod_trailing | static
+		maxDrawdownCents: bigint("max_drawdown_cents", { mode: "number" }).notNull(),
+		lockDrawdownAtStart: boolean("lock_drawdown_at_start").default(true).notNull(),
+		dailyLossLimitCents: bigint("daily_loss_limit_cents", { mode: "number" }),
+		profitTargetCents: bigint("profit_target_cents", { mode: "number" }),
+		minTradingDays: integer("min_trading_days"),
+		consistencyPercent: decimal("consistency_percent", { precision: 5, scale: 2 }), // best day ≤ X% of total profit
+		scalingPlan: text("scaling_plan").default("[]").notNull(), // JSON: PropScalingTier[]
+		evaluationStartDate: timestamp("evaluation_start_date", { withTimezone: true }).notNull(),
+		evaluationEndDate: timestamp("evaluation_end_date", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [uniqueIndex("prop_rule_sets_account_idx").on(table.accountId)]
+)
+
+// Prop Evaluations Table (evaluation history: state at the end of each trading day)
+export const propEvaluations = pgTable(
+	"prop_evaluations",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		ruleSetId: uuid("rule_set_id")
+			.notNull()
+			.references(() => propRuleSets.id, { onDelete: "cascade" }),
+		evaluationDate: varchar("evaluation_date", { length: 10 }).notNull(), // YYYY-MM-DD (BRT)
+		status: varchar("status", { length: 20 }).notNull(), // in_progress | at_risk | passed | failed
+		// Cents (encrypted)
+		pnlCents: text("pnl_cents").notNull(),
+		balanceCents: text("balance_cents").notNull(),
+		drawdownFloorCents: text("drawdown_floor_cents").notNull(),
+		profitCents: text("profit_cents").notNull(),
+		tradingDays: integer("trading_days").notNull(),
+		consistencyPercent: decimal("consistency_percent", { precision: 7, scale: 2 }),
+		violations: text("violations").default("[]").notNull(), // JSON: PropRuleViolation[]
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [uniqueIndex("prop_evaluations_rule_set_date_idx").on(table.ruleSetId, table.evaluationDate)]
+)
+
+// API Keys Table (per-user tokens for the Arch API; only the SHA-256 hash is stored)
+export const apiKeys = pgTable(
+	"api_keys",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		accountId: uuid("account_id").references(() => tradingAccounts.id, { onDelete: "cascade" }), // null = any account
+		name: varchar("name", { length: 100 }).notNull(),
+		keyPrefix: varchar("key_prefix", { length: 16 }).notNull(), // First chars of the token, for display
+		keyHash: varchar("key_hash", { length: 64 }).notNull(),
+		scopes: text("scopes").default("[]").notNull(), // JSON: ApiKeyScope[]
+		expiresAt: timestamp("expires_at", { withTimezone: true }),
+		lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+		revokedAt: timestamp("revoked_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		uniqueIndex("api_keys_hash_idx").on(table.keyHash),
+		index("api_keys_user_idx").on(table.userId),
+	]
+)
+
+// Outbound webhooks: user-configured endpoints notified of journal events
+export const webhooks = pgTable(
+	"webhooks",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		accountId: uuid("account_id").references(() => tradingAccounts.id, { onDelete: "cascade" }), // null = all accounts
+		name: varchar("name", { length: 100 }).notNull(),
+		url: text("url").notNull(),
+		secret: varchar("secret", { length: 100 }).notNull(), // Kept in plain text, it signs every payload
+		events: text("events").default("[]").notNull(), // JSON: WebhookEvent[]
+		isActive: boolean("is_active").default(true).notNull(),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [index("webhooks_user_idx").on(table.userId)]
+)
+
+// One row per event sent to a webhook, kept as the delivery log and retry queue
+export const webhookDeliveries = pgTable(
+	"webhook_deliveries",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		webhookId: uuid("webhook_id")
+			.notNull()
+			.references(() => webhooks.id, { onDelete: "cascade" }),
+		event: varchar("event", { length: 50 }).notNull(),
+		dedupeKey: varchar("dedupe_key", { length: 150 }), // Stops state events firing twice, e.g. once per day
+		payload: text("payload").notNull(), // JSON body exactly as signed and sent
+		status: varchar("status", { length: 20 }).default("pending").notNull(), // pending | succeeded | failed
+		attempts: integer("attempts").default(0).notNull(),
+		responseStatus: integer("response_status"),
+		responseBody: text("response_body"), // Truncated
+		error: text("error"),
+		nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+		deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		uniqueIndex("webhook_deliveries_dedupe_idx").on(table.webhookId, table.dedupeKey),
+		index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+		index("webhook_deliveries_retry_idx").on(table.status, table.nextAttemptAt),
+	]
+)
+
+// Exchange holidays and shortened sessions, managed by admins. Years with no rows
+// for a market fall back to the rule-based generator in lib/market/holidays.ts
+export const marketHolidays = pgTable(
+	"market_holidays",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		market: varchar("market", { length: 10 }).notNull(), // B3 | NYSE
+		date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD in the exchange's calendar
+		name: varchar("name", { length: 100 }).notNull(), // Portuguese
+		nameEn: varchar("name_en", { length: 100 }).notNull(),
+		sessionType: varchar("session_type", { length: 20 }).default("closed").notNull(), // closed | half_day
+		opensAt: varchar("opens_at", { length: 5 }), // HH:mm local time, half days only
+		closesAt: varchar("closes_at", { length: 5 }), // HH:mm local time, half days only
+		source: varchar("source", { length: 20 }).default("manual").notNull(), // generated | manual
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [uniqueIndex("market_holidays_market_date_idx").on(table.market, table.date)]
+)
+
+// Intraday OHLC bars imported by a user (ProfitChart / MetaTrader exports).
+// Market data, not user money, so prices are stored in plain decimals.
+// `time` is the bar's open time; bars are keyed by asset symbol + timeframe.
+export const priceBars = pgTable(
+	"price_bars",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		asset: varchar("asset", { length: 20 }).notNull(),
+		timeframeId: uuid("timeframe_id")
+			.notNull()
+			.references(() => timeframes.id, { onDelete: "cascade" }),
+		time: timestamp("time", { withTimezone: true }).notNull(),
+		open: decimal("open", { precision: 18, scale: 8 }).notNull(),
+		high: decimal("high", { precision: 18, scale: 8 }).notNull(),
+		low: decimal("low", { precision: 18, scale: 8 }).notNull(),
+		close: decimal("close", { precision: 18, scale: 8 }).notNull(),
+		volume: decimal("volume", { precision: 20, scale: 4 }),
+		source: varchar("source", { length: 20 }).notNull(), // profitchart | metatrader
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [
+		uniqueIndex("price_bars_user_asset_tf_time_idx").on(
+			table.userId,
+			table.asset,
+			table.timeframeId,
+			table.time
+		),
+		index("price_bars_user_asset_time_idx").on(table.userId, table.asset, table.time),
+	]
+)
+
+// Runs of the encryption maintenance jobs (lib/encryption/jobs.ts). The cursor
+// (table + last id) lets an interrupted run resume where it stopped.
+export const encryptionJobs = pgTable(
+	"encryption_jobs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		kind: varchar("kind", { length: 30 }).notNull(), // encrypt_data | rotate_master_key | rotate_dek
+		userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }), // rotate_dek only
+		status: varchar("status", { length: 20 }).default("running").notNull(), // running | completed | failed
+		cursorTable: varchar("cursor_table", { length: 50 }),
+		cursorId: text("cursor_id"),
+		rowsScanned: integer("rows_scanned").default(0).notNull(),
+		rowsUpdated: integer("rows_updated").default(0).notNull(),
+		error: text("error"),
+		startedAt: timestamp("started_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+		completedAt: timestamp("completed_at", { withTimezone: true }),
+	},
+	(table) => [index("encryption_jobs_kind_status_idx").on(table.kind, table.status)]
+)
+
+// Saved Monte Carlo and risk simulation runs. Inputs plus the PRNG seed replay a
+// run exactly; the summary columns let history and compare views skip the replay.
+export const simulationRuns = pgTable(
+	"simulation_runs",
+	{
+		id: uuid("id").primaryKey().defaultRandom(),
+		userId: uuid("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		accountId: uuid("account_id").references(() => tradingAccounts.id, { onDelete: "cascade" }),
+		kind: varchar("kind", { length: 30 }).notNull(), // monte_carlo | monte_carlo_v2 | risk_simulation
+		name: varchar("name", { length: 100 }).notNull(),
+		seed: integer("seed"), // null for deterministic replays (risk simulation)
+		inputs: text("inputs").notNull(), // JSON: SimulationRunInputs
+		sourceStats: text("source_stats"), // JSON: SimulationRunSourceStats
+		statistics: text("statistics").notNull(), // JSON: SimulationRunStatistics
+		distribution: text("distribution").default("[]").notNull(), // JSON: DistributionBucket[]
+		equityFan: text("equity_fan").default("[]").notNull(), // JSON: EquityFanPoint[]
+		createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+		updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+	},
+	(table) => [index("simulation_runs_user_kind_idx").on(table.userId, table.kind, table.createdAt)]
+)
+
 // User Settings Table (structured settings for trading account)
 export const userSettings = pgTable("user_settings", {
 	id: uuid("id").primaryKey().defaultRandom(),
@@ -1135,6 +1667,10 @@ export const usersRelations = relations(users, ({ many }) => ({
 	riskManagementProfiles: many(riskManagementProfiles),
 	tradingConditions: many(tradingConditions),
 	bugReports: many(bugReports),
+	importTemplates: many(importTemplates),
+	importBatches: many(importBatches),
+	apiKeys: many(apiKeys),
+	webhooks: many(webhooks),
 }))
 
 // Trading Account Relations
@@ -1155,6 +1691,10 @@ export const tradingAccountsRelations = relations(tradingAccounts, ({ one, many
 	accountAssetSettings: many(accountAssetSettings),
 	monthlyPlans: many(monthlyPlans),
 	notaImports: many(notaImports),
+	taxLedgerEntries: many(taxLedgerEntries),
+	openPositions: many(openPositions),
+	importBatches: many(importBatches),
+	propRuleSets: many(propRuleSets),
 }))
 
 // Session Relations
@@ -1217,6 +1757,13 @@ export const tradesRelations = relations(trades, ({ one, many }) => ({
 	}),
 	tradeTags: many(tradeTags),
 	executions: many(tradeExecutions),
+	attachments: many(tradeAttachments),
+	notaFills: many(notaFills),
+	openPosition: one(openPositions),
+	importBatch: one(importBatches, {
+		fields: [trades.importBatchId],
+		references: [importBatches.id],
+	}),
 }))
 
 export const tradeExecutionsRelations = relations(tradeExecutions, ({ one }) => ({
@@ -1226,6 +1773,13 @@ export const tradeExecutionsRelations = relations(tradeExecutions, ({ one }) =>
 	}),
 }))
 
+export const tradeAttachmentsRelations = relations(tradeAttachments, ({ one }) => ({
+	trade: one(trades, {
+		fields: [tradeAttachments.tradeId],
+		references: [trades.id],
+	}),
+}))
+
 export const timeframesRelations = relations(timeframes, ({ many }) => ({
 	trades: many(trades),
 	accountTimeframes: many(accountTimeframes),
@@ -1340,15 +1894,162 @@ export const riskManagementProfilesRelations = relations(riskManagementProfiles,
 		fields: [riskManagementProfiles.createdByUserId],
 		references: [users.id],
 	}),
+	versions: many(riskProfileVersions),
+	shares: many(riskProfileShares),
 	monthlyPlans: many(monthlyPlans),
 }))
 
+// Risk Profile Shares Relations
+export const riskProfileSharesRelations = relations(riskProfileShares, ({ one }) => ({
+	profile: one(riskManagementProfiles, {
+		fields: [riskProfileShares.profileId],
+		references: [riskManagementProfiles.id],
+	}),
+	user: one(users, {
+		fields: [riskProfileShares.userId],
+		references: [users.id],
+	}),
+}))
+
+// Risk Profile Versions Relations
+export const riskProfileVersionsRelations = relations(riskProfileVersions, ({ one }) => ({
+	profile: one(riskManagementProfiles, {
+		fields: [riskProfileVersions.profileId],
+		references: [riskManagementProfiles.id],
+	}),
+	createdBy: one(users, {
+		fields: [riskProfileVersions.createdByUserId],
+		references: [users.id],
+	}),
+}))
+
 // Nota Imports Relations
-export const notaImportsRelations = relations(notaImports, ({ one }) => ({
+export const notaImportsRelations = relations(notaImports, ({ one, many }) => ({
 	account: one(tradingAccounts, {
 		fields: [notaImports.accountId],
 		references: [tradingAccounts.id],
 	}),
+	fills: many(notaFills),
+	costs: one(notaCosts),
+}))
+
+export const notaFillsRelations = relations(notaFills, ({ one }) => ({
+	notaImport: one(notaImports, {
+		fields: [notaFills.notaImportId],
+		references: [notaImports.id],
+	}),
+	trade: one(trades, {
+		fields: [notaFills.tradeId],
+		references: [trades.id],
+	}),
+}))
+
+export const notaCostsRelations = relations(notaCosts, ({ one }) => ({
+	notaImport: one(notaImports, {
+		fields: [notaCosts.notaImportId],
+		references: [notaImports.id],
+	}),
+}))
+
+// Tax Ledger Relations
+export const taxLedgerEntriesRelations = relations(taxLedgerEntries, ({ one }) => ({
+	account: one(tradingAccounts, {
+		fields: [taxLedgerEntries.accountId],
+		references: [tradingAccounts.id],
+	}),
+}))
+
+// Import Templates Relations
+export const importTemplatesRelations = relations(importTemplates, ({ one }) => ({
+	user: one(users, {
+		fields: [importTemplates.userId],
+		references: [users.id],
+	}),
+}))
+
+// Import Batches Relations
+export const importBatchesRelations = relations(importBatches, ({ one, many }) => ({
+	user: one(users, {
+		fields: [importBatches.userId],
+		references: [users.id],
+	}),
+	account: one(tradingAccounts, {
+		fields: [importBatches.accountId],
+		references: [tradingAccounts.id],
+	}),
+	trades: many(trades),
+	snapshots: many(importBatchTradeSnapshots),
+}))
+
+export const importBatchTradeSnapshotsRelations = relations(importBatchTradeSnapshots, ({ one }) => ({
+	importBatch: one(importBatches, {
+		fields: [importBatchTradeSnapshots.importBatchId],
+		references: [importBatches.id],
+	}),
+	trade: one(trades, {
+		fields: [importBatchTradeSnapshots.tradeId],
+		references: [trades.id],
+	}),
+}))
+
+// Open Positions Relations
+export const openPositionsRelations = relations(openPositions, ({ one }) => ({
+	account: one(tradingAccounts, {
+		fields: [openPositions.accountId],
+		references: [tradingAccounts.id],
+	}),
+	trade: one(trades, {
+		fields: [openPositions.tradeId],
+		references: [trades.id],
+	}),
+}))
+
+// Prop Rule Sets Relations
+export const propRuleSetsRelations = relations(propRuleSets, ({ one, many }) => ({
+	account: one(tradingAccounts, {
+		fields: [propRuleSets.accountId],
+		references: [tradingAccounts.id],
+	}),
+	evaluations: many(propEvaluations),
+}))
+
+// Prop Evaluations Relations
+export const propEvaluationsRelations = relations(propEvaluations, ({ one }) => ({
+	ruleSet: one(propRuleSets, {
+		fields: [propEvaluations.ruleSetId],
+		references: [propRuleSets.id],
+	}),
+}))
+
+// API Keys Relations
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+	user: one(users, {
+		fields: [apiKeys.userId],
+		references: [users.id],
+	}),
+	account: one(tradingAccounts, {
+		fields: [apiKeys.accountId],
+		references: [tradingAccounts.id],
+	}),
+}))
+
+export const webhooksRelations = relations(webhooks, ({ one, many }) => ({
+	user: one(users, {
+		fields: [webhooks.userId],
+		references: [users.id],
+	}),
+	account: one(tradingAccounts, {
+		fields: [webhooks.accountId],
+		references: [tradingAccounts.id],
+	}),
+	deliveries: many(webhookDeliveries),
+}))
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+	webhook: one(webhooks, {
+		fields: [webhookDeliveries.webhookId],
+		references: [webhooks.id],
+	}),
 }))
 
 // Monthly Plans Relations
@@ -1361,6 +2062,10 @@ export const monthlyPlansRelations = relations(monthlyPlans, ({ one }) => ({
 		fields: [monthlyPlans.riskProfileId],
 		references: [riskManagementProfiles.id],
 	}),
+	riskProfileVersion: one(riskProfileVersions, {
+		fields: [monthlyPlans.riskProfileVersionId],
+		references: [riskProfileVersions.id],
+	}),
 }))
 
 // Playbook Enhancement Relations
@@ -1477,6 +2182,8 @@ export type NewUserSettings = typeof userSettings.$inferInsert
 
 export type TradeExecution = typeof tradeExecutions.$inferSelect
 export type NewTradeExecution = typeof tradeExecutions.$inferInsert
+export type TradeAttachment = typeof tradeAttachments.$inferSelect
+export type NewTradeAttachment = typeof tradeAttachments.$inferInsert
 
 // Command Center Types
 export type DailyChecklist = typeof dailyChecklists.$inferSelect
@@ -1504,9 +2211,44 @@ export type NewMonthlyPlan = typeof monthlyPlans.$inferInsert
 
 export type RiskManagementProfileRow = typeof riskManagementProfiles.$inferSelect
 export type NewRiskManagementProfileRow = typeof riskManagementProfiles.$inferInsert
+export type RiskProfileVersionRow = typeof riskProfileVersions.$inferSelect
 
 export type NotaImport = typeof notaImports.$inferSelect
 export type NewNotaImport = typeof notaImports.$inferInsert
+export type NotaFillRow = typeof notaFills.$inferSelect
+export type NewNotaFillRow = typeof notaFills.$inferInsert
+export type NotaCostRow = typeof notaCosts.$inferSelect
+export type NewNotaCostRow = typeof notaCosts.$inferInsert
+
+export type TaxLedgerEntryRow = typeof taxLedgerEntries.$inferSelect
+export type NewTaxLedgerEntryRow = typeof taxLedgerEntries.$inferInsert
+
+export type ImportTemplateRow = typeof importTemplates.$inferSelect
+export type NewImportTemplateRow = typeof importTemplates.$inferInsert
+
+export type ImportBatchRow = typeof importBatches.$inferSelect
+export type NewImportBatchRow = typeof importBatches.$inferInsert
+export type ImportBatchTradeSnapshotRow = typeof importBatchTradeSnapshots.$inferSelect
+
+export type OpenPositionRow = typeof openPositions.$inferSelect
+export type NewOpenPositionRow = typeof openPositions.$inferInsert
+
+export type PropRuleSetRow = typeof propRuleSets.$inferSelect
+export type NewPropRuleSetRow = typeof propRuleSets.$inferInsert
+export type PropEvaluationRow = typeof propEvaluations.$inferSelect
+
+export type ApiKeyRow = typeof apiKeys.$inferSelect
+
+export type WebhookRow = typeof webhooks.$inferSelect
+export type WebhookDeliveryRow = typeof webhookDeliveries.$inferSelect
+
+export type MarketHolidayRow = typeof marketHolidays.$inferSelect
+export type NewMarketHolidayRow = typeof marketHolidays.$inferInsert
+export type PriceBarRow = typeof priceBars.$inferSelect
+export type NewPriceBarRow = typeof priceBars.$inferInsert
+export type EncryptionJobRow = typeof encryptionJobs.$inferSelect
+export type SimulationRunRow = typeof simulationRuns.$inferSelect
+export type NewSimulationRunRow = typeof simulationRuns.$inferInsert
 
 // Playbook Enhancement Types
 export type TradingCondition = typeof tradingConditions.$inferSelect
@@ -11,6 +11,7 @@ import { db } from "@/db/drizzle"
 import { riskManagementProfiles, users } from "@/db/schema"
 import { eq } from "drizzle-orm"
 import type { DecisionTreeConfig } from "@/types/risk-profile"
+import { snapshotRiskProfileVersion } from "@/lib/risk-profile-versions"
 
 const seedRiskProfiles = async () => {
 	// Find the first admin user to set as creator
@@ -190,7 +191,7 @@ const seedRiskProfiles = async () => {
 			})
 
 			if (oldProfile) {
-				await db
+				const [migrated] = await db
 					.update(riskManagementProfiles)
 					.set({
 						name: profile.name,
@@ -201,14 +202,18 @@ const seedRiskProfiles = async () => {
 						monthlyLossCents: profile.monthlyLossCents,
 						dailyProfitTargetCents: profile.dailyProfitTargetCents,
 						decisionTree: profile.decisionTree,
+						currentVersion: oldProfile.currentVersion + 1,
 					})
 					.where(eq(riskManagementProfiles.id, oldProfile.id))
+					.returning()
+				await snapshotRiskProfileVersion(migrated, createdByUserId)
 				console.log(`Migrated profile: "${oldName}" → "${profile.name}"`)
 				continue
 			}
 		}
 
-		await db.insert(riskManagementProfiles).values(profile)
+		const [created] = await db.insert(riskManagementProfiles).values(profile).returning()
+		await snapshotRiskProfileVersion(created, createdByUserId)
 		console.log(`Created profile: "${profile.name}"`)
 	}
 
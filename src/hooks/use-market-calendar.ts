@@ -0,0 +1,31 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { MarketCode, MarketHoliday, TradingCalendar } from "@/types/market-calendar"
+import { getMarketHolidays } from "@/app/actions/market-calendar"
+import { createTradingCalendar } from "@/lib/market/trading-calendar"
+
+/**
+ * Trading calendar for a market in client components. Until the stored
+ * holidays arrive (or if they fail to load) the calendar runs on the
+ * holiday rules alone.
+ */
+const useMarketCalendar = (market: MarketCode): TradingCalendar => {
+	const [holidays, setHolidays] = useState<MarketHoliday[]>([])
+
+	useEffect(() => {
+		let cancelled = false
+		getMarketHolidays(market).then((result) => {
+			if (!cancelled && result.status === "success" && result.data) {
+				setHolidays(result.data)
+			}
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [market])
+
+	return useMemo(() => createTradingCalendar(market, holidays), [market, holidays])
+}
+
+export { useMarketCalendar }
@@ -0,0 +1,105 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { ActionResponse } from "@/types"
+import type { MonteCarloV2JobEvent, MonteCarloV2JobRequest } from "@/types/monte-carlo"
+
+type MonteCarloV2JobProgress = Extract<
+	MonteCarloV2JobEvent,
+	{ type: "progress" }
+>
+
+/** How a job ended; "rejected" when it never started (validation, budget) */
+type MonteCarloV2JobOutcome =
+	| Exclude<MonteCarloV2JobEvent, { type: "progress" }>
+	| { type: "rejected"; message: string }
+
+interface UseMonteCarloV2JobReturn {
+	/** Latest progress of the running job, null when none is running */
+	progress: MonteCarloV2JobProgress | null
+	/** Starts a job and streams its events until it ends */
+	run: (request: MonteCarloV2JobRequest) => Promise<MonteCarloV2JobOutcome>
+	/** Stops the running job; `run` then resolves "cancelled" */
+	cancel: () => void
+}
+
+const toRejectedOutcome = async (response: Response): Promise<MonteCarloV2JobOutcome> => {
+	const body = (await response.json().catch(() => null)) as ActionResponse<unknown> | null
+	const details = body?.errors?.map((error) => error.detail).join(", ")
+	return { type: "rejected", message: details || body?.message || response.statusText }
+}
+
+/**
+ * Runs a Capital Expectancy job over POST /api/monte-carlo/v2/jobs, which
+ * streams server-sent events from the request doing the work. Cancelling or
+ * unmounting aborts that request, which stops the job.
+ */
+const useMonteCarloV2Job = (): UseMonteCarloV2JobReturn => {
+	const [progress, setProgress] = useState<MonteCarloV2JobProgress | null>(null)
+	const controllerRef = useRef<AbortController | null>(null)
+
+	const cancel = useCallback(() => {
+		controllerRef.current?.abort()
+	}, [])
+
+	useEffect(() => cancel, [cancel])
+
+	const run = useCallback(
+		async (request: MonteCarloV2JobRequest): Promise<MonteCarloV2JobOutcome> => {
+			controllerRef.current?.abort()
+			const controller = new AbortController()
+			controllerRef.current = controller
+
+			try {
+				const response = await fetch("/api/monte-carlo/v2/jobs", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify(request),
+					signal: controller.signal,
+				})
+				if (!response.ok || !response.body) return await toRejectedOutcome(response)
+
+				const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+				let buffer = ""
+				while (true) {
+					const { value, done } = await reader.read()
+					if (done) break
+					buffer += value
+
+					// Each event is an "event:" line and a "data:" line, then a blank line
+					const frames = buffer.split("\n\n")
+					buffer = frames.pop() ?? ""
+					for (const frame of frames) {
+						const data = frame.split("\n").find((line) => line.startsWith("data: "))
+						if (!data) continue
+						const event = JSON.parse(data.slice("data: ".length)) as MonteCarloV2JobEvent
+						if (event.type === "progress") setProgress(event)
+						else return event
+					}
+				}
+
+				return { type: "failed", message: "Lost connection to the simulation" }
+			} catch (error) {
+				if (controller.signal.aborted) return { type: "cancelled" }
+				return {
+					type: "failed",
+					message: error instanceof Error ? error.message : "Lost connection to the simulation",
+				}
+			} finally {
+				if (controllerRef.current === controller) {
+					controllerRef.current = null
+					setProgress(null)
+				}
+			}
+		},
+		[]
+	)
+
+	return { progress, run, cancel }
+}
+
+export {
+	useMonteCarloV2Job,
+	type MonteCarloV2JobOutcome,
+	type MonteCarloV2JobProgress,
+}
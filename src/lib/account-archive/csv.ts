@@ -0,0 +1,26 @@
+/**
+ * CSV rendering for the spreadsheet-friendly side of an account archive.
+ * The CSVs are a convenience copy; imports only read account.json.
+ */
+
+type CsvValue = string | number | boolean | Date | null | undefined
+
+const escapeCsvValue = (value: CsvValue): string => {
+	if (value === null || value === undefined) return ""
+	const text = value instanceof Date ? value.toISOString() : String(value)
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Render rows as RFC 4180 CSV with a header line. Columns are picked in the
+ * given order; dates are written as ISO timestamps.
+ */
+const toCsv = <T extends Record<string, unknown>>(rows: T[], columns: Array<keyof T & string>): string => {
+	const lines = [columns.join(",")]
+	for (const row of rows) {
+		lines.push(columns.map((column) => escapeCsvValue(row[column] as CsvValue)).join(","))
+	}
+	return `${lines.join("\r\n")}\r\n`
+}
+
+export { toCsv }
@@ -0,0 +1,312 @@
+/**
+ * Account archive export: everything a trader recorded in one account —
+ * trades with executions and tags, the playbook (strategies, conditions,
+ * scenarios), monthly plans, checklists, daily notes and asset settings.
+ *
+ * Global records (assets, timeframes) are referenced by symbol/code so the
+ * archive imports on another instance. Trade attachments and scenario images
+ * keep their URLs; the files themselves are not copied.
+ */
+
+import { and, asc, eq } from "drizzle-orm"
+import { db } from "@/db/drizzle"
+import {
+	accountAssetSettings,
+	accountAssets,
+	accountTimeframes,
+	checklistCompletions,
+	dailyAccountNotes,
+	dailyAssetSettings,
+	dailyChecklists,
+	monthlyPlans,
+	strategies,
+	strategyConditions,
+	strategyScenarios,
+	scenarioImages,
+	tags,
+	tradeAttachments,
+	tradeExecutions,
+	trades,
+	tradingAccounts,
+	tradingConditions,
+} from "@/db/schema"
+import { getUserDek } from "@/lib/user-crypto"
+import {
+	ACCOUNT_ARCHIVE_FORMAT,
+	ACCOUNT_ARCHIVE_VERSION,
+	type AccountArchive,
+} from "@/lib/validations/account-archive"
+import { openStoredValues } from "./fields"
+
+/**
+ * Collect an account's data into an archive. Returns null when the account
+ * does not belong to the user.
+ */
+const buildAccountArchive = async (userId: string, accountId: string): Promise<AccountArchive | null> => {
+	const account = await db.query.tradingAccounts.findFirst({
+		where: and(eq(tradingAccounts.id, accountId), eq(tradingAccounts.userId, userId)),
+	})
+	if (!account) return null
+
+	const dek = await getUserDek(userId)
+
+	const [
+		timeframeRows,
+		tagRows,
+		conditionRows,
+		strategyRows,
+		tradeRows,
+		planRows,
+		checklistRows,
+		noteRows,
+		accountAssetRows,
+		assetSettingRows,
+		dailyAssetSettingRows,
+	] = await Promise.all([
+		db.query.accountTimeframes.findMany({
+			where: eq(accountTimeframes.accountId, accountId),
+			with: { timeframe: { columns: { code: true } } },
+		}),
+		db.query.tags.findMany({ where: eq(tags.userId, userId), orderBy: [asc(tags.name)] }),
+		db.query.tradingConditions.findMany({
+			where: eq(tradingConditions.userId, userId),
+			orderBy: [asc(tradingConditions.name)],
+		}),
+		db.query.strategies.findMany({
+			where: eq(strategies.userId, userId),
+			orderBy: [asc(strategies.code)],
+			with: {
+				strategyConditions: { orderBy: [asc(strategyConditions.sortOrder)] },
+				scenarios: {
+					orderBy: [asc(strategyScenarios.sortOrder)],
+					with: { images: { orderBy: [asc(scenarioImages.sortOrder)] } },
+				},
+			},
+		}),
+		db.query.trades.findMany({
+			where: eq(trades.accountId, accountId),
+			orderBy: [asc(trades.entryDate)],
+			with: {
+				timeframe: { columns: { code: true } },
+				tradeTags: { columns: { tagId: true } },
+				executions: { orderBy: [asc(tradeExecutions.executionDate)] },
+				attachments: { orderBy: [asc(tradeAttachments.sortOrder)] },
+			},
+		}),
+		db.query.monthlyPlans.findMany({
+			where: eq(monthlyPlans.accountId, accountId),
+			orderBy: [asc(monthlyPlans.year), asc(monthlyPlans.month)],
+		}),
+		db.query.dailyChecklists.findMany({
+			where: eq(dailyChecklists.accountId, accountId),
+			orderBy: [asc(dailyChecklists.createdAt)],
+			with: { completions: { orderBy: [asc(checklistCompletions.date)] } },
+		}),
+		db.query.dailyAccountNotes.findMany({
+			where: eq(dailyAccountNotes.accountId, accountId),
+			orderBy: [asc(dailyAccountNotes.date)],
+		}),
+		db.query.accountAssets.findMany({
+			where: eq(accountAssets.accountId, accountId),
+			with: { asset: { columns: { symbol: true } } },
+		}),
+		db.query.accountAssetSettings.findMany({
+			where: eq(accountAssetSettings.accountId, accountId),
+			with: { asset: { columns: { symbol: true } } },
+		}),
+		db.query.dailyAssetSettings.findMany({
+			where: eq(dailyAssetSettings.accountId, accountId),
+			orderBy: [asc(dailyAssetSettings.date)],
+			with: { asset: { columns: { symbol: true } } },
+		}),
+	])
+
+	const openAccount = openStoredValues("trading_accounts", account, dek)
+
+	return {
+		format: ACCOUNT_ARCHIVE_FORMAT,
+		version: ACCOUNT_ARCHIVE_VERSION,
+		exportedAt: new Date(),
+		account: {
+			name: openAccount.name,
+			description: openAccount.description,
+			accountType: openAccount.accountType,
+			propFirmName: openAccount.propFirmName,
+			profitSharePercentage: openAccount.profitSharePercentage,
+			dayTradeTaxRate: openAccount.dayTradeTaxRate,
+			swingTradeTaxRate: openAccount.swingTradeTaxRate,
+			defaultCommission: openAccount.defaultCommission,
+			defaultFees: openAccount.defaultFees,
+			defaultCurrency: openAccount.defaultCurrency,
+			defaultBreakevenTicks: openAccount.defaultBreakevenTicks,
+			defaultAsset: openAccount.defaultAsset,
+			showTaxEstimates: openAccount.showTaxEstimates,
+			showPropCalculations: openAccount.showPropCalculations,
+			brand: openAccount.brand,
+			replayStartDate: openAccount.replayStartDate,
+			replayCurrentDate: openAccount.replayCurrentDate,
+		},
+		timeframes: timeframeRows.map((row) => ({ code: row.timeframe.code, isEnabled: row.isEnabled })),
+		tags: tagRows.map((tag) => ({
+			id: tag.id,
+			name: tag.name,
+			type: tag.type,
+			color: tag.color,
+			description: tag.description,
+		})),
+		conditions: conditionRows.map((condition) => ({
+			id: condition.id,
+			name: condition.name,
+			description: condition.description,
+			category: condition.category,
+			isActive: condition.isActive,
+		})),
+		strategies: strategyRows.map((strategy) => ({
+			id: strategy.id,
+			code: strategy.code,
+			name: strategy.name,
+			description: strategy.description,
+			entryCriteria: strategy.entryCriteria,
+			exitCriteria: strategy.exitCriteria,
+			riskRules: strategy.riskRules,
+			targetRMultiple: strategy.targetRMultiple,
+			maxRiskPercent: strategy.maxRiskPercent,
+			screenshotUrl: strategy.screenshotUrl,
+			notes: strategy.notes,
+			isActive: strategy.isActive ?? true,
+			conditions: strategy.strategyConditions.map((link) => ({
+				conditionId: link.conditionId,
+				tier: link.tier,
+				sortOrder: link.sortOrder,
+			})),
+			scenarios: strategy.scenarios.map((scenario) => ({
+				name: scenario.name,
+				description: scenario.description,
+				sortOrder: scenario.sortOrder,
+				images: scenario.images.map((image) => ({ url: image.url, sortOrder: image.sortOrder })),
+			})),
+		})),
+		trades: tradeRows.map((row) => {
+			const trade = openStoredValues("trades", row, dek)
+			return {
+				id: trade.id,
+				asset: trade.asset,
+				direction: trade.direction,
+				timeframeCode: trade.timeframe?.code ?? null,
+				entryDate: trade.entryDate,
+				exitDate: trade.exitDate,
+				entryPrice: trade.entryPrice,
+				exitPrice: trade.exitPrice,
+				positionSize: trade.positionSize,
+				stopLoss: trade.stopLoss,
+				takeProfit: trade.takeProfit,
+				plannedRiskAmount: trade.plannedRiskAmount,
+				plannedRMultiple: trade.plannedRMultiple,
+				pnl: trade.pnl,
+				pnlPercent: trade.pnlPercent,
+				realizedRMultiple: trade.realizedRMultiple,
+				outcome: trade.outcome,
+				mfe: trade.mfe,
+				mae: trade.mae,
+				mfeR: trade.mfeR,
+				maeR: trade.maeR,
+				commission: trade.commission,
+				fees: trade.fees,
+				contractsExecuted: trade.contractsExecuted,
+				preTradeThoughts: trade.preTradeThoughts,
+				postTradeReflection: trade.postTradeReflection,
+				lessonLearned: trade.lessonLearned,
+				disciplineNotes: trade.disciplineNotes,
+				strategyId: trade.strategyId,
+				setupRank: trade.setupRank,
+				followedPlan: trade.followedPlan,
+				executionMode: trade.executionMode,
+				totalEntryQuantity: trade.totalEntryQuantity,
+				totalExitQuantity: trade.totalExitQuantity,
+				avgEntryPrice: trade.avgEntryPrice,
+				avgExitPrice: trade.avgExitPrice,
+				remainingQuantity: trade.remainingQuantity,
+				isArchived: trade.isArchived ?? false,
+				source: trade.source,
+				createdAt: trade.createdAt,
+				tagIds: trade.tradeTags.map((link) => link.tagId),
+				attachments: trade.attachments.map((attachment) => ({
+					kind: attachment.kind,
+					url: attachment.url,
+					thumbnailUrl: attachment.thumbnailUrl,
+					fileName: attachment.fileName,
+					contentType: attachment.contentType,
+					sizeBytes: attachment.sizeBytes,
+					caption: attachment.caption,
+					sortOrder: attachment.sortOrder,
+				})),
+				executions: trade.executions.map((row) => {
+					const execution = openStoredValues("trade_executions", row, dek)
+					return {
+						executionType: execution.executionType,
+						executionDate: execution.executionDate,
+						price: execution.price,
+						quantity: execution.quantity,
+						orderType: execution.orderType,
+						notes: execution.notes,
+						commission: execution.commission,
+						fees: execution.fees,
+						slippage: execution.slippage,
+						executionValue: execution.executionValue,
+					}
+				}),
+			}
+		}),
+		monthlyPlans: planRows.map((row) => {
+			const { id: _id, accountId: _accountId, createdAt: _createdAt, updatedAt: _updatedAt, ...plan } =
+				openStoredValues("monthly_plans", row, dek)
+			return plan
+		}),
+		checklists: checklistRows.map((checklist) => ({
+			name: checklist.name,
+			items: checklist.items,
+			isActive: checklist.isActive,
+			completions: checklist.completions.map((completion) => ({
+				date: completion.date,
+				completedItems: completion.completedItems,
+				completedAt: completion.completedAt,
+			})),
+		})),
+		dailyNotes: noteRows.map((row) => {
+			const note = openStoredValues("daily_account_notes", row, dek)
+			return {
+				date: note.date,
+				preMarketNotes: note.preMarketNotes,
+				postMarketNotes: note.postMarketNotes,
+				mood: note.mood,
+			}
+		}),
+		accountAssets: accountAssetRows.map((row) => ({
+			symbol: row.asset.symbol,
+			isEnabled: row.isEnabled,
+			commissionOverride: row.commissionOverride,
+			feesOverride: row.feesOverride,
+			breakevenTicksOverride: row.breakevenTicksOverride,
+			notes: row.notes,
+		})),
+		assetSettings: assetSettingRows.map((row) => ({
+			symbol: row.asset.symbol,
+			bias: row.bias,
+			maxDailyTrades: row.maxDailyTrades,
+			maxPositionSize: row.maxPositionSize,
+			notes: row.notes,
+			isActive: row.isActive,
+		})),
+		dailyAssetSettings: dailyAssetSettingRows.map((row) => ({
+			symbol: row.asset.symbol,
+			date: row.date,
+			bias: row.bias,
+			maxDailyTrades: row.maxDailyTrades,
+			maxPositionSize: row.maxPositionSize,
+			notes: row.notes,
+			isActive: row.isActive,
+		})),
+	}
+}
+
+export { buildAccountArchive }
@@ -0,0 +1,58 @@
+/**
+ * Encrypted column handling for archives. Archives hold plaintext, so values
+ * are opened on export and sealed with the importing user's DEK on import.
+ * Column lists come from the encryption table registry.
+ */
+
+import { decryptField, encryptField } from "@/lib/crypto"
+import { ENCRYPTED_TABLES } from "@/lib/encryption/tables"
+import type { EncryptedTableName } from "@/types/encryption"
+
+const getEncryptedColumns = (table: EncryptedTableName): string[] => {
+	const spec = ENCRYPTED_TABLES.find((candidate) => candidate.name === table)
+	return spec ? Object.keys(spec.columns) : []
+}
+
+/**
+ * Decrypt the encrypted columns of a stored row. Unlike reads in the app, a
+ * value that fails to decrypt aborts the export instead of becoming null, so
+ * an archive never silently loses data.
+ */
+const openStoredValues = <T extends Record<string, unknown>>(
+	table: EncryptedTableName,
+	row: T,
+	dek: string | null
+): T => {
+	if (!dek) return row
+
+	const opened: Record<string, unknown> = { ...row }
+	for (const column of getEncryptedColumns(table)) {
+		const value = row[column] as string | null | undefined
+		if (value === null || value === undefined) continue
+		const plaintext = decryptField(value, dek)
+		if (plaintext === null) throw new Error(`Could not decrypt ${table}.${column}`)
+		opened[column] = plaintext
+	}
+	return opened as T
+}
+
+/**
+ * Encrypt the encrypted columns of a row about to be inserted. Without a DEK
+ * the row is stored as plaintext, like every other write path.
+ */
+const sealStoredValues = <T extends Record<string, unknown>>(
+	table: EncryptedTableName,
+	row: T,
+	dek: string | null
+): T => {
+	if (!dek) return row
+
+	const sealed: Record<string, unknown> = { ...row }
+	for (const column of getEncryptedColumns(table)) {
+		if (row[column] === undefined) continue
+		sealed[column] = encryptField(row[column] as string | null, dek)
+	}
+	return sealed as T
+}
+
+export { openStoredValues, sealStoredValues }
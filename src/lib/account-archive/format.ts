@@ -0,0 +1,184 @@
+/**
+ * Account archive file format: a versioned ZIP holding account.json, the
+ * importable source, plus CSV copies of the main tables for spreadsheets.
+ * Pure functions only, so the format can be tested without a database.
+ */
+
+import { formatDateKey } from "@/lib/dates"
+import {
+	ACCOUNT_ARCHIVE_FORMAT,
+	ACCOUNT_ARCHIVE_VERSION,
+	accountArchiveSchema,
+	type AccountArchive,
+	type ArchiveTrade,
+} from "@/lib/validations/account-archive"
+import { toCsv } from "./csv"
+import { createZip, readZip, type ZipEntry } from "./zip"
+
+/** Name of the importable entry inside the ZIP */
+const ARCHIVE_MANIFEST_NAME = "account.json"
+
+type ParseAccountArchiveResult =
+	| { archive: AccountArchive }
+	| { error: "invalidFile" | "unsupportedVersion" | "invalidArchive"; detail?: string }
+
+const TRADE_CSV_COLUMNS: Array<keyof ArchiveTrade & string> = [
+	"id",
+	"asset",
+	"direction",
+	"timeframeCode",
+	"entryDate",
+	"exitDate",
+	"entryPrice",
+	"exitPrice",
+	"positionSize",
+	"stopLoss",
+	"takeProfit",
+	"plannedRiskAmount",
+	"plannedRMultiple",
+	"pnl",
+	"realizedRMultiple",
+	"outcome",
+	"mfe",
+	"mae",
+	"commission",
+	"fees",
+	"strategyId",
+	"setupRank",
+	"followedPlan",
+	"executionMode",
+	"isArchived",
+	"preTradeThoughts",
+	"postTradeReflection",
+	"lessonLearned",
+	"disciplineNotes",
+]
+
+/**
+ * Lay an archive out as ZIP entries: account.json is the importable source,
+ * the CSVs are flat copies for spreadsheets. Money columns are in cents.
+ */
+const toArchiveEntries = (archive: AccountArchive): ZipEntry[] => {
+	const tagNames = new Map(archive.tags.map((tag) => [tag.id, tag.name]))
+	const strategyCodes = new Map(archive.strategies.map((strategy) => [strategy.id, strategy.code]))
+
+	return [
+		{ name: ARCHIVE_MANIFEST_NAME, data: JSON.stringify(archive, null, "\t") },
+		{
+			name: "trades.csv",
+			data: toCsv(
+				archive.trades.map((trade) => ({
+					...trade,
+					strategyId: trade.strategyId ? (strategyCodes.get(trade.strategyId) ?? null) : null,
+					tags: trade.tagIds.map((tagId) => tagNames.get(tagId)).filter(Boolean).join(";"),
+				})),
+				[...TRADE_CSV_COLUMNS, "tags"]
+			),
+		},
+		{
+			name: "executions.csv",
+			data: toCsv(
+				archive.trades.flatMap((trade) =>
+					trade.executions.map((execution) => ({ tradeId: trade.id, ...execution }))
+				),
+				[
+					"tradeId",
+					"executionType",
+					"executionDate",
+					"price",
+					"quantity",
+					"orderType",
+					"commission",
+					"fees",
+					"slippage",
+					"executionValue",
+					"notes",
+				]
+			),
+		},
+		{
+			name: "strategies.csv",
+			data: toCsv(archive.strategies, [
+				"code",
+				"name",
+				"description",
+				"entryCriteria",
+				"exitCriteria",
+				"riskRules",
+				"targetRMultiple",
+				"maxRiskPercent",
+				"isActive",
+			]),
+		},
+		{
+			name: "monthly-plans.csv",
+			data: toCsv(archive.monthlyPlans, [
+				"year",
+				"month",
+				"accountBalance",
+				"riskPerTradePercent",
+				"dailyLossPercent",
+				"weeklyLossPercent",
+				"monthlyLossPercent",
+				"dailyProfitTargetPercent",
+				"maxDailyTrades",
+				"maxConsecutiveLosses",
+				"notes",
+			]),
+		},
+		{
+			name: "daily-notes.csv",
+			data: toCsv(archive.dailyNotes, ["date", "mood", "preMarketNotes", "postMarketNotes"]),
+		},
+	]
+}
+
+/** Download name, e.g. "axion-main-account-2026-10-18.zip" */
+const getArchiveFileName = (accountName: string, exportedAt: Date): string => {
+	const slug = accountName
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "")
+	return `axion-${slug || "account"}-${formatDateKey(exportedAt)}.zip`
+}
+
+const createAccountArchiveZip = (archive: AccountArchive): Buffer =>
+	createZip(toArchiveEntries(archive), archive.exportedAt)
+
+/**
+ * Read an uploaded archive: the exported ZIP, or its account.json on its own.
+ */
+const parseAccountArchive = (file: Buffer): ParseAccountArchiveResult => {
+	let manifest: unknown
+	try {
+		const isJson = file.subarray(0, 1).toString() === "{"
+		const json = isJson ? file : readZip(file).get(ARCHIVE_MANIFEST_NAME)
+		if (!json) return { error: "invalidFile", detail: `${ARCHIVE_MANIFEST_NAME} not found` }
+		manifest = JSON.parse(json.toString("utf8"))
+	} catch (error) {
+		return { error: "invalidFile", detail: error instanceof Error ? error.message : undefined }
+	}
+
+	const header = manifest as { format?: unknown; version?: unknown } | null
+	if (header?.format === ACCOUNT_ARCHIVE_FORMAT && header.version !== ACCOUNT_ARCHIVE_VERSION) {
+		return { error: "unsupportedVersion", detail: `Archive version ${String(header.version)}` }
+	}
+
+	const parsed = accountArchiveSchema.safeParse(manifest)
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0]
+		return { error: "invalidArchive", detail: `${issue.path.join(".")}: ${issue.message}` }
+	}
+	return { archive: parsed.data }
+}
+
+export {
+	ARCHIVE_MANIFEST_NAME,
+	toArchiveEntries,
+	createAccountArchiveZip,
+	getArchiveFileName,
+	parseAccountArchive,
+	type ParseAccountArchiveResult,
+}
@@ -0,0 +1,580 @@
+/**
+ * Account archive import: writes an archive into a new account or merges it
+ * into an existing one.
+ *
+ * Every record gets a fresh id; archive ids are only used to re-link trades,
+ * tags, strategies and conditions. User-level records (tags, conditions,
+ * strategies) are matched by name/code and reused, trades are deduplicated by
+ * their deduplicationHash recomputed for the target account, and rows with a
+ * natural key (monthly plan per month, note per day, settings per asset) keep
+ * what the target account already has. Trades and executions are recorded as
+ * an "archive" import batch, so Import History can roll them back.
+ */
+
+import { randomUUID } from "crypto"
+import { and, eq, inArray } from "drizzle-orm"
+import { db } from "@/db/drizzle"
+import {
+	accountAssetSettings,
+	accountAssets,
+	accountTimeframes,
+	assets,
+	checklistCompletions,
+	dailyAccountNotes,
+	dailyAssetSettings,
+	dailyChecklists,
+	monthlyPlans,
+	riskProfileVersions,
+	scenarioImages,
+	strategies,
+	strategyConditions,
+	strategyScenarios,
+	tags,
+	tradeAttachments,
+	tradeExecutions,
+	tradeTags,
+	trades,
+	tradingAccounts,
+	tradingConditions,
+} from "@/db/schema"
+import { getUserDek } from "@/lib/user-crypto"
+import { computeTradeHash } from "@/lib/deduplication"
+import { createImportBatch, completeImportBatch } from "@/lib/import-batches"
+import { syncOpenPosition } from "@/lib/open-positions"
+import { filterVisibleProfileIds } from "@/lib/risk-profile-visibility"
+import type {
+	AccountArchive,
+	ArchiveTrade,
+	ArchiveTradeAttachment,
+} from "@/lib/validations/account-archive"
+import type { AccountArchiveImportResult, AccountArchiveSection } from "@/types/account-archive"
+import { sealStoredValues } from "./fields"
+
+type ImportTarget = { kind: "new"; accountName?: string } | { kind: "current"; accountId: string }
+
+interface ImportAccountArchiveInput {
+	userId: string
+	archive: AccountArchive
+	target: ImportTarget
+	fileName?: string | null
+	fileHash?: string | null
+}
+
+/** Rows per insert statement */
+const INSERT_CHUNK_SIZE = 200
+
+const ACCOUNT_NAME_MAX_LENGTH = 100
+
+const toChunks = <T>(items: T[], size: number = INSERT_CHUNK_SIZE): T[][] => {
+	const chunks: T[][] = []
+	for (let index = 0; index < items.length; index += size) {
+		chunks.push(items.slice(index, index + size))
+	}
+	return chunks
+}
+
+const emptyCounts = (): Record<AccountArchiveSection, number> => ({
+	trades: 0,
+	executions: 0,
+	strategies: 0,
+	tags: 0,
+	conditions: 0,
+	monthlyPlans: 0,
+	checklists: 0,
+	checklistCompletions: 0,
+	dailyNotes: 0,
+	assetSettings: 0,
+})
+
+/**
+ * First free account name: the name itself, then "name (2)", "name (3)"…
+ */
+const getAvailableAccountName = (name: string, takenNames: Set<string>): string => {
+	if (!takenNames.has(name)) return name
+	for (let suffix = 2; ; suffix++) {
+		const label = ` (${suffix})`
+		const candidate = `${name.slice(0, ACCOUNT_NAME_MAX_LENGTH - label.length)}${label}`
+		if (!takenNames.has(candidate)) return candidate
+	}
+}
+
+/**
+ * A trade's attachments, turning the single screenshot of archives exported
+ * before attachments existed into an image attachment
+ */
+const getArchiveTradeAttachments = (trade: ArchiveTrade): ArchiveTradeAttachment[] => {
+	if (trade.attachments.length > 0 || !trade.screenshotUrl) return trade.attachments
+	const fileName = trade.screenshotUrl.split("/").pop()?.slice(0, 255) || "screenshot"
+	const extension = fileName.split(".").pop()?.toLowerCase()
+	return [
+		{
+			kind: "image",
+			url: trade.screenshotUrl,
+			thumbnailUrl: null,
+			fileName,
+			contentType: extension === "png" ? "image/png" : extension === "webp" ? "image/webp" : "image/jpeg",
+			sizeBytes: null,
+			caption: null,
+			sortOrder: 0,
+		},
+	]
+}
+
+const computeArchiveTradeHash = (accountId: string, trade: ArchiveTrade): string =>
+	computeTradeHash({
+		accountId,
+		asset: trade.asset,
+		direction: trade.direction,
+		entryDate: trade.entryDate,
+		entryPrice: Number(trade.entryPrice),
+		exitPrice: trade.exitPrice ? Number(trade.exitPrice) : null,
+		positionSize: Number(trade.positionSize),
+	})
+
+/**
+ * Create the account an archive is imported into, with the archive's
+ * settings and a name not yet used by the user.
+ */
+const createTargetAccount = async (
+	userId: string,
+	archive: AccountArchive,
+	requestedName: string | undefined,
+	dek: string | null
+): Promise<{ id: string; name: string }> => {
+	const existing = await db.query.tradingAccounts.findMany({
+		where: eq(tradingAccounts.userId, userId),
+		columns: { name: true },
+	})
+	const name = getAvailableAccountName(
+		requestedName || archive.account.name,
+		new Set(existing.map((account) => account.name))
+	)
+
+	const [account] = await db
+		.insert(tradingAccounts)
+		.values(sealStoredValues("trading_accounts", { ...archive.account, userId, name, isDefault: false }, dek))
+		.returning({ id: tradingAccounts.id, name: tradingAccounts.name })
+
+	return account
+}
+
+/**
+ * Import an archive for a user. Returns null when the target account does
+ * not belong to the user.
+ */
+const importAccountArchive = async (input: ImportAccountArchiveInput): Promise<AccountArchiveImportResult | null> => {
+	const { userId, archive, target } = input
+	const dek = await getUserDek(userId)
+	const imported = emptyCounts()
+	const skipped = emptyCounts()
+
+	let account: { id: string; name: string }
+	if (target.kind === "new") {
+		account = await createTargetAccount(userId, archive, target.accountName, dek)
+	} else {
+		const existing = await db.query.tradingAccounts.findFirst({
+			where: and(eq(tradingAccounts.id, target.accountId), eq(tradingAccounts.userId, userId)),
+			columns: { id: true, name: true },
+		})
+		if (!existing) return null
+		account = existing
+	}
+	const accountId = account.id
+
+	// Global records are matched by code/symbol; unknown ones are dropped
+	const symbols = [
+		...new Set([
+			...archive.accountAssets.map((row) => row.symbol),
+			...archive.assetSettings.map((row) => row.symbol),
+			...archive.dailyAssetSettings.map((row) => row.symbol),
+		]),
+	]
+	const [timeframeRows, assetRows] = await Promise.all([
+		db.query.timeframes.findMany({ columns: { id: true, code: true } }),
+		symbols.length > 0
+			? db.query.assets.findMany({ where: inArray(assets.symbol, symbols), columns: { id: true, symbol: true } })
+			: Promise.resolve([]),
+	])
+	const timeframeIds = new Map(timeframeRows.map((timeframe) => [timeframe.code, timeframe.id]))
+	const assetIds = new Map(assetRows.map((asset) => [asset.symbol, asset.id]))
+
+	const timeframeValues = archive.timeframes.flatMap((row) => {
+		const timeframeId = timeframeIds.get(row.code)
+		return timeframeId ? [{ accountId, timeframeId, isEnabled: row.isEnabled }] : []
+	})
+	if (timeframeValues.length > 0) {
+		await db.insert(accountTimeframes).values(timeframeValues).onConflictDoNothing()
+	}
+
+	// ==========================================
+	// TAGS, CONDITIONS, STRATEGIES (user-level)
+	// ==========================================
+
+	const [existingTags, existingConditions, existingStrategies] = await Promise.all([
+		db.query.tags.findMany({ where: eq(tags.userId, userId), columns: { id: true, name: true } }),
+		db.query.tradingConditions.findMany({
+			where: eq(tradingConditions.userId, userId),
+			columns: { id: true, name: true },
+		}),
+		db.query.strategies.findMany({ where: eq(strategies.userId, userId), columns: { id: true, code: true } }),
+	])
+
+	const tagIds = new Map<string, string>()
+	const tagsByName = new Map(existingTags.map((tag) => [tag.name, tag.id]))
+	const newTags: (typeof tags.$inferInsert)[] = []
+	for (const tag of archive.tags) {
+		const existingId = tagsByName.get(tag.name)
+		if (existingId) {
+			tagIds.set(tag.id, existingId)
+			skipped.tags++
+			continue
+		}
+		const id = randomUUID()
+		tagIds.set(tag.id, id)
+		tagsByName.set(tag.name, id)
+		newTags.push({ id, userId, name: tag.name, type: tag.type, color: tag.color, description: tag.description })
+	}
+	for (const chunk of toChunks(newTags)) await db.insert(tags).values(chunk)
+	imported.tags = newTags.length
+
+	const conditionIds = new Map<string, string>()
+	const conditionsByName = new Map(existingConditions.map((condition) => [condition.name, condition.id]))
+	const newConditions: (typeof tradingConditions.$inferInsert)[] = []
+	for (const condition of archive.conditions) {
+		const existingId = conditionsByName.get(condition.name)
+		if (existingId) {
+			conditionIds.set(condition.id, existingId)
+			skipped.conditions++
+			continue
+		}
+		const id = randomUUID()
+		conditionIds.set(condition.id, id)
+		conditionsByName.set(condition.name, id)
+		newConditions.push({
+			id,
+			userId,
+			name: condition.name,
+			description: condition.description,
+			category: condition.category,
+			isActive: condition.isActive,
+		})
+	}
+	for (const chunk of toChunks(newConditions)) await db.insert(tradingConditions).values(chunk)
+	imported.conditions = newConditions.length
+
+	// An existing strategy with the same code is reused as-is: its conditions
+	// and scenarios are the user's current playbook and are not merged
+	const strategyIds = new Map<string, string>()
+	const strategiesByCode = new Map(existingStrategies.map((strategy) => [strategy.code, strategy.id]))
+	for (const strategy of archive.strategies) {
+		const existingId = strategiesByCode.get(strategy.code)
+		if (existingId) {
+			strategyIds.set(strategy.id, existingId)
+			skipped.strategies++
+			continue
+		}
+
+		const { id: archiveId, conditions, scenarios, ...fields } = strategy
+		const id = randomUUID()
+		strategyIds.set(archiveId, id)
+		strategiesByCode.set(strategy.code, id)
+		await db.insert(strategies).values({ ...fields, id, userId })
+
+		const links = conditions.flatMap((link) => {
+			const conditionId = conditionIds.get(link.conditionId)
+			return conditionId ? [{ strategyId: id, conditionId, tier: link.tier, sortOrder: link.sortOrder }] : []
+		})
+		if (links.length > 0) await db.insert(strategyConditions).values(links).onConflictDoNothing()
+
+		for (const scenario of scenarios) {
+			const [inserted] = await db
+				.insert(strategyScenarios)
+				.values({
+					strategyId: id,
+					name: scenario.name,
+					description: scenario.description,
+					sortOrder: scenario.sortOrder,
+				})
+				.returning({ id: strategyScenarios.id })
+			// Images stay at their original URL; with no storage key of their
+			// own, deleting the copy never removes the original file
+			if (scenario.images.length > 0) {
+				await db.insert(scenarioImages).values(
+					scenario.images.map((image) => ({
+						scenarioId: inserted.id,
+						url: image.url,
+						s3Key: "",
+						sortOrder: image.sortOrder,
+					}))
+				)
+			}
+		}
+		imported.strategies++
+	}
+
+	// ==========================================
+	// TRADES, EXECUTIONS, TAGS
+	// ==========================================
+
+	const tradeHashes = archive.trades.map((trade) => computeArchiveTradeHash(accountId, trade))
+	const existingHashes = new Set<string>()
+	for (const chunk of toChunks([...new Set(tradeHashes)], 100)) {
+		const rows = await db
+			.select({ hash: trades.deduplicationHash })
+			.from(trades)
+			.where(and(eq(trades.accountId, accountId), inArray(trades.deduplicationHash, chunk)))
+		for (const row of rows) if (row.hash) existingHashes.add(row.hash)
+	}
+
+	const newTrades = archive.trades.flatMap((trade, index) => {
+		const hash = tradeHashes[index]
+		if (existingHashes.has(hash)) {
+			skipped.trades++
+			return []
+		}
+		// A hash seen once is a duplicate the second time, even within the archive
+		existingHashes.add(hash)
+		return [{ trade, hash, id: randomUUID() }]
+	})
+
+	if (newTrades.length > 0) {
+		const importBatchId = await createImportBatch({
+			userId,
+			accountId,
+			source: "archive",
+			fileName: input.fileName ?? null,
+			fileHash: input.fileHash ?? null,
+		})
+
+		const tradeValues = newTrades.map(({ trade, hash, id }) => {
+			const {
+				id: _archiveId,
+				timeframeCode,
+				strategyId,
+				tagIds: _tagIds,
+				executions: _executions,
+				attachments: _attachments,
+				screenshotUrl: _screenshotUrl,
+				...fields
+			} = trade
+			return sealStoredValues(
+				"trades",
+				{
+					...fields,
+					id,
+					accountId,
+					timeframeId: timeframeCode ? (timeframeIds.get(timeframeCode) ?? null) : null,
+					strategyId: strategyId ? (strategyIds.get(strategyId) ?? null) : null,
+					deduplicationHash: hash,
+					importBatchId,
+				},
+				dek
+			)
+		})
+		for (const chunk of toChunks(tradeValues)) await db.insert(trades).values(chunk)
+		imported.trades = tradeValues.length
+
+		const executionValues = newTrades.flatMap(({ trade, id }) =>
+			trade.executions.map((execution) =>
+				sealStoredValues("trade_executions", { ...execution, tradeId: id, importBatchId }, dek)
+			)
+		)
+		for (const chunk of toChunks(executionValues)) await db.insert(tradeExecutions).values(chunk)
+		imported.executions = executionValues.length
+
+		const tagValues = newTrades.flatMap(({ trade, id }) =>
+			trade.tagIds.flatMap((archiveTagId) => {
+				const tagId = tagIds.get(archiveTagId)
+				return tagId ? [{ tradeId: id, tagId }] : []
+			})
+		)
+		for (const chunk of toChunks(tagValues)) await db.insert(tradeTags).values(chunk)
+
+		// Like scenario images, attachments point at the original files
+		const attachmentValues = newTrades.flatMap(({ trade, id }) =>
+			getArchiveTradeAttachments(trade).map((attachment) => ({
+				...attachment,
+				tradeId: id,
+				s3Key: "",
+				thumbnailS3Key: null,
+			}))
+		)
+		for (const chunk of toChunks(attachmentValues)) await db.insert(tradeAttachments).values(chunk)
+
+		// Positions still open in the archive stay open, like after a statement import
+		for (const { trade, id } of newTrades) {
+			const remaining = Number(trade.remainingQuantity ?? 0)
+			if (trade.executionMode !== "scaled" || remaining <= 0) continue
+			await syncOpenPosition(
+				{ id, accountId, asset: trade.asset, direction: trade.direction, entryDate: trade.entryDate },
+				remaining,
+				Number(trade.avgEntryPrice ?? trade.entryPrice),
+				dek
+			)
+		}
+
+		await completeImportBatch(importBatchId, {
+			tradesCreated: imported.trades,
+			executionsCreated: imported.executions,
+		})
+	}
+
+	// ==========================================
+	// MONTHLY PLANS
+	// ==========================================
+
+	// Profiles may be missing on this instance or private to another user; plans
+	// only keep the ones the importing user can see, and versions of those
+	const profileIds = [...new Set(archive.monthlyPlans.flatMap((plan) => plan.riskProfileId ?? []))]
+	const versionIds = [...new Set(archive.monthlyPlans.flatMap((plan) => plan.riskProfileVersionId ?? []))]
+	const [knownProfileIds, versions] = await Promise.all([
+		filterVisibleProfileIds(profileIds, userId),
+		versionIds.length > 0
+			? db.query.riskProfileVersions.findMany({
+				where: inArray(riskProfileVersions.id, versionIds),
+				columns: { id: true, profileId: true },
+			})
+			: Promise.resolve([]),
+	])
+	const knownVersionIds = new Set(
+		versions.filter((version) => knownProfileIds.has(version.profileId)).map((version) => version.id)
+	)
+
+	const planValues = archive.monthlyPlans.map((plan) =>
+		sealStoredValues(
+			"monthly_plans",
+			{
+				...plan,
+				accountId,
+				riskProfileId: plan.riskProfileId && knownProfileIds.has(plan.riskProfileId) ? plan.riskProfileId : null,
+				riskProfileVersionId:
+					plan.riskProfileVersionId && knownVersionIds.has(plan.riskProfileVersionId)
+						? plan.riskProfileVersionId
+						: null,
+			},
+			dek
+		)
+	)
+	for (const chunk of toChunks(planValues)) {
+		const inserted = await db
+			.insert(monthlyPlans)
+			.values(chunk)
+			.onConflictDoNothing()
+			.returning({ id: monthlyPlans.id })
+		imported.monthlyPlans += inserted.length
+	}
+	skipped.monthlyPlans = planValues.length - imported.monthlyPlans
+
+	// ==========================================
+	// CHECKLISTS & DAILY NOTES
+	// ==========================================
+
+	const existingChecklists = await db.query.dailyChecklists.findMany({
+		where: eq(dailyChecklists.accountId, accountId),
+		columns: { id: true, name: true },
+	})
+	const checklistsByName = new Map(existingChecklists.map((checklist) => [checklist.name, checklist.id]))
+	for (const checklist of archive.checklists) {
+		let checklistId = checklistsByName.get(checklist.name)
+		if (checklistId) {
+			skipped.checklists++
+		} else {
+			const [inserted] = await db
+				.insert(dailyChecklists)
+				.values({ userId, accountId, name: checklist.name, items: checklist.items, isActive: checklist.isActive })
+				.returning({ id: dailyChecklists.id })
+			checklistId = inserted.id
+			checklistsByName.set(checklist.name, checklistId)
+			imported.checklists++
+		}
+
+		const completionValues = checklist.completions.map((completion) => ({
+			...completion,
+			checklistId: checklistId!,
+			userId,
+		}))
+		for (const chunk of toChunks(completionValues)) {
+			const inserted = await db
+				.insert(checklistCompletions)
+				.values(chunk)
+				.onConflictDoNothing()
+				.returning({ id: checklistCompletions.id })
+			imported.checklistCompletions += inserted.length
+		}
+		skipped.checklistCompletions += completionValues.length
+	}
+	skipped.checklistCompletions -= imported.checklistCompletions
+
+	const noteValues = archive.dailyNotes.map((note) =>
+		sealStoredValues("daily_account_notes", { ...note, userId, accountId }, dek)
+	)
+	for (const chunk of toChunks(noteValues)) {
+		const inserted = await db
+			.insert(dailyAccountNotes)
+			.values(chunk)
+			.onConflictDoNothing()
+			.returning({ id: dailyAccountNotes.id })
+		imported.dailyNotes += inserted.length
+	}
+	skipped.dailyNotes = noteValues.length - imported.dailyNotes
+
+	// ==========================================
+	// ASSET SETTINGS
+	// ==========================================
+
+	const withAssetId = <T extends { symbol: string }>(rows: T[]) =>
+		rows.flatMap(({ symbol, ...row }) => {
+			const assetId = assetIds.get(symbol)
+			if (!assetId) {
+				skipped.assetSettings++
+				return []
+			}
+			return [{ ...row, assetId, accountId }]
+		})
+
+	const accountAssetValues = withAssetId(archive.accountAssets)
+	const assetSettingValues = withAssetId(archive.assetSettings).map((row) => ({ ...row, userId }))
+	const dailyAssetSettingValues = withAssetId(archive.dailyAssetSettings).map((row) => ({ ...row, userId }))
+	const assetSettingTotal = accountAssetValues.length + assetSettingValues.length + dailyAssetSettingValues.length
+
+	for (const chunk of toChunks(accountAssetValues)) {
+		const inserted = await db
+			.insert(accountAssets)
+			.values(chunk)
+			.onConflictDoNothing()
+			.returning({ id: accountAssets.id })
+		imported.assetSettings += inserted.length
+	}
+	for (const chunk of toChunks(assetSettingValues)) {
+		const inserted = await db
+			.insert(accountAssetSettings)
+			.values(chunk)
+			.onConflictDoNothing()
+			.returning({ id: accountAssetSettings.id })
+		imported.assetSettings += inserted.length
+	}
+	for (const chunk of toChunks(dailyAssetSettingValues)) {
+		const inserted = await db
+			.insert(dailyAssetSettings)
+			.values(chunk)
+			.onConflictDoNothing()
+			.returning({ id: dailyAssetSettings.id })
+		imported.assetSettings += inserted.length
+	}
+	skipped.assetSettings += assetSettingTotal - imported.assetSettings
+
+	return {
+		accountId,
+		accountName: account.name,
+		createdAccount: target.kind === "new",
+		imported,
+		skipped,
+	}
+}
+
+export {
+	importAccountArchive,
+	getAvailableAccountName,
+	getArchiveTradeAttachments,
+	type ImportTarget,
+}
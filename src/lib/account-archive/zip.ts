@@ -0,0 +1,147 @@
+/**
+ * Minimal ZIP writer/reader for account archives, built on node:zlib.
+ *
+ * Supports what the archives need and nothing more: deflated or stored
+ * entries, no encryption, no ZIP64 (archives stay far below 4 GB) and no
+ * multi-disk sets. Entries written by other tools (e.g. a user re-zipping an
+ * extracted archive) read fine as long as they use the same subset.
+ */
+
+import { crc32, deflateRawSync, inflateRawSync } from "node:zlib"
+
+interface ZipEntry {
+	name: string
+	data: Buffer | string
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+const UTF8_FLAG = 0x0800
+const VERSION = 20
+
+/** DOS date/time fields of a ZIP header */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+	time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+	date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+/**
+ * Build a ZIP file from in-memory entries. Each entry is deflated unless
+ * that makes it larger.
+ */
+const createZip = (entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer => {
+	const { time, date } = toDosDateTime(modifiedAt)
+	const localParts: Buffer[] = []
+	const centralParts: Buffer[] = []
+	let offset = 0
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, "utf8")
+		const data = typeof entry.data === "string" ? Buffer.from(entry.data, "utf8") : entry.data
+		const deflated = deflateRawSync(data)
+		const method = deflated.length < data.length ? METHOD_DEFLATED : METHOD_STORED
+		const body = method === METHOD_DEFLATED ? deflated : data
+		const checksum = crc32(data)
+
+		const local = Buffer.alloc(30)
+		local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0)
+		local.writeUInt16LE(VERSION, 4)
+		local.writeUInt16LE(UTF8_FLAG, 6)
+		local.writeUInt16LE(method, 8)
+		local.writeUInt16LE(time, 10)
+		local.writeUInt16LE(date, 12)
+		local.writeUInt32LE(checksum, 14)
+		local.writeUInt32LE(body.length, 18)
+		local.writeUInt32LE(data.length, 22)
+		local.writeUInt16LE(name.length, 26)
+		local.writeUInt16LE(0, 28)
+
+		const central = Buffer.alloc(46)
+		central.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0)
+		central.writeUInt16LE(VERSION, 4)
+		central.writeUInt16LE(VERSION, 6)
+		central.writeUInt16LE(UTF8_FLAG, 8)
+		central.writeUInt16LE(method, 10)
+		central.writeUInt16LE(time, 12)
+		central.writeUInt16LE(date, 14)
+		central.writeUInt32LE(checksum, 16)
+		central.writeUInt32LE(body.length, 20)
+		central.writeUInt32LE(data.length, 24)
+		central.writeUInt16LE(name.length, 28)
+		central.writeUInt32LE(offset, 42)
+
+		localParts.push(local, name, body)
+		centralParts.push(central, name)
+		offset += local.length + name.length + body.length
+	}
+
+	const centralDirectory = Buffer.concat(centralParts)
+	const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE)
+	end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0)
+	end.writeUInt16LE(entries.length, 8)
+	end.writeUInt16LE(entries.length, 10)
+	end.writeUInt32LE(centralDirectory.length, 12)
+	end.writeUInt32LE(offset, 16)
+
+	return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/** Locate the end-of-central-directory record (it may be followed by a comment) */
+const findEndOfCentralDirectory = (zip: Buffer): number => {
+	for (let position = zip.length - END_OF_CENTRAL_DIRECTORY_SIZE; position >= 0; position--) {
+		if (zip.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return position
+	}
+	throw new Error("Not a ZIP file")
+}
+
+/**
+ * Read every file entry of a ZIP into memory, keyed by entry name.
+ * Throws on unsupported compression methods and checksum mismatches.
+ */
+const readZip = (zip: Buffer): Map<string, Buffer> => {
+	const end = findEndOfCentralDirectory(zip)
+	const entryCount = zip.readUInt16LE(end + 10)
+	let position = zip.readUInt32LE(end + 16)
+	const files = new Map<string, Buffer>()
+
+	for (let index = 0; index < entryCount; index++) {
+		if (zip.readUInt32LE(position) !== CENTRAL_DIRECTORY_SIGNATURE) {
+			throw new Error("Corrupt ZIP central directory")
+		}
+		const method = zip.readUInt16LE(position + 10)
+		const checksum = zip.readUInt32LE(position + 16)
+		const compressedSize = zip.readUInt32LE(position + 20)
+		const nameLength = zip.readUInt16LE(position + 28)
+		const extraLength = zip.readUInt16LE(position + 30)
+		const commentLength = zip.readUInt16LE(position + 32)
+		const localOffset = zip.readUInt32LE(position + 42)
+		const name = zip.toString("utf8", position + 46, position + 46 + nameLength)
+		position += 46 + nameLength + extraLength + commentLength
+
+		// Directories carry no data
+		if (name.endsWith("/")) continue
+
+		if (zip.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+			throw new Error(`Corrupt ZIP entry: ${name}`)
+		}
+		const dataStart =
+			localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28)
+		const body = zip.subarray(dataStart, dataStart + compressedSize)
+
+		let data: Buffer
+		if (method === METHOD_STORED) data = Buffer.from(body)
+		else if (method === METHOD_DEFLATED) data = inflateRawSync(body)
+		else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+
+		if (crc32(data) !== checksum) throw new Error(`Checksum mismatch for ${name}`)
+		files.set(name, data)
+	}
+
+	return files
+}
+
+export { createZip, readZip, type ZipEntry }
@@ -21,6 +21,9 @@ import type {
 	TradingSession,
 	SessionPerformance,
 	SessionAssetPerformance,
+	ExitEfficiencyData,
+	StopEfficiencyData,
+	MoneyLeftGroup,
 } from "@/types"
 
 /**
@@ -336,6 +339,18 @@ interface TradeForRDistribution {
 	pnl: number | string | null
 }
 
+interface TradeForExcursion {
+	id: string
+	asset: string
+	strategyName: string | null
+	outcome: "win" | "loss" | "breakeven" | null
+	realizedRMultiple: string | null
+	mfeR: string | null
+	maeR: string | null
+	pnl: number | string | null
+	plannedRiskAmount: number | string | null
+}
+
 interface TradeForHourly {
 	entryDate: Date
 	pnl: number | string | null
@@ -436,6 +451,130 @@ const computeRDistribution = (
 		: buckets.filter((b) => b.rangeMin >= -2 && b.rangeMax <= 3)
 }
 
+/**
+ * Share of the favorable move kept at exit, in %. Aggregated as
+ * sum(realized R) / sum(MFE R) so a loser that barely moved in favor doesn't
+ * swing the average the way a per-trade ratio would.
+ */
+const computeCapture = (pairs: Array<{ mfeR: number; realizedR: number }>): number => {
+	const moved = pairs.filter((p) => p.mfeR > 0)
+	const totalMfeR = moved.reduce((sum, p) => sum + p.mfeR, 0)
+	if (totalMfeR === 0) return 0
+	return (moved.reduce((sum, p) => sum + p.realizedR, 0) / totalMfeR) * 100
+}
+
+const toExcursionPair = (trade: TradeForExcursion) =>
+	trade.mfeR !== null && trade.realizedRMultiple !== null
+		? { mfeR: Number(trade.mfeR), realizedR: Number(trade.realizedRMultiple) }
+		: null
+
+/**
+ * Compute exit efficiency: realized R against the MFE in R for each trade
+ * that has both.
+ */
+const computeExitEfficiency = (
+	trades: TradeForExcursion[]
+): ExitEfficiencyData => {
+	const points = trades.flatMap((trade) => {
+		const pair = toExcursionPair(trade)
+		return pair ? [{ tradeId: trade.id, asset: trade.asset, ...pair }] : []
+	})
+
+	if (points.length === 0) {
+		return { sampleSize: 0, avgCapture: 0, avgMfeR: 0, avgRealizedR: 0, points: [] }
+	}
+
+	return {
+		sampleSize: points.length,
+		avgCapture: computeCapture(points),
+		avgMfeR: points.reduce((sum, p) => sum + p.mfeR, 0) / points.length,
+		avgRealizedR: points.reduce((sum, p) => sum + p.realizedR, 0) / points.length,
+		points,
+	}
+}
+
+/**
+ * Compute stop efficiency: how deep winners went against the entry (MAE R).
+ * Winners that never came near the stop suggest it could be tighter.
+ */
+const computeStopEfficiency = (
+	trades: TradeForExcursion[]
+): StopEfficiencyData => {
+	const buckets = [
+		{ range: "0R to -0.25R", rangeMin: -0.25, rangeMax: 0, count: 0, pnl: 0 },
+		{ range: "-0.25R to -0.5R", rangeMin: -0.5, rangeMax: -0.25, count: 0, pnl: 0 },
+		{ range: "-0.5R to -0.75R", rangeMin: -0.75, rangeMax: -0.5, count: 0, pnl: 0 },
+		{ range: "-0.75R to -1R", rangeMin: -1, rangeMax: -0.75, count: 0, pnl: 0 },
+		{ range: "< -1R", rangeMin: -Infinity, rangeMax: -1, count: 0, pnl: 0 },
+	]
+
+	const winners = trades.filter((t) => t.outcome === "win" && t.maeR !== null)
+	if (winners.length === 0) {
+		return { winnerCount: 0, avgWinnerMaeR: 0, shallowWinnerPercent: 0, buckets }
+	}
+
+	let totalMaeR = 0
+	let shallowCount = 0
+	for (const trade of winners) {
+		const maeR = Number(trade.maeR)
+		totalMaeR += maeR
+		if (maeR > -0.5) shallowCount++
+
+		const bucket = buckets.find((b) => maeR > b.rangeMin && maeR <= b.rangeMax)
+		if (bucket) {
+			bucket.count++
+			bucket.pnl += fromCents(trade.pnl)
+		}
+	}
+
+	return {
+		winnerCount: winners.length,
+		avgWinnerMaeR: totalMaeR / winners.length,
+		shallowWinnerPercent: (shallowCount / winners.length) * 100,
+		buckets,
+	}
+}
+
+/**
+ * Compute the money left on the table per strategy or asset: the part of the
+ * MFE not captured at exit, sized by each trade's planned risk.
+ * Trades without planned risk can't be priced and are left out.
+ */
+const computeMoneyLeftOnTable = (
+	trades: TradeForExcursion[],
+	groupBy: "strategy" | "asset"
+): MoneyLeftGroup[] => {
+	const groups = new Map<
+		string,
+		{ tradeCount: number; moneyLeft: number; pairs: Array<{ mfeR: number; realizedR: number }> }
+	>()
+
+	for (const trade of trades) {
+		const pair = toExcursionPair(trade)
+		const risk = fromCents(trade.plannedRiskAmount)
+		if (!pair || risk <= 0) continue
+
+		const groupKey =
+			groupBy === "strategy" ? trade.strategyName || "No Strategy" : trade.asset
+		const existing = groups.get(groupKey) || { tradeCount: 0, moneyLeft: 0, pairs: [] }
+
+		existing.tradeCount++
+		existing.moneyLeft += Math.max(0, pair.mfeR - pair.realizedR) * risk
+		existing.pairs.push(pair)
+
+		groups.set(groupKey, existing)
+	}
+
+	return Array.from(groups.entries())
+		.map(([group, data]) => ({
+			group,
+			tradeCount: data.tradeCount,
+			moneyLeft: data.moneyLeft,
+			avgCapture: computeCapture(data.pairs),
+		}))
+		.toSorted((a, b) => b.moneyLeft - a.moneyLeft)
+}
+
 /**
  * Compute hourly performance from decrypted trades.
  * Groups by BRT hour and computes win rate, pnl, avgR per hour.
@@ -989,6 +1128,9 @@ export {
 	computeMaxDrawdown,
 	computeAvgRiskPerTrade,
 	computeRDistribution,
+	computeExitEfficiency,
+	computeStopEfficiency,
+	computeMoneyLeftOnTable,
 	computeHourlyPerformance,
 	computeDayOfWeekPerformance,
 	computeTimeHeatmap,
@@ -999,6 +1141,7 @@ export {
 	type TradeForEquity,
 	type TradeForRisk,
 	type TradeForRDistribution,
+	type TradeForExcursion,
 	type TradeForHourly,
 	type TradeForSessionAsset,
 	type TradeForVariable,
@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from "crypto"
+
+const API_KEY_PREFIX = "axn_"
+const API_KEY_DISPLAY_LENGTH = 12
+
+/**
+ * Generates a new plain-text API key token. 32 random bytes make the token
+ * itself unguessable, so a fast SHA-256 hash is enough for storage.
+ */
+const generateApiKeyToken = (): string =>
+	`${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`
+
+const hashApiKeyToken = (token: string): string =>
+	createHash("sha256").update(token).digest("hex")
+
+/** Leading characters kept in plain text so users can tell their keys apart */
+const getApiKeyDisplayPrefix = (token: string): string =>
+	token.slice(0, API_KEY_DISPLAY_LENGTH)
+
+export { API_KEY_PREFIX, generateApiKeyToken, hashApiKeyToken, getApiKeyDisplayPrefix }
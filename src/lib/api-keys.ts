@@ -0,0 +1,50 @@
+import type { ApiKeyScope } from "@/types/api-key"
+
+// ==========================================
+// API KEY HELPERS
+// ==========================================
+
+/** Every scope a key can carry, in the order they are shown in Settings */
+const API_KEY_SCOPES: ApiKeyScope[] = [
+	"trades:read",
+	"trades:write",
+	"analytics:read",
+	"plans:read",
+	"plans:write",
+	"bugs:manage",
+]
+
+/** Scopes only admins may grant, re-checked against the user on every request */
+const ADMIN_API_KEY_SCOPES: ApiKeyScope[] = ["bugs:manage"]
+
+const isApiKeyScope = (value: unknown): value is ApiKeyScope =>
+	typeof value === "string" && API_KEY_SCOPES.includes(value as ApiKeyScope)
+
+/** Parses the stored JSON scope list, dropping anything unknown */
+const parseApiKeyScopes = (raw: string): ApiKeyScope[] => {
+	try {
+		const parsed: unknown = JSON.parse(raw)
+		return Array.isArray(parsed) ? parsed.filter(isApiKeyScope) : []
+	} catch {
+		return []
+	}
+}
+
+/** Write access implies read access on the same resource */
+const hasApiKeyScope = (granted: ApiKeyScope[], required: ApiKeyScope): boolean => {
+	if (granted.includes(required)) return true
+	const [resource, access] = required.split(":")
+	return access === "read" && granted.includes(`${resource}:write` as ApiKeyScope)
+}
+
+const isApiKeyExpired = (expiresAt: Date | null, now: Date = new Date()): boolean =>
+	expiresAt !== null && expiresAt.getTime() <= now.getTime()
+
+export {
+	API_KEY_SCOPES,
+	ADMIN_API_KEY_SCOPES,
+	isApiKeyScope,
+	parseApiKeyScopes,
+	hasApiKeyScope,
+	isApiKeyExpired,
+}
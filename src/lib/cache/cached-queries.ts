@@ -32,6 +32,9 @@ import {
 	computeExpectedValue,
 	computeEquityCurve,
 	computeRDistribution,
+	computeExitEfficiency,
+	computeStopEfficiency,
+	computeMoneyLeftOnTable,
 	computeHourlyPerformance,
 	computeDayOfWeekPerformance,
 	computeTimeHeatmap,
@@ -41,6 +44,7 @@ import {
 } from "@/lib/analytics-helpers"
 import { calculateWinRate, calculateProfitFactor } from "@/lib/calculations"
 import { fromCents } from "@/lib/money"
+import { getUserDek, decryptTradeFields } from "@/lib/user-crypto"
 import { formatDateKey, getStartOfMonth, getEndOfMonth } from "@/lib/dates"
 import { tradeTag, tradeAllTag } from "./tags"
 
@@ -110,17 +114,21 @@ const getCachedAnalyticsDashboard = async (
 
 	// Cache miss — hitting DB. On cache hit this entire function is skipped.
 	const dbStart = performance.now()
-	const result = await db.query.trades.findMany({
-		where: and(...conditions),
-		with: {
-			strategy: true,
-			timeframe: true,
-		},
-		orderBy: [asc(trades.entryDate)],
-	})
+	const [rawResult, dek] = await Promise.all([
+		db.query.trades.findMany({
+			where: and(...conditions),
+			with: {
+				strategy: true,
+				timeframe: true,
+			},
+			orderBy: [asc(trades.entryDate)],
+		}),
+		getUserDek(ctx.userId),
+	])
 	const dbMs = (performance.now() - dbStart).toFixed(1)
 
 	const computeStart = performance.now()
+	const result = dek ? rawResult.map((t) => decryptTradeFields(t, dek)) : rawResult
 	const tradesForComputation = result.map((t) => ({
 		...t,
 		strategyName: t.strategy?.name ?? null,
@@ -140,6 +148,10 @@ const getCachedAnalyticsDashboard = async (
 		sessionPerformance: computeSessionPerformance(tradesForComputation),
 		sessionAssetPerformance:
 			computeSessionAssetPerformance(tradesForComputation),
+		exitEfficiency: computeExitEfficiency(tradesForComputation),
+		stopEfficiency: computeStopEfficiency(tradesForComputation),
+		moneyLeftByStrategy: computeMoneyLeftOnTable(tradesForComputation, "strategy"),
+		moneyLeftByAsset: computeMoneyLeftOnTable(tradesForComputation, "asset"),
 	}
 	const computeMs = (performance.now() - computeStart).toFixed(1)
 
@@ -458,7 +470,7 @@ const getCachedDashboardData = async (
 
 	// 1 DB query: all non-archived trades + 1 for initial balance
 	const dbStart = performance.now()
-	const [allTrades, accountBalanceSetting] = await Promise.all([
+	const [rawTrades, accountBalanceSetting, dek] = await Promise.all([
 		db.query.trades.findMany({
 			where: and(accountCondition, eq(trades.isArchived, false)),
 			orderBy: [desc(trades.entryDate)],
@@ -466,8 +478,10 @@ const getCachedDashboardData = async (
 		db.query.settings.findFirst({
 			where: eq(settings.key, "account_balance"),
 		}),
+		getUserDek(ctx.userId),
 	])
 	const dbMs = (performance.now() - dbStart).toFixed(1)
+	const allTrades = dek ? rawTrades.map((t) => decryptTradeFields(t, dek)) : rawTrades
 
 	const initialBalance = accountBalanceSetting
 		? Number(accountBalanceSetting.value) || 10000
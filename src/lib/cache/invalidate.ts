@@ -58,6 +58,18 @@ const MONTHLY_PLAN_PATHS = [
 	"/command-center",
 ] as const
 
+const TAX_PATHS = [
+	"/reports",
+	"/monthly",
+] as const
+
+const MARKET_CALENDAR_PATHS = [
+	"/command-center",
+	"/reports",
+	"/risk-simulation",
+	"/settings",
+] as const
+
 const ALL_PATHS = [
 	"/",
 	"/journal",
@@ -125,6 +137,16 @@ const invalidateMonthlyPlanData = () => {
 	for (const path of MONTHLY_PLAN_PATHS) revalidatePath(path)
 }
 
+/** Call after the tax ledger is recalculated or a DARF payment is recorded. */
+const invalidateTaxData = () => {
+	for (const path of TAX_PATHS) revalidatePath(path)
+}
+
+/** Call after market holidays are added, edited or generated. */
+const invalidateMarketCalendarData = () => {
+	for (const path of MARKET_CALENDAR_PATHS) revalidatePath(path)
+}
+
 /** Call after account switch — nukes everything. */
 const invalidateAllData = (userId?: string) => {
 	for (const path of ALL_PATHS) revalidatePath(path)
@@ -142,5 +164,7 @@ export {
 	invalidatePlaybookData,
 	invalidateAccountData,
 	invalidateMonthlyPlanData,
+	invalidateTaxData,
+	invalidateMarketCalendarData,
 	invalidateAllData,
 }
@@ -451,7 +451,7 @@ export const calculateTickBasedPositionSize = (
 /**
  * Get position status based on entry/exit quantities
  */
-const getPositionStatus = (
+export const getPositionStatus = (
 	totalEntryQty: number,
 	totalExitQty: number
 ): PositionStatus => {
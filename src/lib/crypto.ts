@@ -18,6 +18,9 @@ const IV_LENGTH = 12 // 96 bits recommended for GCM
 const KEY_LENGTH = 32 // 256 bits
 const AUTH_TAG_LENGTH = 16 // 128 bits
 
+/** base64(12-byte IV) : base64(ciphertext) : base64(16-byte tag) */
+const ENCRYPTED_VALUE_PATTERN = /^[A-Za-z0-9+/]{16}:[A-Za-z0-9+/]*=*:[A-Za-z0-9+/]{22}==$/
+
 // ==========================================
 // LOW-LEVEL ENCRYPT / DECRYPT
 // ==========================================
@@ -38,11 +41,10 @@ const encrypt = (plaintext: string, keyHex: string): string => {
 }
 
 /**
- * Decrypt ciphertext with a 256-bit hex key.
- * Expects format: base64(iv):base64(ciphertext):base64(authTag)
- * Returns null if decryption fails (tampered data, wrong key, etc.)
+ * Decrypt without logging. Used where a failure is expected, e.g. probing
+ * which of two keys a value was written with.
  */
-const decrypt = (ciphertext: string, keyHex: string): string | null => {
+const tryDecrypt = (ciphertext: string, keyHex: string): string | null => {
 	try {
 		const parts = ciphertext.split(":")
 		if (parts.length !== 3) return null
@@ -57,12 +59,24 @@ const decrypt = (ciphertext: string, keyHex: string): string | null => {
 
 		const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()])
 		return decrypted.toString("utf8")
-	} catch (error) {
-		console.error("[crypto.decrypt] Decryption failed:", error instanceof Error ? error.message : error)
+	} catch {
 		return null
 	}
 }
 
+/**
+ * Decrypt ciphertext with a 256-bit hex key.
+ * Expects format: base64(iv):base64(ciphertext):base64(authTag)
+ * Returns null if decryption fails (tampered data, wrong key, etc.)
+ */
+const decrypt = (ciphertext: string, keyHex: string): string | null => {
+	const decrypted = tryDecrypt(ciphertext, keyHex)
+	if (decrypted === null) {
+		console.error("[crypto.decrypt] Decryption failed: wrong key or tampered data")
+	}
+	return decrypted
+}
+
 // ==========================================
 // KEY MANAGEMENT
 // ==========================================
@@ -74,6 +88,9 @@ const generateKey = (): string => {
 	return randomBytes(KEY_LENGTH).toString("hex")
 }
 
+const isValidKeyHex = (value: string | undefined): value is string =>
+	Boolean(value && /^[0-9a-fA-F]{64}$/.test(value))
+
 /**
  * Get the master key from environment. Validates length.
  */
@@ -88,6 +105,21 @@ const getMasterKey = (): string => {
 	return masterKey
 }
 
+/**
+ * The master key being rotated away from, if any. Set ENCRYPTION_MASTER_KEY_PREVIOUS
+ * alongside the new ENCRYPTION_MASTER_KEY until rotate-master-key has re-wrapped every DEK.
+ */
+const getPreviousMasterKey = (): string | null => {
+	const previous = process.env.ENCRYPTION_MASTER_KEY_PREVIOUS
+	return isValidKeyHex(previous) ? previous : null
+}
+
+/**
+ * Whether a usable master key is configured. Without one the app runs with
+ * encryption off: new rows are stored in plaintext and no DEKs are issued.
+ */
+const isEncryptionConfigured = (): boolean => isValidKeyHex(process.env.ENCRYPTION_MASTER_KEY)
+
 /**
  * Encrypt a DEK with the master key (for storage in users.encrypted_dek).
  */
@@ -97,9 +129,35 @@ const encryptDek = (dek: string): string => {
 
 /**
  * Decrypt a DEK with the master key (for runtime use).
+ * Falls back to the previous master key while a rotation is in progress.
  */
 const decryptDek = (encryptedDek: string): string | null => {
-	return decrypt(encryptedDek, getMasterKey())
+	const dek = tryDecrypt(encryptedDek, getMasterKey())
+	if (dek) return dek
+
+	const previousKey = getPreviousMasterKey()
+	if (previousKey) {
+		const previousDek = tryDecrypt(encryptedDek, previousKey)
+		if (previousDek) return previousDek
+	}
+
+	console.error("[crypto.decryptDek] DEK could not be decrypted with the current or previous master key")
+	return null
+}
+
+/**
+ * Re-encrypt a wrapped DEK under the current master key. Returns null when it is
+ * already wrapped with the current key; throws when neither master key opens it.
+ */
+const rewrapDek = (encryptedDek: string): { encryptedDek: string } | null => {
+	const masterKey = getMasterKey()
+	if (tryDecrypt(encryptedDek, masterKey)) return null
+
+	const previousKey = getPreviousMasterKey()
+	const dek = previousKey ? tryDecrypt(encryptedDek, previousKey) : null
+	if (!dek) throw new Error("DEK is wrapped with an unknown master key")
+
+	return { encryptedDek: encrypt(dek, masterKey) }
 }
 
 // ==========================================
@@ -114,11 +172,29 @@ const encryptField = (value: string | number | null | undefined, dek: string): s
 	return encrypt(String(value), dek)
 }
 
+/**
+ * DEKs that are being rotated out, keyed by their replacement. Registered by
+ * getUserDek while a user's rows are re-encrypted, so rows not yet moved to
+ * the new DEK still decrypt.
+ */
+const retiringDeks = new Map<string, string>()
+
+const setRetiringDek = (dek: string, retiringDek: string | null): void => {
+	if (retiringDek) retiringDeks.set(dek, retiringDek)
+	else retiringDeks.delete(dek)
+}
+
 /**
  * Decrypt a field value with a DEK. Returns null if value is null/undefined or decryption fails.
+ * Values that aren't ciphertext are returned as-is, so rows the encryption
+ * migration hasn't reached yet keep reading correctly.
  */
 const decryptField = (value: string | null | undefined, dek: string): string | null => {
 	if (!value) return null
+	if (!isEncrypted(value)) return value
+
+	const retiringDek = retiringDeks.get(dek)
+	if (retiringDek) return tryDecrypt(value, dek) ?? decrypt(value, retiringDek)
 	return decrypt(value, dek)
 }
 
@@ -134,26 +210,55 @@ const decryptNumericField = (value: string | null | undefined, dek: string): num
 
 /**
  * Check if a value looks like it's already encrypted (matches iv:ciphertext:authTag format).
- * Used for idempotency in migration scripts.
+ * Used for idempotency in migration scripts. The IV and auth tag have fixed
+ * lengths, which keeps notes like "entry:late:fomo" from passing as ciphertext.
  */
 const isEncrypted = (value: string | null | undefined): boolean => {
 	if (!value) return false
-	const parts = value.split(":")
-	if (parts.length !== 3) return false
-	// Check that each part looks like valid base64
-	const base64Regex = /^[A-Za-z0-9+/]+=*$/
-	return parts.every((part) => part.length > 0 && base64Regex.test(part))
+	return ENCRYPTED_VALUE_PATTERN.test(value)
+}
+
+// ==========================================
+// MIGRATION HELPERS
+// ==========================================
+
+/**
+ * Encrypt a stored value with its owner's DEK. Values that are already
+ * ciphertext are returned unchanged, so re-running a migration is a no-op.
+ */
+const encryptStoredValue = (value: string, dek: string): string =>
+	isEncrypted(value) ? value : encrypt(value, dek)
+
+/**
+ * Move a stored value from one DEK to another. Values already readable with
+ * the new DEK are returned unchanged; plaintext is encrypted with the new DEK.
+ */
+const reencryptStoredValue = (value: string, fromDek: string, toDek: string): string => {
+	if (!isEncrypted(value)) return encrypt(value, toDek)
+	if (tryDecrypt(value, toDek) !== null) return value
+
+	const plaintext = tryDecrypt(value, fromDek)
+	if (plaintext === null) throw new Error("Value is encrypted with neither the old nor the new DEK")
+	return encrypt(plaintext, toDek)
 }
 
 export {
+	ENCRYPTED_VALUE_PATTERN,
 	encrypt,
 	decrypt,
+	tryDecrypt,
 	generateKey,
 	getMasterKey,
+	getPreviousMasterKey,
+	isEncryptionConfigured,
 	encryptDek,
 	decryptDek,
+	rewrapDek,
+	setRetiringDek,
 	encryptField,
 	decryptField,
 	decryptNumericField,
 	isEncrypted,
+	encryptStoredValue,
+	reencryptStoredValue,
 }
@@ -1,6 +1,7 @@
 /**
  * CSV Parser Dispatcher
- * Selects the appropriate broker-specific parser based on broker name
+ * Selects the appropriate broker-specific parser based on broker name,
+ * or the column-mapping parser for user-defined import templates
  */
 
 import { parseClearCSV, validateClearCSV } from "./clear-parser"
@@ -62,7 +63,23 @@ export const validateStatementCSV = (
 }
 
 // Re-export functions and types
-export { groupExecutionsIntoTrades, createImportPreview, calculateRMetrics } from "./trade-grouping"
+export {
+	groupExecutionsIntoTrades,
+	createImportPreview,
+	calculateRMetrics,
+	parseExecutionTime,
+} from "./trade-grouping"
+export { parseMappedCSV, validateColumnMapping, readCsvTable, suggestColumnMapping } from "./mapped-parser"
 
 // Re-export types
-export type { RawExecution, GroupedTrade, ImportPreview, ImportResult } from "./types"
+export type {
+	RawExecution,
+	GroupedTrade,
+	OpenPosition,
+	ImportPreview,
+	ImportResult,
+	CsvColumnMapping,
+	CsvDateFormat,
+	ImportTemplate,
+} from "./types"
+export type { CsvTable } from "./mapped-parser"
@@ -0,0 +1,341 @@
+/**
+ * Column-Mapping CSV Parser
+ * Parses any execution-level CSV using a user-defined CsvColumnMapping instead of
+ * hard-coded broker headings. Output is the same RawExecution shape the built-in
+ * broker parsers produce, so grouping and import work unchanged.
+ */
+
+import type { CsvColumnMapping, CsvDateFormat, RawExecution } from "./types"
+
+/**
+ * Parsed CSV content: header names plus the data rows.
+ */
+export interface CsvTable {
+	delimiter: string
+	headers: string[]
+	rows: string[][]
+}
+
+/**
+ * Detect CSV delimiter by sampling first 5 lines
+ */
+const detectDelimiter = (csvContent: string): string => {
+	const lines = csvContent.split("\n").slice(0, 5)
+	const counts = [",", ";", "\t"].map((delimiter) => ({
+		delimiter,
+		count: lines.reduce((sum, line) => sum + line.split(delimiter).length - 1, 0),
+	}))
+
+	return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter
+}
+
+/**
+ * Parse CSV line handling quoted values
+ */
+const parseCSVLine = (line: string, delimiter: string): string[] => {
+	const result: string[] = []
+	let current = ""
+	let inQuotes = false
+
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i]
+		const nextChar = line[i + 1]
+
+		if (char === '"') {
+			if (inQuotes && nextChar === '"') {
+				current += '"'
+				i++
+			} else {
+				inQuotes = !inQuotes
+			}
+		} else if (char === delimiter && !inQuotes) {
+			result.push(current.trim())
+			current = ""
+		} else {
+			current += char
+		}
+	}
+
+	result.push(current.trim())
+	return result
+}
+
+/**
+ * Split CSV content into headers and rows.
+ * The first non-empty line is the header row.
+ */
+export const readCsvTable = (
+	csvContent: string,
+	delimiter: CsvColumnMapping["delimiter"] = "auto"
+): CsvTable => {
+	const resolvedDelimiter = delimiter === "auto" ? detectDelimiter(csvContent) : delimiter
+	const lines = csvContent
+		.replace(/^\uFEFF/, "")
+		.split("\n")
+		.map((line) => line.replace(/\r$/, ""))
+		.filter((line) => line.trim().length > 0)
+
+	if (lines.length === 0) {
+		return { delimiter: resolvedDelimiter, headers: [], rows: [] }
+	}
+
+	return {
+		delimiter: resolvedDelimiter,
+		headers: parseCSVLine(lines[0], resolvedDelimiter),
+		rows: lines.slice(1).map((line) => parseCSVLine(line, resolvedDelimiter)),
+	}
+}
+
+/**
+ * Parse a number using the mapping's decimal separator.
+ * Currency symbols, spaces and thousands separators are ignored; parentheses mean negative.
+ */
+const parseMappedNumber = (value: string, decimalSeparator: CsvColumnMapping["decimalSeparator"]): number => {
+	const trimmed = value.trim()
+	if (!trimmed || trimmed === "-") return 0
+
+	const isParenthesized = /^\(.*\)$/.test(trimmed)
+	const thousandsSeparator = decimalSeparator === "," ? "." : ","
+	const normalized = trimmed
+		.replace(/[()\s]/g, "")
+		.replace(/[^\d.,+-]/g, "")
+		.split(thousandsSeparator)
+		.join("")
+		.replace(decimalSeparator, ".")
+
+	const parsed = parseFloat(normalized)
+	if (Number.isNaN(parsed)) return Number.NaN
+	return isParenthesized ? -Math.abs(parsed) : parsed
+}
+
+const DATE_PATTERNS: Record<CsvDateFormat, RegExp> = {
+	"DD/MM/YYYY": /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/,
+	"MM/DD/YYYY": /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/,
+	"YYYY-MM-DD": /^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})/,
+	YYYYMMDD: /^(\d{4})(\d{2})(\d{2})/,
+}
+
+/**
+ * Convert a date cell to the DD/MM/YYYY form used by RawExecution.
+ * Returns null when the value does not match the configured format.
+ */
+const parseMappedDate = (value: string, dateFormat: CsvDateFormat): string | null => {
+	const match = value.trim().match(DATE_PATTERNS[dateFormat])
+	if (!match) return null
+
+	const [day, month, year] =
+		dateFormat === "DD/MM/YYYY"
+			? [match[1], match[2], match[3]]
+			: dateFormat === "MM/DD/YYYY"
+				? [match[2], match[1], match[3]]
+				: [match[3], match[2], match[1]]
+
+	const dayNumber = Number(day)
+	const monthNumber = Number(month)
+	if (monthNumber < 1 || monthNumber > 12 || dayNumber < 1 || dayNumber > 31) return null
+
+	return `${day.padStart(2, "0")}/${month.padStart(2, "0")}/${year}`
+}
+
+/**
+ * Time given to executions of date-only exports (e.g. IBKR Flex trade-date
+ * reports): the B3 session open. File order is kept within the day.
+ */
+export const DATE_ONLY_EXECUTION_TIME = "09:00:00"
+
+/**
+ * Convert a time cell (24h or 12h with AM/PM, optional seconds/fraction) to HH:MM:SS.
+ * When the date column also holds the time, the time part after the date is used.
+ */
+const parseMappedTime = (value: string): string | null => {
+	const match = value.trim().match(/(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[.,]\d+)?\s*([AaPp][Mm])?\s*$/)
+	if (!match) return null
+
+	let hour = Number(match[1])
+	const meridiem = match[4]?.toUpperCase()
+	if (meridiem === "PM" && hour < 12) hour += 12
+	if (meridiem === "AM" && hour === 12) hour = 0
+	if (hour > 23) return null
+
+	return `${String(hour).padStart(2, "0")}:${match[2]}:${match[3] ?? "00"}`
+}
+
+const normalizeToken = (value: string): string => value.trim().toUpperCase()
+
+/**
+ * Resolve the execution side from the side column or from the quantity sign.
+ */
+const parseMappedSide = (
+	sideValue: string | null,
+	signedQuantity: number,
+	encoding: CsvColumnMapping["sideEncoding"]
+): "BUY" | "SELL" | null => {
+	if (sideValue === null) {
+		if (signedQuantity === 0) return null
+		return signedQuantity > 0 ? "BUY" : "SELL"
+	}
+
+	const token = normalizeToken(sideValue)
+	if (encoding.buy.some((value) => normalizeToken(value) === token)) return "BUY"
+	if (encoding.sell.some((value) => normalizeToken(value) === token)) return "SELL"
+	return null
+}
+
+/**
+ * Check that every mapped column exists in the CSV headings.
+ * Returns { valid, error? } like the broker-specific validators.
+ */
+export const validateColumnMapping = (
+	headers: string[],
+	mapping: CsvColumnMapping
+): { valid: boolean; error?: string } => {
+	const { columns } = mapping
+	const required = [columns.date, columns.asset, columns.quantity, columns.price]
+	const optional = [columns.time, columns.side, ...columns.fees].filter(
+		(column): column is string => column !== null
+	)
+
+	for (const column of [...required, ...optional]) {
+		if (!column || !headers.includes(column)) {
+			return {
+				valid: false,
+				error: `imports.errors.missingRequiredColumn|${column}|${headers.join(", ")}`,
+			}
+		}
+	}
+
+	if (columns.side !== null && mapping.sideEncoding.buy.length + mapping.sideEncoding.sell.length === 0) {
+		return { valid: false, error: "imports.errors.missingSideEncoding" }
+	}
+
+	return { valid: true }
+}
+
+/**
+ * Parse a CSV statement with a user-defined column mapping.
+ * Rows that can't be read (bad date or time, unknown side, zero quantity/price) are
+ * skipped; when no time column is mapped and the date cell has no time, executions
+ * get DATE_ONLY_EXECUTION_TIME.
+ * throws when the mapping doesn't fit the file or nothing could be parsed.
+ *
+ * @param csvContent - Raw CSV text
+ * @param mapping - Column mapping (from the wizard or a saved template)
+ * @param brokerLabel - Label stored on each execution (template name or "CUSTOM")
+ */
+export const parseMappedCSV = (
+	csvContent: string,
+	mapping: CsvColumnMapping,
+	brokerLabel = "CUSTOM"
+): RawExecution[] => {
+	const { headers, rows } = readCsvTable(csvContent, mapping.delimiter)
+
+	if (rows.length === 0) {
+		throw new Error("imports.errors.csvMinRows")
+	}
+
+	const validation = validateColumnMapping(headers, mapping)
+	if (!validation.valid) {
+		throw new Error(validation.error)
+	}
+
+	const indexOf = (column: string) => headers.indexOf(column)
+	const { columns } = mapping
+	const executions: RawExecution[] = []
+
+	for (const values of rows) {
+		const cell = (column: string | null): string | null =>
+			column === null ? null : (values[indexOf(column)] ?? "")
+
+		const rawDate = cell(columns.date) ?? ""
+		const rawTime = cell(columns.time) ?? rawDate
+		const asset = normalizeToken(cell(columns.asset) ?? "")
+		const signedQuantity = parseMappedNumber(cell(columns.quantity) ?? "", mapping.decimalSeparator)
+		const price = parseMappedNumber(cell(columns.price) ?? "", mapping.decimalSeparator)
+		const commission = columns.fees.reduce((sum, column) => {
+			const fee = parseMappedNumber(cell(column) ?? "", mapping.decimalSeparator)
+			return Number.isNaN(fee) ? sum : sum + Math.abs(fee)
+		}, 0)
+
+		const date = parseMappedDate(rawDate, mapping.dateFormat)
+		// Without a time column a date-only cell means the export has no times
+		const time =
+			parseMappedTime(rawTime) ?? (columns.time === null ? DATE_ONLY_EXECUTION_TIME : null)
+		const side = parseMappedSide(cell(columns.side), signedQuantity, mapping.sideEncoding)
+		const quantity = Math.abs(signedQuantity)
+
+		// Skip rows without a usable execution (totals, cancelled orders, blank lines)
+		if (!date || !time || !asset || !side || !(quantity > 0) || !(price > 0)) {
+			continue
+		}
+
+		executions.push({
+			date,
+			time,
+			asset,
+			side,
+			quantity,
+			price,
+			commission,
+			broker: brokerLabel,
+			rawDate,
+			rawTime,
+		})
+	}
+
+	if (executions.length === 0) {
+		throw new Error("imports.errors.noValidExecutions")
+	}
+
+	return executions
+}
+
+const HEADER_HINTS: Record<"date" | "time" | "asset" | "side" | "quantity" | "price", string[]> = {
+	date: ["data", "date", "datetime", "date/time", "time stamp", "tradedate", "fill time", "open time"],
+	time: ["hora", "time", "horario", "exec time"],
+	asset: ["ativo", "asset", "symbol", "instrument", "ticker", "contract", "papel"],
+	side: ["tipo", "side", "c/v", "buy/sell", "action", "direction", "operacao", "natureza"],
+	quantity: ["quantidade", "qty", "qtd", "quantity", "contracts", "volume", "size", "filled qty"],
+	price: ["preco", "price", "fill price", "avg price", "avgprice", "tradeprice", "preco medio"],
+}
+
+const FEE_HINTS = ["corretagem", "commission", "comm", "fee", "fees", "taxa", "emolumentos", "ibcommission"]
+
+const normalizeHeader = (header: string): string =>
+	header.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim()
+
+/**
+ * Suggest a mapping for unknown headings by matching common names
+ * (Portuguese and English platforms). Unmatched fields are left empty for the user.
+ */
+export const suggestColumnMapping = (headers: string[]): CsvColumnMapping => {
+	const normalized = headers.map(normalizeHeader)
+	const used = new Set<number>()
+
+	const find = (hints: string[]): string | null => {
+		const index = normalized.findIndex((header, i) => !used.has(i) && hints.includes(header))
+		if (index < 0) return null
+		used.add(index)
+		return headers[index]
+	}
+
+	const date = find(HEADER_HINTS.date) ?? ""
+	const time = find(HEADER_HINTS.time)
+	const asset = find(HEADER_HINTS.asset) ?? ""
+	const side = find(HEADER_HINTS.side)
+	const quantity = find(HEADER_HINTS.quantity) ?? ""
+	const price = find(HEADER_HINTS.price) ?? ""
+	const fees = headers.filter(
+		(_, i) => !used.has(i) && FEE_HINTS.some((hint) => normalized[i].includes(hint))
+	)
+
+	return {
+		delimiter: "auto",
+		columns: { date, time, asset, side, quantity, price, fees },
+		dateFormat: "DD/MM/YYYY",
+		decimalSeparator: ",",
+		sideEncoding: {
+			buy: ["C", "COMPRA", "BUY", "B", "BOT", "LONG"],
+			sell: ["V", "VENDA", "SELL", "S", "SLD", "SHORT"],
+		},
+	}
+}
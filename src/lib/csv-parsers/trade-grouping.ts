@@ -9,6 +9,7 @@ import type {
 	GroupedExecutions,
 	GroupedTrade,
 	ImportPreview,
+	OpenPosition,
 } from "./types"
 
 /**
@@ -27,7 +28,7 @@ const calculateWeightedAveragePrice = (executions: RawExecution[]): number => {
 /**
  * Convert execution timestamp to Date object
  */
-const parseExecutionTime = (execution: RawExecution): Date => {
+export const parseExecutionTime = (execution: RawExecution): Date => {
 	// Format: "DD/MM/YYYY" and "HH:MM:SS"
 	const dateParts = execution.date.split("/")
 	const timeParts = execution.time.split(":")
@@ -67,16 +68,144 @@ const createGroupedExecutions = (
 	}
 }
 
+/**
+ * Trade being assembled: its own entries, or a carried open position, plus exits.
+ */
+interface TradeDraft {
+	asset: string
+	date: string
+	direction: "long" | "short"
+	entries: RawExecution[]
+	exits: RawExecution[]
+	carried: OpenPosition | null
+}
+
+const sumQuantity = (executions: RawExecution[]): number =>
+	executions.reduce((sum, ex) => sum + ex.quantity, 0)
+
+/**
+ * Contracts of a draft that are still open
+ */
+const getRemainingQuantity = (draft: TradeDraft): number => {
+	const openedQuantity = draft.carried ? draft.carried.remainingQuantity : sumQuantity(draft.entries)
+	return Math.max(0, openedQuantity - sumQuantity(draft.exits))
+}
+
+/**
+ * Split an execution in two, sharing its commission pro rata.
+ * Used when one fill closes a carried position and opens a new one.
+ */
+const splitExecution = (
+	execution: RawExecution,
+	quantity: number
+): [RawExecution, RawExecution] => {
+	const ratio = quantity / execution.quantity
+	return [
+		{ ...execution, quantity, commission: execution.commission * ratio },
+		{
+			...execution,
+			quantity: execution.quantity - quantity,
+			commission: execution.commission * (1 - ratio),
+		},
+	]
+}
+
+/**
+ * Entry side of a carried position: no executions in this file, only the
+ * stored remaining quantity and average price
+ */
+const createCarriedEntryGroup = (position: OpenPosition): GroupedExecutions => ({
+	executions: [],
+	totalQuantity: position.remainingQuantity,
+	weightedAveragePrice: position.averagePrice,
+	totalCommission: 0,
+	firstExecutionTime: position.openedAt,
+	lastExecutionTime: position.openedAt,
+})
+
+/**
+ * Build the final trade (prices, P&L, warnings) from a draft
+ */
+const buildGroupedTrade = (draft: TradeDraft): GroupedTrade => {
+	const entryGroup = draft.carried
+		? createCarriedEntryGroup(draft.carried)
+		: createGroupedExecutions(draft.entries)
+	const exitGroup = draft.exits.length > 0 ? createGroupedExecutions(draft.exits) : null
+	const direction = draft.direction
+
+	// Calculate P&L
+	const entryPrice = entryGroup.weightedAveragePrice
+	const exitPrice = exitGroup?.weightedAveragePrice ?? null
+
+	let grossPnl: number | null = null
+	if (exitPrice !== null) {
+		const tradedQuantity = Math.min(entryGroup.totalQuantity, exitGroup!.totalQuantity)
+		if (direction === "long") {
+			grossPnl = (exitPrice - entryPrice) * tradedQuantity
+		} else {
+			grossPnl = (entryPrice - exitPrice) * tradedQuantity
+		}
+	}
+
+	const totalCommission = entryGroup.totalCommission + (exitGroup?.totalCommission ?? 0)
+	const netPnl = grossPnl !== null ? grossPnl - totalCommission : null
+
+	// Generate warnings
+	const warnings: string[] = []
+
+	if (exitGroup && entryGroup.totalQuantity !== exitGroup.totalQuantity) {
+		const diff = Math.abs(entryGroup.totalQuantity - exitGroup.totalQuantity)
+		if (entryGroup.totalQuantity > exitGroup.totalQuantity) {
+			warnings.push(
+				`Partial exit: entered ${entryGroup.totalQuantity} contracts, exited ${exitGroup.totalQuantity} (${diff} remain open)`
+			)
+		} else {
+			warnings.push(
+				`Over-exit: entered ${entryGroup.totalQuantity} contracts, but exited ${exitGroup.totalQuantity}`
+			)
+		}
+	}
+
+	if (!exitGroup) {
+		warnings.push("Position still open (no exit found)")
+	}
+
+	return {
+		asset: draft.asset,
+		date: draft.date,
+		entryGroup,
+		exitGroup,
+		grossPnl,
+		netPnl,
+		direction,
+		entryPrice,
+		exitPrice,
+		entryQuantity: entryGroup.totalQuantity,
+		exitQuantity: exitGroup?.totalQuantity ?? null,
+		totalCommission,
+		status: exitGroup ? "closed" : "open",
+		remainingQuantity: getRemainingQuantity(draft),
+		continuesTradeId: draft.carried?.tradeId ?? null,
+		warnings,
+	}
+}
+
 /**
  * Group executions by (asset, date) and split into trades
  * Algorithm:
- * 1. Group all executions by asset + date
+ * 1. Group all executions by asset + date, processed in chronological order
  * 2. For each group, sort by time
- * 3. Identify entry side: first consecutive same-direction orders
- * 4. Identify exit side: remaining orders (opposite direction)
+ * 3. If the asset has an open position (from an earlier day in the file, or
+ *    `openPositions` stored by earlier imports), leading opposite-side orders close it first
+ * 4. Identify entry side: first consecutive same-direction orders
+ * 5. Identify exit side: remaining orders (opposite direction)
+ *
+ * @param executions - Parsed executions of the statement
+ * @param openPositions - Positions left open by earlier imports (oldest first per asset)
  */
 export const groupExecutionsIntoTrades = (
-	executions: RawExecution[]
+	executions: RawExecution[],
+	openPositions: OpenPosition[] = []
 ): GroupedTrade[] => {
 	if (executions.length === 0) return []
 
@@ -91,105 +220,96 @@ export const groupExecutionsIntoTrades = (
 		assetDateGroups.get(key)!.push(execution)
 	}
 
-	const trades: GroupedTrade[] = []
+	// Sort each group by time, then the groups by their first execution
+	const byTime = (a: RawExecution, b: RawExecution) =>
+		parseExecutionTime(a).getTime() - parseExecutionTime(b).getTime()
+	const groups = [...assetDateGroups.values()]
+		.map((groupExecutions) => [...groupExecutions].sort(byTime))
+		.sort((a, b) => byTime(a[0], b[0]))
+
+	// Open position per asset that later executions may close
+	const openByAsset: Map<string, TradeDraft> = new Map()
+	for (const position of openPositions) {
+		if (position.remainingQuantity > 0 && !openByAsset.has(position.asset)) {
+			openByAsset.set(position.asset, {
+				asset: position.asset,
+				date: "",
+				direction: position.direction,
+				entries: [],
+				exits: [],
+				carried: position,
+			})
+		}
+	}
+
+	const drafts: TradeDraft[] = []
 
 	// Process each asset-date group
-	for (const [, groupExecutions] of assetDateGroups) {
-		// Sort by time
-		const sorted = groupExecutions.sort((a, b) => {
-			const timeA = parseExecutionTime(a).getTime()
-			const timeB = parseExecutionTime(b).getTime()
-			return timeA - timeB
-		})
-
-		// Determine entry and exit sides
-		let entryExecutions: RawExecution[] = []
-		let exitExecutions: RawExecution[] = []
-
-		// First execution determines direction
-		if (sorted.length > 0) {
-			const firstSide = sorted[0].side
-
-			// Collect consecutive executions with same side as entry
-			let i = 0
-			while (i < sorted.length && sorted[i].side === firstSide) {
-				entryExecutions.push(sorted[i])
-				i++
+	for (const sorted of groups) {
+		const asset = sorted[0].asset
+		let i = 0
+
+		// Close the carried position with the leading opposite-side orders
+		const open = openByAsset.get(asset)
+		if (open) {
+			const closingSide = open.direction === "long" ? "SELL" : "BUY"
+			while (i < sorted.length && sorted[i].side === closingSide && getRemainingQuantity(open) > 0) {
+				const remaining = getRemainingQuantity(open)
+				if (sorted[i].quantity <= remaining) {
+					open.exits.push(sorted[i])
+					i++
+				} else {
+					// Reversal: part of the fill closes, the rest opens the next trade
+					const [closing, rest] = splitExecution(sorted[i], remaining)
+					open.exits.push(closing)
+					sorted[i] = rest
+				}
 			}
 
-			// Rest are exits (if any)
-			while (i < sorted.length) {
-				exitExecutions.push(sorted[i])
-				i++
+			if (open.exits.length > 0 && !drafts.includes(open)) {
+				if (open.carried) open.date = sorted[0].date
+				drafts.push(open)
+			}
+			if (getRemainingQuantity(open) === 0) {
+				openByAsset.delete(asset)
 			}
 		}
 
-		// Skip if no entry
-		if (entryExecutions.length === 0) continue
-
-		// Build trade
-		const entryGroup = createGroupedExecutions(entryExecutions)
-		const exitGroup = exitExecutions.length > 0 ? createGroupedExecutions(exitExecutions) : null
-
-		// Determine direction based on first execution
-		const direction: "long" | "short" = entryExecutions[0].side === "BUY" ? "long" : "short"
+		if (i >= sorted.length) continue
 
-		// Calculate P&L
-		const entryPrice = entryGroup.weightedAveragePrice
-		const exitPrice = exitGroup?.weightedAveragePrice ?? null
-
-		let grossPnl: number | null = null
-		if (exitPrice !== null) {
-			const tradedQuantity = Math.min(entryGroup.totalQuantity, exitGroup!.totalQuantity)
-			if (direction === "long") {
-				grossPnl = (exitPrice - entryPrice) * tradedQuantity
-			} else {
-				grossPnl = (entryPrice - exitPrice) * tradedQuantity
-			}
+		// First execution determines direction
+		const firstSide = sorted[i].side
+		const entryExecutions: RawExecution[] = []
+		const exitExecutions: RawExecution[] = []
+
+		// Collect consecutive executions with same side as entry
+		while (i < sorted.length && sorted[i].side === firstSide) {
+			entryExecutions.push(sorted[i])
+			i++
 		}
 
-		const totalCommission = entryGroup.totalCommission + (exitGroup?.totalCommission ?? 0)
-		const netPnl = grossPnl !== null ? grossPnl - totalCommission : null
-
-		// Generate warnings
-		const warnings: string[] = []
-
-		if (exitGroup && entryGroup.totalQuantity !== exitGroup.totalQuantity) {
-			const diff = Math.abs(entryGroup.totalQuantity - exitGroup.totalQuantity)
-			if (entryGroup.totalQuantity > exitGroup.totalQuantity) {
-				warnings.push(
-					`Partial exit: entered ${entryGroup.totalQuantity} contracts, exited ${exitGroup.totalQuantity} (${diff} remain open)`
-				)
-			} else {
-				warnings.push(
-					`Over-exit: entered ${entryGroup.totalQuantity} contracts, but exited ${exitGroup.totalQuantity}`
-				)
-			}
+		// Rest are exits (if any)
+		while (i < sorted.length) {
+			exitExecutions.push(sorted[i])
+			i++
 		}
 
-		if (!exitGroup) {
-			warnings.push("Position still open (no exit found)")
+		const draft: TradeDraft = {
+			asset,
+			date: entryExecutions[0].date,
+			direction: firstSide === "BUY" ? "long" : "short",
+			entries: entryExecutions,
+			exits: exitExecutions,
+			carried: null,
 		}
+		drafts.push(draft)
 
-		trades.push({
-			asset: groupExecutions[0].asset,
-			date: groupExecutions[0].date,
-			entryGroup,
-			exitGroup,
-			grossPnl,
-			netPnl,
-			direction,
-			entryPrice,
-			exitPrice,
-			entryQuantity: entryGroup.totalQuantity,
-			exitQuantity: exitGroup?.totalQuantity ?? null,
-			totalCommission,
-			status: exitGroup ? "closed" : "open",
-			warnings,
-		})
+		if (getRemainingQuantity(draft) > 0 && !openByAsset.has(asset)) {
+			openByAsset.set(asset, draft)
+		}
 	}
 
-	return trades
+	return drafts.map(buildGroupedTrade)
 }
 
 /**
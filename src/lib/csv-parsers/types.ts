@@ -17,7 +17,7 @@ export interface RawExecution {
 	quantity: number // Exact number of contracts
 	price: number // Exact price per contract
 	commission: number // Exact brokerage fee
-	broker: "CLEAR" | "XP" | "GENIAL"
+	broker: string // Built-in broker code ("CLEAR", "XP", "GENIAL") or the import template name
 	// Raw original values (for debugging)
 	rawDate?: string
 	rawTime?: string
@@ -54,9 +54,24 @@ export interface GroupedTrade {
 	exitQuantity: number | null
 	totalCommission: number // entry + exit commissions
 	status: "open" | "closed" // open if no exit, closed if exit exists
+	remainingQuantity: number // Contracts still open after the exits (0 when flat)
+	continuesTradeId: string | null // Existing trade this closes (carried open position), null for new trades
 	warnings: string[] // e.g., ["Partial exit: entered 100, exited 50"]
 }
 
+/**
+ * Position left open by an earlier import or manual trade.
+ * Exits in a later statement continue the stored trade instead of opening a new one.
+ */
+export interface OpenPosition {
+	tradeId: string
+	asset: string
+	direction: "long" | "short"
+	remainingQuantity: number
+	averagePrice: number // Weighted average entry price of the open contracts
+	openedAt: Date
+}
+
 /**
  * Preview data shown to user before confirming import.
  * Allows review of detected trades and warnings.
@@ -81,6 +96,7 @@ export interface ImportResult {
 	success: boolean
 	importId: string
 	importedTradesCount: number
+	continuedTradesCount?: number // Carried open positions closed by this import
 	duplicates?: number
 	failedCount?: number
 	errors?: Array<{
@@ -88,3 +104,43 @@ export interface ImportResult {
 		message: string
 	}>
 }
+
+/**
+ * Date layouts supported by the column-mapping importer.
+ */
+export type CsvDateFormat = "DD/MM/YYYY" | "MM/DD/YYYY" | "YYYY-MM-DD" | "YYYYMMDD"
+
+/**
+ * User-defined mapping from arbitrary CSV headings to RawExecution fields.
+ * Saved per user as an import template so other platforms (Tryd, MetaTrader,
+ * NinjaTrader, Tradovate, IBKR Flex...) can be imported without a dedicated parser.
+ */
+export interface CsvColumnMapping {
+	delimiter: "," | ";" | "\t" | "auto"
+	columns: {
+		date: string // May also hold the time ("2026-02-25 09:15:30")
+		time: string | null // null when the date column carries the time
+		asset: string
+		side: string | null // null when the side is the sign of the quantity
+		quantity: string
+		price: string
+		fees: string[] // Summed into the execution commission
+	}
+	dateFormat: CsvDateFormat
+	decimalSeparator: "," | "."
+	sideEncoding: {
+		buy: string[] // Case-insensitive values meaning BUY (e.g. "C", "Buy", "BOT")
+		sell: string[] // Case-insensitive values meaning SELL (e.g. "V", "Sell", "SLD")
+	}
+}
+
+/**
+ * Saved column mapping, selectable next to the built-in brokers.
+ */
+export interface ImportTemplate {
+	id: string
+	name: string
+	mapping: CsvColumnMapping
+	createdAt: Date
+	updatedAt: Date
+}
@@ -0,0 +1,86 @@
+/**
+ * Encryption coverage report for the admin status tab: how many rows of each
+ * registered table are fully ciphertext, how many still hold plaintext, plus
+ * DEK counts and the latest maintenance jobs.
+ */
+
+import { desc, or, sql, type SQL } from "drizzle-orm"
+import { db } from "@/db/drizzle"
+import { encryptionJobs, users } from "@/db/schema"
+import {
+	ENCRYPTED_VALUE_PATTERN,
+	getPreviousMasterKey,
+	isEncryptionConfigured,
+} from "@/lib/crypto"
+import type {
+	EncryptionJobKind,
+	EncryptionJobStatus,
+	EncryptionStatus,
+	TableEncryptionCoverage,
+} from "@/types/encryption"
+import { ENCRYPTED_TABLES, type EncryptedTableSpec } from "./tables"
+
+const RECENT_JOBS_LIMIT = 10
+
+const getTableCoverage = async (spec: EncryptedTableSpec): Promise<TableEncryptionCoverage> => {
+	const columns = Object.values(spec.columns)
+	// `!~` is null for null values, so only non-null plaintext counts
+	const hasPlaintext =
+		spec.hasPlaintext ??
+		(or(...columns.map((column) => sql`${column} !~ ${ENCRYPTED_VALUE_PATTERN.source}`)) as SQL)
+	const isEmpty = sql`coalesce(${sql.join(columns, sql`, `)}) is null`
+
+	const [row] = await db
+		.select({
+			totalRows: sql<number>`count(*)::int`,
+			plaintextRows: sql<number>`count(*) filter (where ${hasPlaintext})::int`,
+			emptyRows: sql<number>`count(*) filter (where ${isEmpty})::int`,
+		})
+		.from(spec.table)
+
+	return {
+		table: spec.name,
+		totalRows: row.totalRows,
+		encryptedRows: row.totalRows - row.plaintextRows - row.emptyRows,
+		plaintextRows: row.plaintextRows,
+		emptyRows: row.emptyRows,
+	}
+}
+
+const getEncryptionStatus = async (): Promise<EncryptionStatus> => {
+	const [tables, [userCounts], jobs] = await Promise.all([
+		Promise.all(ENCRYPTED_TABLES.map(getTableCoverage)),
+		db
+			.select({
+				total: sql<number>`count(*)::int`,
+				withDek: sql<number>`count(${users.encryptedDek})::int`,
+				rotatingDek: sql<number>`count(${users.pendingEncryptedDek})::int`,
+			})
+			.from(users),
+		db.query.encryptionJobs.findMany({
+			orderBy: [desc(encryptionJobs.startedAt)],
+			limit: RECENT_JOBS_LIMIT,
+		}),
+	])
+
+	return {
+		configured: isEncryptionConfigured(),
+		masterKeyRotationPending: getPreviousMasterKey() !== null,
+		users: userCounts,
+		tables,
+		jobs: jobs.map((job) => ({
+			id: job.id,
+			kind: job.kind as EncryptionJobKind,
+			userId: job.userId,
+			status: job.status as EncryptionJobStatus,
+			cursorTable: job.cursorTable,
+			rowsScanned: job.rowsScanned,
+			rowsUpdated: job.rowsUpdated,
+			error: job.error,
+			startedAt: job.startedAt,
+			completedAt: job.completedAt,
+		})),
+	}
+}
+
+export { getEncryptionStatus }
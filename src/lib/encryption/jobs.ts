@@ -0,0 +1,391 @@
+/**
+ * Resumable encryption maintenance jobs, run from the scripts/ entry points.
+ *
+ * Each run is recorded in encryption_jobs. After every batch the job stores
+ * the table and last row id it reached, so re-running the same script after
+ * a crash or timeout picks up from there instead of starting over. Row
+ * updates are conditional on the values read, so a concurrent write from the
+ * app is never overwritten; the row is re-read and processed again instead.
+ */
+
+import { and, asc, desc, eq, gt, isNull, isNotNull, sql, type SQL } from "drizzle-orm"
+import { db } from "@/db/drizzle"
+import { encryptionJobs, users, type EncryptionJobRow } from "@/db/schema"
+import {
+	decryptDek,
+	encryptDek,
+	encryptStoredValue,
+	generateKey,
+	getMasterKey,
+	reencryptStoredValue,
+	rewrapDek,
+} from "@/lib/crypto"
+import type { EncryptionJobKind } from "@/types/encryption"
+import { ENCRYPTED_TABLES, type EncryptedTableSpec } from "./tables"
+
+const BATCH_SIZE = 100
+const MAX_ROW_ATTEMPTS = 3
+
+type ProgressLogger = (message: string) => void
+
+/** Rewrites one stored value for the row's owner; returns the value unchanged to skip it */
+type ValueTransform = (value: string, ownerId: string) => string | Promise<string>
+
+interface JobCounters {
+	rowsScanned: number
+	rowsUpdated: number
+}
+
+interface ScannedRow {
+	id: string
+	ownerId: string | null
+	values: Record<string, string | null>
+}
+
+// ==========================================
+// JOB BOOKKEEPING
+// ==========================================
+
+/** Resume the unfinished run of this job, or start a new one */
+const startOrResumeJob = async (
+	kind: EncryptionJobKind,
+	userId: string | null,
+	log: ProgressLogger
+): Promise<EncryptionJobRow> => {
+	const existing = await db.query.encryptionJobs.findFirst({
+		where: and(
+			eq(encryptionJobs.kind, kind),
+			userId ? eq(encryptionJobs.userId, userId) : isNull(encryptionJobs.userId),
+			sql`${encryptionJobs.status} <> 'completed'`
+		),
+		orderBy: [desc(encryptionJobs.startedAt)],
+	})
+
+	if (existing) {
+		log(`Resuming ${kind} job ${existing.id} from ${existing.cursorTable ?? "the start"}`)
+		const [resumed] = await db
+			.update(encryptionJobs)
+			.set({ status: "running", error: null, updatedAt: new Date() })
+			.where(eq(encryptionJobs.id, existing.id))
+			.returning()
+		return resumed
+	}
+
+	const [created] = await db.insert(encryptionJobs).values({ kind, userId }).returning()
+	log(`Started ${kind} job ${created.id}`)
+	return created
+}
+
+const saveProgress = async (
+	jobId: string,
+	cursorTable: string,
+	cursorId: string | null,
+	counters: JobCounters
+): Promise<void> => {
+	await db
+		.update(encryptionJobs)
+		.set({ cursorTable, cursorId, ...counters, updatedAt: new Date() })
+		.where(eq(encryptionJobs.id, jobId))
+}
+
+const finishJob = async (jobId: string, counters: JobCounters): Promise<void> => {
+	const now = new Date()
+	await db
+		.update(encryptionJobs)
+		.set({ status: "completed", ...counters, updatedAt: now, completedAt: now })
+		.where(eq(encryptionJobs.id, jobId))
+}
+
+const failJob = async (jobId: string, error: unknown): Promise<void> => {
+	await db
+		.update(encryptionJobs)
+		.set({
+			status: "failed",
+			error: error instanceof Error ? error.message : String(error),
+			updatedAt: new Date(),
+		})
+		.where(eq(encryptionJobs.id, jobId))
+}
+
+/** Runs a job body, recording a failure before rethrowing */
+const runJob = async (
+	job: EncryptionJobRow,
+	body: (counters: JobCounters) => Promise<void>
+): Promise<JobCounters> => {
+	const counters: JobCounters = { rowsScanned: job.rowsScanned, rowsUpdated: job.rowsUpdated }
+	try {
+		await body(counters)
+		await finishJob(job.id, counters)
+		return counters
+	} catch (error) {
+		await failJob(job.id, error)
+		throw error
+	}
+}
+
+// ==========================================
+// TABLE SCAN
+// ==========================================
+
+const selectRows = async (spec: EncryptedTableSpec, conditions: SQL[]): Promise<ScannedRow[]> => {
+	const rows = await db
+		.select({ id: spec.id, ownerId: spec.owner, ...spec.columns })
+		.from(spec.table)
+		.where(and(...conditions))
+		.orderBy(asc(spec.id))
+		.limit(BATCH_SIZE)
+
+	return rows.map((row) => {
+		const { id, ownerId, ...values } = row as Record<string, unknown>
+		return {
+			id: String(id),
+			ownerId: ownerId === null ? null : String(ownerId),
+			values: values as Record<string, string | null>,
+		}
+	})
+}
+
+/**
+ * Applies the transform to one row. The update only lands if the row still
+ * holds the values that were read; otherwise it is re-read and tried again.
+ */
+const processRow = async (
+	spec: EncryptedTableSpec,
+	initial: ScannedRow,
+	transform: ValueTransform
+): Promise<boolean> => {
+	let row: ScannedRow | undefined = initial
+
+	for (let attempt = 0; attempt < MAX_ROW_ATTEMPTS && row?.ownerId; attempt++) {
+		const ownerId: string = row.ownerId
+		const changes: Record<string, string> = {}
+		for (const [key, value] of Object.entries(row.values)) {
+			if (value === null) continue
+			const next = spec.mapNestedValues
+				? await spec.mapNestedValues(value, (nested) => transform(nested, ownerId))
+				: await transform(value, ownerId)
+			if (next !== value) changes[key] = next
+		}
+		if (Object.keys(changes).length === 0) return false
+
+		const unchanged = Object.entries(row.values).map(([key, value]) =>
+			value === null ? isNull(spec.columns[key]) : eq(spec.columns[key], value)
+		)
+		const updated = await db
+			.update(spec.table)
+			.set(changes)
+			.where(and(eq(spec.id, row.id), ...unchanged))
+			.returning({ id: spec.id })
+		if (updated.length > 0) return true
+
+		;[row] = await selectRows(spec, [eq(spec.id, row.id)])
+	}
+
+	if (row?.ownerId) throw new Error(`${spec.name} row ${row.id} kept changing; re-run the job`)
+	return false
+}
+
+/**
+ * Walks every table in registry order, starting from the job's cursor.
+ * `ownerId` limits the scan to one user's rows.
+ */
+const scanTables = async (
+	job: EncryptionJobRow,
+	counters: JobCounters,
+	transform: ValueTransform,
+	log: ProgressLogger,
+	ownerId?: string
+): Promise<void> => {
+	const startIndex = job.cursorTable
+		? Math.max(ENCRYPTED_TABLES.findIndex((spec) => spec.name === job.cursorTable), 0)
+		: 0
+
+	for (const spec of ENCRYPTED_TABLES.slice(startIndex)) {
+		let lastId = spec.name === job.cursorTable ? job.cursorId : null
+		let tableUpdated = 0
+
+		while (true) {
+			const conditions: SQL[] = []
+			if (lastId) conditions.push(gt(spec.id, lastId))
+			if (ownerId) conditions.push(sql`${spec.owner} = ${ownerId}`)
+
+			const batch = await selectRows(spec, conditions)
+			if (batch.length === 0) break
+
+			for (const row of batch) {
+				if (await processRow(spec, row, transform)) {
+					counters.rowsUpdated++
+					tableUpdated++
+				}
+			}
+			counters.rowsScanned += batch.length
+			lastId = batch[batch.length - 1].id
+			await saveProgress(job.id, spec.name, lastId, counters)
+		}
+
+		log(`${spec.name}: ${tableUpdated} rows updated`)
+		await saveProgress(job.id, spec.name, lastId, counters)
+	}
+}
+
+// ==========================================
+// USER KEYS
+// ==========================================
+
+/**
+ * Memoized lookup of the DEK new ciphertext should use for a user: the pending
+ * one while a DEK rotation is running, so the rotation doesn't redo the row.
+ */
+const createDekResolver = () => {
+	const cache = new Map<string, string | null>()
+
+	return async (userId: string): Promise<string | null> => {
+		if (cache.has(userId)) return cache.get(userId) ?? null
+
+		const user = await db.query.users.findFirst({
+			where: eq(users.id, userId),
+			columns: { encryptedDek: true, pendingEncryptedDek: true },
+		})
+		const wrapped = user?.pendingEncryptedDek ?? user?.encryptedDek
+		const dek = wrapped ? decryptDek(wrapped) : null
+		cache.set(userId, dek)
+		return dek
+	}
+}
+
+/** Issues a DEK to every user that doesn't have one yet */
+const issueMissingDeks = async (log: ProgressLogger): Promise<number> => {
+	const usersWithoutDek = await db.query.users.findMany({
+		where: isNull(users.encryptedDek),
+		columns: { id: true },
+	})
+
+	for (const user of usersWithoutDek) {
+		await db
+			.update(users)
+			.set({ encryptedDek: encryptDek(generateKey()) })
+			.where(and(eq(users.id, user.id), isNull(users.encryptedDek)))
+	}
+
+	log(`Issued DEKs to ${usersWithoutDek.length} users`)
+	return usersWithoutDek.length
+}
+
+// ==========================================
+// JOBS
+// ==========================================
+
+/**
+ * Encrypts every plaintext value in the registered tables with its owner's DEK,
+ * issuing DEKs to users that predate encryption first.
+ */
+const runEncryptDataJob = async (log: ProgressLogger): Promise<JobCounters> => {
+	getMasterKey()
+	const job = await startOrResumeJob("encrypt_data", null, log)
+
+	return runJob(job, async (counters) => {
+		await issueMissingDeks(log)
+
+		const resolveDek = createDekResolver()
+
+		await scanTables(
+			job,
+			counters,
+			async (value, ownerId) => {
+				const dek = await resolveDek(ownerId)
+				if (!dek) throw new Error(`Could not unwrap the DEK of user ${ownerId}`)
+				return encryptStoredValue(value, dek)
+			},
+			log
+		)
+	})
+}
+
+/**
+ * Re-wraps every stored DEK (current and pending) with ENCRYPTION_MASTER_KEY.
+ * Run after moving the old key to ENCRYPTION_MASTER_KEY_PREVIOUS; encrypted
+ * data is not touched.
+ */
+const runRotateMasterKeyJob = async (log: ProgressLogger): Promise<JobCounters> => {
+	getMasterKey()
+	const job = await startOrResumeJob("rotate_master_key", null, log)
+
+	return runJob(job, async (counters) => {
+		let lastId = job.cursorTable === "users" ? job.cursorId : null
+
+		while (true) {
+			const batch = await db.query.users.findMany({
+				where: and(isNotNull(users.encryptedDek), lastId ? gt(users.id, lastId) : undefined),
+				columns: { id: true, encryptedDek: true, pendingEncryptedDek: true },
+				orderBy: [asc(users.id)],
+				limit: BATCH_SIZE,
+			})
+			if (batch.length === 0) break
+
+			for (const user of batch) {
+				const current = user.encryptedDek ? rewrapDek(user.encryptedDek) : null
+				const pending = user.pendingEncryptedDek ? rewrapDek(user.pendingEncryptedDek) : null
+				if (!current && !pending) continue
+
+				await db
+					.update(users)
+					.set({
+						...(current && { encryptedDek: current.encryptedDek }),
+						...(pending && { pendingEncryptedDek: pending.encryptedDek }),
+					})
+					.where(eq(users.id, user.id))
+				counters.rowsUpdated++
+			}
+
+			counters.rowsScanned += batch.length
+			lastId = batch[batch.length - 1].id
+			await saveProgress(job.id, "users", lastId, counters)
+		}
+
+		log(`users: ${counters.rowsUpdated} DEKs re-wrapped`)
+	})
+}
+
+/**
+ * Moves one user's data onto a freshly generated DEK. The new DEK is stored as
+ * pending first, so the app writes with it (and reads with both) while rows
+ * are re-encrypted; it replaces the old DEK once every row has moved.
+ */
+const runRotateDekJob = async (userId: string, log: ProgressLogger): Promise<JobCounters> => {
+	getMasterKey()
+	const user = await db.query.users.findFirst({
+		where: eq(users.id, userId),
+		columns: { encryptedDek: true, pendingEncryptedDek: true },
+	})
+	if (!user?.encryptedDek) {
+		throw new Error(`User ${userId} has no DEK; run the encrypt-data job first`)
+	}
+
+	const resumed = await startOrResumeJob("rotate_dek", userId, log)
+
+	// A fresh pending DEK means no row uses it yet, whatever the cursor says
+	// (e.g. a run that swapped keys but died before being marked complete)
+	const job = user.pendingEncryptedDek ? resumed : { ...resumed, cursorTable: null, cursorId: null }
+
+	return runJob(job, async (counters) => {
+		let pendingEncryptedDek = user.pendingEncryptedDek
+		if (!pendingEncryptedDek) {
+			pendingEncryptedDek = encryptDek(generateKey())
+			await db.update(users).set({ pendingEncryptedDek }).where(eq(users.id, userId))
+		}
+
+		const oldDek = decryptDek(user.encryptedDek as string)
+		const newDek = decryptDek(pendingEncryptedDek)
+		if (!oldDek || !newDek) throw new Error(`Could not unwrap the DEKs of user ${userId}`)
+
+		await scanTables(job, counters, (value) => reencryptStoredValue(value, oldDek, newDek), log, userId)
+
+		await db
+			.update(users)
+			.set({ encryptedDek: pendingEncryptedDek, pendingEncryptedDek: null })
+			.where(eq(users.id, userId))
+		log(`User ${userId} now uses the new DEK`)
+	})
+}
+
+export { runEncryptDataJob, runRotateMasterKeyJob, runRotateDekJob, type ProgressLogger }
@@ -0,0 +1,244 @@
+/**
+ * Registry of the tables holding per-user encrypted columns. The column lists
+ * mirror the encrypt/decrypt helpers in lib/user-crypto.ts; jobs and the
+ * coverage report walk the tables in this order.
+ *
+ * daily_journals is left out: its rows have no owner to take a DEK from.
+ */
+
+import { sql, type SQL } from "drizzle-orm"
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core"
+import {
+	dailyAccountNotes,
+	importBatches,
+	importBatchTradeSnapshots,
+	monthlyPlans,
+	openPositions,
+	propEvaluations,
+	propRuleSets,
+	taxLedgerEntries,
+	tradeExecutions,
+	trades,
+	tradingAccounts,
+} from "@/db/schema"
+import { ENCRYPTED_VALUE_PATTERN } from "@/lib/crypto"
+import type { EncryptedTableName } from "@/types/encryption"
+
+type NestedValueTransform = (value: string) => string | Promise<string>
+
+interface EncryptedTableSpec {
+	name: EncryptedTableName
+	table: PgTable
+	id: AnyPgColumn
+	/** Encrypted columns keyed by schema property */
+	columns: Record<string, AnyPgColumn>
+	/** The owning user's id as text, evaluated against the current row */
+	owner: SQL<string | null>
+	/**
+	 * For JSON columns that nest stored values: applies the transform to each
+	 * nested encrypted value and returns the rewritten JSON
+	 */
+	mapNestedValues?: (json: string, transform: NestedValueTransform) => Promise<string>
+	/** Coverage condition for rows still holding plaintext, when a column-wide match can't tell */
+	hasPlaintext?: SQL
+}
+
+/** Owner of a row that points at a trading account */
+const accountOwner = (accountId: AnyPgColumn): SQL<string | null> =>
+	sql<string | null>`(select ${tradingAccounts.userId}::text from ${tradingAccounts} where ${tradingAccounts.id} = ${accountId})`
+
+const TRADE_COLUMNS = {
+	pnl: trades.pnl,
+	plannedRiskAmount: trades.plannedRiskAmount,
+	commission: trades.commission,
+	fees: trades.fees,
+	entryPrice: trades.entryPrice,
+	exitPrice: trades.exitPrice,
+	positionSize: trades.positionSize,
+	stopLoss: trades.stopLoss,
+	takeProfit: trades.takeProfit,
+	plannedRMultiple: trades.plannedRMultiple,
+	preTradeThoughts: trades.preTradeThoughts,
+	postTradeReflection: trades.postTradeReflection,
+	lessonLearned: trades.lessonLearned,
+	disciplineNotes: trades.disciplineNotes,
+}
+
+const EXECUTION_COLUMNS = {
+	price: tradeExecutions.price,
+	quantity: tradeExecutions.quantity,
+	commission: tradeExecutions.commission,
+	fees: tradeExecutions.fees,
+	slippage: tradeExecutions.slippage,
+	executionValue: tradeExecutions.executionValue,
+}
+
+const mapNestedFields = async (
+	record: Record<string, unknown>,
+	fields: string[],
+	transform: NestedValueTransform
+): Promise<Record<string, unknown>> => {
+	const mapped = { ...record }
+	for (const field of fields) {
+		const value = record[field]
+		if (typeof value === "string") mapped[field] = await transform(value)
+	}
+	return mapped
+}
+
+/**
+ * Import batch snapshots copy trade and execution values exactly as stored
+ * (see lib/import-batches.ts), so they hold the same ciphertext and must move
+ * with it when data is encrypted or a DEK is rotated.
+ */
+const mapTradeSnapshotValues = async (json: string, transform: NestedValueTransform): Promise<string> => {
+	const snapshot = JSON.parse(json) as { trade: Record<string, unknown>; executions: Record<string, unknown>[] }
+	const executions = []
+	for (const execution of snapshot.executions) {
+		executions.push(await mapNestedFields(execution, Object.keys(EXECUTION_COLUMNS), transform))
+	}
+	return JSON.stringify({
+		...snapshot,
+		trade: await mapNestedFields(snapshot.trade, Object.keys(TRADE_COLUMNS), transform),
+		executions,
+	})
+}
+
+/** Any nested trade or execution value in the snapshot that isn't ciphertext */
+const snapshotHasPlaintext = (snapshot: AnyPgColumn): SQL => {
+	const keyList = (columns: Record<string, AnyPgColumn>) =>
+		sql.join(
+			Object.keys(columns).map((key) => sql`${key}`),
+			sql`, `
+		)
+	const tradePlaintext = sql`exists (select 1 from jsonb_each_text(${snapshot}::jsonb -> 'trade') f where f.key in (${keyList(TRADE_COLUMNS)}) and f.value !~ ${ENCRYPTED_VALUE_PATTERN.source})`
+	const executionPlaintext = sql`exists (select 1 from jsonb_array_elements(${snapshot}::jsonb -> 'executions') e, jsonb_each_text(e) f where f.key in (${keyList(EXECUTION_COLUMNS)}) and f.value !~ ${ENCRYPTED_VALUE_PATTERN.source})`
+	return sql`(${tradePlaintext} or ${executionPlaintext})`
+}
+
+const ENCRYPTED_TABLES: EncryptedTableSpec[] = [
+	{
+		name: "trading_accounts",
+		table: tradingAccounts,
+		id: tradingAccounts.id,
+		columns: {
+			dayTradeTaxRate: tradingAccounts.dayTradeTaxRate,
+			swingTradeTaxRate: tradingAccounts.swingTradeTaxRate,
+			profitSharePercentage: tradingAccounts.profitSharePercentage,
+			defaultCommission: tradingAccounts.defaultCommission,
+			defaultFees: tradingAccounts.defaultFees,
+			maxDailyLoss: tradingAccounts.maxDailyLoss,
+			maxMonthlyLoss: tradingAccounts.maxMonthlyLoss,
+			propFirmName: tradingAccounts.propFirmName,
+		},
+		owner: sql<string | null>`${tradingAccounts.userId}::text`,
+	},
+	{
+		name: "trades",
+		table: trades,
+		id: trades.id,
+		columns: TRADE_COLUMNS,
+		owner: accountOwner(trades.accountId),
+	},
+	{
+		name: "trade_executions",
+		table: tradeExecutions,
+		id: tradeExecutions.id,
+		columns: EXECUTION_COLUMNS,
+		owner: sql<string | null>`(select ${tradingAccounts.userId}::text from ${trades} inner join ${tradingAccounts} on ${tradingAccounts.id} = ${trades.accountId} where ${trades.id} = ${tradeExecutions.tradeId})`,
+	},
+	{
+		name: "monthly_plans",
+		table: monthlyPlans,
+		id: monthlyPlans.id,
+		columns: {
+			accountBalance: monthlyPlans.accountBalance,
+			riskPerTradeCents: monthlyPlans.riskPerTradeCents,
+			dailyLossCents: monthlyPlans.dailyLossCents,
+			monthlyLossCents: monthlyPlans.monthlyLossCents,
+			weeklyLossCents: monthlyPlans.weeklyLossCents,
+		},
+		owner: accountOwner(monthlyPlans.accountId),
+	},
+	{
+		name: "daily_account_notes",
+		table: dailyAccountNotes,
+		id: dailyAccountNotes.id,
+		columns: {
+			preMarketNotes: dailyAccountNotes.preMarketNotes,
+			postMarketNotes: dailyAccountNotes.postMarketNotes,
+		},
+		owner: sql<string | null>`${dailyAccountNotes.userId}`,
+	},
+	{
+		name: "import_batch_trade_snapshots",
+		table: importBatchTradeSnapshots,
+		id: importBatchTradeSnapshots.id,
+		columns: {
+			snapshot: importBatchTradeSnapshots.snapshot,
+		},
+		owner: sql<string | null>`(select ${importBatches.userId}::text from ${importBatches} where ${importBatches.id} = ${importBatchTradeSnapshots.importBatchId})`,
+		mapNestedValues: mapTradeSnapshotValues,
+		hasPlaintext: snapshotHasPlaintext(importBatchTradeSnapshots.snapshot),
+	},
+	{
+		name: "open_positions",
+		table: openPositions,
+		id: openPositions.id,
+		columns: {
+			remainingQuantity: openPositions.remainingQuantity,
+			averagePrice: openPositions.averagePrice,
+		},
+		owner: accountOwner(openPositions.accountId),
+	},
+	{
+		name: "prop_rule_sets",
+		table: propRuleSets,
+		id: propRuleSets.id,
+		columns: {
+			startingBalanceCents: propRuleSets.startingBalanceCents,
+		},
+		owner: accountOwner(propRuleSets.accountId),
+	},
+	{
+		name: "prop_evaluations",
+		table: propEvaluations,
+		id: propEvaluations.id,
+		columns: {
+			pnlCents: propEvaluations.pnlCents,
+			balanceCents: propEvaluations.balanceCents,
+			drawdownFloorCents: propEvaluations.drawdownFloorCents,
+			profitCents: propEvaluations.profitCents,
+		},
+		owner: sql<string | null>`(select ${tradingAccounts.userId}::text from ${propRuleSets} inner join ${tradingAccounts} on ${tradingAccounts.id} = ${propRuleSets.accountId} where ${propRuleSets.id} = ${propEvaluations.ruleSetId})`,
+	},
+	{
+		name: "tax_ledger_entries",
+		table: taxLedgerEntries,
+		id: taxLedgerEntries.id,
+		columns: {
+			dayTradeResultCents: taxLedgerEntries.dayTradeResultCents,
+			swingResultCents: taxLedgerEntries.swingResultCents,
+			swingStockSalesCents: taxLedgerEntries.swingStockSalesCents,
+			dayTradeLossCarryInCents: taxLedgerEntries.dayTradeLossCarryInCents,
+			swingLossCarryInCents: taxLedgerEntries.swingLossCarryInCents,
+			dayTradeLossCarryOutCents: taxLedgerEntries.dayTradeLossCarryOutCents,
+			swingLossCarryOutCents: taxLedgerEntries.swingLossCarryOutCents,
+			dayTradeTaxableCents: taxLedgerEntries.dayTradeTaxableCents,
+			swingTaxableCents: taxLedgerEntries.swingTaxableCents,
+			dayTradeTaxCents: taxLedgerEntries.dayTradeTaxCents,
+			swingTaxCents: taxLedgerEntries.swingTaxCents,
+			dayTradeTaxRate: taxLedgerEntries.dayTradeTaxRate,
+			swingTradeTaxRate: taxLedgerEntries.swingTradeTaxRate,
+			irrfCents: taxLedgerEntries.irrfCents,
+			irrfCreditUsedCents: taxLedgerEntries.irrfCreditUsedCents,
+			irrfCreditCarryOutCents: taxLedgerEntries.irrfCreditCarryOutCents,
+			darfCarryInCents: taxLedgerEntries.darfCarryInCents,
+			darfDueCents: taxLedgerEntries.darfDueCents,
+			darfCarryOutCents: taxLedgerEntries.darfCarryOutCents,
+		},
+		owner: accountOwner(taxLedgerEntries.accountId),
+	},
+]
+
+export { ENCRYPTED_TABLES, type EncryptedTableSpec }
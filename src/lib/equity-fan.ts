@@ -0,0 +1,67 @@
+import type { EquityFanPoint } from "@/types/monte-carlo"
+
+// ==========================================
+// EQUITY FAN (PERCENTILE BANDS OVER TIME)
+// ==========================================
+
+/** Points kept per fan — enough for a smooth chart, small enough to store */
+const FAN_MAX_POINTS = 200
+
+const percentile = (sorted: number[], p: number): number => {
+	const index = Math.ceil((p / 100) * sorted.length) - 1
+	return sorted[Math.max(0, Math.min(index, sorted.length - 1))]
+}
+
+/**
+ * The evenly spaced steps a fan is built at, always including the first and
+ * last. Callers that collect equity run by run (e.g. batched jobs) only need
+ * to keep these.
+ */
+const getFanSteps = (stepCount: number): number[] => {
+	const pointCount = Math.min(stepCount, FAN_MAX_POINTS)
+	const steps = new Set<number>()
+	for (let i = 0; i < pointCount; i++) {
+		steps.add(
+			pointCount === 1
+				? 0
+				: Math.round((i * (stepCount - 1)) / (pointCount - 1))
+		)
+	}
+	return [...steps]
+}
+
+/**
+ * Builds P5/P25/P50/P75/P95 bands across runs at evenly spaced steps.
+ * `stepCount` includes the starting point (step 0); `valueAt` reads one
+ * run's equity at a step, so callers don't have to materialize every path.
+ */
+const buildEquityFan = (
+	runCount: number,
+	stepCount: number,
+	valueAt: (run: number, step: number) => number
+): EquityFanPoint[] => {
+	if (runCount === 0 || stepCount === 0) return []
+
+	const steps = getFanSteps(stepCount)
+	const fan: EquityFanPoint[] = []
+	const values = new Array<number>(runCount)
+
+	for (const step of steps) {
+		for (let run = 0; run < runCount; run++) {
+			values[run] = valueAt(run, step)
+		}
+		const sorted = values.toSorted((a, b) => a - b)
+		fan.push({
+			step,
+			p5: percentile(sorted, 5),
+			p25: percentile(sorted, 25),
+			p50: percentile(sorted, 50),
+			p75: percentile(sorted, 75),
+			p95: percentile(sorted, 95),
+		})
+	}
+
+	return fan
+}
+
+export { FAN_MAX_POINTS, getFanSteps, buildEquityFan }
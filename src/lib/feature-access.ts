@@ -15,20 +15,27 @@ interface FeatureConfig {
 interface FeatureLimits {
 	monteCarloV1BudgetCap: number
 	monteCarloV2BudgetCap: number
+	propChallengeBudgetCap: number
 }
 
 const ROLE_LIMITS: Record<UserRole, FeatureLimits> = {
 	viewer: {
 		monteCarloV1BudgetCap: 0,
 		monteCarloV2BudgetCap: 0,
+		propChallengeBudgetCap: 0,
 	},
 	trader: {
 		monteCarloV1BudgetCap: 1_500_000, // 50% of admin
 		monteCarloV2BudgetCap: 5_000_000, // 50% of admin
+		propChallengeBudgetCap: 5_000_000, // 50% of admin
 	},
 	admin: {
 		monteCarloV1BudgetCap: 3_000_000,
+		// Not scaled up for V2's worker pool: the pool is one thread on a 2-core
+		// host and shares the cores with every other running job, so the cap is
+		// what one thread finishes well inside the job route's maxDuration
 		monteCarloV2BudgetCap: 10_000_000,
+		propChallengeBudgetCap: 10_000_000,
 	},
 }
 
@@ -56,7 +63,7 @@ const FEATURE_MAP: Record<string, FeatureConfig> = {
 	"settings:seed-profiles": { requiredRole: "admin", description: "Seed risk profiles" },
 	"settings:data-display": { requiredRole: "admin", description: "Data Display card on profile tab" },
 	"settings:data-import": { requiredRole: "admin", description: "Data Import card on account tab" },
-	"settings:data-export": { requiredRole: "admin", description: "Data Export card on account tab" },
+	"settings:data-export": { requiredRole: "trader", description: "Account archive export/import card on account tab" },
 	"settings:users-tab": { requiredRole: "admin", description: "User management tab" },
 	"settings:conditions-tab": { requiredRole: "admin", description: "Trading conditions tab" },
 }
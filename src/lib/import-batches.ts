@@ -0,0 +1,165 @@
+/**
+ * Import batch bookkeeping — one `import_batches` row per import run.
+ *
+ * Import paths open a batch before writing, tag the trades and executions they
+ * create with its id, snapshot every existing trade they enrich, and close it
+ * with the final counts. Rollback (see `rollbackImportBatch`) uses the tags and
+ * snapshots to undo exactly what the import wrote.
+ */
+
+import { db } from "@/db/drizzle"
+import { importBatches, importBatchTradeSnapshots, tradeExecutions, trades } from "@/db/schema"
+import type { TradeExecution } from "@/db/schema"
+import { eq } from "drizzle-orm"
+import type { ImportBatchSource } from "@/types/import-batch"
+import { emitWebhookEvent } from "@/lib/webhook-dispatcher"
+
+interface CreateImportBatchInput {
+	userId: string
+	accountId: string
+	source: ImportBatchSource
+	sourceName?: string | null
+	fileName?: string | null
+	fileHash?: string | null
+}
+
+interface ImportBatchCounts {
+	tradesCreated: number
+	tradesEnriched?: number
+	executionsCreated?: number
+}
+
+/** Trade columns an import may overwrite when enriching an existing trade */
+const RESTORABLE_TRADE_COLUMNS = [
+	"entryDate",
+	"exitDate",
+	"entryPrice",
+	"exitPrice",
+	"positionSize",
+	"pnl",
+	"outcome",
+	"realizedRMultiple",
+	"commission",
+	"fees",
+	"contractsExecuted",
+	"executionMode",
+	"totalEntryQuantity",
+	"totalExitQuantity",
+	"avgEntryPrice",
+	"avgExitPrice",
+	"remainingQuantity",
+] as const
+
+type RestorableTradeColumn = (typeof RESTORABLE_TRADE_COLUMNS)[number]
+
+/**
+ * Trade state before an import enriched it (values exactly as stored, so
+ * encrypted columns stay encrypted)
+ */
+export interface TradeSnapshot {
+	trade: Pick<typeof trades.$inferSelect, RestorableTradeColumn>
+	executions: TradeExecution[]
+}
+
+/**
+ * Open a batch for an import run and return its id
+ */
+export const createImportBatch = async (input: CreateImportBatchInput): Promise<string> => {
+	const [batch] = await db
+		.insert(importBatches)
+		.values({
+			userId: input.userId,
+			accountId: input.accountId,
+			source: input.source,
+			sourceName: input.sourceName ?? null,
+			fileName: input.fileName ?? null,
+			fileHash: input.fileHash ?? null,
+		})
+		.returning({ id: importBatches.id })
+
+	return batch.id
+}
+
+/**
+ * Store the final counts of a batch and notify webhooks. A batch that wrote
+ * nothing is removed so failed runs don't clutter the import history.
+ */
+export const completeImportBatch = async (batchId: string, counts: ImportBatchCounts): Promise<void> => {
+	const tradesEnriched = counts.tradesEnriched ?? 0
+	const executionsCreated = counts.executionsCreated ?? 0
+
+	if (counts.tradesCreated === 0 && tradesEnriched === 0 && executionsCreated === 0) {
+		await db.delete(importBatches).where(eq(importBatches.id, batchId))
+		return
+	}
+
+	const [batch] = await db
+		.update(importBatches)
+		.set({ tradesCreated: counts.tradesCreated, tradesEnriched, executionsCreated })
+		.where(eq(importBatches.id, batchId))
+		.returning()
+
+	if (batch) {
+		await emitWebhookEvent({
+			userId: batch.userId,
+			accountId: batch.accountId,
+			event: "import.completed",
+			data: {
+				batchId: batch.id,
+				source: batch.source,
+				sourceName: batch.sourceName,
+				fileName: batch.fileName,
+				tradesCreated: batch.tradesCreated,
+				tradesEnriched: batch.tradesEnriched,
+				executionsCreated: batch.executionsCreated,
+			},
+		})
+	}
+}
+
+/**
+ * Save a trade's current state before the batch changes it.
+ * Only the first snapshot per batch is kept, so it always reflects the pre-import state.
+ */
+export const snapshotTradeForBatch = async (batchId: string, tradeId: string): Promise<void> => {
+	const trade = await db.query.trades.findFirst({ where: eq(trades.id, tradeId) })
+	if (!trade) return
+
+	const executions = await db.query.tradeExecutions.findMany({
+		where: eq(tradeExecutions.tradeId, tradeId),
+	})
+
+	const snapshot: TradeSnapshot = {
+		trade: Object.fromEntries(
+			RESTORABLE_TRADE_COLUMNS.map((column) => [column, trade[column]])
+		) as TradeSnapshot["trade"],
+		executions,
+	}
+
+	await db
+		.insert(importBatchTradeSnapshots)
+		.values({ importBatchId: batchId, tradeId, snapshot: JSON.stringify(snapshot) })
+		.onConflictDoNothing()
+}
+
+/**
+ * Parse a stored snapshot, turning the JSON date strings back into Dates
+ */
+export const parseTradeSnapshot = (value: string): TradeSnapshot => {
+	const parsed = JSON.parse(value) as TradeSnapshot
+	const toDate = (date: Date | string | null) => (date === null ? null : new Date(date))
+
+	return {
+		trade: {
+			...parsed.trade,
+			entryDate: new Date(parsed.trade.entryDate),
+			exitDate: toDate(parsed.trade.exitDate),
+		},
+		executions: parsed.executions.map((execution) => ({
+			...execution,
+			executionDate: new Date(execution.executionDate),
+			createdAt: new Date(execution.createdAt),
+			updatedAt: new Date(execution.updatedAt),
+		})),
+	}
+}
@@ -0,0 +1,52 @@
+import { db } from "@/db/drizzle"
+import { marketHolidays } from "@/db/schema"
+import type { MarketHolidayRow } from "@/db/schema"
+import { asc, eq } from "drizzle-orm"
+import type {
+	MarketCode,
+	MarketHolidayRecord,
+	MarketHolidaySource,
+	MarketSessionType,
+	TradingCalendar,
+} from "@/types/market-calendar"
+import { createTradingCalendar } from "./trading-calendar"
+
+// ==========================================
+// MARKET CALENDAR SERVICE
+// ==========================================
+
+/**
+ * Single entry point for exchange calendars on the server. Anything that
+ * needs to know whether a market trades on a given day — monthly projections,
+ * replay sessions, risk simulation day grouping — asks for the calendar here,
+ * so admin edits to market_holidays reach all of them.
+ */
+
+const toMarketHolidayRecord = (row: MarketHolidayRow): MarketHolidayRecord => ({
+	id: row.id,
+	market: row.market as MarketCode,
+	date: row.date,
+	name: row.name,
+	nameEn: row.nameEn,
+	sessionType: row.sessionType as MarketSessionType,
+	opensAt: row.opensAt,
+	closesAt: row.closesAt,
+	source: row.source as MarketHolidaySource,
+	createdAt: row.createdAt,
+	updatedAt: row.updatedAt,
+})
+
+/** Every stored holiday for a market, oldest first */
+const getStoredMarketHolidays = async (market: MarketCode): Promise<MarketHolidayRecord[]> => {
+	const rows = await db.query.marketHolidays.findMany({
+		where: eq(marketHolidays.market, market),
+		orderBy: [asc(marketHolidays.date)],
+	})
+	return rows.map(toMarketHolidayRecord)
+}
+
+/** Trading calendar for a market: stored holidays, with rules for years nobody entered */
+const getTradingCalendar = async (market: MarketCode = "B3"): Promise<TradingCalendar> =>
+	createTradingCalendar(market, await getStoredMarketHolidays(market))
+
+export { toMarketHolidayRecord, getStoredMarketHolidays, getTradingCalendar }
@@ -1,94 +1,210 @@
 /**
- * B3 and NYSE Holiday Data
+ * B3 and NYSE holiday rules.
  *
- * B3 publishes its annual trading calendar every December/January.
- * NYSE holidays follow a fixed federal schedule.
- *
- * Data covers 2025–2026. Update annually when B3 publishes its new calendar.
+ * Fixed-date and Easter-relative holidays for both exchanges, used to build a
+ * year's calendar when admins haven't entered one in market_holidays. Only
+ * weekday closings are produced — weekends are closed anyway.
  * @see https://www.b3.com.br/pt_br/solucoes/plataformas/puma-trading-system/para-participantes-e-traders/calendario-de-negociacao/
  */
 
-interface Holiday {
-	date: string // YYYY-MM-DD
+import type { MarketCode, MarketHoliday, MarketSessionType } from "@/types/market-calendar"
+
+interface HolidayRule {
 	name: string
 	nameEn: string
+	/** Returns the holiday's date in a year, or null when it isn't observed that year */
+	resolve: (year: number) => Date | null
+	sessionType?: MarketSessionType
+	opensAt?: string
+	closesAt?: string
+}
+
+const utcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day))
+
+const addDays = (date: Date, days: number): Date => {
+	const result = new Date(date)
+	result.setUTCDate(result.getUTCDate() + days)
+	return result
+}
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10)
+
+/** Easter Sunday (Gregorian calendar, anonymous algorithm) */
+const getEasterSunday = (year: number): Date => {
+	const a = year % 19
+	const b = Math.floor(year / 100)
+	const c = year % 100
+	const d = Math.floor(b / 4)
+	const e = b % 4
+	const f = Math.floor((b + 8) / 25)
+	const g = Math.floor((b - f + 1) / 3)
+	const h = (19 * a + b - d - g + 15) % 30
+	const i = Math.floor(c / 4)
+	const k = c % 4
+	const l = (32 + 2 * e + 2 * i - h - k) % 7
+	const m = Math.floor((a + 11 * h + 22 * l) / 451)
+	const month = Math.floor((h + l - 7 * m + 114) / 31)
+	const day = ((h + l - 7 * m + 114) % 31) + 1
+	return utcDate(year, month, day)
+}
+
+const fixed = (month: number, day: number, sinceYear = 0) => (year: number): Date | null =>
+	year >= sinceYear ? utcDate(year, month, day) : null
+
+const easterOffset = (days: number) => (year: number): Date =>
+	addDays(getEasterSunday(year), days)
+
+/** nth weekday of a month (weekday 0 = Sunday); n = -1 for the last one */
+const nthWeekday = (month: number, weekday: number, n: number) => (year: number): Date => {
+	if (n > 0) {
+		const first = utcDate(year, month, 1)
+		return addDays(first, ((weekday - first.getUTCDay() + 7) % 7) + (n - 1) * 7)
+	}
+	const last = utcDate(year, month + 1, 0)
+	return addDays(last, -((last.getUTCDay() - weekday + 7) % 7))
+}
+
+/** NYSE observance: Saturday holidays move to Friday, Sunday ones to Monday */
+const observed = (month: number, day: number, sinceYear = 0) => (year: number): Date | null => {
+	if (year < sinceYear) return null
+	const date = utcDate(year, month, day)
+	if (date.getUTCDay() === 6) return addDays(date, -1)
+	if (date.getUTCDay() === 0) return addDays(date, 1)
+	return date
+}
+
+/** Early close on a fixed date, only when it falls Monday–Thursday */
+const earlyCloseBefore = (month: number, day: number) => (year: number): Date | null => {
+	const date = utcDate(year, month, day)
+	const weekday = date.getUTCDay()
+	return weekday >= 1 && weekday <= 4 ? date : null
 }
 
-// B3 holidays — only weekday closings (weekends already excluded)
-const B3_HOLIDAYS: Holiday[] = [
-	// ── 2025 ──────────────────────────────────────────────────────────────────
-	{ date: "2025-01-01", name: "Confraternização Universal", nameEn: "New Year's Day" },
-	{ date: "2025-03-03", name: "Carnaval", nameEn: "Carnival" },
-	{ date: "2025-03-04", name: "Carnaval", nameEn: "Carnival" },
-	{ date: "2025-04-18", name: "Paixão de Cristo", nameEn: "Good Friday" },
-	{ date: "2025-04-21", name: "Tiradentes", nameEn: "Tiradentes Day" },
-	{ date: "2025-05-01", name: "Dia do Trabalho", nameEn: "Labour Day" },
-	{ date: "2025-06-19", name: "Corpus Christi", nameEn: "Corpus Christi" },
-	{ date: "2025-07-09", name: "Revolução Constitucionalista", nameEn: "Constitutionalist Revolution" },
-	{ date: "2025-11-20", name: "Consciência Negra", nameEn: "Black Awareness Day" },
-	{ date: "2025-12-24", name: "Véspera de Natal", nameEn: "Christmas Eve" },
-	{ date: "2025-12-25", name: "Natal", nameEn: "Christmas Day" },
-	{ date: "2025-12-31", name: "Véspera de Ano Novo", nameEn: "New Year's Eve" },
-	// ── 2026 ──────────────────────────────────────────────────────────────────
-	{ date: "2026-01-01", name: "Confraternização Universal", nameEn: "New Year's Day" },
-	{ date: "2026-02-16", name: "Carnaval", nameEn: "Carnival" },
-	{ date: "2026-02-17", name: "Carnaval", nameEn: "Carnival" },
-	{ date: "2026-04-03", name: "Paixão de Cristo", nameEn: "Good Friday" },
-	{ date: "2026-04-21", name: "Tiradentes", nameEn: "Tiradentes Day" },
-	{ date: "2026-05-01", name: "Dia do Trabalho", nameEn: "Labour Day" },
-	{ date: "2026-06-04", name: "Corpus Christi", nameEn: "Corpus Christi" },
-	{ date: "2026-07-09", name: "Revolução Constitucionalista", nameEn: "Constitutionalist Revolution" },
-	{ date: "2026-09-07", name: "Independência do Brasil", nameEn: "Independence Day" },
-	{ date: "2026-11-02", name: "Finados", nameEn: "All Souls' Day" },
-	{ date: "2026-11-20", name: "Consciência Negra", nameEn: "Black Awareness Day" },
-	{ date: "2026-12-24", name: "Véspera de Natal", nameEn: "Christmas Eve" },
-	{ date: "2026-12-25", name: "Natal", nameEn: "Christmas Day" },
-	{ date: "2026-12-31", name: "Véspera de Ano Novo", nameEn: "New Year's Eve" },
+const B3_RULES: HolidayRule[] = [
+	{ name: "Confraternização Universal", nameEn: "New Year's Day", resolve: fixed(1, 1) },
+	{ name: "Carnaval", nameEn: "Carnival", resolve: easterOffset(-48) },
+	{ name: "Carnaval", nameEn: "Carnival", resolve: easterOffset(-47) },
+	{
+		name: "Quarta-feira de Cinzas",
+		nameEn: "Ash Wednesday",
+		resolve: easterOffset(-46),
+		sessionType: "half_day",
+		opensAt: "13:00",
+	},
+	{ name: "Paixão de Cristo", nameEn: "Good Friday", resolve: easterOffset(-2) },
+	{ name: "Tiradentes", nameEn: "Tiradentes Day", resolve: fixed(4, 21) },
+	{ name: "Dia do Trabalho", nameEn: "Labour Day", resolve: fixed(5, 1) },
+	{ name: "Corpus Christi", nameEn: "Corpus Christi", resolve: easterOffset(60) },
+	{ name: "Revolução Constitucionalista", nameEn: "Constitutionalist Revolution", resolve: fixed(7, 9) },
+	{ name: "Independência do Brasil", nameEn: "Independence Day", resolve: fixed(9, 7) },
+	{ name: "Nossa Senhora Aparecida", nameEn: "Our Lady of Aparecida", resolve: fixed(10, 12) },
+	{ name: "Finados", nameEn: "All Souls' Day", resolve: fixed(11, 2) },
+	{ name: "Proclamação da República", nameEn: "Republic Day", resolve: fixed(11, 15) },
+	{ name: "Consciência Negra", nameEn: "Black Awareness Day", resolve: fixed(11, 20, 2024) },
+	{ name: "Véspera de Natal", nameEn: "Christmas Eve", resolve: fixed(12, 24) },
+	{ name: "Natal", nameEn: "Christmas Day", resolve: fixed(12, 25) },
+	{ name: "Véspera de Ano Novo", nameEn: "New Year's Eve", resolve: fixed(12, 31) },
 ]
 
-// NYSE holidays — only weekday closings
-const NYSE_HOLIDAYS: Holiday[] = [
-	// ── 2025 ──────────────────────────────────────────────────────────────────
-	{ date: "2025-01-01", name: "Ano Novo", nameEn: "New Year's Day" },
-	{ date: "2025-01-09", name: "Luto Nacional (Pres. Carter)", nameEn: "National Day of Mourning" },
-	{ date: "2025-01-20", name: "Martin Luther King Jr.", nameEn: "Martin Luther King Jr. Day" },
-	{ date: "2025-02-17", name: "Dia dos Presidentes", nameEn: "Presidents' Day" },
-	{ date: "2025-04-18", name: "Sexta-feira Santa", nameEn: "Good Friday" },
-	{ date: "2025-05-26", name: "Memorial Day", nameEn: "Memorial Day" },
-	{ date: "2025-06-19", name: "Juneteenth", nameEn: "Juneteenth" },
-	{ date: "2025-07-04", name: "Independência EUA", nameEn: "Independence Day" },
-	{ date: "2025-09-01", name: "Dia do Trabalho EUA", nameEn: "Labor Day" },
-	{ date: "2025-11-27", name: "Ação de Graças", nameEn: "Thanksgiving" },
-	{ date: "2025-12-25", name: "Natal", nameEn: "Christmas Day" },
-	// ── 2026 ──────────────────────────────────────────────────────────────────
-	{ date: "2026-01-01", name: "Ano Novo", nameEn: "New Year's Day" },
-	{ date: "2026-01-19", name: "Martin Luther King Jr.", nameEn: "Martin Luther King Jr. Day" },
-	{ date: "2026-02-16", name: "Dia dos Presidentes", nameEn: "Presidents' Day" },
-	{ date: "2026-04-03", name: "Sexta-feira Santa", nameEn: "Good Friday" },
-	{ date: "2026-05-25", name: "Memorial Day", nameEn: "Memorial Day" },
-	{ date: "2026-06-19", name: "Juneteenth", nameEn: "Juneteenth" },
-	{ date: "2026-07-03", name: "Independência EUA (obs.)", nameEn: "Independence Day (observed)" },
-	{ date: "2026-09-07", name: "Dia do Trabalho EUA", nameEn: "Labor Day" },
-	{ date: "2026-11-26", name: "Ação de Graças", nameEn: "Thanksgiving" },
-	{ date: "2026-12-25", name: "Natal", nameEn: "Christmas Day" },
+const NYSE_RULES: HolidayRule[] = [
+	// A Saturday New Year's Day is not observed on the previous Friday
+	{
+		name: "Ano Novo",
+		nameEn: "New Year's Day",
+		resolve: (year) => (utcDate(year, 1, 1).getUTCDay() === 6 ? null : observed(1, 1)(year)),
+	},
+	{ name: "Martin Luther King Jr.", nameEn: "Martin Luther King Jr. Day", resolve: nthWeekday(1, 1, 3) },
+	{ name: "Dia dos Presidentes", nameEn: "Presidents' Day", resolve: nthWeekday(2, 1, 3) },
+	{ name: "Sexta-feira Santa", nameEn: "Good Friday", resolve: easterOffset(-2) },
+	{ name: "Memorial Day", nameEn: "Memorial Day", resolve: nthWeekday(5, 1, -1) },
+	{ name: "Juneteenth", nameEn: "Juneteenth", resolve: observed(6, 19, 2022) },
+	{
+		name: "Véspera da Independência EUA",
+		nameEn: "Independence Day Eve",
+		resolve: earlyCloseBefore(7, 3),
+		sessionType: "half_day",
+		closesAt: "13:00",
+	},
+	{ name: "Independência EUA", nameEn: "Independence Day", resolve: observed(7, 4) },
+	{ name: "Dia do Trabalho EUA", nameEn: "Labor Day", resolve: nthWeekday(9, 1, 1) },
+	{ name: "Ação de Graças", nameEn: "Thanksgiving", resolve: nthWeekday(11, 4, 4) },
+	{
+		name: "Dia após Ação de Graças",
+		nameEn: "Day after Thanksgiving",
+		resolve: (year) => addDays(nthWeekday(11, 4, 4)(year), 1),
+		sessionType: "half_day",
+		closesAt: "13:00",
+	},
+	{
+		name: "Véspera de Natal",
+		nameEn: "Christmas Eve",
+		resolve: earlyCloseBefore(12, 24),
+		sessionType: "half_day",
+		closesAt: "13:00",
+	},
+	{ name: "Natal", nameEn: "Christmas Day", resolve: observed(12, 25) },
 ]
 
-// Index by date for O(1) lookup
-const b3HolidayMap = new Map(B3_HOLIDAYS.map((h) => [h.date, h]))
-const nyseHolidayMap = new Map(NYSE_HOLIDAYS.map((h) => [h.date, h]))
+const MARKET_RULES: Record<MarketCode, HolidayRule[]> = {
+	B3: B3_RULES,
+	NYSE: NYSE_RULES,
+}
 
-export const isB3Holiday = (dateStr: string): boolean => b3HolidayMap.has(dateStr)
+/**
+ * Applies a market's holiday rules to one year.
+ *
+ * @param market - Exchange
+ * @param year - Calendar year
+ * @returns Weekday holidays and half days, sorted by date
+ */
+const generateMarketHolidays = (market: MarketCode, year: number): MarketHoliday[] => {
+	const holidays = new Map<string, MarketHoliday>()
 
-export const isNyseHoliday = (dateStr: string): boolean => nyseHolidayMap.has(dateStr)
+	for (const rule of MARKET_RULES[market]) {
+		const date = rule.resolve(year)
+		if (!date) continue
+		const weekday = date.getUTCDay()
+		if (weekday === 0 || weekday === 6) continue
 
-export const getB3HolidayName = (dateStr: string, locale: string): string | null => {
-	const holiday = b3HolidayMap.get(dateStr)
-	if (!holiday) return null
-	return locale === "pt-BR" ? holiday.name : holiday.nameEn
+		const dateKey = toDateKey(date)
+		// A closing always wins over a half day on the same date
+		const existing = holidays.get(dateKey)
+		if (existing?.sessionType === "closed") continue
+
+		holidays.set(dateKey, {
+			market,
+			date: dateKey,
+			name: rule.name,
+			nameEn: rule.nameEn,
+			sessionType: rule.sessionType ?? "closed",
+			opensAt: rule.opensAt ?? null,
+			closesAt: rule.closesAt ?? null,
+			source: "generated",
+		})
+	}
+
+	return [...holidays.values()].toSorted((a, b) => a.date.localeCompare(b.date))
 }
 
-export const getNyseHolidayName = (dateStr: string, locale: string): string | null => {
-	const holiday = nyseHolidayMap.get(dateStr)
-	if (!holiday) return null
-	return locale === "pt-BR" ? holiday.name : holiday.nameEn
+const b3ClosingsByYear = new Map<number, Set<string>>()
+
+/**
+ * Whether B3 is closed on a date according to the holiday rules alone.
+ * For code that can't reach the database; everything else should go through
+ * the market calendar service so admin edits are honoured.
+ */
+const isB3Holiday = (dateStr: string): boolean => {
+	const year = Number(dateStr.slice(0, 4))
+	let closings = b3ClosingsByYear.get(year)
+	if (!closings) {
+		closings = new Set(
+			generateMarketHolidays("B3", year)
+				.filter((holiday) => holiday.sessionType === "closed")
+				.map((holiday) => holiday.date)
+		)
+		b3ClosingsByYear.set(year, closings)
+	}
+	return closings.has(dateStr)
 }
+
+export { getEasterSunday, generateMarketHolidays, isB3Holiday }
@@ -0,0 +1,93 @@
+import type { MarketCode, MarketHoliday, TradingCalendar } from "@/types/market-calendar"
+import { generateMarketHolidays } from "./holidays"
+
+// ==========================================
+// TRADING CALENDAR
+// ==========================================
+
+/**
+ * All helpers work on YYYY-MM-DD date keys (as produced by formatDateKey) and
+ * do their arithmetic at UTC noon, so the result never depends on the
+ * server's or browser's timezone.
+ */
+
+/** Longest run of consecutive non-trading days we are willing to walk past */
+const MAX_NON_TRADING_RUN = 31
+
+const toUtcNoon = (dateKey: string): Date => new Date(`${dateKey}T12:00:00Z`)
+
+/** Shifts a date key by a number of calendar days */
+const shiftDateKey = (dateKey: string, days: number): string => {
+	const date = toUtcNoon(dateKey)
+	date.setUTCDate(date.getUTCDate() + days)
+	return date.toISOString().slice(0, 10)
+}
+
+const isWeekend = (dateKey: string): boolean => {
+	const weekday = toUtcNoon(dateKey).getUTCDay()
+	return weekday === 0 || weekday === 6
+}
+
+/**
+ * Builds a market's trading calendar from stored holidays. A year with no
+ * stored holidays uses the rule-based ones, so the calendar works for any
+ * year before an admin has reviewed it.
+ *
+ * @param market - Exchange
+ * @param holidays - Stored holidays for that market, any years
+ */
+const createTradingCalendar = (market: MarketCode, holidays: MarketHoliday[]): TradingCalendar => {
+	const byYear = new Map<number, Map<string, MarketHoliday>>()
+	for (const holiday of holidays) {
+		if (holiday.market !== market) continue
+		const year = Number(holiday.date.slice(0, 4))
+		const days = byYear.get(year) ?? new Map<string, MarketHoliday>()
+		days.set(holiday.date, holiday)
+		byYear.set(year, days)
+	}
+
+	const getYear = (year: number): Map<string, MarketHoliday> => {
+		let days = byYear.get(year)
+		if (!days) {
+			days = new Map(generateMarketHolidays(market, year).map((holiday) => [holiday.date, holiday]))
+			byYear.set(year, days)
+		}
+		return days
+	}
+
+	const getHoliday = (dateKey: string): MarketHoliday | null =>
+		getYear(Number(dateKey.slice(0, 4))).get(dateKey) ?? null
+
+	const isTradingDay = (dateKey: string): boolean =>
+		!isWeekend(dateKey) && getHoliday(dateKey)?.sessionType !== "closed"
+
+	const stepToTradingDay = (dateKey: string, direction: 1 | -1): string => {
+		let candidate = dateKey
+		for (let i = 0; i < MAX_NON_TRADING_RUN; i++) {
+			candidate = shiftDateKey(candidate, direction)
+			if (isTradingDay(candidate)) return candidate
+		}
+		return candidate
+	}
+
+	const listTradingDays = (fromKey: string, toKey: string): string[] => {
+		const days: string[] = []
+		for (let key = fromKey; key <= toKey; key = shiftDateKey(key, 1)) {
+			if (isTradingDay(key)) days.push(key)
+		}
+		return days
+	}
+
+	return {
+		market,
+		isTradingDay,
+		getHoliday,
+		getNextTradingDay: (dateKey) => stepToTradingDay(dateKey, 1),
+		getPreviousTradingDay: (dateKey) => stepToTradingDay(dateKey, -1),
+		listTradingDays,
+		countTradingDays: (fromKey, toKey) => listTradingDays(fromKey, toKey).length,
+		getSessionKey: (dateKey) => (isTradingDay(dateKey) ? dateKey : stepToTradingDay(dateKey, 1)),
+	}
+}
+
+export { shiftDateKey, createTradingCalendar }
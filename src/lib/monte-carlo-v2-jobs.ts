@@ -0,0 +1,277 @@
+/**
+ * Capital Expectancy (V2) jobs — runs the V2 engine off the request thread,
+ * inside the request that streams its progress (POST /api/monte-carlo/v2/jobs).
+ *
+ * A simulation's runs are split into contiguous slices, one per worker thread
+ * (monte-carlo-v2.worker.ts). Every run draws from its own stream of the seed,
+ * so the assembled result equals `runMonteCarloV2` on one thread. The pool
+ * belongs to one job: nothing is kept between requests, and aborting the
+ * request terminates its workers.
+ */
+
+import { availableParallelism } from "node:os"
+import { Worker } from "node:worker_threads"
+import {
+	aggregateStatisticsV2,
+	buildResultV2,
+	seedParamsV2,
+	type SeededSimulationParamsV2,
+} from "@/lib/monte-carlo-v2"
+import { recordSimulationRun } from "@/lib/simulation-runs"
+import type {
+	BootstrapSummary,
+	DataSource,
+	EmpiricalRSource,
+	MonteCarloResultV2,
+	MonteCarloV2JobEvent,
+	MonteCarloV2JobResult,
+	SimulationParamsV2,
+	SimulationRunSummaryV2,
+	SimulationStatisticsV2,
+} from "@/types/monte-carlo"
+import type { SimulationRunSourceStats } from "@/types/simulation-run"
+import type { MonteCarloV2WorkerInput, MonteCarloV2WorkerMessage } from "./monte-carlo-v2.worker"
+
+/** Worker threads per simulation; one core is left for serving requests */
+const MAX_WORKERS = 4
+
+/** Below this many runs per worker, thread start-up outweighs the split */
+const MIN_RUNS_PER_WORKER = 500
+
+/** Minimum gap between progress events, so partial statistics stay cheap */
+const PROGRESS_INTERVAL_MS = 250
+
+/**
+ * The worker entry is TypeScript with `@/` imports, which the build copies as
+ * is rather than bundling, so each thread registers tsx before loading it
+ */
+const WORKER_ENTRY = new URL("./monte-carlo-v2.worker.ts", import.meta.url)
+const WORKER_BOOTSTRAP = `
+Promise.all([import("tsx/esm/api"), import("tsx/cjs/api")]).then(([esm, cjs]) => {
+	esm.register()
+	cjs.register()
+	return import(${JSON.stringify(WORKER_ENTRY.href)})
+})
+`
+
+class JobCancelledError extends Error {
+	constructor() {
+		super("Simulation job cancelled")
+		this.name = "JobCancelledError"
+	}
+}
+
+// ==========================================
+// WORKER POOL
+// ==========================================
+
+interface SimulateOptions {
+	signal?: AbortSignal
+	/** Called after each batch with every summary received so far (any order) */
+	onBatch?: (received: SimulationRunSummaryV2[]) => void
+}
+
+const getWorkerCount = (runCount: number): number =>
+	Math.max(
+		1,
+		Math.min(MAX_WORKERS, availableParallelism() - 1, Math.ceil(runCount / MIN_RUNS_PER_WORKER))
+	)
+
+/**
+ * One simulation split across its own worker threads. Rejects with
+ * JobCancelledError once the signal aborts, terminating the workers.
+ */
+const simulateInWorkers = (
+	params: SeededSimulationParamsV2,
+	empirical: EmpiricalRSource | null,
+	{ signal, onBatch }: SimulateOptions = {}
+): Promise<MonteCarloResultV2> =>
+	new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new JobCancelledError())
+			return
+		}
+
+		const runCount = params.simulationCount
+		const workerCount = getWorkerCount(runCount)
+		const sliceSize = Math.ceil(runCount / workerCount)
+		const summaries = new Array<SimulationRunSummaryV2>(runCount)
+		const received: SimulationRunSummaryV2[] = []
+		const workers: Worker[] = []
+		let pending = workerCount
+		let settled = false
+
+		const settle = () => {
+			settled = true
+			signal?.removeEventListener("abort", onAbort)
+		}
+		const stop = (error: Error) => {
+			if (settled) return
+			settle()
+			for (const worker of workers) void worker.terminate()
+			reject(error)
+		}
+		const onAbort = () => stop(new JobCancelledError())
+		signal?.addEventListener("abort", onAbort)
+
+		for (let i = 0; i < workerCount; i++) {
+			const workerData: MonteCarloV2WorkerInput = {
+				params,
+				empirical,
+				fromRun: i * sliceSize,
+				toRun: Math.min(runCount, (i + 1) * sliceSize),
+			}
+			const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData })
+			workers.push(worker)
+
+			worker.on("message", (message: MonteCarloV2WorkerMessage) => {
+				if (settled) return
+				if (message.type === "batch") {
+					for (const summary of message.summaries) {
+						summaries[summary.runIndex] = summary
+						received.push(summary)
+					}
+					onBatch?.(received)
+					return
+				}
+
+				// The worker exits on its own once its slice is posted
+				pending--
+				if (pending > 0) return
+
+				settle()
+				try {
+					resolve(buildResultV2(params, summaries, empirical ?? undefined))
+				} catch (error) {
+					reject(error)
+				}
+			})
+			worker.on("error", stop)
+			worker.on("exit", (code) => {
+				if (code !== 0) stop(new Error(`Simulation worker exited with code ${code}`))
+			})
+		}
+	})
+
+/**
+ * Runs a V2 simulation on worker threads and waits for the result — for
+ * callers that don't need progress (re-opening a saved run, the API).
+ */
+const runMonteCarloV2InWorkers = (
+	params: SimulationParamsV2,
+	empirical?: EmpiricalRSource
+): Promise<MonteCarloResultV2> =>
+	simulateInWorkers(seedParamsV2(params), empirical ?? null)
+
+// ==========================================
+// JOBS
+// ==========================================
+
+/** A validated job, ready to run (see `prepareSimulationV2Job`) */
+interface PreparedMonteCarloV2Job {
+	params: SimulationParamsV2
+	/** Resampled R source and its summary; the job then also runs the parametric side */
+	empirical: { source: EmpiricalRSource; bootstrap: BootstrapSummary } | null
+	/** History entry saved once the job completes */
+	record: {
+		userId: string
+		accountId: string
+		name: string
+		source: DataSource | null
+		sourceStats: SimulationRunSourceStats | null
+	}
+}
+
+interface RunMonteCarloV2JobInput extends Omit<PreparedMonteCarloV2Job, "record"> {
+	signal?: AbortSignal
+	onProgress?: (event: Extract<MonteCarloV2JobEvent, { type: "progress" }>) => void
+}
+
+/**
+ * Runs a job to the end, reporting progress with partial statistics. Rejects
+ * with JobCancelledError when the signal aborts.
+ */
+const runMonteCarloV2Job = async ({
+	params,
+	empirical,
+	signal,
+	onProgress,
+}: RunMonteCarloV2JobInput): Promise<MonteCarloV2JobResult> => {
+	// Both sides of an empirical comparison share one seed
+	const seededParams = seedParamsV2(params)
+	const totalRuns = seededParams.simulationCount * (empirical ? 2 : 1)
+	let lastProgressAt = 0
+	let partial: SimulationStatisticsV2 | null = null
+
+	onProgress?.({ type: "progress", completedRuns: 0, totalRuns, partial })
+
+	// Partial statistics follow the result shown to the user (the empirical
+	// side of a comparison); the parametric side only advances the count
+	const reportProgress =
+		(completedBefore: number, withStatistics: boolean) =>
+		(received: SimulationRunSummaryV2[]) => {
+			const now = Date.now()
+			if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return
+			lastProgressAt = now
+			if (withStatistics) partial = aggregateStatisticsV2(received, seededParams)
+			onProgress?.({
+				type: "progress",
+				completedRuns: completedBefore + received.length,
+				totalRuns,
+				partial,
+			})
+		}
+
+	const result = await simulateInWorkers(seededParams, empirical?.source ?? null, {
+		signal,
+		onBatch: reportProgress(0, true),
+	})
+	const comparison = empirical
+		? {
+				parametric: await simulateInWorkers(seededParams, null, {
+					signal,
+					onBatch: reportProgress(seededParams.simulationCount, false),
+				}),
+				empirical: result,
+				bootstrap: empirical.bootstrap,
+			}
+		: null
+
+	return { result, comparison }
+}
+
+/** Save a completed job's result to the run history (best-effort) */
+const recordMonteCarloV2Job = async (
+	{ empirical, record }: PreparedMonteCarloV2Job,
+	result: MonteCarloResultV2
+): Promise<void> => {
+	await recordSimulationRun({
+		userId: record.userId,
+		accountId: record.accountId,
+		name: record.name,
+		seed: result.params.seed ?? null,
+		inputs: {
+			kind: "monte_carlo_v2",
+			params: result.params,
+			source: record.source,
+			empirical: empirical
+				? {
+						bootstrap: { method: empirical.bootstrap.method, blockLength: empirical.bootstrap.blockLength },
+						rMultiples: empirical.source.rMultiples,
+					}
+				: null,
+		},
+		sourceStats: record.sourceStats,
+		statistics: { kind: "monte_carlo_v2", values: result.statistics },
+		distribution: result.distributionBuckets,
+		equityFan: result.equityFan,
+	})
+}
+
+export {
+	runMonteCarloV2InWorkers,
+	runMonteCarloV2Job,
+	recordMonteCarloV2Job,
+	JobCancelledError,
+	type PreparedMonteCarloV2Job,
+}
@@ -5,10 +5,16 @@ import type {
 	SimulatedDay,
 	SimulationRunV2,
 	SimulationStatisticsV2,
+	SimulationRunSummaryV2,
 	MonteCarloResultV2,
+	PathStatisticsV2,
 	DistributionBucket,
 	TradeMode,
+	EmpiricalRSource,
 } from "@/types/monte-carlo"
+import { createRSampler } from "@/lib/r-bootstrap"
+import { createPrng, createSeed, deriveSeed } from "@/lib/prng"
+import { buildEquityFan, getFanSteps } from "@/lib/equity-fan"
 
 // ==========================================
 // MONTE CARLO V2 — DAY-AWARE SIMULATION
@@ -209,120 +215,252 @@ const applyConsecutiveLossRules = (
 // MAIN SIMULATION RUNNER
 // ==========================================
 
+/** V2 params with the seed resolved, as every run of a simulation shares it */
+type SeededSimulationParamsV2 = SimulationParamsV2 & { seed: number }
+
+const seedParamsV2 = (
+	params: SimulationParamsV2
+): SeededSimulationParamsV2 => ({
+	...params,
+	seed: params.seed ?? createSeed(),
+})
+
+/** Days in one run — every trading day is recorded, skipped or not */
+const getDayCountV2 = (params: SimulationParamsV2): number =>
+	params.monthsToTrade * params.profile.tradingDaysPerMonth
+
 /**
- * Runs the full V2 Monte Carlo simulation: N simulated months,
- * each respecting the decision tree (loss recovery, gain compounding,
- * cascading weekly/monthly limits).
- *
- * Key difference from V1: V1 treats trades as independent coin flips.
- * V2 simulates **days** — each day follows the decision tree to determine
- * how many trades to take and at what risk, producing a daily P&L that
- * accumulates into weekly and monthly results.
+ * Simulates run `runIndex` of a simulation: `monthsToTrade` chained months,
+ * each respecting the decision tree. Each run draws from its own stream of
+ * the seed, so any subset of runs can be simulated on its own (in a batch,
+ * or to rebuild the sample run) and match the full simulation.
  */
-const runMonteCarloV2 = (params: SimulationParamsV2): MonteCarloResultV2 => {
-	const runs: SimulationRunV2[] = []
+const simulateRunV2 = (
+	params: SeededSimulationParamsV2,
+	runIndex: number,
+	empirical?: EmpiricalRSource
+): SimulationRunV2 => {
+	const random = createPrng(deriveSeed(params.seed, runIndex))
+	// One sampler per run so bootstrap blocks continue across days and months
+	const draws: TradeDraws = {
+		random,
+		drawR: empirical ? createRSampler(empirical, random) : null,
+	}
 
-	const months = params.monthsToTrade
+	// Chain months: each month starts with the previous month's ending balance
+	let balance = params.initialBalance
+	let peakBalance = balance
+	let runMinBalance = balance // cross-month minimum balance tracking
+	let accumulatedProfit = 0 // cross-month profit for fixedRatio mode
+	const combinedDays: SimulatedDay[] = []
+	let combinedTotalPnl = 0
+	let combinedTotalTrades = 0
+	let combinedTotalTradingDays = 0
+	let combinedDaysInLossRecovery = 0
+	let combinedDaysInGainCompounding = 0
+	let combinedDaysSkippedWeeklyLimit = 0
+	let combinedDaysSkippedMonthlyLimit = 0
+	let combinedDaysTargetHit = 0
+	let combinedTimesWeeklyLimitHit = 0
+	let combinedMonthlyLimitHit = false
+	let combinedMaxDrawdown = 0
+	let combinedMaxDrawdownPercent = 0
+
+	for (let m = 0; m < params.monthsToTrade; m++) {
+		const monthResult = simulateMonth(
+			params.profile,
+			params.initialBalance,
+			balance,
+			accumulatedProfit,
+			draws
+		)
 
-	for (let i = 0; i < params.simulationCount; i++) {
-		// Chain months: each month starts with the previous month's ending balance
-		let balance = params.initialBalance
-		let peakBalance = balance
-		let runMinBalance = balance // cross-month minimum balance tracking
-		let accumulatedProfit = 0 // cross-month profit for fixedRatio mode
-		let combinedDays: SimulatedDay[] = []
-		let combinedTotalPnl = 0
-		let combinedTotalTrades = 0
-		let combinedTotalTradingDays = 0
-		let combinedDaysInLossRecovery = 0
-		let combinedDaysInGainCompounding = 0
-		let combinedDaysSkippedWeeklyLimit = 0
-		let combinedDaysSkippedMonthlyLimit = 0
-		let combinedDaysTargetHit = 0
-		let combinedTimesWeeklyLimitHit = 0
-		let combinedMonthlyLimitHit = false
-		let combinedMaxDrawdown = 0
-		let combinedMaxDrawdownPercent = 0
-
-		for (let m = 0; m < months; m++) {
-			const monthResult = simulateMonth(
-				params.profile,
-				params.initialBalance,
-				balance,
-				accumulatedProfit
-			)
+		// Re-number days sequentially across months so DailyPnlChart works
+		const dayOffset = m * params.profile.tradingDaysPerMonth
+		for (const day of monthResult.days) {
+			combinedDays.push({ ...day, dayNumber: day.dayNumber + dayOffset })
+		}
 
-			// Re-number days sequentially across months so DailyPnlChart works
-			const dayOffset = m * params.profile.tradingDaysPerMonth
-			for (const day of monthResult.days) {
-				combinedDays.push({ ...day, dayNumber: day.dayNumber + dayOffset })
-			}
+		// Accumulate counters
+		combinedTotalPnl += monthResult.totalPnl
+		combinedTotalTrades += monthResult.totalTrades
+		combinedTotalTradingDays += monthResult.totalTradingDays
+		combinedDaysInLossRecovery += monthResult.daysInLossRecovery
+		combinedDaysInGainCompounding += monthResult.daysInGainCompounding
+		combinedDaysSkippedWeeklyLimit += monthResult.daysSkippedWeeklyLimit
+		combinedDaysSkippedMonthlyLimit += monthResult.daysSkippedMonthlyLimit
+		combinedDaysTargetHit += monthResult.daysTargetHit
+		combinedTimesWeeklyLimitHit += monthResult.timesWeeklyLimitHit
+		if (monthResult.monthlyLimitHit) combinedMonthlyLimitHit = true
 
-			// Accumulate counters
-			combinedTotalPnl += monthResult.totalPnl
-			combinedTotalTrades += monthResult.totalTrades
-			combinedTotalTradingDays += monthResult.totalTradingDays
-			combinedDaysInLossRecovery += monthResult.daysInLossRecovery
-			combinedDaysInGainCompounding += monthResult.daysInGainCompounding
-			combinedDaysSkippedWeeklyLimit += monthResult.daysSkippedWeeklyLimit
-			combinedDaysSkippedMonthlyLimit += monthResult.daysSkippedMonthlyLimit
-			combinedDaysTargetHit += monthResult.daysTargetHit
-			combinedTimesWeeklyLimitHit += monthResult.timesWeeklyLimitHit
-			if (monthResult.monthlyLimitHit) combinedMonthlyLimitHit = true
-
-			// Track cross-month minimum balance (the month tracks its own minBalance)
-			runMinBalance = Math.min(runMinBalance, monthResult.minBalance)
-
-			// Update accumulated profit for fixedRatio mode
-			accumulatedProfit += monthResult.totalPnl
-
-			// Carry forward balance for next month
-			balance = monthResult.finalBalance
-
-			// Cross-month drawdown tracking
-			peakBalance = Math.max(peakBalance, balance)
-			const drawdown = peakBalance - balance
-			const drawdownPct = peakBalance > 0 ? (drawdown / peakBalance) * 100 : 0
-			if (drawdownPct > combinedMaxDrawdownPercent) {
-				combinedMaxDrawdown = drawdown
-				combinedMaxDrawdownPercent = drawdownPct
-			}
+		// Track cross-month minimum balance (the month tracks its own minBalance)
+		runMinBalance = Math.min(runMinBalance, monthResult.minBalance)
+
+		// Update accumulated profit for fixedRatio mode
+		accumulatedProfit += monthResult.totalPnl
+
+		// Carry forward balance for next month
+		balance = monthResult.finalBalance
+
+		// Cross-month drawdown tracking
+		peakBalance = Math.max(peakBalance, balance)
+		const drawdown = peakBalance - balance
+		const drawdownPct = peakBalance > 0 ? (drawdown / peakBalance) * 100 : 0
+		if (drawdownPct > combinedMaxDrawdownPercent) {
+			combinedMaxDrawdown = drawdown
+			combinedMaxDrawdownPercent = drawdownPct
 		}
+	}
 
-		const ruinLevel =
-			params.initialBalance * (1 - params.ruinThresholdPercent / 100)
-
-		runs.push({
-			days: combinedDays,
-			totalPnl: combinedTotalPnl,
-			totalTrades: combinedTotalTrades,
-			totalTradingDays: combinedTotalTradingDays,
-			daysInLossRecovery: combinedDaysInLossRecovery,
-			daysInGainCompounding: combinedDaysInGainCompounding,
-			daysSkippedWeeklyLimit: combinedDaysSkippedWeeklyLimit,
-			daysSkippedMonthlyLimit: combinedDaysSkippedMonthlyLimit,
-			daysTargetHit: combinedDaysTargetHit,
-			timesWeeklyLimitHit: combinedTimesWeeklyLimitHit,
-			monthlyLimitHit: combinedMonthlyLimitHit,
-			maxDrawdown: combinedMaxDrawdown,
-			maxDrawdownPercent: combinedMaxDrawdownPercent,
-			finalBalance: balance,
-			totalReturnPercent:
-				((balance - params.initialBalance) / params.initialBalance) * 100,
-			minBalance: runMinBalance,
-			reachedRuin: runMinBalance <= ruinLevel,
-		})
+	const ruinLevel =
+		params.initialBalance * (1 - params.ruinThresholdPercent / 100)
+
+	return {
+		days: combinedDays,
+		totalPnl: combinedTotalPnl,
+		totalTrades: combinedTotalTrades,
+		totalTradingDays: combinedTotalTradingDays,
+		daysInLossRecovery: combinedDaysInLossRecovery,
+		daysInGainCompounding: combinedDaysInGainCompounding,
+		daysSkippedWeeklyLimit: combinedDaysSkippedWeeklyLimit,
+		daysSkippedMonthlyLimit: combinedDaysSkippedMonthlyLimit,
+		daysTargetHit: combinedDaysTargetHit,
+		timesWeeklyLimitHit: combinedTimesWeeklyLimitHit,
+		monthlyLimitHit: combinedMonthlyLimitHit,
+		maxDrawdown: combinedMaxDrawdown,
+		maxDrawdownPercent: combinedMaxDrawdownPercent,
+		finalBalance: balance,
+		totalReturnPercent:
+			((balance - params.initialBalance) / params.initialBalance) * 100,
+		minBalance: runMinBalance,
+		reachedRuin: runMinBalance <= ruinLevel,
+	}
+}
+
+/**
+ * Drops a run's day detail, keeping its balance at the equity fan steps
+ * (`getFanSteps(getDayCountV2(params) + 1)`) and what its path says about
+ * the profit target and drawdowns — all the result needs besides the sample
+ * run, which is rebuilt from its index. Path checks use end-of-day balances.
+ */
+const summarizeRunV2 = (
+	{ days, ...run }: SimulationRunV2,
+	runIndex: number,
+	params: SimulationParamsV2,
+	fanSteps: number[]
+): SimulationRunSummaryV2 => {
+	const targetLevel =
+		params.initialBalance * (1 + params.profitTargetPercent / 100)
+	const floorLevel =
+		params.initialBalance * (1 - params.drawdownFloorPercent / 100)
+
+	const balances = [params.initialBalance]
+	let daysToTarget: number | null = null
+	let floorHitFirst = false
+	let peakBalance = params.initialBalance
+	let drawdownDays = 0
+	let longestDrawdownDays = 0
+
+	for (const day of days) {
+		const balance = balances[balances.length - 1] + day.dayPnl
+		balances.push(balance)
+
+		// The race ends at whichever level is crossed first
+		if (daysToTarget === null && !floorHitFirst) {
+			if (balance <= floorLevel) floorHitFirst = true
+			else if (balance >= targetLevel) daysToTarget = balances.length - 1
+		}
+
+		if (balance >= peakBalance) {
+			peakBalance = balance
+			drawdownDays = 0
+		} else {
+			drawdownDays++
+			longestDrawdownDays = Math.max(longestDrawdownDays, drawdownDays)
+		}
 	}
 
-	const statistics = aggregateStatisticsV2(runs, params)
-	const distributionBuckets = calculateDistributionV2(runs)
+	return {
+		...run,
+		runIndex,
+		fanBalances: fanSteps.map((step) => balances[step]),
+		daysToTarget,
+		floorHitFirst,
+		longestDrawdownDays,
+	}
+}
+
+/**
+ * Assembles the result from every run's summary, in run order. The median
+ * run by total P&L is re-simulated from its index for the sample run charts.
+ */
+const buildResultV2 = (
+	params: SeededSimulationParamsV2,
+	summaries: SimulationRunSummaryV2[],
+	empirical?: EmpiricalRSource
+): MonteCarloResultV2 => {
+	const statistics = aggregateStatisticsV2(summaries, params)
+	const distributionBuckets = calculateDistributionV2(summaries)
 
 	// Find median run by total P&L
-	const sortedByPnl = runs.toSorted((a, b) => a.totalPnl - b.totalPnl)
+	const sortedByPnl = summaries.toSorted((a, b) => a.totalPnl - b.totalPnl)
 	const medianIndex = Math.floor(sortedByPnl.length / 2)
-	const sampleRun = sortedByPnl[medianIndex]
+	const sampleRun = simulateRunV2(
+		params,
+		sortedByPnl[medianIndex].runIndex,
+		empirical
+	)
+
+	const stepCount = getDayCountV2(params) + 1
+	const fanStepIndex = new Map(
+		getFanSteps(stepCount).map((step, index) => [step, index])
+	)
+	const equityFan = buildEquityFan(
+		summaries.length,
+		stepCount,
+		(run, step) => summaries[run].fanBalances[fanStepIndex.get(step)!]
+	)
+	const pathStatistics = aggregatePathStatisticsV2(summaries)
+
+	return {
+		params,
+		statistics,
+		distributionBuckets,
+		sampleRun,
+		equityFan,
+		pathStatistics,
+	}
+}
+
+/**
+ * Runs the full V2 Monte Carlo simulation: N simulated months,
+ * each respecting the decision tree (loss recovery, gain compounding,
+ * cascading weekly/monthly limits).
+ *
+ * Key difference from V1: V1 treats trades as independent coin flips.
+ * V2 simulates **days** — each day follows the decision tree to determine
+ * how many trades to take and at what risk, producing a daily P&L that
+ * accumulates into weekly and monthly results.
+ *
+ * Seeded like V1: `params.seed` (or a fresh one, echoed back on the result)
+ * drives every roll and bootstrap draw, so a stored seed replays the run.
+ * This runs every simulation in one pass; the app runs the same steps in
+ * batches (see monte-carlo-v2-jobs.ts) with equal results.
+ */
+const runMonteCarloV2 = (
+	inputParams: SimulationParamsV2,
+	empirical?: EmpiricalRSource
+): MonteCarloResultV2 => {
+	const params = seedParamsV2(inputParams)
+	const fanSteps = getFanSteps(getDayCountV2(params) + 1)
+	const summaries: SimulationRunSummaryV2[] = []
+
+	for (let i = 0; i < params.simulationCount; i++) {
+		const run = simulateRunV2(params, i, empirical)
+		summaries.push(summarizeRunV2(run, i, params, fanSteps))
+	}
 
-	return { params, statistics, distributionBuckets, sampleRun }
+	return buildResultV2(params, summaries, empirical)
 }
 
 // ==========================================
@@ -342,7 +480,8 @@ const simulateMonth = (
 	profile: RiskManagementProfileForSim,
 	simInitialBalance: number,
 	monthStartBalance: number,
-	accumulatedProfit: number
+	accumulatedProfit: number,
+	draws: TradeDraws
 ): SimulationRunV2 => {
 	let balance = monthStartBalance
 	let peakBalance = balance
@@ -478,7 +617,8 @@ const simulateMonth = (
 			weekNumber,
 			adjustedBaseRisk,
 			effectiveLimits.daily,
-			effectiveRecoveryRisks
+			effectiveRecoveryRisks,
+			draws
 		)
 		days.push(day)
 
@@ -566,7 +706,8 @@ const simulateDay = (
 	weekNumber: number,
 	effectiveBaseRisk: number,
 	effectiveDailyLimit: number,
-	effectiveRecoveryRisks: number[]
+	effectiveRecoveryRisks: number[],
+	draws: TradeDraws
 ): SimulatedDay => {
 	const trades: SimulatedTradeV2[] = []
 	let dayPnl = 0
@@ -582,6 +723,7 @@ const simulateDay = (
 		mode: "base",
 		dayPnl: 0,
 		currentBalance,
+		draws,
 	})
 	trades.push(t1)
 	dayPnl += t1.pnl
@@ -610,6 +752,7 @@ const simulateDay = (
 				mode: "lossRecovery",
 				dayPnl,
 				currentBalance: currentBalance + dayPnl,
+				draws,
 			})
 			trades.push(recoveryTrade)
 			dayPnl += recoveryTrade.pnl
@@ -664,6 +807,7 @@ const simulateDay = (
 					mode: "gainCompounding",
 					dayPnl,
 					currentBalance: currentBalance + dayPnl,
+					draws,
 				})
 				trades.push(compoundTrade)
 				dayPnl += compoundTrade.pnl
@@ -710,6 +854,13 @@ const simulateDay = (
 // SINGLE TRADE SIMULATION
 // ==========================================
 
+/** Per-run randomness: the seeded generator plus the optional R resampler */
+interface TradeDraws {
+	random: () => number
+	/** Resampled realized R-multiples; replaces the win/loss/breakeven roll */
+	drawR: (() => number) | null
+}
+
 interface SimulateTradeParams {
 	profile: RiskManagementProfileForSim
 	riskAmount: number
@@ -718,6 +869,7 @@ interface SimulateTradeParams {
 	mode: TradeMode
 	dayPnl: number
 	currentBalance: number
+	draws: TradeDraws
 }
 
 const simulateTrade = ({
@@ -728,12 +880,30 @@ const simulateTrade = ({
 	mode,
 	dayPnl,
 	currentBalance,
+	draws,
 }: SimulateTradeParams): SimulatedTradeV2 => {
 	const commission = profile.commissionPerTradeCents
 
+	if (draws.drawR) {
+		const rMultiple = draws.drawR()
+		const pnl = Math.round(riskAmount * rMultiple) - commission
+		return {
+			dayNumber,
+			tradeNumberInDay,
+			mode,
+			riskAmount,
+			isWin: rMultiple > 0,
+			isBreakeven: rMultiple === 0,
+			pnl,
+			commission,
+			accumulatedDayPnl: dayPnl + pnl,
+			balanceAfter: currentBalance + pnl,
+		}
+	}
+
 	// Three-outcome roll: breakeven first, then win/loss among decisive trades
 	// breakevenRate is % of ALL trades; winRate is % of decisive (non-BE) trades
-	const roll = Math.random() * 100
+	const roll = draws.random() * 100
 	const isBreakeven = roll < profile.breakevenRate
 	const isWin =
 		!isBreakeven &&
@@ -784,7 +954,7 @@ const makeSkippedDay = (
 // ==========================================
 
 const aggregateStatisticsV2 = (
-	runs: SimulationRunV2[],
+	runs: Omit<SimulationRunV2, "days">[],
 	params: SimulationParamsV2
 ): SimulationStatisticsV2 => {
 	const pnls = runs.map((r) => r.totalPnl).toSorted((a, b) => a - b)
@@ -880,7 +1050,7 @@ const aggregateStatisticsV2 = (
 // ==========================================
 
 const calculateDistributionV2 = (
-	runs: SimulationRunV2[]
+	runs: Omit<SimulationRunV2, "days">[]
 ): DistributionBucket[] => {
 	const pnls = runs.map((r) => r.totalPnl)
 	let min = Infinity
@@ -914,4 +1084,72 @@ const calculateDistributionV2 = (
 	return buckets
 }
 
-export { runMonteCarloV2 }
+/**
+ * Target race and drawdown duration across runs. Durations are whole trading
+ * days, so the distribution uses integer-wide buckets (at most 20).
+ */
+const aggregatePathStatisticsV2 = (
+	runs: SimulationRunSummaryV2[]
+): PathStatisticsV2 => {
+	const median = (arr: number[]): number => {
+		const mid = Math.floor(arr.length / 2)
+		return arr.length % 2 !== 0 ? arr[mid] : (arr[mid - 1] + arr[mid]) / 2
+	}
+
+	const percentile = (arr: number[], p: number): number => {
+		const idx = Math.ceil((p / 100) * arr.length) - 1
+		return arr[Math.max(0, Math.min(idx, arr.length - 1))]
+	}
+
+	const daysToTarget = runs
+		.flatMap((r) => (r.daysToTarget === null ? [] : [r.daysToTarget]))
+		.toSorted((a, b) => a - b)
+	const floorHits = runs.filter((r) => r.floorHitFirst).length
+	const durations = runs
+		.map((r) => r.longestDrawdownDays)
+		.toSorted((a, b) => a - b)
+
+	const minDuration = durations[0]
+	const maxDuration = durations[durations.length - 1]
+	const bucketSize = Math.max(
+		1,
+		Math.ceil((maxDuration - minDuration + 1) / 20)
+	)
+	const longestDrawdownBuckets: DistributionBucket[] = []
+	for (
+		let rangeStart = minDuration;
+		rangeStart <= maxDuration;
+		rangeStart += bucketSize
+	) {
+		const rangeEnd = rangeStart + bucketSize
+		const count = durations.filter(
+			(d) => d >= rangeStart && d < rangeEnd
+		).length
+		longestDrawdownBuckets.push({
+			rangeStart,
+			rangeEnd,
+			count,
+			percentage: (count / runs.length) * 100,
+		})
+	}
+
+	return {
+		targetBeforeFloorPercent: (daysToTarget.length / runs.length) * 100,
+		floorBeforeTargetPercent: (floorHits / runs.length) * 100,
+		medianDaysToTarget: daysToTarget.length > 0 ? median(daysToTarget) : null,
+		medianLongestDrawdownDays: median(durations),
+		worstLongestDrawdownDays: percentile(durations, 95),
+		longestDrawdownBuckets,
+	}
+}
+
+export {
+	runMonteCarloV2,
+	seedParamsV2,
+	getDayCountV2,
+	simulateRunV2,
+	summarizeRunV2,
+	buildResultV2,
+	aggregateStatisticsV2,
+	type SeededSimulationParamsV2,
+}
@@ -0,0 +1,70 @@
+/**
+ * Worker thread entry for Capital Expectancy (V2) jobs: simulates a
+ * contiguous slice of a simulation's runs and posts their summaries back in
+ * batches, so the job can report progress while the slice is still running.
+ */
+
+import { parentPort, workerData } from "node:worker_threads"
+import { getFanSteps } from "@/lib/equity-fan"
+import {
+	getDayCountV2,
+	simulateRunV2,
+	summarizeRunV2,
+	type SeededSimulationParamsV2,
+} from "@/lib/monte-carlo-v2"
+import type {
+	EmpiricalRSource,
+	SimulationRunSummaryV2,
+} from "@/types/monte-carlo"
+
+/** Runs posted per message — small enough for steady progress updates */
+const BATCH_SIZE = 250
+
+interface MonteCarloV2WorkerInput {
+	params: SeededSimulationParamsV2
+	empirical: EmpiricalRSource | null
+	fromRun: number
+	toRun: number // exclusive
+}
+
+type MonteCarloV2WorkerMessage =
+	| { type: "batch"; summaries: SimulationRunSummaryV2[] }
+	| { type: "done" }
+
+const simulateSlice = ({
+	params,
+	empirical,
+	fromRun,
+	toRun,
+}: MonteCarloV2WorkerInput) => {
+	const port = parentPort
+	if (!port) return
+
+	const fanSteps = getFanSteps(getDayCountV2(params) + 1)
+	let batch: SimulationRunSummaryV2[] = []
+
+	for (let runIndex = fromRun; runIndex < toRun; runIndex++) {
+		const run = simulateRunV2(params, runIndex, empirical ?? undefined)
+		batch.push(summarizeRunV2(run, runIndex, params, fanSteps))
+
+		if (batch.length === BATCH_SIZE) {
+			port.postMessage({
+				type: "batch",
+				summaries: batch,
+			} satisfies MonteCarloV2WorkerMessage)
+			batch = []
+		}
+	}
+
+	if (batch.length > 0) {
+		port.postMessage({
+			type: "batch",
+			summaries: batch,
+		} satisfies MonteCarloV2WorkerMessage)
+	}
+	port.postMessage({ type: "done" } satisfies MonteCarloV2WorkerMessage)
+}
+
+simulateSlice(workerData as MonteCarloV2WorkerInput)
+
+export type { MonteCarloV2WorkerInput, MonteCarloV2WorkerMessage }
@@ -5,25 +5,44 @@ import type {
 	SimulationStatistics,
 	MonteCarloResult,
 	DistributionBucket,
+	EmpiricalRSource,
 } from "@/types/monte-carlo"
+import { createRSampler } from "@/lib/r-bootstrap"
+import { createPrng, createSeed } from "@/lib/prng"
+import { buildEquityFan } from "@/lib/equity-fan"
 
 /**
  * Run a Monte Carlo simulation in R-multiples (Edge Expectancy).
  * Every trade risks exactly 1R. Wins pay +rewardRiskRatio R, losses cost -1R.
  * No balance tracking — this measures pure strategy quality.
+ *
+ * With an empirical source, each trade's R is resampled from the trader's
+ * realized R-multiples instead (winRate/rewardRiskRatio then only feed Kelly).
+ *
+ * All randomness comes from one generator seeded with `params.seed` (a fresh
+ * seed when omitted); the returned params carry the seed that was used.
  */
 export const runMonteCarloSimulation = (
-	params: SimulationParams
+	inputParams: SimulationParams,
+	empirical?: EmpiricalRSource
 ): MonteCarloResult => {
+	const params = { ...inputParams, seed: inputParams.seed ?? createSeed() }
+	const random = createPrng(params.seed)
 	const runs: SimulationRun[] = []
 
 	for (let i = 0; i < params.simulationCount; i++) {
-		const run = simulateSingleRun(params, i)
+		const drawR = empirical ? createRSampler(empirical, random) : null
+		const run = simulateSingleRun(params, i, random, drawR)
 		runs.push(run)
 	}
 
 	const statistics = aggregateStatistics(params, runs)
 	const distributionBuckets = calculateDistribution(runs)
+	const equityFan = buildEquityFan(
+		runs.length,
+		params.numberOfTrades + 1,
+		(run, step) => (step === 0 ? 0 : runs[run].trades[step - 1].cumulativeR)
+	)
 
 	// Find median run for sample display
 	const sortedByFinalR = runs.toSorted(
@@ -37,12 +56,15 @@ export const runMonteCarloSimulation = (
 		statistics,
 		distributionBuckets,
 		sampleRun,
+		equityFan,
 	}
 }
 
 const simulateSingleRun = (
 	params: SimulationParams,
-	runId: number
+	runId: number,
+	random: () => number,
+	drawR: (() => number) | null
 ): SimulationRun => {
 	let cumulativeR = 0
 	let peakR = 0
@@ -58,20 +80,29 @@ const simulateSingleRun = (
 	const commissionFraction = params.commissionImpactR / 100
 
 	for (let t = 0; t < params.numberOfTrades; t++) {
-		const isWin = Math.random() * 100 < params.winRate
+		const sampledR = drawR ? drawR() : null
+		const isWin =
+			sampledR !== null ? sampledR > 0 : random() * 100 < params.winRate
 		const commission = commissionFraction // expressed in R units
 
 		let rResult: number
-		if (isWin) {
+		if (sampledR !== null) {
+			// Realized outcome: keeps the trader's actual payoff shape
+			rResult = sampledR - commission
+		} else if (isWin) {
 			// Win: earn rewardRiskRatio R, minus commission
 			rResult = params.rewardRiskRatio - commission
+		} else {
+			// Loss: lose 1R, plus commission
+			rResult = -1 - commission
+		}
+
+		if (isWin) {
 			winCount++
 			currentWinStreak++
 			currentLossStreak = 0
 			maxWinStreak = Math.max(maxWinStreak, currentWinStreak)
 		} else {
-			// Loss: lose 1R, plus commission
-			rResult = -1 - commission
 			lossCount++
 			currentLossStreak++
 			currentWinStreak = 0
@@ -0,0 +1,88 @@
+/**
+ * Pure helpers to split a nota's official costs back onto the trades it covers.
+ *
+ * Costs are distributed proportionally to the contracts each trade executed on the
+ * nota, using largest-remainder rounding so the per-trade cents always add up to
+ * exactly what the broker charged.
+ */
+
+import type { NotaCostTotals, TradeCostAllocation } from "./types"
+
+/** Cost row fields needed to derive the commission/fees split */
+interface NotaCostBreakdown {
+	brokerageCents: number
+	operationalFeesCents: number
+	settlementFeeCents: number
+	registrationFeeCents: number
+	bmfFeesCents: number
+}
+
+/** Contracts a trade executed on a single nota (sum of its fill quantities) */
+interface TradeContractWeight {
+	tradeId: string
+	contracts: number
+}
+
+/**
+ * Collapse the nota footer into the commission/fees split used on trades.
+ * BM&F notas print brokerage per fill ("Taxa operacional") instead of in the footer,
+ * so the fill total is used when the footer brokerage is empty.
+ */
+const getNotaCostTotals = (costs: NotaCostBreakdown): NotaCostTotals => {
+	const commissionCents = costs.brokerageCents > 0 ? costs.brokerageCents : costs.operationalFeesCents
+	const feesCents = costs.settlementFeeCents + costs.registrationFeeCents + costs.bmfFeesCents
+	return {
+		commissionCents,
+		feesCents,
+		totalCents: commissionCents + feesCents,
+	}
+}
+
+/**
+ * Split an amount in cents across weights, assigning leftover cents to the largest remainders.
+ */
+const splitProportionally = (amountCents: number, weights: number[]): number[] => {
+	const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+	if (totalWeight <= 0 || amountCents === 0) return weights.map(() => 0)
+
+	const exactShares = weights.map((weight) => (amountCents * weight) / totalWeight)
+	const shares = exactShares.map(Math.floor)
+	let leftover = amountCents - shares.reduce((sum, share) => sum + share, 0)
+
+	const byRemainder = exactShares
+		.map((exact, index) => ({ index, remainder: exact - Math.floor(exact) }))
+		.toSorted((a, b) => b.remainder - a.remainder || a.index - b.index)
+
+	for (const { index } of byRemainder) {
+		if (leftover <= 0) break
+		shares[index] += 1
+		leftover -= 1
+	}
+
+	return shares
+}
+
+/**
+ * Allocate a nota's commission and fees across the trades it covers, weighted by contracts.
+ *
+ * @param totals - Official nota costs (see getNotaCostTotals)
+ * @param weights - Contracts executed per trade on this nota
+ * @returns One allocation per weighted trade; sums match the nota totals exactly
+ */
+const allocateNotaCosts = (
+	totals: NotaCostTotals,
+	weights: TradeContractWeight[]
+): TradeCostAllocation[] => {
+	const contractWeights = weights.map((weight) => Math.max(0, weight.contracts))
+	const commissionShares = splitProportionally(totals.commissionCents, contractWeights)
+	const feeShares = splitProportionally(totals.feesCents, contractWeights)
+
+	return weights.map((weight, index) => ({
+		tradeId: weight.tradeId,
+		commissionCents: commissionShares[index],
+		feesCents: feeShares[index],
+	}))
+}
+
+export { getNotaCostTotals, allocateNotaCosts }
+export type { NotaCostBreakdown, TradeContractWeight }
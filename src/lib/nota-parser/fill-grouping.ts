@@ -0,0 +1,152 @@
+/**
+ * Groups nota fills that did not match any journaled trade into round trips,
+ * so they can be offered for creation as new scaled trades.
+ *
+ * Notas carry no execution times, so fills are walked in nota sequence order per
+ * asset: a round trip opens when the position leaves flat and closes when it
+ * returns to flat. A fill that flips the position is split into the closing part
+ * and the opening part of the next round trip. P&L uses the same FIFO matching
+ * as manually entered scaled trades (`calculateFifoPnL`).
+ */
+
+import { calculateFifoPnL, type ExecutionForPnL, type FifoPnLResult } from "@/lib/calculations"
+import type { NotaFill, NotaRoundTrip } from "./types"
+
+/**
+ * Take part of a fill, prorating its value and operational fee.
+ */
+const splitFill = (fill: NotaFill, quantity: number): NotaFill => {
+	if (quantity === fill.quantity) return fill
+	const ratio = quantity / fill.quantity
+	return {
+		...fill,
+		quantity,
+		operationValue: fill.operationValue * ratio,
+		operationalFee: fill.operationalFee * ratio,
+	}
+}
+
+const sumQuantity = (fills: NotaFill[]): number => fills.reduce((sum, fill) => sum + fill.quantity, 0)
+
+const weightedAveragePrice = (fills: NotaFill[]): number => {
+	const quantity = sumQuantity(fills)
+	return quantity > 0 ? fills.reduce((sum, fill) => sum + fill.price * fill.quantity, 0) / quantity : 0
+}
+
+const buildRoundTrip = (
+	asset: string,
+	direction: "long" | "short",
+	entryFills: NotaFill[],
+	exitFills: NotaFill[],
+	status: NotaRoundTrip["status"]
+): NotaRoundTrip => ({
+	asset,
+	direction,
+	entryFills,
+	exitFills,
+	entryQuantity: sumQuantity(entryFills),
+	exitQuantity: sumQuantity(exitFills),
+	avgEntryPrice: weightedAveragePrice(entryFills),
+	avgExitPrice: exitFills.length > 0 ? weightedAveragePrice(exitFills) : null,
+	status,
+})
+
+/**
+ * Group fills into flat-to-flat round trips per asset.
+ * A position still open at the end of the nota becomes an "open" round trip without exits.
+ *
+ * @param fills - Fills to group (typically the unmatched fills of a nota)
+ * @returns Round trips ordered by asset, then by nota sequence
+ */
+const groupFillsIntoRoundTrips = (fills: NotaFill[]): NotaRoundTrip[] => {
+	const fillsByAsset = new Map<string, NotaFill[]>()
+	for (const fill of fills) {
+		const assetFills = fillsByAsset.get(fill.normalizedAsset) ?? []
+		assetFills.push(fill)
+		fillsByAsset.set(fill.normalizedAsset, assetFills)
+	}
+
+	const roundTrips: NotaRoundTrip[] = []
+
+	for (const [asset, assetFills] of fillsByAsset) {
+		const sorted = assetFills.toSorted((a, b) => a.sequenceNumber - b.sequenceNumber)
+
+		let direction: "long" | "short" = "long"
+		let openQuantity = 0
+		let entryFills: NotaFill[] = []
+		let exitFills: NotaFill[] = []
+
+		for (const fill of sorted) {
+			const fillDirection = fill.side === "C" ? "long" : "short"
+
+			if (openQuantity === 0) {
+				direction = fillDirection
+				entryFills = [fill]
+				exitFills = []
+				openQuantity = fill.quantity
+				continue
+			}
+
+			if (fillDirection === direction) {
+				entryFills.push(fill)
+				openQuantity += fill.quantity
+				continue
+			}
+
+			const closingQuantity = Math.min(openQuantity, fill.quantity)
+			exitFills.push(splitFill(fill, closingQuantity))
+			openQuantity -= closingQuantity
+
+			if (openQuantity === 0) {
+				roundTrips.push(buildRoundTrip(asset, direction, entryFills, exitFills, "closed"))
+
+				// Position flipped: the remainder opens the next round trip
+				const remainder = fill.quantity - closingQuantity
+				if (remainder > 0) {
+					direction = fillDirection
+					entryFills = [splitFill(fill, remainder)]
+					exitFills = []
+					openQuantity = remainder
+				}
+			}
+		}
+
+		if (openQuantity > 0) {
+			roundTrips.push(buildRoundTrip(asset, direction, entryFills, exitFills, "open"))
+		}
+	}
+
+	return roundTrips
+}
+
+/**
+ * FIFO P&L of a round trip, net of the fills' operational fees.
+ *
+ * @param roundTrip - Round trip built by groupFillsIntoRoundTrips
+ * @param executionDate - Session date used for every execution (notas have no times)
+ * @param asset - Optional tick config for tick-based P&L (tickValue in currency, not cents)
+ */
+const calculateRoundTripPnl = (
+	roundTrip: NotaRoundTrip,
+	executionDate: Date,
+	asset?: { tickSize: number; tickValue: number }
+): FifoPnLResult => {
+	const toExecution = (fill: NotaFill, executionType: "entry" | "exit"): ExecutionForPnL => ({
+		executionType,
+		executionDate,
+		price: fill.price,
+		quantity: fill.quantity,
+		commission: fill.operationalFee,
+	})
+
+	return calculateFifoPnL(
+		[
+			...roundTrip.entryFills.map((fill) => toExecution(fill, "entry")),
+			...roundTrip.exitFills.map((fill) => toExecution(fill, "exit")),
+		],
+		roundTrip.direction,
+		asset
+	)
+}
+
+export { groupFillsIntoRoundTrips, calculateRoundTripPnl }
@@ -1,11 +1,29 @@
 export type {
 	NotaFill,
+	NotaOptionSeries,
 	NotaParseResult,
 	AssetFillGroup,
 	EnrichmentMatch,
 	NotaEnrichmentPreview,
 	ConfirmedEnrichment,
+	NotaFooterSummary,
+	NotaCostTotals,
+	TradeCostAllocation,
+	NotaCostReconciliationNota,
+	NotaCostReconciliationDay,
+	NotaRoundTrip,
+	NotaTradeCandidate,
+	NotaImportInput,
 } from "./types"
 
-export { parseSinacorNota, parseBrazilianNumber, normalizeAssetName } from "./sinacor-parser"
+export {
+	parseSinacorPdf,
+	parseSinacorText,
+	splitNotaPages,
+	parseBrazilianNumber,
+	normalizeAssetName,
+	normalizeEquityTicker,
+} from "./sinacor-parser"
 export { matchNotaFillsToTrades, groupFillsByAsset } from "./matching-engine"
+export { getNotaCostTotals, allocateNotaCosts } from "./cost-allocation"
+export { groupFillsIntoRoundTrips, calculateRoundTripPnl } from "./fill-grouping"
@@ -159,6 +159,7 @@ const matchTradeToGroup = (
 
 /**
  * Match nota fills against existing trades for a given account.
+ * Trade candidates for the unmatched fills are built by the caller (needs asset config).
  *
  * @param fills - Parsed fills from the nota
  * @param notaDate - Session date from the nota header
@@ -170,7 +171,7 @@ const matchNotaFillsToTrades = async (
 	notaDate: Date,
 	accountId: string,
 	userId: string,
-): Promise<NotaEnrichmentPreview> => {
+): Promise<Omit<NotaEnrichmentPreview, "tradeCandidates" | "alreadyImported">> => {
 	const matches: EnrichmentMatch[] = []
 	const allUnmatchedFills: NotaFill[] = []
 	const allUnmatchedTrades: Trade[] = []
@@ -8,9 +8,13 @@
  *   { pages: [{ text, num }], text, total }
  *
  * The text is tab-delimited (\t) with newline-separated rows (\n).
+ *
+ * Monthly PDFs concatenate one nota per trading day (each possibly spanning
+ * several pages), so pages are grouped by nota number and parsed separately.
+ * Both BM&F (futures) and BOVESPA (cash-market equities and options) rows are read.
  */
 
-import type { NotaFill, NotaParseResult } from "./types"
+import type { NotaFill, NotaOptionSeries, NotaParseResult } from "./types"
 
 // B3 futures contract prefixes → normalized "FUT" suffix
 const B3_FUT_PREFIXES = ["WIN", "WDO", "DOL", "IND", "BGI", "CCM", "ICF", "SFI", "DI1"]
@@ -18,6 +22,15 @@ const B3_FUT_PREFIXES = ["WIN", "WDO", "DOL", "IND", "BGI", "CCM", "ICF", "SFI",
 // B3 month codes: F=Jan, G=Feb, H=Mar, J=Apr, K=May, M=Jun, N=Jul, Q=Aug, U=Sep, V=Oct, X=Nov, Z=Dec
 const B3_MONTH_CODES = "FGHJKMN QUVXZ" // space at index 7 is intentional (no August letter at that position)
 
+// Cash-market tickers: 4 letters + share class digits, optional fractional-market "F" (e.g. PETR4F)
+const B3_EQUITY_TICKER_PATTERN = /^([A-Z]{4}\d{1,2})F?$/
+
+// Listed options: 4-letter root + month letter (A-L calls, M-X puts) + strike code, optional E/W1-W5 suffix
+const B3_OPTION_TICKER_PATTERN = /^([A-Z]{4})([A-X])(\d{1,4})(E|W\d)?$/
+
+// Negotiation column of BOVESPA rows, e.g. "1-BOVESPA"
+const BOVESPA_ROW_PATTERN = /^(\d-)?BOVESPA$/i
+
 /**
  * Parse a Brazilian-format number: 183.975,0000 → 183975.0
  * Handles: dots as thousands, comma as decimal.
@@ -117,6 +130,10 @@ const parseNotaNumber = (text: string): string => {
 	const nrNotaMatch = text.match(/Nr\.\s*nota\s*\n?\s*(\d+)/i)
 	if (nrNotaMatch) return nrNotaMatch[1]
 
+	// BOVESPA layout: "Nr. nota\tFolha\tData pregão" header, values on the next line
+	const bovespaHeaderMatch = text.match(/Nr\.?\s*nota[^\n]*\n\s*(\d+)/i)
+	if (bovespaHeaderMatch) return bovespaHeaderMatch[1]
+
 	return ""
 }
 
@@ -149,6 +166,123 @@ const parseBrokerName = (text: string): string => {
 	return "nota.unknownBroker"
 }
 
+/**
+ * Parse an integer quantity printed with thousands dots (e.g. "1.000" → 1000).
+ */
+const parseQuantity = (value: string): number => parseInt(value.replace(/\./g, "").trim() || "0", 10)
+
+/**
+ * Option series encoded in a B3 option ticker.
+ * Month letters A-L are calls (Jan-Dec) and M-X are puts (Jan-Dec).
+ * The strike is read from the specification when printed (e.g. "PETRB400 PN 40,00 PETR").
+ */
+const parseOptionSeries = (ticker: string, specificationTokens: string[]): NotaOptionSeries | null => {
+	const match = ticker.match(B3_OPTION_TICKER_PATTERN)
+	if (!match) return null
+
+	const monthIndex = match[2].charCodeAt(0) - "A".charCodeAt(0)
+	const strikeToken = specificationTokens.find((token) => /^\d[\d.]*,\d+$/.test(token))
+
+	return {
+		underlying: match[1],
+		optionType: monthIndex < 12 ? "call" : "put",
+		expiryMonth: (monthIndex % 12) + 1,
+		strike: strikeToken ? parseBrazilianNumber(strikeToken) : null,
+	}
+}
+
+/**
+ * Normalize a BOVESPA "Especificação do título" to a ticker.
+ * Examples:
+ *   "PETR4 PN N2"             → "PETR4"
+ *   "VALE3F ON NM"            → "VALE3"    (fractional market trades the same stock)
+ *   "PETRB400 PN 40,00 PETR"  → "PETRB400" (option, series parsed separately)
+ *
+ * Notas that print only the company name (e.g. "PETROBRAS PN N2") can't be resolved
+ * to a ticker; the collapsed specification is kept so the fill is still importable.
+ */
+const normalizeEquityTicker = (
+	specification: string
+): { normalizedAsset: string; optionSeries: NotaOptionSeries | null; resolved: boolean } => {
+	const tokens = specification.trim().toUpperCase().split(/\s+/).filter(Boolean)
+
+	for (const token of tokens) {
+		const optionSeries = parseOptionSeries(token, tokens)
+		if (optionSeries) {
+			return { normalizedAsset: token, optionSeries, resolved: true }
+		}
+
+		const equityMatch = token.match(B3_EQUITY_TICKER_PATTERN)
+		if (equityMatch) {
+			return { normalizedAsset: equityMatch[1], optionSeries: null, resolved: true }
+		}
+	}
+
+	return { normalizedAsset: tokens.join(" "), optionSeries: null, resolved: false }
+}
+
+/**
+ * Parse a BOVESPA row from "Negócios realizados".
+ *
+ * Columns (empty ones may be dropped by pdf-parse, so the numeric tail is read from the end):
+ *   Negociação | C/V | Tipo mercado | Prazo | Especificação do título | Obs. (*) | Quantidade | Preço / Ajuste | Valor Operação / Ajuste | D/C
+ *
+ * Example pdf-parse output:
+ *   "1-BOVESPA \tC \tVISTA \t\tPETR4 PN N2 \t\t100 \t35,20 \t3.520,00 \tD"
+ *   "1-BOVESPA \tV \tOPCAO DE COMPRA \t02/26 \tPETRB400 PN 40,00 PETR \tD \t100 \t1,20 \t120,00 \tC"
+ */
+const parseBovespaRow = (
+	columns: string[],
+	sequenceNumber: number
+): { fill: NotaFill | null; warning: string | null } => {
+	const side = columns[1]
+	if ((side !== "C" && side !== "V") || columns.length < 7) {
+		return { fill: null, warning: `Row ${sequenceNumber}: unrecognized BOVESPA row, skipping` }
+	}
+
+	const marketType = columns[2] || "VISTA"
+	const debitCredit: "D" | "C" = columns.at(-1) === "C" ? "C" : "D"
+	const operationValue = parseBrazilianNumber(columns.at(-2) || "0")
+	const price = parseBrazilianNumber(columns.at(-3) || "0")
+	const quantity = parseQuantity(columns.at(-4) || "0")
+
+	// Middle columns: optional prazo (MM/YY), the specification, then Obs. codes
+	const middle = columns.slice(3, -4).filter(Boolean)
+	const prazo = middle.find((col) => /^\d{2}\/\d{2,4}$/.test(col)) ?? null
+	const [specification = "", ...observations] = middle.filter((col) => col !== prazo)
+
+	if (quantity <= 0 || price <= 0 || !specification) {
+		return { fill: null, warning: `Row ${sequenceNumber}: invalid quantity (${quantity}), price (${price}) or asset, skipping` }
+	}
+
+	const { normalizedAsset, optionSeries, resolved } = normalizeEquityTicker(specification)
+
+	// Obs. "D" flags a day trade
+	const isDayTrade = observations.some((obs) => obs.includes("D"))
+
+	return {
+		fill: {
+			sequenceNumber,
+			exchange: "BOVESPA",
+			side,
+			marketType: isDayTrade ? "DAY TRADE" : marketType,
+			rawAsset: specification,
+			normalizedAsset,
+			expiryDate: prazo,
+			quantity,
+			price,
+			operationValue,
+			debitCredit,
+			operationalFee: 0, // BOVESPA brokerage is charged in the footer
+			isDayTrade,
+			...(optionSeries ? { optionSeries } : {}),
+		},
+		warning: resolved
+			? null
+			: `Row ${sequenceNumber}: could not resolve a ticker from "${specification}"`,
+	}
+}
+
 /**
  * Parse trade fill rows from the nota text.
  *
@@ -172,6 +306,16 @@ const parseTradeRows = (text: string): { fills: NotaFill[]; warnings: string[] }
 	for (const line of lines) {
 		const trimmedLine = line.trim()
 
+		// Split by tabs; BOVESPA rows are self-identifying ("1-BOVESPA" negotiation column)
+		const columns = trimmedLine.split("\t").map((col) => col.trim())
+		if (BOVESPA_ROW_PATTERN.test(columns[0] ?? "")) {
+			sequenceNumber++
+			const { fill, warning } = parseBovespaRow(columns, sequenceNumber)
+			if (fill) fills.push(fill)
+			if (warning) warnings.push(warning)
+			continue
+		}
+
 		// Detect start of trade section (header row)
 		if (trimmedLine.startsWith("C/V")) {
 			inTradeSection = true
@@ -186,9 +330,6 @@ const parseTradeRows = (text: string): { fills: NotaFill[]; warnings: string[] }
 
 		if (!inTradeSection) continue
 
-		// Split by tabs
-		const columns = trimmedLine.split("\t").map((col) => col.trim())
-
 		// Trade rows start with C or V
 		const side = columns[0]
 		if (side !== "C" && side !== "V") continue
@@ -301,8 +442,16 @@ const parseFinancialSummary = (text: string): {
 		}
 	}
 
-	// Extract "Taxa registro BM&F"
-	const registroMatch = text.match(/Taxa registro BM&?F\s*\n?[^\n]*?(\d[\d.,]*)/i)
+	// Extract "Taxa de liquidação" (BOVESPA notas)
+	const liquidacaoMatch = text.match(/Taxa de liquida[çc][ãa]o\s*\n?[^\n]*?(\d[\d.,]*)/i)
+	if (liquidacaoMatch) {
+		result.settlementFee = parseBrazilianNumber(liquidacaoMatch[1])
+	}
+
+	// Extract "Taxa registro BM&F", or "Taxa de registro" on BOVESPA notas
+	const registroMatch =
+		text.match(/Taxa registro BM&?F\s*\n?[^\n]*?(\d[\d.,]*)/i) ??
+		text.match(/Taxa de registro\s*\n?[^\n]*?(\d[\d.,]*)/i)
 	if (registroMatch) {
 		result.registrationFee = parseBrazilianNumber(registroMatch[1])
 	}
@@ -313,14 +462,36 @@ const parseFinancialSummary = (text: string): {
 		result.bmfFees = parseBrazilianNumber(taxasBmfMatch[1])
 	}
 
+	// BOVESPA exchange fees ("Emolumentos") go in the same exchange-fee bucket
+	const emolumentosMatch = text.match(/Emolumentos\s*\n?[^\n]*?(\d[\d.,]*)/i)
+	if (emolumentosMatch) {
+		result.bmfFees += parseBrazilianNumber(emolumentosMatch[1])
+	}
+
 	// Extract "IRRF Day Trade"
 	const irrfMatch = text.match(/IRRF Day Trade[^0-9]*(\d[\d.,]*)/i)
 	if (irrfMatch) {
 		result.irrf = parseBrazilianNumber(irrfMatch[1])
 	}
 
-	// Extract "Total líquido da nota" — the most important value
-	const totalLiquidoMatch = text.match(/Total l[íi]quido da nota\s*\n?([^\n]+)/i)
+	// Extract "I.R.R.F. s/ operações, base R$..." (BOVESPA swing) — the value is the last number on the line
+	const irrfOperacoesMatch = text.match(/I\.?R\.?R\.?F\.?\s*s\/\s*opera[çc][õo]es[^\n]*?(\d[\d.,]*)[ \t]*$/im)
+	if (irrfOperacoesMatch) {
+		result.irrf += parseBrazilianNumber(irrfOperacoesMatch[1])
+	}
+
+	// BOVESPA "Valor das operações" when the BM&F "Valor dos negócios" block is absent
+	if (result.totalOperationValue === 0) {
+		const valorOperacoesMatch = text.match(/Valor das opera[çc][õo]es\s*\n?[^\n]*?(\d[\d.,]*)/i)
+		if (valorOperacoesMatch) {
+			result.totalOperationValue = parseBrazilianNumber(valorOperacoesMatch[1])
+		}
+	}
+
+	// Extract "Total líquido da nota" (BM&F) or "Líquido para DD/MM/YYYY" (BOVESPA) — the most important value
+	const totalLiquidoMatch =
+		text.match(/Total l[íi]quido da nota\s*\n?([^\n]+)/i) ??
+		text.match(/L[íi]quido para\s+\d{2}\/\d{2}\/\d{4}([^\n]+)/i)
 	if (totalLiquidoMatch) {
 		const parts = totalLiquidoMatch[1].split("\t").map((p) => p.trim()).filter(Boolean)
 		// Look for last number followed by C/D
@@ -354,69 +525,81 @@ const parseFinancialSummary = (text: string): {
 	return result
 }
 
+/** Empty result for a PDF (or page group) that could not be parsed */
+const emptyParseResult = (errors: string[]): NotaParseResult => ({
+	success: false,
+	brokerName: "",
+	notaNumber: "",
+	notaDate: new Date(),
+	fills: [],
+	fileHash: "",
+	totalOperationValue: 0,
+	totalBrokerage: 0,
+	settlementFee: 0,
+	registrationFee: 0,
+	bmfFees: 0,
+	irrf: 0,
+	netTotal: 0,
+	netTotalDebitCredit: "C",
+	errors,
+	warnings: [],
+})
+
 /**
- * Parse a SINACOR nota de corretagem PDF.
- *
- * @param pdfBuffer - Raw PDF file content as Buffer/Uint8Array
- * @returns Parsed nota result with fills and financial summary
+ * Group PDF pages into one text block per nota.
+ * Consecutive pages with the same nota number (or no readable number) belong to
+ * the same nota: long notas continue over several "Folha"s and only the last
+ * page carries the financial summary.
  */
-const parseSinacorNota = async (pdfBuffer: Buffer | Uint8Array): Promise<NotaParseResult> => {
-	const errors: string[] = []
-	const warnings: string[] = []
+const splitNotaPages = (pages: string[]): string[] => {
+	const groups: Array<{ notaNumber: string; pages: string[] }> = []
 
-	// Dynamic import to avoid loading pdfjs-dist at module evaluation time.
-	// pdfjs-dist references DOMMatrix (browser API) which crashes Node.js SSR
-	// if loaded eagerly via a top-level import.
-	const { PDFParse } = await import("pdf-parse")
+	for (const page of pages) {
+		if (page.trim().length === 0) continue
 
-	// Convert Buffer to Uint8Array if needed (pdf-parse v2 requirement)
-	const uint8Data = pdfBuffer instanceof Uint8Array ? pdfBuffer : new Uint8Array(pdfBuffer)
+		const notaNumber = parseNotaNumber(page)
+		const current = groups.at(-1)
 
-	const parser = new PDFParse(uint8Data)
-	const textResult = await parser.getText()
-
-	// pdf-parse v2 getText() returns { pages: [...], text: string, total: number }
-	const fullText: string = typeof textResult === "string"
-		? textResult
-		: (textResult as { text: string }).text || ""
-
-	if (!fullText || fullText.trim().length < 50) {
-		return {
-			success: false,
-			brokerName: "",
-			notaNumber: "",
-			notaDate: new Date(),
-			fills: [],
-			fileHash: "",
-			totalOperationValue: 0,
-			totalBrokerage: 0,
-			settlementFee: 0,
-			registrationFee: 0,
-			bmfFees: 0,
-			irrf: 0,
-			netTotal: 0,
-			netTotalDebitCredit: "C",
-			errors: ["PDF appears empty or contains insufficient text. Is it a scanned image?"],
-			warnings: [],
+		if (current && (notaNumber === "" || notaNumber === current.notaNumber)) {
+			current.pages.push(page)
+		} else {
+			groups.push({ notaNumber, pages: [page] })
 		}
 	}
 
+	return groups.map((group) => group.pages.join("\n"))
+}
+
+/**
+ * Parse the text of a single nota (all of its pages).
+ *
+ * @param text - Tab-delimited text of one nota
+ * @returns Parsed nota with fills and financial summary
+ */
+const parseSinacorText = (text: string): NotaParseResult => {
+	const errors: string[] = []
+	const warnings: string[] = []
+
+	if (!text || text.trim().length < 50) {
+		return emptyParseResult(["PDF appears empty or contains insufficient text. Is it a scanned image?"])
+	}
+
 	// Verify this is a SINACOR nota
-	if (!fullText.includes("NOTA DE CORRETAGEM") && !fullText.includes("C/V")) {
+	if (!text.includes("NOTA DE CORRETAGEM") && !text.includes("C/V")) {
 		errors.push("PDF does not appear to be a SINACOR nota de corretagem")
 	}
 
 	// Extract metadata
-	const notaDate = parseNotaDate(fullText)
+	const notaDate = parseNotaDate(text)
 	if (!notaDate) {
 		errors.push("Could not extract session date (Data pregão) from the nota")
 	}
 
-	const notaNumber = parseNotaNumber(fullText)
-	const brokerName = parseBrokerName(fullText)
+	const notaNumber = parseNotaNumber(text)
+	const brokerName = parseBrokerName(text)
 
 	// Parse trade fills
-	const { fills, warnings: tradeWarnings } = parseTradeRows(fullText)
+	const { fills, warnings: tradeWarnings } = parseTradeRows(text)
 	warnings.push(...tradeWarnings)
 
 	if (fills.length === 0 && errors.length === 0) {
@@ -424,7 +607,7 @@ const parseSinacorNota = async (pdfBuffer: Buffer | Uint8Array): Promise<NotaPar
 	}
 
 	// Parse financial summary
-	const summary = parseFinancialSummary(fullText)
+	const summary = parseFinancialSummary(text)
 
 	return {
 		success: errors.length === 0,
@@ -439,4 +622,47 @@ const parseSinacorNota = async (pdfBuffer: Buffer | Uint8Array): Promise<NotaPar
 	}
 }
 
-export { parseSinacorNota, parseBrazilianNumber, normalizeAssetName }
+/**
+ * Parse a SINACOR nota de corretagem PDF, which may contain several notas
+ * (e.g. a monthly statement with one nota per trading day).
+ *
+ * @param pdfBuffer - Raw PDF file content as Buffer/Uint8Array
+ * @returns One parsed result per nota, in PDF order
+ */
+const parseSinacorPdf = async (pdfBuffer: Buffer | Uint8Array): Promise<NotaParseResult[]> => {
+	// Dynamic import to avoid loading pdfjs-dist at module evaluation time.
+	// pdfjs-dist references DOMMatrix (browser API) which crashes Node.js SSR
+	// if loaded eagerly via a top-level import.
+	const { PDFParse } = await import("pdf-parse")
+
+	// Convert Buffer to Uint8Array if needed (pdf-parse v2 requirement)
+	const uint8Data = pdfBuffer instanceof Uint8Array ? pdfBuffer : new Uint8Array(pdfBuffer)
+
+	const parser = new PDFParse(uint8Data)
+	const textResult = await parser.getText()
+
+	// pdf-parse v2 getText() returns { pages: [...], text: string, total: number }
+	if (typeof textResult === "string") {
+		return [parseSinacorText(textResult)]
+	}
+
+	const { text, pages } = textResult as { text?: string; pages?: Array<{ text: string }> }
+	const notaTexts = pages && pages.length > 0
+		? splitNotaPages(pages.map((page) => page.text || ""))
+		: [text || ""]
+
+	if (notaTexts.length === 0) {
+		return [parseSinacorText("")]
+	}
+
+	return notaTexts.map(parseSinacorText)
+}
+
+export {
+	parseSinacorPdf,
+	parseSinacorText,
+	splitNotaPages,
+	parseBrazilianNumber,
+	normalizeAssetName,
+	normalizeEquityTicker,
+}
@@ -7,6 +7,14 @@
 
 import type { Trade } from "@/db/schema"
 
+/** Option series decoded from a BOVESPA option ticker (e.g. "PETRB400") */
+interface NotaOptionSeries {
+	underlying: string // Ticker root e.g. "PETR"
+	optionType: "call" | "put"
+	expiryMonth: number // 1-12, from the series letter
+	strike: number | null // From the specification when printed
+}
+
 /** A single fill (execution) extracted from the nota PDF */
 interface NotaFill {
 	sequenceNumber: number
@@ -22,6 +30,7 @@ interface NotaFill {
 	debitCredit: "D" | "C" // D = Debit (cost), C = Credit (income)
 	operationalFee: number
 	isDayTrade: boolean
+	optionSeries?: NotaOptionSeries // BOVESPA options only
 }
 
 /** Result of parsing a nota de corretagem PDF */
@@ -70,6 +79,26 @@ interface EnrichmentMatch {
 	message?: string
 }
 
+/** Unmatched fills grouped into one flat-to-flat position */
+interface NotaRoundTrip {
+	asset: string // Normalized asset (e.g. "WINFUT")
+	direction: "long" | "short"
+	entryFills: NotaFill[]
+	exitFills: NotaFill[]
+	entryQuantity: number
+	exitQuantity: number
+	avgEntryPrice: number
+	avgExitPrice: number | null
+	status: "closed" | "open" // open = position not flat at the end of the nota
+}
+
+/** A round trip offered for creation as a new scaled trade */
+interface NotaTradeCandidate extends NotaRoundTrip {
+	candidateId: string // Stable selection key within the preview
+	netPnl: number | null // In currency, net of operational fees (null while open)
+	isDuplicate: boolean // A trade with the same dedup hash already exists
+}
+
 /** Full preview of the enrichment before user confirmation */
 interface NotaEnrichmentPreview {
 	notaDate: Date
@@ -78,6 +107,8 @@ interface NotaEnrichmentPreview {
 	matches: EnrichmentMatch[]
 	unmatchedFills: NotaFill[]
 	unmatchedTrades: Trade[]
+	tradeCandidates: NotaTradeCandidate[] // Unmatched fills grouped into new trades
+	alreadyImported: boolean // This nota number was imported before
 	warnings: string[]
 }
 
@@ -89,11 +120,79 @@ interface ConfirmedEnrichment {
 	reEnrich: boolean // If true, replaces existing executions
 }
 
+/** Footer values persisted alongside the nota import */
+type NotaFooterSummary = Pick<
+	NotaParseResult,
+	| "totalOperationValue"
+	| "totalBrokerage"
+	| "settlementFee"
+	| "registrationFee"
+	| "bmfFees"
+	| "irrf"
+	| "netTotal"
+	| "netTotalDebitCredit"
+>
+
+/** One nota of a (possibly multi-nota) PDF, as confirmed in the preview */
+interface NotaImportInput {
+	notaNumber: string
+	notaDate: string // ISO string (server action boundary)
+	brokerName: string
+	footer: NotaFooterSummary
+	confirmedMatches: ConfirmedEnrichment[]
+	newTrades: NotaRoundTrip[]
+	unmatchedFills: NotaFill[]
+}
+
+/** Official nota costs split the same way trades store them (all in cents) */
+interface NotaCostTotals {
+	commissionCents: number // brokerage (or the per-fill operational fee total when no footer brokerage)
+	feesCents: number // settlement + registration + exchange fees
+	totalCents: number
+}
+
+/** Share of a nota's costs assigned to one trade */
+interface TradeCostAllocation {
+	tradeId: string
+	commissionCents: number
+	feesCents: number
+}
+
+/** One nota in the cost reconciliation view */
+interface NotaCostReconciliationNota {
+	notaImportId: string
+	fileName: string
+	brokerName: string | null
+	official: NotaCostTotals
+	linkedTradeCount: number
+	unmatchedFillCount: number
+	allocatedAt: string | null
+}
+
+/** Official nota costs vs the commission/fees recorded on that day's trades */
+interface NotaCostReconciliationDay {
+	date: string // YYYY-MM-DD (BRT)
+	notas: NotaCostReconciliationNota[]
+	officialCents: number
+	journalCents: number
+	differenceCents: number // official - journal (positive = journal under-reports costs)
+	tradeCount: number
+}
+
 export type {
+	NotaFooterSummary,
+	NotaCostTotals,
+	TradeCostAllocation,
+	NotaCostReconciliationNota,
+	NotaCostReconciliationDay,
 	NotaFill,
 	NotaParseResult,
 	AssetFillGroup,
 	EnrichmentMatch,
 	NotaEnrichmentPreview,
 	ConfirmedEnrichment,
+	NotaRoundTrip,
+	NotaTradeCandidate,
+	NotaOptionSeries,
+	NotaImportInput,
 }
@@ -0,0 +1,232 @@
+/**
+ * OHLC bar file parser.
+ *
+ * Reads intraday bar exports from ProfitChart (semicolon separated, Portuguese
+ * headers, Brazilian numbers) and MetaTrader (MT5 "<DATE>\t<TIME>..." exports
+ * and headerless MT4 history CSVs). Times are read as BRT, like every other
+ * importer in the app — B3 brokers' MetaTrader servers run on BRT as well.
+ */
+
+import { BRT_OFFSET } from "@/lib/dates"
+import type { OhlcFileFormat, OhlcParseError, OhlcParseResult, PriceBar } from "@/types/price-bar"
+
+type BarField = "asset" | "date" | "time" | "open" | "high" | "low" | "close" | "volume" | "tickVolume"
+
+const PROFITCHART_HEADERS: Record<string, BarField> = {
+	ativo: "asset",
+	data: "date",
+	hora: "time",
+	abertura: "open",
+	maximo: "high",
+	minimo: "low",
+	fechamento: "close",
+	quantidade: "volume",
+}
+
+const METATRADER_HEADERS: Record<string, BarField> = {
+	"<date>": "date",
+	"<time>": "time",
+	"<open>": "open",
+	"<high>": "high",
+	"<low>": "low",
+	"<close>": "close",
+	"<vol>": "volume",
+	"<tickvol>": "tickVolume",
+}
+
+/** Column order of a headerless MT4 history export */
+const MT4_COLUMNS: BarField[] = ["date", "time", "open", "high", "low", "close", "volume"]
+
+const pad2 = (n: number): string => String(n).padStart(2, "0")
+
+/** Lowercase, accent-free header for lookups ("Máximo" → "maximo") */
+const normalizeHeader = (header: string): string =>
+	header
+		.trim()
+		.toLowerCase()
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+
+const detectDelimiter = (line: string): string => {
+	if (line.includes("\t")) return "\t"
+	return (line.match(/;/g) ?? []).length > (line.match(/,/g) ?? []).length ? ";" : ","
+}
+
+/** "1.234,56" → 1234.56 */
+const parseBrazilianNumber = (value: string): number | null => {
+	const cleaned = value.trim().replace(/\./g, "").replace(",", ".")
+	if (!cleaned || cleaned === "-") return null
+	const num = Number(cleaned)
+	return Number.isFinite(num) ? num : null
+}
+
+const parseDotNumber = (value: string): number | null => {
+	const cleaned = value.trim()
+	if (!cleaned) return null
+	const num = Number(cleaned)
+	return Number.isFinite(num) ? num : null
+}
+
+/**
+ * Builds a BRT instant from a date ("DD/MM/YYYY" or "YYYY.MM.DD", optionally
+ * followed by the time) and an optional separate time column.
+ */
+const parseBarTime = (dateValue: string, timeValue: string | undefined): Date | null => {
+	const [datePart, inlineTime] = dateValue.trim().split(/\s+/)
+	const time = (timeValue?.trim() || inlineTime || "00:00").match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+	if (!time) return null
+
+	const brazilian = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+	const dotted = datePart.match(/^(\d{4})[.-](\d{1,2})[.-](\d{1,2})$/)
+	const parts = brazilian
+		? [brazilian[3], brazilian[2], brazilian[1]]
+		: dotted
+			? [dotted[1], dotted[2], dotted[3]]
+			: null
+	if (!parts) return null
+	const [year, month, day] = parts.map(Number)
+
+	const [hours, minutes, seconds] = [Number(time[1]), Number(time[2]), Number(time[3] ?? 0)]
+	const date = new Date(
+		`${year}-${pad2(month)}-${pad2(day)}T${pad2(hours)}:${pad2(minutes)}:${pad2(seconds)}${BRT_OFFSET}`
+	)
+	return isNaN(date.getTime()) ? null : date
+}
+
+/** Splits a delimited line, honouring double-quoted values */
+const splitLine = (line: string, delimiter: string): string[] => {
+	const values: string[] = []
+	let current = ""
+	let inQuotes = false
+	for (const char of line) {
+		if (char === '"') {
+			inQuotes = !inQuotes
+		} else if (char === delimiter && !inQuotes) {
+			values.push(current.trim())
+			current = ""
+		} else {
+			current += char
+		}
+	}
+	values.push(current.trim())
+	return values
+}
+
+interface ParsePlan {
+	format: OhlcFileFormat
+	delimiter: string
+	/** Field per column index */
+	columns: Array<BarField | null>
+	/** Index of the first data line */
+	firstDataLine: number
+}
+
+const planFromHeader = (
+	header: string[],
+	mapping: Record<string, BarField>,
+	format: OhlcFileFormat,
+	delimiter: string,
+	headerLine: number
+): ParsePlan => ({
+	format,
+	delimiter,
+	columns: header.map((column) => mapping[normalizeHeader(column)] ?? null),
+	firstDataLine: headerLine + 1,
+})
+
+/** Works out the format from the first lines, or null when it isn't a known export */
+const detectPlan = (lines: string[]): ParsePlan | null => {
+	for (let i = 0; i < Math.min(lines.length, 10); i++) {
+		const delimiter = detectDelimiter(lines[i])
+		const values = splitLine(lines[i], delimiter)
+		const normalized = values.map(normalizeHeader)
+
+		if (normalized.includes("<open>") && normalized.includes("<close>")) {
+			return planFromHeader(values, METATRADER_HEADERS, "metatrader", delimiter, i)
+		}
+		if (normalized.includes("abertura") && normalized.includes("maximo") && normalized.includes("data")) {
+			return planFromHeader(values, PROFITCHART_HEADERS, "profitchart", delimiter, i)
+		}
+		if (/^\d{4}\.\d{2}\.\d{2}$/.test(values[0] ?? "") && values.length >= 6) {
+			return { format: "metatrader", delimiter, columns: MT4_COLUMNS, firstDataLine: i }
+		}
+	}
+	return null
+}
+
+/**
+ * Parses an OHLC export.
+ *
+ * @param content - File contents
+ * @returns Bars sorted by open time (a repeated time keeps the last row), the
+ *          asset named in the file and per-line errors for rows that were skipped
+ */
+const parseOhlcContent = (content: string): OhlcParseResult => {
+	const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/)
+	const plan = detectPlan(lines)
+	if (!plan) {
+		return {
+			format: null,
+			asset: null,
+			bars: [],
+			errors: [{ line: 1, message: "Unrecognized file: expected a ProfitChart or MetaTrader bar export" }],
+		}
+	}
+
+	const parseNumber = plan.format === "profitchart" ? parseBrazilianNumber : parseDotNumber
+	const barsByTime = new Map<number, PriceBar>()
+	const errors: OhlcParseError[] = []
+	let asset: string | null = null
+
+	for (let i = plan.firstDataLine; i < lines.length; i++) {
+		if (!lines[i].trim()) continue
+		const lineNumber = i + 1
+		const row: Partial<Record<BarField, string>> = {}
+		splitLine(lines[i], plan.delimiter).forEach((value, index) => {
+			const field = plan.columns[index]
+			if (field) row[field] = value
+		})
+
+		const time = row.date ? parseBarTime(row.date, row.time) : null
+		if (!time) {
+			errors.push({ line: lineNumber, message: "Invalid date/time" })
+			continue
+		}
+
+		const open = parseNumber(row.open ?? "")
+		const high = parseNumber(row.high ?? "")
+		const low = parseNumber(row.low ?? "")
+		const close = parseNumber(row.close ?? "")
+		if (open === null || high === null || low === null || close === null) {
+			errors.push({ line: lineNumber, message: "Missing or invalid price" })
+			continue
+		}
+		if (high < Math.max(open, close, low) || low > Math.min(open, close)) {
+			errors.push({ line: lineNumber, message: "High/low do not contain open and close" })
+			continue
+		}
+
+		// MT5 leaves <VOL> at zero for instruments without real volume
+		const volume = parseNumber(row.volume ?? "")
+		const tickVolume = parseNumber(row.tickVolume ?? "")
+
+		if (!asset && row.asset) asset = row.asset.trim().toUpperCase()
+		barsByTime.set(time.getTime(), {
+			time,
+			open,
+			high,
+			low,
+			close,
+			volume: volume ? volume : (tickVolume ?? volume),
+		})
+	}
+
+	return {
+		format: plan.format,
+		asset,
+		bars: [...barsByTime.values()].toSorted((a, b) => a.time.getTime() - b.time.getTime()),
+		errors,
+	}
+}
+
+export { parseOhlcContent }
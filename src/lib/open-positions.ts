@@ -0,0 +1,89 @@
+/**
+ * Open position store — positions left open by imports or scaled trades.
+ *
+ * One `open_positions` row per trade with contracts still open, mirroring
+ * `trades.remaining_quantity`. Statement imports read them so exits in a later
+ * file continue the existing trade instead of creating a second one. Quantity
+ * and average price are encrypted with the owner's DEK, like the trade's own.
+ */
+
+import { db } from "@/db/drizzle"
+import { openPositions } from "@/db/schema"
+import { asc, eq } from "drizzle-orm"
+import { decryptOpenPositionFields, encryptOpenPositionFields } from "@/lib/user-crypto"
+import type { OpenPosition } from "@/lib/csv-parsers/types"
+
+interface OpenPositionTrade {
+	id: string
+	accountId: string
+	asset: string
+	direction: "long" | "short"
+	entryDate: Date
+}
+
+/**
+ * Open positions of an account, oldest first (FIFO when several trades hold the same asset)
+ */
+export const getOpenPositions = async (accountId: string, dek: string | null): Promise<OpenPosition[]> => {
+	const rawRows = await db.query.openPositions.findMany({
+		where: eq(openPositions.accountId, accountId),
+		orderBy: [asc(openPositions.openedAt)],
+	})
+	const rows = dek ? rawRows.map((row) => decryptOpenPositionFields(row, dek)) : rawRows
+
+	return rows.map((row) => ({
+		tradeId: row.tradeId,
+		asset: row.asset,
+		direction: row.direction,
+		remainingQuantity: Number(row.remainingQuantity),
+		averagePrice: Number(row.averagePrice),
+		openedAt: row.openedAt,
+	}))
+}
+
+/**
+ * Remove a trade's open position (trade closed or its executions were removed)
+ */
+export const removeOpenPosition = async (tradeId: string): Promise<void> => {
+	await db.delete(openPositions).where(eq(openPositions.tradeId, tradeId))
+}
+
+/**
+ * Store or clear a trade's open position after its quantities changed.
+ * A remaining quantity of zero (flat) removes the row.
+ */
+export const syncOpenPosition = async (
+	trade: OpenPositionTrade,
+	remainingQuantity: number,
+	averagePrice: number,
+	dek: string | null
+): Promise<void> => {
+	if (remainingQuantity <= 0) {
+		await removeOpenPosition(trade.id)
+		return
+	}
+
+	const plainValues = { remainingQuantity: String(remainingQuantity), averagePrice: String(averagePrice) }
+	const storedValues = dek ? encryptOpenPositionFields(plainValues, dek) : plainValues
+
+	await db
+		.insert(openPositions)
+		.values({
+			accountId: trade.accountId,
+			tradeId: trade.id,
+			asset: trade.asset,
+			direction: trade.direction,
+			...storedValues,
+			openedAt: trade.entryDate,
+		})
+		.onConflictDoUpdate({
+			target: openPositions.tradeId,
+			set: {
+				asset: trade.asset,
+				direction: trade.direction,
+				...storedValues,
+				openedAt: trade.entryDate,
+				updatedAt: new Date(),
+			},
+		})
+}
@@ -0,0 +1,46 @@
+// ==========================================
+// SEEDED PSEUDO-RANDOM NUMBERS
+// ==========================================
+
+/** Largest seed accepted by `createPrng` (fits a Postgres `integer`) */
+const MAX_SEED = 2_147_483_647
+
+/** Fresh random seed in [0, MAX_SEED] */
+const createSeed = (): number => {
+	const buffer = new Uint32Array(1)
+	crypto.getRandomValues(buffer)
+	return buffer[0] >>> 1
+}
+
+/**
+ * mulberry32: a small, fast 32-bit generator with a full 2^32 period.
+ * Returns a `Math.random`-compatible function producing floats in [0, 1);
+ * the same seed always yields the same sequence, so simulations can be
+ * replayed exactly from their stored seed.
+ */
+const createPrng = (seed: number): (() => number) => {
+	let state = seed >>> 0
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0
+		let t = state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296
+	}
+}
+
+/**
+ * Seed of one independent stream (e.g. one simulation run) of a seeded
+ * simulation. Streams don't depend on each other, so runs can be simulated in
+ * any order or in separate batches and still replay identically.
+ */
+const deriveSeed = (seed: number, stream: number): number => {
+	// murmur3 finalizer over the seed mixed with the golden-ratio stream offset
+	let hash = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0
+	hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b)
+	hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+	return (hash ^ (hash >>> 16)) >>> 0
+}
+
+export { MAX_SEED, createSeed, createPrng, deriveSeed }
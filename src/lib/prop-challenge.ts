@@ -0,0 +1,291 @@
+/**
+ * Prop challenge simulator — the odds of passing a prop firm evaluation with
+ * a given risk profile.
+ *
+ * Each attempt is a Capital Expectancy (V2) run, so the trader follows the
+ * profile's decision tree and limits; its trades are then replayed against
+ * the challenge rules the way `evaluatePropRules` checks a live account: the
+ * drawdown floor after every trade (or at the close for end-of-day trailing),
+ * the daily loss limit, and the profit target with minimum trading days and
+ * consistency. The attempt is decided on the first day it passes or fails.
+ */
+
+import type {
+	PropChallengeFailReason,
+	PropChallengeParams,
+	PropChallengeResult,
+	PropChallengeRules,
+	PropChallengeStatistics,
+	RiskManagementProfileForSim,
+	SimulationRunV2,
+	SourceStats,
+} from "@/types/monte-carlo"
+import type { RiskManagementProfile } from "@/types/risk-profile"
+import { createSeed } from "@/lib/prng"
+import { simulateRunV2 } from "@/lib/monte-carlo-v2"
+import { buildProfileForSim } from "@/lib/risk-profile"
+import {
+	getConsistencyPercent,
+	getDrawdownFloor,
+	isConsistencyMet,
+} from "@/lib/prop-evaluation"
+
+type ChallengeOutcome =
+	| {
+			passed: true
+			tradingDays: number
+			calendarDays: number
+	  }
+	| {
+			passed: false
+			reason: PropChallengeFailReason
+			targetReached: boolean
+	  }
+
+/**
+ * Calendar day (1-based) of a trading day, counting from the first trading
+ * day of a week with `tradingDaysPerWeek` trading days.
+ */
+const toCalendarDay = (
+	tradingDay: number,
+	tradingDaysPerWeek: number
+): number =>
+	Math.floor((tradingDay - 1) / tradingDaysPerWeek) * 7 +
+	((tradingDay - 1) % tradingDaysPerWeek) +
+	1
+
+/** Trading days that fall within the challenge's calendar days */
+const getChallengeTradingDays = (
+	rules: Pick<PropChallengeRules, "maxCalendarDays">,
+	tradingDaysPerWeek: number
+): number => {
+	const fullWeeks = Math.floor(rules.maxCalendarDays / 7)
+	const remainder = rules.maxCalendarDays % 7
+	return (
+		fullWeeks * tradingDaysPerWeek + Math.min(remainder, tradingDaysPerWeek)
+	)
+}
+
+/** Months of V2 run covering the challenge's trading days */
+const getChallengeMonths = (
+	rules: Pick<PropChallengeRules, "maxCalendarDays">,
+	profile: Pick<RiskManagementProfileForSim, "tradingDaysPerWeek" | "tradingDaysPerMonth">
+): number =>
+	Math.max(
+		1,
+		Math.ceil(
+			getChallengeTradingDays(rules, profile.tradingDaysPerWeek) /
+				profile.tradingDaysPerMonth
+		)
+	)
+
+/**
+ * Worst-case trade iterations of a challenge comparison (50 trades a day):
+ * each profile runs whole months of its own trading days, as simulated.
+ */
+const estimatePropChallengeIterations = (input: {
+	profiles: Pick<RiskManagementProfileForSim, "tradingDaysPerWeek" | "tradingDaysPerMonth">[]
+	simulationCount: number
+	rules: Pick<PropChallengeRules, "maxCalendarDays">
+}): number => {
+	const maxTradesPerDay = 50
+	return input.profiles.reduce(
+		(total, profile) =>
+			total +
+			maxTradesPerDay *
+				getChallengeMonths(input.rules, profile) *
+				profile.tradingDaysPerMonth *
+				input.simulationCount,
+		0
+	)
+}
+
+const clamp = (value: number, min: number, max: number) =>
+	Math.min(Math.max(value, min), max)
+
+/**
+ * A risk profile as a challenge simulates it: win rate, reward/risk (from
+ * the profit factor when it's usable), breakevens and commission come from
+ * the data source's stats.
+ */
+const buildChallengeProfile = (
+	profile: RiskManagementProfile,
+	stats: SourceStats
+): RiskManagementProfileForSim => {
+	const winRate = clamp(stats.winRate, 1, 99)
+	const rewardRiskRatio = clamp(
+		Number.isFinite(stats.profitFactor) && stats.profitFactor > 0
+			? (stats.profitFactor * (100 - winRate)) / winRate
+			: stats.avgRewardRiskRatio,
+		0.1,
+		20
+	)
+
+	return buildProfileForSim(profile, {
+		winRate,
+		rewardRiskRatio,
+		breakevenRate: clamp(stats.breakevenRate ?? 0, 0, 80),
+		commissionPerTradeCents: stats.avgCommissionPerTradeCents ?? 0,
+	})
+}
+
+/** Replays one simulated run against the challenge rules */
+const evaluateAttempt = (
+	run: SimulationRunV2,
+	rules: PropChallengeRules,
+	tradingDayLimit: number,
+	tradingDaysPerWeek: number
+): ChallengeOutcome => {
+	let balanceCents = rules.startingBalanceCents
+	let peakBalanceCents = rules.startingBalanceCents
+	let floorCents = getDrawdownFloor(rules, peakBalanceCents)
+	let bestDayCents = 0
+	let tradingDays = 0
+	let targetReached = false
+
+	for (const day of run.days.slice(0, tradingDayLimit)) {
+		// Skipped days (profile limits) and days without trades don't count
+		if (day.trades.length === 0) continue
+
+		let dayPnlCents = 0
+		for (const trade of day.trades) {
+			balanceCents += trade.pnl
+			dayPnlCents += trade.pnl
+
+			if (rules.drawdownType === "trailing") {
+				peakBalanceCents = Math.max(peakBalanceCents, balanceCents)
+				floorCents = getDrawdownFloor(rules, peakBalanceCents)
+			}
+
+			if (balanceCents <= floorCents) {
+				return { passed: false, reason: "max_drawdown", targetReached }
+			}
+			if (
+				rules.dailyLossLimitCents !== null &&
+				dayPnlCents <= -rules.dailyLossLimitCents
+			) {
+				return { passed: false, reason: "daily_loss", targetReached }
+			}
+		}
+
+		if (rules.drawdownType === "eod_trailing") {
+			peakBalanceCents = Math.max(peakBalanceCents, balanceCents)
+			floorCents = getDrawdownFloor(rules, peakBalanceCents)
+		}
+
+		tradingDays++
+		bestDayCents = Math.max(bestDayCents, dayPnlCents)
+		const profitCents = balanceCents - rules.startingBalanceCents
+		if (profitCents < rules.profitTargetCents) continue
+
+		targetReached = true
+		if (
+			tradingDays >= (rules.minTradingDays ?? 0) &&
+			isConsistencyMet(rules, getConsistencyPercent(bestDayCents, profitCents))
+		) {
+			return {
+				passed: true,
+				tradingDays,
+				calendarDays: toCalendarDay(day.dayNumber, tradingDaysPerWeek),
+			}
+		}
+	}
+
+	// Every V2 day is recorded, skipped or not: a run that ends before the
+	// window did so because the account was wiped out, not because time ran out
+	if (run.days.length < tradingDayLimit) {
+		return { passed: false, reason: "max_drawdown", targetReached }
+	}
+
+	return { passed: false, reason: "expired", targetReached }
+}
+
+const aggregateChallengeStatistics = (
+	outcomes: ChallengeOutcome[]
+): PropChallengeStatistics => {
+	const percentOf = (count: number) => (count / outcomes.length) * 100
+	const mean = (values: number[]) =>
+		values.length > 0
+			? values.reduce((sum, v) => sum + v, 0) / values.length
+			: null
+	const median = (values: number[]) => {
+		if (values.length === 0) return null
+		const sorted = values.toSorted((a, b) => a - b)
+		const mid = Math.floor(sorted.length / 2)
+		return sorted.length % 2 !== 0
+			? sorted[mid]
+			: (sorted[mid - 1] + sorted[mid]) / 2
+	}
+
+	const passed = outcomes.flatMap((o) => (o.passed ? [o] : []))
+	const failed = outcomes.flatMap((o) => (o.passed ? [] : [o]))
+	const failCount = (reason: PropChallengeFailReason) =>
+		failed.filter((o) => o.reason === reason).length
+	const calendarDays = passed.map((o) => o.calendarDays)
+
+	return {
+		passPercent: percentOf(passed.length),
+		failPercent: {
+			max_drawdown: percentOf(failCount("max_drawdown")),
+			daily_loss: percentOf(failCount("daily_loss")),
+			expired: percentOf(failCount("expired")),
+		},
+		targetReachedNotPassedPercent: percentOf(
+			failed.filter((o) => o.reason === "expired" && o.targetReached).length
+		),
+		meanTradingDaysToPass: mean(passed.map((o) => o.tradingDays)),
+		meanCalendarDaysToPass: mean(calendarDays),
+		medianCalendarDaysToPass: median(calendarDays),
+	}
+}
+
+/**
+ * Simulates `simulationCount` attempts at the challenge with one risk
+ * profile. Seeded like V2: attempt i is V2 run i of the same seed, so
+ * profiles compared with one seed face the same dice.
+ */
+const simulatePropChallenge = (
+	inputParams: PropChallengeParams
+): PropChallengeResult => {
+	const params = { ...inputParams, seed: inputParams.seed ?? createSeed() }
+	const { rules, profile } = params
+
+	const tradingDayLimit = getChallengeTradingDays(
+		rules,
+		profile.tradingDaysPerWeek
+	)
+	// Only the profile, balance, length and seed shape a V2 run's days; the
+	// ruin, target and floor settings only feed V2's own statistics
+	const runParams = {
+		profile,
+		simulationCount: params.simulationCount,
+		initialBalance: rules.startingBalanceCents,
+		monthsToTrade: getChallengeMonths(rules, profile),
+		ruinThresholdPercent: 50,
+		profitTargetPercent: 10,
+		drawdownFloorPercent: 10,
+		seed: params.seed,
+	}
+
+	const outcomes: ChallengeOutcome[] = []
+	for (let i = 0; i < params.simulationCount; i++) {
+		outcomes.push(
+			evaluateAttempt(
+				simulateRunV2(runParams, i),
+				rules,
+				tradingDayLimit,
+				profile.tradingDaysPerWeek
+			)
+		)
+	}
+
+	return { params, statistics: aggregateChallengeStatistics(outcomes) }
+}
+
+export {
+	simulatePropChallenge,
+	buildChallengeProfile,
+	estimatePropChallengeIterations,
+	getChallengeTradingDays,
+	toCalendarDay,
+}
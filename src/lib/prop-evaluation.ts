@@ -0,0 +1,311 @@
+/**
+ * Pure prop firm evaluation engine.
+ *
+ * Replays an account's closed trades, day by day, against its prop rule set:
+ * max drawdown floor (trailing, end-of-day trailing or static), daily loss limit,
+ * profit target, minimum trading days, consistency and scaling plan. Returns the
+ * live status plus the state at the end of every trading day (the evaluation history).
+ *
+ * The evaluation is decided on the first day it passes or breaks a hard rule;
+ * later trades don't change the outcome.
+ */
+
+import type {
+	PropEvaluationDay,
+	PropEvaluationResult,
+	PropEvaluationStatusKind,
+	PropRules,
+	PropRuleViolation,
+	PropRuleViolationType,
+	PropScalingTier,
+	PropTradeInput,
+} from "@/types/prop-evaluation"
+import { formatDateKey } from "@/lib/dates"
+
+/** Within this fraction of the drawdown or daily loss budget the account is flagged at risk */
+const AT_RISK_RATIO = 0.25
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Breaking any of these ends the evaluation */
+const FAILING_VIOLATIONS: PropRuleViolationType[] = ["max_drawdown", "daily_loss", "expired"]
+
+interface EvaluatePropRulesParams {
+	rules: PropRules
+	trades: PropTradeInput[]
+	/** Effective "now" (replay accounts pass their replay date) */
+	asOf: Date
+}
+
+interface ScalingLimit {
+	currentMaxContracts: number | null
+	nextTier: PropScalingTier | null
+}
+
+const roundPercent = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Drawdown floor for a given peak balance. Trailing floors optionally lock at the
+ * starting balance, as most firms stop trailing once the account is in profit.
+ */
+const getDrawdownFloor = (
+	rules: Pick<PropRules, "startingBalanceCents" | "drawdownType" | "maxDrawdownCents" | "lockDrawdownAtStart">,
+	peakBalanceCents: number
+): number => {
+	if (rules.drawdownType === "static") {
+		return rules.startingBalanceCents - rules.maxDrawdownCents
+	}
+	const trailingFloor = peakBalanceCents - rules.maxDrawdownCents
+	return rules.lockDrawdownAtStart
+		? Math.min(trailingFloor, rules.startingBalanceCents)
+		: trailingFloor
+}
+
+/**
+ * Contract limit for the current profit. Below the first threshold the first tier applies.
+ */
+const getScalingLimit = (scalingPlan: PropScalingTier[], profitCents: number): ScalingLimit => {
+	if (scalingPlan.length === 0) return { currentMaxContracts: null, nextTier: null }
+
+	const tiers = scalingPlan.toSorted((a, b) => a.profitThresholdCents - b.profitThresholdCents)
+	let currentMaxContracts = tiers[0].maxContracts
+	let nextTier: PropScalingTier | null = null
+
+	for (const tier of tiers) {
+		if (profitCents >= tier.profitThresholdCents) {
+			currentMaxContracts = tier.maxContracts
+		} else {
+			nextTier = tier
+			break
+		}
+	}
+
+	return { currentMaxContracts, nextTier }
+}
+
+/**
+ * Best day as a percent of total profit; null while the account isn't in profit
+ */
+const getConsistencyPercent = (bestDayCents: number, profitCents: number): number | null =>
+	profitCents > 0 ? roundPercent((bestDayCents / profitCents) * 100) : null
+
+const isConsistencyMet = (
+	rules: Pick<PropRules, "consistencyPercent">,
+	consistencyPercent: number | null
+): boolean =>
+	rules.consistencyPercent === null ||
+	(consistencyPercent !== null && consistencyPercent <= rules.consistencyPercent)
+
+const isAtRisk = (
+	rules: PropRules,
+	balanceCents: number,
+	floorCents: number,
+	dayPnlCents: number,
+	dayViolations: PropRuleViolation[]
+): boolean => {
+	if (balanceCents - floorCents <= rules.maxDrawdownCents * AT_RISK_RATIO) return true
+	if (
+		rules.dailyLossLimitCents !== null &&
+		dayPnlCents <= -rules.dailyLossLimitCents * (1 - AT_RISK_RATIO)
+	) {
+		return true
+	}
+	return dayViolations.some((violation) => violation.type === "scaling_plan")
+}
+
+const addViolation = (violations: PropRuleViolation[], type: PropRuleViolationType, date: string) => {
+	if (!violations.some((violation) => violation.type === type)) {
+		violations.push({ type, date })
+	}
+}
+
+/** Closed trades inside the evaluation window, grouped by BRT day in chronological order */
+const groupTradesByDay = (
+	trades: PropTradeInput[],
+	startKey: string,
+	lastKey: string
+): Map<string, PropTradeInput[]> => {
+	const tradesByDay = new Map<string, PropTradeInput[]>()
+	const sorted = trades.toSorted((a, b) => a.closedAt.getTime() - b.closedAt.getTime())
+
+	for (const trade of sorted) {
+		const dateKey = formatDateKey(trade.closedAt)
+		if (dateKey < startKey || dateKey > lastKey) continue
+		const dayTrades = tradesByDay.get(dateKey) ?? []
+		dayTrades.push(trade)
+		tradesByDay.set(dateKey, dayTrades)
+	}
+
+	return tradesByDay
+}
+
+const evaluatePropRules = ({ rules, trades, asOf }: EvaluatePropRulesParams): PropEvaluationResult => {
+	const startKey = formatDateKey(rules.evaluationStartDate)
+	const endKey = rules.evaluationEndDate ? formatDateKey(rules.evaluationEndDate) : null
+	const asOfKey = formatDateKey(asOf)
+	const lastKey = endKey && endKey < asOfKey ? endKey : asOfKey
+
+	let balanceCents = rules.startingBalanceCents
+	let peakBalanceCents = rules.startingBalanceCents
+	let floorCents = getDrawdownFloor(rules, peakBalanceCents)
+	let bestDayCents = 0
+	let tradingDays = 0
+	let decidedStatus: PropEvaluationStatusKind | null = null
+	let decidedOn: string | null = null
+
+	const violations: PropRuleViolation[] = []
+	const days: PropEvaluationDay[] = []
+
+	for (const [date, dayTrades] of groupTradesByDay(trades, startKey, lastKey)) {
+		// Scaling limits follow the previous close, so they can't change mid-day
+		const { currentMaxContracts } = getScalingLimit(
+			rules.scalingPlan,
+			balanceCents - rules.startingBalanceCents
+		)
+		const dayViolations: PropRuleViolation[] = []
+		let dayPnlCents = 0
+
+		for (const trade of dayTrades) {
+			balanceCents += trade.pnlCents
+			dayPnlCents += trade.pnlCents
+
+			if (rules.drawdownType === "trailing") {
+				peakBalanceCents = Math.max(peakBalanceCents, balanceCents)
+				floorCents = getDrawdownFloor(rules, peakBalanceCents)
+			}
+
+			if (currentMaxContracts !== null && trade.contracts > currentMaxContracts) {
+				addViolation(dayViolations, "scaling_plan", date)
+			}
+			if (balanceCents <= floorCents) {
+				addViolation(dayViolations, "max_drawdown", date)
+			}
+			if (rules.dailyLossLimitCents !== null && dayPnlCents <= -rules.dailyLossLimitCents) {
+				addViolation(dayViolations, "daily_loss", date)
+			}
+		}
+
+		const dayFloorCents = floorCents
+		if (rules.drawdownType === "eod_trailing") {
+			peakBalanceCents = Math.max(peakBalanceCents, balanceCents)
+			floorCents = getDrawdownFloor(rules, peakBalanceCents)
+		}
+
+		tradingDays++
+		bestDayCents = Math.max(bestDayCents, dayPnlCents)
+		const profitCents = balanceCents - rules.startingBalanceCents
+		const consistencyPercent = getConsistencyPercent(bestDayCents, profitCents)
+
+		const failed = dayViolations.some((violation) => FAILING_VIOLATIONS.includes(violation.type))
+		const passed =
+			!failed &&
+			rules.profitTargetCents !== null &&
+			profitCents >= rules.profitTargetCents &&
+			tradingDays >= (rules.minTradingDays ?? 0) &&
+			isConsistencyMet(rules, consistencyPercent)
+
+		const status: PropEvaluationStatusKind = failed
+			? "failed"
+			: passed
+				? "passed"
+				: isAtRisk(rules, balanceCents, dayFloorCents, dayPnlCents, dayViolations)
+					? "at_risk"
+					: "in_progress"
+
+		violations.push(...dayViolations)
+		days.push({
+			date,
+			status,
+			pnlCents: dayPnlCents,
+			balanceCents,
+			drawdownFloorCents: floorCents,
+			profitCents,
+			tradingDays,
+			consistencyPercent,
+			violations: dayViolations,
+		})
+
+		if (failed || passed) {
+			decidedStatus = status
+			decidedOn = date
+			break
+		}
+	}
+
+	const profitCents = balanceCents - rules.startingBalanceCents
+	const consistencyPercent = getConsistencyPercent(bestDayCents, profitCents)
+
+	// Deadline passed without reaching the target
+	if (!decidedStatus && endKey && asOfKey > endKey) {
+		const expired: PropRuleViolation = { type: "expired", date: endKey }
+		violations.push(expired)
+		days.push({
+			date: endKey,
+			status: "failed",
+			pnlCents: 0,
+			balanceCents,
+			drawdownFloorCents: floorCents,
+			profitCents,
+			tradingDays,
+			consistencyPercent,
+			violations: [expired],
+		})
+		decidedStatus = "failed"
+		decidedOn = endKey
+	}
+
+	const today = days.find((day) => day.date === asOfKey)
+	const todayPnlCents = today?.pnlCents ?? 0
+	const { currentMaxContracts, nextTier } = getScalingLimit(rules.scalingPlan, profitCents)
+
+	const status: PropEvaluationStatusKind =
+		decidedStatus ??
+		(isAtRisk(rules, balanceCents, floorCents, todayPnlCents, today?.violations ?? [])
+			? "at_risk"
+			: "in_progress")
+
+	return {
+		status: {
+			status,
+			balanceCents,
+			peakBalanceCents,
+			drawdownFloorCents: floorCents,
+			distanceToFloorCents: balanceCents - floorCents,
+			profitCents,
+			profitTargetCents: rules.profitTargetCents,
+			profitProgressPercent:
+				rules.profitTargetCents !== null && rules.profitTargetCents > 0
+					? roundPercent(Math.max(0, (profitCents / rules.profitTargetCents) * 100))
+					: null,
+			todayPnlCents,
+			dailyLossRemainingCents:
+				rules.dailyLossLimitCents !== null
+					? Math.max(0, rules.dailyLossLimitCents + todayPnlCents)
+					: null,
+			tradingDays,
+			minTradingDays: rules.minTradingDays,
+			tradingDaysRemaining:
+				rules.minTradingDays !== null ? Math.max(0, rules.minTradingDays - tradingDays) : null,
+			calendarDaysRemaining: endKey
+				? Math.max(0, Math.round((Date.parse(endKey) - Date.parse(asOfKey)) / DAY_MS))
+				: null,
+			bestDayCents,
+			consistencyPercent,
+			consistencyLimitPercent: rules.consistencyPercent,
+			isConsistencyMet: isConsistencyMet(rules, consistencyPercent),
+			currentMaxContracts,
+			nextScalingTier: nextTier,
+			violations,
+			decidedOn,
+		},
+		days,
+	}
+}
+
+export {
+	evaluatePropRules,
+	getDrawdownFloor,
+	getScalingLimit,
+	getConsistencyPercent,
+	isConsistencyMet,
+}
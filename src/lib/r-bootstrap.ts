@@ -0,0 +1,73 @@
+import type { EmpiricalRSource } from "@/types/monte-carlo"
+
+// ==========================================
+// EMPIRICAL R-MULTIPLE BOOTSTRAP
+// ==========================================
+
+/**
+ * Creates a draw function over a trader's realized R-multiples.
+ *
+ * - plain: every call is an independent draw with replacement.
+ * - block: circular moving-block bootstrap — a random start is picked and the
+ *   next `blockLength` calls walk forward through the chronological samples
+ *   (wrapping at the end), so winning and losing streaks keep their clustering.
+ *
+ * Create one sampler per simulated run: block state carries across calls.
+ * `random` is the run's generator, so seeded runs resample identically.
+ */
+const createRSampler = (
+	{ rMultiples, method, blockLength }: EmpiricalRSource,
+	random: () => number = Math.random
+): (() => number) => {
+	const count = rMultiples.length
+	if (count === 0) throw new Error("Cannot bootstrap from an empty sample")
+
+	const randomIndex = () => Math.floor(random() * count)
+
+	if (method === "plain" || blockLength <= 1) {
+		return () => rMultiples[randomIndex()]
+	}
+
+	let position = 0
+	let remaining = 0
+
+	return () => {
+		if (remaining === 0) {
+			position = randomIndex()
+			remaining = blockLength
+		}
+		const value = rMultiples[position]
+		position = (position + 1) % count
+		remaining--
+		return value
+	}
+}
+
+/**
+ * Win/loss summary of a set of R-multiples, in the same terms as the
+ * parametric simulators: win rate over decisive trades, average win R over
+ * average loss R, and the share of exact breakevens.
+ */
+const summarizeRSamples = (
+	rMultiples: number[]
+): { winRate: number; rewardRiskRatio: number; breakevenRate: number } => {
+	const wins = rMultiples.filter((r) => r > 0)
+	const losses = rMultiples.filter((r) => r < 0)
+	const decided = wins.length + losses.length
+
+	const avg = (values: number[]) =>
+		values.length > 0
+			? values.reduce((sum, v) => sum + v, 0) / values.length
+			: 1
+
+	return {
+		winRate: decided > 0 ? (wins.length / decided) * 100 : 0,
+		rewardRiskRatio: avg(wins) / Math.abs(avg(losses)) || 1,
+		breakevenRate:
+			rMultiples.length > 0
+				? ((rMultiples.length - decided) / rMultiples.length) * 100
+				: 0,
+	}
+}
+
+export { createRSampler, summarizeRSamples }
@@ -0,0 +1,86 @@
+import type { ReplayDay, ReplayTimeline, ReplayTradeResult } from "@/types/replay"
+import type { TradingCalendar } from "@/types/market-calendar"
+import { BRT_OFFSET, formatDateKey } from "@/lib/dates"
+
+// ==========================================
+// REPLAY SESSION HELPERS
+// ==========================================
+
+type ReplayDateError = "NOT_TRADING_DAY" | "BEFORE_START" | "NOT_AFTER_CURRENT" | "AFTER_CURRENT"
+
+/**
+ * Instant stored in replayStartDate / replayCurrentDate for a date key.
+ * Noon BRT keeps formatDateKey on the same calendar day wherever it runs.
+ */
+const toReplayInstant = (dateKey: string): Date => new Date(`${dateKey}T12:00:00${BRT_OFFSET}`)
+
+/** Checks a forward jump: the target must be a trading day after the current one */
+const validateReplayJump = (
+	calendar: TradingCalendar,
+	currentKey: string,
+	targetKey: string
+): ReplayDateError | null => {
+	if (!calendar.isTradingDay(targetKey)) return "NOT_TRADING_DAY"
+	if (targetKey <= currentKey) return "NOT_AFTER_CURRENT"
+	return null
+}
+
+/** Checks a branch point: a trading day between the start and the current day */
+const validateReplayBranch = (
+	calendar: TradingCalendar,
+	startKey: string,
+	currentKey: string,
+	targetKey: string
+): ReplayDateError | null => {
+	if (!calendar.isTradingDay(targetKey)) return "NOT_TRADING_DAY"
+	if (targetKey < startKey) return "BEFORE_START"
+	if (targetKey > currentKey) return "AFTER_CURRENT"
+	return null
+}
+
+/**
+ * Lays the account's trades over the trading days from the start date through
+ * the current day. Trades outside that window (or on non-trading days) are
+ * not part of the session and are ignored.
+ */
+const buildReplayTimeline = (
+	calendar: TradingCalendar,
+	startKey: string,
+	currentKey: string,
+	trades: ReplayTradeResult[]
+): ReplayTimeline => {
+	const totals = new Map<string, { pnlCents: number; tradeCount: number }>()
+	for (const trade of trades) {
+		const dateKey = formatDateKey(trade.entryDate)
+		const existing = totals.get(dateKey) ?? { pnlCents: 0, tradeCount: 0 }
+		existing.pnlCents += trade.pnlCents ?? 0
+		existing.tradeCount++
+		totals.set(dateKey, existing)
+	}
+
+	const days: ReplayDay[] = calendar.listTradingDays(startKey, currentKey).map((date) => ({
+		date,
+		pnlCents: totals.get(date)?.pnlCents ?? 0,
+		tradeCount: totals.get(date)?.tradeCount ?? 0,
+		isCurrent: date === currentKey,
+	}))
+
+	const replayed = days.filter((day) => !day.isCurrent)
+
+	return {
+		startDate: startKey,
+		currentDate: currentKey,
+		daysReplayed: replayed.length,
+		daysTraded: replayed.filter((day) => day.tradeCount > 0).length,
+		totalPnlCents: days.reduce((sum, day) => sum + day.pnlCents, 0),
+		days,
+	}
+}
+
+export type { ReplayDateError }
+export {
+	toReplayInstant,
+	validateReplayJump,
+	validateReplayBranch,
+	buildReplayTimeline,
+}
@@ -0,0 +1,53 @@
+// ==========================================
+// RISK PROFILE ACCESS RULES
+// ==========================================
+
+import type { RiskProfileOwnership, RiskProfileVisibility } from "@/types/risk-profile"
+
+interface RiskProfileAccessInput {
+	createdByUserId: string
+	visibility: string
+}
+
+/**
+ * Classifies a profile from the reader's point of view. Public profiles are
+ * "system" even for the admin who created them, so they never show up as
+ * personal profiles.
+ */
+const getRiskProfileOwnership = (
+	profile: RiskProfileAccessInput,
+	userId: string
+): RiskProfileOwnership => {
+	if ((profile.visibility as RiskProfileVisibility) === "public") return "system"
+	return profile.createdByUserId === userId ? "mine" : "shared"
+}
+
+/**
+ * Public profiles are visible to everyone, private ones to their owner only and
+ * shared ones to their owner plus anyone who opened the share link (`hasShare`).
+ */
+const canViewRiskProfile = (
+	profile: RiskProfileAccessInput,
+	userId: string,
+	hasShare: boolean
+): boolean => {
+	const visibility = profile.visibility as RiskProfileVisibility
+	if (visibility === "public") return true
+	if (profile.createdByUserId === userId) return true
+	return visibility === "shared" && hasShare
+}
+
+/**
+ * Admins manage public profiles; personal profiles can only be changed by
+ * their owner. Shared profiles stay read-only for everyone else.
+ */
+const canEditRiskProfile = (
+	profile: RiskProfileAccessInput,
+	userId: string,
+	isAdmin: boolean
+): boolean => {
+	if ((profile.visibility as RiskProfileVisibility) === "public") return isAdmin
+	return profile.createdByUserId === userId
+}
+
+export { getRiskProfileOwnership, canViewRiskProfile, canEditRiskProfile }
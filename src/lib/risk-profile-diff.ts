@@ -0,0 +1,102 @@
+// ==========================================
+// RISK PROFILE VERSION DIFF
+// ==========================================
+
+import type {
+	DecisionTreeConfig,
+	RiskProfileDiffEntry,
+	RiskProfileVersion,
+} from "@/types/risk-profile"
+
+/** Top-level limit fields stored next to the decision tree on every version */
+const LIMIT_FIELDS = [
+	"baseRiskCents",
+	"dailyLossCents",
+	"weeklyLossCents",
+	"monthlyLossCents",
+	"dailyProfitTargetCents",
+] as const
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value)
+
+const joinPath = (parent: string, key: string): string => (parent ? `${parent}.${key}` : key)
+
+/**
+ * Walks two JSON values side by side and appends one entry per leaf that differs.
+ * Objects recurse by key and arrays by index, so a removed loss recovery step
+ * shows up as "removed" on that index rather than as a change to the whole array.
+ */
+const collectDiff = (
+	before: unknown,
+	after: unknown,
+	path: string,
+	entries: RiskProfileDiffEntry[]
+): void => {
+	if (before === undefined && after === undefined) return
+
+	if (before === undefined) {
+		entries.push({ path, kind: "added", before: undefined, after })
+		return
+	}
+	if (after === undefined) {
+		entries.push({ path, kind: "removed", before, after: undefined })
+		return
+	}
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		const length = Math.max(before.length, after.length)
+		for (let index = 0; index < length; index++) {
+			collectDiff(before[index], after[index], `${path}[${index}]`, entries)
+		}
+		return
+	}
+
+	if (isPlainObject(before) && isPlainObject(after)) {
+		const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+		for (const key of keys) {
+			collectDiff(before[key], after[key], joinPath(path, key), entries)
+		}
+		return
+	}
+
+	if (before !== after) {
+		entries.push({ path, kind: "changed", before, after })
+	}
+}
+
+/**
+ * Lists every leaf that changed between two decision trees.
+ * Returns an empty array when both trees are equivalent.
+ */
+const diffDecisionTrees = (
+	before: DecisionTreeConfig,
+	after: DecisionTreeConfig
+): RiskProfileDiffEntry[] => {
+	const entries: RiskProfileDiffEntry[] = []
+	collectDiff(before, after, "", entries)
+	return entries
+}
+
+/**
+ * Compares two versions of a profile: the top-level limits first, then the
+ * decision tree (prefixed with "decisionTree."). Name and description are
+ * ignored because they don't affect how trades are evaluated.
+ */
+const diffRiskProfileVersions = (
+	before: Pick<RiskProfileVersion, (typeof LIMIT_FIELDS)[number] | "decisionTree">,
+	after: Pick<RiskProfileVersion, (typeof LIMIT_FIELDS)[number] | "decisionTree">
+): RiskProfileDiffEntry[] => {
+	const entries: RiskProfileDiffEntry[] = []
+
+	for (const field of LIMIT_FIELDS) {
+		if (before[field] !== after[field]) {
+			entries.push({ path: field, kind: "changed", before: before[field], after: after[field] })
+		}
+	}
+
+	collectDiff(before.decisionTree, after.decisionTree, "decisionTree", entries)
+	return entries
+}
+
+export { diffDecisionTrees, diffRiskProfileVersions }
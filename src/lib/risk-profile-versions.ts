@@ -0,0 +1,110 @@
+/**
+ * Risk profile versions — one immutable `risk_profile_versions` row per rule change.
+ *
+ * The `risk_management_profiles` row always mirrors its latest version, so
+ * existing readers keep working. Anything that evaluates past days (live status,
+ * simulations) reads the version a monthly plan is pinned to instead.
+ */
+
+import { db } from "@/db/drizzle"
+import { riskManagementProfiles, riskProfileVersions } from "@/db/schema"
+import type { RiskManagementProfileRow, RiskProfileVersionRow } from "@/db/schema"
+import { and, eq } from "drizzle-orm"
+import type { DecisionTreeConfig, RiskProfileVersion } from "@/types/risk-profile"
+import { diffDecisionTrees } from "@/lib/risk-profile-diff"
+
+/** Profile columns that change how trades are evaluated */
+type RiskProfileRules = Pick<
+	RiskManagementProfileRow,
+	| "baseRiskCents"
+	| "dailyLossCents"
+	| "weeklyLossCents"
+	| "monthlyLossCents"
+	| "dailyProfitTargetCents"
+	| "decisionTree"
+>
+
+/**
+ * Parses a version row's JSON decision tree into a typed RiskProfileVersion.
+ */
+export const parseRiskProfileVersionRow = (row: RiskProfileVersionRow): RiskProfileVersion => ({
+	id: row.id,
+	profileId: row.profileId,
+	version: row.version,
+	name: row.name,
+	description: row.description,
+	baseRiskCents: row.baseRiskCents,
+	dailyLossCents: row.dailyLossCents,
+	weeklyLossCents: row.weeklyLossCents,
+	monthlyLossCents: row.monthlyLossCents,
+	dailyProfitTargetCents: row.dailyProfitTargetCents,
+	decisionTree: JSON.parse(row.decisionTree) as DecisionTreeConfig,
+	createdByUserId: row.createdByUserId,
+	createdAt: row.createdAt,
+})
+
+/**
+ * True when an update touches the rules (limits or decision tree), as opposed
+ * to a rename or description edit that doesn't need a new version. Trees are
+ * compared structurally since key order in the stored JSON isn't stable.
+ */
+export const haveRiskProfileRulesChanged = (current: RiskProfileRules, next: RiskProfileRules): boolean =>
+	current.baseRiskCents !== next.baseRiskCents ||
+	current.dailyLossCents !== next.dailyLossCents ||
+	current.weeklyLossCents !== next.weeklyLossCents ||
+	current.monthlyLossCents !== next.monthlyLossCents ||
+	current.dailyProfitTargetCents !== next.dailyProfitTargetCents ||
+	diffDecisionTrees(
+		JSON.parse(current.decisionTree) as DecisionTreeConfig,
+		JSON.parse(next.decisionTree) as DecisionTreeConfig
+	).length > 0
+
+/**
+ * Snapshots a profile row as its `currentVersion`. Call right after the profile
+ * row is inserted or its rules are updated.
+ */
+export const snapshotRiskProfileVersion = async (
+	profile: RiskManagementProfileRow,
+	userId: string | null
+): Promise<RiskProfileVersionRow> => {
+	const [row] = await db
+		.insert(riskProfileVersions)
+		.values({
+			profileId: profile.id,
+			version: profile.currentVersion,
+			name: profile.name,
+			description: profile.description,
+			baseRiskCents: profile.baseRiskCents,
+			dailyLossCents: profile.dailyLossCents,
+			weeklyLossCents: profile.weeklyLossCents,
+			monthlyLossCents: profile.monthlyLossCents,
+			dailyProfitTargetCents: profile.dailyProfitTargetCents,
+			decisionTree: profile.decisionTree,
+			createdByUserId: userId,
+		})
+		.returning()
+
+	return row
+}
+
+/**
+ * Id of the latest version of a profile, or null when the profile doesn't exist.
+ * Monthly plans are pinned to this when a profile is first attached.
+ */
+export const getLatestRiskProfileVersionId = async (profileId: string): Promise<string | null> => {
+	const profile = await db.query.riskManagementProfiles.findFirst({
+		where: eq(riskManagementProfiles.id, profileId),
+		columns: { currentVersion: true },
+	})
+	if (!profile) return null
+
+	const version = await db.query.riskProfileVersions.findFirst({
+		where: and(
+			eq(riskProfileVersions.profileId, profileId),
+			eq(riskProfileVersions.version, profile.currentVersion)
+		),
+		columns: { id: true },
+	})
+
+	return version?.id ?? null
+}
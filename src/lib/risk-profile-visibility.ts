@@ -0,0 +1,59 @@
+// ==========================================
+// RISK PROFILE VISIBILITY LOOKUPS
+// ==========================================
+
+import { db } from "@/db/drizzle"
+import { riskManagementProfiles, riskProfileShares } from "@/db/schema"
+import type { RiskManagementProfileRow } from "@/db/schema"
+import { and, eq, inArray } from "drizzle-orm"
+import { canViewRiskProfile } from "@/lib/risk-profile-access"
+
+/**
+ * Loads a profile the user is allowed to see, or null when it doesn't exist
+ * or is private to someone else. Shared profiles need a share row for the user.
+ * Server actions and API-key routes both go through this before attaching a profile.
+ */
+const findVisibleProfileRow = async (
+	id: string,
+	userId: string
+): Promise<RiskManagementProfileRow | null> => {
+	const row = await db.query.riskManagementProfiles.findFirst({
+		where: eq(riskManagementProfiles.id, id),
+	})
+	if (!row) return null
+
+	const share = row.visibility === "shared" && row.createdByUserId !== userId
+		? await db.query.riskProfileShares.findFirst({
+			where: and(eq(riskProfileShares.profileId, id), eq(riskProfileShares.userId, userId)),
+			columns: { id: true },
+		})
+		: undefined
+
+	return canViewRiskProfile(row, userId, !!share) ? row : null
+}
+
+/**
+ * Of the given profile ids, the ones that exist and the user is allowed to see.
+ * Bulk counterpart of findVisibleProfileRow for imports attaching many profiles.
+ */
+const filterVisibleProfileIds = async (ids: string[], userId: string): Promise<Set<string>> => {
+	if (ids.length === 0) return new Set()
+
+	const [rows, shares] = await Promise.all([
+		db.query.riskManagementProfiles.findMany({
+			where: inArray(riskManagementProfiles.id, ids),
+			columns: { id: true, visibility: true, createdByUserId: true },
+		}),
+		db.query.riskProfileShares.findMany({
+			where: and(inArray(riskProfileShares.profileId, ids), eq(riskProfileShares.userId, userId)),
+			columns: { profileId: true },
+		}),
+	])
+	const sharedIds = new Set(shares.map((share) => share.profileId))
+
+	return new Set(
+		rows.filter((row) => canViewRiskProfile(row, userId, sharedIds.has(row.id))).map((row) => row.id)
+	)
+}
+
+export { findVisibleProfileRow, filterVisibleProfileIds }
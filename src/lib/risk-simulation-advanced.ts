@@ -16,6 +16,7 @@ import type {
 	EquityCurvePoint,
 } from "@/types/risk-simulation"
 import type { RiskCalculation, DecisionTreeConfig } from "@/types/risk-profile"
+import type { TradingCalendar } from "@/types/market-calendar"
 import {
 	calculateTickBasedPositionSize,
 	calculateAssetPnL,
@@ -24,7 +25,7 @@ import {
 	determineOutcome,
 } from "@/lib/calculations"
 import { formatDateKey } from "@/lib/dates"
-import { buildWeekKey, buildWeekTraces, buildSimulatedStats, buildOriginalStats } from "@/lib/risk-simulation"
+import { buildWeekKey, buildSessionKey, buildWeekTraces, buildSimulatedStats, buildOriginalStats } from "@/lib/risk-simulation"
 
 // ==========================================
 // RISK CALCULATION RESOLVER
@@ -51,7 +52,8 @@ const resolveRiskCalculation = (
 
 const runAdvancedSimulation = (
 	trades: TradeForSimulation[],
-	params: AdvancedSimulationParams
+	params: AdvancedSimulationParams,
+	calendar?: TradingCalendar
 ): RiskSimulationResult => {
 	const {
 		accountBalanceCents,
@@ -102,7 +104,7 @@ const runAdvancedSimulation = (
 
 	for (let i = 0; i < trades.length; i++) {
 		const trade = trades[i]
-		const dayKey = formatDateKey(trade.entryDate)
+		const dayKey = buildSessionKey(trade.entryDate, calendar)
 		const monthKey = dayKey.slice(0, 7)
 		const weekKey = buildWeekKey(trade.entryDate)
 
@@ -440,7 +442,7 @@ const runAdvancedSimulation = (
 	if (currentDayKey && dailyTargetHit) daysHitDailyTarget++
 
 	// ── BUILD RESULT ──
-	const weeks = buildWeekTraces(trades, simulatedTrades)
+	const weeks = buildWeekTraces(trades, simulatedTrades, calendar)
 	const originalStats = buildOriginalStats(trades, accountBalanceCents)
 	const simStats = buildSimulatedStats(simulatedTrades, accountBalanceCents)
 
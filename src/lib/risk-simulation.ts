@@ -16,6 +16,7 @@ import type {
 	SimulationSummary,
 	RiskSimulationResult,
 } from "@/types/risk-simulation"
+import type { TradingCalendar } from "@/types/market-calendar"
 import {
 	calculateTickBasedPositionSize,
 	calculateAssetPnL,
@@ -35,6 +36,16 @@ const buildWeekKey = (date: Date): string => {
 	return formatDateKey(start)
 }
 
+/**
+ * Trading session a trade belongs to. With a market calendar, trades placed on
+ * a holiday or weekend count towards the next session instead of opening a
+ * day of their own.
+ */
+const buildSessionKey = (date: Date, calendar?: TradingCalendar): string => {
+	const dateKey = formatDateKey(date)
+	return calendar ? calendar.getSessionKey(dateKey) : dateKey
+}
+
 /** Build a human-readable week label like "Feb 17-21" */
 const buildWeekLabel = (date: Date, locale = "en-US"): string => {
 	const { start, end } = getWeekBoundaries(date)
@@ -111,7 +122,8 @@ const buildOriginalStats = (
 
 const runSimpleSimulation = (
 	trades: TradeForSimulation[],
-	params: SimpleSimulationParams
+	params: SimpleSimulationParams,
+	calendar?: TradingCalendar
 ): RiskSimulationResult => {
 	const {
 		accountBalanceCents,
@@ -175,7 +187,7 @@ const runSimpleSimulation = (
 
 	for (let i = 0; i < trades.length; i++) {
 		const trade = trades[i]
-		const dayKey = formatDateKey(trade.entryDate)
+		const dayKey = buildSessionKey(trade.entryDate, calendar)
 		const monthKey = dayKey.slice(0, 7)
 		const weekKey = buildWeekKey(trade.entryDate)
 
@@ -384,7 +396,7 @@ const runSimpleSimulation = (
 	if (currentDayKey && dailyTargetHit) daysHitDailyTarget++
 
 	// ── BUILD WEEK/DAY TRACE ──
-	const weeks = buildWeekTraces(trades, simulatedTrades)
+	const weeks = buildWeekTraces(trades, simulatedTrades, calendar)
 
 	// ── BUILD SUMMARY ──
 	const originalStats = buildOriginalStats(trades, accountBalanceCents)
@@ -494,7 +506,8 @@ const buildSimulatedStats = (
 /** Group simulated trades into week/day structure for the trace modal */
 const buildWeekTraces = (
 	originalTrades: TradeForSimulation[],
-	simulatedTrades: SimulatedTrade[]
+	simulatedTrades: SimulatedTrade[],
+	calendar?: TradingCalendar
 ): WeekTrace[] => {
 	const dayMap = new Map<string, SimulatedTrade[]>()
 
@@ -507,7 +520,7 @@ const buildWeekTraces = (
 	const weekMap = new Map<string, DayTrace[]>()
 
 	for (const [dayKey, dayTrades] of dayMap) {
-		const firstTrade = originalTrades.find((t) => formatDateKey(t.entryDate) === dayKey)
+		const firstTrade = originalTrades.find((t) => buildSessionKey(t.entryDate, calendar) === dayKey)
 		if (!firstTrade) continue
 
 		const weekKey = buildWeekKey(firstTrade.entryDate)
@@ -555,4 +568,4 @@ const buildWeekTraces = (
 	return weeks.toSorted((a, b) => a.weekKey.localeCompare(b.weekKey))
 }
 
-export { runSimpleSimulation, buildWeekKey, buildWeekTraces, buildSimulatedStats, buildOriginalStats }
+export { runSimpleSimulation, buildWeekKey, buildSessionKey, buildWeekTraces, buildSimulatedStats, buildOriginalStats }
@@ -0,0 +1,139 @@
+/**
+ * Simulation run history — one `simulation_runs` row per Monte Carlo or risk
+ * simulation run.
+ *
+ * Run actions record every successful run here; only the newest
+ * SIMULATION_HISTORY_LIMIT runs of each kind are kept per account. Recording
+ * is best-effort: a failed insert is logged and never fails the run itself.
+ */
+
+import { db } from "@/db/drizzle"
+import { simulationRuns } from "@/db/schema"
+import type { SimulationRunRow } from "@/db/schema"
+import { and, desc, eq, inArray } from "drizzle-orm"
+import type { DistributionBucket, EquityFanPoint } from "@/types/monte-carlo"
+import type {
+	SimulationRun,
+	SimulationRunDetail,
+	SimulationRunInputs,
+	SimulationRunSourceStats,
+	SimulationRunStatistics,
+} from "@/types/simulation-run"
+
+/** Runs kept per account and kind; older ones are pruned on insert */
+export const SIMULATION_HISTORY_LIMIT = 50
+
+/** Longest run name (matches the `name` column) */
+export const SIMULATION_RUN_NAME_MAX = 100
+
+interface RecordSimulationRunInput {
+	userId: string
+	accountId: string
+	name: string
+	seed: number | null
+	inputs: SimulationRunInputs
+	sourceStats: SimulationRunSourceStats | null
+	statistics: SimulationRunStatistics
+	distribution: DistributionBucket[]
+	equityFan: EquityFanPoint[]
+}
+
+/**
+ * Store a finished run and prune the account's history for that kind.
+ * Returns the new run id, or null when it could not be saved.
+ */
+export const recordSimulationRun = async (
+	input: RecordSimulationRunInput
+): Promise<string | null> => {
+	try {
+		const [run] = await db
+			.insert(simulationRuns)
+			.values({
+				userId: input.userId,
+				accountId: input.accountId,
+				kind: input.inputs.kind,
+				name: input.name.slice(0, SIMULATION_RUN_NAME_MAX),
+				seed: input.seed,
+				inputs: JSON.stringify(input.inputs),
+				sourceStats: input.sourceStats
+					? JSON.stringify(input.sourceStats)
+					: null,
+				statistics: JSON.stringify(input.statistics),
+				distribution: JSON.stringify(input.distribution),
+				equityFan: JSON.stringify(input.equityFan),
+			})
+			.returning({ id: simulationRuns.id })
+
+		const scope = and(
+			eq(simulationRuns.userId, input.userId),
+			eq(simulationRuns.accountId, input.accountId),
+			eq(simulationRuns.kind, input.inputs.kind)
+		)
+		const stale = await db
+			.select({ id: simulationRuns.id })
+			.from(simulationRuns)
+			.where(scope)
+			.orderBy(desc(simulationRuns.createdAt))
+			.offset(SIMULATION_HISTORY_LIMIT)
+
+		if (stale.length > 0) {
+			await db.delete(simulationRuns).where(
+				inArray(
+					simulationRuns.id,
+					stale.map((row) => row.id)
+				)
+			)
+		}
+
+		return run.id
+	} catch (error) {
+		console.error("Record simulation run error:", error)
+		return null
+	}
+}
+
+/** Columns the history lists skip — the charts are only read by the compare view */
+export const SIMULATION_RUN_CHART_COLUMNS = {
+	distribution: false,
+	equityFan: false,
+} as const
+
+/** Parse a stored row into a history entry */
+export const toSimulationRun = (
+	row: Omit<SimulationRunRow, "distribution" | "equityFan">
+): SimulationRun => ({
+	id: row.id,
+	kind: row.kind as SimulationRun["kind"],
+	name: row.name,
+	seed: row.seed,
+	inputs: JSON.parse(row.inputs) as SimulationRunInputs,
+	sourceStats: row.sourceStats
+		? (JSON.parse(row.sourceStats) as SimulationRunSourceStats)
+		: null,
+	statistics: JSON.parse(row.statistics) as SimulationRunStatistics,
+	createdAt: row.createdAt,
+	updatedAt: row.updatedAt,
+})
+
+/** Parse a stored row including its distribution and equity fan */
+export const toSimulationRunDetail = (
+	row: SimulationRunRow
+): SimulationRunDetail => ({
+	...toSimulationRun(row),
+	distribution: JSON.parse(row.distribution) as DistributionBucket[],
+	equityFan: JSON.parse(row.equityFan) as EquityFanPoint[],
+})
+
+/** A run of the given account, or undefined when it isn't the user's */
+export const findSimulationRun = async (
+	userId: string,
+	accountId: string,
+	runId: string
+): Promise<SimulationRunRow | undefined> =>
+	db.query.simulationRuns.findFirst({
+		where: and(
+			eq(simulationRuns.id, runId),
+			eq(simulationRuns.userId, userId),
+			eq(simulationRuns.accountId, accountId)
+		),
+	})
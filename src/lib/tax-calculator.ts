@@ -0,0 +1,221 @@
+/**
+ * Pure Brazilian income tax engine for variable-income trading results.
+ *
+ * Implements the monthly apuração rules a trader follows when filling a DARF:
+ *   - day trade and swing results are netted separately per month
+ *   - losses carry forward indefinitely, each bucket only offsets its own kind
+ *   - swing stock gains are exempt when monthly stock sales stay under the threshold
+ *   - IRRF withheld on notas is deducted from the tax due (excess carries forward)
+ *   - DARFs under R$10 are not paid, the amount rolls into the next month
+ */
+
+import { formatDateKey } from "@/lib/dates"
+import type { TradingCalendar } from "@/types/market-calendar"
+import type { MonthlyTaxInput, TaxCalculationParams, TaxLedgerEntry } from "@/types/tax"
+
+/** Receita Federal does not accept DARFs below R$10,00 */
+const MINIMUM_DARF_CENTS = 1000
+
+/** Closed trade reduced to the fields the tax engine needs */
+interface TaxableTrade {
+	entryDate: Date
+	exitDate: Date
+	pnlCents: number // net of fees
+	isStock: boolean
+	saleValueCents: number // gross value of the selling side
+}
+
+/** B3 cash-market tickers: 4 letters + share class (3 ON, 4 PN, 5/6 PNA/PNB, 11 units), optional fractional "F" */
+const B3_STOCK_SYMBOL_PATTERN = /^[A-Z]{4}(3|4|5|6|11)F?$/
+
+const pad2 = (n: number): string => String(n).padStart(2, "0")
+
+/** Build a "YYYY-MM" key for a calendar month */
+const toMonthKey = (year: number, month: number): string => `${year}-${pad2(month)}`
+
+/** Whether a symbol looks like a B3 cash-market stock ticker (e.g. PETR4, VALE3, TAEE11) */
+const isB3StockSymbol = (symbol: string): boolean => B3_STOCK_SYMBOL_PATTERN.test(symbol.toUpperCase())
+
+/**
+ * DARF due date: last business day of the month following the apuração month.
+ * Business days come from the B3 trading calendar, so admin-edited closings count.
+ *
+ * @param year - Apuração year
+ * @param month - Apuração month (1-12)
+ * @param calendar - B3 trading calendar (`getTradingCalendar("B3")`)
+ * @returns Due date as YYYY-MM-DD
+ */
+const getDarfDueDate = (year: number, month: number, calendar: TradingCalendar): string => {
+	const dueYear = month === 12 ? year + 1 : year
+	const dueMonth = month === 12 ? 1 : month + 1
+	const lastDay = new Date(Date.UTC(dueYear, dueMonth, 0)).getUTCDate()
+
+	for (let day = lastDay; day >= 1; day--) {
+		const dateKey = `${dueYear}-${pad2(dueMonth)}-${pad2(day)}`
+		if (calendar.isTradingDay(dateKey)) return dateKey
+	}
+
+	return `${dueYear}-${pad2(dueMonth)}-${pad2(lastDay)}`
+}
+
+/**
+ * Group closed trades into month-level tax inputs.
+ * A trade is a day trade when it opens and closes on the same BRT session;
+ * results are attributed to the month of the exit (realization).
+ *
+ * @param trades - Closed trades with net P&L
+ * @param irrfByMonth - IRRF withheld per "YYYY-MM" key (from imported notas)
+ * @returns Chronologically sorted monthly inputs
+ */
+const aggregateMonthlyTaxInputs = (
+	trades: TaxableTrade[],
+	irrfByMonth: Map<string, number> = new Map()
+): MonthlyTaxInput[] => {
+	const monthMap = new Map<string, MonthlyTaxInput>()
+
+	const getOrCreate = (year: number, month: number): MonthlyTaxInput => {
+		const key = toMonthKey(year, month)
+		const existing = monthMap.get(key)
+		if (existing) return existing
+		const created: MonthlyTaxInput = {
+			year,
+			month,
+			dayTradeResultCents: 0,
+			swingResultCents: 0,
+			swingStockResultCents: 0,
+			swingStockSalesCents: 0,
+			irrfCents: 0,
+		}
+		monthMap.set(key, created)
+		return created
+	}
+
+	for (const trade of trades) {
+		const exitKey = formatDateKey(trade.exitDate)
+		const [year, month] = exitKey.split("-").map(Number)
+		const input = getOrCreate(year, month)
+		const isDayTrade = formatDateKey(trade.entryDate) === exitKey
+
+		if (isDayTrade) {
+			input.dayTradeResultCents += trade.pnlCents
+		} else if (trade.isStock) {
+			input.swingStockResultCents += trade.pnlCents
+			input.swingStockSalesCents += trade.saleValueCents
+		} else {
+			input.swingResultCents += trade.pnlCents
+		}
+	}
+
+	for (const [key, irrfCents] of irrfByMonth) {
+		const [year, month] = key.split("-").map(Number)
+		getOrCreate(year, month).irrfCents += irrfCents
+	}
+
+	return [...monthMap.values()].toSorted((a, b) =>
+		a.year !== b.year ? a.year - b.year : a.month - b.month
+	)
+}
+
+/**
+ * Offset a month's result against the accumulated loss of the same bucket.
+ * Returns the taxable base and the loss carried into the next month.
+ */
+const applyLossCarry = (
+	resultCents: number,
+	lossCarryInCents: number
+): { taxableCents: number; lossCarryOutCents: number } => {
+	const balance = resultCents - lossCarryInCents
+	return balance > 0
+		? { taxableCents: balance, lossCarryOutCents: 0 }
+		: { taxableCents: 0, lossCarryOutCents: -balance }
+}
+
+/**
+ * Run the monthly apuração over a chronological list of months.
+ * Carry balances (losses, IRRF credit, sub-minimum DARF) flow from one month into the next.
+ *
+ * @param params - Monthly inputs, tax rates and the stock sales exemption threshold
+ * @returns One ledger entry per input month, in the same order
+ */
+const calculateTaxLedger = (params: TaxCalculationParams): TaxLedgerEntry[] => {
+	const { dayTradeTaxRate, swingTradeTaxRate, taxExemptThresholdCents, calendar } = params
+	const months = params.months.toSorted((a, b) =>
+		a.year !== b.year ? a.year - b.year : a.month - b.month
+	)
+
+	let dayTradeLossCarry = 0
+	let swingLossCarry = 0
+	let irrfCreditCarry = 0
+	let darfCarry = 0
+
+	return months.map((input) => {
+		const swingExempt =
+			taxExemptThresholdCents > 0 &&
+			input.swingStockSalesCents > 0 &&
+			input.swingStockSalesCents <= taxExemptThresholdCents
+
+		// Exempt stock gains are ignored, exempt stock losses still offset future gains
+		const taxableStockResult = swingExempt
+			? Math.min(0, input.swingStockResultCents)
+			: input.swingStockResultCents
+
+		const dayTrade = applyLossCarry(input.dayTradeResultCents, dayTradeLossCarry)
+		const swing = applyLossCarry(input.swingResultCents + taxableStockResult, swingLossCarry)
+
+		const dayTradeTaxCents = Math.round((dayTrade.taxableCents * dayTradeTaxRate) / 100)
+		const swingTaxCents = Math.round((swing.taxableCents * swingTradeTaxRate) / 100)
+		const totalTaxCents = dayTradeTaxCents + swingTaxCents
+
+		const irrfCreditAvailable = irrfCreditCarry + input.irrfCents
+		const irrfCreditUsedCents = Math.min(irrfCreditAvailable, totalTaxCents)
+		const irrfCreditCarryOutCents = irrfCreditAvailable - irrfCreditUsedCents
+
+		const payableCents = totalTaxCents - irrfCreditUsedCents + darfCarry
+		const darfDueCents = payableCents >= MINIMUM_DARF_CENTS ? payableCents : 0
+		const darfCarryOutCents = payableCents >= MINIMUM_DARF_CENTS ? 0 : payableCents
+
+		const entry: TaxLedgerEntry = {
+			year: input.year,
+			month: input.month,
+			dayTradeResultCents: input.dayTradeResultCents,
+			swingResultCents: input.swingResultCents + input.swingStockResultCents,
+			swingStockSalesCents: input.swingStockSalesCents,
+			swingExempt,
+			dayTradeLossCarryInCents: dayTradeLossCarry,
+			swingLossCarryInCents: swingLossCarry,
+			dayTradeLossCarryOutCents: dayTrade.lossCarryOutCents,
+			swingLossCarryOutCents: swing.lossCarryOutCents,
+			dayTradeTaxableCents: dayTrade.taxableCents,
+			swingTaxableCents: swing.taxableCents,
+			dayTradeTaxCents,
+			swingTaxCents,
+			dayTradeTaxRate,
+			swingTradeTaxRate,
+			irrfCents: input.irrfCents,
+			irrfCreditUsedCents,
+			irrfCreditCarryOutCents,
+			darfCarryInCents: darfCarry,
+			darfDueCents,
+			darfCarryOutCents,
+			darfDueDate: getDarfDueDate(input.year, input.month, calendar),
+			darfPaidAt: null,
+		}
+
+		dayTradeLossCarry = dayTrade.lossCarryOutCents
+		swingLossCarry = swing.lossCarryOutCents
+		irrfCreditCarry = irrfCreditCarryOutCents
+		darfCarry = darfCarryOutCents
+
+		return entry
+	})
+}
+
+export {
+	MINIMUM_DARF_CENTS,
+	toMonthKey,
+	isB3StockSymbol,
+	getDarfDueDate,
+	aggregateMonthlyTaxInputs,
+	calculateTaxLedger,
+}
+export type { TaxableTrade }
@@ -0,0 +1,41 @@
+import sharp from "sharp"
+
+// Gallery tiles render at most ~320px wide; 2x covers high-density screens
+const THUMBNAIL_WIDTH = 640
+const THUMBNAIL_HEIGHT = 360
+const THUMBNAIL_CONTENT_TYPE = "image/webp"
+
+interface Thumbnail {
+	body: Buffer
+	contentType: string
+}
+
+/**
+ * Downscale an uploaded image to a WebP thumbnail.
+ * Honors EXIF orientation (phone captures) and never upscales small images.
+ */
+const createThumbnail = async (image: Buffer): Promise<Thumbnail> => {
+	const body = await sharp(image)
+		.rotate()
+		.resize({
+			width: THUMBNAIL_WIDTH,
+			height: THUMBNAIL_HEIGHT,
+			fit: "inside",
+			withoutEnlargement: true,
+		})
+		.webp({ quality: 75 })
+		.toBuffer()
+
+	return { body, contentType: THUMBNAIL_CONTENT_TYPE }
+}
+
+/** Thumbnail key next to the original: trades/{id}/123-abc.png → trades/{id}/123-abc.thumb.webp */
+const getThumbnailKey = (s3Key: string): string => `${s3Key.replace(/\.[^./]+$/, "")}.thumb.webp`
+
+export {
+	THUMBNAIL_WIDTH,
+	THUMBNAIL_HEIGHT,
+	createThumbnail,
+	getThumbnailKey,
+	type Thumbnail,
+}
@@ -0,0 +1,91 @@
+/**
+ * Trade attachment persistence — the forms send the full, ordered list on
+ * every save and the trade's rows are replaced with it.
+ */
+
+import { db } from "@/db/drizzle"
+import { tradeAttachments } from "@/db/schema"
+import type { NewTradeAttachment } from "@/db/schema"
+import { eq } from "drizzle-orm"
+import { deleteFile } from "@/lib/storage"
+import type { TradeAttachmentInput } from "@/lib/validations/trade-attachment"
+import { getTradeUploadPrefix } from "@/lib/validations/upload"
+
+const getAttachmentKeys = (attachments: Pick<TradeAttachmentInput, "s3Key" | "thumbnailS3Key">[]) =>
+	attachments.flatMap((attachment) => [attachment.s3Key, attachment.thumbnailS3Key ?? ""]).filter(Boolean)
+
+/** Storage keys of the files currently attached to a trade */
+export const getTradeAttachmentKeys = async (tradeId: string): Promise<string[]> => {
+	const rows = await db
+		.select({ s3Key: tradeAttachments.s3Key, thumbnailS3Key: tradeAttachments.thumbnailS3Key })
+		.from(tradeAttachments)
+		.where(eq(tradeAttachments.tradeId, tradeId))
+	return getAttachmentKeys(rows)
+}
+
+/**
+ * Throws unless every storage key is the user's own trade upload or already
+ * stored on the trade. Any other key may be another user's file, which
+ * attaching would expose and removing would delete.
+ */
+export const assertOwnAttachmentKeys = (
+	attachments: TradeAttachmentInput[],
+	userId: string,
+	storedKeys: string[] = []
+): void => {
+	const prefix = getTradeUploadPrefix(userId)
+	const stored = new Set(storedKeys)
+	const foreignKey = getAttachmentKeys(attachments).find((key) => !key.startsWith(prefix) && !stored.has(key))
+	if (foreignKey) {
+		throw new Error("Attachment references a file outside your uploads")
+	}
+}
+
+/** Row values for an attachment at a given position */
+export const toTradeAttachmentRow = (
+	tradeId: string,
+	attachment: TradeAttachmentInput,
+	sortOrder: number
+): NewTradeAttachment => ({
+	tradeId,
+	kind: attachment.kind,
+	url: attachment.url,
+	s3Key: attachment.s3Key,
+	thumbnailUrl: attachment.thumbnailUrl ?? null,
+	thumbnailS3Key: attachment.thumbnailS3Key ?? null,
+	fileName: attachment.fileName,
+	contentType: attachment.contentType,
+	sizeBytes: attachment.sizeBytes ?? null,
+	caption: attachment.caption || null,
+	sortOrder,
+})
+
+/**
+ * Replace a trade's attachments with the given list (array order = sortOrder)
+ * and delete stored files that are no longer referenced. Only files that were
+ * attached to this trade are ever deleted.
+ */
+export const replaceTradeAttachments = async (
+	tradeId: string,
+	userId: string,
+	attachments: TradeAttachmentInput[]
+): Promise<void> => {
+	const existingKeys = await getTradeAttachmentKeys(tradeId)
+
+	assertOwnAttachmentKeys(attachments, userId, existingKeys)
+
+	await db.delete(tradeAttachments).where(eq(tradeAttachments.tradeId, tradeId))
+	if (attachments.length > 0) {
+		await db
+			.insert(tradeAttachments)
+			.values(attachments.map((attachment, index) => toTradeAttachmentRow(tradeId, attachment, index)))
+	}
+
+	const keptKeys = new Set(getAttachmentKeys(attachments))
+	const removedKeys = existingKeys.filter((key) => !keptKeys.has(key))
+
+	for (const key of removedKeys) {
+		// The file may already be gone; the rows are what matter
+		await deleteFile(key).catch(() => {})
+	}
+}
@@ -0,0 +1,182 @@
+/**
+ * MFE/MAE from price bars.
+ *
+ * Pure functions: the server action loads the bars and the decrypted trade,
+ * these decide which bars the trade spans and what it could have made or lost.
+ */
+
+import type { PriceBar, TradeExcursion } from "@/types/price-bar"
+
+interface TimeframeDuration {
+	type: "time_based" | "renko"
+	value: number
+	unit: "minutes" | "hours" | "days" | "weeks" | "ticks" | "points"
+}
+
+interface ExcursionTrade {
+	direction: "long" | "short"
+	entryPrice: number
+	exitPrice: number | null
+	stopLoss: number | null
+}
+
+const UNIT_MS: Partial<Record<TimeframeDuration["unit"], number>> = {
+	minutes: 60_000,
+	hours: 3_600_000,
+	days: 86_400_000,
+	weeks: 604_800_000,
+}
+
+/** Bars drawn on each side of the trade on the chart */
+const CHART_PADDING_BARS = 30
+
+/** Length of one bar, or null for timeframes that aren't time based (renko, ticks) */
+const getTimeframeDurationMs = (timeframe: TimeframeDuration): number | null => {
+	if (timeframe.type !== "time_based") return null
+	const unitMs = UNIT_MS[timeframe.unit]
+	return unitMs ? timeframe.value * unitMs : null
+}
+
+/** Time range to load for a trade's chart: the trade plus some context on both sides */
+const getTradeChartWindow = (
+	entryDate: Date,
+	exitDate: Date | null,
+	durationMs: number
+): { from: Date; to: Date } => ({
+	from: new Date(entryDate.getTime() - CHART_PADDING_BARS * durationMs),
+	to: new Date((exitDate ?? entryDate).getTime() + CHART_PADDING_BARS * durationMs),
+})
+
+/**
+ * Bars the trade was open in: from the bar containing the entry through the
+ * bar containing the exit. Returns an empty list when the bars don't reach
+ * either end (a gap in the import), since the extremes would then be guesses.
+ *
+ * @param bars - Bars of one timeframe, oldest first
+ */
+const selectTradeBars = (
+	bars: PriceBar[],
+	entryDate: Date,
+	exitDate: Date,
+	durationMs: number
+): PriceBar[] => {
+	const contains = (bar: PriceBar, instant: Date) =>
+		bar.time.getTime() <= instant.getTime() && instant.getTime() < bar.time.getTime() + durationMs
+
+	const span = bars.filter(
+		(bar) =>
+			bar.time.getTime() <= exitDate.getTime() &&
+			bar.time.getTime() + durationMs > entryDate.getTime()
+	)
+	if (span.length === 0) return []
+	if (!contains(span[0], entryDate) || !contains(span[span.length - 1], exitDate)) return []
+	return span
+}
+
+interface TickConfig {
+	tickSize: number
+	/** Money per tick per contract */
+	tickValue: number
+}
+
+/** Excursion in R, rounded like the stored decimal(8, 2) */
+const toR = (distance: number, riskDistance: number): number =>
+	Math.round((distance / riskDistance) * 100) / 100
+
+/** Sizes the best/worst prices against the stop distance */
+const toExcursion = (trade: ExcursionTrade, mfe: number, mae: number): TradeExcursion => {
+	const favorable = Math.abs(mfe - trade.entryPrice)
+	const adverse = Math.abs(mae - trade.entryPrice)
+
+	const riskDistance = trade.stopLoss === null ? 0 : Math.abs(trade.entryPrice - trade.stopLoss)
+	const hasRisk = riskDistance > 0
+
+	return {
+		mfe,
+		mae,
+		mfeR: hasRisk ? toR(favorable, riskDistance) : null,
+		maeR: hasRisk ? (adverse === 0 ? 0 : -toR(adverse, riskDistance)) : null,
+	}
+}
+
+/**
+ * Best and worst prices a trade saw, and their size in R.
+ *
+ * The entry and exit bars include ticks from before the entry and after the
+ * exit, so the result is as precise as the timeframe allows. The fills
+ * themselves always count: a long can't have an MFE below its exit price.
+ *
+ * @param trade - Decrypted trade prices
+ * @param bars - Bars the trade was open in (see selectTradeBars)
+ * @returns null when there are no bars
+ */
+const computeTradeExcursion = (trade: ExcursionTrade, bars: PriceBar[]): TradeExcursion | null => {
+	if (bars.length === 0) return null
+
+	const fills = trade.exitPrice === null ? [trade.entryPrice] : [trade.entryPrice, trade.exitPrice]
+	const highest = Math.max(...bars.map((bar) => bar.high), ...fills)
+	const lowest = Math.min(...bars.map((bar) => bar.low), ...fills)
+
+	const isLong = trade.direction === "long"
+	return isLong ? toExcursion(trade, highest, lowest) : toExcursion(trade, lowest, highest)
+}
+
+/**
+ * Whether stored MFE/MAE values read as prices: on the favorable and adverse
+ * side of the entry and within half of it. ProfitChart's "Ganho Max." and
+ * "Perda Max." columns are money for the whole position instead, which is
+ * what the CSV importer stores; those fail this check.
+ */
+const isPriceExcursion = (trade: ExcursionTrade, mfe: number, mae: number): boolean => {
+	const isLong = trade.direction === "long"
+	const sided = isLong
+		? mfe >= trade.entryPrice && mae <= trade.entryPrice
+		: mfe <= trade.entryPrice && mae >= trade.entryPrice
+	const near = (price: number) => Math.abs(price - trade.entryPrice) <= trade.entryPrice * 0.5
+	return sided && near(mfe) && near(mae)
+}
+
+/**
+ * Turns best/worst open P&L in money (e.g. ProfitChart's Ganho/Perda Max.)
+ * into the prices they were reached at.
+ *
+ * @param amounts - Unsigned money amounts for the whole position
+ * @returns null when the position size or tick config can't convert them
+ */
+const excursionFromAmounts = (
+	trade: ExcursionTrade & { positionSize: number },
+	amounts: { mfe: number; mae: number },
+	ticks: TickConfig
+): TradeExcursion | null => {
+	const moneyPerPoint = (trade.positionSize * ticks.tickValue) / ticks.tickSize
+	if (!Number.isFinite(moneyPerPoint) || moneyPerPoint <= 0) return null
+
+	const favorable = Math.abs(amounts.mfe) / moneyPerPoint
+	const adverse = Math.abs(amounts.mae) / moneyPerPoint
+	const sign = trade.direction === "long" ? 1 : -1
+	return toExcursion(trade, trade.entryPrice + sign * favorable, trade.entryPrice - sign * adverse)
+}
+
+/**
+ * Excursion from values already on a trade (typed in, or imported from a
+ * ProfitChart CSV or screenshot), whether they were stored as prices or as
+ * money. Money needs the asset's tick config to convert.
+ */
+const excursionFromStored = (
+	trade: ExcursionTrade & { positionSize: number },
+	stored: { mfe: number; mae: number },
+	ticks: TickConfig | null
+): TradeExcursion | null => {
+	if (isPriceExcursion(trade, stored.mfe, stored.mae)) return toExcursion(trade, stored.mfe, stored.mae)
+	return ticks ? excursionFromAmounts(trade, stored, ticks) : null
+}
+
+export {
+	getTimeframeDurationMs,
+	getTradeChartWindow,
+	selectTradeBars,
+	computeTradeExcursion,
+	isPriceExcursion,
+	excursionFromAmounts,
+	excursionFromStored,
+}
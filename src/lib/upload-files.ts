@@ -3,6 +3,10 @@ import type {
 	PendingImage,
 	UploadPath,
 } from "@/lib/validations/upload"
+import type {
+	TradeAttachmentDraft,
+	TradeAttachmentInput,
+} from "@/lib/validations/trade-attachment"
 
 interface UploadFilesParams {
 	pendingImages: PendingImage[]
@@ -52,4 +56,69 @@ const uploadFiles = async ({
 	return { uploaded, errors }
 }
 
-export { uploadFiles, type UploadFilesParams, type UploadFilesResult }
+interface UploadAttachmentsResult {
+	attachments: TradeAttachmentInput[]
+	errors: string[]
+}
+
+/**
+ * Upload the local files of a trade's attachment list and return the full
+ * list, in order, as the trade actions expect it. Already-uploaded entries
+ * pass through with their current caption.
+ */
+const uploadAttachments = async (
+	drafts: TradeAttachmentDraft[],
+	tradeId: string
+): Promise<UploadAttachmentsResult> => {
+	const attachments: TradeAttachmentInput[] = []
+	const errors: string[] = []
+
+	for (const draft of drafts) {
+		const caption = draft.caption.trim() || null
+
+		if (draft.uploaded) {
+			attachments.push({ ...draft.uploaded, caption })
+			continue
+		}
+		if (!draft.file) continue
+
+		const formData = new FormData()
+		formData.append("file", draft.file)
+		formData.append("path", "trades")
+		formData.append("entityId", tradeId)
+
+		const response = await fetch("/api/uploads", {
+			method: "POST",
+			body: formData,
+		})
+
+		const result = await response.json()
+
+		if (result.status === "success" && result.data) {
+			attachments.push({
+				kind: draft.kind,
+				url: result.data.url,
+				s3Key: result.data.s3Key,
+				thumbnailUrl: result.data.thumbnailUrl,
+				thumbnailS3Key: result.data.thumbnailS3Key,
+				fileName: draft.fileName,
+				contentType: draft.file.type,
+				sizeBytes: draft.file.size,
+				caption,
+			})
+			if (draft.previewUrl) URL.revokeObjectURL(draft.previewUrl)
+		} else {
+			errors.push(result.message ?? `upload.errors.uploadFailed|${draft.fileName}`)
+		}
+	}
+
+	return { attachments, errors }
+}
+
+export {
+	uploadFiles,
+	uploadAttachments,
+	type UploadFilesParams,
+	type UploadFilesResult,
+	type UploadAttachmentsResult,
+}
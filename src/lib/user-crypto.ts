@@ -6,12 +6,18 @@
  */
 
 import { cache } from "react"
-// Imports preserved for re-activation of field-level encryption:
-// import { eq } from "drizzle-orm"
-// import { db } from "@/db/drizzle"
-// import { users } from "@/db/schema"
-// import { decryptDek } from "@/lib/crypto"
-import { encryptField, decryptField, decryptNumericField } from "@/lib/crypto"
+import { eq } from "drizzle-orm"
+import { db } from "@/db/drizzle"
+import { users } from "@/db/schema"
+import {
+	decryptDek,
+	encrypt,
+	encryptField,
+	decryptField,
+	decryptNumericField,
+	isEncryptionConfigured,
+	setRetiringDek,
+} from "@/lib/crypto"
 
 // ==========================================
 // DEK RETRIEVAL (cached per-request)
@@ -19,27 +25,45 @@ import { encryptField, decryptField, decryptNumericField } from "@/lib/crypto"
 
 /**
  * Get the decrypted DEK for a user. Cached per-request via React.cache().
- * Returns null if the user has no DEK (pre-migration user) or decryption fails.
+ * Returns null if the user has no DEK (pre-migration user), no master key is
+ * configured, or decryption fails — callers then read and write plaintext.
+ *
+ * While the user's DEK is being rotated (users.pending_encrypted_dek set), the
+ * replacement DEK is returned so new writes already use it, and the old one is
+ * registered as its fallback for rows the rotation job hasn't reached.
  */
-const getUserDek = cache(async (_userId: string): Promise<string | null> => {
-	// Field-level encryption disabled. Infrastructure preserved for re-activation.
-	// To re-enable: uncomment original implementation below and run scripts/migrate-encrypt-existing-data.ts
-	return null
-
-	// --- ORIGINAL IMPLEMENTATION (preserved for re-activation) ---
-	// const user = await db.query.users.findFirst({
-	// 	where: eq(users.id, userId),
-	// 	columns: { encryptedDek: true },
-	// })
-	// if (!user?.encryptedDek) return null
-	// const dek = decryptDek(user.encryptedDek)
-	// if (!dek) {
-	// 	console.error(
-	// 		`[getUserDek] Failed to decrypt DEK for user ${userId}. ` +
-	// 		"This likely means ENCRYPTION_MASTER_KEY is missing or differs from the key used to encrypt the data."
-	// 	)
-	// }
-	// return dek
+const getUserDek = cache(async (userId: string): Promise<string | null> => {
+	const user = await db.query.users.findFirst({
+		where: eq(users.id, userId),
+		columns: { encryptedDek: true, pendingEncryptedDek: true },
+	})
+	if (!user?.encryptedDek) return null
+
+	if (!isEncryptionConfigured()) {
+		console.error(
+			`[getUserDek] User ${userId} has a DEK but ENCRYPTION_MASTER_KEY is not configured; ` +
+			"encrypted fields will not be readable."
+		)
+		return null
+	}
+
+	const dek = decryptDek(user.encryptedDek)
+	if (!dek) {
+		console.error(
+			`[getUserDek] Failed to decrypt DEK for user ${userId}. ` +
+			"This likely means ENCRYPTION_MASTER_KEY is missing or differs from the key used to encrypt the data."
+		)
+		return null
+	}
+
+	const pendingDek = user.pendingEncryptedDek ? decryptDek(user.pendingEncryptedDek) : null
+	if (!pendingDek) {
+		setRetiringDek(dek, null)
+		return dek
+	}
+
+	setRetiringDek(pendingDek, dek)
+	return pendingDek
 })
 
 // ==========================================
@@ -275,6 +299,104 @@ const decryptDailyNotesFields = <T extends Record<string, unknown>>(notes: T, de
 	}
 }
 
+// ==========================================
+// OPEN POSITION FIELD ENCRYPTION/DECRYPTION
+// ==========================================
+
+interface OpenPositionEncryptableFields {
+	remainingQuantity: string
+	averagePrice: string
+}
+
+/** Both columns are required, so they always come back encrypted */
+const encryptOpenPositionFields = (
+	fields: OpenPositionEncryptableFields,
+	dek: string
+): OpenPositionEncryptableFields => ({
+	remainingQuantity: encrypt(fields.remainingQuantity, dek),
+	averagePrice: encrypt(fields.averagePrice, dek),
+})
+
+const decryptOpenPositionFields = <T extends Record<string, unknown>>(position: T, dek: string): T => {
+	return {
+		...position,
+		remainingQuantity: decryptField(position.remainingQuantity as string | null, dek),
+		averagePrice: decryptField(position.averagePrice as string | null, dek),
+	}
+}
+
+// ==========================================
+// PROP RULE SET / EVALUATION FIELD ENCRYPTION/DECRYPTION
+// ==========================================
+
+const encryptPropRuleSetFields = (fields: Record<string, unknown>, dek: string): Record<string, string | null> => {
+	const result: Record<string, string | null> = {}
+	if (fields.startingBalanceCents !== undefined) {
+		result.startingBalanceCents = encryptField(fields.startingBalanceCents as string | number | null, dek)
+	}
+	return result
+}
+
+const decryptPropRuleSetFields = <T extends Record<string, unknown>>(ruleSet: T, dek: string): T => {
+	return {
+		...ruleSet,
+		startingBalanceCents: decryptNumericField(ruleSet.startingBalanceCents as string | null, dek),
+	}
+}
+
+const encryptPropEvaluationFields = (fields: Record<string, unknown>, dek: string): Record<string, string | null> => {
+	const encryptableKeys = ["pnlCents", "balanceCents", "drawdownFloorCents", "profitCents"]
+	const result: Record<string, string | null> = {}
+	for (const key of encryptableKeys) {
+		if (fields[key] !== undefined) {
+			result[key] = encryptField(fields[key] as string | number | null, dek)
+		}
+	}
+	return result
+}
+
+const decryptPropEvaluationFields = <T extends Record<string, unknown>>(evaluation: T, dek: string): T => {
+	return {
+		...evaluation,
+		pnlCents: decryptNumericField(evaluation.pnlCents as string | null, dek),
+		balanceCents: decryptNumericField(evaluation.balanceCents as string | null, dek),
+		drawdownFloorCents: decryptNumericField(evaluation.drawdownFloorCents as string | null, dek),
+		profitCents: decryptNumericField(evaluation.profitCents as string | null, dek),
+	}
+}
+
+// ==========================================
+// TAX LEDGER FIELD ENCRYPTION/DECRYPTION
+// ==========================================
+
+/** Every amount of a ledger month, plus the rates copied from the account */
+const TAX_LEDGER_ENCRYPTED_KEYS = [
+	"dayTradeResultCents", "swingResultCents", "swingStockSalesCents",
+	"dayTradeLossCarryInCents", "swingLossCarryInCents", "dayTradeLossCarryOutCents", "swingLossCarryOutCents",
+	"dayTradeTaxableCents", "swingTaxableCents", "dayTradeTaxCents", "swingTaxCents",
+	"dayTradeTaxRate", "swingTradeTaxRate",
+	"irrfCents", "irrfCreditUsedCents", "irrfCreditCarryOutCents",
+	"darfCarryInCents", "darfDueCents", "darfCarryOutCents",
+]
+
+const encryptTaxLedgerFields = (fields: Record<string, unknown>, dek: string): Record<string, string | null> => {
+	const result: Record<string, string | null> = {}
+	for (const key of TAX_LEDGER_ENCRYPTED_KEYS) {
+		if (fields[key] !== undefined) {
+			result[key] = encryptField(fields[key] as string | number | null, dek)
+		}
+	}
+	return result
+}
+
+const decryptTaxLedgerFields = <T extends Record<string, unknown>>(entry: T, dek: string): T => {
+	const decrypted: Record<string, unknown> = { ...entry }
+	for (const key of TAX_LEDGER_ENCRYPTED_KEYS) {
+		decrypted[key] = decryptNumericField(entry[key] as string | null, dek)
+	}
+	return decrypted as T
+}
+
 export {
 	getUserDek,
 	encryptTradeFields,
@@ -289,4 +411,12 @@ export {
 	decryptJournalFields,
 	encryptDailyNotesFields,
 	decryptDailyNotesFields,
+	encryptOpenPositionFields,
+	decryptOpenPositionFields,
+	encryptPropRuleSetFields,
+	decryptPropRuleSetFields,
+	encryptPropEvaluationFields,
+	decryptPropEvaluationFields,
+	encryptTaxLedgerFields,
+	decryptTaxLedgerFields,
 }
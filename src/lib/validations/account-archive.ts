@@ -0,0 +1,260 @@
+import { z } from "zod"
+
+// ==========================================
+// ACCOUNT ARCHIVE SCHEMA (account.json)
+// ==========================================
+
+export const ACCOUNT_ARCHIVE_FORMAT = "axion-account-archive"
+export const ACCOUNT_ARCHIVE_VERSION = 1
+
+/** Ids only link records inside the archive; imports assign new ones */
+const archiveIdSchema = z.string().min(1).max(100)
+
+/** Plaintext of a stored text column (encrypted columns are exported decrypted) */
+const storedValueSchema = z.string().nullable()
+
+const decimalSchema = z.string().regex(/^-?\d+(\.\d+)?$/).nullable()
+
+const dateSchema = z.coerce.date()
+
+const archiveAccountSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().nullable(),
+	accountType: z.enum(["personal", "prop", "replay"]),
+	propFirmName: storedValueSchema,
+	profitSharePercentage: z.string(),
+	dayTradeTaxRate: z.string(),
+	swingTradeTaxRate: z.string(),
+	defaultCommission: z.string(),
+	defaultFees: z.string(),
+	defaultCurrency: z.string().length(3),
+	defaultBreakevenTicks: z.number().int().min(0),
+	defaultAsset: z.string().max(20).nullable(),
+	showTaxEstimates: z.boolean(),
+	showPropCalculations: z.boolean(),
+	brand: z.string().max(20),
+	replayStartDate: dateSchema.nullable(),
+	replayCurrentDate: dateSchema.nullable(),
+})
+
+const archiveTagSchema = z.object({
+	id: archiveIdSchema,
+	name: z.string().trim().min(1).max(50),
+	type: z.enum(["setup", "mistake", "general"]),
+	color: z.string().max(7).nullable(),
+	description: z.string().nullable(),
+})
+
+const archiveConditionSchema = z.object({
+	id: archiveIdSchema,
+	name: z.string().trim().min(1).max(100),
+	description: z.string().nullable(),
+	category: z.enum(["indicator", "price_action", "market_context", "custom"]),
+	isActive: z.boolean(),
+})
+
+const archiveScenarioSchema = z.object({
+	name: z.string().min(1).max(200),
+	description: z.string().nullable(),
+	sortOrder: z.number().int(),
+	images: z.array(z.object({ url: z.string().max(500), sortOrder: z.number().int() })).max(3),
+})
+
+const archiveTradeAttachmentSchema = z.object({
+	kind: z.enum(["image", "video", "document"]),
+	url: z.string().max(500),
+	thumbnailUrl: z.string().max(500).nullable(),
+	fileName: z.string().min(1).max(255),
+	contentType: z.string().max(100),
+	sizeBytes: z.number().int().nullable(),
+	caption: z.string().max(200).nullable(),
+	sortOrder: z.number().int(),
+})
+
+const archiveStrategySchema = z.object({
+	id: archiveIdSchema,
+	code: z.string().trim().min(1).max(100),
+	name: z.string().trim().min(1).max(100),
+	description: z.string().nullable(),
+	entryCriteria: z.string().nullable(),
+	exitCriteria: z.string().nullable(),
+	riskRules: z.string().nullable(),
+	targetRMultiple: decimalSchema,
+	maxRiskPercent: decimalSchema,
+	screenshotUrl: z.string().max(500).nullable(),
+	notes: z.string().nullable(),
+	isActive: z.boolean(),
+	conditions: z.array(
+		z.object({
+			conditionId: archiveIdSchema,
+			tier: z.enum(["mandatory", "tier_2", "tier_3"]),
+			sortOrder: z.number().int(),
+		})
+	),
+	scenarios: z.array(archiveScenarioSchema),
+})
+
+const archiveExecutionSchema = z.object({
+	executionType: z.enum(["entry", "exit"]),
+	executionDate: dateSchema,
+	price: z.string(),
+	quantity: z.string(),
+	orderType: z.enum(["market", "limit", "stop", "stop_limit"]).nullable(),
+	notes: z.string().nullable(),
+	commission: storedValueSchema,
+	fees: storedValueSchema,
+	slippage: storedValueSchema,
+	executionValue: z.string(),
+})
+
+const archiveTradeSchema = z.object({
+	id: archiveIdSchema,
+	asset: z.string().trim().min(1).max(20),
+	direction: z.enum(["long", "short"]),
+	timeframeCode: z.string().max(20).nullable(),
+	entryDate: dateSchema,
+	exitDate: dateSchema.nullable(),
+	entryPrice: z.string().min(1),
+	exitPrice: storedValueSchema,
+	positionSize: z.string().min(1),
+	stopLoss: storedValueSchema,
+	takeProfit: storedValueSchema,
+	plannedRiskAmount: storedValueSchema,
+	plannedRMultiple: storedValueSchema,
+	pnl: storedValueSchema,
+	pnlPercent: decimalSchema,
+	realizedRMultiple: decimalSchema,
+	outcome: z.enum(["win", "loss", "breakeven"]).nullable(),
+	mfe: decimalSchema,
+	mae: decimalSchema,
+	mfeR: decimalSchema,
+	maeR: decimalSchema,
+	commission: storedValueSchema,
+	fees: storedValueSchema,
+	contractsExecuted: decimalSchema,
+	preTradeThoughts: storedValueSchema,
+	postTradeReflection: storedValueSchema,
+	lessonLearned: storedValueSchema,
+	disciplineNotes: storedValueSchema,
+	strategyId: archiveIdSchema.nullable(),
+	setupRank: z.enum(["A", "AA", "AAA"]).nullable(),
+	// Archives exported before attachments carry the single screenshot here
+	screenshotUrl: z.string().max(500).nullable().optional(),
+	attachments: z.array(archiveTradeAttachmentSchema).default([]),
+	followedPlan: z.boolean().nullable(),
+	executionMode: z.enum(["simple", "scaled"]),
+	totalEntryQuantity: decimalSchema,
+	totalExitQuantity: decimalSchema,
+	avgEntryPrice: decimalSchema,
+	avgExitPrice: decimalSchema,
+	remainingQuantity: decimalSchema,
+	isArchived: z.boolean(),
+	source: z.string().max(20).nullable(),
+	createdAt: dateSchema,
+	tagIds: z.array(archiveIdSchema),
+	executions: z.array(archiveExecutionSchema),
+})
+
+const archiveMonthlyPlanSchema = z.object({
+	year: z.number().int().min(2000).max(2100),
+	month: z.number().int().min(1).max(12),
+	accountBalance: z.string(),
+	riskPerTradePercent: z.string(),
+	dailyLossPercent: z.string(),
+	monthlyLossPercent: z.string(),
+	dailyProfitTargetPercent: decimalSchema,
+	maxDailyTrades: z.number().int().nullable(),
+	maxConsecutiveLosses: z.number().int().nullable(),
+	allowSecondOpAfterLoss: z.boolean().nullable(),
+	reduceRiskAfterLoss: z.boolean().nullable(),
+	riskReductionFactor: decimalSchema,
+	increaseRiskAfterWin: z.boolean().nullable(),
+	capRiskAfterWin: z.boolean().nullable(),
+	profitReinvestmentPercent: decimalSchema,
+	notes: z.string().nullable(),
+	riskProfileId: z.string().nullable(),
+	riskProfileVersionId: z.string().nullable(),
+	weeklyLossPercent: decimalSchema,
+	weeklyLossCents: storedValueSchema,
+	riskPerTradeCents: z.string(),
+	dailyLossCents: z.string(),
+	monthlyLossCents: z.string(),
+	dailyProfitTargetCents: z.number().int().nullable(),
+	derivedMaxDailyTrades: z.number().int().nullable(),
+})
+
+const archiveChecklistSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	items: z.string(),
+	isActive: z.boolean(),
+	completions: z.array(
+		z.object({
+			date: dateSchema,
+			completedItems: z.string(),
+			completedAt: dateSchema.nullable(),
+		})
+	),
+})
+
+const archiveDailyNoteSchema = z.object({
+	date: dateSchema,
+	preMarketNotes: storedValueSchema,
+	postMarketNotes: storedValueSchema,
+	mood: z.string().max(20).nullable(),
+})
+
+const archiveAccountAssetSchema = z.object({
+	symbol: z.string().min(1).max(20),
+	isEnabled: z.boolean(),
+	commissionOverride: z.number().int().nullable(),
+	feesOverride: z.number().int().nullable(),
+	breakevenTicksOverride: z.number().int().nullable(),
+	notes: z.string().nullable(),
+})
+
+const archiveAssetSettingSchema = z.object({
+	symbol: z.string().min(1).max(20),
+	bias: z.string().max(10).nullable(),
+	maxDailyTrades: z.number().int().nullable(),
+	maxPositionSize: z.number().int().nullable(),
+	notes: z.string().nullable(),
+	isActive: z.boolean(),
+})
+
+const archiveDailyAssetSettingSchema = archiveAssetSettingSchema.extend({
+	date: dateSchema,
+})
+
+/**
+ * Schema for the importable part of an account archive. Version 1 is the
+ * only one so far; a future version adds its own schema and a migration.
+ */
+export const accountArchiveSchema = z.object({
+	format: z.literal(ACCOUNT_ARCHIVE_FORMAT),
+	version: z.literal(ACCOUNT_ARCHIVE_VERSION),
+	exportedAt: dateSchema,
+	account: archiveAccountSchema,
+	timeframes: z.array(z.object({ code: z.string().min(1).max(20), isEnabled: z.boolean() })),
+	tags: z.array(archiveTagSchema),
+	conditions: z.array(archiveConditionSchema),
+	strategies: z.array(archiveStrategySchema),
+	trades: z.array(archiveTradeSchema),
+	monthlyPlans: z.array(archiveMonthlyPlanSchema),
+	checklists: z.array(archiveChecklistSchema),
+	dailyNotes: z.array(archiveDailyNoteSchema),
+	accountAssets: z.array(archiveAccountAssetSchema),
+	assetSettings: z.array(archiveAssetSettingSchema),
+	dailyAssetSettings: z.array(archiveDailyAssetSettingSchema),
+})
+
+/** Form fields sent with an archive upload */
+export const importAccountArchiveSchema = z.object({
+	target: z.enum(["new", "current"]),
+	accountName: z.string().trim().max(100).optional(),
+})
+
+export type AccountArchive = z.infer<typeof accountArchiveSchema>
+export type ArchiveTrade = z.infer<typeof archiveTradeSchema>
+export type ArchiveTradeAttachment = z.infer<typeof archiveTradeAttachmentSchema>
+export type ArchiveStrategy = z.infer<typeof archiveStrategySchema>
+export type ImportAccountArchiveInput = z.infer<typeof importAccountArchiveSchema>
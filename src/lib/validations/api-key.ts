@@ -0,0 +1,28 @@
+import { z } from "zod"
+import { API_KEY_SCOPES } from "@/lib/api-keys"
+import type { ApiKeyScope } from "@/types/api-key"
+
+/**
+ * Validation schema for creating a personal API key.
+ * `expiresInDays` null means the key never expires; `accountId` null means any account.
+ */
+export const createApiKeySchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "validation.apiKey.nameRequired")
+		.max(100, "validation.apiKey.nameMax"),
+	scopes: z
+		.array(z.enum(API_KEY_SCOPES as [ApiKeyScope, ...ApiKeyScope[]]))
+		.min(1, "validation.apiKey.scopesRequired"),
+	accountId: z.string().uuid().optional().nullable(),
+	expiresInDays: z.coerce
+		.number()
+		.int()
+		.positive()
+		.max(365, "validation.apiKey.expiryMax")
+		.optional()
+		.nullable(),
+})
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>
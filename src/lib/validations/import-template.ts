@@ -0,0 +1,49 @@
+import { z } from "zod"
+
+// ==========================================
+// IMPORT TEMPLATE VALIDATION SCHEMAS
+// ==========================================
+
+const columnNameSchema = z.string().min(1, "validation.importTemplate.columnRequired").max(100)
+
+const sideValuesSchema = z.array(z.string().trim().min(1).max(20)).max(20)
+
+/**
+ * Schema for a CSV column mapping (see CsvColumnMapping).
+ */
+const columnMappingSchema = z.object({
+	delimiter: z.enum([",", ";", "\t", "auto"]),
+	columns: z.object({
+		date: columnNameSchema,
+		time: columnNameSchema.nullable(),
+		asset: columnNameSchema,
+		side: columnNameSchema.nullable(),
+		quantity: columnNameSchema,
+		price: columnNameSchema,
+		fees: z.array(columnNameSchema).max(10),
+	}),
+	dateFormat: z.enum(["DD/MM/YYYY", "MM/DD/YYYY", "YYYY-MM-DD", "YYYYMMDD"]),
+	decimalSeparator: z.enum([",", "."]),
+	sideEncoding: z.object({
+		buy: sideValuesSchema,
+		sell: sideValuesSchema,
+	}),
+})
+
+/**
+ * Schema for saving an import template (upserted by name per user).
+ */
+const importTemplateSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "validation.importTemplate.nameRequired")
+		.max(100, "validation.importTemplate.nameMax"),
+	mapping: columnMappingSchema,
+})
+
+type ImportTemplateSchemaInput = z.infer<typeof importTemplateSchema>
+
+export { columnMappingSchema, importTemplateSchema }
+
+export type { ImportTemplateSchemaInput }
@@ -0,0 +1,46 @@
+import { z } from "zod"
+
+/** Exchanges with a managed holiday calendar */
+export const marketCodeSchema = z.enum(["B3", "NYSE"])
+
+const sessionTime = z
+	.string()
+	.regex(/^([01]\d|2[0-3]):[0-5]\d$/, "validation.marketCalendar.timeInvalid")
+	.optional()
+	.nullable()
+
+/**
+ * Validation schema for an exchange holiday or half day. Half days need the
+ * shortened hours; closed days carry none.
+ */
+export const marketHolidaySchema = z
+	.object({
+		market: marketCodeSchema,
+		date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "validation.marketCalendar.dateInvalid"),
+		name: z
+			.string()
+			.trim()
+			.min(1, "validation.marketCalendar.nameRequired")
+			.max(100, "validation.marketCalendar.nameMax"),
+		nameEn: z
+			.string()
+			.trim()
+			.min(1, "validation.marketCalendar.nameRequired")
+			.max(100, "validation.marketCalendar.nameMax"),
+		sessionType: z.enum(["closed", "half_day"]),
+		opensAt: sessionTime,
+		closesAt: sessionTime,
+	})
+	.refine((value) => value.sessionType === "closed" || Boolean(value.opensAt || value.closesAt), {
+		message: "validation.marketCalendar.halfDayHoursRequired",
+		path: ["closesAt"],
+	})
+
+/** Which market and year to fill from the holiday rules */
+export const generateMarketHolidaysSchema = z.object({
+	market: marketCodeSchema,
+	year: z.coerce.number().int().min(2000).max(2100),
+})
+
+export type MarketHolidayInput = z.infer<typeof marketHolidaySchema>
+export type GenerateMarketHolidaysInput = z.infer<typeof generateMarketHolidaysSchema>
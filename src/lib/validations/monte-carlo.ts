@@ -1,9 +1,13 @@
 import { z } from "zod"
 import { drawdownTierSchema, consecutiveLossRuleSchema } from "@/lib/validations/risk-profile"
+import { MAX_SEED } from "@/lib/prng"
 
 /** Maximum allowed total iterations (trades x simulations) */
 export const SIMULATION_BUDGET_CAP = 3_000_000
 
+/** Optional PRNG seed: the same seed and inputs reproduce a run exactly */
+const seedSchema = z.number().int().min(0).max(MAX_SEED).optional()
+
 export const simulationParamsSchema = z
 	.object({
 		winRate: z
@@ -28,6 +32,7 @@ export const simulationParamsSchema = z
 			.int()
 			.min(100, "validation.monteCarlo.simulationsMin")
 			.max(50000, "validation.monteCarlo.simulationsMax"),
+		seed: seedSchema,
 	})
 	.superRefine((data, ctx) => {
 		// Budget cap: trades x simulations must not exceed 3,000,000 total iterations
@@ -60,6 +65,31 @@ export const dataSourceSchema = z.discriminatedUnion("type", [
 
 export type DataSourceInput = z.infer<typeof dataSourceSchema>
 
+// ==========================================
+// EMPIRICAL (BOOTSTRAP) MODE
+// ==========================================
+
+export const BOOTSTRAP_METHODS = ["plain", "block"] as const
+
+/** Fewest realized R-multiples a source needs before it can be resampled */
+export const MIN_BOOTSTRAP_SAMPLES = 10
+
+export const bootstrapConfigSchema = z.object({
+	method: z.enum(BOOTSTRAP_METHODS),
+	blockLength: z
+		.number()
+		.int()
+		.min(2, "validation.monteCarlo.blockLengthMin")
+		.max(50, "validation.monteCarlo.blockLengthMax"),
+})
+
+export type BootstrapConfigInput = z.infer<typeof bootstrapConfigSchema>
+
+export const defaultBootstrapConfig: BootstrapConfigInput = {
+	method: "block",
+	blockLength: 5,
+}
+
 export const defaultSimulationParams: SimulationParamsInput = {
 	winRate: 55,
 	rewardRiskRatio: 1.5,
@@ -75,6 +105,21 @@ export const defaultSimulationParams: SimulationParamsInput = {
 /** Maximum allowed total iterations for V2: 50 trades/day x days x simulations */
 export const V2_SIMULATION_BUDGET_CAP = 10_000_000
 
+/** Worst-case iterations of a V2 simulation, compared against the budget caps */
+export const estimateV2Iterations = (params: {
+	simulationCount: number
+	monthsToTrade: number
+	profile: { tradingDaysPerMonth: number }
+}): number => {
+	const maxTradesPerDay = 50
+	return (
+		maxTradesPerDay *
+		params.profile.tradingDaysPerMonth *
+		params.monthsToTrade *
+		params.simulationCount
+	)
+}
+
 const riskManagementProfileForSimSchema = z.object({
 	name: z.string(),
 	baseRiskCents: z.number().int().positive(),
@@ -130,15 +175,12 @@ export const simulationParamsV2Schema = z
 		initialBalance: z.number().int().positive(),
 		monthsToTrade: z.number().int().min(1).max(48),
 		ruinThresholdPercent: z.number().min(1).max(99).default(50),
+		profitTargetPercent: z.number().min(1).max(1000).default(10),
+		drawdownFloorPercent: z.number().min(1).max(99).default(10),
+		seed: seedSchema,
 	})
 	.superRefine((data, ctx) => {
-		// Budget cap: ~50 trades/day x days/month x months x simulations
-		const maxTradesPerDay = 50
-		const totalIterations =
-			maxTradesPerDay *
-			data.profile.tradingDaysPerMonth *
-			data.monthsToTrade *
-			data.simulationCount
+		const totalIterations = estimateV2Iterations(data)
 		if (totalIterations > V2_SIMULATION_BUDGET_CAP) {
 			ctx.addIssue({
 				code: z.ZodIssueCode.custom,
@@ -149,3 +191,40 @@ export const simulationParamsV2Schema = z
 	})
 
 export type SimulationParamsV2Input = z.infer<typeof simulationParamsV2Schema>
+
+// ==========================================
+// PROP CHALLENGE SIMULATION
+// ==========================================
+
+export const MAX_PROP_CHALLENGE_PROFILES = 5
+
+export const propChallengeRulesSchema = z
+	.object({
+		startingBalanceCents: z.number().int().positive(),
+		profitTargetCents: z.number().int().positive(),
+		drawdownType: z.enum(["trailing", "eod_trailing", "static"]),
+		maxDrawdownCents: z.number().int().positive(),
+		lockDrawdownAtStart: z.boolean().default(true),
+		dailyLossLimitCents: z.number().int().positive().nullable().default(null),
+		minTradingDays: z.number().int().min(1).max(365).nullable().default(null),
+		maxCalendarDays: z.number().int().min(1).max(365),
+		consistencyPercent: z.number().positive().max(100).nullable().default(null),
+	})
+	.refine((data) => data.maxDrawdownCents < data.startingBalanceCents, {
+		message: "Max drawdown must be below the starting balance",
+		path: ["maxDrawdownCents"],
+	})
+
+/**
+ * The budget is checked by the action against the role's cap, since the
+ * iterations depend on the selected profiles' trading days.
+ */
+export const propChallengeSimulationSchema = z.object({
+	source: dataSourceSchema,
+	profileIds: z.array(z.string().uuid()).min(1).max(MAX_PROP_CHALLENGE_PROFILES),
+	rules: propChallengeRulesSchema,
+	simulationCount: z.number().int().min(100).max(10000),
+	seed: seedSchema,
+})
+
+export type PropChallengeSimulationInput = z.infer<typeof propChallengeSimulationSchema>
@@ -0,0 +1,51 @@
+import { z } from "zod"
+
+/** Most bars accepted per import call; the client sends larger files in chunks */
+export const MAX_BARS_PER_IMPORT = 2000
+
+const priceBarSchema = z
+	.object({
+		time: z.coerce.date(),
+		open: z.number().positive(),
+		high: z.number().positive(),
+		low: z.number().positive(),
+		close: z.number().positive(),
+		volume: z.number().nonnegative().nullable(),
+	})
+	.refine(
+		(bar) => bar.high >= Math.max(bar.open, bar.close, bar.low) && bar.low <= Math.min(bar.open, bar.close),
+		"validation.priceBars.barInvalid"
+	)
+
+/**
+ * Validation schema for a chunk of OHLC bars. The asset is the trade symbol
+ * the bars belong to (e.g. WING26), the timeframe must be time based.
+ */
+export const importPriceBarsSchema = z.object({
+	asset: z
+		.string()
+		.trim()
+		.min(1, "validation.priceBars.assetRequired")
+		.max(20, "validation.priceBars.assetMax")
+		.transform((value) => value.toUpperCase()),
+	timeframeId: z.string().uuid("validation.priceBars.timeframeRequired"),
+	source: z.enum(["profitchart", "metatrader"]),
+	bars: z
+		.array(priceBarSchema)
+		.min(1, "validation.priceBars.barsRequired")
+		.max(MAX_BARS_PER_IMPORT, "validation.priceBars.barsMax"),
+})
+
+export type ImportPriceBarsInput = z.infer<typeof importPriceBarsSchema>
+
+/**
+ * Options for one MFE/MAE backfill page. By default only trades without MFE/MAE
+ * in R are touched; `overwrite` recomputes every closed trade. `cursor` is the
+ * `nextCursor` returned by the previous page.
+ */
+export const backfillExcursionsSchema = z.object({
+	overwrite: z.boolean().default(false),
+	cursor: z.string().uuid().optional(),
+})
+
+export type BackfillExcursionsInput = z.input<typeof backfillExcursionsSchema>
@@ -0,0 +1,55 @@
+import { z } from "zod"
+
+const MAX_CENTS = 100_000_000_00 // 100M
+
+const centsSchema = (key: string) =>
+	z.coerce
+		.number()
+		.int(`validation.propRules.${key}Cents`)
+		.positive(`validation.propRules.${key}Positive`)
+		.max(MAX_CENTS, `validation.propRules.${key}Max`)
+
+/**
+ * Validation schema for a prop account's evaluation rules.
+ * All money amounts are in cents (integers). Percentages are decimal numbers (e.g. 40.00 = 40%).
+ */
+export const propRuleSetSchema = z.object({
+	startingBalanceCents: centsSchema("startingBalance"),
+	drawdownType: z.enum(["trailing", "eod_trailing", "static"]),
+	maxDrawdownCents: centsSchema("maxDrawdown"),
+	lockDrawdownAtStart: z.boolean().default(true),
+	dailyLossLimitCents: centsSchema("dailyLossLimit").optional().nullable(),
+	profitTargetCents: centsSchema("profitTarget").optional().nullable(),
+	minTradingDays: z.coerce
+		.number()
+		.int("validation.propRules.minTradingDaysInteger")
+		.positive("validation.propRules.minTradingDaysPositive")
+		.max(365, "validation.propRules.minTradingDaysMax")
+		.optional()
+		.nullable(),
+	consistencyPercent: z.coerce
+		.number()
+		.positive("validation.propRules.consistencyPositive")
+		.max(100, "validation.propRules.consistencyMax")
+		.optional()
+		.nullable(),
+	scalingPlan: z
+		.array(
+			z.object({
+				profitThresholdCents: z.coerce.number().int().min(0).max(MAX_CENTS),
+				maxContracts: z.coerce.number().int().positive().max(10_000),
+			})
+		)
+		.max(20, "validation.propRules.scalingPlanMax")
+		.default([]),
+	evaluationStartDate: z.coerce.date(),
+	evaluationEndDate: z.coerce.date().optional().nullable(),
+}).refine(
+	(data) => !data.evaluationEndDate || data.evaluationEndDate >= data.evaluationStartDate,
+	{ message: "validation.propRules.endBeforeStart", path: ["evaluationEndDate"] }
+).refine(
+	(data) => data.maxDrawdownCents < data.startingBalanceCents,
+	{ message: "validation.propRules.maxDrawdownAboveBalance", path: ["maxDrawdownCents"] }
+)
+
+export type PropRuleSetInput = z.infer<typeof propRuleSetSchema>
@@ -0,0 +1,8 @@
+import { z } from "zod"
+
+/** A replay session date picked in the Command Center, as a BRT date key */
+export const replayDateSchema = z.object({
+	date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "validation.replay.dateInvalid"),
+})
+
+export type ReplayDateInput = z.infer<typeof replayDateSchema>
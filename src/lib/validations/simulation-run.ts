@@ -0,0 +1,23 @@
+import { z } from "zod"
+
+export const SIMULATION_RUN_KINDS = [
+	"monte_carlo",
+	"monte_carlo_v2",
+	"risk_simulation",
+] as const
+
+export const renameSimulationRunSchema = z.object({
+	runId: z.string().uuid(),
+	name: z
+		.string()
+		.trim()
+		.min(1, "validation.simulationRun.nameRequired")
+		.max(100, "validation.simulationRun.nameMax"),
+})
+
+/** Two different saved runs to overlay in the compare view */
+export const compareSimulationRunsSchema = z
+	.tuple([z.string().uuid(), z.string().uuid()])
+	.refine(([a, b]) => a !== b, "validation.simulationRun.compareDistinct")
+
+export type RenameSimulationRunInput = z.infer<typeof renameSimulationRunSchema>
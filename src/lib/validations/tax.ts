@@ -0,0 +1,32 @@
+import { z } from "zod"
+
+/**
+ * Validation schema for selecting a tax ledger year.
+ */
+export const taxLedgerYearSchema = z.object({
+	year: z.coerce
+		.number()
+		.int("validation.tax.yearInteger")
+		.min(2000, "validation.tax.yearRange")
+		.max(2100, "validation.tax.yearRange"),
+})
+
+/**
+ * Schema for marking a month's DARF as paid (or reverting it to unpaid).
+ */
+export const darfPaymentSchema = z.object({
+	year: z.coerce
+		.number()
+		.int("validation.tax.yearInteger")
+		.min(2000, "validation.tax.yearRange")
+		.max(2100, "validation.tax.yearRange"),
+	month: z.coerce
+		.number()
+		.int("validation.tax.monthRange")
+		.min(1, "validation.tax.monthRange")
+		.max(12, "validation.tax.monthRange"),
+	paid: z.boolean(),
+})
+
+export type TaxLedgerYearInput = z.infer<typeof taxLedgerYearSchema>
+export type DarfPaymentInput = z.infer<typeof darfPaymentSchema>
@@ -0,0 +1,51 @@
+import { z } from "zod"
+import { TRADE_ATTACHMENT_KINDS, type TradeAttachmentKind } from "@/lib/validations/upload"
+
+const MAX_TRADE_ATTACHMENTS = 10
+const MAX_CAPTION_LENGTH = 200
+
+// Keys are deleted when an attachment is removed, so only trade uploads are
+// accepted (whose, is checked on save); empty means the file is owned
+// elsewhere (archive copies)
+const tradeUploadKeySchema = z
+	.string()
+	.max(500)
+	.refine((key) => key === "" || key.startsWith("trades/"), "validation.upload.invalidKey")
+
+/** An uploaded file as sent with a trade. Array order is display order */
+const tradeAttachmentSchema = z.object({
+	kind: z.enum(TRADE_ATTACHMENT_KINDS),
+	url: z.string().url().max(500),
+	s3Key: tradeUploadKeySchema,
+	thumbnailUrl: z.string().url().max(500).nullable().optional(),
+	thumbnailS3Key: tradeUploadKeySchema.nullable().optional(),
+	fileName: z.string().trim().min(1).max(255),
+	contentType: z.string().max(100),
+	sizeBytes: z.number().int().min(0).nullable().optional(),
+	caption: z.string().trim().max(MAX_CAPTION_LENGTH).nullable().optional(),
+})
+
+const tradeAttachmentsSchema = z.array(tradeAttachmentSchema).max(MAX_TRADE_ATTACHMENTS)
+
+type TradeAttachmentInput = z.infer<typeof tradeAttachmentSchema>
+
+/** Attachment in a trade form: already uploaded, or a local file waiting for submit */
+interface TradeAttachmentDraft {
+	key: string
+	kind: TradeAttachmentKind
+	fileName: string
+	caption: string
+	/** Thumbnail, original image or blob URL; null for videos and documents */
+	previewUrl: string | null
+	uploaded?: TradeAttachmentInput
+	file?: File
+}
+
+export {
+	MAX_TRADE_ATTACHMENTS,
+	MAX_CAPTION_LENGTH,
+	tradeAttachmentSchema,
+	tradeAttachmentsSchema,
+	type TradeAttachmentInput,
+	type TradeAttachmentDraft,
+}
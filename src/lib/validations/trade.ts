@@ -1,5 +1,6 @@
 import { z } from "zod"
 import { BRT_OFFSET } from "@/lib/dates"
+import { tradeAttachmentsSchema, type TradeAttachmentInput } from "@/lib/validations/trade-attachment"
 
 // Direction and outcome enums
 export const tradeDirectionSchema = z.enum(["long", "short"])
@@ -100,9 +101,8 @@ const tradeBaseFields = {
 	// Setup Rank (A/AA/AAA based on conditions met)
 	setupRank: z.enum(["A", "AA", "AAA"]).optional().nullable(),
 
-	// Trade Screenshot
-	screenshotUrl: z.string().url().max(500).optional().or(z.literal("")),
-	screenshotS3Key: z.string().max(500).optional().or(z.literal("")),
+	// Attachments (chart captures, recordings, documents) in display order
+	attachments: tradeAttachmentsSchema.optional(),
 }
 
 // Base object schema (no refinements) — used for .partial() and server actions
@@ -178,8 +178,7 @@ export interface CreateTradeInput {
 	disciplineNotes?: string
 	tagIds?: string[]
 	setupRank?: "A" | "AA" | "AAA" | null
-	screenshotUrl?: string
-	screenshotS3Key?: string
+	attachments?: TradeAttachmentInput[]
 }
 
 // Form input type alias
@@ -17,6 +17,24 @@ const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
 
 type ImageMimeType = (typeof ACCEPTED_IMAGE_TYPES)[number]
 
+// Trade attachments also take short screen recordings and PDFs (e.g. the nota)
+const ACCEPTED_VIDEO_TYPES = ["video/mp4", "video/webm", "video/quicktime"] as const
+const ACCEPTED_DOCUMENT_TYPES = ["application/pdf"] as const
+const ACCEPTED_ATTACHMENT_TYPES = [
+	...ACCEPTED_IMAGE_TYPES,
+	...ACCEPTED_VIDEO_TYPES,
+	...ACCEPTED_DOCUMENT_TYPES,
+] as const
+
+const TRADE_ATTACHMENT_KINDS = ["image", "video", "document"] as const
+type TradeAttachmentKind = (typeof TRADE_ATTACHMENT_KINDS)[number]
+
+const MAX_ATTACHMENT_SIZES: Record<TradeAttachmentKind, number> = {
+	image: MAX_FILE_SIZE,
+	video: 50 * 1024 * 1024, // 50MB
+	document: 10 * 1024 * 1024, // 10MB
+}
+
 const UPLOAD_PATHS = ["playbooks", "scenarios", "trades", "bug-reports"] as const
 type UploadPath = (typeof UPLOAD_PATHS)[number]
 
@@ -25,11 +43,28 @@ const uploadSchema = z.object({
 	entityId: z.string().uuid(),
 })
 
+/** Attachment kind for a MIME type, or null when trade attachments don't accept it */
+const getAttachmentKind = (mimeType: string): TradeAttachmentKind | null => {
+	if ((ACCEPTED_IMAGE_TYPES as readonly string[]).includes(mimeType)) return "image"
+	if ((ACCEPTED_VIDEO_TYPES as readonly string[]).includes(mimeType)) return "video"
+	if ((ACCEPTED_DOCUMENT_TYPES as readonly string[]).includes(mimeType)) return "document"
+	return null
+}
+
 /**
  * Validate file type and size on the server side.
+ * Trades accept any attachment kind; every other path takes images only.
  * Returns error message key or null if valid.
  */
-const validateFile = (file: File): string | null => {
+const validateFile = (file: File, path?: UploadPath): string | null => {
+	if (path === "trades") {
+		const kind = getAttachmentKind(file.type)
+		if (!kind) return "validation.upload.invalidAttachmentType"
+		if (file.size > MAX_ATTACHMENT_SIZES[kind]) {
+			return "validation.upload.fileTooLarge"
+		}
+		return null
+	}
 	if (!ACCEPTED_IMAGE_TYPES.includes(file.type as ImageMimeType)) {
 		return "validation.upload.invalidFileType"
 	}
@@ -39,29 +74,43 @@ const validateFile = (file: File): string | null => {
 	return null
 }
 
+/** Where a user's trade uploads live; a trade may only reference keys under it */
+const getTradeUploadPrefix = (userId: string): string => `trades/${userId}/`
+
 /**
  * Build S3 key from entity path and ID.
- * Convention: {entityType}/{entityId}/{timestamp}-{random}.{ext}
+ * Convention: {entityType}/{entityId}/{timestamp}-{random}.{ext}, with trade
+ * uploads nested under their owner: trades/{userId}/{entityId}/...
  */
 const buildS3Key = (
 	path: UploadPath,
 	entityId: string,
-	fileName: string
+	fileName: string,
+	userId: string
 ): string => {
 	const ext = fileName.split(".").pop()?.toLowerCase() ?? "jpg"
 	const timestamp = Date.now()
 	const random = Math.random().toString(36).substring(2, 10)
-	return `${path}/${entityId}/${timestamp}-${random}.${ext}`
+	const folder = path === "trades" ? `${getTradeUploadPrefix(userId)}${entityId}` : `${path}/${entityId}`
+	return `${folder}/${timestamp}-${random}.${ext}`
 }
 
 export {
 	ACCEPTED_IMAGE_TYPES,
+	ACCEPTED_VIDEO_TYPES,
+	ACCEPTED_DOCUMENT_TYPES,
+	ACCEPTED_ATTACHMENT_TYPES,
 	MAX_FILE_SIZE,
+	MAX_ATTACHMENT_SIZES,
+	TRADE_ATTACHMENT_KINDS,
 	UPLOAD_PATHS,
 	uploadSchema,
+	getAttachmentKind,
 	validateFile,
 	buildS3Key,
+	getTradeUploadPrefix,
 	type PersistedImage,
 	type PendingImage,
+	type TradeAttachmentKind,
 	type UploadPath,
 }
@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { WEBHOOK_EVENTS } from "@/lib/webhooks"
+import type { WebhookEvent } from "@/types/webhook"
+
+/**
+ * Validation schema for a webhook endpoint. Only http(s) URLs are accepted;
+ * the server actions also reject hosts that resolve to internal addresses
+ * (`checkWebhookUrl`). `accountId` null means events from every account are sent.
+ */
+export const webhookSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "validation.webhook.nameRequired")
+		.max(100, "validation.webhook.nameMax"),
+	url: z
+		.string()
+		.trim()
+		.url("validation.webhook.urlInvalid")
+		.max(2000, "validation.webhook.urlInvalid")
+		.refine((value) => /^https?:\/\//i.test(value), "validation.webhook.urlProtocol"),
+	events: z
+		.array(z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]]))
+		.min(1, "validation.webhook.eventsRequired"),
+	accountId: z.string().uuid().optional().nullable(),
+	isActive: z.boolean().default(true),
+})
+
+export type WebhookInput = z.infer<typeof webhookSchema>
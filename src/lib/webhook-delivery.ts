@@ -0,0 +1,98 @@
+import { createHmac, randomBytes } from "crypto"
+import { Agent, fetch } from "undici"
+import type { WebhookEvent } from "@/types/webhook"
+import { checkWebhookUrl, guardedLookup } from "@/lib/webhook-url-guard"
+
+const WEBHOOK_SECRET_PREFIX = "whsec_"
+const WEBHOOK_TIMEOUT_MS = 10_000
+const RESPONSE_BODY_MAX_LENGTH = 1000
+
+/** Connections resolve hosts through guardedLookup, pinning them to checked addresses */
+const webhookAgent = new Agent({ connect: { lookup: guardedLookup } })
+
+interface WebhookRequest {
+	url: string
+	secret: string
+	deliveryId: string
+	event: WebhookEvent
+	body: string
+}
+
+interface WebhookResponse {
+	ok: boolean
+	status: number | null
+	body: string | null
+	error: string | null
+}
+
+const generateWebhookSecret = (): string =>
+	`${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString("base64url")}`
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`. Including the timestamp lets
+ * receivers reject replayed requests by checking it against their clock.
+ */
+const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+	`sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+
+const buildWebhookHeaders = (request: WebhookRequest, timestamp: number): Record<string, string> => ({
+	"Content-Type": "application/json",
+	"User-Agent": "Axion-Webhooks/1.0",
+	"X-Axion-Event": request.event,
+	"X-Axion-Delivery": request.deliveryId,
+	"X-Axion-Timestamp": String(timestamp),
+	"X-Axion-Signature": signWebhookPayload(request.secret, timestamp, request.body),
+})
+
+/**
+ * POST a signed payload. Never throws: network errors and timeouts are
+ * reported in the result so the caller can schedule a retry. The host is
+ * re-checked first, and the connection itself only opens to checked addresses,
+ * so a URL that resolves inside our network is never requested and no response
+ * body is kept for it.
+ */
+const sendWebhookRequest = async (request: WebhookRequest): Promise<WebhookResponse> => {
+	const urlCheck = await checkWebhookUrl(request.url)
+	if (!urlCheck.allowed) {
+		return { ok: false, status: null, body: null, error: urlCheck.reason }
+	}
+
+	const timestamp = Math.floor(Date.now() / 1000)
+
+	try {
+		const response = await fetch(request.url, {
+			method: "POST",
+			headers: buildWebhookHeaders(request, timestamp),
+			body: request.body,
+			redirect: "manual",
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+			dispatcher: webhookAgent,
+		})
+		const text = await response.text().catch(() => "")
+
+		return {
+			ok: response.ok,
+			status: response.status,
+			body: text.slice(0, RESPONSE_BODY_MAX_LENGTH),
+			error: response.ok ? null : `HTTP ${response.status}`,
+		}
+	} catch (error) {
+		// fetch wraps connection errors (including a blocked lookup) in `cause`
+		const reason = error instanceof Error && error.cause instanceof Error ? error.cause : error
+		return {
+			ok: false,
+			status: null,
+			body: null,
+			error: reason instanceof Error ? reason.message : "Request failed",
+		}
+	}
+}
+
+export {
+	generateWebhookSecret,
+	signWebhookPayload,
+	buildWebhookHeaders,
+	sendWebhookRequest,
+	type WebhookRequest,
+	type WebhookResponse,
+}
@@ -0,0 +1,305 @@
+import { randomUUID } from "crypto"
+import { after } from "next/server"
+import { db } from "@/db/drizzle"
+import { webhooks, webhookDeliveries } from "@/db/schema"
+import type { Trade } from "@/db/schema"
+import { and, asc, eq, isNull, lte, or } from "drizzle-orm"
+import { decryptTradeFields } from "@/lib/user-crypto"
+import { formatDateKey } from "@/lib/dates"
+import {
+	buildWebhookDedupeKey,
+	getNextWebhookAttemptAt,
+	parseWebhookEvents,
+	webhookAcceptsEvent,
+} from "@/lib/webhooks"
+import { sendWebhookRequest } from "@/lib/webhook-delivery"
+import type { TradeWebhookData, WebhookEvent, WebhookPayload } from "@/types/webhook"
+
+/** Due retries picked up per run, so a backlog can't stall a single request */
+const RETRY_BATCH_SIZE = 25
+
+interface EmitWebhookEventInput {
+	userId: string
+	accountId: string | null
+	event: WebhookEvent
+	data: object
+	/** Skip webhooks that already have a delivery with this key */
+	dedupeKey?: string
+	/** Only deliver to this webhook (used by "send test event") */
+	webhookId?: string
+	/** Deliver before returning instead of after the response */
+	immediate?: boolean
+}
+
+/**
+ * Run work after the response is sent. Falls back to fire-and-forget when
+ * called outside a request scope (scripts, tests).
+ */
+const runAfterResponse = (task: () => Promise<void>): void => {
+	try {
+		after(task)
+	} catch {
+		void task()
+	}
+}
+
+/**
+ * Make one delivery attempt and record the outcome. Failed attempts are
+ * rescheduled per the backoff schedule until it runs out.
+ */
+const attemptWebhookDelivery = async (deliveryId: string): Promise<void> => {
+	const [row] = await db
+		.select({ delivery: webhookDeliveries, webhook: webhooks })
+		.from(webhookDeliveries)
+		.innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+		.where(eq(webhookDeliveries.id, deliveryId))
+
+	if (!row || row.delivery.status === "succeeded") return
+
+	const attempts = row.delivery.attempts + 1
+
+	if (!row.webhook.isActive) {
+		await db
+			.update(webhookDeliveries)
+			.set({ status: "failed", attempts, error: "Webhook is disabled", nextAttemptAt: null })
+			.where(eq(webhookDeliveries.id, deliveryId))
+		return
+	}
+
+	const response = await sendWebhookRequest({
+		url: row.webhook.url,
+		secret: row.webhook.secret,
+		deliveryId,
+		event: row.delivery.event as WebhookEvent,
+		body: row.delivery.payload,
+	})
+
+	const nextAttemptAt = response.ok ? null : getNextWebhookAttemptAt(attempts)
+
+	await db
+		.update(webhookDeliveries)
+		.set({
+			status: response.ok ? "succeeded" : nextAttemptAt ? "pending" : "failed",
+			attempts,
+			responseStatus: response.status,
+			responseBody: response.body,
+			error: response.error,
+			nextAttemptAt,
+			deliveredAt: response.ok ? new Date() : null,
+		})
+		.where(eq(webhookDeliveries.id, deliveryId))
+}
+
+const attemptWebhookDeliveries = async (deliveryIds: string[]): Promise<void> => {
+	for (const deliveryId of deliveryIds) {
+		await attemptWebhookDelivery(deliveryId).catch((error) =>
+			console.error("[webhooks] Delivery attempt failed:", deliveryId, error)
+		)
+	}
+}
+
+/**
+ * Attempt pending deliveries whose retry time has passed, optionally only
+ * for one user's webhooks. Returns how many were attempted.
+ */
+const retryDueWebhookDeliveries = async (userId?: string): Promise<number> => {
+	const due = await db
+		.select({ id: webhookDeliveries.id })
+		.from(webhookDeliveries)
+		.innerJoin(webhooks, eq(webhooks.id, webhookDeliveries.webhookId))
+		.where(
+			and(
+				eq(webhookDeliveries.status, "pending"),
+				lte(webhookDeliveries.nextAttemptAt, new Date()),
+				userId ? eq(webhooks.userId, userId) : undefined
+			)
+		)
+		.orderBy(asc(webhookDeliveries.nextAttemptAt))
+		.limit(RETRY_BATCH_SIZE)
+
+	await attemptWebhookDeliveries(due.map((row) => row.id))
+	return due.length
+}
+
+/**
+ * Queue an event for every active webhook of the user that covers the
+ * account and subscribes to the event, then deliver it once the response
+ * has been sent (or right away with `immediate`).
+ * Never throws, so a misbehaving endpoint can't break the action that
+ * triggered it. Returns the ids of the queued deliveries.
+ */
+const emitWebhookEvent = async (input: EmitWebhookEventInput): Promise<string[]> => {
+	try {
+		const candidates = await db
+			.select({ id: webhooks.id, events: webhooks.events })
+			.from(webhooks)
+			.where(
+				and(
+					eq(webhooks.userId, input.userId),
+					eq(webhooks.isActive, true),
+					input.webhookId ? eq(webhooks.id, input.webhookId) : undefined,
+					input.accountId
+						? or(isNull(webhooks.accountId), eq(webhooks.accountId, input.accountId))
+						: undefined
+				)
+			)
+
+		const targets = candidates.filter((webhook) =>
+			webhookAcceptsEvent(parseWebhookEvents(webhook.events), input.event)
+		)
+		if (targets.length === 0) return []
+
+		const createdAt = new Date()
+		const values = targets.map((webhook) => {
+			const id = randomUUID()
+			const payload: WebhookPayload = {
+				id,
+				event: input.event,
+				createdAt: createdAt.toISOString(),
+				accountId: input.accountId,
+				data: input.data,
+			}
+			return {
+				id,
+				webhookId: webhook.id,
+				event: input.event,
+				dedupeKey: input.dedupeKey ?? null,
+				payload: JSON.stringify(payload),
+				nextAttemptAt: createdAt,
+				createdAt,
+			}
+		})
+
+		const inserted = await db
+			.insert(webhookDeliveries)
+			.values(values)
+			.onConflictDoNothing()
+			.returning({ id: webhookDeliveries.id })
+
+		const deliveryIds = inserted.map((row) => row.id)
+		if (input.immediate) {
+			await attemptWebhookDeliveries(deliveryIds)
+		} else if (deliveryIds.length > 0) {
+			runAfterResponse(async () => {
+				await attemptWebhookDeliveries(deliveryIds)
+				// Piggyback on the user's activity to flush retries that came due
+				await retryDueWebhookDeliveries(input.userId)
+			})
+		}
+
+		return deliveryIds
+	} catch (error) {
+		console.error("[webhooks] Failed to emit event:", input.event, error)
+		return []
+	}
+}
+
+/**
+ * Send an existing delivery again with its original payload, resetting its
+ * attempt count so the full retry schedule applies if it fails.
+ */
+const redeliverWebhookDelivery = async (deliveryId: string): Promise<void> => {
+	await db
+		.update(webhookDeliveries)
+		.set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), error: null })
+		.where(eq(webhookDeliveries.id, deliveryId))
+
+	await attemptWebhookDelivery(deliveryId)
+}
+
+/** Plain trade fields for trade.* payloads, decrypting stored values if needed */
+const buildTradeWebhookData = (trade: Trade, dek: string | null): TradeWebhookData => {
+	const plain = dek ? decryptTradeFields(trade, dek) : trade
+	const toNumber = (value: unknown): number | null =>
+		value === null || value === undefined || value === "" ? null : Number(value)
+
+	return {
+		tradeId: plain.id,
+		asset: plain.asset,
+		direction: plain.direction,
+		entryDate: plain.entryDate.toISOString(),
+		exitDate: plain.exitDate ? plain.exitDate.toISOString() : null,
+		entryPrice: Number(plain.entryPrice),
+		exitPrice: toNumber(plain.exitPrice),
+		positionSize: Number(plain.positionSize),
+		pnlCents: toNumber(plain.pnl),
+		outcome: plain.outcome,
+		realizedRMultiple: toNumber(plain.realizedRMultiple),
+	}
+}
+
+/**
+ * Emit trade.created for new trades and trade.closed when a trade gains an
+ * exit, either at creation, on a later update or when exit executions close it.
+ */
+const emitTradeWebhookEvents = async (
+	userId: string,
+	accountId: string | null,
+	trade: Trade,
+	dek: string | null,
+	change: { created: boolean; wasClosed?: boolean }
+): Promise<void> => {
+	const data = buildTradeWebhookData(trade, dek)
+
+	if (change.created) {
+		await emitWebhookEvent({ userId, accountId, event: "trade.created", data })
+	}
+	if (data.exitPrice !== null && !change.wasClosed) {
+		await emitWebhookEvent({
+			userId,
+			accountId,
+			event: "trade.closed",
+			data,
+			dedupeKey: `trade.closed:${trade.id}`,
+		})
+	}
+}
+
+/**
+ * Emit the risk events that hold for today. Both are deduped per account and
+ * day, so they fire when the state first turns true rather than on every
+ * status read.
+ */
+const emitRiskWebhookEvents = async (
+	userId: string,
+	accountId: string,
+	state: {
+		date: Date
+		dailyPnlCents: number
+		lossLimitHit: boolean
+		shouldStopTrading: boolean
+		reasons: string[]
+	}
+): Promise<void> => {
+	const dateKey = formatDateKey(state.date)
+	const data = { date: dateKey, dailyPnlCents: state.dailyPnlCents, reasons: state.reasons }
+
+	if (state.lossLimitHit) {
+		await emitWebhookEvent({
+			userId,
+			accountId,
+			event: "risk.daily_loss_limit_reached",
+			data,
+			dedupeKey: buildWebhookDedupeKey("risk.daily_loss_limit_reached", accountId, dateKey),
+		})
+	}
+	if (state.shouldStopTrading) {
+		await emitWebhookEvent({
+			userId,
+			accountId,
+			event: "risk.stop_trading",
+			data,
+			dedupeKey: buildWebhookDedupeKey("risk.stop_trading", accountId, dateKey),
+		})
+	}
+}
+
+export {
+	emitWebhookEvent,
+	emitTradeWebhookEvents,
+	emitRiskWebhookEvents,
+	retryDueWebhookDeliveries,
+	redeliverWebhookDelivery,
+	buildTradeWebhookData,
+	type EmitWebhookEventInput,
+}
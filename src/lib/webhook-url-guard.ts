@@ -0,0 +1,126 @@
+import { lookup as lookupCallback, type LookupAddress } from "dns"
+import { lookup } from "dns/promises"
+import { BlockList, isIP, type LookupFunction } from "net"
+
+/**
+ * Webhook URLs must not reach our own network: the server POSTs to them and the
+ * start of the response ends up in the delivery log the user can read.
+ *
+ * The host is resolved and every address checked against loopback, private,
+ * link-local, unique-local and other non-public ranges, when the webhook is saved
+ * and again before each delivery (DNS can change in between). Deliveries also
+ * connect through `guardedLookup`, which checks the addresses the connection
+ * actually uses, so a host can't pass the check and then rebind to an internal
+ * address. Hosts listed in WEBHOOK_ALLOWED_HOSTS (comma-separated, e.g. a local
+ * test receiver) skip the check.
+ */
+
+type WebhookUrlCheck = { allowed: true } | { allowed: false; reason: string }
+
+const BLOCKED_RANGES: Array<[string, number, "ipv4" | "ipv6"]> = [
+	["0.0.0.0", 8, "ipv4"], // "this" network
+	["10.0.0.0", 8, "ipv4"], // private
+	["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+	["127.0.0.0", 8, "ipv4"], // loopback
+	["169.254.0.0", 16, "ipv4"], // link-local, cloud metadata
+	["172.16.0.0", 12, "ipv4"], // private
+	["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+	["192.168.0.0", 16, "ipv4"], // private
+	["198.18.0.0", 15, "ipv4"], // benchmarking
+	["224.0.0.0", 4, "ipv4"], // multicast
+	["240.0.0.0", 4, "ipv4"], // reserved, broadcast
+	["::", 128, "ipv6"], // unspecified
+	["::1", 128, "ipv6"], // loopback
+	["64:ff9b::", 96, "ipv6"], // NAT64 (embeds IPv4)
+	["fc00::", 7, "ipv6"], // unique-local
+	["fe80::", 10, "ipv6"], // link-local
+	["ff00::", 8, "ipv6"], // multicast
+]
+
+const blockList = new BlockList()
+for (const [network, prefix, type] of BLOCKED_RANGES) {
+	blockList.addSubnet(network, prefix, type)
+}
+
+/**
+ * True when an IP literal falls in a range webhooks may not reach. BlockList also
+ * matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 ranges.
+ */
+const isBlockedAddress = (address: string): boolean => {
+	const version = isIP(address)
+	if (version === 0) return true
+	return blockList.check(address, version === 4 ? "ipv4" : "ipv6")
+}
+
+const getAllowedHosts = (): Set<string> =>
+	new Set(
+		(process.env.WEBHOOK_ALLOWED_HOSTS ?? "")
+			.split(",")
+			.map((host) => host.trim().toLowerCase())
+			.filter(Boolean)
+	)
+
+/**
+ * Resolves the URL's host and rejects it when any address is non-public.
+ * Never throws: unparseable URLs and failed lookups are reported as not allowed.
+ */
+const checkWebhookUrl = async (url: string): Promise<WebhookUrlCheck> => {
+	let hostname: string
+	try {
+		// IPv6 hosts come bracketed ("[::1]")
+		hostname = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase()
+	} catch {
+		return { allowed: false, reason: "Invalid URL" }
+	}
+
+	if (getAllowedHosts().has(hostname)) return { allowed: true }
+
+	let addresses: string[]
+	if (isIP(hostname)) {
+		addresses = [hostname]
+	} else {
+		try {
+			const results = await lookup(hostname, { all: true, verbatim: true })
+			addresses = results.map((result) => result.address)
+		} catch {
+			return { allowed: false, reason: `Host ${hostname} could not be resolved` }
+		}
+	}
+
+	if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+		return { allowed: false, reason: `Host ${hostname} resolves to a private or internal address` }
+	}
+	return { allowed: true }
+}
+
+/**
+ * `dns.lookup` for delivery sockets: resolves the host and fails the connection
+ * when any address is non-public, so the request goes to an address that was
+ * checked. IP literals never reach a lookup; `checkWebhookUrl` covers those.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+	if (getAllowedHosts().has(hostname.toLowerCase())) {
+		lookupCallback(hostname, options, callback)
+		return
+	}
+
+	lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+		if (error) {
+			callback(error, "")
+			return
+		}
+		if (addresses.length === 0 || addresses.some((result) => isBlockedAddress(result.address))) {
+			const blocked: NodeJS.ErrnoException = new Error(
+				`Host ${hostname} resolves to a private or internal address`
+			)
+			blocked.code = "EWEBHOOKBLOCKED"
+			callback(blocked, "")
+			return
+		}
+
+		if (options.all) callback(null, addresses)
+		else callback(null, addresses[0].address, addresses[0].family)
+	})
+}
+
+export { checkWebhookUrl, guardedLookup, isBlockedAddress, type WebhookUrlCheck }
@@ -0,0 +1,75 @@
+import type { WebhookEvent } from "@/types/webhook"
+
+// ==========================================
+// WEBHOOK HELPERS
+// ==========================================
+
+/** Events a webhook can subscribe to, in the order they are shown in Settings */
+const WEBHOOK_EVENTS: WebhookEvent[] = [
+	"trade.created",
+	"trade.closed",
+	"risk.daily_loss_limit_reached",
+	"risk.stop_trading",
+	"plan.rolled_over",
+	"import.completed",
+]
+
+/**
+ * Wait before each retry, indexed by the number of attempts already made.
+ * The first attempt happens right away; a delivery is marked failed once
+ * the schedule runs out.
+ */
+const WEBHOOK_RETRY_DELAYS_MS = [
+	60 * 1000,
+	5 * 60 * 1000,
+	30 * 60 * 1000,
+	2 * 60 * 60 * 1000,
+	12 * 60 * 60 * 1000,
+]
+
+const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1
+
+const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+	typeof value === "string" && WEBHOOK_EVENTS.includes(value as WebhookEvent)
+
+/** Parses the stored JSON event list, dropping anything unknown */
+const parseWebhookEvents = (raw: string): WebhookEvent[] => {
+	try {
+		const parsed: unknown = JSON.parse(raw)
+		return Array.isArray(parsed) ? parsed.filter(isWebhookEvent) : []
+	} catch {
+		return []
+	}
+}
+
+/** Test events bypass the filter so any webhook can be checked from Settings */
+const webhookAcceptsEvent = (events: WebhookEvent[], event: WebhookEvent): boolean =>
+	event === "webhook.test" || events.includes(event)
+
+/**
+ * When to try a delivery again after `attempts` failed attempts,
+ * or null when it should be given up on.
+ */
+const getNextWebhookAttemptAt = (attempts: number, now: Date = new Date()): Date | null => {
+	if (attempts < 1 || attempts >= WEBHOOK_MAX_ATTEMPTS) return null
+	return new Date(now.getTime() + WEBHOOK_RETRY_DELAYS_MS[attempts - 1])
+}
+
+/**
+ * Key for events that describe a state rather than a change (a limit being
+ * hit), so each one is delivered once per account per trading day however
+ * often the state is read.
+ */
+const buildWebhookDedupeKey = (event: WebhookEvent, accountId: string, dateKey: string): string =>
+	`${event}:${accountId}:${dateKey}`
+
+export {
+	WEBHOOK_EVENTS,
+	WEBHOOK_RETRY_DELAYS_MS,
+	WEBHOOK_MAX_ATTEMPTS,
+	isWebhookEvent,
+	parseWebhookEvents,
+	webhookAcceptsEvent,
+	getNextWebhookAttemptAt,
+	buildWebhookDedupeKey,
+}
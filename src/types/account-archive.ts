@@ -0,0 +1,33 @@
+/**
+ * Account archive types: where an uploaded archive goes and what its import
+ * wrote. The archive contents themselves are typed by the zod schema in
+ * lib/validations/account-archive.ts.
+ */
+
+/** Import into a freshly created account or merge into the current one */
+type AccountArchiveImportTarget = "new" | "current"
+
+/** Record groups reported by an archive import */
+type AccountArchiveSection =
+	| "trades"
+	| "executions"
+	| "strategies"
+	| "tags"
+	| "conditions"
+	| "monthlyPlans"
+	| "checklists"
+	| "checklistCompletions"
+	| "dailyNotes"
+	| "assetSettings"
+
+interface AccountArchiveImportResult {
+	accountId: string
+	accountName: string
+	createdAccount: boolean
+	/** Rows written per section */
+	imported: Record<AccountArchiveSection, number>
+	/** Rows left out per section: duplicates, existing records, unknown assets */
+	skipped: Record<AccountArchiveSection, number>
+}
+
+export type { AccountArchiveImportTarget, AccountArchiveSection, AccountArchiveImportResult }
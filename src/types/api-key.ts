@@ -0,0 +1,34 @@
+/**
+ * API key types: per-user tokens for the Arch API, each limited to a set of
+ * scopes and optionally to a single trading account.
+ */
+
+type ApiKeyScope =
+	| "trades:read"
+	| "trades:write"
+	| "analytics:read"
+	| "plans:read"
+	| "plans:write"
+	| "bugs:manage"
+
+/** A key as listed in Settings. The token itself is never returned after creation. */
+interface ApiKey {
+	id: string
+	name: string
+	keyPrefix: string
+	scopes: ApiKeyScope[]
+	accountId: string | null
+	accountName: string | null
+	expiresAt: Date | null
+	lastUsedAt: Date | null
+	revokedAt: Date | null
+	createdAt: Date
+}
+
+/** Returned once when a key is created: the only time the plain token is available */
+interface CreatedApiKey {
+	apiKey: ApiKey
+	token: string
+}
+
+export type { ApiKeyScope, ApiKey, CreatedApiKey }
@@ -0,0 +1,74 @@
+/**
+ * Field encryption maintenance types — migration/rotation jobs and the
+ * per-table coverage shown on the admin encryption status tab.
+ */
+
+/**
+ * encrypt_data: encrypt plaintext rows with each owner's DEK
+ * rotate_master_key: re-wrap every stored DEK with the current master key
+ * rotate_dek: move one user's rows onto a fresh DEK
+ */
+type EncryptionJobKind = "encrypt_data" | "rotate_master_key" | "rotate_dek"
+
+type EncryptionJobStatus = "running" | "completed" | "failed"
+
+/** Tables with per-user encrypted columns, in the order jobs walk them */
+type EncryptedTableName =
+	| "trading_accounts"
+	| "trades"
+	| "trade_executions"
+	| "monthly_plans"
+	| "daily_account_notes"
+	| "import_batch_trade_snapshots"
+	| "open_positions"
+	| "prop_rule_sets"
+	| "prop_evaluations"
+	| "tax_ledger_entries"
+
+interface TableEncryptionCoverage {
+	table: EncryptedTableName
+	totalRows: number
+	/** Rows whose encrypted columns are all ciphertext */
+	encryptedRows: number
+	/** Rows with at least one encrypted column still in plaintext */
+	plaintextRows: number
+	/** Rows where every encrypted column is null */
+	emptyRows: number
+}
+
+interface EncryptionJobSummary {
+	id: string
+	kind: EncryptionJobKind
+	userId: string | null
+	status: EncryptionJobStatus
+	cursorTable: string | null
+	rowsScanned: number
+	rowsUpdated: number
+	error: string | null
+	startedAt: Date
+	completedAt: Date | null
+}
+
+interface EncryptionStatus {
+	/** ENCRYPTION_MASTER_KEY is set and valid */
+	configured: boolean
+	/** ENCRYPTION_MASTER_KEY_PREVIOUS is set, i.e. a master key rotation is under way */
+	masterKeyRotationPending: boolean
+	users: {
+		total: number
+		withDek: number
+		/** Users with a DEK rotation in progress */
+		rotatingDek: number
+	}
+	tables: TableEncryptionCoverage[]
+	jobs: EncryptionJobSummary[]
+}
+
+export type {
+	EncryptionJobKind,
+	EncryptionJobStatus,
+	EncryptedTableName,
+	TableEncryptionCoverage,
+	EncryptionJobSummary,
+	EncryptionStatus,
+}
@@ -0,0 +1,33 @@
+/**
+ * Import history types: one batch per import run (CSV, OCR, detailed CSV, nota,
+ * account archive)
+ * with the counts shown in Settings and the outcome of a rollback.
+ */
+
+type ImportBatchSource = "csv" | "ocr" | "detailed_csv" | "nota" | "archive"
+
+type ImportBatchStatus = "completed" | "rolled_back"
+
+/** One import run as listed in the Import History panel */
+interface ImportBatch {
+	id: string
+	source: ImportBatchSource
+	sourceName: string | null // Broker or template label
+	fileName: string | null
+	fileHash: string | null
+	tradesCreated: number
+	tradesEnriched: number
+	executionsCreated: number
+	status: ImportBatchStatus
+	createdAt: Date
+	rolledBackAt: Date | null
+}
+
+/** What a rollback removed or restored */
+interface ImportBatchRollbackResult {
+	tradesDeleted: number
+	tradesRestored: number
+	executionsDeleted: number
+}
+
+export type { ImportBatchSource, ImportBatchStatus, ImportBatch, ImportBatchRollbackResult }
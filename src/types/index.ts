@@ -145,6 +145,41 @@ export interface RDistributionBucket {
 	pnl: number
 }
 
+// Excursion analytics (built on trades.mfeR / maeR)
+export interface ExitEfficiencyPoint {
+	tradeId: string
+	asset: string
+	mfeR: number
+	realizedR: number
+}
+
+export interface ExitEfficiencyData {
+	/** Trades with both MFE R and realized R */
+	sampleSize: number
+	/** Average share of the MFE kept at exit (realized R / MFE R), in %, over trades that moved in favor */
+	avgCapture: number
+	avgMfeR: number
+	avgRealizedR: number
+	points: ExitEfficiencyPoint[]
+}
+
+export interface StopEfficiencyData {
+	/** Winners with an MAE R */
+	winnerCount: number
+	avgWinnerMaeR: number
+	/** Winners whose MAE never reached -0.5R */
+	shallowWinnerPercent: number
+	buckets: RDistributionBucket[]
+}
+
+export interface MoneyLeftGroup {
+	group: string
+	tradeCount: number
+	/** Unrealized move past the exit, in money: (MFE R - realized R) x planned risk */
+	moneyLeft: number
+	avgCapture: number
+}
+
 // Execution Types (for position scaling)
 export type ExecutionType = "entry" | "exit"
 export type OrderType = "market" | "limit" | "stop" | "stop_limit"
@@ -381,4 +416,8 @@ export interface AnalyticsDashboardData {
 	timeHeatmap: TimeHeatmapCell[]
 	sessionPerformance: SessionPerformance[]
 	sessionAssetPerformance: SessionAssetPerformance[]
+	exitEfficiency: ExitEfficiencyData
+	stopEfficiency: StopEfficiencyData
+	moneyLeftByStrategy: MoneyLeftGroup[]
+	moneyLeftByAsset: MoneyLeftGroup[]
 }
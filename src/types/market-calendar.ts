@@ -0,0 +1,59 @@
+/**
+ * Market calendar types — exchange holidays and shortened sessions, plus the
+ * trading calendar built on top of them.
+ */
+
+type MarketCode = "B3" | "NYSE"
+
+/** closed: no session; half_day: the exchange opens late or closes early */
+type MarketSessionType = "closed" | "half_day"
+
+/** generated: produced by the holiday rules; manual: entered by an admin */
+type MarketHolidaySource = "generated" | "manual"
+
+interface MarketHoliday {
+	market: MarketCode
+	/** YYYY-MM-DD in the exchange's calendar */
+	date: string
+	name: string
+	nameEn: string
+	sessionType: MarketSessionType
+	/** HH:mm local time, half days only */
+	opensAt: string | null
+	closesAt: string | null
+	source: MarketHolidaySource
+}
+
+/** A holiday stored in market_holidays */
+interface MarketHolidayRecord extends MarketHoliday {
+	id: string
+	createdAt: Date
+	updatedAt: Date
+}
+
+/**
+ * Trading calendar for one market. Every method takes and returns YYYY-MM-DD
+ * date keys; half days count as trading days.
+ */
+interface TradingCalendar {
+	market: MarketCode
+	isTradingDay: (dateKey: string) => boolean
+	/** Holiday or half day on the date, or null for a regular day */
+	getHoliday: (dateKey: string) => MarketHoliday | null
+	getNextTradingDay: (dateKey: string) => string
+	getPreviousTradingDay: (dateKey: string) => string
+	/** Trading days between two dates, both ends inclusive */
+	listTradingDays: (fromKey: string, toKey: string) => string[]
+	countTradingDays: (fromKey: string, toKey: string) => number
+	/** Session a date belongs to: the date itself, or the next session when the market is closed */
+	getSessionKey: (dateKey: string) => string
+}
+
+export type {
+	MarketCode,
+	MarketSessionType,
+	MarketHolidaySource,
+	MarketHoliday,
+	MarketHolidayRecord,
+	TradingCalendar,
+}
@@ -1,3 +1,5 @@
+import type { PropRules, PropRuleViolationType } from "@/types/prop-evaluation"
+
 export type DataSource =
 	| { type: "strategy"; strategyId: string }
 	| { type: "all_strategies" }
@@ -10,6 +12,41 @@ export interface SimulationParams {
 	numberOfTrades: number
 	commissionImpactR: number    // commission as % of 1R (e.g. 2 = 2% of risk)
 	simulationCount: number
+	seed?: number                // PRNG seed; omitted = random, always set on results
+}
+
+/** How simulation inputs are provided: source stats, typed in, or resampled trades */
+export type InputMode = "auto" | "manual" | "empirical"
+
+/**
+ * plain: each trade is an independent draw from the realized R-multiples.
+ * block: runs of consecutive trades are drawn together so streaks survive.
+ */
+export type BootstrapMethod = "plain" | "block"
+
+export interface BootstrapConfig {
+	method: BootstrapMethod
+	blockLength: number          // trades per block (block method only)
+}
+
+/** Realized R-multiples (chronological) resampled in place of the win/loss draw */
+export interface EmpiricalRSource extends BootstrapConfig {
+	rMultiples: number[]
+}
+
+export interface BootstrapSummary extends BootstrapConfig {
+	sourceName: string
+	sampleSize: number
+	winRate: number              // % of decisive samples (breakevens excluded)
+	rewardRiskRatio: number      // avg winning R / avg losing R
+	breakevenRate: number        // % of all samples at exactly 0R
+}
+
+/** The same inputs simulated with the win/loss model and with resampled trades */
+export interface EmpiricalComparison<TResult> {
+	parametric: TResult
+	empirical: TResult
+	bootstrap: BootstrapSummary
 }
 
 export interface SourceStats {
@@ -91,11 +128,22 @@ export interface SimulationStatistics {
 	avgRecoveryTrades: number
 }
 
+/** Percentiles across all runs at one step of the equity path */
+export interface EquityFanPoint {
+	step: number                 // trade number (V1) or trading day (V2); 0 = start
+	p5: number
+	p25: number
+	p50: number
+	p75: number
+	p95: number
+}
+
 export interface MonteCarloResult {
 	params: SimulationParams
 	statistics: SimulationStatistics
 	distributionBuckets: DistributionBucket[]
 	sampleRun: SimulationRun
+	equityFan: EquityFanPoint[]  // cumulative R
 }
 
 export interface StrategyComparisonResult {
@@ -203,6 +251,9 @@ export interface SimulationParamsV2 {
 	initialBalance: number // cents
 	monthsToTrade: number // 1-48
 	ruinThresholdPercent: number // 0-100, default 50 — account loss % that constitutes "ruin"
+	profitTargetPercent: number // default 10 — gain over the initial balance that counts as reaching the target
+	drawdownFloorPercent: number // 1-99, default 10 — loss from the initial balance that ends the race to the target
+	seed?: number // PRNG seed; omitted = random, always set on results
 }
 
 /** The mode a trade was executed under within a simulated day. */
@@ -281,4 +332,123 @@ export interface MonteCarloResultV2 {
 	statistics: SimulationStatisticsV2
 	distributionBuckets: DistributionBucket[]
 	sampleRun: SimulationRunV2
+	equityFan: EquityFanPoint[] // balance in cents after each trading day
+	pathStatistics: PathStatisticsV2
+}
+
+/** How runs got to their final balance, from each run's day-by-day path */
+export interface PathStatisticsV2 {
+	targetBeforeFloorPercent: number // % of runs that reached the profit target before the drawdown floor
+	floorBeforeTargetPercent: number // % of runs that hit the drawdown floor first
+	medianDaysToTarget: number | null // trading days, among runs that reached the target first
+	medianLongestDrawdownDays: number
+	worstLongestDrawdownDays: number // P95
+	longestDrawdownBuckets: DistributionBucket[] // runs by longest drawdown, in trading days
+}
+
+/** A V2 run without its day detail, as kept by batched jobs */
+export interface SimulationRunSummaryV2 extends Omit<SimulationRunV2, "days"> {
+	runIndex: number
+	fanBalances: number[] // balance in cents at each equity fan step
+	daysToTarget: number | null // trading day the target was reached; null if never, or the floor came first
+	floorHitFirst: boolean
+	longestDrawdownDays: number // longest stretch of trading days below the running peak
+}
+
+// ==========================================
+// V2 BACKGROUND JOBS
+// ==========================================
+
+/** What the client posts to start a job; empirical jobs resample the source's R-multiples */
+export type MonteCarloV2JobRequest =
+	| { mode: "parametric"; params: SimulationParamsV2; source: DataSource | null }
+	| { mode: "empirical"; params: SimulationParamsV2; source: DataSource; bootstrap: BootstrapConfig }
+
+/** A finished job: the result shown, plus the parametric side for empirical runs */
+export interface MonteCarloV2JobResult {
+	result: MonteCarloResultV2
+	comparison: EmpiricalComparison<MonteCarloResultV2> | null
+}
+
+/** Streamed to the client while a job runs; the last event is never "progress" */
+export type MonteCarloV2JobEvent =
+	| {
+			type: "progress"
+			completedRuns: number
+			totalRuns: number
+			/** Statistics of the runs finished so far (null until the first batch) */
+			partial: SimulationStatisticsV2 | null
+	  }
+	| {
+			type: "completed"
+			result: MonteCarloV2JobResult
+			/** False when saving the run to the history failed; the result still stands */
+			recorded: boolean
+	  }
+	| { type: "failed"; message: string }
+	| { type: "cancelled" }
+
+// ==========================================
+// PROP CHALLENGE SIMULATION
+// ==========================================
+
+/**
+ * Rules of a prop firm challenge, in the terms of the live prop evaluation.
+ * The challenge starts on the first trading day of a week and ends after
+ * `maxCalendarDays`.
+ */
+export interface PropChallengeRules
+	extends Pick<
+		PropRules,
+		| "startingBalanceCents"
+		| "drawdownType"
+		| "maxDrawdownCents"
+		| "lockDrawdownAtStart"
+		| "dailyLossLimitCents"
+		| "minTradingDays"
+		| "consistencyPercent"
+	> {
+	profitTargetCents: number
+	maxCalendarDays: number
+}
+
+/** Why an attempt failed; "expired" = time ran out before passing */
+export type PropChallengeFailReason = Extract<
+	PropRuleViolationType,
+	"max_drawdown" | "daily_loss" | "expired"
+>
+
+export interface PropChallengeParams {
+	rules: PropChallengeRules
+	profile: RiskManagementProfileForSim
+	simulationCount: number
+	seed?: number // PRNG seed; omitted = random, always set on results
+}
+
+export interface PropChallengeStatistics {
+	passPercent: number
+	failPercent: Record<PropChallengeFailReason, number>
+	/** Reached the profit target but ran out of time on min days or consistency */
+	targetReachedNotPassedPercent: number
+	meanTradingDaysToPass: number | null // among passed attempts
+	meanCalendarDaysToPass: number | null
+	medianCalendarDaysToPass: number | null
+}
+
+export interface PropChallengeResult {
+	params: PropChallengeParams & { seed: number }
+	statistics: PropChallengeStatistics
+}
+
+/** The same challenge under one of the trader's risk profiles */
+export interface PropChallengeProfileResult {
+	profileId: string
+	profileName: string
+	result: PropChallengeResult
+}
+
+/** Every selected profile against one challenge, best pass rate first */
+export interface PropChallengeComparison {
+	stats: SourceStats
+	profiles: PropChallengeProfileResult[]
 }
@@ -0,0 +1,103 @@
+/**
+ * Price bar types — imported intraday OHLC bars, the trade chart built on
+ * them and the MFE/MAE excursions derived from them.
+ */
+
+/** Export formats the OHLC importer understands */
+type OhlcFileFormat = "profitchart" | "metatrader"
+
+/** One OHLC bar; `time` is the bar's open time */
+interface PriceBar {
+	time: Date
+	open: number
+	high: number
+	low: number
+	close: number
+	volume: number | null
+}
+
+interface OhlcParseError {
+	/** 1-based line number in the file */
+	line: number
+	message: string
+}
+
+interface OhlcParseResult {
+	format: OhlcFileFormat | null
+	/** Asset read from the file (ProfitChart "Ativo" column), if any */
+	asset: string | null
+	/** Parsed bars, oldest first, one per open time */
+	bars: PriceBar[]
+	errors: OhlcParseError[]
+}
+
+/** MFE/MAE as stored on a trade: extreme prices plus their size in R */
+interface TradeExcursion {
+	/** Best price reached while the trade was open */
+	mfe: number
+	/** Worst price reached while the trade was open */
+	mae: number
+	/** Favorable excursion in R (>= 0), null without a stop */
+	mfeR: number | null
+	/** Adverse excursion in R (<= 0), null without a stop */
+	maeR: number | null
+}
+
+/** A fill plotted on the trade chart */
+interface TradeChartExecution {
+	type: "entry" | "exit"
+	time: Date
+	price: number
+	quantity: number
+}
+
+/** A timeframe that has stored bars for the trade's asset */
+interface TradeChartTimeframe {
+	id: string
+	name: string
+	durationMs: number
+}
+
+interface TradeChartData {
+	asset: string
+	direction: "long" | "short"
+	timeframes: TradeChartTimeframe[]
+	/** Timeframe of `bars`, null when the asset has no bars around the trade */
+	timeframeId: string | null
+	bars: PriceBar[]
+	executions: TradeChartExecution[]
+	entryPrice: number
+	exitPrice: number | null
+	stopLoss: number | null
+	takeProfit: number | null
+	/** Excursion computed from `bars`, null when they don't cover the trade */
+	excursion: TradeExcursion | null
+}
+
+/** Outcome of one MFE/MAE backfill page */
+interface ExcursionBackfillResult {
+	/** Closed trades looked at in this page */
+	scanned: number
+	/** Trades updated from stored price bars */
+	fromBars: number
+	/** Trades updated from MFE/MAE values already on them */
+	fromStored: number
+	/** Trades with neither bar coverage nor usable stored values */
+	skipped: number
+	/** Pass as `cursor` to process the next page; null once every trade was scanned */
+	nextCursor: string | null
+	/** Trades still to scan after this page */
+	remaining: number
+}
+
+export type {
+	OhlcFileFormat,
+	PriceBar,
+	OhlcParseError,
+	OhlcParseResult,
+	TradeExcursion,
+	TradeChartExecution,
+	TradeChartTimeframe,
+	TradeChartData,
+	ExcursionBackfillResult,
+}
@@ -0,0 +1,134 @@
+/**
+ * Prop firm evaluation types — the rule set a prop account is evaluated against
+ * and the live status / daily history produced by `evaluatePropRules`.
+ *
+ * All money amounts are integer cents.
+ */
+
+/**
+ * How the max drawdown floor moves:
+ * - trailing: follows the highest balance after every closed trade
+ * - eod_trailing: follows the highest end-of-day balance
+ * - static: fixed at starting balance minus max drawdown
+ */
+type PropDrawdownType = "trailing" | "eod_trailing" | "static"
+
+type PropEvaluationStatusKind = "in_progress" | "at_risk" | "passed" | "failed"
+
+type PropRuleViolationType = "max_drawdown" | "daily_loss" | "scaling_plan" | "expired"
+
+/** Contract limit unlocked once profit reaches the threshold */
+interface PropScalingTier {
+	profitThresholdCents: number
+	maxContracts: number
+}
+
+interface PropRules {
+	startingBalanceCents: number
+	drawdownType: PropDrawdownType
+	maxDrawdownCents: number
+	/** Trailing floor stops moving once it reaches the starting balance */
+	lockDrawdownAtStart: boolean
+	dailyLossLimitCents: number | null
+	profitTargetCents: number | null
+	minTradingDays: number | null
+	/** Best day may be at most this percent of total profit */
+	consistencyPercent: number | null
+	scalingPlan: PropScalingTier[]
+	evaluationStartDate: Date
+	evaluationEndDate: Date | null
+}
+
+interface PropRuleSet extends PropRules {
+	id: string
+	accountId: string
+	createdAt: Date
+	updatedAt: Date
+}
+
+interface PropRuleViolation {
+	type: PropRuleViolationType
+	/** YYYY-MM-DD (BRT) of the day the rule was broken */
+	date: string
+}
+
+/** One closed trade fed into the evaluator */
+interface PropTradeInput {
+	closedAt: Date
+	pnlCents: number
+	contracts: number
+}
+
+/** Evaluation state at the end of one trading day */
+interface PropEvaluationDay {
+	date: string
+	status: PropEvaluationStatusKind
+	pnlCents: number
+	balanceCents: number
+	drawdownFloorCents: number
+	profitCents: number
+	tradingDays: number
+	consistencyPercent: number | null
+	violations: PropRuleViolation[]
+}
+
+/** Live status shown in the Command Center and Monthly pages */
+interface PropEvaluationStatus {
+	status: PropEvaluationStatusKind
+	balanceCents: number
+	peakBalanceCents: number
+	drawdownFloorCents: number
+	distanceToFloorCents: number
+	profitCents: number
+	profitTargetCents: number | null
+	profitProgressPercent: number | null
+	todayPnlCents: number
+	dailyLossRemainingCents: number | null
+	tradingDays: number
+	minTradingDays: number | null
+	tradingDaysRemaining: number | null
+	calendarDaysRemaining: number | null
+	bestDayCents: number
+	consistencyPercent: number | null
+	consistencyLimitPercent: number | null
+	isConsistencyMet: boolean
+	currentMaxContracts: number | null
+	nextScalingTier: PropScalingTier | null
+	violations: PropRuleViolation[]
+	/** Day the evaluation was decided (passed or failed), null while running */
+	decidedOn: string | null
+}
+
+interface PropEvaluationResult {
+	status: PropEvaluationStatus
+	days: PropEvaluationDay[]
+}
+
+/** Rule set with its live status, as returned to the pages */
+interface PropEvaluationOverview {
+	ruleSet: PropRuleSet
+	evaluation: PropEvaluationStatus
+}
+
+/** Stored history row (one per rule set and trading day) */
+interface PropEvaluationRecord extends PropEvaluationDay {
+	id: string
+	ruleSetId: string
+	updatedAt: Date
+}
+
+export type {
+	PropDrawdownType,
+	PropEvaluationStatusKind,
+	PropRuleViolationType,
+	PropScalingTier,
+	PropRules,
+	PropRuleSet,
+	PropRuleViolation,
+	PropTradeInput,
+	PropEvaluationDay,
+	PropEvaluationStatus,
+	PropEvaluationResult,
+	PropEvaluationOverview,
+	PropEvaluationRecord,
+}
@@ -0,0 +1,33 @@
+/**
+ * Replay session types — a replay account walks through past B3 trading days,
+ * starting at its replay start date and advancing one session at a time.
+ */
+
+/** One trading day of a replay session */
+interface ReplayDay {
+	/** YYYY-MM-DD in BRT */
+	date: string
+	pnlCents: number
+	tradeCount: number
+	isCurrent: boolean
+}
+
+interface ReplayTimeline {
+	startDate: string
+	currentDate: string
+	/** Trading days fully replayed, i.e. before the current day */
+	daysReplayed: number
+	/** Replayed days with at least one trade */
+	daysTraded: number
+	totalPnlCents: number
+	/** Every trading day from the start date through the current day */
+	days: ReplayDay[]
+}
+
+/** A trade as the timeline needs it: when it was entered and its result */
+interface ReplayTradeResult {
+	entryDate: Date
+	pnlCents: number | null
+}
+
+export type { ReplayDay, ReplayTimeline, ReplayTradeResult }
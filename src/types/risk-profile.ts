@@ -119,6 +119,15 @@ interface DecisionTreeConfig {
 	limitsR?: { daily: number; weekly: number | null; monthly: number }
 }
 
+/**
+ * Who can see a profile. Admin-managed profiles are "public"; user-created
+ * ones start "private" and become "shared" once their owner creates a link.
+ */
+type RiskProfileVisibility = "public" | "private" | "shared"
+
+/** How a profile relates to the user reading it. Only "mine" profiles are editable by traders. */
+type RiskProfileOwnership = "system" | "mine" | "shared"
+
 /**
  * A risk profile as returned from the DB, with the decision tree parsed from JSON.
  */
@@ -134,10 +143,51 @@ interface RiskManagementProfile {
 	monthlyLossCents: number
 	dailyProfitTargetCents: number | null
 	decisionTree: DecisionTreeConfig
+	currentVersion: number
+	visibility: RiskProfileVisibility
+	ownership: RiskProfileOwnership
 	createdAt: Date
 	updatedAt: Date
 }
 
+/** Where a personal profile is cloned from: a code-defined template or a visible profile */
+type RiskProfileCloneSource =
+	| { type: "template"; templateId: string }
+	| { type: "profile"; profileId: string }
+
+/**
+ * An immutable snapshot of a profile's rules. Every rule change creates a new
+ * version; monthly plans stay pinned to the version they were set up with.
+ */
+interface RiskProfileVersion {
+	id: string
+	profileId: string
+	version: number
+	name: string
+	description: string | null
+	baseRiskCents: number
+	dailyLossCents: number
+	weeklyLossCents: number | null
+	monthlyLossCents: number
+	dailyProfitTargetCents: number | null
+	decisionTree: DecisionTreeConfig
+	createdByUserId: string | null
+	createdAt: Date
+}
+
+type RiskProfileDiffKind = "added" | "removed" | "changed"
+
+/**
+ * One changed leaf between two versions. `path` uses dot notation with array
+ * indexes (e.g. "decisionTree.lossRecovery.sequence[1].maxContracts").
+ */
+interface RiskProfileDiffEntry {
+	path: string
+	kind: RiskProfileDiffKind
+	before: unknown
+	after: unknown
+}
+
 /**
  * Input shape for creating/updating a risk profile.
  */
@@ -161,6 +211,12 @@ export type {
 	DrawdownTier,
 	ConsecutiveLossRule,
 	DecisionTreeConfig,
+	RiskProfileVisibility,
+	RiskProfileOwnership,
 	RiskManagementProfile,
+	RiskProfileCloneSource,
 	RiskProfileInput,
+	RiskProfileVersion,
+	RiskProfileDiffKind,
+	RiskProfileDiffEntry,
 }
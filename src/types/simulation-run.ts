@@ -0,0 +1,117 @@
+import type {
+	BootstrapConfig,
+	BootstrapSummary,
+	DataSource,
+	DistributionBucket,
+	EmpiricalComparison,
+	EquityFanPoint,
+	MonteCarloResult,
+	MonteCarloResultV2,
+	SimulationParams,
+	SimulationParamsV2,
+	SimulationStatistics,
+	SimulationStatisticsV2,
+	SourceStats,
+} from "@/types/monte-carlo"
+import type {
+	RiskSimulationParams,
+	RiskSimulationResult,
+	SimulationSummary,
+} from "@/types/risk-simulation"
+
+/**
+ * Saved simulation runs: every Monte Carlo and risk simulation run is stored
+ * with its inputs and seed so it can be re-opened, renamed, deleted and
+ * compared against another run of the same kind.
+ */
+
+type SimulationRunKind = "monte_carlo" | "monte_carlo_v2" | "risk_simulation"
+
+/** Empirical-mode inputs; the R sample is kept so a re-open replays the same draws */
+interface SimulationRunEmpiricalInputs {
+	bootstrap: BootstrapConfig
+	rMultiples: number[]
+}
+
+/** What was simulated; `params` always carries the seed the engine used */
+type SimulationRunInputs =
+	| {
+			kind: "monte_carlo"
+			params: SimulationParams
+			source: DataSource | null // null = manual inputs
+			empirical: SimulationRunEmpiricalInputs | null
+	  }
+	| {
+			kind: "monte_carlo_v2"
+			params: SimulationParamsV2
+			source: DataSource | null
+			empirical: SimulationRunEmpiricalInputs | null
+	  }
+	| {
+			kind: "risk_simulation"
+			dateFrom: string
+			dateTo: string
+			params: RiskSimulationParams
+			profileVersionId: string | null
+	  }
+
+/** Headline statistics of the run (the empirical side for empirical runs) */
+type SimulationRunStatistics =
+	| { kind: "monte_carlo"; values: SimulationStatistics }
+	| { kind: "monte_carlo_v2"; values: SimulationStatisticsV2 }
+	| { kind: "risk_simulation"; values: SimulationSummary }
+
+/** Source stats at run time, or the bootstrap summary for empirical runs */
+type SimulationRunSourceStats =
+	| { type: "stats"; stats: SourceStats }
+	| { type: "bootstrap"; summary: BootstrapSummary }
+
+/** One run as listed in a history panel */
+interface SimulationRun {
+	id: string
+	kind: SimulationRunKind
+	name: string
+	seed: number | null
+	inputs: SimulationRunInputs
+	sourceStats: SimulationRunSourceStats | null
+	statistics: SimulationRunStatistics
+	createdAt: Date
+	updatedAt: Date
+}
+
+/** A run with the stored charts, for the compare view */
+interface SimulationRunDetail extends SimulationRun {
+	distribution: DistributionBucket[]
+	equityFan: EquityFanPoint[]
+}
+
+/** A run replayed from its inputs, ready to show in its simulator */
+type ReopenedSimulationRun =
+	| {
+			kind: "monte_carlo"
+			run: SimulationRun
+			result: MonteCarloResult
+			comparison: EmpiricalComparison<MonteCarloResult> | null
+	  }
+	| {
+			kind: "monte_carlo_v2"
+			run: SimulationRun
+			result: MonteCarloResultV2
+			comparison: EmpiricalComparison<MonteCarloResultV2> | null
+	  }
+	| {
+			kind: "risk_simulation"
+			run: SimulationRun
+			result: RiskSimulationResult
+	  }
+
+export type {
+	SimulationRunKind,
+	SimulationRunEmpiricalInputs,
+	SimulationRunInputs,
+	SimulationRunStatistics,
+	SimulationRunSourceStats,
+	SimulationRun,
+	SimulationRunDetail,
+	ReopenedSimulationRun,
+}
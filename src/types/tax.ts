@@ -0,0 +1,79 @@
+/**
+ * Brazilian income tax (IR) types for the monthly apuração of day trade and
+ * swing trade results, loss carry-forward and DARF generation.
+ */
+
+import type { TradingCalendar } from "@/types/market-calendar"
+
+/** Month-level inputs aggregated from closed trades and imported notas */
+interface MonthlyTaxInput {
+	year: number
+	month: number // 1-12
+	dayTradeResultCents: number
+	/** Swing results on non-stock assets (futures, options, etc.) — never exempt */
+	swingResultCents: number
+	/** Swing results on stocks — exempt when monthly stock sales stay under the threshold */
+	swingStockResultCents: number
+	swingStockSalesCents: number
+	irrfCents: number
+}
+
+interface TaxCalculationParams {
+	months: MonthlyTaxInput[]
+	dayTradeTaxRate: number // e.g. 20 = 20%
+	swingTradeTaxRate: number // e.g. 15 = 15%
+	/** Monthly stock sales exemption threshold in cents (0 disables the exemption) */
+	taxExemptThresholdCents: number
+	/** B3 calendar (stored holidays included) used for DARF due dates */
+	calendar: TradingCalendar
+}
+
+/** One computed month of the tax ledger. Loss carry values are positive amounts. */
+interface TaxLedgerEntry {
+	year: number
+	month: number
+	dayTradeResultCents: number
+	swingResultCents: number
+	swingStockSalesCents: number
+	swingExempt: boolean
+	dayTradeLossCarryInCents: number
+	swingLossCarryInCents: number
+	dayTradeLossCarryOutCents: number
+	swingLossCarryOutCents: number
+	dayTradeTaxableCents: number
+	swingTaxableCents: number
+	dayTradeTaxCents: number
+	swingTaxCents: number
+	dayTradeTaxRate: number
+	swingTradeTaxRate: number
+	irrfCents: number
+	irrfCreditUsedCents: number
+	irrfCreditCarryOutCents: number
+	darfCarryInCents: number
+	darfDueCents: number
+	darfCarryOutCents: number
+	darfDueDate: string // YYYY-MM-DD
+	darfPaidAt: string | null
+}
+
+/** Ledger for one calendar year, as returned to the Reports tax tab */
+interface TaxLedgerYear {
+	year: number
+	accountType: "personal" | "prop" | "replay"
+	entries: TaxLedgerEntry[]
+	totals: {
+		darfDueCents: number
+		darfPaidCents: number
+		irrfCents: number
+	}
+	/** Balances carried out of the last computed month of the year */
+	carryForward: {
+		dayTradeLossCents: number
+		swingLossCents: number
+		irrfCreditCents: number
+		darfCents: number
+	}
+	lastComputedAt: string | null
+}
+
+export type { MonthlyTaxInput, TaxCalculationParams, TaxLedgerEntry, TaxLedgerYear }
@@ -0,0 +1,77 @@
+/**
+ * Webhook types: user-configured endpoints that receive signed JSON payloads
+ * when trades, risk limits, plans or imports change.
+ */
+
+type WebhookEvent =
+	| "trade.created"
+	| "trade.closed"
+	| "risk.daily_loss_limit_reached"
+	| "risk.stop_trading"
+	| "plan.rolled_over"
+	| "import.completed"
+	| "webhook.test"
+
+type WebhookDeliveryStatus = "pending" | "succeeded" | "failed"
+
+/** A webhook as listed in Settings */
+interface Webhook {
+	id: string
+	name: string
+	url: string
+	secret: string
+	events: WebhookEvent[]
+	accountId: string | null
+	accountName: string | null
+	isActive: boolean
+	createdAt: Date
+	updatedAt: Date
+}
+
+/** One entry of a webhook's delivery log */
+interface WebhookDelivery {
+	id: string
+	webhookId: string
+	event: WebhookEvent
+	status: WebhookDeliveryStatus
+	attempts: number
+	responseStatus: number | null
+	responseBody: string | null
+	error: string | null
+	nextAttemptAt: Date | null
+	deliveredAt: Date | null
+	createdAt: Date
+}
+
+/** JSON body sent to the endpoint. `id` is the delivery id, stable across retries. */
+interface WebhookPayload<T = object> {
+	id: string
+	event: WebhookEvent
+	createdAt: string
+	accountId: string | null
+	data: T
+}
+
+/** Trade fields included in trade.created and trade.closed payloads */
+interface TradeWebhookData {
+	tradeId: string
+	asset: string
+	direction: "long" | "short"
+	entryDate: string
+	exitDate: string | null
+	entryPrice: number
+	exitPrice: number | null
+	positionSize: number
+	pnlCents: number | null
+	outcome: "win" | "loss" | "breakeven" | null
+	realizedRMultiple: number | null
+}
+
+export type {
+	WebhookEvent,
+	WebhookDeliveryStatus,
+	Webhook,
+	WebhookDelivery,
+	WebhookPayload,
+	TradeWebhookData,
+}